@@ -15,6 +15,8 @@ import LandingPage from './pages/LandingPage';
 import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import AuthSuccessPage from './pages/AuthSuccessPage';
+import ForgotPasswordPage from './pages/ForgotPasswordPage';
+import ResetPasswordPage from './pages/ResetPasswordPage';
 import DashboardPage from './pages/DashboardPage';
 import BookWritingPage from './pages/BookWritingPage';
 import DesignStudioPage from './pages/DesignStudioPage';
@@ -28,6 +30,9 @@ import SettingsPage from './pages/SettingsPage';
 import UpgradeSuccessPage from './pages/UpgradeSuccessPage';
 import ReaderPage from './pages/ReaderPage';
 import BookDetailsPage from './pages/BookDetailsPage';
+import SeriesPage from './pages/SeriesPage';
+import GiftsPage from './pages/GiftsPage';
+import GiftClaimPage from './pages/GiftClaimPage';
 import AuthorProfilePage from './pages/AuthorProfilePage';
 import AdminDashboard from './pages/admin/AdminDashboard';
 import AdminCheck from './components/AdminCheck';
@@ -66,6 +71,8 @@ function AppContent() {
         <Route path="/login" element={<LoginPage />} />
         <Route path="/register" element={<RegisterPage />} />
         <Route path="/auth-success" element={<AuthSuccessPage />} />
+        <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
 
         {/* Protected Routes with Layout */}
         <Route
@@ -178,6 +185,32 @@ function AppContent() {
             </Layout>
           }
         />
+        <Route
+          path="/series/:id"
+          element={
+            <Layout>
+              <SeriesPage />
+            </Layout>
+          }
+        />
+        <Route
+          path="/gifts"
+          element={
+            <RequireAuth>
+              <Layout>
+                <GiftsPage />
+              </Layout>
+            </RequireAuth>
+          }
+        />
+        <Route
+          path="/gifts/claim"
+          element={
+            <Layout>
+              <GiftClaimPage />
+            </Layout>
+          }
+        />
         <Route
           path="/profile/:id"
           element={
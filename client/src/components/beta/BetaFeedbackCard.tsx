@@ -0,0 +1,172 @@
+/**
+ * BetaFeedbackCard Component
+ * Shown to beta readers at the end of each chapter: a quick reaction,
+ * a star rating, the campaign's questions for the chapter and a free
+ * comment. Saving again replaces the reader's earlier feedback.
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Star, Loader2, Check } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GlassCard } from '../ui';
+import {
+  BETA_REACTIONS,
+  BetaFeedback,
+  BetaQuestion,
+  BetaReaction,
+  submitBetaFeedback,
+} from '../../services/betaReadApi';
+
+interface BetaFeedbackCardProps {
+  bookId: string;
+  chapterId: string;
+  questions: BetaQuestion[]; // Already narrowed to this chapter
+  feedback?: BetaFeedback;
+  accent: string;
+  onSaved: (feedback: BetaFeedback) => void;
+}
+
+function StarRating({ value, onChange }: { value?: number; onChange: (value: number) => void }) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button key={star} type="button" onClick={() => onChange(star)} className="focus:outline-none">
+          <Star
+            className={`w-6 h-6 transition-colors ${
+              value && star <= value ? 'fill-magic-gold text-magic-gold' : 'text-gray-600 hover:text-gray-400'
+            }`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export default function BetaFeedbackCard({
+  bookId,
+  chapterId,
+  questions,
+  feedback,
+  accent,
+  onSaved,
+}: BetaFeedbackCardProps) {
+  const { t } = useTranslation('common');
+  const [reaction, setReaction] = useState<BetaReaction | undefined>();
+  const [rating, setRating] = useState<number | undefined>();
+  const [answers, setAnswers] = useState<Record<string, { rating?: number; text?: string }>>({});
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Start from what the reader already said about this chapter
+  useEffect(() => {
+    setReaction(feedback?.reaction);
+    setRating(feedback?.rating);
+    setAnswers(Object.fromEntries((feedback?.answers || []).map((a) => [a.question, { rating: a.rating, text: a.text }])));
+    setComment(feedback?.comment || '');
+  }, [chapterId, feedback]);
+
+  const setAnswer = (questionId: string, value: { rating?: number; text?: string }) => {
+    setAnswers((current) => ({ ...current, [questionId]: value }));
+  };
+
+  const handleSubmit = async () => {
+    const given = questions
+      .map((q) => ({ question: q._id, ...answers[q._id] }))
+      .filter((a) => a.rating !== undefined || a.text?.trim());
+
+    if (!reaction && rating === undefined && given.length === 0 && !comment.trim()) {
+      toast.error(t('beta.feedback.empty'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await submitBetaFeedback(bookId, chapterId, {
+        reaction,
+        rating,
+        answers: given,
+        comment: comment.trim() || undefined,
+      });
+      onSaved(saved);
+      toast.success(t('beta.feedback.saved'));
+    } catch (err: any) {
+      console.error('Failed to save beta feedback:', err);
+      toast.error(err.response?.data?.error || t('beta.feedback.save_failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <GlassCard hover={false} className="max-w-2xl mx-auto mt-10 text-left">
+      <h3 className="font-display text-xl font-bold mb-1" style={{ color: accent }}>
+        {t('beta.feedback.title')}
+      </h3>
+      <p className="text-sm text-gray-400 mb-5">{t('beta.feedback.subtitle')}</p>
+
+      <div className="flex flex-wrap gap-2 mb-5">
+        {BETA_REACTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setReaction(reaction === option.value ? undefined : option.value)}
+            className={`px-3 py-2 rounded-xl text-sm transition-colors ${
+              reaction === option.value ? 'bg-magic-gold/20 text-magic-gold' : 'bg-white/5 text-gray-300 hover:bg-white/10'
+            }`}
+          >
+            <span className="mr-1">{option.emoji}</span>
+            {t(`beta.reactions.${option.value}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mb-5">
+        <span className="text-sm text-gray-300">{t('beta.feedback.rating')}</span>
+        <StarRating value={rating} onChange={setRating} />
+      </div>
+
+      {questions.map((question) => (
+        <div key={question._id} className="mb-5">
+          <p className="text-sm text-gray-300 mb-2">{question.prompt}</p>
+          {question.type === 'rating' ? (
+            <StarRating
+              value={answers[question._id]?.rating}
+              onChange={(value) => setAnswer(question._id, { rating: value })}
+            />
+          ) : (
+            <textarea
+              value={answers[question._id]?.text || ''}
+              onChange={(e) => setAnswer(question._id, { text: e.target.value })}
+              maxLength={2000}
+              rows={3}
+              className="input w-full resize-none"
+            />
+          )}
+        </div>
+      ))}
+
+      <textarea
+        value={comment}
+        onChange={(e) => setComment(e.target.value)}
+        placeholder={t('beta.feedback.comment_placeholder')}
+        maxLength={5000}
+        rows={3}
+        className="input w-full resize-none mb-4"
+      />
+
+      <div className="flex items-center justify-end gap-3">
+        {feedback && (
+          <span className="flex items-center gap-1 text-xs text-green-400">
+            <Check className="w-4 h-4" />
+            {t('beta.feedback.already_sent')}
+          </span>
+        )}
+        <button type="button" onClick={handleSubmit} disabled={saving} className="btn-primary flex items-center gap-2">
+          {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+          {feedback ? t('beta.feedback.update') : t('beta.feedback.submit')}
+        </button>
+      </div>
+    </GlassCard>
+  );
+}
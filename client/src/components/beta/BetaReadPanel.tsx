@@ -0,0 +1,437 @@
+/**
+ * BetaReadPanel Component
+ * The author's beta-read view on the book page: start a campaign with
+ * its questions, invite readers by email, and follow the results - how
+ * far readers got, where they stopped and how each chapter was rated.
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FlaskConical, Loader2, Plus, Send, Star, Trash2, X, TrendingDown } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GlassCard } from '../ui';
+import {
+  BETA_REACTIONS,
+  BetaCampaign,
+  BetaCampaignSummary,
+  BetaQuestionInput,
+  BetaReaderStatus,
+  createBetaCampaign,
+  getBetaCampaigns,
+  getBetaCampaignSummary,
+  inviteBetaReaders,
+  revokeBetaReader,
+  updateBetaCampaign,
+} from '../../services/betaReadApi';
+
+interface BetaReadPanelProps {
+  bookId: string;
+}
+
+const statusStyles: Record<BetaReaderStatus, string> = {
+  invited: 'bg-gray-500/20 text-gray-300',
+  reading: 'bg-indigo-500/20 text-indigo-300',
+  finished: 'bg-green-500/20 text-green-300',
+  expired: 'bg-yellow-500/20 text-yellow-300',
+  revoked: 'bg-red-500/20 text-red-300',
+};
+
+export default function BetaReadPanel({ bookId }: BetaReadPanelProps) {
+  const { t } = useTranslation('common');
+  const [campaigns, setCampaigns] = useState<BetaCampaign[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [summary, setSummary] = useState<BetaCampaignSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  // New campaign form
+  const [creating, setCreating] = useState(false);
+  const [title, setTitle] = useState('');
+  const [message, setMessage] = useState('');
+  const [accessDays, setAccessDays] = useState(30);
+  const [questions, setQuestions] = useState<BetaQuestionInput[]>([]);
+
+  const [emails, setEmails] = useState('');
+
+  const loadCampaigns = async () => {
+    try {
+      const list = await getBetaCampaigns(bookId);
+      setCampaigns(list);
+      setSelectedId((current) => current ?? list[0]?.id ?? null);
+    } catch (err) {
+      console.error('Failed to load beta campaigns:', err);
+      toast.error(t('beta.panel.load_failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadSummary = async (campaignId: string) => {
+    try {
+      setSummary(await getBetaCampaignSummary(bookId, campaignId));
+    } catch (err) {
+      console.error('Failed to load beta results:', err);
+      toast.error(t('beta.panel.load_failed'));
+    }
+  };
+
+  useEffect(() => {
+    loadCampaigns();
+  }, [bookId]);
+
+  useEffect(() => {
+    if (selectedId) loadSummary(selectedId);
+    else setSummary(null);
+  }, [selectedId]);
+
+  const hasActive = campaigns.some((c) => c.status === 'active');
+
+  const handleCreate = async () => {
+    if (!title.trim()) {
+      toast.error(t('beta.panel.title_required'));
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const campaign = await createBetaCampaign(bookId, {
+        title: title.trim(),
+        message: message.trim() || undefined,
+        accessDays,
+        questions: questions.filter((q) => q.prompt.trim()),
+      });
+      setCampaigns((list) => [campaign, ...list]);
+      setSelectedId(campaign.id);
+      setCreating(false);
+      setTitle('');
+      setMessage('');
+      setQuestions([]);
+    } catch (err: any) {
+      console.error('Failed to create beta campaign:', err);
+      toast.error(err.response?.data?.error || t('beta.panel.action_failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // Run a change to the selected campaign, then refresh it and its results
+  const withCampaign = async (action: (campaignId: string) => Promise<BetaCampaign>, success?: string) => {
+    if (!selectedId) return;
+    setBusy(true);
+    try {
+      const updated = await action(selectedId);
+      setCampaigns((list) => list.map((c) => (c.id === updated.id ? updated : c)));
+      await loadSummary(selectedId);
+      if (success) toast.success(success);
+    } catch (err: any) {
+      console.error('Beta campaign action failed:', err);
+      toast.error(err.response?.data?.error || t('beta.panel.action_failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInvite = () => {
+    const list = emails
+      .split(/[\s,;]+/)
+      .map((e) => e.trim())
+      .filter(Boolean);
+    if (list.length === 0) return;
+
+    withCampaign((id) => inviteBetaReaders(bookId, id, list), t('beta.panel.invited', { count: list.length })).then(
+      () => setEmails('')
+    );
+  };
+
+  const selected = campaigns.find((c) => c.id === selectedId);
+
+  if (loading) {
+    return (
+      <GlassCard hover={false} className="flex justify-center py-10">
+        <Loader2 className="w-6 h-6 animate-spin text-magic-gold" />
+      </GlassCard>
+    );
+  }
+
+  return (
+    <GlassCard hover={false}>
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <h2 className="text-3xl font-display font-bold text-magic-gold flex items-center gap-3">
+          <FlaskConical className="w-8 h-8" />
+          {t('beta.panel.title')}
+        </h2>
+
+        <div className="flex items-center gap-3">
+          {campaigns.length > 1 && (
+            <select value={selectedId ?? ''} onChange={(e) => setSelectedId(e.target.value)} className="input">
+              {campaigns.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.title} ({t(`beta.campaign_status.${c.status}`)})
+                </option>
+              ))}
+            </select>
+          )}
+          {!hasActive && !creating && (
+            <button onClick={() => setCreating(true)} className="btn-primary flex items-center gap-2">
+              <Plus className="w-4 h-4" />
+              {t('beta.panel.new_campaign')}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {creating && (
+        <div className="mb-8 p-4 rounded-xl bg-white/5 space-y-3">
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder={t('beta.panel.campaign_title')}
+            maxLength={120}
+            className="input w-full"
+          />
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            placeholder={t('beta.panel.message_placeholder')}
+            maxLength={2000}
+            rows={3}
+            className="input w-full resize-none"
+          />
+          <label className="flex items-center gap-3 text-sm text-gray-300">
+            {t('beta.panel.access_days')}
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={accessDays}
+              onChange={(e) => setAccessDays(Math.min(365, Math.max(1, Number(e.target.value) || 1)))}
+              className="input w-24"
+            />
+          </label>
+
+          <div>
+            <p className="text-sm text-gray-300 mb-2">{t('beta.panel.questions')}</p>
+            {questions.map((question, index) => (
+              <div key={index} className="flex gap-2 mb-2">
+                <input
+                  value={question.prompt}
+                  onChange={(e) =>
+                    setQuestions((list) => list.map((q, i) => (i === index ? { ...q, prompt: e.target.value } : q)))
+                  }
+                  placeholder={t('beta.panel.question_placeholder')}
+                  maxLength={300}
+                  className="input flex-1"
+                />
+                <select
+                  value={question.type}
+                  onChange={(e) =>
+                    setQuestions((list) =>
+                      list.map((q, i) => (i === index ? { ...q, type: e.target.value as BetaQuestionInput['type'] } : q))
+                    )
+                  }
+                  className="input"
+                >
+                  <option value="rating">{t('beta.question_type.rating')}</option>
+                  <option value="text">{t('beta.question_type.text')}</option>
+                </select>
+                <button
+                  onClick={() => setQuestions((list) => list.filter((_, i) => i !== index))}
+                  className="btn-ghost"
+                  title={t('beta.panel.remove_question')}
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+            {questions.length < 10 && (
+              <button
+                onClick={() => setQuestions((list) => [...list, { prompt: '', type: 'rating' }])}
+                className="btn-ghost text-sm flex items-center gap-1"
+              >
+                <Plus className="w-4 h-4" />
+                {t('beta.panel.add_question')}
+              </button>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setCreating(false)} className="btn-secondary">
+              {t('beta.panel.cancel')}
+            </button>
+            <button onClick={handleCreate} disabled={busy} className="btn-primary flex items-center gap-2">
+              {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+              {t('beta.panel.start')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!selected && !creating && <p className="text-gray-400">{t('beta.panel.empty')}</p>}
+
+      {selected && summary && (
+        <div className="space-y-8">
+          {/* Campaign header */}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="text-xl text-white font-semibold">{selected.title}</p>
+              <p className="text-sm text-gray-400">
+                {t(`beta.campaign_status.${selected.status}`)} · {t('beta.panel.access_length', { days: selected.accessDays })}
+              </p>
+            </div>
+            <button
+              onClick={() =>
+                withCampaign((id) =>
+                  updateBetaCampaign(bookId, id, { status: selected.status === 'active' ? 'closed' : 'active' })
+                )
+              }
+              disabled={busy || (selected.status === 'closed' && hasActive)}
+              className="btn-secondary"
+            >
+              {selected.status === 'active' ? t('beta.panel.close') : t('beta.panel.reopen')}
+            </button>
+          </div>
+
+          {/* Totals */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {(['invited', 'opened', 'finished', 'feedback'] as const).map((key) => (
+              <div key={key} className="p-4 rounded-xl bg-white/5 text-center">
+                <p className="text-2xl font-bold text-white">{summary.totals[key]}</p>
+                <p className="text-xs text-gray-400">{t(`beta.totals.${key}`)}</p>
+              </div>
+            ))}
+          </div>
+
+          {summary.dropOff && (
+            <div className="flex items-center gap-3 p-4 rounded-xl bg-red-500/10 text-red-200">
+              <TrendingDown className="w-5 h-5 flex-shrink-0" />
+              <span>
+                {t('beta.panel.drop_off', { chapter: summary.dropOff.title, count: summary.dropOff.readers })}
+              </span>
+            </div>
+          )}
+
+          {/* Invitations */}
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-3">{t('beta.panel.readers')}</h3>
+            {selected.status === 'active' && (
+              <div className="flex gap-2 mb-4">
+                <textarea
+                  value={emails}
+                  onChange={(e) => setEmails(e.target.value)}
+                  placeholder={t('beta.panel.emails_placeholder')}
+                  rows={2}
+                  className="input flex-1 resize-none"
+                />
+                <button
+                  onClick={handleInvite}
+                  disabled={busy || !emails.trim()}
+                  className="btn-primary flex items-center gap-2 self-start"
+                >
+                  <Send className="w-4 h-4" />
+                  {t('beta.panel.invite')}
+                </button>
+              </div>
+            )}
+
+            {summary.readers.length === 0 ? (
+              <p className="text-sm text-gray-400">{t('beta.panel.no_readers')}</p>
+            ) : (
+              <ul className="divide-y divide-white/10">
+                {summary.readers.map((reader) => (
+                  <li key={reader.id} className="flex items-center justify-between gap-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-white truncate">{reader.name || reader.email}</p>
+                      <p className="text-xs text-gray-400">
+                        {reader.furthestChapter >= 0
+                          ? t('beta.panel.reached', { chapter: summary.chapters[reader.furthestChapter]?.title })
+                          : t('beta.panel.not_started')}
+                        {' · '}
+                        {t('beta.panel.expires', { date: new Date(reader.expiresAt).toLocaleDateString() })}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className={`px-2 py-1 rounded-full text-xs ${statusStyles[reader.status]}`}>
+                        {t(`beta.reader_status.${reader.status}`)}
+                      </span>
+                      {selected.status === 'active' && reader.status !== 'revoked' && (
+                        <button
+                          onClick={() => withCampaign((id) => revokeBetaReader(bookId, id, reader.id))}
+                          disabled={busy}
+                          className="btn-ghost"
+                          title={t('beta.panel.revoke')}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Per-chapter results */}
+          <div>
+            <h3 className="text-lg font-semibold text-white mb-3">{t('beta.panel.chapters')}</h3>
+            <div className="space-y-3">
+              {summary.chapters.map((chapter) => (
+                <details key={chapter.chapterId} className="p-4 rounded-xl bg-white/5">
+                  <summary className="flex flex-wrap items-center justify-between gap-3 cursor-pointer">
+                    <span className="text-white">{chapter.title}</span>
+                    <span className="flex items-center gap-4 text-sm text-gray-300">
+                      <span>{t('beta.panel.reached_count', { count: chapter.readersReached })}</span>
+                      {chapter.averageRating !== null && (
+                        <span className="flex items-center gap-1">
+                          <Star className="w-4 h-4 fill-magic-gold text-magic-gold" />
+                          {chapter.averageRating.toFixed(1)}
+                        </span>
+                      )}
+                      <span>
+                        {BETA_REACTIONS.filter((r) => chapter.reactions[r.value] > 0).map((r) => (
+                          <span key={r.value} className="mr-2">
+                            {r.emoji} {chapter.reactions[r.value]}
+                          </span>
+                        ))}
+                      </span>
+                    </span>
+                  </summary>
+
+                  <div className="mt-4 space-y-3 text-sm">
+                    {chapter.feedbackCount === 0 && <p className="text-gray-400">{t('beta.panel.no_feedback')}</p>}
+                    {chapter.questions
+                      .filter((q) => q.responses > 0)
+                      .map((question) => (
+                        <div key={question.id}>
+                          <p className="text-gray-300">
+                            {question.prompt}
+                            {question.averageRating !== null && (
+                              <span className="ml-2 text-magic-gold">★ {question.averageRating.toFixed(1)}</span>
+                            )}
+                          </p>
+                          {question.answers.map((answer, index) => (
+                            <p key={index} className="mt-1 pl-3 border-l border-white/20 text-gray-400 whitespace-pre-line">
+                              {answer}
+                            </p>
+                          ))}
+                        </div>
+                      ))}
+                    {chapter.comments.length > 0 && (
+                      <div>
+                        <p className="text-gray-300">{t('beta.panel.comments')}</p>
+                        {chapter.comments.map((comment, index) => (
+                          <p key={index} className="mt-1 pl-3 border-l border-white/20 text-gray-400 whitespace-pre-line">
+                            {comment}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </details>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </GlassCard>
+  );
+}
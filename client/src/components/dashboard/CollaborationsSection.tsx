@@ -0,0 +1,132 @@
+/**
+ * CollaborationsSection Component
+ * Books the user was invited to work on: pending invitations to accept
+ * or decline, and accepted books to open in the editor
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { Users, Check, X, BookOpen, Edit } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Collaboration, getMyCollaborations, respondToInvitation } from '../../services/collaborationApi';
+
+export default function CollaborationsSection() {
+  const navigate = useNavigate();
+  const { t } = useTranslation('common');
+  const [collaborations, setCollaborations] = useState<Collaboration[]>([]);
+  const [responding, setResponding] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMyCollaborations()
+      .then(setCollaborations)
+      .catch((err) => console.error('Failed to load collaborations:', err));
+  }, []);
+
+  const handleRespond = async (collaboration: Collaboration, accept: boolean) => {
+    setResponding(collaboration.bookId);
+    try {
+      const collaborator = await respondToInvitation(collaboration.bookId, accept);
+      setCollaborations((prev) =>
+        accept
+          ? prev.map((c) =>
+              c.bookId === collaboration.bookId ? { ...c, collaborator: { ...c.collaborator, ...collaborator } } : c
+            )
+          : prev.filter((c) => c.bookId !== collaboration.bookId)
+      );
+      toast.success(accept ? t('dashboard.collaborations.accepted') : t('dashboard.collaborations.declined'));
+    } catch (err) {
+      console.error('Failed to respond to invitation:', err);
+      toast.error(t('dashboard.collaborations.respond_failed'));
+    } finally {
+      setResponding(null);
+    }
+  };
+
+  // Everyone works in the editor; beta readers get a read-only draft to comment on
+  const openBook = (collaboration: Collaboration) => {
+    navigate(`/editor/${collaboration.bookId}`);
+  };
+
+  if (collaborations.length === 0) return null;
+
+  return (
+    <div className="mb-12">
+      <div className="flex items-center gap-2 mb-4">
+        <Users className="w-5 h-5 text-indigo-400" />
+        <h2 className="text-lg sm:text-xl font-semibold text-white">{t('dashboard.collaborations.title')}</h2>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {collaborations.map((collaboration) => {
+          const pending = collaboration.collaborator.status === 'pending';
+
+          return (
+            <motion.div
+              key={collaboration.bookId}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              className="card p-4 flex gap-4"
+            >
+              <div className="w-14 h-20 rounded-lg bg-indigo-500/10 flex-shrink-0 overflow-hidden flex items-center justify-center">
+                {collaboration.coverImage ? (
+                  <img src={collaboration.coverImage} alt={collaboration.title} className="w-full h-full object-cover" />
+                ) : (
+                  <BookOpen className="w-6 h-6 text-indigo-400" />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-white truncate">{collaboration.title}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {t('dashboard.collaborations.by_author', { name: collaboration.author.name })}
+                </p>
+                <p className="text-xs text-indigo-300 mt-1">
+                  {t(`editor.collaboration.roles.${collaboration.collaborator.role}`)}
+                  {collaboration.collaborator.revenueShare > 0 &&
+                    ` · ${t('dashboard.collaborations.share', { share: collaboration.collaborator.revenueShare })}`}
+                </p>
+
+                <div className="flex items-center gap-2 mt-3">
+                  {pending ? (
+                    <>
+                      <button
+                        onClick={() => handleRespond(collaboration, true)}
+                        disabled={responding === collaboration.bookId}
+                        className="btn-primary text-xs px-3 py-1.5 flex items-center gap-1"
+                      >
+                        <Check className="w-3.5 h-3.5" />
+                        {t('dashboard.collaborations.accept')}
+                      </button>
+                      <button
+                        onClick={() => handleRespond(collaboration, false)}
+                        disabled={responding === collaboration.bookId}
+                        className="btn-ghost text-xs px-3 py-1.5 flex items-center gap-1"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                        {t('dashboard.collaborations.decline')}
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => openBook(collaboration)}
+                      className="btn-secondary text-xs px-3 py-1.5 flex items-center gap-1"
+                    >
+                      {collaboration.collaborator.role === 'beta-reader' ? (
+                        <BookOpen className="w-3.5 h-3.5" />
+                      ) : (
+                        <Edit className="w-3.5 h-3.5" />
+                      )}
+                      {t('dashboard.collaborations.open')}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </motion.div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
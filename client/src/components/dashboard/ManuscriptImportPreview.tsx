@@ -0,0 +1,192 @@
+/**
+ * ManuscriptImportPreview Component
+ * Shows the chapters detected in an uploaded manuscript so the author can
+ * rename or merge them before the book is created
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { FileText, Loader2, Merge, X, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { ManuscriptPreview, ImportedChapter, importManuscript } from '../../services/manuscriptApi';
+
+interface ManuscriptImportPreviewProps {
+  preview: ManuscriptPreview;
+  onClose: () => void;
+  onImported: (bookId: string) => void;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const toExcerpt = (html: string) => {
+  const text = html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+  return text.length > 160 ? `${text.slice(0, 160)}…` : text;
+};
+
+export default function ManuscriptImportPreview({ preview, onClose, onImported }: ManuscriptImportPreviewProps) {
+  const { t } = useTranslation('common');
+  const [title, setTitle] = useState(preview.fileName.replace(/\.[^/.]+$/, ''));
+  const [chapters, setChapters] = useState<ImportedChapter[]>(preview.chapters);
+  const [importing, setImporting] = useState(false);
+
+  const renameChapter = (index: number, value: string) => {
+    setChapters((prev) => prev.map((ch, i) => (i === index ? { ...ch, title: value } : ch)));
+  };
+
+  // Fold a wrongly detected chapter back into the one before it
+  const mergeWithPrevious = (index: number) => {
+    setChapters((prev) => {
+      const merged = [...prev];
+      const previous = merged[index - 1];
+      merged[index - 1] = {
+        ...previous,
+        content: `${previous.content}<p>${escapeHtml(merged[index].title)}</p>${merged[index].content}`,
+        wordCount: previous.wordCount + merged[index].wordCount,
+      };
+      merged.splice(index, 1);
+      return merged;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!title.trim()) {
+      toast.error(t('dashboard.messages.enter_title'));
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const book = await importManuscript({
+        title: title.trim(),
+        genre: 'Fiction', // Default genre
+        language: preview.language,
+        fileName: preview.fileName,
+        chapters: chapters.map((ch) => ({ title: ch.title, content: ch.content })),
+      });
+      toast.success(t('dashboard.messages.upload_success'));
+      onImported(book.id);
+    } catch (error: any) {
+      console.error('Import error:', error);
+      toast.error(error.response?.data?.error || t('dashboard.messages.upload_failed'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      onClick={() => !importing && onClose()}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="glass-strong rounded-2xl p-6 max-w-2xl w-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-purple-500 to-pink-600 flex items-center justify-center">
+              <FileText className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h2 className="text-xl font-bold gradient-gold">{t('dashboard.modals.import_preview.title')}</h2>
+              <p className="text-sm text-gray-400">
+                {t('dashboard.modals.import_preview.summary', {
+                  format: preview.format.toUpperCase(),
+                  chapters: chapters.length,
+                  words: preview.wordCount.toLocaleString(),
+                })}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={importing}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-400" />
+          </button>
+        </div>
+
+        {/* Book Title */}
+        <label className="block text-sm text-gray-300 mb-2">{t('dashboard.modals.import_preview.book_title')}</label>
+        <input
+          type="text"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="w-full bg-white/5 border border-white/10 rounded-lg px-4 py-3 text-gray-100 mb-4 focus:outline-none focus:ring-2 focus:ring-cyan-500/50"
+          dir="auto"
+        />
+
+        {!preview.chaptersDetected && (
+          <div className="flex items-center gap-2 text-sm text-yellow-400 mb-4">
+            <AlertCircle className="w-4 h-4 flex-shrink-0" />
+            {t('dashboard.modals.import_preview.no_chapters')}
+          </div>
+        )}
+
+        {/* Detected Chapters */}
+        <div className="flex-1 overflow-y-auto space-y-2 mb-4">
+          {chapters.map((chapter, index) => (
+            <div key={index} className="p-3 rounded-xl border border-white/10 bg-white/5">
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 w-6">{index + 1}</span>
+                <input
+                  type="text"
+                  value={chapter.title}
+                  onChange={(e) => renameChapter(index, e.target.value)}
+                  className="flex-1 bg-transparent border-b border-white/10 focus:border-magic-gold outline-none text-white text-sm py-1"
+                  dir="auto"
+                />
+                <span className="text-xs text-gray-400 whitespace-nowrap">
+                  {chapter.wordCount.toLocaleString()} {t('editor.statistics.words_unit')}
+                </span>
+                {index > 0 && (
+                  <button
+                    onClick={() => mergeWithPrevious(index)}
+                    title={t('dashboard.modals.import_preview.merge')}
+                    className="p-1 hover:bg-white/10 rounded transition-colors"
+                  >
+                    <Merge className="w-4 h-4 text-gray-400" />
+                  </button>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-2 line-clamp-2" dir="auto">
+                {toExcerpt(chapter.content)}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {/* Actions */}
+        <div className="flex gap-3">
+          <button onClick={onClose} disabled={importing} className="btn-ghost flex-1">
+            {t('buttons.cancel')}
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={importing || chapters.length === 0}
+            className="btn-primary flex-1 flex items-center justify-center gap-2"
+          >
+            {importing ? (
+              <>
+                <Loader2 className="w-5 h-5 animate-spin" />
+                {t('dashboard.modals.upload.processing')}
+              </>
+            ) : (
+              t('dashboard.modals.import_preview.import')
+            )}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,278 @@
+/**
+ * SeriesSection Component
+ * The author's book series: create one, put books in reading order, set
+ * a bundle price, and open the public series page
+ */
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { Library, Plus, Edit, Trash2, ArrowUp, ArrowDown, X, ExternalLink, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  AuthorSeries,
+  getMySeries,
+  createSeries,
+  updateSeries,
+  deleteSeries,
+} from '../../services/seriesApi';
+
+interface SeriesSectionProps {
+  books: Array<{ id: string; title: string }>;
+}
+
+interface SeriesForm {
+  id?: string;
+  title: string;
+  description: string;
+  coverImageUrl: string;
+  bundlePrice: string;
+  books: string[];
+}
+
+const EMPTY_FORM: SeriesForm = { title: '', description: '', coverImageUrl: '', bundlePrice: '', books: [] };
+
+export default function SeriesSection({ books }: SeriesSectionProps) {
+  const navigate = useNavigate();
+  const { t } = useTranslation('common');
+  const [series, setSeries] = useState<AuthorSeries[]>([]);
+  const [form, setForm] = useState<SeriesForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getMySeries()
+      .then(setSeries)
+      .catch((err) => console.error('Failed to load series:', err));
+  }, []);
+
+  // A book can only be in one series, so offer the ones no other series holds
+  const takenBooks = new Set(
+    series.filter((s) => s._id !== form?.id).flatMap((s) => s.books.map((book) => book._id))
+  );
+  const bookTitle = (bookId: string) =>
+    books.find((book) => book.id === bookId)?.title ??
+    series.flatMap((s) => s.books).find((book) => book._id === bookId)?.title ??
+    bookId;
+  const addableBooks = books.filter((book) => !takenBooks.has(book.id) && !form?.books.includes(book.id));
+
+  const startEdit = (item: AuthorSeries) => {
+    setForm({
+      id: item._id,
+      title: item.title,
+      description: item.description ?? '',
+      coverImageUrl: item.coverImageUrl ?? '',
+      bundlePrice: item.bundlePrice ? String(item.bundlePrice) : '',
+      books: item.books.map((book) => book._id),
+    });
+  };
+
+  const moveBook = (index: number, offset: number) => {
+    if (!form) return;
+    const order = [...form.books];
+    const [moved] = order.splice(index, 1);
+    order.splice(index + offset, 0, moved);
+    setForm({ ...form, books: order });
+  };
+
+  const handleSave = async () => {
+    if (!form || !form.title.trim()) {
+      toast.error(t('dashboard.series.title_required'));
+      return;
+    }
+    setSaving(true);
+    try {
+      const input = {
+        title: form.title.trim(),
+        description: form.description.trim() || null,
+        coverImageUrl: form.coverImageUrl.trim() || null,
+        bundlePrice: form.bundlePrice ? parseFloat(form.bundlePrice) : null,
+        books: form.books,
+      };
+      const saved = form.id ? await updateSeries(form.id, input) : await createSeries(input);
+      setSeries((prev) => (form.id ? prev.map((s) => (s._id === saved._id ? saved : s)) : [saved, ...prev]));
+      setForm(null);
+      toast.success(t('dashboard.series.saved'));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || t('dashboard.series.save_failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: AuthorSeries) => {
+    if (!confirm(t('dashboard.series.delete_confirm', { title: item.title }))) return;
+    try {
+      await deleteSeries(item._id);
+      setSeries((prev) => prev.filter((s) => s._id !== item._id));
+      if (form?.id === item._id) setForm(null);
+      toast.success(t('dashboard.series.deleted'));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || t('dashboard.series.delete_failed'));
+    }
+  };
+
+  if (books.length === 0) return null;
+
+  return (
+    <div className="mt-12">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Library className="w-5 h-5 text-purple-400" />
+          <h2 className="text-lg sm:text-xl font-semibold text-white">{t('dashboard.series.title')}</h2>
+        </div>
+        {!form && (
+          <button
+            onClick={() => setForm(EMPTY_FORM)}
+            className="btn-secondary text-xs px-3 py-1.5 flex items-center gap-1"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            {t('dashboard.series.new')}
+          </button>
+        )}
+      </div>
+
+      {form && (
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="card p-4 mb-6 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className="input w-full"
+              placeholder={t('dashboard.series.title_placeholder')}
+              maxLength={200}
+            />
+            <input
+              type="url"
+              value={form.coverImageUrl}
+              onChange={(e) => setForm({ ...form, coverImageUrl: e.target.value })}
+              className="input w-full"
+              placeholder={t('dashboard.series.cover_placeholder')}
+            />
+          </div>
+          <textarea
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            className="input w-full"
+            rows={2}
+            placeholder={t('dashboard.series.description_placeholder')}
+            maxLength={2000}
+          />
+
+          <div>
+            <p className="text-sm text-gray-300 mb-2">{t('dashboard.series.reading_order')}</p>
+            {form.books.length === 0 && <p className="text-xs text-gray-500 mb-2">{t('dashboard.series.no_books')}</p>}
+            <div className="space-y-1">
+              {form.books.map((bookId, index) => (
+                <div key={bookId} className="flex items-center gap-2 p-2 rounded-lg bg-white/5 text-sm">
+                  <span className="w-6 text-center text-gray-400">{index + 1}</span>
+                  <span className="flex-1 text-white truncate">{bookTitle(bookId)}</span>
+                  <button
+                    onClick={() => moveBook(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 rounded hover:bg-white/10 text-gray-400 disabled:opacity-30"
+                    title={t('dashboard.series.move_up')}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveBook(index, 1)}
+                    disabled={index === form.books.length - 1}
+                    className="p-1 rounded hover:bg-white/10 text-gray-400 disabled:opacity-30"
+                    title={t('dashboard.series.move_down')}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setForm({ ...form, books: form.books.filter((id) => id !== bookId) })}
+                    className="p-1 rounded hover:bg-red-500/20 text-gray-400 hover:text-red-400"
+                    title={t('dashboard.series.remove')}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {addableBooks.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => e.target.value && setForm({ ...form, books: [...form.books, e.target.value] })}
+                className="input w-full mt-2"
+              >
+                <option value="">{t('dashboard.series.add_book')}</option>
+                {addableBooks.map((book) => (
+                  <option key={book.id} value={book.id}>
+                    {book.title}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div>
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={form.bundlePrice}
+              onChange={(e) => setForm({ ...form, bundlePrice: e.target.value })}
+              className="input w-40"
+              placeholder={t('dashboard.series.bundle_price')}
+            />
+            <p className="text-xs text-gray-500 mt-1">{t('dashboard.series.bundle_hint')}</p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <button onClick={handleSave} disabled={saving} className="btn-primary text-xs px-4 py-1.5 flex items-center gap-1">
+              {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              {t('dashboard.series.save')}
+            </button>
+            <button onClick={() => setForm(null)} className="btn-ghost text-xs px-4 py-1.5">
+              {t('dashboard.series.cancel')}
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      {series.length === 0 && !form ? (
+        <p className="text-sm text-gray-400">{t('dashboard.series.empty')}</p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {series.map((item) => (
+            <div key={item._id} className="card p-4">
+              <p className="text-sm font-semibold text-white truncate">{item.title}</p>
+              <p className="text-xs text-gray-400">
+                {t('dashboard.series.book_count', { count: item.books.length })}
+                {item.bundlePrice && ` · ${t('dashboard.series.bundle', { price: item.bundlePrice.toFixed(2) })}`}
+              </p>
+              <div className="flex items-center gap-2 mt-3">
+                <button
+                  onClick={() => startEdit(item)}
+                  className="btn-secondary text-xs px-3 py-1.5 flex items-center gap-1"
+                >
+                  <Edit className="w-3.5 h-3.5" />
+                  {t('dashboard.series.edit')}
+                </button>
+                <button
+                  onClick={() => navigate(`/series/${item._id}`)}
+                  className="btn-ghost text-xs px-3 py-1.5 flex items-center gap-1"
+                >
+                  <ExternalLink className="w-3.5 h-3.5" />
+                  {t('dashboard.series.view')}
+                </button>
+                <button
+                  onClick={() => handleDelete(item)}
+                  className="p-1.5 rounded hover:bg-red-500/20 text-gray-400 hover:text-red-400 ml-auto"
+                  title={t('dashboard.series.delete')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+/**
+ * WritingGoalsWidget Component
+ * The author's daily word goal and streak, the last 30 days of writing,
+ * book deadlines with the pace they need, and reminder settings
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { Target, Flame, Clock, Settings, Plus, Trash2, CalendarDays } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  WritingDashboard,
+  BookGoalStatus,
+  getWritingGoals,
+  updateWritingGoals,
+  setBookGoal,
+  removeBookGoal,
+} from '../../services/writingGoalApi';
+
+interface WritingGoalsWidgetProps {
+  books: Array<{ id: string; title: string }>;
+}
+
+const STATUS_STYLES: Record<BookGoalStatus, string> = {
+  done: 'text-emerald-400',
+  on_track: 'text-indigo-300',
+  behind: 'text-amber-400',
+  overdue: 'text-red-400',
+};
+
+export default function WritingGoalsWidget({ books }: WritingGoalsWidgetProps) {
+  const { t, i18n } = useTranslation('common');
+  const [goals, setGoals] = useState<WritingDashboard | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [dailyWords, setDailyWords] = useState(0);
+  const [reminderEnabled, setReminderEnabled] = useState(false);
+  const [reminderHour, setReminderHour] = useState(19);
+  const [goalBookId, setGoalBookId] = useState('');
+  const [goalTarget, setGoalTarget] = useState('');
+  const [goalDeadline, setGoalDeadline] = useState('');
+
+  const applyGoals = (data: WritingDashboard) => {
+    setGoals(data);
+    setDailyWords(data.settings.dailyWords);
+    setReminderEnabled(data.settings.reminder.enabled);
+    setReminderHour(data.settings.reminder.hour);
+  };
+
+  useEffect(() => {
+    getWritingGoals()
+      .then(applyGoals)
+      .catch((err) => console.error('Failed to load writing goals:', err));
+  }, []);
+
+  const handleSaveSettings = async () => {
+    setSaving(true);
+    try {
+      applyGoals(
+        await updateWritingGoals({
+          dailyWords,
+          // Days and reminders follow the browser's timezone
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          reminder: { enabled: reminderEnabled, hour: reminderHour },
+        })
+      );
+      setShowSettings(false);
+      toast.success(t('dashboard.goals.saved'));
+    } catch (err) {
+      console.error('Failed to save writing goals:', err);
+      toast.error(t('dashboard.goals.save_failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddBookGoal = async () => {
+    if (!goalBookId || !goalDeadline) return;
+
+    setSaving(true);
+    try {
+      applyGoals(
+        await setBookGoal(goalBookId, {
+          targetWords: goalTarget ? Number(goalTarget) : undefined,
+          // The deadline is the end of the chosen day, in local time
+          deadline: new Date(`${goalDeadline}T23:59:59`).toISOString(),
+        })
+      );
+      setGoalBookId('');
+      setGoalTarget('');
+      setGoalDeadline('');
+      toast.success(t('dashboard.goals.saved'));
+    } catch (err: any) {
+      console.error('Failed to set book goal:', err);
+      toast.error(err.response?.data?.error || t('dashboard.goals.save_failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveBookGoal = async (bookId: string) => {
+    try {
+      applyGoals(await removeBookGoal(bookId));
+    } catch (err) {
+      console.error('Failed to remove book goal:', err);
+      toast.error(t('dashboard.goals.save_failed'));
+    }
+  };
+
+  if (!goals || books.length === 0) return null;
+
+  const { today, streak, history, bookGoals } = goals;
+  const goal = goals.settings.dailyWords;
+  const todayPercent = goal > 0 ? Math.min(100, Math.round((Math.max(0, today.words) / goal) * 100)) : 0;
+  const maxWords = Math.max(goal, ...history.map((day) => day.words), 1);
+  const booksWithoutGoal = books.filter((book) => !bookGoals.some((g) => g.bookId === book.id));
+  const formatDate = (value: string) => new Date(value).toLocaleDateString(i18n.language);
+
+  return (
+    <div className="mb-12">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Target className="w-5 h-5 text-emerald-400" />
+          <h2 className="text-lg sm:text-xl font-semibold text-white">{t('dashboard.goals.title')}</h2>
+        </div>
+        <button
+          onClick={() => setShowSettings((prev) => !prev)}
+          className="btn-ghost text-xs px-3 py-1.5 flex items-center gap-1"
+        >
+          <Settings className="w-3.5 h-3.5" />
+          {t('dashboard.goals.settings')}
+        </button>
+      </div>
+
+      {showSettings && (
+        <motion.div initial={{ opacity: 0, y: -5 }} animate={{ opacity: 1, y: 0 }} className="card p-4 mb-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+            <label className="block">
+              <span className="text-xs text-gray-400">{t('dashboard.goals.daily_words')}</span>
+              <input
+                type="number"
+                min={0}
+                max={50000}
+                step={50}
+                value={dailyWords}
+                onChange={(e) => setDailyWords(Math.max(0, Number(e.target.value) || 0))}
+                className="input w-full mt-1"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={reminderEnabled}
+                onChange={(e) => setReminderEnabled(e.target.checked)}
+                disabled={dailyWords === 0}
+              />
+              {t('dashboard.goals.reminder')}
+            </label>
+            <label className="block">
+              <span className="text-xs text-gray-400">{t('dashboard.goals.reminder_hour')}</span>
+              <select
+                value={reminderHour}
+                onChange={(e) => setReminderHour(Number(e.target.value))}
+                disabled={!reminderEnabled || dailyWords === 0}
+                className="input w-full mt-1"
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>
+                    {`${String(hour).padStart(2, '0')}:00`}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <p className="text-xs text-gray-500 mt-2">{t('dashboard.goals.reminder_hint')}</p>
+          <div className="flex justify-end mt-3">
+            <button onClick={handleSaveSettings} disabled={saving} className="btn-primary text-xs px-4 py-1.5">
+              {t('dashboard.goals.save')}
+            </button>
+          </div>
+        </motion.div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+        <div className="card p-4">
+          <p className="text-xs text-gray-400">{t('dashboard.goals.today')}</p>
+          <p className="text-2xl font-bold text-white mt-1">
+            {today.words.toLocaleString()}
+            {goal > 0 && <span className="text-sm font-normal text-gray-400"> / {goal.toLocaleString()}</span>}
+          </p>
+          {goal > 0 ? (
+            <div className="h-2 rounded-full bg-white/10 mt-2 overflow-hidden">
+              <div
+                className={`h-full rounded-full ${today.goalMet ? 'bg-emerald-400' : 'bg-indigo-400'}`}
+                style={{ width: `${todayPercent}%` }}
+              />
+            </div>
+          ) : (
+            <p className="text-xs text-gray-500 mt-2">{t('dashboard.goals.no_daily_goal')}</p>
+          )}
+        </div>
+
+        <div className="card p-4">
+          <p className="text-xs text-gray-400">{t('dashboard.goals.streak')}</p>
+          <p className="text-2xl font-bold text-white mt-1 flex items-center gap-2">
+            <Flame className={`w-6 h-6 ${streak.current > 0 ? 'text-orange-400' : 'text-gray-600'}`} />
+            {t('dashboard.goals.days', { count: streak.current })}
+          </p>
+          <p className="text-xs text-gray-500 mt-2">{t('dashboard.goals.longest', { count: streak.longest })}</p>
+        </div>
+
+        <div className="card p-4">
+          <p className="text-xs text-gray-400">{t('dashboard.goals.time_today')}</p>
+          <p className="text-2xl font-bold text-white mt-1 flex items-center gap-2">
+            <Clock className="w-6 h-6 text-indigo-400" />
+            {t('dashboard.goals.minutes', { count: Math.round(today.minutes) })}
+          </p>
+          <p className="text-xs text-gray-500 mt-2">{t('dashboard.goals.sessions', { count: today.sessions })}</p>
+        </div>
+      </div>
+
+      <div className="card p-4 mb-4">
+        <p className="text-xs text-gray-400 mb-3">{t('dashboard.goals.last_30_days')}</p>
+        <div className="flex items-end gap-1 h-24">
+          {history.map((day) => (
+            <div
+              key={day.date}
+              title={`${formatDate(day.date)}: ${day.words.toLocaleString()}`}
+              className={`flex-1 rounded-t ${day.goalMet ? 'bg-emerald-400' : day.words > 0 ? 'bg-indigo-400/70' : 'bg-white/10'}`}
+              style={{ height: `${Math.max(4, (Math.max(0, day.words) / maxWords) * 100)}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="card p-4">
+        <div className="flex items-center gap-2 mb-3">
+          <CalendarDays className="w-4 h-4 text-indigo-400" />
+          <p className="text-sm font-semibold text-white">{t('dashboard.goals.deadlines')}</p>
+        </div>
+
+        {bookGoals.length === 0 && <p className="text-xs text-gray-500 mb-3">{t('dashboard.goals.no_deadlines')}</p>}
+
+        <div className="space-y-3">
+          {bookGoals.map((bookGoal) => (
+            <div key={bookGoal.bookId}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-white truncate">{bookGoal.title}</p>
+                <button
+                  onClick={() => handleRemoveBookGoal(bookGoal.bookId)}
+                  className="text-gray-500 hover:text-red-400"
+                  title={t('dashboard.goals.remove')}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <div className="h-1.5 rounded-full bg-white/10 mt-1 overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-indigo-400"
+                  style={{ width: `${Math.min(100, (bookGoal.wordsWritten / bookGoal.targetWords) * 100)}%` }}
+                />
+              </div>
+              <p className="text-xs text-gray-400 mt-1">
+                {bookGoal.wordsWritten.toLocaleString()} / {bookGoal.targetWords.toLocaleString()} ·{' '}
+                {formatDate(bookGoal.deadline)} ·{' '}
+                <span className={STATUS_STYLES[bookGoal.status]}>
+                  {bookGoal.status === 'done' || bookGoal.status === 'overdue'
+                    ? t(`dashboard.goals.status.${bookGoal.status}`)
+                    : t(`dashboard.goals.status.${bookGoal.status}`, {
+                        words: bookGoal.wordsPerDay.toLocaleString(),
+                        days: bookGoal.daysLeft,
+                      })}
+                </span>
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {booksWithoutGoal.length > 0 && (
+          <div className="flex flex-wrap items-end gap-2 mt-4">
+            <select value={goalBookId} onChange={(e) => setGoalBookId(e.target.value)} className="input flex-1 min-w-[10rem]">
+              <option value="">{t('dashboard.goals.choose_book')}</option>
+              {booksWithoutGoal.map((book) => (
+                <option key={book.id} value={book.id}>
+                  {book.title}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={100}
+              step={1000}
+              value={goalTarget}
+              onChange={(e) => setGoalTarget(e.target.value)}
+              placeholder={t('dashboard.goals.target_placeholder')}
+              className="input w-40"
+            />
+            <input
+              type="date"
+              value={goalDeadline}
+              onChange={(e) => setGoalDeadline(e.target.value)}
+              className="input w-40"
+            />
+            <button
+              onClick={handleAddBookGoal}
+              disabled={saving || !goalBookId || !goalDeadline}
+              className="btn-secondary text-xs px-3 py-2 flex items-center gap-1"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              {t('dashboard.goals.add_deadline')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * ChapterConflictDialog Component
+ * Settles a chapter edited both here and elsewhere (another device, a
+ * co-author) since the version this copy started from. Paragraphs
+ * changed on one side only are merged; for each paragraph changed on
+ * both, the author keeps their text, the server's, or both.
+ */
+
+import { useState, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion, AnimatePresence } from 'framer-motion';
+import { GitMerge, X } from 'lucide-react';
+import { mergeChapter, buildMergedHtml } from '../../utils/chapterMerge';
+
+export interface ChapterConflict {
+  title: string;
+  base: string; // Content both edits started from
+  mine: string;
+  theirs: string; // The server's current content
+}
+
+type Choice = 'mine' | 'theirs' | 'both';
+
+interface ChapterConflictDialogProps {
+  conflict: ChapterConflict;
+  onResolve: (content: string) => void;
+  onCancel: () => void;
+}
+
+export default function ChapterConflictDialog({ conflict, onResolve, onCancel }: ChapterConflictDialogProps) {
+  const { t } = useTranslation('common');
+  const merge = useMemo(
+    () => mergeChapter(conflict.base, conflict.mine, conflict.theirs),
+    [conflict.base, conflict.mine, conflict.theirs]
+  );
+  const [choices, setChoices] = useState<Choice[]>(() => new Array(merge.conflicts).fill('mine'));
+
+  const choose = (index: number, choice: Choice) => {
+    setChoices((prev) => prev.map((current, i) => (i === index ? choice : current)));
+  };
+
+  let conflictIndex = -1;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          className="w-full max-w-5xl h-[85vh] bg-deep-space/95 backdrop-blur-md rounded-2xl border border-white/20 shadow-2xl overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-amber-500/20 flex items-center justify-center">
+                <GitMerge className="w-5 h-5 text-amber-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-white">{t('editor.sync.conflict_title', { title: conflict.title })}</h3>
+                <p className="text-sm text-gray-400">{t('editor.sync.conflict_subtitle', { count: merge.conflicts })}</p>
+              </div>
+            </div>
+            <button onClick={onCancel} className="p-2 hover:bg-white/10 rounded-lg transition-colors">
+              <X className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
+
+          {/* Merged chapter */}
+          <div className="flex-1 overflow-y-auto p-6 space-y-3 text-sm text-gray-300" dir="auto">
+            {merge.chunks.map((chunk, chunkIndex) => {
+              if (chunk.type === 'stable') {
+                return (
+                  <div
+                    key={chunkIndex}
+                    className="opacity-60 space-y-2"
+                    dangerouslySetInnerHTML={{ __html: chunk.blocks.join('') }}
+                  />
+                );
+              }
+
+              const index = ++conflictIndex;
+              const choice = choices[index];
+
+              return (
+                <div key={chunkIndex} className="card p-3 border border-amber-500/30">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {(['mine', 'theirs'] as const).map((side) => (
+                      <button
+                        key={side}
+                        onClick={() => choose(index, side)}
+                        className={`text-start rounded-lg p-3 border transition-all ${
+                          choice === side || choice === 'both'
+                            ? 'border-indigo-500/60 bg-indigo-500/10'
+                            : 'border-white/10 hover:bg-white/5'
+                        }`}
+                      >
+                        <p className="text-xs font-semibold text-gray-400 mb-2">
+                          {side === 'mine' ? t('editor.sync.my_version') : t('editor.sync.their_version')}
+                        </p>
+                        {chunk[side].length > 0 ? (
+                          <div className="space-y-2" dangerouslySetInnerHTML={{ __html: chunk[side].join('') }} />
+                        ) : (
+                          <p className="italic text-gray-500">{t('editor.sync.deleted')}</p>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={() => choose(index, 'both')}
+                      className={`text-xs px-2 py-1 rounded ${choice === 'both' ? 'text-indigo-300' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                      {t('editor.sync.keep_both')}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Actions */}
+          <div className="px-6 py-4 border-t border-white/10 flex flex-wrap items-center justify-between gap-2">
+            <div className="flex gap-2">
+              <button onClick={() => onResolve(conflict.mine)} className="btn-ghost text-xs px-3 py-2">
+                {t('editor.sync.use_mine')}
+              </button>
+              <button onClick={() => onResolve(conflict.theirs)} className="btn-ghost text-xs px-3 py-2">
+                {t('editor.sync.use_theirs')}
+              </button>
+            </div>
+            <button onClick={() => onResolve(buildMergedHtml(merge, choices))} className="btn-primary text-sm px-4 py-2">
+              {t('editor.sync.save_merged')}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
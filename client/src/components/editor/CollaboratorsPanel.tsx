@@ -0,0 +1,314 @@
+/**
+ * CollaboratorsPanel Component
+ * The author's view of a book's team: invite co-authors, editors and
+ * beta readers, assign chapters and set revenue shares
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Users, Loader2, Send, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  Collaborator,
+  CollaboratorRole,
+  getCollaborators,
+  inviteCollaborator,
+  updateCollaborator,
+  removeCollaborator,
+} from '../../services/collaborationApi';
+
+interface CollaboratorsPanelProps {
+  isOpen: boolean;
+  bookId: string;
+  chapters: Array<{ _id?: string; title: string }>;
+  onClose: () => void;
+}
+
+const ROLES: CollaboratorRole[] = ['co-author', 'editor', 'beta-reader'];
+
+const statusStyles: Record<Collaborator['status'], string> = {
+  pending: 'bg-yellow-500/20 text-yellow-300',
+  accepted: 'bg-green-500/20 text-green-300',
+  declined: 'bg-red-500/20 text-red-300',
+};
+
+export default function CollaboratorsPanel({ isOpen, bookId, chapters, onClose }: CollaboratorsPanelProps) {
+  const { t } = useTranslation('common');
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('co-author');
+  const [revenueShare, setRevenueShare] = useState(0);
+  const [assigned, setAssigned] = useState<string[]>([]);
+  const [inviting, setInviting] = useState(false);
+
+  const savedChapters = chapters.filter((ch): ch is { _id: string; title: string } => !!ch._id);
+
+  // Declined invitations no longer hold a share
+  const totalShare = collaborators
+    .filter((c) => c.status !== 'declined')
+    .reduce((sum, c) => sum + c.revenueShare, 0);
+
+  const loadCollaborators = async () => {
+    setLoading(true);
+    try {
+      setCollaborators(await getCollaborators(bookId));
+    } catch (err) {
+      console.error('Failed to load collaborators:', err);
+      toast.error(t('editor.collaboration.load_failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen && bookId) {
+      loadCollaborators();
+    }
+  }, [isOpen, bookId]);
+
+  const toggleAssigned = (chapterId: string) => {
+    setAssigned((prev) =>
+      prev.includes(chapterId) ? prev.filter((id) => id !== chapterId) : [...prev, chapterId]
+    );
+  };
+
+  const handleInvite = async () => {
+    if (!email.trim()) return;
+
+    setInviting(true);
+    try {
+      const collaborator = await inviteCollaborator(bookId, email.trim(), {
+        role,
+        chapters: assigned,
+        revenueShare: role === 'beta-reader' ? 0 : revenueShare,
+      });
+      setCollaborators((prev) => [...prev.filter((c) => c.user.id !== collaborator.user.id), collaborator]);
+      setEmail('');
+      setRevenueShare(0);
+      setAssigned([]);
+      toast.success(t('editor.collaboration.invited'));
+    } catch (err: any) {
+      console.error('Failed to invite collaborator:', err);
+      toast.error(err.response?.data?.error || t('editor.collaboration.invite_failed'));
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const handleUpdate = async (collaborator: Collaborator, data: { role?: CollaboratorRole; revenueShare?: number }) => {
+    try {
+      const updated = await updateCollaborator(bookId, collaborator.id, data);
+      setCollaborators((prev) => prev.map((c) => (c.id === collaborator.id ? { ...c, ...updated, user: c.user } : c)));
+    } catch (err: any) {
+      console.error('Failed to update collaborator:', err);
+      toast.error(err.response?.data?.error || t('editor.collaboration.update_failed'));
+    }
+  };
+
+  const handleRemove = async (collaborator: Collaborator) => {
+    if (!window.confirm(t('editor.collaboration.remove_confirm', { name: collaborator.user.name }))) return;
+
+    try {
+      await removeCollaborator(bookId, collaborator.id);
+      setCollaborators((prev) => prev.filter((c) => c.id !== collaborator.id));
+    } catch (err) {
+      console.error('Failed to remove collaborator:', err);
+      toast.error(t('editor.collaboration.remove_failed'));
+    }
+  };
+
+  const chapterSummary = (collaborator: Collaborator) => {
+    if (collaborator.chapters.length === 0) return t('editor.collaboration.all_chapters');
+    return savedChapters
+      .filter((ch) => collaborator.chapters.includes(ch._id))
+      .map((ch) => ch.title)
+      .join(', ');
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="w-full max-w-2xl max-h-[85vh] bg-deep-space/95 backdrop-blur-md rounded-2xl border border-white/20 shadow-2xl overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-indigo-500/20 flex items-center justify-center">
+                <Users className="w-5 h-5 text-indigo-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-white">{t('editor.collaboration.title')}</h3>
+                <p className="text-sm text-gray-400">
+                  {t('editor.collaboration.subtitle')}
+                  {' · '}
+                  {t('editor.collaboration.shares_total', { total: totalShare })}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {/* Team */}
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+              </div>
+            ) : collaborators.length === 0 ? (
+              <p className="text-sm text-gray-500 text-center py-4">{t('editor.collaboration.empty')}</p>
+            ) : (
+              <div className="space-y-3">
+                {collaborators.map((collaborator) => (
+                  <div key={collaborator.id} className="p-4 rounded-xl bg-white/5 border border-white/10">
+                    <div className="flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-white truncate">{collaborator.user.name}</p>
+                        <p className="text-xs text-gray-500 truncate">{collaborator.user.email}</p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <span className={`text-xs px-2 py-0.5 rounded-full ${statusStyles[collaborator.status]}`}>
+                          {t(`editor.collaboration.status.${collaborator.status}`)}
+                        </span>
+                        <button
+                          onClick={() => handleRemove(collaborator)}
+                          className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors"
+                          title={t('editor.collaboration.remove')}
+                        >
+                          <Trash2 className="w-4 h-4 text-red-400" />
+                        </button>
+                      </div>
+                    </div>
+                    <div className="mt-3 flex flex-wrap items-center gap-3 text-xs text-gray-400">
+                      <select
+                        value={collaborator.role}
+                        onChange={(e) => handleUpdate(collaborator, { role: e.target.value as CollaboratorRole })}
+                        className="input py-1 text-xs w-auto"
+                      >
+                        {ROLES.map((r) => (
+                          <option key={r} value={r}>{t(`editor.collaboration.roles.${r}`)}</option>
+                        ))}
+                      </select>
+                      {collaborator.role !== 'beta-reader' && (
+                        <label className="flex items-center gap-1">
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            defaultValue={collaborator.revenueShare}
+                            onBlur={(e) => {
+                              const value = Number(e.target.value);
+                              if (value !== collaborator.revenueShare) {
+                                handleUpdate(collaborator, { revenueShare: value });
+                              }
+                            }}
+                            className="input py-1 text-xs w-16"
+                          />
+                          {t('editor.collaboration.share_suffix')}
+                        </label>
+                      )}
+                      <span className="truncate">{chapterSummary(collaborator)}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Invite */}
+            <div className="p-4 rounded-xl border border-indigo-500/30 bg-indigo-500/5 space-y-3">
+              <h4 className="text-sm font-semibold text-white">{t('editor.collaboration.invite_title')}</h4>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder={t('editor.collaboration.email_placeholder')}
+                  className="input flex-1"
+                />
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as CollaboratorRole)}
+                  className="input sm:w-40"
+                >
+                  {ROLES.map((r) => (
+                    <option key={r} value={r}>{t(`editor.collaboration.roles.${r}`)}</option>
+                  ))}
+                </select>
+              </div>
+              <p className="text-xs text-gray-500">{t(`editor.collaboration.role_hints.${role}`)}</p>
+
+              {role !== 'beta-reader' && (
+                <>
+                  <label className="flex items-center gap-2 text-sm text-gray-300">
+                    {t('editor.collaboration.revenue_share')}
+                    <input
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={revenueShare}
+                      onChange={(e) => setRevenueShare(Number(e.target.value))}
+                      className="input py-1 w-20"
+                    />
+                    {t('editor.collaboration.share_suffix')}
+                  </label>
+
+                  {savedChapters.length > 0 && (
+                    <div>
+                      <p className="text-xs text-gray-400 mb-2">{t('editor.collaboration.assign_chapters')}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {savedChapters.map((chapter) => (
+                          <button
+                            key={chapter._id}
+                            type="button"
+                            onClick={() => toggleAssigned(chapter._id)}
+                            className={`text-xs px-2 py-1 rounded-lg border transition-colors ${
+                              assigned.includes(chapter._id)
+                                ? 'border-indigo-400 bg-indigo-500/20 text-indigo-200'
+                                : 'border-white/10 text-gray-400 hover:bg-white/5'
+                            }`}
+                          >
+                            {chapter.title}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleInvite}
+                  disabled={!email.trim() || inviting}
+                  className="btn-primary flex items-center gap-2"
+                >
+                  {inviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+                  {t('editor.collaboration.send_invite')}
+                </button>
+              </div>
+            </div>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
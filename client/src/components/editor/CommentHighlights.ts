@@ -0,0 +1,198 @@
+/**
+ * CommentHighlights Extension
+ * Paints open comment threads and suggested edits over the chapter
+ * without changing the document: commented passages are underlined,
+ * text suggested for deletion is struck through and suggested text is
+ * shown inline where it would go. Clicking one selects its thread.
+ *
+ * Thread anchors are offsets into the chapter's text content, the same
+ * measure as reader annotations (see utils/textAnchors).
+ */
+
+import { Extension, Editor } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { CommentThread } from '../../services/commentApi';
+import { TextRange } from '../../utils/textAnchors';
+
+export const THREAD_ATTRIBUTE = 'data-thread-id';
+
+export interface CommentHighlightsOptions {
+  onSelectThread: (threadId: string) => void;
+}
+
+interface CommentHighlightsState {
+  threads: CommentThread[];
+  activeId: string | null;
+  decorations: DecorationSet;
+}
+
+const commentHighlightsKey = new PluginKey<CommentHighlightsState>('commentHighlights');
+
+/**
+ * The document's text as textContent sees it: no separators between
+ * blocks and nothing for line breaks
+ */
+function documentText(doc: ProseMirrorNode, to = doc.content.size): string {
+  return doc.textBetween(0, to, '', '');
+}
+
+/**
+ * Text offset of an editor position
+ */
+export function textOffsetAt(doc: ProseMirrorNode, position: number): number {
+  return documentText(doc, position).length;
+}
+
+/**
+ * Editor position of a text offset. Where two text nodes meet, a range
+ * start goes to the later node and a range end stays in the earlier one.
+ */
+export function positionAt(doc: ProseMirrorNode, offset: number, side: 'start' | 'end'): number {
+  let remaining = offset;
+  let position: number | null = null;
+  let lastEnd = 1;
+
+  doc.descendants((node, pos) => {
+    if (position !== null) return false;
+    if (!node.isText) return true;
+
+    const length = node.text!.length;
+    if (remaining < length || (side === 'end' && remaining === length)) {
+      position = pos + remaining;
+    } else {
+      remaining -= length;
+      lastEnd = pos + length;
+    }
+    return false;
+  });
+
+  return position ?? lastEnd;
+}
+
+/**
+ * Where a thread's anchor is in the editor's text. The editor may
+ * normalise whitespace of the stored HTML, so when the offsets no longer
+ * hold the quote, the nearest occurrence of it is used.
+ */
+export function locateThread(text: string, thread: CommentThread): TextRange | null {
+  const { startOffset, endOffset, exact } = thread.anchor;
+
+  if (!exact) {
+    return startOffset <= text.length ? { startOffset, endOffset: startOffset } : null;
+  }
+  if (text.slice(startOffset, endOffset) === exact) {
+    return { startOffset, endOffset };
+  }
+
+  let best = -1;
+  for (let index = text.indexOf(exact); index !== -1; index = text.indexOf(exact, index + 1)) {
+    if (best === -1 || Math.abs(index - startOffset) < Math.abs(best - startOffset)) {
+      best = index;
+    }
+  }
+
+  return best === -1 ? null : { startOffset: best, endOffset: best + exact.length };
+}
+
+function buildDecorations(doc: ProseMirrorNode, threads: CommentThread[], activeId: string | null): DecorationSet {
+  const text = documentText(doc);
+  const decorations: Decoration[] = [];
+
+  for (const thread of threads) {
+    if (thread.status !== 'open' || thread.isOrphaned) continue;
+
+    const range = locateThread(text, thread);
+    if (!range) continue;
+
+    const from = positionAt(doc, range.startOffset, 'start');
+    const to = positionAt(doc, range.endOffset, 'end');
+    const active = thread._id === activeId ? ' thread-active' : '';
+    const attributes = { [THREAD_ATTRIBUTE]: thread._id };
+
+    if (thread.kind === 'comment') {
+      if (to > from) {
+        decorations.push(Decoration.inline(from, to, { class: `comment-highlight${active}`, ...attributes }));
+      }
+      continue;
+    }
+
+    if (to > from) {
+      decorations.push(Decoration.inline(from, to, { class: `suggestion-delete${active}`, ...attributes }));
+    }
+
+    const insertion = thread.suggestion?.text;
+    if (insertion) {
+      decorations.push(
+        Decoration.widget(
+          to,
+          () => {
+            const span = document.createElement('span');
+            span.className = `suggestion-insert${active}`;
+            span.setAttribute(THREAD_ATTRIBUTE, thread._id);
+            span.textContent = insertion;
+            return span;
+          },
+          { side: 1, key: `${thread._id}${active}` }
+        )
+      );
+    }
+  }
+
+  return DecorationSet.create(doc, decorations);
+}
+
+export const CommentHighlights = Extension.create<CommentHighlightsOptions>({
+  name: 'commentHighlights',
+
+  addOptions() {
+    return {
+      onSelectThread: () => {},
+    };
+  },
+
+  addProseMirrorPlugins() {
+    const { onSelectThread } = this.options;
+
+    return [
+      new Plugin<CommentHighlightsState>({
+        key: commentHighlightsKey,
+        state: {
+          init: () => ({ threads: [], activeId: null, decorations: DecorationSet.empty }),
+          apply(tr, value) {
+            const next = tr.getMeta(commentHighlightsKey) as Omit<CommentHighlightsState, 'decorations'> | undefined;
+            if (next) {
+              return { ...next, decorations: buildDecorations(tr.doc, next.threads, next.activeId) };
+            }
+            // Anchors are found by their quoted text, so typing and chapter
+            // switches only need a rebuild against the new document
+            return tr.docChanged
+              ? { ...value, decorations: buildDecorations(tr.doc, value.threads, value.activeId) }
+              : value;
+          },
+        },
+        props: {
+          decorations(state) {
+            return commentHighlightsKey.getState(state)?.decorations;
+          },
+          handleClick(_view, _pos, event) {
+            const marked = (event.target as HTMLElement).closest?.(`[${THREAD_ATTRIBUTE}]`);
+            if (marked) {
+              onSelectThread(marked.getAttribute(THREAD_ATTRIBUTE)!);
+            }
+            return false;
+          },
+        },
+      }),
+    ];
+  },
+});
+
+/**
+ * Show a chapter's threads in the editor, highlighting the active one
+ */
+export function showCommentThreads(editor: Editor, threads: CommentThread[], activeId: string | null): void {
+  if (editor.isDestroyed) return;
+  editor.view.dispatch(editor.state.tr.setMeta(commentHighlightsKey, { threads, activeId }));
+}
@@ -0,0 +1,392 @@
+/**
+ * CommentsPanel Component
+ * Comment threads and suggested edits on the current chapter: write a
+ * comment or suggestion for the selected passage, reply, resolve, and
+ * accept or reject suggestions
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { MessageSquare, PenLine, Check, X, Trash2, RotateCcw, Loader2, AlertCircle, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  CommentThread,
+  CommentThreadKind,
+  createCommentThread,
+  replyToCommentThread,
+  setCommentThreadResolved,
+  acceptSuggestion,
+  rejectSuggestion,
+  deleteCommentThread,
+} from '../../services/commentApi';
+
+// A passage selected in the editor, waiting for its comment or suggestion
+export interface ThreadDraft {
+  kind: CommentThreadKind;
+  startOffset: number;
+  endOffset: number;
+  exact: string;
+}
+
+interface CommentsPanelProps {
+  bookId: string;
+  chapterId: string;
+  threads: CommentThread[];
+  loading: boolean;
+  activeThreadId: string | null;
+  draft: ThreadDraft | null;
+  isAuthor: boolean;
+  canDecide: boolean; // May accept or reject suggestions and resolve any thread
+  hasUnsavedChanges: boolean;
+  onStartDraft: (kind: CommentThreadKind) => void;
+  onCancelDraft: () => void;
+  onSelectThread: (threadId: string | null) => void;
+  onThreadsChange: (threads: CommentThread[]) => void;
+  onSuggestionAccepted: (chapter: { _id: string; content: string; wordCount: number; version: number }) => void;
+}
+
+const statusStyles: Record<CommentThread['status'], string> = {
+  open: '',
+  resolved: 'bg-green-500/20 text-green-300',
+  accepted: 'bg-green-500/20 text-green-300',
+  rejected: 'bg-red-500/20 text-red-300',
+};
+
+export default function CommentsPanel({
+  bookId,
+  chapterId,
+  threads,
+  loading,
+  activeThreadId,
+  draft,
+  isAuthor,
+  canDecide,
+  hasUnsavedChanges,
+  onStartDraft,
+  onCancelDraft,
+  onSelectThread,
+  onThreadsChange,
+  onSuggestionAccepted,
+}: CommentsPanelProps) {
+  const { t } = useTranslation('common');
+  const { user } = useAuth();
+  const [body, setBody] = useState('');
+  const [suggestedText, setSuggestedText] = useState('');
+  const [reply, setReply] = useState('');
+  const [showClosed, setShowClosed] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  // A new suggestion starts from the selected text
+  useEffect(() => {
+    setBody('');
+    setSuggestedText(draft?.kind === 'suggestion' ? draft.exact : '');
+  }, [draft]);
+
+  useEffect(() => {
+    setReply('');
+  }, [activeThreadId]);
+
+  const isMine = (thread: CommentThread) => !!user && [user.id, user._id].includes(thread.author?._id);
+
+  const replaceThread = (updated: CommentThread) => {
+    onThreadsChange(threads.map((thread) => (thread._id === updated._id ? updated : thread)));
+  };
+
+  const visibleThreads = threads.filter((thread) => showClosed || thread.status === 'open');
+
+  const handleSubmitDraft = async () => {
+    if (!draft) return;
+
+    setBusy('draft');
+    try {
+      const thread = await createCommentThread(bookId, chapterId, {
+        ...draft,
+        body: body.trim() || undefined,
+        text: draft.kind === 'suggestion' ? suggestedText : undefined,
+      });
+      onThreadsChange([...threads, thread]);
+      onCancelDraft();
+      onSelectThread(thread._id);
+    } catch (err: any) {
+      console.error('Failed to create comment thread:', err);
+      toast.error(err.response?.data?.error || t('editor.comments.create_failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Runs a thread action, keeping the panel responsive while it is in flight
+  const runAction = async (thread: CommentThread, action: () => Promise<void>) => {
+    setBusy(thread._id);
+    try {
+      await action();
+    } catch (err: any) {
+      console.error('Comment thread action failed:', err);
+      toast.error(err.response?.data?.error || t('editor.comments.action_failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleReply = (thread: CommentThread) =>
+    runAction(thread, async () => {
+      replaceThread(await replyToCommentThread(bookId, chapterId, thread._id, reply.trim()));
+      setReply('');
+    });
+
+  const handleResolve = (thread: CommentThread, resolved: boolean) =>
+    runAction(thread, async () => {
+      replaceThread(await setCommentThreadResolved(bookId, chapterId, thread._id, resolved));
+    });
+
+  const handleAccept = (thread: CommentThread) =>
+    runAction(thread, async () => {
+      const result = await acceptSuggestion(bookId, chapterId, thread._id);
+      replaceThread(result.thread);
+      onSuggestionAccepted(result.chapter);
+      toast.success(t('editor.comments.accepted_toast'));
+    });
+
+  const handleReject = (thread: CommentThread) =>
+    runAction(thread, async () => {
+      replaceThread(await rejectSuggestion(bookId, chapterId, thread._id));
+    });
+
+  const handleDelete = (thread: CommentThread) => {
+    if (!window.confirm(t('editor.comments.delete_confirm'))) return;
+
+    runAction(thread, async () => {
+      await deleteCommentThread(bookId, chapterId, thread._id);
+      onThreadsChange(threads.filter((other) => other._id !== thread._id));
+      if (activeThreadId === thread._id) onSelectThread(null);
+    });
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  const renderQuote = (thread: CommentThread) => {
+    const { anchor, suggestion } = thread;
+
+    if (thread.kind === 'comment') {
+      return <p className="text-xs text-gray-400 italic line-clamp-2">“{anchor.exact}”</p>;
+    }
+
+    return (
+      <p dir="auto" className="text-xs leading-relaxed">
+        {anchor.exact && <span className="bg-red-500/20 text-red-300 line-through">{anchor.exact}</span>}
+        {suggestion?.text && <span className="bg-green-500/20 text-green-300">{suggestion.text}</span>}
+      </p>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* New thread */}
+      <div className="flex gap-2">
+        <button
+          onClick={() => onStartDraft('comment')}
+          className="btn-secondary flex-1 flex items-center justify-center gap-1.5 text-xs py-2"
+        >
+          <MessageSquare className="w-3.5 h-3.5" />
+          {t('editor.comments.add_comment')}
+        </button>
+        <button
+          onClick={() => onStartDraft('suggestion')}
+          className="btn-secondary flex-1 flex items-center justify-center gap-1.5 text-xs py-2"
+        >
+          <PenLine className="w-3.5 h-3.5" />
+          {t('editor.comments.suggest_edit')}
+        </button>
+      </div>
+
+      {draft && (
+        <div className="card p-3 space-y-2 border border-indigo-500/30">
+          <p className="text-xs text-gray-400 italic line-clamp-3">
+            {draft.exact ? `“${draft.exact}”` : t('editor.comments.insert_at_cursor')}
+          </p>
+          {draft.kind === 'suggestion' && (
+            <textarea
+              value={suggestedText}
+              onChange={(e) => setSuggestedText(e.target.value)}
+              placeholder={t('editor.comments.suggestion_placeholder')}
+              rows={3}
+              dir="auto"
+              className="input text-sm w-full resize-none"
+            />
+          )}
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={
+              draft.kind === 'comment'
+                ? t('editor.comments.comment_placeholder')
+                : t('editor.comments.note_placeholder')
+            }
+            rows={draft.kind === 'comment' ? 3 : 2}
+            dir="auto"
+            className="input text-sm w-full resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={onCancelDraft} className="btn-ghost text-xs px-3 py-1.5">
+              {t('editor.comments.cancel')}
+            </button>
+            <button
+              onClick={handleSubmitDraft}
+              disabled={busy === 'draft' || (draft.kind === 'comment' && !body.trim())}
+              className="btn-primary text-xs px-3 py-1.5 flex items-center gap-1"
+            >
+              {busy === 'draft' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Send className="w-3.5 h-3.5" />}
+              {t('editor.comments.submit')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-gray-400">
+        <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+        {t('editor.comments.show_closed')}
+      </label>
+
+      {/* Threads */}
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+        </div>
+      ) : visibleThreads.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-6">{t('editor.comments.empty')}</p>
+      ) : (
+        <div className="space-y-3">
+          {visibleThreads.map((thread) => {
+            const active = thread._id === activeThreadId;
+            const open = thread.status === 'open';
+
+            return (
+              <div
+                key={thread._id}
+                onClick={() => onSelectThread(thread._id)}
+                className={`card p-3 space-y-2 cursor-pointer transition-colors ${
+                  active ? 'border border-indigo-500/50' : 'border border-transparent'
+                } ${open ? '' : 'opacity-60'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-1.5 min-w-0">
+                    {thread.kind === 'comment' ? (
+                      <MessageSquare className="w-3.5 h-3.5 text-yellow-400 flex-shrink-0" />
+                    ) : (
+                      <PenLine className="w-3.5 h-3.5 text-green-400 flex-shrink-0" />
+                    )}
+                    <span className="text-xs font-medium text-white truncate">{thread.author?.name}</span>
+                    <span className="text-xs text-gray-500 flex-shrink-0">{formatDate(thread.createdAt)}</span>
+                  </div>
+                  {!open && (
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${statusStyles[thread.status]}`}>
+                      {t(`editor.comments.status.${thread.status}`)}
+                    </span>
+                  )}
+                </div>
+
+                {renderQuote(thread)}
+
+                {thread.isOrphaned && open && (
+                  <p className="flex items-center gap-1 text-xs text-yellow-400">
+                    <AlertCircle className="w-3.5 h-3.5" />
+                    {t('editor.comments.orphaned')}
+                  </p>
+                )}
+
+                {thread.messages.map((message) => (
+                  <div key={message._id} className="text-sm">
+                    {message.author?._id !== thread.author?._id && (
+                      <span className="text-xs font-medium text-indigo-300">{message.author?.name}: </span>
+                    )}
+                    <span dir="auto" className="text-gray-300 whitespace-pre-wrap">{message.body}</span>
+                  </div>
+                ))}
+
+                {active && (
+                  <div className="space-y-2 pt-1" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={reply}
+                        onChange={(e) => setReply(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && reply.trim() && handleReply(thread)}
+                        placeholder={t('editor.comments.reply_placeholder')}
+                        dir="auto"
+                        className="input text-xs py-1.5 flex-1"
+                      />
+                      <button
+                        onClick={() => handleReply(thread)}
+                        disabled={!reply.trim() || busy === thread._id}
+                        className="btn-ghost p-1.5"
+                        title={t('editor.comments.reply')}
+                      >
+                        <Send className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-2">
+                      {thread.kind === 'suggestion' && open && canDecide && (
+                        <button
+                          onClick={() => handleAccept(thread)}
+                          disabled={busy === thread._id || hasUnsavedChanges}
+                          title={hasUnsavedChanges ? t('editor.comments.unsaved_warning') : undefined}
+                          className="btn-primary text-xs px-2.5 py-1 flex items-center gap-1"
+                        >
+                          <Check className="w-3.5 h-3.5" />
+                          {t('editor.comments.accept')}
+                        </button>
+                      )}
+                      {thread.kind === 'suggestion' && open && (canDecide || isMine(thread)) && (
+                        <button
+                          onClick={() => handleReject(thread)}
+                          disabled={busy === thread._id}
+                          className="btn-ghost text-xs px-2.5 py-1 flex items-center gap-1"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                          {canDecide ? t('editor.comments.reject') : t('editor.comments.withdraw')}
+                        </button>
+                      )}
+                      {thread.kind === 'comment' && (canDecide || isMine(thread)) && (
+                        <button
+                          onClick={() => handleResolve(thread, open)}
+                          disabled={busy === thread._id}
+                          className="btn-ghost text-xs px-2.5 py-1 flex items-center gap-1"
+                        >
+                          {open ? <Check className="w-3.5 h-3.5" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                          {open ? t('editor.comments.resolve') : t('editor.comments.reopen')}
+                        </button>
+                      )}
+                      {(isAuthor || isMine(thread)) && (
+                        <button
+                          onClick={() => handleDelete(thread)}
+                          disabled={busy === thread._id}
+                          className="p-1.5 hover:bg-red-500/20 rounded-lg transition-colors ms-auto"
+                          title={t('editor.comments.delete')}
+                        >
+                          <Trash2 className="w-3.5 h-3.5 text-red-400" />
+                        </button>
+                      )}
+                    </div>
+
+                    {thread.kind === 'suggestion' && open && canDecide && hasUnsavedChanges && (
+                      <p className="text-xs text-yellow-400">{t('editor.comments.unsaved_warning')}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
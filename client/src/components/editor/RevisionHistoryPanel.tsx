@@ -0,0 +1,268 @@
+/**
+ * RevisionHistoryPanel Component
+ * Lists saved revisions of a chapter, shows a word-level diff against
+ * the current version and restores a selected revision
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { motion, AnimatePresence } from 'framer-motion';
+import { History, Loader2, RotateCcw, X, AlertCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  ChapterRevisionSummary,
+  RevisionDiff,
+  getChapterRevisions,
+  diffChapterRevisions,
+  restoreChapterRevision,
+} from '../../services/revisionApi';
+
+interface RevisionHistoryPanelProps {
+  isOpen: boolean;
+  bookId: string;
+  chapterId: string;
+  hasUnsavedChanges: boolean;
+  onClose: () => void;
+  onRestored: (book: any) => void;
+}
+
+export default function RevisionHistoryPanel({
+  isOpen,
+  bookId,
+  chapterId,
+  hasUnsavedChanges,
+  onClose,
+  onRestored,
+}: RevisionHistoryPanelProps) {
+  const { t } = useTranslation('common');
+  const [revisions, setRevisions] = useState<ChapterRevisionSummary[]>([]);
+  const [retentionLimit, setRetentionLimit] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [diffLoading, setDiffLoading] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const loadRevisions = async () => {
+    setLoading(true);
+    try {
+      const result = await getChapterRevisions(bookId, chapterId);
+      setRevisions(result.revisions);
+      setRetentionLimit(result.retentionLimit);
+    } catch (err) {
+      console.error('Failed to load revisions:', err);
+      toast.error(t('editor.revisions.load_failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen && bookId && chapterId) {
+      setSelectedId(null);
+      setDiff(null);
+      loadRevisions();
+    }
+  }, [isOpen, bookId, chapterId]);
+
+  const selectRevision = async (revisionId: string) => {
+    setSelectedId(revisionId);
+    setDiffLoading(true);
+    try {
+      const result = await diffChapterRevisions(bookId, chapterId, revisionId, 'current');
+      setDiff(result);
+    } catch (err) {
+      console.error('Failed to compare revisions:', err);
+      setDiff(null);
+    } finally {
+      setDiffLoading(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!selectedId) return;
+    if (!window.confirm(t('editor.revisions.restore_confirm'))) return;
+
+    setRestoring(true);
+    try {
+      const result = await restoreChapterRevision(bookId, chapterId, selectedId);
+      toast.success(t('editor.revisions.restored'));
+      onRestored(result.book);
+      onClose();
+    } catch (err) {
+      console.error('Failed to restore revision:', err);
+      toast.error(t('editor.revisions.restore_failed'));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString(undefined, {
+      day: 'numeric',
+      month: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+        onClick={onClose}
+      >
+        <motion.div
+          initial={{ scale: 0.95, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.95, opacity: 0 }}
+          onClick={(e) => e.stopPropagation()}
+          className="w-full max-w-4xl h-[80vh] bg-deep-space/95 backdrop-blur-md rounded-2xl border border-white/20 shadow-2xl overflow-hidden flex flex-col"
+        >
+          {/* Header */}
+          <div className="px-6 py-4 border-b border-white/10 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-xl bg-indigo-500/20 flex items-center justify-center">
+                <History className="w-5 h-5 text-indigo-400" />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold text-white">{t('editor.revisions.title')}</h3>
+                <p className="text-sm text-gray-400">
+                  {t('editor.revisions.subtitle')}
+                  {retentionLimit > 0 && ` · ${t('editor.revisions.retention', { limit: retentionLimit })}`}
+                </p>
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
+
+          <div className="flex-1 flex min-h-0">
+            {/* Revision List */}
+            <div className="w-64 border-r border-white/10 overflow-y-auto p-3 space-y-2">
+              {loading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+                </div>
+              ) : revisions.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">{t('editor.revisions.empty')}</p>
+              ) : (
+                revisions.map((revision) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => selectRevision(revision.id)}
+                    className={
+                      selectedId === revision.id
+                        ? 'sidebar-item-active w-full text-left'
+                        : 'sidebar-item w-full text-left'
+                    }
+                  >
+                    <p className="text-sm text-white">{formatDate(revision.createdAt)}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {revision.source === 'suggestion'
+                        ? t('editor.revisions.source_suggestion', { name: revision.authorName })
+                        : revision.source === 'restore'
+                          ? t('editor.revisions.source_restore')
+                          : t('editor.revisions.source_save')}
+                      {' · '}
+                      {revision.wordCount} {t('editor.statistics.words_unit')}
+                    </p>
+                  </button>
+                ))
+              )}
+            </div>
+
+            {/* Diff View */}
+            <div className="flex-1 overflow-y-auto p-6">
+              {diffLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-indigo-400" />
+                </div>
+              ) : diff ? (
+                <div className="space-y-4">
+                  <div className="flex items-center gap-4 text-sm">
+                    <span className="text-gray-400">{t('editor.revisions.compare_with_current')}</span>
+                    <span className="text-green-400">
+                      {t('editor.revisions.words_added', { count: diff.stats.wordsAdded })}
+                    </span>
+                    <span className="text-red-400">
+                      {t('editor.revisions.words_removed', { count: diff.stats.wordsRemoved })}
+                    </span>
+                  </div>
+                  {diff.titleChanged && (
+                    <p className="text-xs text-yellow-400">{t('editor.revisions.title_changed')}</p>
+                  )}
+                  {diff.stats.wordsAdded === 0 && diff.stats.wordsRemoved === 0 ? (
+                    <p className="text-sm text-gray-500">{t('editor.revisions.no_changes')}</p>
+                  ) : (
+                    <div dir="auto" className="text-sm leading-relaxed text-gray-300 whitespace-pre-wrap">
+                      {diff.segments.map((segment, index) => {
+                        if (segment.type === 'insert') {
+                          return (
+                            <span key={index} className="bg-green-500/20 text-green-300">
+                              {segment.text}
+                            </span>
+                          );
+                        }
+                        if (segment.type === 'delete') {
+                          return (
+                            <span key={index} className="bg-red-500/20 text-red-300 line-through">
+                              {segment.text}
+                            </span>
+                          );
+                        }
+                        return <span key={index}>{segment.text}</span>;
+                      })}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center justify-center h-full text-sm text-gray-500">
+                  {t('editor.revisions.current')}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t border-white/10 flex items-center justify-between gap-3">
+            <div className="text-xs text-yellow-400 flex items-center gap-2">
+              {hasUnsavedChanges && (
+                <>
+                  <AlertCircle className="w-4 h-4" />
+                  {t('editor.revisions.unsaved_warning')}
+                </>
+              )}
+            </div>
+            <button
+              onClick={handleRestore}
+              disabled={!selectedId || restoring || hasUnsavedChanges}
+              className="btn-primary flex items-center gap-2"
+            >
+              {restoring ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  {t('editor.revisions.restoring')}
+                </>
+              ) : (
+                <>
+                  <RotateCcw className="w-4 h-4" />
+                  {t('editor.revisions.restore')}
+                </>
+              )}
+            </button>
+          </div>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+}
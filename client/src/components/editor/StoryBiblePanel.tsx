@@ -0,0 +1,385 @@
+/**
+ * StoryBiblePanel Component
+ * The book's worldbuilding in the editor sidebar: browse locations,
+ * items, factions, glossary terms and the timeline, see which chapters
+ * mention each entry, and add or edit entries
+ */
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Plus, Edit, Trash2, Loader2, MapPin, Gem, Flag, BookA, CalendarClock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  StoryBibleEntry,
+  StoryBibleEntryType,
+  STORY_BIBLE_ENTRY_TYPES,
+  getStoryBible,
+  createStoryBibleEntry,
+  updateStoryBibleEntry,
+  deleteStoryBibleEntry,
+} from '../../services/storyBibleApi';
+
+interface StoryBiblePanelProps {
+  bookId: string;
+  chapters: Array<{ _id?: string; title: string }>;
+  currentChapterId?: string;
+  canEdit: boolean;
+  onChapterClick: (index: number) => void;
+}
+
+interface EntryForm {
+  id?: string;
+  type: StoryBibleEntryType;
+  name: string;
+  aliases: string;
+  description: string;
+  chapters: string[];
+  inWorldDate: string;
+  order: string;
+}
+
+const typeIcons: Record<StoryBibleEntryType, typeof MapPin> = {
+  location: MapPin,
+  item: Gem,
+  faction: Flag,
+  term: BookA,
+  event: CalendarClock,
+};
+
+const emptyForm = (type: StoryBibleEntryType): EntryForm => ({
+  type,
+  name: '',
+  aliases: '',
+  description: '',
+  chapters: [],
+  inWorldDate: '',
+  order: '',
+});
+
+export default function StoryBiblePanel({
+  bookId,
+  chapters,
+  currentChapterId,
+  canEdit,
+  onChapterClick,
+}: StoryBiblePanelProps) {
+  const { t } = useTranslation('common');
+  const [entries, setEntries] = useState<StoryBibleEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<StoryBibleEntryType | 'all'>('all');
+  const [chapterOnly, setChapterOnly] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [form, setForm] = useState<EntryForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadEntries = async () => {
+    try {
+      setEntries(await getStoryBible(bookId));
+    } catch (err) {
+      console.error('Failed to load story bible:', err);
+      toast.error(t('editor.bible.load_failed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setLoading(true);
+    loadEntries();
+  }, [bookId]);
+
+  const inCurrentChapter = (entry: StoryBibleEntry) =>
+    !!currentChapterId &&
+    (entry.chapters.includes(currentChapterId) || entry.mentions.some((m) => m.chapterId === currentChapterId));
+
+  const visibleEntries = entries.filter(
+    (entry) => (filter === 'all' || entry.type === filter) && (!chapterOnly || inCurrentChapter(entry))
+  );
+
+  const chapterIndex = (chapterId: string) => chapters.findIndex((chapter) => chapter._id === chapterId);
+
+  const startEdit = (entry: StoryBibleEntry) => {
+    setForm({
+      id: entry.id,
+      type: entry.type,
+      name: entry.name,
+      aliases: entry.aliases.join(', '),
+      description: entry.description,
+      chapters: entry.chapters,
+      inWorldDate: entry.inWorldDate || '',
+      order: entry.order !== undefined ? String(entry.order) : '',
+    });
+  };
+
+  const toggleFormChapter = (chapterId: string) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      chapters: form.chapters.includes(chapterId)
+        ? form.chapters.filter((id) => id !== chapterId)
+        : [...form.chapters, chapterId],
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form || !form.name.trim()) return;
+
+    const input = {
+      name: form.name.trim(),
+      aliases: form.aliases.split(',').map((alias) => alias.trim()).filter(Boolean),
+      description: form.description,
+      chapters: form.chapters,
+      ...(form.type === 'event' && {
+        inWorldDate: form.inWorldDate,
+        order: form.order === '' ? undefined : Number(form.order),
+      }),
+    };
+
+    setSaving(true);
+    try {
+      if (form.id) {
+        await updateStoryBibleEntry(bookId, form.id, input);
+      } else {
+        await createStoryBibleEntry(bookId, { ...input, type: form.type });
+      }
+      setForm(null);
+      await loadEntries();
+    } catch (err: any) {
+      console.error('Failed to save story bible entry:', err);
+      toast.error(err.response?.data?.error || t('editor.bible.save_failed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: StoryBibleEntry) => {
+    if (!window.confirm(t('editor.bible.delete_confirm', { name: entry.name }))) return;
+
+    try {
+      await deleteStoryBibleEntry(bookId, entry.id);
+      setEntries((prev) => prev.filter((other) => other.id !== entry.id));
+    } catch (err) {
+      console.error('Failed to delete story bible entry:', err);
+      toast.error(t('editor.bible.save_failed'));
+    }
+  };
+
+  if (form) {
+    return (
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold text-white">
+          {form.id ? t('editor.bible.edit_entry') : t('editor.bible.new_entry')}
+        </h3>
+
+        {!form.id && (
+          <select
+            value={form.type}
+            onChange={(e) => setForm({ ...form, type: e.target.value as StoryBibleEntryType })}
+            className="input w-full text-sm"
+          >
+            {STORY_BIBLE_ENTRY_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {t(`editor.bible.types.${type}`)}
+              </option>
+            ))}
+          </select>
+        )}
+
+        <input
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          placeholder={t('editor.bible.name')}
+          maxLength={120}
+          dir="auto"
+          className="input w-full text-sm"
+        />
+        <input
+          value={form.aliases}
+          onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+          placeholder={t('editor.bible.aliases')}
+          dir="auto"
+          className="input w-full text-sm"
+        />
+        <textarea
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          placeholder={t('editor.bible.description')}
+          maxLength={5000}
+          rows={5}
+          dir="auto"
+          className="input w-full text-sm resize-none"
+        />
+
+        {form.type === 'event' && (
+          <div className="flex gap-2">
+            <input
+              value={form.inWorldDate}
+              onChange={(e) => setForm({ ...form, inWorldDate: e.target.value })}
+              placeholder={t('editor.bible.in_world_date')}
+              maxLength={100}
+              dir="auto"
+              className="input flex-1 text-sm"
+            />
+            <input
+              type="number"
+              min={0}
+              value={form.order}
+              onChange={(e) => setForm({ ...form, order: e.target.value })}
+              placeholder={t('editor.bible.order')}
+              className="input w-20 text-sm"
+            />
+          </div>
+        )}
+
+        <div>
+          <p className="text-xs text-gray-400 mb-1">{t('editor.bible.linked_chapters')}</p>
+          <div className="max-h-32 overflow-y-auto space-y-1">
+            {chapters.map((chapter, index) =>
+              chapter._id ? (
+                <label key={chapter._id} className="flex items-center gap-2 text-xs text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={form.chapters.includes(chapter._id)}
+                    onChange={() => toggleFormChapter(chapter._id!)}
+                  />
+                  <span className="truncate">{chapter.title || t('editor.chapter_default', { number: index + 1 })}</span>
+                </label>
+              ) : null
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={saving || !form.name.trim()}
+            className="btn-primary flex-1 text-xs py-2 flex items-center justify-center gap-1"
+          >
+            {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            {t('editor.bible.save')}
+          </button>
+          <button onClick={() => setForm(null)} className="btn-ghost flex-1 text-xs py-2">
+            {t('editor.bible.cancel')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {(['all', ...STORY_BIBLE_ENTRY_TYPES] as const).map((type) => (
+          <button
+            key={type}
+            onClick={() => setFilter(type)}
+            className={`px-2 py-1 rounded-md text-xs transition-all ${
+              filter === type ? 'bg-indigo-500/20 text-indigo-300' : 'text-gray-400 hover:bg-white/5'
+            }`}
+          >
+            {t(`editor.bible.filters.${type}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <input type="checkbox" checked={chapterOnly} onChange={(e) => setChapterOnly(e.target.checked)} />
+          {t('editor.bible.this_chapter')}
+        </label>
+        {canEdit && (
+          <button
+            onClick={() => setForm(emptyForm(filter === 'all' ? 'location' : filter))}
+            className="btn-secondary text-xs px-2 py-1 flex items-center gap-1"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            {t('editor.bible.add')}
+          </button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+        </div>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-sm text-gray-400 text-center py-8">{t('editor.bible.empty')}</p>
+      ) : (
+        <div className={filter === 'event' ? 'border-s border-white/10 ms-2 ps-3 space-y-3' : 'space-y-2'}>
+          {visibleEntries.map((entry) => {
+            const Icon = typeIcons[entry.type];
+            const expanded = expandedId === entry.id;
+
+            return (
+              <div key={entry.id} className="card p-3">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : entry.id)}
+                  className="w-full text-start"
+                >
+                  <div className="flex items-center gap-2">
+                    <Icon className="w-3.5 h-3.5 text-indigo-400 flex-shrink-0" />
+                    <span dir="auto" className="text-sm font-medium text-white truncate">
+                      {entry.name}
+                    </span>
+                  </div>
+                  {entry.inWorldDate && <p className="text-xs text-indigo-300 mt-0.5">{entry.inWorldDate}</p>}
+                  {entry.description && (
+                    <p dir="auto" className={`text-xs text-gray-400 mt-1 ${expanded ? 'whitespace-pre-wrap' : 'line-clamp-2'}`}>
+                      {entry.description}
+                    </p>
+                  )}
+                </button>
+
+                {expanded && (
+                  <div className="mt-2 space-y-2">
+                    {entry.aliases.length > 0 && (
+                      <p className="text-xs text-gray-500">
+                        {t('editor.bible.also_known_as', { names: entry.aliases.join(', ') })}
+                      </p>
+                    )}
+
+                    <div>
+                      <p className="text-xs text-gray-500 mb-1">
+                        {entry.mentions.length > 0 ? t('editor.bible.mentioned_in') : t('editor.bible.not_mentioned')}
+                      </p>
+                      <div className="flex flex-wrap gap-1">
+                        {entry.mentions.map((mention) => (
+                          <button
+                            key={mention.chapterId}
+                            onClick={() => chapterIndex(mention.chapterId) >= 0 && onChapterClick(chapterIndex(mention.chapterId))}
+                            className={`px-1.5 py-0.5 rounded text-xs ${
+                              mention.chapterId === currentChapterId
+                                ? 'bg-indigo-500/30 text-indigo-200'
+                                : 'bg-white/5 text-gray-300 hover:bg-white/10'
+                            }`}
+                          >
+                            {mention.title} ×{mention.count}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {canEdit && (
+                      <div className="flex justify-end gap-1">
+                        <button onClick={() => startEdit(entry)} className="btn-ghost p-1.5" title={t('editor.bible.edit_entry')}>
+                          <Edit className="w-3.5 h-3.5" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(entry)}
+                          className="btn-ghost p-1.5 text-red-400"
+                          title={t('editor.bible.delete')}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
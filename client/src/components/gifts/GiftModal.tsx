@@ -0,0 +1,195 @@
+/**
+ * Gift Modal Component
+ * Buy a book or a gift card for someone: recipient, a personal message
+ * and an optional delivery date. Pays through the usual checkout.
+ */
+
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, Gift, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  createBookGiftOrder,
+  createGiftCardOrder,
+  captureGiftOrder,
+  type GiftRecipient,
+} from '../../services/giftApi';
+
+const CARD_AMOUNTS = [10, 25, 50, 100];
+
+interface GiftModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSent?: () => void;
+  book?: { _id: string; title: string; price: number }; // Omitted for a gift card
+  couponCode?: string;
+  giftBalance?: number; // Offered toward a book gift
+}
+
+const GiftModal: React.FC<GiftModalProps> = ({ isOpen, onClose, onSent, book, couponCode, giftBalance = 0 }) => {
+  const [recipientEmail, setRecipientEmail] = useState('');
+  const [recipientName, setRecipientName] = useState('');
+  const [message, setMessage] = useState('');
+  const [deliverOn, setDeliverOn] = useState('');
+  const [amount, setAmount] = useState(25);
+  const [useBalance, setUseBalance] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  const handleSend = async () => {
+    if (!recipientEmail.trim()) {
+      toast.error("Enter the recipient's email");
+      return;
+    }
+
+    const recipient: GiftRecipient = {
+      recipientEmail: recipientEmail.trim(),
+      recipientName: recipientName.trim() || undefined,
+      message: message.trim() || undefined,
+      // A date picked for today is sent right away
+      deliverAt: deliverOn && deliverOn > today ? new Date(`${deliverOn}T09:00:00`).toISOString() : undefined,
+    };
+
+    setSending(true);
+    try {
+      toast.loading('Creating gift...', { id: 'gift' });
+      const order = book
+        ? await createBookGiftOrder(book._id, recipient, { couponCode, useGiftBalance: useBalance })
+        : await createGiftCardOrder(amount, recipient);
+
+      if (!order.mockMode && !order.paidWithBalance && order.approvalUrl) {
+        window.location.href = order.approvalUrl;
+        return;
+      }
+
+      toast.loading('Processing payment...', { id: 'gift' });
+      await captureGiftOrder(order.orderId);
+      toast.success(
+        recipient.deliverAt
+          ? `Your gift will be delivered on ${new Date(recipient.deliverAt).toLocaleDateString()}`
+          : `Your gift is on its way to ${recipient.recipientEmail}`,
+        { id: 'gift' }
+      );
+      onSent?.();
+      onClose();
+    } catch (error: any) {
+      console.error('Failed to send gift:', error);
+      toast.error(error.response?.data?.error || 'Failed to send gift. Please try again.', { id: 'gift' });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <AnimatePresence>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+        onClick={(e) => e.target === e.currentTarget && onClose()}
+      >
+        <motion.div
+          initial={{ scale: 0.9, opacity: 0 }}
+          animate={{ scale: 1, opacity: 1 }}
+          exit={{ scale: 0.9, opacity: 0 }}
+          className="bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 rounded-2xl w-full max-w-md p-4 sm:p-6 shadow-2xl border border-purple-500/20"
+        >
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4 sm:mb-6">
+            <h3 className="text-lg sm:text-xl font-bold text-white flex items-center gap-2">
+              <Gift className="w-4 h-4 sm:w-5 sm:h-5 text-magic-gold" />
+              {book ? 'Give as a Gift' : 'Send a Gift Card'}
+            </h3>
+            <button
+              onClick={onClose}
+              className="p-1.5 sm:p-2 rounded-lg hover:bg-white/10 transition-colors"
+            >
+              <X className="w-5 h-5 text-gray-400" />
+            </button>
+          </div>
+
+          {book ? (
+            <div className="mb-4 p-3 sm:p-4 bg-white/5 rounded-xl">
+              <h4 className="font-semibold text-white text-sm sm:text-base truncate">{book.title}</h4>
+              <p className="text-xs sm:text-sm text-gray-400">${book.price.toFixed(2)}</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-4 gap-2 mb-4">
+              {CARD_AMOUNTS.map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setAmount(value)}
+                  className={`py-2 rounded-xl text-sm font-semibold transition-all ${
+                    amount === value
+                      ? 'bg-magic-gold/20 text-magic-gold border border-magic-gold/40'
+                      : 'bg-white/5 text-gray-300 hover:bg-white/10'
+                  }`}
+                >
+                  ${value}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <input
+              type="email"
+              value={recipientEmail}
+              onChange={(e) => setRecipientEmail(e.target.value)}
+              className="input w-full"
+              placeholder="Recipient's email"
+              dir="ltr"
+            />
+            <input
+              type="text"
+              value={recipientName}
+              onChange={(e) => setRecipientName(e.target.value)}
+              className="input w-full"
+              placeholder="Recipient's name (optional)"
+              maxLength={100}
+            />
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              className="input w-full"
+              rows={3}
+              placeholder="A personal message (optional)"
+              maxLength={1000}
+            />
+            <div>
+              <label className="block text-sm text-gray-400 mb-1">Deliver on (leave empty to send now)</label>
+              <input
+                type="date"
+                value={deliverOn}
+                min={today}
+                onChange={(e) => setDeliverOn(e.target.value)}
+                className="input w-full"
+              />
+            </div>
+            {book && giftBalance > 0 && (
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input type="checkbox" checked={useBalance} onChange={(e) => setUseBalance(e.target.checked)} />
+                Use my gift card balance (${giftBalance.toFixed(2)})
+              </label>
+            )}
+          </div>
+
+          <button
+            onClick={handleSend}
+            disabled={sending}
+            className="btn-primary w-full mt-5 flex items-center justify-center gap-2"
+          >
+            {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gift className="w-4 h-4" />}
+            {book ? 'Send Gift' : `Send $${amount} Gift Card`}
+          </button>
+        </motion.div>
+      </motion.div>
+    </AnimatePresence>
+  );
+};
+
+export default GiftModal;
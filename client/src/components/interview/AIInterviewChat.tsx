@@ -14,6 +14,7 @@ import {
   Loader2,
   CheckCircle,
   ChevronRight,
+  History,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import AIAvatar, { AIAvatarState } from './AIAvatar';
@@ -22,9 +23,13 @@ import {
   startInterview,
   sendInterviewMessage,
   completeInterview,
+  getInterviewState,
+  getMyInterviews,
+  cancelInterview,
   ChatMessage,
   InterviewState,
   InterviewSummary,
+  UnfinishedInterview,
   getTopicNames,
   TOPIC_ORDER,
 } from '../../services/aiInterviewApi';
@@ -59,6 +64,7 @@ export default function AIInterviewChat({
   const [ttsEnabled, setTtsEnabled] = useState(false);
   const [showVoiceInput, setShowVoiceInput] = useState(false);
   const [isCompleting, setIsCompleting] = useState(false);
+  const [resumable, setResumable] = useState<UnfinishedInterview | null>(null);
 
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -74,8 +80,52 @@ export default function AIInterviewChat({
     scrollToBottom();
   }, [messages]);
 
+  // Offer to resume the most recent unfinished interview before starting a new one
   const initializeInterview = async () => {
     setIsLoading(true);
+
+    try {
+      const unfinished = await getMyInterviews('chat');
+      if (unfinished.length > 0) {
+        setResumable(unfinished[0]);
+        setIsLoading(false);
+        return;
+      }
+    } catch (error) {
+      console.error('Failed to load unfinished interviews:', error);
+    }
+
+    await startNewInterview();
+  };
+
+  const resumeInterview = async (interview: UnfinishedInterview) => {
+    setResumable(null);
+    setIsLoading(true);
+    setAvatarState('thinking');
+
+    try {
+      const state = await getInterviewState(interview.id);
+      setInterviewState(state);
+      setMessages(state.messages);
+      setAvatarState('idle');
+      setIsLoading(false);
+    } catch (error) {
+      console.error('Failed to resume interview:', error);
+      toast.error('Could not resume interview, starting a new one');
+      await startNewInterview();
+    }
+  };
+
+  const startOver = async (interview: UnfinishedInterview) => {
+    setResumable(null);
+    cancelInterview(interview.id).catch((error) =>
+      console.error('Failed to discard interview:', error)
+    );
+    await startNewInterview();
+  };
+
+  const startNewInterview = async () => {
+    setIsLoading(true);
     setAvatarState('thinking');
 
     try {
@@ -238,6 +288,52 @@ export default function AIInterviewChat({
     );
   }
 
+  // Resume prompt
+  if (resumable) {
+    return (
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4"
+      >
+        <div className="bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 rounded-2xl w-full max-w-md p-6 flex flex-col items-center text-center shadow-2xl border border-purple-500/20">
+          <AIAvatar state="idle" size="md" className="mb-4" />
+          <div className="flex items-center gap-2 text-magic-gold mb-2">
+            <History className="w-5 h-5" />
+            <h2 className="text-lg font-bold">Unfinished interview</h2>
+          </div>
+          <p className="text-gray-300 mb-1">
+            You were at <span className="text-white">{topicNames[resumable.currentTopic as keyof typeof topicNames] || resumable.currentTopic}</span>
+            {' '}({resumable.progress}% complete).
+          </p>
+          <p className="text-sm text-gray-500 mb-6">
+            Last active {new Date(resumable.updatedAt).toLocaleString()}
+          </p>
+          <div className="flex gap-3 w-full">
+            <button
+              onClick={() => startOver(resumable)}
+              className="flex-1 px-4 py-2 rounded-xl bg-white/10 text-gray-300 hover:bg-white/20 transition-colors"
+            >
+              Start Over
+            </button>
+            <button
+              onClick={() => resumeInterview(resumable)}
+              className="flex-1 px-4 py-2 rounded-xl bg-gradient-to-r from-purple-600 to-pink-600 text-white hover:shadow-lg hover:shadow-purple-500/25 transition-all"
+            >
+              Resume
+            </button>
+          </div>
+          <button
+            onClick={onClose}
+            className="mt-4 text-sm text-gray-500 hover:text-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </motion.div>
+    );
+  }
+
   return (
     <motion.div
       initial={{ opacity: 0 }}
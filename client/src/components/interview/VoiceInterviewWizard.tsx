@@ -16,6 +16,7 @@ import {
   RefreshCw,
   Volume2,
   VolumeX,
+  History,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import AIAvatar, { AIAvatarState } from './AIAvatar';
@@ -25,12 +26,15 @@ import {
   startVoiceInterview,
   processInterviewResponse,
   completeInterview,
+  getInterviewState,
+  cancelInterview,
   getTopicDisplayName,
   getTopicIcon,
   InterviewState,
   InterviewSummary,
   InterviewResponse,
 } from '../../services/voiceService';
+import { getMyInterviews, UnfinishedInterview } from '../../services/aiInterviewApi';
 
 type WizardStep = 'intro' | 'interview' | 'summary' | 'editing';
 
@@ -64,6 +68,7 @@ export default function VoiceInterviewWizard({
   const [isTTSEnabled, setIsTTSEnabled] = useState(true);
   const [editingSummary, setEditingSummary] = useState<InterviewSummary | null>(null);
   const [micPermissionGranted, setMicPermissionGranted] = useState<boolean | null>(null);
+  const [unfinishedInterview, setUnfinishedInterview] = useState<UnfinishedInterview | null>(null);
 
   // TTS hook
   const { speak, stop: stopTTS, isSpeaking, isSupported: ttsSupported } = useTTS({
@@ -85,6 +90,16 @@ export default function VoiceInterviewWizard({
     checkMicPermission();
   }, []);
 
+  // Look for an unfinished interview to resume (prefer the one for this book)
+  useEffect(() => {
+    getMyInterviews('voice')
+      .then((interviews) => {
+        const match = bookId ? interviews.find((i) => i.id === bookId) : undefined;
+        setUnfinishedInterview(match || interviews[0] || null);
+      })
+      .catch((error) => console.error('Failed to load unfinished interviews:', error));
+  }, [bookId]);
+
   // Speak question with TTS
   const speakQuestion = useCallback(
     async (question: string) => {
@@ -105,12 +120,25 @@ export default function VoiceInterviewWizard({
   const handleStartInterview = async () => {
     try {
       setIsProcessing(true);
+
+      // Starting over discards the unfinished interview of another book
+      if (unfinishedInterview && unfinishedInterview.id !== bookId) {
+        cancelInterview(unfinishedInterview.id).catch((error) =>
+          console.error('Failed to discard unfinished interview:', error)
+        );
+      }
+
       const result = await startVoiceInterview(genre, targetAudience, bookId);
 
+      if (result.message) {
+        toast.success('Resumed your unfinished interview');
+      }
+
       setInterviewId(result.interviewId);
       setInterviewState(result.state);
       setCurrentQuestion(result.firstQuestion);
       setProgress(result.progress);
+      setCanCompleteEarly(result.canCompleteEarly ?? false);
       setStep('interview');
 
       // Speak the first question
@@ -122,6 +150,32 @@ export default function VoiceInterviewWizard({
     }
   };
 
+  // Resume an unfinished interview
+  const handleResumeInterview = async () => {
+    if (!unfinishedInterview) return;
+
+    try {
+      setIsProcessing(true);
+      const result = await getInterviewState(unfinishedInterview.id);
+
+      setInterviewId(unfinishedInterview.id);
+      setInterviewState(result.state);
+      setCurrentQuestion(result.currentQuestion || '');
+      setProgress(result.progress);
+      setCanCompleteEarly(result.canCompleteEarly);
+      setStep('interview');
+
+      if (result.currentQuestion) {
+        await speakQuestion(result.currentQuestion);
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Error resuming the interview');
+      setUnfinishedInterview(null);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   // Process response (audio or text)
   const handleResponse = async (audioBlob?: Blob, textResponse?: string) => {
     if (!interviewId) return;
@@ -255,6 +309,27 @@ export default function VoiceInterviewWizard({
         ))}
       </div>
 
+      {/* Unfinished interview */}
+      {unfinishedInterview && (
+        <div className="w-full max-w-sm mb-4 p-4 rounded-xl bg-white/5 border border-magic-gold/30 text-left">
+          <div className="flex items-center gap-2 text-magic-gold mb-1">
+            <History className="w-4 h-4" />
+            <span className="font-medium">Unfinished interview</span>
+          </div>
+          <p className="text-sm text-gray-400 mb-3">
+            {unfinishedInterview.progress}% complete · last active{' '}
+            {new Date(unfinishedInterview.updatedAt).toLocaleDateString()}
+          </p>
+          <button
+            onClick={handleResumeInterview}
+            disabled={isProcessing}
+            className="w-full py-2 px-4 rounded-lg bg-magic-gold/20 text-magic-gold hover:bg-magic-gold/30 transition-colors disabled:opacity-50"
+          >
+            Resume Interview
+          </button>
+        </div>
+      )}
+
       {/* Start button */}
       <button
         onClick={handleStartInterview}
@@ -269,7 +344,7 @@ export default function VoiceInterviewWizard({
         ) : (
           <>
             <Mic className="w-5 h-5" />
-            <span>Start Interview</span>
+            <span>{unfinishedInterview && unfinishedInterview.id !== bookId ? 'Start New Interview' : 'Start Interview'}</span>
           </>
         )}
       </button>
@@ -3,12 +3,13 @@ import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLanguage } from '../../contexts/LanguageContext';
-import { BookOpen, User, LogOut, ChevronDown, Crown, MessageCircle, Bell, Store, Library, Menu, X } from 'lucide-react';
+import { BookOpen, User, LogOut, ChevronDown, Crown, MessageCircle, Bell, Store, Library, Menu, X, Gift } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { getUnreadCount as getMessagesUnreadCount } from '../../services/messagingApi';
 import { getUnreadCount as getNotificationsUnreadCount } from '../../services/notificationApi';
 import ConversationsList from '../messaging/ConversationsList';
 import NotificationCenter from '../notifications/NotificationCenter';
+import { useRealtimeEvent, useRealtimeConnected } from '../../hooks/useRealtime';
 import logoIcon from '../../assets/images/logo-icon.png';
 
 export default function Navbar() {
@@ -25,8 +26,10 @@ export default function Navbar() {
   const [notificationsUnreadCount, setNotificationsUnreadCount] = useState(0);
   const menuRef = useRef<HTMLDivElement>(null);
   const mobileMenuRef = useRef<HTMLDivElement>(null);
+  const realtimeConnected = useRealtimeConnected();
 
-  // Fetch unread message and notification counts
+  // Fetch unread message and notification counts. Live updates arrive over
+  // the realtime connection; poll only while it is unavailable.
   useEffect(() => {
     const fetchUnreadCounts = async () => {
       try {
@@ -42,12 +45,35 @@ export default function Navbar() {
     };
 
     if (user) {
+      // Also catches up on anything missed while disconnected
       fetchUnreadCounts();
-      // Refresh every 30 seconds
-      const interval = setInterval(fetchUnreadCounts, 30000);
-      return () => clearInterval(interval);
+      if (!realtimeConnected) {
+        const interval = setInterval(fetchUnreadCounts, 30000);
+        return () => clearInterval(interval);
+      }
+    }
+  }, [user, realtimeConnected]);
+
+  const refreshMessagesUnreadCount = () => {
+    getMessagesUnreadCount().then(setMessagesUnreadCount).catch(() => {});
+  };
+
+  useRealtimeEvent('message:new', ({ message }) => {
+    if (message.sender._id !== user?.id) {
+      refreshMessagesUnreadCount();
     }
-  }, [user]);
+  });
+
+  // Read on this or another device
+  useRealtimeEvent('message:read', ({ readerId }) => {
+    if (readerId === user?.id) {
+      refreshMessagesUnreadCount();
+    }
+  });
+
+  useRealtimeEvent('notification:new', () => {
+    setNotificationsUnreadCount((count) => count + 1);
+  });
 
   // Close dropdown when clicking outside
   useEffect(() => {
@@ -277,6 +303,15 @@ export default function Navbar() {
                           <span className="font-medium">{t('nav.upgrade')}</span>
                         </Link>
 
+                        <Link
+                          to="/gifts"
+                          onClick={() => setShowUserMenu(false)}
+                          className={`flex items-center gap-3 px-5 py-3 text-gray-300 hover:text-white hover:bg-white/5 transition-all duration-300 ${isRTL ? 'flex-row-reverse' : ''}`}
+                        >
+                          <Gift className="w-4 h-4" />
+                          <span className="font-medium">{t('nav.gifts')}</span>
+                        </Link>
+
                         <Link
                           to="/settings"
                           onClick={() => setShowUserMenu(false)}
@@ -370,6 +405,18 @@ export default function Navbar() {
                     <span className="font-semibold">{t('nav.upgrade')}</span>
                   </Link>
 
+                  <Link
+                    to="/gifts"
+                    className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-all duration-300 ${
+                      isActive('/gifts')
+                        ? 'bg-gradient-to-r from-magic-gold/20 to-yellow-500/20 text-magic-gold border border-magic-gold/30'
+                        : 'text-gray-300 hover:text-white hover:bg-white/5'
+                    }`}
+                  >
+                    <Gift className="w-5 h-5" />
+                    <span className="font-semibold">{t('nav.gifts')}</span>
+                  </Link>
+
                   <Link
                     to="/settings"
                     className={`flex items-center gap-3 px-4 py-3 rounded-lg transition-all duration-300 ${
@@ -419,7 +466,7 @@ export default function Navbar() {
         onClose={() => {
           setShowMessages(false);
           // Refresh unread count when closing
-          getMessagesUnreadCount().then(setMessagesUnreadCount).catch(() => {});
+          refreshMessagesUnreadCount();
         }}
       />
 
@@ -0,0 +1,338 @@
+import { useState } from 'react';
+import { Tag, Percent, Trash2, Power, Loader2, CalendarClock } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  scheduleSale,
+  cancelSale,
+  type BookPromotions,
+  type Coupon,
+  type CouponDiscountType,
+  type PromotionCoupon,
+} from '../../services/couponApi';
+
+interface BookPromotionsPanelProps {
+  bookId: string;
+  promotions: BookPromotions;
+}
+
+const toPromotionCoupon = (coupon: Coupon): PromotionCoupon => ({
+  id: coupon._id,
+  code: coupon.code,
+  discountType: coupon.discountType,
+  value: coupon.value,
+  catalogueWide: coupon.books.length === 0,
+  maxRedemptions: coupon.maxRedemptions,
+  redemptions: coupon.redemptions,
+  revenue: coupon.revenue,
+  discountGiven: coupon.discountGiven,
+  startsAt: coupon.startsAt,
+  expiresAt: coupon.expiresAt,
+  active: coupon.active,
+});
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const describeDiscount = (coupon: PromotionCoupon) =>
+  coupon.discountType === 'percent' ? `${coupon.value}% off` : `$${coupon.value.toFixed(2)} off`;
+
+/**
+ * BookPromotionsPanel Component
+ *
+ * Sale price scheduling and discount codes for a book, with each code's
+ * redemptions, revenue and discount given. Shown beside the pricing
+ * strategy; discounts apply to the book's saved price.
+ */
+export default function BookPromotionsPanel({ bookId, promotions }: BookPromotionsPanelProps) {
+  const [sale, setSale] = useState(promotions.sale);
+  const [coupons, setCoupons] = useState(promotions.coupons);
+  const [saleForm, setSaleForm] = useState({ price: '', startsAt: '', endsAt: '' });
+  const [couponForm, setCouponForm] = useState({
+    code: '',
+    discountType: 'percent' as CouponDiscountType,
+    value: '',
+    maxRedemptions: '',
+    expiresAt: '',
+    thisBookOnly: true,
+  });
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const handleScheduleSale = async () => {
+    if (!saleForm.price || !saleForm.startsAt || !saleForm.endsAt) {
+      toast.error('Enter a sale price, start and end');
+      return;
+    }
+    setBusy('sale');
+    try {
+      const scheduled = await scheduleSale(bookId, {
+        price: parseFloat(saleForm.price),
+        startsAt: new Date(saleForm.startsAt).toISOString(),
+        endsAt: new Date(saleForm.endsAt).toISOString(),
+      });
+      const now = Date.now();
+      setSale({
+        ...scheduled,
+        active: new Date(scheduled.startsAt).getTime() <= now && new Date(scheduled.endsAt).getTime() > now,
+      });
+      setSaleForm({ price: '', startsAt: '', endsAt: '' });
+      toast.success('Sale scheduled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to schedule sale');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCancelSale = async () => {
+    setBusy('sale');
+    try {
+      await cancelSale(bookId);
+      setSale(undefined);
+      toast.success('Sale cancelled');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to cancel sale');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCreateCoupon = async () => {
+    if (!couponForm.code.trim() || !couponForm.value) {
+      toast.error('Enter a code and a discount');
+      return;
+    }
+    setBusy('coupon');
+    try {
+      const coupon = await createCoupon({
+        code: couponForm.code.trim(),
+        discountType: couponForm.discountType,
+        value: parseFloat(couponForm.value),
+        books: couponForm.thisBookOnly ? [bookId] : [],
+        maxRedemptions: couponForm.maxRedemptions ? parseInt(couponForm.maxRedemptions, 10) : null,
+        expiresAt: couponForm.expiresAt ? new Date(couponForm.expiresAt).toISOString() : null,
+      });
+      setCoupons((prev) => [toPromotionCoupon(coupon), ...prev]);
+      setCouponForm((prev) => ({ ...prev, code: '', value: '', maxRedemptions: '', expiresAt: '' }));
+      toast.success(`Coupon ${coupon.code} created`);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to create coupon');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleToggleCoupon = async (coupon: PromotionCoupon) => {
+    setBusy(coupon.id);
+    try {
+      const updated = await updateCoupon(coupon.id, { active: !coupon.active });
+      setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? toPromotionCoupon(updated) : c)));
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update coupon');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDeleteCoupon = async (coupon: PromotionCoupon) => {
+    if (!confirm(`Delete coupon ${coupon.code}?`)) return;
+    setBusy(coupon.id);
+    try {
+      const deleted = await deleteCoupon(coupon.id);
+      if (deleted) {
+        setCoupons((prev) => prev.filter((c) => c.id !== coupon.id));
+      } else {
+        setCoupons((prev) => prev.map((c) => (c.id === coupon.id ? { ...c, active: false } : c)));
+        toast('This coupon was used, so it was switched off to keep its stats');
+      }
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to delete coupon');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="font-semibold text-white flex items-center gap-2">
+        <Tag className="w-4 h-4 text-magic-gold" />
+        Promotions
+      </h3>
+
+      {/* Sale */}
+      <div className="glass rounded-lg p-4">
+        <div className="flex items-center gap-2 mb-3 text-sm font-medium text-white">
+          <CalendarClock className="w-4 h-4 text-purple-400" />
+          Time-limited sale
+        </div>
+        {sale ? (
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm text-gray-300">
+              <span className="text-magic-gold font-bold">${sale.price.toFixed(2)}</span>{' '}
+              from {formatDate(sale.startsAt)} to {formatDate(sale.endsAt)}
+              {sale.active && (
+                <span className="ml-2 px-2 py-0.5 rounded-full bg-green-500/20 text-green-400 text-xs">Live</span>
+              )}
+            </div>
+            <button
+              onClick={handleCancelSale}
+              disabled={busy === 'sale'}
+              className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50"
+            >
+              Cancel sale
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={saleForm.price}
+              onChange={(e) => setSaleForm({ ...saleForm, price: e.target.value })}
+              className="input text-sm"
+              placeholder="Sale price $"
+            />
+            <input
+              type="datetime-local"
+              value={saleForm.startsAt}
+              onChange={(e) => setSaleForm({ ...saleForm, startsAt: e.target.value })}
+              className="input text-sm"
+              title="Starts"
+            />
+            <input
+              type="datetime-local"
+              value={saleForm.endsAt}
+              onChange={(e) => setSaleForm({ ...saleForm, endsAt: e.target.value })}
+              className="input text-sm"
+              title="Ends"
+            />
+            <button
+              onClick={handleScheduleSale}
+              disabled={busy === 'sale'}
+              className="py-2 rounded-lg bg-purple-500/20 text-purple-300 hover:bg-purple-500/30 text-sm font-medium disabled:opacity-50"
+            >
+              {busy === 'sale' ? <Loader2 className="w-4 h-4 animate-spin mx-auto" /> : 'Schedule'}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Coupons */}
+      <div className="glass rounded-lg p-4 space-y-3">
+        <div className="flex items-center gap-2 text-sm font-medium text-white">
+          <Percent className="w-4 h-4 text-green-400" />
+          Coupon codes
+        </div>
+
+        {coupons.length > 0 && (
+          <div className="space-y-2">
+            {coupons.map((coupon) => (
+              <div
+                key={coupon.id}
+                className={`flex items-center justify-between gap-3 p-2 rounded-lg bg-white/5 text-sm ${
+                  coupon.active ? '' : 'opacity-50'
+                }`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono font-bold text-white">{coupon.code}</span>
+                    <span className="text-gray-400">{describeDiscount(coupon)}</span>
+                    <span className="text-xs text-gray-500">
+                      {coupon.catalogueWide ? 'All your books' : 'This book'}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {coupon.redemptions}
+                    {coupon.maxRedemptions ? ` / ${coupon.maxRedemptions}` : ''} used · ${coupon.revenue.toFixed(2)} revenue · $
+                    {coupon.discountGiven.toFixed(2)} discounted
+                    {coupon.expiresAt && ` · expires ${formatDate(coupon.expiresAt)}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <button
+                    onClick={() => handleToggleCoupon(coupon)}
+                    disabled={busy === coupon.id}
+                    className="p-1.5 rounded hover:bg-white/10 text-gray-400 hover:text-white disabled:opacity-50"
+                    title={coupon.active ? 'Switch off' : 'Switch on'}
+                  >
+                    <Power className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteCoupon(coupon)}
+                    disabled={busy === coupon.id}
+                    className="p-1.5 rounded hover:bg-red-500/20 text-gray-400 hover:text-red-400 disabled:opacity-50"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+          <input
+            type="text"
+            value={couponForm.code}
+            onChange={(e) => setCouponForm({ ...couponForm, code: e.target.value.toUpperCase() })}
+            className="input text-sm font-mono"
+            placeholder="CODE"
+            maxLength={30}
+          />
+          <div className="flex gap-1">
+            <select
+              value={couponForm.discountType}
+              onChange={(e) => setCouponForm({ ...couponForm, discountType: e.target.value as CouponDiscountType })}
+              className="input text-sm w-16 px-2"
+            >
+              <option value="percent">%</option>
+              <option value="fixed">$</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              value={couponForm.value}
+              onChange={(e) => setCouponForm({ ...couponForm, value: e.target.value })}
+              className="input text-sm flex-1 min-w-0"
+              placeholder="Off"
+            />
+          </div>
+          <input
+            type="number"
+            min="1"
+            value={couponForm.maxRedemptions}
+            onChange={(e) => setCouponForm({ ...couponForm, maxRedemptions: e.target.value })}
+            className="input text-sm"
+            placeholder="Max uses"
+          />
+          <input
+            type="datetime-local"
+            value={couponForm.expiresAt}
+            onChange={(e) => setCouponForm({ ...couponForm, expiresAt: e.target.value })}
+            className="input text-sm"
+            title="Expires"
+          />
+          <button
+            onClick={handleCreateCoupon}
+            disabled={busy === 'coupon'}
+            className="py-2 rounded-lg bg-green-500/20 text-green-300 hover:bg-green-500/30 text-sm font-medium disabled:opacity-50"
+          >
+            {busy === 'coupon' ? <Loader2 className="w-4 h-4 animate-spin mx-auto" /> : 'Add coupon'}
+          </button>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={couponForm.thisBookOnly}
+            onChange={(e) => setCouponForm({ ...couponForm, thisBookOnly: e.target.checked })}
+          />
+          Only for this book (otherwise it works on all your books)
+        </label>
+      </div>
+    </div>
+  );
+}
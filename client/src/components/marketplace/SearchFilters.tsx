@@ -0,0 +1,155 @@
+import { useTranslation } from 'react-i18next';
+import { Star, X } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import type { BookSearchFacets, FacetCount, PriceRange } from '../../services/marketplaceApi';
+
+export interface SearchFilterState {
+  genres: string[];
+  languages: string[];
+  ageRatings: string[];
+  priceRanges: PriceRange[];
+  minRating?: number;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilterState = {
+  genres: [],
+  languages: [],
+  ageRatings: [],
+  priceRanges: [],
+};
+
+type ListFilter = 'genres' | 'languages' | 'ageRatings' | 'priceRanges';
+
+// Display order for price buckets (facets arrive sorted by count)
+const PRICE_RANGE_ORDER: PriceRange[] = ['free', 'under-5', '5-10', '10-20', 'over-20'];
+
+interface SearchFiltersProps {
+  facets: BookSearchFacets | null;
+  filters: SearchFilterState;
+  onChange: (filters: SearchFilterState) => void;
+}
+
+/**
+ * SearchFilters Component
+ *
+ * Facet panel for marketplace search. Each option shows how many books
+ * match it given the other active filters; options within a group are ORed.
+ */
+export default function SearchFilters({ facets, filters, onChange }: SearchFiltersProps) {
+  const { t } = useTranslation('common');
+
+  const hasActiveFilters =
+    filters.genres.length > 0 ||
+    filters.languages.length > 0 ||
+    filters.ageRatings.length > 0 ||
+    filters.priceRanges.length > 0 ||
+    !!filters.minRating;
+
+  const toggle = (group: ListFilter, value: string) => {
+    const current = filters[group] as string[];
+    const next = current.includes(value) ? current.filter((item) => item !== value) : [...current, value];
+    onChange({ ...filters, [group]: next });
+  };
+
+  // Keep selected options visible even when they have no matches left
+  const withSelected = (counts: FacetCount[], selected: string[]): FacetCount[] => [
+    ...counts,
+    ...selected.filter((value) => !counts.some((facet) => facet.value === value)).map((value) => ({ value, count: 0 })),
+  ];
+
+  const renderGroup = (group: ListFilter, title: string, counts: FacetCount[], label: (value: string) => string) => {
+    const options = withSelected(counts, filters[group] as string[]);
+    if (options.length === 0) return null;
+
+    return (
+      <div>
+        <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">{title}</h4>
+        <div className="space-y-1">
+          {options.map((facet) => (
+            <label
+              key={facet.value}
+              className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer hover:text-white"
+            >
+              <input
+                type="checkbox"
+                checked={(filters[group] as string[]).includes(facet.value)}
+                onChange={() => toggle(group, facet.value)}
+                className="rounded border-white/20 bg-transparent text-magic-gold focus:ring-magic-gold"
+              />
+              <span className="flex-1 truncate">{label(facet.value)}</span>
+              <span className="text-xs text-gray-500">{facet.count}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const priceRanges = [...(facets?.priceRanges || [])].sort(
+    (a, b) => PRICE_RANGE_ORDER.indexOf(a.value as PriceRange) - PRICE_RANGE_ORDER.indexOf(b.value as PriceRange)
+  );
+
+  return (
+    <GlassCard hover={false} className="p-4 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-white">{t('marketplace.filters.title')}</h3>
+        {hasActiveFilters && (
+          <button
+            onClick={() => onChange(EMPTY_SEARCH_FILTERS)}
+            className="flex items-center gap-1 text-xs text-magic-gold hover:text-yellow-300"
+          >
+            <X className="w-3 h-3" />
+            {t('marketplace.filters.clear')}
+          </button>
+        )}
+      </div>
+
+      {renderGroup('genres', t('marketplace.filters.genre'), facets?.genres || [], (value) => value)}
+
+      {renderGroup('priceRanges', t('marketplace.filters.price'), priceRanges, (value) =>
+        t(`marketplace.filters.price_ranges.${value}`, value)
+      )}
+
+      {/* Minimum rating - single choice */}
+      {facets && facets.ratings.some((facet) => facet.count > 0 || Number(facet.value) === filters.minRating) && (
+        <div>
+          <h4 className="text-xs font-semibold uppercase tracking-wider text-gray-500 mb-2">
+            {t('marketplace.filters.rating')}
+          </h4>
+          <div className="space-y-1">
+            {facets.ratings.map((facet) => {
+              const rating = Number(facet.value);
+              const selected = filters.minRating === rating;
+              return (
+                <button
+                  key={facet.value}
+                  onClick={() => onChange({ ...filters, minRating: selected ? undefined : rating })}
+                  className={`w-full flex items-center gap-2 text-sm rounded px-1 py-0.5 ${
+                    selected ? 'text-white bg-white/10' : 'text-gray-300 hover:text-white'
+                  }`}
+                >
+                  <span className="flex">
+                    {[1, 2, 3, 4, 5].map((star) => (
+                      <Star
+                        key={star}
+                        className={`w-3.5 h-3.5 ${star <= rating ? 'fill-yellow-400 text-yellow-400' : 'text-gray-600'}`}
+                      />
+                    ))}
+                  </span>
+                  <span className="flex-1 text-start">{t('marketplace.filters.and_up')}</span>
+                  <span className="text-xs text-gray-500">{facet.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {renderGroup('languages', t('marketplace.filters.language'), facets?.languages || [], (value) =>
+        t(`marketplace.filters.languages.${value}`, value.toUpperCase())
+      )}
+
+      {renderGroup('ageRatings', t('marketplace.filters.age_rating'), facets?.ageRatings || [], (value) => value)}
+    </GlassCard>
+  );
+}
@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { motion } from 'framer-motion';
+import { Library, Package } from 'lucide-react';
+import GlassCard from '../ui/GlassCard';
+import { getPublishedSeries, type SeriesSummary } from '../../services/seriesApi';
+
+interface SeriesShelfProps {
+  limit?: number;
+}
+
+/**
+ * SeriesShelf Component
+ *
+ * A row of book series in the marketplace, each linking to its series
+ * page. Renders nothing until some series has a published book.
+ */
+export default function SeriesShelf({ limit = 6 }: SeriesShelfProps) {
+  const { t } = useTranslation('common');
+  const [series, setSeries] = useState<SeriesSummary[]>([]);
+
+  useEffect(() => {
+    getPublishedSeries(limit)
+      .then(setSeries)
+      .catch((err) => console.error('Failed to load series:', err));
+  }, [limit]);
+
+  if (series.length === 0) return null;
+
+  return (
+    <div className="py-8">
+      <div className="flex items-center gap-2 mb-6">
+        <Library className="w-6 h-6 text-purple-400" />
+        <h2 className="text-2xl font-bold text-white">{t('marketplace.series.title')}</h2>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {series.map((item, index) => (
+          <motion.div
+            key={item._id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+          >
+            <Link to={`/series/${item._id}`}>
+              <GlassCard hover className="p-4 flex gap-4 h-full">
+                <div className="w-16 h-24 rounded-lg flex-shrink-0 overflow-hidden bg-gradient-to-br from-purple-600 to-indigo-700 flex items-center justify-center">
+                  {item.coverImageUrl ? (
+                    <img src={item.coverImageUrl} alt={item.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <Library className="w-7 h-7 text-white/80" />
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h3 className="font-semibold text-white line-clamp-1">{item.title}</h3>
+                  <p className="text-sm text-gray-400 mb-2">
+                    {t('marketplace.series.by_author', { name: item.author.name })}
+                  </p>
+                  {item.description && <p className="text-xs text-gray-400 line-clamp-2 mb-2">{item.description}</p>}
+                  <div className="flex items-center gap-3 text-xs">
+                    <span className="text-gray-300">{t('marketplace.series.book_count', { count: item.bookCount })}</span>
+                    {item.bundlePrice && (
+                      <span className="flex items-center gap-1 text-magic-gold">
+                        <Package className="w-3 h-3" />
+                        {t('marketplace.series.bundle', { price: item.bundlePrice.toFixed(2) })}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </GlassCard>
+            </Link>
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,4 @@
+export { default as SearchFilters, EMPTY_SEARCH_FILTERS } from './SearchFilters';
+export type { SearchFilterState } from './SearchFilters';
+export { default as BookPromotionsPanel } from './BookPromotionsPanel';
+export { default as SeriesShelf } from './SeriesShelf';
@@ -12,14 +12,24 @@ import {
   User,
   Loader2,
   ChevronLeft,
+  Check,
+  CheckCheck,
 } from 'lucide-react';
 import {
   startConversation,
   sendMessage,
   getMessages,
+  markConversationRead,
   Message,
   Conversation,
 } from '../../services/messagingApi';
+import { sendTyping } from '../../services/realtime';
+import { useRealtimeEvent } from '../../hooks/useRealtime';
+
+// Minimum time between "typing" signals, and how long the other side's
+// indicator stays up without a new signal
+const TYPING_SIGNAL_INTERVAL_MS = 3000;
+const TYPING_INDICATOR_TIMEOUT_MS = 6000;
 
 interface ChatModalProps {
   isOpen: boolean;
@@ -51,9 +61,81 @@ const ChatModal: React.FC<ChatModalProps> = ({
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const typingIndicatorTimer = useRef<ReturnType<typeof setTimeout>>();
+  const lastTypingSignal = useRef(0);
 
   const currentUserId = JSON.parse(localStorage.getItem('user') || '{}')?.id;
 
+  const addMessage = (message: Message) => {
+    setMessages((prev) => (prev.some((m) => m._id === message._id) ? prev : [...prev, message]));
+  };
+
+  // Live updates for the open conversation
+  useRealtimeEvent(
+    'message:new',
+    ({ conversationId, message }) => {
+      if (conversationId !== conversation?._id) return;
+
+      addMessage(message);
+      scrollToBottom();
+
+      if (message.sender._id !== currentUserId) {
+        setOtherTyping(false);
+        markConversationRead(conversationId).catch(() => {});
+      }
+    },
+    isOpen
+  );
+
+  useRealtimeEvent(
+    'typing',
+    ({ conversationId, isTyping }) => {
+      if (conversationId !== conversation?._id) return;
+
+      clearTimeout(typingIndicatorTimer.current);
+      setOtherTyping(isTyping);
+      if (isTyping) {
+        typingIndicatorTimer.current = setTimeout(() => setOtherTyping(false), TYPING_INDICATOR_TIMEOUT_MS);
+      }
+    },
+    isOpen
+  );
+
+  // Read receipts for our own messages
+  useRealtimeEvent(
+    'message:read',
+    ({ conversationId, readerId, readAt }) => {
+      if (conversationId !== conversation?._id || readerId === currentUserId) return;
+
+      setMessages((prev) =>
+        prev.map((m) => (m.sender._id === currentUserId && !m.readAt ? { ...m, readAt } : m))
+      );
+    },
+    isOpen
+  );
+
+  useEffect(() => () => clearTimeout(typingIndicatorTimer.current), []);
+
+  const stopTyping = () => {
+    if (conversation && lastTypingSignal.current) {
+      sendTyping(conversation._id, false);
+      lastTypingSignal.current = 0;
+    }
+  };
+
+  const handleInputChange = (value: string) => {
+    setNewMessage(value);
+    if (!conversation) return;
+
+    if (!value.trim()) {
+      stopTyping();
+    } else if (Date.now() - lastTypingSignal.current > TYPING_SIGNAL_INTERVAL_MS) {
+      sendTyping(conversation._id, true);
+      lastTypingSignal.current = Date.now();
+    }
+  };
+
   // Initialize conversation when modal opens
   useEffect(() => {
     if (isOpen && authorId) {
@@ -126,10 +208,12 @@ const ChatModal: React.FC<ChatModalProps> = ({
     const messageContent = newMessage.trim();
     setNewMessage('');
     setSending(true);
+    stopTyping();
 
     try {
       const sentMessage = await sendMessage(conversation._id, messageContent);
-      setMessages((prev) => [...prev, sentMessage]);
+      // The realtime echo may have added it already
+      addMessage(sentMessage);
       scrollToBottom();
     } catch (error) {
       console.error('Failed to send message:', error);
@@ -293,17 +377,31 @@ const ChatModal: React.FC<ChatModalProps> = ({
                           {message.content}
                         </p>
                         <p
-                          className={`text-[10px] mt-1 ${
-                            isOwn ? 'text-white/60' : 'text-gray-500'
+                          className={`text-[10px] mt-1 flex items-center gap-1 ${
+                            isOwn ? 'text-white/60 justify-end' : 'text-gray-500'
                           }`}
                         >
                           {formatTime(message.createdAt)}
+                          {isOwn &&
+                            (message.readAt ? (
+                              <CheckCheck className="w-3 h-3 text-sky-300" aria-label="Read" />
+                            ) : (
+                              <Check className="w-3 h-3" aria-label="Sent" />
+                            ))}
                         </p>
                       </div>
                     </div>
                   );
                 })}
 
+                {otherTyping && (
+                  <div className="flex justify-start">
+                    <div className="bg-white/10 rounded-2xl px-4 py-2 text-xs text-gray-400 italic">
+                      {authorName} is typing...
+                    </div>
+                  </div>
+                )}
+
                 <div ref={messagesEndRef} />
               </>
             )}
@@ -316,7 +414,8 @@ const ChatModal: React.FC<ChatModalProps> = ({
                 ref={inputRef}
                 type="text"
                 value={newMessage}
-                onChange={(e) => setNewMessage(e.target.value)}
+                onChange={(e) => handleInputChange(e.target.value)}
+                onBlur={stopTyping}
                 onKeyPress={handleKeyPress}
                 placeholder="Write a message..."
                 className="flex-1 bg-white/10 border border-white/10 rounded-xl px-3 sm:px-4 py-2.5 sm:py-3 text-sm sm:text-base text-white placeholder-gray-500 focus:outline-none focus:border-purple-500/50 focus:ring-1 focus:ring-purple-500/50 transition-all"
@@ -20,6 +20,7 @@ import {
   Conversation,
 } from '../../services/messagingApi';
 import ChatModal from './ChatModal';
+import { useRealtimeEvent } from '../../hooks/useRealtime';
 
 interface ConversationsListProps {
   isOpen: boolean;
@@ -44,8 +45,8 @@ const ConversationsList: React.FC<ConversationsListProps> = ({
     }
   }, [isOpen]);
 
-  const loadConversations = async () => {
-    setLoading(true);
+  const loadConversations = async (silent = false) => {
+    if (!silent) setLoading(true);
     try {
       const { conversations: convs } = await getConversations(1, 50);
       setConversations(convs);
@@ -56,6 +57,43 @@ const ConversationsList: React.FC<ConversationsListProps> = ({
     }
   };
 
+  // Move the conversation to the top with its new last message
+  useRealtimeEvent(
+    'message:new',
+    ({ conversationId, message }) => {
+      const existing = conversations.find((c) => c._id === conversationId);
+      if (!existing) {
+        loadConversations(true);
+        return;
+      }
+
+      const isIncoming = message.sender._id !== currentUserId;
+      const isOpen = selectedConversation?._id === conversationId;
+      const updated: Conversation = {
+        ...existing,
+        lastMessage: {
+          content: message.content.substring(0, 100),
+          sender: message.sender._id,
+          sentAt: message.createdAt,
+        },
+        myUnreadCount: isIncoming && !isOpen ? existing.myUnreadCount + 1 : existing.myUnreadCount,
+      };
+      setConversations((prev) => [updated, ...prev.filter((c) => c._id !== conversationId)]);
+    },
+    isOpen
+  );
+
+  useRealtimeEvent(
+    'message:read',
+    ({ conversationId, readerId }) => {
+      if (readerId !== currentUserId) return;
+      setConversations((prev) =>
+        prev.map((c) => (c._id === conversationId ? { ...c, myUnreadCount: 0 } : c))
+      );
+    },
+    isOpen
+  );
+
   const handleDelete = async (e: React.MouseEvent, conversationId: string) => {
     e.stopPropagation();
     if (deletingId) return;
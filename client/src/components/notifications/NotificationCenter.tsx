@@ -25,6 +25,10 @@ import {
   Loader2,
   Filter,
   User,
+  Users,
+  MessageSquare,
+  FlaskConical,
+  Target,
 } from 'lucide-react';
 import {
   getNotifications,
@@ -36,6 +40,7 @@ import {
   NotificationType,
 } from '../../services/notificationApi';
 import toast from 'react-hot-toast';
+import { useRealtimeEvent } from '../../hooks/useRealtime';
 
 interface NotificationCenterProps {
   isOpen: boolean;
@@ -65,6 +70,22 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
     }
   }, [isOpen, filter, showUnreadOnly]);
 
+  // Show new notifications as they arrive
+  useRealtimeEvent(
+    'notification:new',
+    ({ notification }) => {
+      setUnreadCount((prev) => prev + 1);
+      onUnreadCountChange?.(unreadCount + 1);
+
+      if (filter !== 'all' && notification.type !== filter) return;
+
+      setNotifications((prev) =>
+        prev.some((n) => n._id === notification._id) ? prev : [notification, ...prev]
+      );
+    },
+    isOpen
+  );
+
   const loadNotifications = async (loadMore = false) => {
     setLoading(true);
     try {
@@ -191,6 +212,14 @@ const NotificationCenter: React.FC<NotificationCenterProps> = ({
         return <Star className="w-5 h-5 text-yellow-400" />;
       case 'promotion':
         return <TrendingUp className="w-5 h-5 text-orange-500" />;
+      case 'collaboration':
+        return <Users className="w-5 h-5 text-indigo-500" />;
+      case 'comment_thread':
+        return <MessageSquare className="w-5 h-5 text-yellow-500" />;
+      case 'beta_read':
+        return <FlaskConical className="w-5 h-5 text-purple-400" />;
+      case 'writing_goal':
+        return <Target className="w-5 h-5 text-emerald-400" />;
       default:
         return <Bell className="w-5 h-5 text-gray-500" />;
     }
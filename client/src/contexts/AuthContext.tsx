@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { api } from '../services/api';
+import { connectRealtime, disconnectRealtime } from '../services/realtime';
 import toast from 'react-hot-toast';
 import { User } from '../types';
 import EmailVerificationModal from '../components/auth/EmailVerificationModal';
@@ -9,7 +10,7 @@ interface AuthContextType {
   loading: boolean;
   needsVerification: boolean;
   login: (email: string, password: string) => Promise<void>;
-  loginWithToken: (token: string) => Promise<void>;
+  loginWithToken: (token: string, refreshToken?: string) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => void;
   refreshUser: () => Promise<void>;
@@ -29,6 +30,15 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     loadUser();
   }, []);
 
+  // Live messages and notifications while signed in
+  useEffect(() => {
+    if (user) {
+      connectRealtime();
+    } else {
+      disconnectRealtime();
+    }
+  }, [!!user]);
+
   const loadUser = async () => {
     try {
       const token = localStorage.getItem('token');
@@ -62,6 +72,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       if (status === 401 || status === 403) {
         console.log('Authentication failed, clearing session');
         localStorage.removeItem('token');
+        localStorage.removeItem('refreshToken');
         localStorage.removeItem('user');
         setUser(null);
       } else {
@@ -88,8 +99,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const response = await api.post('/auth/login', { email, password });
 
       if (response.data.success) {
-        const { user, token, requiresVerification } = response.data.data;
+        const { user, token, refreshToken, requiresVerification } = response.data.data;
         localStorage.setItem('token', token);
+        localStorage.setItem('refreshToken', refreshToken);
         localStorage.setItem('user', JSON.stringify(user));
         setUser(user);
 
@@ -106,10 +118,13 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
-  const loginWithToken = async (token: string) => {
+  const loginWithToken = async (token: string, refreshToken?: string) => {
     try {
-      // Store the token
+      // Store the tokens
       localStorage.setItem('token', token);
+      if (refreshToken) {
+        localStorage.setItem('refreshToken', refreshToken);
+      }
 
       // Fetch user info with the token
       const response = await api.get('/auth/me');
@@ -123,6 +138,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     } catch (error: any) {
       console.error('Token login error:', error);
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
       throw error;
     }
   };
@@ -132,8 +148,9 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       const response = await api.post('/auth/register', { name, email, password });
 
       if (response.data.success) {
-        const { user, token, requiresVerification } = response.data.data;
+        const { user, token, refreshToken, requiresVerification } = response.data.data;
         localStorage.setItem('token', token);
+        localStorage.setItem('refreshToken', refreshToken);
         localStorage.setItem('user', JSON.stringify(user));
         setUser(user);
         toast.success('Account created! Please verify your email.');
@@ -150,8 +167,16 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   };
 
   const logout = () => {
+    // Revoke the session server-side (fire and forget)
+    const refreshToken = localStorage.getItem('refreshToken');
+    if (refreshToken) {
+      api.post('/auth/logout', { refreshToken }).catch(() => {});
+    }
+
     localStorage.removeItem('token');
+    localStorage.removeItem('refreshToken');
     localStorage.removeItem('user');
+    disconnectRealtime();
     setUser(null);
     toast.success('Logged out successfully');
     window.location.href = '/login';
@@ -0,0 +1,23 @@
+/**
+ * useOnlineStatus Hook
+ * Whether the browser currently has a network connection
+ */
+
+import { useEffect, useState } from 'react';
+
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState(navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    update();
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return online;
+}
@@ -0,0 +1,46 @@
+/**
+ * useRealtime Hooks
+ * Subscribe components to realtime server events
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  onRealtimeEvent,
+  onRealtimeStatus,
+  isRealtimeConnected,
+  RealtimeEvents,
+  RealtimeEventType,
+} from '../services/realtime';
+
+/**
+ * Call handler whenever the server pushes the given event.
+ * The latest handler is always used, so it may close over state.
+ */
+export function useRealtimeEvent<E extends RealtimeEventType>(
+  type: E,
+  handler: (data: RealtimeEvents[E]) => void,
+  enabled = true
+): void {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return onRealtimeEvent(type, (data) => handlerRef.current(data));
+  }, [type, enabled]);
+}
+
+/**
+ * Whether the realtime connection is up. Components fall back to
+ * polling while it is not.
+ */
+export function useRealtimeConnected(): boolean {
+  const [connected, setConnected] = useState(isRealtimeConnected());
+
+  useEffect(() => {
+    setConnected(isRealtimeConnected());
+    return onRealtimeStatus(setConnected);
+  }, []);
+
+  return connected;
+}
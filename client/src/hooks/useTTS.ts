@@ -1,12 +1,18 @@
 /**
  * useTTS Hook
- * Handles text-to-speech using Browser Web Speech API
+ * Handles text-to-speech using Browser Web Speech API, and playback of
+ * pre-rendered audiobook narration with sentence timing marks for
+ * read-along highlighting
  */
 
 import { useState, useRef, useCallback, useEffect } from 'react';
+import type { SentenceMark } from '../services/audiobookApi';
 
 interface UseTTSResult {
   speak: (text: string) => Promise<void>;
+  playAudio: (src: string, marks: SentenceMark[], startAtMark?: number) => Promise<void>;
+  seekToMark: (index: number) => void;
+  activeMarkIndex: number;
   stop: () => void;
   pause: () => void;
   resume: () => void;
@@ -53,10 +59,13 @@ export function useTTS(options: UseTTSOptions = {}): UseTTSResult {
   const [rate, setRate] = useState(initialRate);
   const [pitch, setPitch] = useState(initialPitch);
   const [error, setError] = useState<string | null>(null);
+  const [activeMarkIndex, setActiveMarkIndex] = useState(-1);
 
   // Refs
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
   const resolveRef = useRef<(() => void) | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const marksRef = useRef<SentenceMark[]>([]);
 
   // Check for Web Speech API support
   useEffect(() => {
@@ -114,9 +123,18 @@ export function useTTS(options: UseTTSOptions = {}): UseTTSResult {
       if (window.speechSynthesis) {
         window.speechSynthesis.cancel();
       }
+      audioRef.current?.pause();
+      audioRef.current = null;
     };
   }, []);
 
+  // Keep pre-rendered narration at the selected speed
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.playbackRate = rate;
+    }
+  }, [rate]);
+
   // Speak text
   const speak = useCallback(
     (text: string): Promise<void> => {
@@ -134,8 +152,10 @@ export function useTTS(options: UseTTSOptions = {}): UseTTSResult {
           return;
         }
 
-        // Cancel any ongoing speech
+        // Cancel any ongoing speech or pre-rendered narration
         window.speechSynthesis.cancel();
+        audioRef.current?.pause();
+        audioRef.current = null;
 
         setError(null);
 
@@ -204,11 +224,96 @@ export function useTTS(options: UseTTSOptions = {}): UseTTSResult {
     [isSupported, selectedVoice, language, rate, pitch, volume, onStart, onEnd, onError]
   );
 
+  // Play pre-rendered narration, tracking the sentence being read
+  const playAudio = useCallback(
+    (src: string, marks: SentenceMark[], startAtMark: number = 0): Promise<void> => {
+      return new Promise((resolve, reject) => {
+        window.speechSynthesis?.cancel();
+        audioRef.current?.pause();
+        if (resolveRef.current) {
+          resolveRef.current();
+          resolveRef.current = null;
+        }
+
+        setError(null);
+
+        const audio = new Audio(src);
+        audio.playbackRate = rate;
+        audio.volume = volume;
+        audioRef.current = audio;
+        marksRef.current = marks;
+        resolveRef.current = resolve;
+
+        audio.ontimeupdate = () => {
+          const time = audio.currentTime;
+          const index = marksRef.current.findIndex((mark) => time >= mark.start && time < mark.end);
+          if (index !== -1) setActiveMarkIndex(index);
+        };
+
+        audio.onplay = () => {
+          setIsSpeaking(true);
+          setIsPaused(false);
+          if (onStart) onStart();
+        };
+
+        audio.onpause = () => {
+          if (!audio.ended && audioRef.current === audio) setIsPaused(true);
+        };
+
+        audio.onended = () => {
+          setIsSpeaking(false);
+          setIsPaused(false);
+          setActiveMarkIndex(-1);
+          if (onEnd) onEnd();
+          if (resolveRef.current) {
+            resolveRef.current();
+            resolveRef.current = null;
+          }
+        };
+
+        audio.onerror = () => {
+          setIsSpeaking(false);
+          setIsPaused(false);
+          const errorMsg = 'Failed to play narration audio';
+          setError(errorMsg);
+          if (onError) onError(errorMsg);
+          reject(new Error(errorMsg));
+        };
+
+        if (startAtMark > 0 && marks[startAtMark]) {
+          audio.currentTime = marks[startAtMark].start;
+        }
+
+        audio.play().catch((err) => {
+          const errorMsg = `Playback error: ${err.message}`;
+          setError(errorMsg);
+          if (onError) onError(errorMsg);
+          reject(err);
+        });
+      });
+    },
+    [rate, volume, onStart, onEnd, onError]
+  );
+
+  // Jump to a sentence of the pre-rendered narration
+  const seekToMark = useCallback((index: number) => {
+    const mark = marksRef.current[index];
+    if (audioRef.current && mark) {
+      audioRef.current.currentTime = mark.start;
+      setActiveMarkIndex(index);
+    }
+  }, []);
+
   // Stop speaking
   const stop = useCallback(() => {
     if (window.speechSynthesis) {
       window.speechSynthesis.cancel();
     }
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current = null;
+    }
+    setActiveMarkIndex(-1);
     setIsSpeaking(false);
     setIsPaused(false);
     if (resolveRef.current) {
@@ -219,7 +324,10 @@ export function useTTS(options: UseTTSOptions = {}): UseTTSResult {
 
   // Pause speaking
   const pause = useCallback(() => {
-    if (window.speechSynthesis && isSpeaking) {
+    if (audioRef.current && isSpeaking) {
+      audioRef.current.pause();
+      setIsPaused(true);
+    } else if (window.speechSynthesis && isSpeaking) {
       window.speechSynthesis.pause();
       setIsPaused(true);
     }
@@ -227,7 +335,10 @@ export function useTTS(options: UseTTSOptions = {}): UseTTSResult {
 
   // Resume speaking
   const resume = useCallback(() => {
-    if (window.speechSynthesis && isPaused) {
+    if (audioRef.current && isPaused) {
+      audioRef.current.play();
+      setIsPaused(false);
+    } else if (window.speechSynthesis && isPaused) {
       window.speechSynthesis.resume();
       setIsPaused(false);
     }
@@ -235,6 +346,9 @@ export function useTTS(options: UseTTSOptions = {}): UseTTSResult {
 
   return {
     speak,
+    playAudio,
+    seekToMark,
+    activeMarkIndex,
     stop,
     pause,
     resume,
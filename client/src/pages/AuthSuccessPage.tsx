@@ -1,36 +1,44 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { exchangeOAuthCode } from '../services/authApi';
 import { Loader2 } from 'lucide-react';
 
 /**
  * OAuth Success Callback Page
- * Handles the redirect after successful Google OAuth login
+ * Handles the redirect after successful Google OAuth login: exchanges the
+ * one-time code from the URL for the session's tokens
  */
 export default function AuthSuccessPage() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const { loginWithToken } = useAuth();
+  const exchanged = useRef(false);
 
   useEffect(() => {
-    const token = searchParams.get('token');
+    const code = searchParams.get('code');
 
-    if (!token) {
-      console.error('No token received from OAuth');
+    if (!code) {
+      console.error('No sign-in code received from OAuth');
       navigate('/login?error=no_token');
       return;
     }
 
-    // Store token and fetch user info
+    // The code works once; don't spend it twice if the effect re-runs
+    if (exchanged.current) return;
+    exchanged.current = true;
+
+    // Exchange the code, store the tokens and fetch user info
     const handleAuth = async () => {
       try {
-        await loginWithToken(token);
+        const { token, refreshToken } = await exchangeOAuthCode(code);
+        await loginWithToken(token, refreshToken);
 
         // Redirect to dashboard
-        navigate('/dashboard');
+        navigate('/dashboard', { replace: true });
       } catch (error) {
         console.error('Auth error:', error);
-        navigate('/login?error=auth_failed');
+        navigate('/login?error=auth_failed', { replace: true });
       }
     };
 
@@ -10,11 +10,19 @@ import {
   MessageCircle,
   Sparkles,
   Eye,
+  Tag,
+  Library,
+  Gift,
 } from 'lucide-react';
 import { api } from '../services/api';
+import { getPriceQuote, type PriceQuote } from '../services/couponApi';
+import { getNextInSeries, type NextInSeries } from '../services/seriesApi';
+import { getGiftCardBalance } from '../services/giftApi';
 import toast from 'react-hot-toast';
 import { GlassCard, GlowingButton } from '../components/ui';
 import { useAuth } from '../contexts/AuthContext';
+import BetaReadPanel from '../components/beta/BetaReadPanel';
+import GiftModal from '../components/gifts/GiftModal';
 
 interface Book {
   _id: string;
@@ -39,6 +47,11 @@ interface Book {
   publishingStatus: {
     price: number;
     isFree: boolean;
+    sale?: {
+      price: number;
+      startsAt: string;
+      endsAt: string;
+    };
   };
   statistics: {
     wordCount: number;
@@ -73,11 +86,73 @@ export default function BookDetailsPage() {
   const [reviewRating, setReviewRating] = useState(0);
   const [reviewComment, setReviewComment] = useState('');
   const [submittingReview, setSubmittingReview] = useState(false);
+  const [couponCode, setCouponCode] = useState('');
+  const [showCouponInput, setShowCouponInput] = useState(false);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [seriesInfo, setSeriesInfo] = useState<NextInSeries | null>(null);
+  const [giftBalance, setGiftBalance] = useState(0);
+  const [useGiftBalance, setUseGiftBalance] = useState(false);
+  const [showGiftModal, setShowGiftModal] = useState(false);
 
   useEffect(() => {
     loadBook();
+    getNextInSeries(id!)
+      .then(setSeriesInfo)
+      .catch(() => setSeriesInfo(null));
   }, [id]);
 
+  useEffect(() => {
+    if (!user) return;
+    getGiftCardBalance()
+      .then(setGiftBalance)
+      .catch(() => setGiftBalance(0));
+  }, [user]);
+
+  // Checkout that takes the gift card balance first, then PayPal for the rest
+  const buyWithGiftBalance = async (bookId: string) => {
+    const order = await api.post(`/book-purchases/${bookId}/create-order`, {
+      couponCode: quote?.coupon?.code,
+      useGiftBalance: true,
+    });
+    const { orderId, approvalUrl, mockMode, paidWithBalance } = order.data.data;
+    if (!mockMode && !paidWithBalance && approvalUrl) {
+      window.location.href = approvalUrl;
+      return false;
+    }
+    await api.post('/book-purchases/capture', { orderId });
+    return true;
+  };
+
+  // A running sale, shown before any coupon is applied
+  const activeSale = (() => {
+    const sale = book?.publishingStatus.sale;
+    if (!sale || !book) return null;
+    const now = Date.now();
+    const running = new Date(sale.startsAt).getTime() <= now && new Date(sale.endsAt).getTime() > now;
+    return running && sale.price < book.publishingStatus.price ? sale : null;
+  })();
+  const displayPrice = quote?.price ?? activeSale?.price ?? book?.publishingStatus.price ?? 0;
+
+  const handleApplyCoupon = async () => {
+    if (!book || !couponCode.trim()) return;
+    if (!user) {
+      toast.error('Please log in to use a coupon');
+      return;
+    }
+    setApplyingCoupon(true);
+    try {
+      const priced = await getPriceQuote(book._id, couponCode.trim());
+      setQuote(priced);
+      toast.success(`Coupon applied: $${priced.coupon?.discount.toFixed(2)} off`);
+    } catch (error: any) {
+      setQuote(null);
+      toast.error(error.response?.data?.error || 'Invalid coupon code');
+    } finally {
+      setApplyingCoupon(false);
+    }
+  };
+
   const loadBook = async () => {
     try {
       setLoading(true);
@@ -177,6 +252,7 @@ export default function BookDetailsPage() {
     return null;
   }
 
+  const isAuthor = !!user && book.author._id === user.id;
   const coverImage = book.coverDesign?.front?.imageUrl;
   const coverBg = book.coverDesign?.front?.backgroundColor || '#1a1a3e';
 
@@ -239,10 +315,19 @@ export default function BookDetailsPage() {
             className="flex flex-col justify-center"
           >
             {/* Genre Badge */}
-            <div className="mb-4">
+            <div className="mb-4 flex flex-wrap items-center gap-3">
               <span className="px-4 py-2 rounded-full bg-indigo-600/30 text-indigo-300 text-sm font-semibold border border-indigo-500/30">
                 {book.genre}
               </span>
+              {seriesInfo && (
+                <Link
+                  to={`/series/${seriesInfo.series._id}`}
+                  className="flex items-center gap-2 px-4 py-2 rounded-full bg-purple-600/20 text-purple-300 text-sm border border-purple-500/30 hover:bg-purple-600/30 transition-colors"
+                >
+                  <Library className="w-4 h-4" />
+                  Book {seriesInfo.position} of {seriesInfo.total} in {seriesInfo.series.title}
+                </Link>
+              )}
             </div>
 
             {/* Title */}
@@ -309,7 +394,17 @@ export default function BookDetailsPage() {
                     // Purchase the book
                     try {
                       toast.loading('Processing purchase...', { id: 'purchase' });
-                      const response = await api.post(`/books/${book._id}/purchase`);
+                      if (useGiftBalance) {
+                        if (!(await buyWithGiftBalance(book._id))) return;
+                        toast.success('Purchase successful! Redirecting to reader...', { id: 'purchase' });
+                        setTimeout(() => {
+                          window.location.href = `/read/${book._id}`;
+                        }, 1500);
+                        return;
+                      }
+                      const response = await api.post(`/books/${book._id}/purchase`, {
+                        couponCode: quote?.coupon?.code,
+                      });
                       if (response.data.success) {
                         toast.success('Purchase successful! Redirecting to reader...', { id: 'purchase' });
                         setTimeout(() => {
@@ -329,9 +424,34 @@ export default function BookDetailsPage() {
                 <BookOpen className="w-5 h-5" />
                 {book.publishingStatus.isFree
                   ? 'Read Now'
-                  : `Buy for $${book.publishingStatus.price}`}
+                  : `Buy for $${displayPrice.toFixed(2)}`}
+                {!book.publishingStatus.isFree && displayPrice < book.publishingStatus.price && (
+                  <span className="line-through opacity-60 text-sm">
+                    ${book.publishingStatus.price.toFixed(2)}
+                  </span>
+                )}
               </GlowingButton>
 
+              {/* Gift Button */}
+              {!book.publishingStatus.isFree && (
+                <motion.button
+                  whileTap={{ scale: 0.9 }}
+                  onClick={() => {
+                    if (!user) {
+                      toast.error('Please log in to send a gift');
+                      navigate('/login', { state: { from: { pathname: `/book/${book._id}` } } });
+                      return;
+                    }
+                    setShowGiftModal(true);
+                  }}
+                  className="flex items-center gap-2 px-6 py-3 rounded-xl font-semibold bg-white/5 text-gray-300 hover:bg-white/10 transition-all"
+                  title="Give as a gift"
+                >
+                  <Gift className="w-5 h-5" />
+                  <span className="hidden sm:inline">Gift</span>
+                </motion.button>
+              )}
+
               {/* Like Button */}
               <motion.button
                 whileTap={{ scale: 0.9 }}
@@ -354,6 +474,70 @@ export default function BookDetailsPage() {
               </motion.button>
             </div>
 
+            {/* Sale and coupon */}
+            {!book.publishingStatus.isFree && (
+              <div className="-mt-4 mb-8 space-y-2">
+                {activeSale && !quote?.coupon && (
+                  <p className="text-sm text-green-400">
+                    On sale until {new Date(activeSale.endsAt).toLocaleDateString()}
+                  </p>
+                )}
+                {quote?.coupon ? (
+                  <p className="text-sm text-green-400 flex items-center gap-2">
+                    <Tag className="w-4 h-4" />
+                    {quote.coupon.code}: ${quote.coupon.discount.toFixed(2)} off
+                    <button
+                      onClick={() => {
+                        setQuote(null);
+                        setCouponCode('');
+                      }}
+                      className="text-gray-400 hover:text-white underline"
+                    >
+                      Remove
+                    </button>
+                  </p>
+                ) : showCouponInput ? (
+                  <div className="flex gap-2 max-w-sm">
+                    <input
+                      type="text"
+                      value={couponCode}
+                      onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => e.key === 'Enter' && handleApplyCoupon()}
+                      className="input flex-1 font-mono text-sm"
+                      placeholder="Coupon code"
+                      maxLength={30}
+                    />
+                    <button
+                      onClick={handleApplyCoupon}
+                      disabled={applyingCoupon || !couponCode.trim()}
+                      className="px-4 rounded-lg bg-white/10 hover:bg-white/20 text-white text-sm disabled:opacity-50"
+                    >
+                      Apply
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setShowCouponInput(true)}
+                    className="text-sm text-gray-400 hover:text-white flex items-center gap-1"
+                  >
+                    <Tag className="w-4 h-4" />
+                    Have a coupon?
+                  </button>
+                )}
+                {giftBalance > 0 && (
+                  <label className="text-sm text-gray-300 flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={useGiftBalance}
+                      onChange={(e) => setUseGiftBalance(e.target.checked)}
+                    />
+                    <Gift className="w-4 h-4 text-magic-gold" />
+                    Pay with my gift card balance (${giftBalance.toFixed(2)})
+                  </label>
+                )}
+              </div>
+            )}
+
             {/* Published Date */}
             <div className="flex items-center gap-2 text-gray-400 text-sm">
               <Calendar className="w-4 h-4" />
@@ -387,6 +571,18 @@ export default function BookDetailsPage() {
           </motion.div>
         )}
 
+        {/* Beta Read Results (author only) */}
+        {isAuthor && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+            className="mb-16"
+          >
+            <BetaReadPanel bookId={book._id} />
+          </motion.div>
+        )}
+
         {/* Reviews Section */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -540,6 +736,15 @@ export default function BookDetailsPage() {
           </GlassCard>
         </motion.div>
       </div>
+
+      <GiftModal
+        isOpen={showGiftModal}
+        onClose={() => setShowGiftModal(false)}
+        onSent={() => user && getGiftCardBalance().then(setGiftBalance).catch(() => {})}
+        book={{ _id: book._id, title: book.title, price: displayPrice }}
+        couponCode={quote?.coupon?.code}
+        giftBalance={giftBalance}
+      />
     </div>
   );
 }
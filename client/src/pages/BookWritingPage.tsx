@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { api } from '../services/api';
@@ -17,6 +17,13 @@ import {
   PenTool,
   Menu,
   X,
+  History,
+  Users,
+  Lock,
+  MessageSquare,
+  PenLine,
+  Library,
+  CloudOff,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { useEditor, EditorContent } from '@tiptap/react';
@@ -34,13 +41,52 @@ import PlotStructurePanel from '../components/analysis/PlotStructurePanel';
 import TensionArcChart from '../components/analysis/TensionArcChart';
 import WritingTechniquesCard from '../components/analysis/WritingTechniquesCard';
 import WritingGuidanceAlert, { useWritingGuidance } from '../components/analysis/WritingGuidanceAlert';
+import RevisionHistoryPanel from '../components/editor/RevisionHistoryPanel';
+import CollaboratorsPanel from '../components/editor/CollaboratorsPanel';
+import { CollaboratorRole } from '../services/collaborationApi';
+import CommentsPanel, { ThreadDraft } from '../components/editor/CommentsPanel';
+import { CommentHighlights, showCommentThreads, textOffsetAt } from '../components/editor/CommentHighlights';
+import { CommentThread, CommentThreadKind, getCommentThreads } from '../services/commentApi';
+import StoryBiblePanel from '../components/editor/StoryBiblePanel';
+import ChapterConflictDialog, { ChapterConflict } from '../components/editor/ChapterConflictDialog';
+import {
+  draftKey,
+  saveChapterDraft,
+  getChapterDrafts,
+  deleteChapterDraft,
+  syncChapterDrafts,
+} from '../services/offlineDrafts';
+import { mergeChapter, buildMergedHtml, countWords } from '../utils/chapterMerge';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
 
 interface Chapter {
   _id?: string;
+  localId?: string; // Names a new chapter's offline draft until it is saved
   title: string;
   content: string;
   order: number;
   wordCount: number;
+  version?: number;
+}
+
+// A chapter the server would not overwrite (PUT /books/:id answers 409)
+interface SaveConflict {
+  chapterId: string;
+  baseVersion: number;
+  chapter: { title: string; content: string; wordCount: number; version: number };
+}
+
+// A chapter waiting for the author to settle edits made here and elsewhere
+interface PendingConflict extends ChapterConflict {
+  chapterId: string;
+  baseTitle: string;
+  server: Chapter; // The copy the resolution is saved over
+}
+
+// How the current user works on the book (from GET /books/:id)
+interface BookAccess {
+  role: 'author' | CollaboratorRole;
+  chapters: string[]; // Assigned chapters; empty = the whole book
 }
 
 interface BookData {
@@ -64,6 +110,7 @@ export default function BookWritingPage() {
   const [saving, setSaving] = useState(false);
   const [saved, setSaved] = useState(true);
   const [loading, setLoading] = useState(true);
+  const [access, setAccess] = useState<BookAccess>({ role: 'author', chapters: [] });
 
   // Mobile sidebar states
   const [showLeftSidebar, setShowLeftSidebar] = useState(false);
@@ -90,6 +137,41 @@ export default function BookWritingPage() {
   // Analysis tab state
   const [activeTab, setActiveTab] = useState<AnalysisTab>('copilot');
 
+  // Revision history modal state
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Collaborators modal state
+  const [showCollaborators, setShowCollaborators] = useState(false);
+
+  // Comment threads on the current chapter
+  const [threads, setThreads] = useState<CommentThread[]>([]);
+  const [threadsLoading, setThreadsLoading] = useState(false);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const [threadDraft, setThreadDraft] = useState<ThreadDraft | null>(null);
+
+  // Unsaved edits kept on this device, and chapters changed elsewhere
+  // meanwhile. serverChapters holds each chapter as last seen on the
+  // server: the base of drafts and merges.
+  const online = useOnlineStatus();
+  const wasOnline = useRef(online);
+  const serverChapters = useRef(new Map<string, Chapter>());
+  const [draftKeys, setDraftKeys] = useState<string[]>([]);
+  const [conflicts, setConflicts] = useState<PendingConflict[]>([]);
+  const [retrySave, setRetrySave] = useState(false);
+
+  // Editors' saves become suggestions; assigned co-authors and editors are
+  // limited to their chapters and cannot add new ones. Beta readers only
+  // comment.
+  const isAuthor = access.role === 'author';
+  const isEditor = access.role === 'editor';
+  const isBetaReader = access.role === 'beta-reader';
+  const canAddChapters = isAuthor || (access.role === 'co-author' && access.chapters.length === 0);
+  const selectedChapterId = book?.chapters?.[selectedChapterIndex]?._id;
+  const canWriteChapter =
+    !isBetaReader &&
+    (access.chapters.length === 0 || (!!selectedChapterId && access.chapters.includes(selectedChapterId)));
+  const canDecideSuggestions = isAuthor || (access.role === 'co-author' && canWriteChapter);
+
   // Writing guidance hook
   const { guidance, dismiss: dismissGuidance } = useWritingGuidance(
     bookId,
@@ -117,6 +199,13 @@ export default function BookWritingPage() {
         alignments: ['left', 'center', 'right', 'justify'],
       }),
       CharacterCount,
+      CommentHighlights.configure({
+        onSelectThread: (threadId) => {
+          setActiveThreadId(threadId);
+          setActiveTab('comments');
+          setShowRightSidebar(true);
+        },
+      }),
     ],
     content: '',
     editorProps: {
@@ -157,6 +246,39 @@ export default function BookWritingPage() {
     }
   }, [selectedChapterIndex, content, editor]);
 
+  // Lock chapters outside the user's assignment
+  useEffect(() => {
+    if (editor && editor.isEditable !== canWriteChapter) {
+      editor.setEditable(canWriteChapter);
+    }
+  }, [editor, canWriteChapter]);
+
+  // Load the chapter's comment threads
+  useEffect(() => {
+    setThreads([]);
+    setActiveThreadId(null);
+    setThreadDraft(null);
+    if (!bookId || !selectedChapterId) return;
+
+    let cancelled = false;
+    setThreadsLoading(true);
+    getCommentThreads(bookId, selectedChapterId)
+      .then((loaded) => !cancelled && setThreads(loaded))
+      .catch((err) => console.error('Failed to load comments:', err))
+      .finally(() => !cancelled && setThreadsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [bookId, selectedChapterId]);
+
+  // Paint open threads over the chapter
+  useEffect(() => {
+    if (editor) {
+      showCommentThreads(editor, threads, activeThreadId);
+    }
+  }, [editor, threads, activeThreadId]);
+
   // Load book data
   useEffect(() => {
     if (bookId) {
@@ -167,14 +289,139 @@ export default function BookWritingPage() {
   // Auto-save every 30 seconds (Section 5.1)
   useEffect(() => {
     const interval = setInterval(() => {
-      // Prevent concurrent saves and only save if there are changes
-      if (!saved && content && !saving) {
+      // Prevent concurrent saves and only save if there are changes.
+      // Editors send suggestions explicitly rather than every 30 seconds.
+      if (!saved && content && !saving && !isEditor && online) {
         saveBook();
       }
     }, 30000);
 
     return () => clearInterval(interval);
-  }, [saved, content, saving]);
+  }, [saved, content, saving, isEditor, online]);
+
+  // Keep unsaved edits on this device shortly after each change
+  useEffect(() => {
+    if (saved) return;
+
+    const timer = setTimeout(storeDraft, 800);
+    return () => clearTimeout(timer);
+  }, [saved, content, book]);
+
+  // Back online: send what was written meanwhile
+  useEffect(() => {
+    if (online && !wasOnline.current) {
+      (saved ? Promise.resolve() : storeDraft()).then(() => syncDrafts());
+    }
+    wasOnline.current = online;
+  }, [online]);
+
+  // Save again once a merge has been applied to the state
+  useEffect(() => {
+    if (retrySave) {
+      setRetrySave(false);
+      saveBook();
+    }
+  }, [retrySave]);
+
+  // A newer conflict on a chapter replaces the one already waiting
+  const queueConflicts = (added: PendingConflict[]) => {
+    setConflicts((prev) => [
+      ...prev.filter((waiting) => !added.some((conflict) => conflict.chapterId === waiting.chapterId)),
+      ...added,
+    ]);
+  };
+
+  // Remember chapters as the server has them
+  const rememberServerChapters = (chapters: Chapter[]) => {
+    for (const chapter of chapters) {
+      if (chapter._id) serverChapters.current.set(chapter._id, { ...chapter });
+    }
+  };
+
+  const chapterDraftKey = (chapter?: Chapter) => {
+    const key = chapter?._id || chapter?.localId;
+    return bookId && key ? draftKey(bookId, key) : undefined;
+  };
+
+  const refreshDraftKeys = async () => {
+    if (!bookId) return;
+    try {
+      const drafts = await getChapterDrafts(bookId);
+      setDraftKeys(drafts.map((draft) => draft.key));
+    } catch (err) {
+      console.error('Failed to read offline drafts:', err);
+    }
+  };
+
+  // Store the current chapter's unsaved edits on this device
+  const storeDraft = async () => {
+    const chapter = book?.chapters?.[selectedChapterIndex];
+    const key = chapterDraftKey(chapter);
+    if (!bookId || !chapter || !key || isEditor || isBetaReader) return;
+
+    const base = chapter._id ? serverChapters.current.get(chapter._id) : undefined;
+    try {
+      await saveChapterDraft({
+        key,
+        bookId,
+        chapterId: chapter._id,
+        localId: chapter.localId,
+        title: chapter.title,
+        content,
+        wordCount: editor?.storage.characterCount?.words() || 0,
+        order: chapter.order,
+        baseVersion: base?.version,
+        baseTitle: base?.title ?? '',
+        baseContent: base?.content ?? '',
+        updatedAt: Date.now(),
+      });
+    } catch (err) {
+      console.error('Failed to store offline draft:', err);
+    }
+    await refreshDraftKeys();
+  };
+
+  // Replay drafts left from offline work; overlapping edits go to the
+  // conflict dialog
+  const syncDrafts = async (loaded?: BookData) => {
+    const current = loaded ?? book;
+    if (!bookId || !current) return;
+
+    try {
+      const result = await syncChapterDrafts(bookId);
+
+      if (result.book) {
+        const synced: BookData = result.book;
+        const currentId = current.chapters?.[selectedChapterIndex]?._id;
+        const foundIndex = currentId ? synced.chapters.findIndex((ch) => ch._id === currentId) : -1;
+        const index = foundIndex >= 0 ? foundIndex : Math.min(selectedChapterIndex, synced.chapters.length - 1);
+
+        setBook(synced);
+        rememberServerChapters(synced.chapters);
+        setSelectedChapterIndex(Math.max(index, 0));
+        setContent(synced.chapters[index]?.content || '');
+        setSaved(true);
+        toast.success(t('editor.sync.synced', { count: result.synced }));
+      }
+
+      if (result.conflicts.length > 0) {
+        queueConflicts(
+          result.conflicts.map(({ draft, server }) => ({
+            chapterId: server._id!,
+            title: draft.title,
+            baseTitle: draft.baseTitle,
+            base: draft.baseContent,
+            mine: draft.content,
+            theirs: server.content,
+            server,
+          }))
+        );
+      }
+    } catch (err) {
+      console.error('Failed to sync offline drafts:', err);
+    }
+    await refreshDraftKeys();
+  };
 
   const loadBook = async () => {
     try {
@@ -182,6 +429,10 @@ export default function BookWritingPage() {
       if (response.data.success) {
         const bookData = response.data.data.book;
         setBook(bookData);
+        rememberServerChapters(bookData.chapters || []);
+        if (response.data.data.access) {
+          setAccess(response.data.data.access);
+        }
 
         // If book has chapters, load the first one
         if (bookData.chapters && bookData.chapters.length > 0) {
@@ -200,6 +451,8 @@ export default function BookWritingPage() {
             editor.commands.setContent(htmlContent);
           }
         }
+
+        syncDrafts(bookData);
       }
     } catch (error) {
       console.error('Failed to load book:', error);
@@ -214,39 +467,170 @@ export default function BookWritingPage() {
     if (!book || !editor || saving) return;
 
     setSaving(true);
-    try {
-      // Update the current chapter
-      const updatedChapters = [...(book.chapters || [])];
-
-      if (updatedChapters[selectedChapterIndex]) {
-        updatedChapters[selectedChapterIndex] = {
-          ...updatedChapters[selectedChapterIndex],
-          content,
-          wordCount: editor.storage.characterCount?.words() || 0,
-        };
-      }
 
+    // Update the current chapter
+    const updatedChapters = [...(book.chapters || [])];
+
+    if (updatedChapters[selectedChapterIndex]) {
+      updatedChapters[selectedChapterIndex] = {
+        ...updatedChapters[selectedChapterIndex],
+        content,
+        wordCount: editor.storage.characterCount?.words() || 0,
+      };
+    }
+
+    try {
       const response = await api.put(`/books/${bookId}`, {
         chapters: updatedChapters,
       });
 
-      if (response.data.success) {
+      if (response.status === 202) {
+        // Editor: stored as a suggestion, the book itself is unchanged
+        setSaved(true);
+        toast.success(t('editor.collaboration.suggestion_sent'));
+      } else if (response.data.success) {
         setBook(response.data.data.book);
+        rememberServerChapters(response.data.data.book.chapters);
         setSaved(true);
         toast.success('Saved!', { duration: 1500 });
+        await discardSavedDrafts(updatedChapters);
+      }
+    } catch (error: any) {
+      if (error.response?.status === 409 && error.response.data.data?.conflicts) {
+        settleSaveConflicts(error.response.data.data.conflicts, updatedChapters);
+      } else if (!error.response) {
+        // No connection: the edits wait on this device until it is back
+        await storeDraft();
+        setSaved(true);
+        toast(t('editor.sync.saved_offline'), { icon: '☁️' });
+      } else {
+        console.error('Failed to save book:', error);
+        toast.error(error.response.status === 403 ? error.response.data.error : 'Failed to save');
       }
-    } catch (error) {
-      console.error('Failed to save book:', error);
-      toast.error('Failed to save');
     } finally {
       setSaving(false);
     }
   };
 
-  const addChapter = () => {
+  // Drop the drafts the server now has: the current chapter's, and any
+  // whose edits went out with this save
+  const discardSavedDrafts = async (sent: Chapter[]) => {
+    if (!bookId) return;
+    const currentKey = chapterDraftKey(sent[selectedChapterIndex]);
+
+    try {
+      const drafts = await getChapterDrafts(bookId);
+      for (const draft of drafts) {
+        const chapter = sent.find((ch) => chapterDraftKey(ch) === draft.key);
+        if (draft.key === currentKey || (chapter && chapter.content === draft.content && chapter.title === draft.title)) {
+          await deleteChapterDraft(draft.key);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to clear offline drafts:', err);
+    }
+    await refreshDraftKeys();
+  };
+
+  // Chapters changed elsewhere since this copy was loaded: edits to
+  // different paragraphs are merged and saved again, overlapping ones go
+  // to the author
+  const settleSaveConflicts = (saveConflicts: SaveConflict[], sent: Chapter[]) => {
     if (!book) return;
+    const unresolved: PendingConflict[] = [];
+
+    const chapters = sent.map((chapter) => {
+      const conflict = saveConflicts.find((c) => c.chapterId === chapter._id);
+      if (!conflict) return chapter;
+
+      const base = serverChapters.current.get(conflict.chapterId);
+      const server: Chapter = { ...chapter, ...conflict.chapter };
+      const merged = mergeChapter(base?.content ?? '', chapter.content, server.content);
+
+      if (merged.conflicts > 0) {
+        unresolved.push({
+          chapterId: conflict.chapterId,
+          title: chapter.title,
+          baseTitle: base?.title ?? '',
+          base: base?.content ?? '',
+          mine: chapter.content,
+          theirs: server.content,
+          server,
+        });
+        return chapter;
+      }
+
+      serverChapters.current.set(conflict.chapterId, server);
+      const mergedContent = buildMergedHtml(merged, []);
+      return {
+        ...chapter,
+        title: chapter.title !== base?.title ? chapter.title : server.title,
+        content: mergedContent,
+        wordCount: countWords(mergedContent),
+        version: server.version,
+      };
+    });
+
+    setBook({ ...book, chapters });
+    setContent(chapters[selectedChapterIndex]?.content ?? content);
+
+    if (unresolved.length > 0) {
+      queueConflicts(unresolved);
+    } else {
+      toast.success(t('editor.sync.merged'));
+      setRetrySave(true);
+    }
+  };
+
+  // Apply the author's resolution of the first waiting conflict, then save
+  const resolveConflict = async (resolved: string) => {
+    const [conflict, ...rest] = conflicts;
+    setConflicts(rest);
+    if (!book || !bookId || !conflict) return;
+
+    const { server } = conflict;
+    const title = conflict.title !== conflict.baseTitle ? conflict.title : server.title;
+    serverChapters.current.set(conflict.chapterId, { ...server });
+
+    const chapters = book.chapters.map((ch) =>
+      ch._id === conflict.chapterId
+        ? { ...ch, title, content: resolved, wordCount: countWords(resolved), version: server.version }
+        : ch
+    );
+    setBook({ ...book, chapters });
+    if (conflict.chapterId === selectedChapterId) {
+      setContent(resolved);
+    }
+
+    // The resolution replaces the chapter's draft until it is saved
+    const chapter = chapters.find((ch) => ch._id === conflict.chapterId);
+    if (chapter) {
+      try {
+        await saveChapterDraft({
+          key: draftKey(bookId, conflict.chapterId),
+          bookId,
+          chapterId: conflict.chapterId,
+          title,
+          content: resolved,
+          wordCount: chapter.wordCount,
+          order: chapter.order,
+          baseVersion: server.version,
+          baseTitle: server.title,
+          baseContent: server.content,
+          updatedAt: Date.now(),
+        });
+      } catch (err) {
+        console.error('Failed to store offline draft:', err);
+      }
+    }
+    setRetrySave(true);
+  };
+
+  const addChapter = () => {
+    if (!book || !canAddChapters) return;
 
     const newChapter: Chapter = {
+      localId: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
       title: t('editor.chapter_default', { number: (book.chapters || []).length + 1 }),
       content: '',
       order: (book.chapters || []).length,
@@ -265,9 +649,27 @@ export default function BookWritingPage() {
   const selectChapter = (index: number) => {
     if (!book || !book.chapters || !book.chapters[index]) return;
 
+    if (!saved) {
+      storeDraft();
+    }
+
     setSelectedChapterIndex(index);
     setContent(book.chapters[index].content || '');
     setSaved(true);
+
+    // Pick up edits left unsaved in this chapter earlier
+    const key = chapterDraftKey(book.chapters[index]);
+    if (bookId && key && draftKeys.includes(key)) {
+      getChapterDrafts(bookId)
+        .then((drafts) => {
+          const draft = drafts.find((d) => d.key === key);
+          if (draft) {
+            setContent(draft.content);
+            setSaved(false);
+          }
+        })
+        .catch((err) => console.error('Failed to read offline drafts:', err));
+    }
   };
 
   const handleInsertText = (text: string) => {
@@ -298,6 +700,7 @@ export default function BookWritingPage() {
         genre: book.genre,
         bookId: book.id,
         bookTitle: book.title,
+        chapterId: selectedChapterId,
         chapterTitle: book.chapters?.[selectedChapterIndex]?.title,
         surroundingText,
       });
@@ -348,6 +751,68 @@ export default function BookWritingPage() {
     setPreviewData({ isOpen: false, originalText: '', result: null, selectionFrom: 0, selectionTo: 0 });
   };
 
+  // Start a comment or suggestion on the editor's selection (a
+  // suggestion may also insert at the cursor)
+  const startThreadDraft = (kind: CommentThreadKind) => {
+    if (!editor) return;
+
+    const { from, to } = editor.state.selection;
+    if (kind === 'comment' && from === to) {
+      toast.error(t('editor.comments.select_text_first'));
+      return;
+    }
+
+    const doc = editor.state.doc;
+    setThreadDraft({
+      kind,
+      startOffset: textOffsetAt(doc, from),
+      endOffset: textOffsetAt(doc, to),
+      exact: doc.textBetween(from, to, '', ''),
+    });
+    setActiveTab('comments');
+    setShowRightSidebar(true);
+  };
+
+  // An accepted suggestion changed the chapter on the server
+  const handleSuggestionAccepted = (chapter: { _id: string; content: string; wordCount: number; version: number }) => {
+    if (!book) return;
+
+    const chapters = book.chapters.map((ch) =>
+      ch._id === chapter._id
+        ? { ...ch, content: chapter.content, wordCount: chapter.wordCount, version: chapter.version }
+        : ch
+    );
+    setBook({ ...book, chapters });
+    const known = serverChapters.current.get(chapter._id);
+    if (known) {
+      serverChapters.current.set(chapter._id, { ...known, content: chapter.content, version: chapter.version });
+    }
+    setContent(chapter.content);
+    setSaved(true);
+
+    // Other threads' offsets moved with the edit
+    if (bookId) {
+      getCommentThreads(bookId, chapter._id)
+        .then(setThreads)
+        .catch((err) => console.error('Failed to reload comments:', err));
+    }
+  };
+
+  // Reload chapters after a revision was restored on the server
+  const handleRevisionRestored = (restoredBook: { chapters: Chapter[]; statistics: BookData['statistics'] }) => {
+    if (!book) return;
+
+    const chapterId = book.chapters?.[selectedChapterIndex]?._id;
+    const restoredIndex = restoredBook.chapters.findIndex((ch) => ch._id === chapterId);
+    const index = restoredIndex >= 0 ? restoredIndex : selectedChapterIndex;
+
+    setBook({ ...book, chapters: restoredBook.chapters, statistics: restoredBook.statistics });
+    rememberServerChapters(restoredBook.chapters);
+    setSelectedChapterIndex(index);
+    setContent(restoredBook.chapters[index]?.content || '');
+    setSaved(true);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -361,6 +826,9 @@ export default function BookWritingPage() {
   }
 
   const currentChapter = book.chapters?.[selectedChapterIndex];
+  // The chapter being typed in has a draft all along; it waits only once saved offline
+  const currentDraftKey = chapterDraftKey(currentChapter);
+  const waitingDrafts = draftKeys.filter((key) => saved || key !== currentDraftKey).length;
 
   return (
     <div className="h-screen flex flex-col overflow-hidden">
@@ -381,6 +849,19 @@ export default function BookWritingPage() {
 
           {/* Desktop Actions */}
           <div className="hidden lg:flex items-center gap-3">
+            {/* Offline drafts */}
+            {(!online || waitingDrafts > 0) && (
+              <button
+                onClick={() => syncDrafts()}
+                disabled={!online}
+                className="flex items-center gap-2 text-sm text-amber-400 hover:text-amber-300 disabled:hover:text-amber-400"
+                title={online ? t('editor.sync.sync_now') : undefined}
+              >
+                <CloudOff className="w-4 h-4" />
+                {online ? t('editor.sync.waiting', { count: waitingDrafts }) : t('editor.sync.offline')}
+              </button>
+            )}
+
             {/* Save Status */}
             <div className="flex items-center gap-2 text-sm">
               {saving ? (
@@ -398,39 +879,66 @@ export default function BookWritingPage() {
               )}
             </div>
 
-            {/* Design Studio Button */}
-            <button
-              onClick={() => navigate(`/design/${bookId}`)}
-              className="btn-secondary flex items-center gap-2"
-            >
-              <Palette className="w-4 h-4" />
-              Design Cover
-            </button>
+            {isAuthor && (
+              <>
+                {/* Design Studio Button */}
+                <button
+                  onClick={() => navigate(`/design/${bookId}`)}
+                  className="btn-secondary flex items-center gap-2"
+                >
+                  <Palette className="w-4 h-4" />
+                  Design Cover
+                </button>
 
-            {/* Book Layout Button */}
-            <button
-              onClick={() => navigate(`/layout/${bookId}`)}
-              className="btn-secondary flex items-center gap-2"
-            >
-              <LayoutGrid className="w-4 h-4" />
-              Page Layout
-            </button>
+                {/* Book Layout Button */}
+                <button
+                  onClick={() => navigate(`/layout/${bookId}`)}
+                  className="btn-secondary flex items-center gap-2"
+                >
+                  <LayoutGrid className="w-4 h-4" />
+                  Page Layout
+                </button>
+
+                {/* Team Button */}
+                <button
+                  onClick={() => setShowCollaborators(true)}
+                  className="btn-secondary flex items-center gap-2"
+                >
+                  <Users className="w-4 h-4" />
+                  {t('editor.collaboration.team')}
+                </button>
+              </>
+            )}
+
+            {/* Revision History Button */}
+            {currentChapter?._id && !isEditor && !isBetaReader && (
+              <button
+                onClick={() => setShowHistory(true)}
+                className="btn-secondary flex items-center gap-2"
+              >
+                <History className="w-4 h-4" />
+                {t('editor.revisions.history')}
+              </button>
+            )}
 
             {/* Save Button */}
-            <button
-              onClick={saveBook}
-              disabled={saving || saved}
-              className="btn-primary flex items-center gap-2"
-            >
-              <Save className="w-4 h-4" />
-              Save
-            </button>
+            {!isBetaReader && (
+              <button
+                onClick={saveBook}
+                disabled={saving || saved}
+                className="btn-primary flex items-center gap-2"
+              >
+                <Save className="w-4 h-4" />
+                {isEditor ? t('editor.collaboration.suggest') : 'Save'}
+              </button>
+            )}
           </div>
 
           {/* Mobile Actions */}
           <div className="flex lg:hidden items-center gap-2">
             {/* Save Status Icon */}
-            <div className="flex items-center">
+            <div className="flex items-center gap-2">
+              {(!online || waitingDrafts > 0) && <CloudOff className="w-4 h-4 text-amber-400" />}
               {saving ? (
                 <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
               ) : saved ? (
@@ -441,13 +949,15 @@ export default function BookWritingPage() {
             </div>
 
             {/* Save Button */}
-            <button
-              onClick={saveBook}
-              disabled={saving || saved}
-              className="btn-primary p-2"
-            >
-              <Save className="w-4 h-4" />
-            </button>
+            {!isBetaReader && (
+              <button
+                onClick={saveBook}
+                disabled={saving || saved}
+                className="btn-primary p-2"
+              >
+                <Save className="w-4 h-4" />
+              </button>
+            )}
 
             {/* Mobile Menu Button */}
             <button
@@ -462,26 +972,52 @@ export default function BookWritingPage() {
         {/* Mobile Menu Dropdown */}
         {showMobileMenu && (
           <div className="lg:hidden mt-3 pt-3 border-t border-white/10 space-y-2">
-            <button
-              onClick={() => {
-                navigate(`/design/${bookId}`);
-                setShowMobileMenu(false);
-              }}
-              className="w-full btn-secondary flex items-center justify-center gap-2 py-2"
-            >
-              <Palette className="w-4 h-4" />
-              Design Cover
-            </button>
-            <button
-              onClick={() => {
-                navigate(`/layout/${bookId}`);
-                setShowMobileMenu(false);
-              }}
-              className="w-full btn-secondary flex items-center justify-center gap-2 py-2"
-            >
-              <LayoutGrid className="w-4 h-4" />
-              Page Layout
-            </button>
+            {isAuthor && (
+              <>
+                <button
+                  onClick={() => {
+                    navigate(`/design/${bookId}`);
+                    setShowMobileMenu(false);
+                  }}
+                  className="w-full btn-secondary flex items-center justify-center gap-2 py-2"
+                >
+                  <Palette className="w-4 h-4" />
+                  Design Cover
+                </button>
+                <button
+                  onClick={() => {
+                    navigate(`/layout/${bookId}`);
+                    setShowMobileMenu(false);
+                  }}
+                  className="w-full btn-secondary flex items-center justify-center gap-2 py-2"
+                >
+                  <LayoutGrid className="w-4 h-4" />
+                  Page Layout
+                </button>
+                <button
+                  onClick={() => {
+                    setShowCollaborators(true);
+                    setShowMobileMenu(false);
+                  }}
+                  className="w-full btn-secondary flex items-center justify-center gap-2 py-2"
+                >
+                  <Users className="w-4 h-4" />
+                  {t('editor.collaboration.team')}
+                </button>
+              </>
+            )}
+            {currentChapter?._id && !isEditor && !isBetaReader && (
+              <button
+                onClick={() => {
+                  setShowHistory(true);
+                  setShowMobileMenu(false);
+                }}
+                className="w-full btn-secondary flex items-center justify-center gap-2 py-2"
+              >
+                <History className="w-4 h-4" />
+                {t('editor.revisions.history')}
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -525,9 +1061,11 @@ export default function BookWritingPage() {
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xs sm:text-sm font-semibold text-gray-300">{t('editor.sidebar.chapters')}</h2>
             <div className="flex items-center gap-2">
-              <button onClick={addChapter} className="btn-ghost p-2">
-                <Plus className="w-4 h-4" />
-              </button>
+              {canAddChapters && (
+                <button onClick={addChapter} className="btn-ghost p-2">
+                  <Plus className="w-4 h-4" />
+                </button>
+              )}
               <button
                 onClick={() => setShowLeftSidebar(false)}
                 className="lg:hidden btn-ghost p-2"
@@ -555,6 +1093,9 @@ export default function BookWritingPage() {
                   <div className="flex items-center gap-2">
                     <BookOpen className="w-4 h-4" />
                     <span className="flex-1 truncate text-sm">{chapter.title}</span>
+                    {access.chapters.length > 0 && !(chapter._id && access.chapters.includes(chapter._id)) && (
+                      <Lock className="w-3 h-3 text-gray-500" />
+                    )}
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
                     {chapter.wordCount} {t('editor.statistics.words_unit')}
@@ -564,9 +1105,11 @@ export default function BookWritingPage() {
             ) : (
               <div className="text-center py-8 text-gray-500 text-sm">
                 <p>{t('editor.sidebar.no_chapters')}</p>
-                <button onClick={addChapter} className="btn-secondary mt-3 text-xs">
-                  {t('editor.sidebar.add_first')}
-                </button>
+                {canAddChapters && (
+                  <button onClick={addChapter} className="btn-secondary mt-3 text-xs">
+                    {t('editor.sidebar.add_first')}
+                  </button>
+                )}
               </div>
             )}
           </div>
@@ -579,9 +1122,22 @@ export default function BookWritingPage() {
               <>
                 {/* Toolbar Container - Sticky */}
                 <div className="editor-toolbar-container px-3 sm:px-4 lg:px-6 py-3 overflow-visible relative z-30">
+                  {/* Collaboration mode notice */}
+                  {(isEditor || !canWriteChapter) && (
+                    <div className="max-w-4xl mx-auto mb-3 flex items-center gap-2 text-xs text-yellow-300 bg-yellow-500/10 border border-yellow-500/20 rounded-lg px-3 py-2">
+                      <Lock className="w-3.5 h-3.5 flex-shrink-0" />
+                      {isBetaReader
+                        ? t('editor.comments.beta_reader_mode')
+                        : canWriteChapter
+                          ? t('editor.collaboration.suggestion_mode')
+                          : t('editor.collaboration.chapter_locked')}
+                    </div>
+                  )}
+
                   {/* Chapter Title Input */}
                   <input
                     type="text"
+                    readOnly={!canWriteChapter}
                     value={currentChapter.title}
                     onChange={(e) => {
                       const updated = [...book.chapters];
@@ -613,12 +1169,32 @@ export default function BookWritingPage() {
                           return selectedText.trim().length >= 5;
                         }}
                       >
-                        <AIFloatingToolbar
-                          editor={editor}
-                          onEnhance={handleEnhance}
-                          isLoading={enhancing}
-                          loadingAction={loadingAction}
-                        />
+                        <div className="flex items-center gap-2">
+                          {canWriteChapter && (
+                            <AIFloatingToolbar
+                              editor={editor}
+                              onEnhance={handleEnhance}
+                              isLoading={enhancing}
+                              loadingAction={loadingAction}
+                            />
+                          )}
+                          <div className="flex items-center gap-1 p-1.5 rounded-xl bg-deep-space/95 backdrop-blur-md border border-white/20 shadow-xl shadow-black/20">
+                            <button
+                              onClick={() => startThreadDraft('comment')}
+                              className="p-1.5 rounded-lg text-yellow-300 hover:bg-white/10 transition-colors"
+                              title={t('editor.comments.add_comment')}
+                            >
+                              <MessageSquare className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => startThreadDraft('suggestion')}
+                              className="p-1.5 rounded-lg text-green-300 hover:bg-white/10 transition-colors"
+                              title={t('editor.comments.suggest_edit')}
+                            >
+                              <PenLine className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
                       </BubbleMenu>
                     )}
                     <EditorContent editor={editor} />
@@ -635,13 +1211,15 @@ export default function BookWritingPage() {
                   <p className="text-gray-400 mb-6 max-w-sm">
                     {t('editor.empty.create_chapter_prompt')}
                   </p>
-                  <button
-                    onClick={addChapter}
-                    className="btn-primary inline-flex items-center gap-2"
-                  >
-                    <Plus className="w-4 h-4" />
-                    {t('editor.sidebar.add_first')}
-                  </button>
+                  {canAddChapters && (
+                    <button
+                      onClick={addChapter}
+                      className="btn-primary inline-flex items-center gap-2"
+                    >
+                      <Plus className="w-4 h-4" />
+                      {t('editor.sidebar.add_first')}
+                    </button>
+                  )}
                 </div>
               </div>
             )}
@@ -712,6 +1290,31 @@ export default function BookWritingPage() {
               <span className="hidden sm:inline">{t('editor.tabs.analysis')}</span>
               <span className="sm:hidden">{t('editor.tabs.stats')}</span>
             </button>
+            <button
+              onClick={() => setActiveTab('comments')}
+              className={`flex-1 flex items-center justify-center gap-1 sm:gap-1.5 py-2 px-2 sm:px-3 rounded-lg text-xs font-medium transition-all ${
+                activeTab === 'comments'
+                  ? 'bg-yellow-500/20 text-yellow-300 border border-yellow-500/30'
+                  : 'text-gray-400 hover:bg-white/5 hover:text-white'
+              }`}
+              title={t('editor.comments.title')}
+            >
+              <MessageSquare className="w-3.5 h-3.5" />
+              {threads.some((thread) => thread.status === 'open') && (
+                <span>{threads.filter((thread) => thread.status === 'open').length}</span>
+              )}
+            </button>
+            <button
+              onClick={() => setActiveTab('bible')}
+              className={`flex-1 flex items-center justify-center gap-1 sm:gap-1.5 py-2 px-2 sm:px-3 rounded-lg text-xs font-medium transition-all ${
+                activeTab === 'bible'
+                  ? 'bg-emerald-500/20 text-emerald-300 border border-emerald-500/30'
+                  : 'text-gray-400 hover:bg-white/5 hover:text-white'
+              }`}
+              title={t('editor.bible.title')}
+            >
+              <Library className="w-3.5 h-3.5" />
+            </button>
           </div>
 
           {/* Tab Content */}
@@ -800,6 +1403,41 @@ export default function BookWritingPage() {
                 </div>
               )}
 
+              {/* Comments Tab */}
+              {activeTab === 'comments' && bookId && (
+                currentChapter?._id ? (
+                  <CommentsPanel
+                    bookId={bookId}
+                    chapterId={currentChapter._id}
+                    threads={threads}
+                    loading={threadsLoading}
+                    activeThreadId={activeThreadId}
+                    draft={threadDraft}
+                    isAuthor={isAuthor}
+                    canDecide={canDecideSuggestions}
+                    hasUnsavedChanges={!saved}
+                    onStartDraft={startThreadDraft}
+                    onCancelDraft={() => setThreadDraft(null)}
+                    onSelectThread={setActiveThreadId}
+                    onThreadsChange={setThreads}
+                    onSuggestionAccepted={handleSuggestionAccepted}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-400 text-center py-8">{t('editor.comments.save_chapter_first')}</p>
+                )
+              )}
+
+              {/* Story Bible Tab */}
+              {activeTab === 'bible' && bookId && (
+                <StoryBiblePanel
+                  bookId={bookId}
+                  chapters={book.chapters || []}
+                  currentChapterId={currentChapter?._id}
+                  canEdit={!isBetaReader}
+                  onChapterClick={selectChapter}
+                />
+              )}
+
               {/* Writing Techniques Tab */}
               {activeTab === 'analysis' && bookId && (
                 <WritingTechniquesCard
@@ -823,6 +1461,38 @@ export default function BookWritingPage() {
         onCancel={handleCancelEnhancement}
         isApplying={false}
       />
+
+      {/* Revision History Modal */}
+      {bookId && currentChapter?._id && (
+        <RevisionHistoryPanel
+          isOpen={showHistory}
+          bookId={bookId}
+          chapterId={currentChapter._id}
+          hasUnsavedChanges={!saved}
+          onClose={() => setShowHistory(false)}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+
+      {/* Chapters changed both here and elsewhere */}
+      {conflicts.length > 0 && (
+        <ChapterConflictDialog
+          key={`${conflicts[0].chapterId}:${conflicts[0].server.version}`}
+          conflict={conflicts[0]}
+          onResolve={resolveConflict}
+          onCancel={() => setConflicts(conflicts.slice(1))}
+        />
+      )}
+
+      {/* Collaborators Modal */}
+      {bookId && isAuthor && (
+        <CollaboratorsPanel
+          isOpen={showCollaborators}
+          bookId={bookId}
+          chapters={book.chapters || []}
+          onClose={() => setShowCollaborators(false)}
+        />
+      )}
     </div>
   );
 }
@@ -9,8 +9,10 @@ import { motion, AnimatePresence } from 'framer-motion';
 import toast from 'react-hot-toast';
 import CreateBookWizard from '../components/dashboard/CreateBookWizard';
 import InterviewWizard from '../components/dashboard/InterviewWizard';
+import ManuscriptImportPreview from '../components/dashboard/ManuscriptImportPreview';
 import VoiceInterviewWizard from '../components/interview/VoiceInterviewWizard';
 import { saveInterviewToBook, InterviewSummary, InterviewResponse } from '../services/voiceService';
+import { previewManuscript, ManuscriptPreview } from '../services/manuscriptApi';
 import {
   ContinueReading,
   ContinueWriting,
@@ -18,6 +20,9 @@ import {
 } from '../components/recommendations';
 import emptyDashboard from '../assets/images/empty-dashboard.png';
 import MemorialSection from '../components/memorial/MemorialSection';
+import CollaborationsSection from '../components/dashboard/CollaborationsSection';
+import WritingGoalsWidget from '../components/dashboard/WritingGoalsWidget';
+import SeriesSection from '../components/dashboard/SeriesSection';
 // Dashboard branded images
 import dashboardIconScratch from '../assets/images/dashboard-icon-scratch.png';
 import dashboardIconInterview from '../assets/images/dashboard-icon-interview.png';
@@ -48,6 +53,7 @@ export default function DashboardPage() {
   const [showVoiceModal, setShowVoiceModal] = useState(false);
   const [showVoiceInterviewWizard, setShowVoiceInterviewWizard] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [importPreview, setImportPreview] = useState<ManuscriptPreview | null>(null);
   const [creating, setCreating] = useState(false);
   const [quickTitle, setQuickTitle] = useState('');
   const [quickGenre, setQuickGenre] = useState('Fiction');
@@ -123,7 +129,7 @@ export default function DashboardPage() {
     if (!file) return;
 
     // Validate file type
-    const allowedTypes = ['.pdf', '.docx', '.txt', '.doc'];
+    const allowedTypes = ['.pdf', '.docx', '.txt', '.doc', '.md', '.markdown', '.odt', '.html', '.htm', '.epub'];
     const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase();
     if (!allowedTypes.includes(fileExtension)) {
       toast.error(t('dashboard.messages.invalid_file_type'));
@@ -138,22 +144,10 @@ export default function DashboardPage() {
 
     setUploading(true);
     try {
-      const formData = new FormData();
-      formData.append('manuscript', file);
-      formData.append('title', file.name.replace(/\.[^/.]+$/, '')); // Remove extension
-      formData.append('genre', 'Fiction'); // Default genre
-
-      const response = await api.post('/books/upload', formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-
-      if (response.data.success) {
-        toast.success(t('dashboard.messages.upload_success'));
-        setShowUploadModal(false);
-        navigate(`/editor/${response.data.data.book.id}`);
-      }
+      // Parse first so the author can review the detected chapters
+      const preview = await previewManuscript(file);
+      setShowUploadModal(false);
+      setImportPreview(preview);
     } catch (error: any) {
       console.error('Upload error:', error);
       toast.error(error.response?.data?.error || t('dashboard.messages.upload_failed'));
@@ -443,6 +437,12 @@ export default function DashboardPage() {
 
       {/* Continue Reading & Writing Sections */}
       <div className="max-w-7xl mx-auto mb-12">
+        {/* Daily goal, streak and book deadlines */}
+        <WritingGoalsWidget books={books} />
+
+        {/* Books shared with the user by other authors */}
+        <CollaborationsSection />
+
         {/* Continue Reading */}
         <ContinueReading limit={4} title={t('dashboard.sections.continue_reading')} />
 
@@ -595,6 +595,9 @@ export default function DashboardPage() {
             ))}
           </div>
         )}
+
+        {/* Series the author's books belong to */}
+        {!loading && <SeriesSection books={books} />}
       </div>
 
       {/* Create Book Wizard */}
@@ -662,7 +665,7 @@ export default function DashboardPage() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".pdf,.docx,.txt,.doc"
+                  accept=".pdf,.docx,.txt,.doc,.md,.markdown,.odt,.html,.htm,.epub"
                   onChange={handleFileUpload}
                   className="hidden"
                   disabled={uploading}
@@ -705,6 +708,20 @@ export default function DashboardPage() {
         )}
       </AnimatePresence>
 
+      {/* Manuscript Import Preview */}
+      <AnimatePresence>
+        {importPreview && (
+          <ManuscriptImportPreview
+            preview={importPreview}
+            onClose={() => setImportPreview(null)}
+            onImported={(bookId) => {
+              setImportPreview(null);
+              navigate(`/editor/${bookId}`);
+            }}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Quick Create Modal */}
       <AnimatePresence>
         {showQuickCreateModal && (
@@ -35,6 +35,8 @@ import { BookTemplate, bookTemplates } from '../data/bookTemplates';
 import { useLanguage } from '../contexts/LanguageContext';
 import { loadDesignFonts } from '../services/designApplicationService';
 import type { AICompleteDesign } from '../types/templates';
+import { BookPromotionsPanel } from '../components/marketplace';
+import type { BookPromotions } from '../services/couponApi';
 
 interface CoverDesign {
   coverColor?: string;
@@ -77,6 +79,7 @@ interface PricingStrategy {
     demandLevel: 'low' | 'medium' | 'high';
   };
   strategyTips: string[];
+  promotions?: BookPromotions;
 }
 
 interface BookData {
@@ -154,7 +157,7 @@ export default function DesignStudioPage() {
 
   // Export modal state
   const [showExportModal, setShowExportModal] = useState(false);
-  const [exportFormat, setExportFormat] = useState<'pdf' | 'docx'>('pdf');
+  const [exportFormat, setExportFormat] = useState<'pdf' | 'docx' | 'epub'>('pdf');
   const [exporting, setExporting] = useState(false);
 
   // Mobile state
@@ -714,8 +717,13 @@ export default function DesignStudioPage() {
       });
 
       // Create download link
+      const mimeTypes = {
+        pdf: 'application/pdf',
+        docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        epub: 'application/epub+zip',
+      };
       const blob = new Blob([response.data], {
-        type: exportFormat === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+        type: mimeTypes[exportFormat],
       });
       const url = window.URL.createObjectURL(blob);
       const link = document.createElement('a');
@@ -1438,6 +1446,11 @@ export default function DesignStudioPage() {
                     </div>
                   </div>
 
+                  {/* Sales and coupons */}
+                  {!isFree && pricingStrategy.promotions && (
+                    <BookPromotionsPanel bookId={bookId!} promotions={pricingStrategy.promotions} />
+                  )}
+
                   {/* Quality Check Warning */}
                   {(!book.qualityScore || book.qualityScore.overallScore < 70) && (
                     <div className="flex items-start gap-3 p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
@@ -1568,6 +1581,32 @@ export default function DesignStudioPage() {
                   </div>
                 </button>
 
+                <button
+                  onClick={() => setExportFormat('epub')}
+                  className={`w-full p-4 rounded-xl border-2 transition-all text-right ${
+                    exportFormat === 'epub'
+                      ? 'border-magic-gold bg-magic-gold/20'
+                      : 'border-gray-700 hover:border-gray-600'
+                  }`}
+                >
+                  <div className="flex items-center gap-4">
+                    <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${
+                      exportFormat === 'epub' ? 'bg-green-500' : 'bg-green-500/50'
+                    }`}>
+                      <BookOpen className="w-6 h-6 text-white" />
+                    </div>
+                    <div className="flex-1">
+                      <p className="font-bold text-white">E-Book (EPUB)</p>
+                      <p className="text-sm text-gray-400">
+                        For e-readers and reading apps. Text reflows to any screen size.
+                      </p>
+                    </div>
+                    {exportFormat === 'epub' && (
+                      <CheckCircle2 className="w-6 h-6 text-magic-gold" />
+                    )}
+                  </div>
+                </button>
+
                 {/* Export includes */}
                 <div className="p-4 bg-white/5 rounded-xl">
                   <h4 className="font-semibold text-white mb-3">The file will include:</h4>
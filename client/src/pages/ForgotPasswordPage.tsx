@@ -0,0 +1,125 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Mail, Loader2, ArrowLeft, MailCheck } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { forgotPassword } from '../services/authApi';
+import logoIcon from '../assets/images/logo-icon.png';
+
+/**
+ * Forgot Password Page
+ * Requests a password reset link for the given email
+ */
+export default function ForgotPasswordPage() {
+  const { t } = useTranslation('auth');
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      await forgotPassword(email);
+      setSent(true);
+    } catch (error: any) {
+      // Error is already handled by axios interceptor
+      console.error(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col justify-center items-center p-8 bg-deep-space">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        {/* Logo/Title */}
+        <div className="text-center mb-8">
+          <img
+            src={logoIcon}
+            alt="MeStory"
+            className="h-20 w-auto object-contain drop-shadow-lg inline-block mb-4"
+          />
+          <h1 className="text-4xl font-bold gradient-text">MeStory</h1>
+        </div>
+
+        <div className="card glow">
+          {sent ? (
+            <div className="text-center">
+              <MailCheck className="w-12 h-12 text-magic-gold mx-auto mb-4" />
+              <h2 className="text-2xl font-bold text-white mb-3">{t('forgot_password.sent_title')}</h2>
+              <p className="text-gray-400 mb-6">{t('forgot_password.sent_message', { email })}</p>
+              <button
+                type="button"
+                onClick={() => setSent(false)}
+                className="text-indigo-400 hover:text-indigo-300 font-medium text-sm"
+              >
+                {t('forgot_password.try_again')}
+              </button>
+            </div>
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold text-white mb-2">{t('forgot_password.title')}</h2>
+              <p className="text-gray-400 mb-6">{t('forgot_password.subtitle')}</p>
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* Email Input */}
+                <div>
+                  <label htmlFor="email" className="block text-sm font-medium text-gray-300 mb-2">
+                    {t('forgot_password.email')}
+                  </label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
+                    <input
+                      id="email"
+                      type="email"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="input pl-11"
+                      placeholder={t('forgot_password.email_placeholder')}
+                      required
+                      disabled={loading}
+                    />
+                  </div>
+                </div>
+
+                {/* Submit Button */}
+                <button
+                  type="submit"
+                  disabled={loading}
+                  className="btn-primary w-full mt-6 flex items-center justify-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      {t('forgot_password.sending')}
+                    </>
+                  ) : (
+                    t('forgot_password.submit')
+                  )}
+                </button>
+              </form>
+            </>
+          )}
+
+          {/* Back to Login */}
+          <div className="mt-6 text-center text-sm">
+            <Link
+              to="/login"
+              className="inline-flex items-center gap-1 text-indigo-400 hover:text-indigo-300 font-medium"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              {t('forgot_password.back_to_login')}
+            </Link>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Gift, BookOpen, Loader2, Check } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GlassCard, GlowingButton } from '../components/ui';
+import { useAuth } from '../contexts/AuthContext';
+import { previewGift, claimGift, type GiftPreview } from '../services/giftApi';
+
+/**
+ * GiftClaimPage Component
+ *
+ * Opened from a gift email. Shows what was sent and lets the recipient
+ * claim it - signing in or creating an account first if they need to.
+ */
+export default function GiftClaimPage() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') ?? '';
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [gift, setGift] = useState<GiftPreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [claiming, setClaiming] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!token) {
+      setError('This gift link is incomplete.');
+      setLoading(false);
+      return;
+    }
+    previewGift(token)
+      .then(setGift)
+      .catch((err) => setError(err.response?.data?.error || 'This gift link is not valid.'))
+      .finally(() => setLoading(false));
+  }, [token]);
+
+  const handleClaim = async () => {
+    setClaiming(true);
+    try {
+      const claim = await claimGift(token);
+      if (claim.type === 'book' && claim.balanceCredited === 0 && claim.bookId) {
+        toast.success('The book is in your library!');
+        navigate(`/read/${claim.bookId}`);
+      } else {
+        toast.success(`$${claim.balanceCredited.toFixed(2)} was added to your gift card balance`);
+        navigate('/gifts');
+      }
+    } catch (err: any) {
+      toast.error(err.response?.data?.error || 'Failed to claim gift');
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-32 flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-magic-gold animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-32 pb-20">
+      <div className="max-w-lg mx-auto px-6">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+          <GlassCard hover={false} glow="gold" className="p-8 text-center">
+            <Gift className="w-16 h-16 text-magic-gold mx-auto mb-4" />
+
+            {!gift ? (
+              <>
+                <h1 className="text-2xl font-bold text-white mb-2">Gift not found</h1>
+                <p className="text-gray-400 mb-6">{error}</p>
+                <Link to="/marketplace" className="text-indigo-400 hover:text-indigo-300">
+                  Browse the marketplace
+                </Link>
+              </>
+            ) : (
+              <>
+                <h1 className="text-3xl font-display font-bold gradient-gold mb-2">
+                  {gift.recipientName ? `${gift.recipientName}, you` : 'You'} got a gift!
+                </h1>
+                <p className="text-gray-300 mb-6">From {gift.senderName}</p>
+
+                {gift.book ? (
+                  <div className="flex items-center gap-4 p-4 bg-white/5 rounded-xl text-left mb-6">
+                    <div className="w-14 h-20 rounded-lg flex-shrink-0 overflow-hidden bg-indigo-500/10 flex items-center justify-center">
+                      {gift.book.coverImageUrl ? (
+                        <img src={gift.book.coverImageUrl} alt={gift.book.title} className="w-full h-full object-cover" />
+                      ) : (
+                        <BookOpen className="w-6 h-6 text-indigo-400" />
+                      )}
+                    </div>
+                    <div className="min-w-0">
+                      <p className="font-semibold text-white truncate">{gift.book.title}</p>
+                      <p className="text-sm text-gray-400">by {gift.book.authorName}</p>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-4xl font-bold text-magic-gold mb-6">${gift.amount?.toFixed(2)}</p>
+                )}
+
+                {gift.message && (
+                  <p className="text-gray-300 italic whitespace-pre-line mb-6">"{gift.message}"</p>
+                )}
+
+                {gift.claimed ? (
+                  <p className="flex items-center justify-center gap-2 text-green-400">
+                    <Check className="w-5 h-5" />
+                    This gift has been claimed
+                  </p>
+                ) : user ? (
+                  <GlowingButton variant="gold" onClick={handleClaim} disabled={claiming}>
+                    {claiming ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Claim your gift'}
+                  </GlowingButton>
+                ) : (
+                  <div className="space-y-3">
+                    <p className="text-sm text-gray-400">Sign in or create a free account to claim it.</p>
+                    <div className="flex justify-center gap-3">
+                      <Link to="/register" state={{ from: location }} className="btn-primary px-6 py-2">
+                        Create account
+                      </Link>
+                      <Link to="/login" state={{ from: location }} className="btn-secondary px-6 py-2">
+                        Sign in
+                      </Link>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </GlassCard>
+        </motion.div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Gift, Wallet, Send, Inbox, Clock, Check, Mail, RotateCcw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GlassCard, GlowingButton } from '../components/ui';
+import GiftModal from '../components/gifts/GiftModal';
+import {
+  getGiftCardBalance,
+  getSentGifts,
+  getReceivedGifts,
+  type GiftSummary,
+} from '../services/giftApi';
+
+const STATUS_LABELS: Record<GiftSummary['status'], { label: string; icon: typeof Clock; className: string }> = {
+  scheduled: { label: 'Scheduled', icon: Clock, className: 'text-blue-300' },
+  delivered: { label: 'Delivered', icon: Mail, className: 'text-magic-gold' },
+  claimed: { label: 'Claimed', icon: Check, className: 'text-green-400' },
+  revoked: { label: 'Refunded', icon: RotateCcw, className: 'text-gray-400' },
+};
+
+const giftLabel = (gift: GiftSummary) =>
+  gift.type === 'book' ? gift.book?.title ?? 'A book' : `$${gift.amount.toFixed(2)} gift card`;
+
+/**
+ * GiftsPage Component
+ *
+ * The reader's gift card balance, gift cards to send, and the gifts they
+ * have sent and received.
+ */
+export default function GiftsPage() {
+  const [balance, setBalance] = useState(0);
+  const [sent, setSent] = useState<GiftSummary[]>([]);
+  const [received, setReceived] = useState<GiftSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showGiftCard, setShowGiftCard] = useState(false);
+
+  const loadGifts = async () => {
+    try {
+      const [currentBalance, sentGifts, receivedGifts] = await Promise.all([
+        getGiftCardBalance(),
+        getSentGifts(),
+        getReceivedGifts(),
+      ]);
+      setBalance(currentBalance);
+      setSent(sentGifts);
+      setReceived(receivedGifts);
+    } catch (error) {
+      console.error('Failed to load gifts:', error);
+      toast.error('Failed to load gifts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGifts();
+  }, []);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pt-32 flex items-center justify-center">
+        <div className="text-center">
+          <Gift className="w-16 h-16 text-magic-gold mx-auto mb-4 animate-pulse" />
+          <p className="text-gray-300 text-lg">Loading gifts...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pt-32 pb-20">
+      <div className="max-w-5xl mx-auto px-6">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-10">
+          <h1 className="text-5xl font-display font-bold gradient-gold mb-2">Gifts</h1>
+          <p className="text-gray-400">Send books and gift cards to friends, and spend what you receive</p>
+        </motion.div>
+
+        {/* Balance */}
+        <GlassCard hover={false} glow="gold" className="p-6 mb-10 flex flex-col sm:flex-row sm:items-center gap-4">
+          <div className="flex items-center gap-3 flex-1">
+            <Wallet className="w-8 h-8 text-magic-gold" />
+            <div>
+              <p className="text-sm text-gray-400">Gift card balance</p>
+              <p className="text-3xl font-bold text-white">${balance.toFixed(2)}</p>
+              <p className="text-xs text-gray-500">Choose to pay with it when you buy a book</p>
+            </div>
+          </div>
+          <GlowingButton variant="gold" onClick={() => setShowGiftCard(true)}>
+            <Gift className="w-5 h-5" />
+            Send a gift card
+          </GlowingButton>
+        </GlassCard>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {/* Received */}
+          <div>
+            <div className="flex items-center gap-2 mb-4">
+              <Inbox className="w-5 h-5 text-purple-400" />
+              <h2 className="text-xl font-semibold text-white">Received</h2>
+            </div>
+            {received.length === 0 ? (
+              <p className="text-sm text-gray-400">Gifts you claim will show up here.</p>
+            ) : (
+              <div className="space-y-3">
+                {received.map((gift) => (
+                  <GlassCard key={gift._id} hover={false} className="p-4">
+                    <div className="flex items-center justify-between gap-2">
+                      {gift.type === 'book' && gift.book && !gift.creditedAsBalance ? (
+                        <Link to={`/read/${gift.book._id}`} className="font-semibold text-white hover:text-magic-gold truncate">
+                          {giftLabel(gift)}
+                        </Link>
+                      ) : (
+                        <span className="font-semibold text-white truncate">{giftLabel(gift)}</span>
+                      )}
+                      {gift.claimedAt && (
+                        <span className="text-xs text-gray-500 flex-shrink-0">
+                          {new Date(gift.claimedAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-400">From {gift.sender?.name ?? 'a friend'}</p>
+                    {gift.creditedAsBalance && (
+                      <p className="text-xs text-green-400 mt-1">
+                        You already owned this book, so ${gift.amount.toFixed(2)} was added to your balance
+                      </p>
+                    )}
+                    {gift.message && <p className="text-sm text-gray-300 italic mt-2 whitespace-pre-line">"{gift.message}"</p>}
+                  </GlassCard>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Sent */}
+          <div>
+            <div className="flex items-center gap-2 mb-4">
+              <Send className="w-5 h-5 text-purple-400" />
+              <h2 className="text-xl font-semibold text-white">Sent</h2>
+            </div>
+            {sent.length === 0 ? (
+              <p className="text-sm text-gray-400">
+                Use the gift button on any book page, or send a gift card.
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {sent.map((gift) => {
+                  const status = STATUS_LABELS[gift.status];
+                  const StatusIcon = status.icon;
+                  return (
+                    <GlassCard key={gift._id} hover={false} className="p-4">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold text-white truncate">{giftLabel(gift)}</span>
+                        <span className={`flex items-center gap-1 text-xs flex-shrink-0 ${status.className}`}>
+                          <StatusIcon className="w-3.5 h-3.5" />
+                          {status.label}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-400 truncate">
+                        To {gift.recipientName ? `${gift.recipientName} (${gift.recipientEmail})` : gift.recipientEmail}
+                      </p>
+                      {gift.status === 'scheduled' && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Delivers on {new Date(gift.deliverAt).toLocaleDateString()}
+                        </p>
+                      )}
+                    </GlassCard>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <GiftModal isOpen={showGiftCard} onClose={() => setShowGiftCard(false)} onSent={loadGifts} />
+    </div>
+  );
+}
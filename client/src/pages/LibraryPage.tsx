@@ -17,6 +17,7 @@ import {
   DollarSign,
   Wallet,
   CreditCard,
+  RotateCcw,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import { GlassCard, GlowingButton } from '../components/ui';
@@ -84,6 +85,13 @@ interface Earnings {
   }>;
 }
 
+interface RefundRequest {
+  _id: string;
+  book: { _id: string; title: string } | null;
+  status: 'requested' | 'approved' | 'rejected' | 'refunded' | 'failed';
+  decisionNote?: string;
+}
+
 type TabType = 'purchased' | 'my-books' | 'earnings';
 
 export default function LibraryPage() {
@@ -98,10 +106,12 @@ export default function LibraryPage() {
   const [paypalEmail, setPaypalEmail] = useState('');
   const [connectingPayPal, setConnectingPayPal] = useState(false);
   const [requestingPayout, setRequestingPayout] = useState(false);
+  const [refunds, setRefunds] = useState<Record<string, RefundRequest>>({});
 
   useEffect(() => {
     loadLibrary();
     loadEarnings();
+    loadRefunds();
   }, []);
 
   const loadLibrary = async () => {
@@ -121,6 +131,39 @@ export default function LibraryPage() {
     }
   };
 
+  const loadRefunds = async () => {
+    try {
+      const response = await api.get('/book-purchases/refunds');
+      if (response.data.success) {
+        // Refunded purchases have left the library; a book bought again
+        // can be refunded again
+        const byBook: Record<string, RefundRequest> = {};
+        for (const refund of response.data.data.refunds as RefundRequest[]) {
+          if (refund.book && refund.status !== 'refunded') byBook[refund.book._id] = refund;
+        }
+        setRefunds(byBook);
+      }
+    } catch (error) {
+      console.error('Failed to load refunds:', error);
+    }
+  };
+
+  const handleRequestRefund = async (book: BookItem) => {
+    const reason = prompt(t('library.refund.prompt', { title: book.title }));
+    if (!reason?.trim()) return;
+
+    try {
+      const response = await api.post(`/book-purchases/${book._id}/refund`, { reason });
+      if (response.data.success) {
+        toast.success(t('library.refund.requested_success'));
+        loadRefunds();
+      }
+    } catch (error: any) {
+      console.error('Failed to request refund:', error);
+      toast.error(error.response?.data?.error || t('library.refund.request_failed'));
+    }
+  };
+
   const loadEarnings = async () => {
     try {
       const response = await api.get('/book-purchases/earnings');
@@ -434,6 +477,24 @@ export default function LibraryPage() {
                   <BookOpen className="w-4 h-4" />
                   {t('library.book.read_now')}
                 </GlowingButton>
+                {!book.publishingStatus.isFree && (
+                  refunds[book._id] ? (
+                    <p
+                      className="mt-2 text-xs text-gray-400 text-center"
+                      title={refunds[book._id].decisionNote}
+                    >
+                      {t(`library.refund.status_${refunds[book._id].status}`)}
+                    </p>
+                  ) : (
+                    <button
+                      onClick={() => handleRequestRefund(book)}
+                      className="mt-2 w-full flex items-center justify-center gap-1 text-xs text-gray-500 hover:text-gray-300 transition-colors"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      {t('library.refund.request')}
+                    </button>
+                  )
+                )}
               </div>
             ) : (
               <GlowingButton
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
 import { useAuth } from '../contexts/AuthContext';
 import { Sparkles, Mail, Lock, Loader2 } from 'lucide-react';
 import { motion } from 'framer-motion';
@@ -7,11 +8,15 @@ import loginSideImage from '../assets/images/login-side-image.png';
 import logoIcon from '../assets/images/logo-icon.png';
 
 export default function LoginPage() {
+  const { t } = useTranslation('auth');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const { login } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Where RequireAuth or a gift claim link sent the user from
+  const from = (location.state as { from?: { pathname: string; search?: string } } | null)?.from;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -19,7 +24,7 @@ export default function LoginPage() {
 
     try {
       await login(email, password);
-      navigate('/dashboard');
+      navigate(from ? `${from.pathname}${from.search ?? ''}` : '/dashboard');
     } catch (error: any) {
       // Error is already handled by axios interceptor
       console.error(error);
@@ -148,6 +153,11 @@ export default function LoginPage() {
                     disabled={loading}
                   />
                 </div>
+                <div className="mt-2 text-right">
+                  <Link to="/forgot-password" className="text-sm text-indigo-400 hover:text-indigo-300">
+                    {t('login.forgot_password')}
+                  </Link>
+                </div>
               </div>
 
               {/* Submit Button */}
@@ -206,7 +216,7 @@ export default function LoginPage() {
             {/* Register Link */}
             <div className="mt-6 text-center text-sm text-gray-400">
               Don't have an account?{' '}
-              <Link to="/register" className="text-indigo-400 hover:text-indigo-300 font-medium">
+              <Link to="/register" state={{ from }} className="text-indigo-400 hover:text-indigo-300 font-medium">
                 Create one
               </Link>
             </div>
@@ -1,8 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { motion, AnimatePresence } from 'framer-motion';
-import { api } from '../services/api';
-import { Search, Sparkles, Star, DollarSign, User, BookOpen, Eye, Heart, Shield, Users } from 'lucide-react';
+import { searchBooks, BookSearchFacets, BookSearchSort } from '../services/marketplaceApi';
+import { Search, Sparkles, Star, DollarSign, User, BookOpen, Eye, Heart, Shield, Users, Loader2 } from 'lucide-react';
 import { useLanguage } from '../contexts/LanguageContext';
 import toast from 'react-hot-toast';
 import { GlassCard, GlowingButton, NeonInput } from '../components/ui';
@@ -12,6 +12,7 @@ import {
   TrendingBooks,
   FeaturedBooks,
 } from '../components/recommendations';
+import { SearchFilters, SearchFilterState, EMPTY_SEARCH_FILTERS, SeriesShelf } from '../components/marketplace';
 import fantasyBanner from '../assets/images/fantasy-banner.png';
 import scifiBanner from '../assets/images/marketplace-banner-scifi.png';
 import mysteryBanner from '../assets/images/marketplace-banner-mystery.png';
@@ -55,6 +56,8 @@ interface BookItem {
   };
 }
 
+const SEARCH_PAGE_SIZE = 24;
+
 // Base categories for all languages
 const BASE_CATEGORIES = [
   'All',
@@ -119,9 +122,18 @@ export default function MarketplacePage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('All');
   const [expandedIsraeliCategory, setExpandedIsraeliCategory] = useState<string | null>(null);
-  const [sortBy, setSortBy] = useState('createdAt');
+  const [sortBy, setSortBy] = useState<BookSearchSort>('newest');
+  const [filters, setFilters] = useState<SearchFilterState>(EMPTY_SEARCH_FILTERS);
+  const [facets, setFacets] = useState<BookSearchFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [hoveredBook, setHoveredBook] = useState<string | null>(null);
 
+  // Query the current results were loaded for; "Load more" keeps using it
+  // even if the search box was edited since
+  const activeQuery = useRef('');
+
   // Determine if we should show Israeli categories (only in Hebrew)
   const isHebrew = language === 'he';
 
@@ -154,29 +166,29 @@ export default function MarketplacePage() {
 
   useEffect(() => {
     loadBooks();
-  }, [selectedCategory, sortBy]);
+  }, [selectedCategory, sortBy, filters]);
+
+  const fetchPage = (cursor?: string) =>
+    searchBooks<BookItem>({
+      q: activeQuery.current,
+      category: selectedCategory !== 'All' ? selectedCategory : undefined,
+      ...filters,
+      sort: sortBy,
+      limit: SEARCH_PAGE_SIZE,
+      cursor,
+    });
 
   const loadBooks = async () => {
     try {
       setLoading(true);
-      const params: any = {
-        sortBy,
-        order: 'desc',
-      };
-
-      if (selectedCategory !== 'All') {
-        params.category = selectedCategory;
-      }
-
-      if (searchQuery.trim()) {
-        params.search = searchQuery;
-      }
+      activeQuery.current = searchQuery.trim();
 
-      const response = await api.get('/books/public', { params });
+      const result = await fetchPage();
 
-      if (response.data.success) {
-        setBooks(response.data.data.books);
-      }
+      setBooks(result.books);
+      setFacets(result.facets);
+      setTotal(result.pagination.total);
+      setNextCursor(result.pagination.nextCursor);
     } catch (error) {
       console.error('Failed to load books:', error);
       toast.error(t('marketplace.messages.load_failed'));
@@ -185,9 +197,35 @@ export default function MarketplacePage() {
     }
   };
 
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return;
+
+    try {
+      setLoadingMore(true);
+      const result = await fetchPage(nextCursor);
+
+      setBooks((prev) => [...prev, ...result.books]);
+      setNextCursor(result.pagination.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more books:', error);
+      toast.error(t('marketplace.messages.load_failed'));
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    loadBooks();
+
+    const query = searchQuery.trim();
+    if (query && sortBy === 'newest') {
+      // A new text search defaults to best matches first; the sort change reloads
+      setSortBy('relevance');
+    } else if (!query && sortBy === 'relevance') {
+      setSortBy('newest');
+    } else {
+      loadBooks();
+    }
   };
 
   const getBookCoverStyle = (book: BookItem) => {
@@ -332,6 +370,9 @@ export default function MarketplacePage() {
         {/* Trending Books */}
         <TrendingBooks limit={6} />
 
+        {/* Book Series */}
+        <SeriesShelf limit={6} />
+
         {/* Glowing Category Tabs */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -1037,211 +1078,234 @@ export default function MarketplacePage() {
             animate={{ opacity: 1 }}
             className="text-gray-400 font-medium text-sm sm:text-base"
           >
-            {books.length} <span className="text-magic-gold">{t('marketplace.results.stellar')}</span>{' '}
-            {books.length === 1 ? t('marketplace.results.count_singular', { count: books.length }).split(' ').slice(-2).join(' ') : t('marketplace.results.count_plural', { count: books.length }).split(' ').slice(-2).join(' ')}
+            {total} <span className="text-magic-gold">{t('marketplace.results.stellar')}</span>{' '}
+            {total === 1 ? t('marketplace.results.count_singular', { count: total }).split(' ').slice(-2).join(' ') : t('marketplace.results.count_plural', { count: total }).split(' ').slice(-2).join(' ')}
           </motion.p>
           <div className="flex items-center gap-2 sm:gap-3 w-full sm:w-auto">
             <span className="text-gray-400 text-xs sm:text-sm font-medium">{t('marketplace.sort.label')}</span>
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value)}
+              onChange={(e) => setSortBy(e.target.value as BookSearchSort)}
               className="flex-1 sm:flex-none rounded-lg px-3 sm:px-4 py-2 text-xs sm:text-sm border border-white/10 focus:outline-none focus:ring-2 focus:ring-magic-gold text-white cursor-pointer"
               style={{ backgroundColor: '#1a1a2e' }}
             >
-              <option value="createdAt" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.newest')}</option>
-              <option value="popularity" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.popular')}</option>
-              <option value="quality" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.rated')}</option>
-              <option value="price" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.price')}</option>
+              {activeQuery.current && (
+                <option value="relevance" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.relevance')}</option>
+              )}
+              <option value="newest" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.newest')}</option>
+              <option value="popular" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.popular')}</option>
+              <option value="rating" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.rated')}</option>
+              <option value="price-asc" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.price')}</option>
+              <option value="price-desc" style={{ backgroundColor: '#1a1a2e', color: 'white' }}>{t('marketplace.sort.price_desc')}</option>
             </select>
           </div>
         </div>
 
-        {/* Books Grid */}
-        {loading ? (
-          <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6 lg:gap-8">
-            {[...Array(8)].map((_, i) => (
-              <div key={i} className="glass-strong rounded-xl p-3 sm:p-4 animate-pulse">
-                <div className="aspect-[2/3] bg-gray-700 rounded-lg mb-3 sm:mb-4" />
-                <div className="h-3 sm:h-4 bg-gray-700 rounded mb-2" />
-                <div className="h-2 sm:h-3 bg-gray-700 rounded w-2/3 mb-2" />
-                <div className="h-2 sm:h-3 bg-gray-700 rounded w-1/2" />
+        <div className="flex flex-col lg:flex-row gap-6 lg:gap-8">
+          {/* Facet Filters */}
+          <aside className="lg:w-64 lg:flex-shrink-0">
+            <SearchFilters facets={facets} filters={filters} onChange={setFilters} />
+          </aside>
+
+          <div className="flex-1 min-w-0">
+            {/* Books Grid */}
+            {loading ? (
+              <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3 sm:gap-4 md:gap-6 lg:gap-8">
+                {[...Array(8)].map((_, i) => (
+                  <div key={i} className="glass-strong rounded-xl p-3 sm:p-4 animate-pulse">
+                    <div className="aspect-[2/3] bg-gray-700 rounded-lg mb-3 sm:mb-4" />
+                    <div className="h-3 sm:h-4 bg-gray-700 rounded mb-2" />
+                    <div className="h-2 sm:h-3 bg-gray-700 rounded w-2/3 mb-2" />
+                    <div className="h-2 sm:h-3 bg-gray-700 rounded w-1/2" />
+                  </div>
+                ))}
               </div>
-            ))}
-          </div>
-        ) : books.length === 0 ? (
-          <motion.div
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            className="text-center py-16 sm:py-24 md:py-32"
-          >
-            <BookOpen className="w-16 h-16 sm:w-20 sm:h-20 md:w-24 md:h-24 text-gray-600 mx-auto mb-4 sm:mb-6 opacity-50" />
-            <h3 className="text-lg sm:text-xl md:text-2xl font-display font-semibold text-gray-400 mb-2 sm:mb-3">
-              {t('marketplace.empty.title')}
-            </h3>
-            <p className="text-gray-500 text-sm sm:text-base md:text-lg">
-              {t('marketplace.empty.subtitle')}
-            </p>
-          </motion.div>
-        ) : (
-          <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3 sm:gap-4 md:gap-6 lg:gap-8">
-            {books.map((book, index) => (
+            ) : books.length === 0 ? (
               <motion.div
-                key={book._id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.05 }}
-                onMouseEnter={() => setHoveredBook(book._id)}
-                onMouseLeave={() => setHoveredBook(null)}
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                className="text-center py-16 sm:py-24 md:py-32"
               >
-                <GlassCard
-                  hover={true}
-                  glow={(book.qualityScore?.overallScore ?? 0) >= 90 ? 'gold' : 'cosmic'}
-                  className="h-full flex flex-col relative overflow-visible"
-                >
-                  {/* Masterpiece Badge */}
-                  {book.qualityScore && book.qualityScore.overallScore >= 90 && (
-                    <motion.div
-                      initial={{ scale: 0, rotate: -180 }}
-                      animate={{ scale: 1, rotate: 0 }}
-                      transition={{ delay: 0.3 + index * 0.05, type: 'spring' }}
-                      className="absolute -top-3 -right-3 z-20"
-                    >
-                      <div className="relative">
-                        <div className="badge-gold px-3 py-1 shadow-glow-gold animate-pulse-glow">
-                          <Sparkles className="w-3 h-3 inline mr-1" />
-                          {t('marketplace.book.masterpiece')}
-                        </div>
-                      </div>
-                    </motion.div>
-                  )}
-
-                  {/* Book Cover with 2:3 Aspect Ratio */}
-                  <div className="relative mb-2 sm:mb-4 rounded-lg overflow-hidden group/cover">
-                    <div
-                      className="aspect-[2/3] relative"
-                      style={getBookCoverStyle(book)}
+                <BookOpen className="w-16 h-16 sm:w-20 sm:h-20 md:w-24 md:h-24 text-gray-600 mx-auto mb-4 sm:mb-6 opacity-50" />
+                <h3 className="text-lg sm:text-xl md:text-2xl font-display font-semibold text-gray-400 mb-2 sm:mb-3">
+                  {t('marketplace.empty.title')}
+                </h3>
+                <p className="text-gray-500 text-sm sm:text-base md:text-lg">
+                  {t('marketplace.empty.subtitle')}
+                </p>
+              </motion.div>
+            ) : (
+              <div className="grid grid-cols-2 sm:grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-3 sm:gap-4 md:gap-6 lg:gap-8">
+                {books.map((book, index) => (
+                  <motion.div
+                    key={book._id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ delay: (index % SEARCH_PAGE_SIZE) * 0.05 }}
+                    onMouseEnter={() => setHoveredBook(book._id)}
+                    onMouseLeave={() => setHoveredBook(null)}
+                  >
+                    <GlassCard
+                      hover={true}
+                      glow={(book.qualityScore?.overallScore ?? 0) >= 90 ? 'gold' : 'cosmic'}
+                      className="h-full flex flex-col relative overflow-visible"
                     >
-                      {/* Gradient Overlay */}
-                      <div className="absolute inset-0 bg-gradient-to-t from-black via-black/40 to-transparent" />
-
-                      {/* Quality Score Badge */}
-                      {book.qualityScore && (
-                        <div className="absolute top-2 left-2 sm:top-3 sm:left-3">
-                          <div
-                            className={`
-                              w-10 h-10 sm:w-14 sm:h-14 rounded-full flex items-center justify-center
-                              font-bold text-white shadow-lg backdrop-blur-sm
-                              ${
-                                book.qualityScore.overallScore >= 90
-                                  ? 'bg-gradient-to-br from-yellow-400 to-yellow-600'
-                                  : book.qualityScore.overallScore >= 80
-                                  ? 'bg-gradient-to-br from-green-400 to-green-600'
-                                  : 'bg-gradient-to-br from-blue-400 to-blue-600'
-                              }
-                            `}
-                          >
-                            <div className="text-center">
-                              <div className="text-sm sm:text-lg leading-none">
-                                {book.qualityScore.overallScore}
-                              </div>
-                              <div className="text-[6px] sm:text-[8px] opacity-80">{t('marketplace.book.score')}</div>
+                      {/* Masterpiece Badge */}
+                      {book.qualityScore && book.qualityScore.overallScore >= 90 && (
+                        <motion.div
+                          initial={{ scale: 0, rotate: -180 }}
+                          animate={{ scale: 1, rotate: 0 }}
+                          transition={{ delay: 0.3 + (index % SEARCH_PAGE_SIZE) * 0.05, type: 'spring' }}
+                          className="absolute -top-3 -right-3 z-20"
+                        >
+                          <div className="relative">
+                            <div className="badge-gold px-3 py-1 shadow-glow-gold animate-pulse-glow">
+                              <Sparkles className="w-3 h-3 inline mr-1" />
+                              {t('marketplace.book.masterpiece')}
                             </div>
                           </div>
-                        </div>
+                        </motion.div>
                       )}
 
-                      {/* Book Title on Cover */}
-                      <div className="absolute bottom-0 left-0 right-0 p-2 sm:p-4">
-                        <h3 className="font-display font-bold text-white text-sm sm:text-xl line-clamp-2 drop-shadow-lg">
-                          {book.title}
-                        </h3>
-                      </div>
+                      {/* Book Cover with 2:3 Aspect Ratio */}
+                      <div className="relative mb-2 sm:mb-4 rounded-lg overflow-hidden group/cover">
+                        <div
+                          className="aspect-[2/3] relative"
+                          style={getBookCoverStyle(book)}
+                        >
+                          {/* Gradient Overlay */}
+                          <div className="absolute inset-0 bg-gradient-to-t from-black via-black/40 to-transparent" />
+
+                          {/* Quality Score Badge */}
+                          {book.qualityScore && (
+                            <div className="absolute top-2 left-2 sm:top-3 sm:left-3">
+                              <div
+                                className={`
+                                  w-10 h-10 sm:w-14 sm:h-14 rounded-full flex items-center justify-center
+                                  font-bold text-white shadow-lg backdrop-blur-sm
+                                  ${
+                                    book.qualityScore.overallScore >= 90
+                                      ? 'bg-gradient-to-br from-yellow-400 to-yellow-600'
+                                      : book.qualityScore.overallScore >= 80
+                                      ? 'bg-gradient-to-br from-green-400 to-green-600'
+                                      : 'bg-gradient-to-br from-blue-400 to-blue-600'
+                                  }
+                                `}
+                              >
+                                <div className="text-center">
+                                  <div className="text-sm sm:text-lg leading-none">
+                                    {book.qualityScore.overallScore}
+                                  </div>
+                                  <div className="text-[6px] sm:text-[8px] opacity-80">{t('marketplace.book.score')}</div>
+                                </div>
+                              </div>
+                            </div>
+                          )}
 
-                      {/* Quick Preview Button (shows on hover) */}
-                      <AnimatePresence>
-                        {hoveredBook === book._id && (
-                          <motion.div
-                            initial={{ opacity: 0, scale: 0.8 }}
-                            animate={{ opacity: 1, scale: 1 }}
-                            exit={{ opacity: 0, scale: 0.8 }}
-                            className="absolute inset-0 flex items-center justify-center bg-black/60 backdrop-blur-sm"
-                          >
-                            <GlowingButton
-                              variant="gold"
-                              size="md"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                window.open(`/read/${book._id}`, '_blank');
-                              }}
-                            >
-                              <Eye className="w-5 h-5" />
-                              {t('marketplace.book.quick_preview')}
-                            </GlowingButton>
-                          </motion.div>
-                        )}
-                      </AnimatePresence>
-                    </div>
-                  </div>
+                          {/* Book Title on Cover */}
+                          <div className="absolute bottom-0 left-0 right-0 p-2 sm:p-4">
+                            <h3 className="font-display font-bold text-white text-sm sm:text-xl line-clamp-2 drop-shadow-lg">
+                              {book.title}
+                            </h3>
+                          </div>
 
-                  {/* Book Info */}
-                  <div className="flex-1 flex flex-col">
-                    {/* Author */}
-                    <div className="flex items-center gap-1.5 sm:gap-2 text-xs sm:text-sm text-gray-400 mb-1.5 sm:mb-2">
-                      <User className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
-                      <span className="truncate">{book.author.name}</span>
-                    </div>
+                          {/* Quick Preview Button (shows on hover) */}
+                          <AnimatePresence>
+                            {hoveredBook === book._id && (
+                              <motion.div
+                                initial={{ opacity: 0, scale: 0.8 }}
+                                animate={{ opacity: 1, scale: 1 }}
+                                exit={{ opacity: 0, scale: 0.8 }}
+                                className="absolute inset-0 flex items-center justify-center bg-black/60 backdrop-blur-sm"
+                              >
+                                <GlowingButton
+                                  variant="gold"
+                                  size="md"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    window.open(`/read/${book._id}`, '_blank');
+                                  }}
+                                >
+                                  <Eye className="w-5 h-5" />
+                                  {t('marketplace.book.quick_preview')}
+                                </GlowingButton>
+                              </motion.div>
+                            )}
+                          </AnimatePresence>
+                        </div>
+                      </div>
 
-                    {/* Description - hide on mobile for cleaner look */}
-                    {book.description && (
-                      <p className="hidden sm:block text-sm text-gray-400 line-clamp-2 mb-4 flex-1">
-                        {book.description}
-                      </p>
-                    )}
-
-                    {/* Price and Rating */}
-                    <div className="flex items-center justify-between mb-2 sm:mb-4">
-                      {/* Price */}
-                      {book.publishingStatus.isFree ? (
-                        <span className="px-2 sm:px-3 py-0.5 sm:py-1 bg-green-500/20 text-green-400 rounded-full text-xs sm:text-sm font-bold border border-green-500/40">
-                          {t('marketplace.book.free')}
-                        </span>
-                      ) : (
-                        <div className="flex items-center gap-0.5 sm:gap-1 text-magic-gold font-bold text-sm sm:text-lg">
-                          <DollarSign className="w-4 h-4 sm:w-5 sm:h-5" />
-                          <span>{book.publishingStatus.price.toFixed(2)}</span>
+                      {/* Book Info */}
+                      <div className="flex-1 flex flex-col">
+                        {/* Author */}
+                        <div className="flex items-center gap-1.5 sm:gap-2 text-xs sm:text-sm text-gray-400 mb-1.5 sm:mb-2">
+                          <User className="w-3 h-3 sm:w-4 sm:h-4 flex-shrink-0" />
+                          <span className="truncate">{book.author.name}</span>
                         </div>
-                      )}
 
-                      {/* Rating */}
-                      {book.qualityScore && (
-                        <div className="flex items-center gap-0.5 sm:gap-1">
-                          <Star className="w-4 h-4 sm:w-5 sm:h-5 fill-yellow-400 text-yellow-400" />
-                          <span className="text-xs sm:text-sm font-bold text-white">
-                            {book.qualityScore.rating.toFixed(1)}
-                          </span>
+                        {/* Description - hide on mobile for cleaner look */}
+                        {book.description && (
+                          <p className="hidden sm:block text-sm text-gray-400 line-clamp-2 mb-4 flex-1">
+                            {book.description}
+                          </p>
+                        )}
+
+                        {/* Price and Rating */}
+                        <div className="flex items-center justify-between mb-2 sm:mb-4">
+                          {/* Price */}
+                          {book.publishingStatus.isFree ? (
+                            <span className="px-2 sm:px-3 py-0.5 sm:py-1 bg-green-500/20 text-green-400 rounded-full text-xs sm:text-sm font-bold border border-green-500/40">
+                              {t('marketplace.book.free')}
+                            </span>
+                          ) : (
+                            <div className="flex items-center gap-0.5 sm:gap-1 text-magic-gold font-bold text-sm sm:text-lg">
+                              <DollarSign className="w-4 h-4 sm:w-5 sm:h-5" />
+                              <span>{book.publishingStatus.price.toFixed(2)}</span>
+                            </div>
+                          )}
+
+                          {/* Rating */}
+                          {book.qualityScore && (
+                            <div className="flex items-center gap-0.5 sm:gap-1">
+                              <Star className="w-4 h-4 sm:w-5 sm:h-5 fill-yellow-400 text-yellow-400" />
+                              <span className="text-xs sm:text-sm font-bold text-white">
+                                {book.qualityScore.rating.toFixed(1)}
+                              </span>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
 
-                    {/* Action Button */}
-                    <GlowingButton
-                      variant={book.publishingStatus.isFree ? 'cosmic' : 'primary'}
-                      size="md"
-                      fullWidth
-                      onClick={() => {
-                        window.location.href = `/book/${book._id}`;
-                      }}
-                      className="text-xs sm:text-sm py-2 sm:py-2.5"
-                    >
-                      <span className="hidden sm:inline">{t('marketplace.book.view_details')}</span>
-                      <span className="sm:hidden">View</span>
-                    </GlowingButton>
-                  </div>
-                </GlassCard>
-              </motion.div>
-            ))}
+                        {/* Action Button */}
+                        <GlowingButton
+                          variant={book.publishingStatus.isFree ? 'cosmic' : 'primary'}
+                          size="md"
+                          fullWidth
+                          onClick={() => {
+                            window.location.href = `/book/${book._id}`;
+                          }}
+                          className="text-xs sm:text-sm py-2 sm:py-2.5"
+                        >
+                          <span className="hidden sm:inline">{t('marketplace.book.view_details')}</span>
+                          <span className="sm:hidden">View</span>
+                        </GlowingButton>
+                      </div>
+                    </GlassCard>
+                  </motion.div>
+                ))}
+              </div>
+            )}
+
+            {/* Load More */}
+            {!loading && nextCursor && (
+              <div className="flex justify-center mt-8 sm:mt-12">
+                <GlowingButton variant="cosmic" size="lg" onClick={loadMore} disabled={loadingMore}>
+                  {loadingMore && <Loader2 className="w-5 h-5 animate-spin" />}
+                  {t('marketplace.load_more', { shown: books.length, total })}
+                </GlowingButton>
+              </div>
+            )}
           </div>
-        )}
+        </div>
       </div>
     </div>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
@@ -21,10 +21,53 @@ import {
   SkipBack,
   Mic2,
   MessageCircle,
+  Highlighter,
+  Bookmark,
+  StickyNote,
+  Download,
+  Trash2,
+  Pencil,
+  Headphones,
+  Loader2,
+  Library,
 } from 'lucide-react';
 import { api } from '../services/api';
+import { useAuth } from '../contexts/AuthContext';
+import { useTTS } from '../hooks/useTTS';
+import {
+  getAudiobook,
+  buildAudiobook,
+  getChapterMarks,
+  getChapterAudio,
+  downloadChapterAudio,
+  downloadAudiobook,
+  type Audiobook,
+  type AudiobookProvider,
+} from '../services/audiobookApi';
+import {
+  getAnnotations,
+  createAnnotation,
+  updateAnnotation,
+  deleteAnnotation,
+  exportAnnotations,
+  type ReaderAnnotation,
+  type AnnotationType,
+  type HighlightColor,
+} from '../services/annotationApi';
+import {
+  ANNOTATION_ATTRIBUTE,
+  applyHighlight,
+  clearHighlights,
+  getFirstVisibleOffset,
+  getSelectionOffsets,
+  scrollToOffset,
+  type TextRange,
+} from '../utils/textAnchors';
+import { getMyBetaCampaign, type BetaFeedback, type ReaderBetaCampaign } from '../services/betaReadApi';
+import { getNextInSeries, type NextInSeries } from '../services/seriesApi';
 import toast from 'react-hot-toast';
 import { GlassCard, GlowingButton } from '../components/ui';
+import BetaFeedbackCard from '../components/beta/BetaFeedbackCard';
 import ChatModal from '../components/messaging/ChatModal';
 import ShareModal from '../components/social/ShareModal';
 
@@ -65,6 +108,14 @@ const themes = {
   },
 };
 
+const highlightColors: Record<HighlightColor, string> = {
+  yellow: 'rgba(250, 204, 21, 0.4)',
+  green: 'rgba(74, 222, 128, 0.35)',
+  blue: 'rgba(96, 165, 250, 0.35)',
+  pink: 'rgba(244, 114, 182, 0.35)',
+  purple: 'rgba(167, 139, 250, 0.4)',
+};
+
 export default function ReaderPage() {
   const { bookId } = useParams<{ bookId: string }>();
   const navigate = useNavigate();
@@ -81,12 +132,31 @@ export default function ReaderPage() {
   const [shareButtonPos, setShareButtonPos] = useState({ x: 0, y: 0 });
   const [showShareButton, setShowShareButton] = useState(false);
   const [showReviewCard, setShowReviewCard] = useState(false);
+  const [nextInSeries, setNextInSeries] = useState<NextInSeries | null>(null);
   const [rating, setRating] = useState(0);
   const [reviewText, setReviewText] = useState('');
   const [showChatModal, setShowChatModal] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const contentRef = useRef<HTMLDivElement>(null);
 
+  // Annotation state
+  const [annotations, setAnnotations] = useState<ReaderAnnotation[]>([]);
+  const [canAnnotate, setCanAnnotate] = useState(false);
+  const [showAnnotations, setShowAnnotations] = useState(false);
+  const [selectionRange, setSelectionRange] = useState<TextRange | null>(null);
+  const [noteDraft, setNoteDraft] = useState<{ range: TextRange; text: string } | null>(null);
+  const [editingNote, setEditingNote] = useState<{ id: string; text: string } | null>(null);
+  const [activeAnnotationId, setActiveAnnotationId] = useState<string | null>(null);
+  const [pendingJump, setPendingJump] = useState<{ chapterId: string; offset: number } | null>(null);
+  const [betaCampaign, setBetaCampaign] = useState<ReaderBetaCampaign | null>(null);
+  // The chapter element is remounted on every page turn, so it is tracked as state
+  const [chapterElement, setChapterElement] = useState<HTMLDivElement | null>(null);
+  const chapterElementRef = useRef<HTMLDivElement | null>(null);
+  const chapterContentRef = useCallback((element: HTMLDivElement | null) => {
+    chapterElementRef.current = element;
+    setChapterElement(element);
+  }, []);
+
   // Narration state
   const [isNarrating, setIsNarrating] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
@@ -99,8 +169,23 @@ export default function ReaderPage() {
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
   const [selectedVoice, setSelectedVoice] = useState<string>('');
 
+  // Pre-rendered audiobook narration
+  const { user } = useAuth();
+  const [audiobook, setAudiobook] = useState<Audiobook | null>(null);
+  const [usingAudiobook, setUsingAudiobook] = useState(false);
+  const [loadingAudiobook, setLoadingAudiobook] = useState(false);
+  const [audiobookProvider, setAudiobookProvider] = useState<AudiobookProvider>('google');
+  const [autoStartNarration, setAutoStartNarration] = useState(false);
+  const audioUrlRef = useRef<string | null>(null);
+  const tts = useTTS({
+    onEnd: () => handleAudiobookChapterEnd(),
+    onError: () => toast.error('Narration error'),
+  });
+
   useEffect(() => {
     loadBook();
+    loadAnnotations();
+    loadAudiobook();
   }, [bookId]);
 
   // Text selection handler
@@ -111,6 +196,7 @@ export default function ReaderPage() {
 
       if (text && text.length > 0) {
         setSelectedText(text);
+        setSelectionRange(chapterElementRef.current ? getSelectionOffsets(chapterElementRef.current) : null);
         const range = selection?.getRangeAt(0);
         const rect = range?.getBoundingClientRect();
 
@@ -154,6 +240,14 @@ export default function ReaderPage() {
     return () => content?.removeEventListener('scroll', handleScroll);
   }, [book, currentChapterIndex, showReviewCard]);
 
+  // Once the reader reaches the end, offer the next book in the series
+  useEffect(() => {
+    if (!showReviewCard || !book || nextInSeries) return;
+    getNextInSeries(book._id)
+      .then(setNextInSeries)
+      .catch((err) => console.error('Failed to load next in series:', err));
+  }, [showReviewCard, book]);
+
   // Load available voices for TTS
   useEffect(() => {
     const loadVoices = () => {
@@ -210,6 +304,13 @@ export default function ReaderPage() {
 
   // Start narration
   const startNarration = () => {
+    // Prefer the pre-rendered audiobook when this chapter has up-to-date audio
+    const chapterId = book?.chapters[currentChapterIndex]?._id;
+    if (chapterId && audiobook?.chapters.some((c) => c.chapterId === chapterId && !c.isOutdated)) {
+      startAudiobookNarration(chapterId);
+      return;
+    }
+
     if (!window.speechSynthesis || sentences.length === 0) {
       toast.error('Narration is not supported in this browser');
       return;
@@ -278,8 +379,73 @@ export default function ReaderPage() {
     window.speechSynthesis.speak(utterance);
   };
 
+  // Play the chapter's pre-rendered audio with read-along marks
+  const startAudiobookNarration = async (chapterId: string) => {
+    if (!bookId) return;
+
+    try {
+      setLoadingAudiobook(true);
+      const [{ marks }, audio] = await Promise.all([
+        getChapterMarks(bookId, chapterId),
+        getChapterAudio(bookId, chapterId),
+      ]);
+
+      if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+      audioUrlRef.current = URL.createObjectURL(audio);
+
+      setSentences(marks.map((mark) => mark.text));
+      setUsingAudiobook(true);
+      setIsNarrating(true);
+      setIsPaused(false);
+      setShowNarrationControls(true);
+
+      tts.playAudio(audioUrlRef.current, marks, Math.max(currentSentenceIndex, 0)).catch(() => stopNarration());
+    } catch (error) {
+      console.error('Failed to load audiobook narration:', error);
+      toast.error('Failed to load audiobook narration');
+    } finally {
+      setLoadingAudiobook(false);
+    }
+  };
+
+  const handleAudiobookChapterEnd = () => {
+    setIsNarrating(false);
+    setUsingAudiobook(false);
+    setCurrentSentenceIndex(-1);
+    setNarrationProgress(100);
+
+    if (book && currentChapterIndex < book.chapters.length - 1) {
+      toast.success('Chapter finished. Moving to next chapter...');
+      setAutoStartNarration(true);
+      setTimeout(() => nextChapter(), 1500);
+    } else {
+      toast.success('Narration finished');
+    }
+  };
+
+  // Continue on the next chapter once its sentences are prepared
+  useEffect(() => {
+    if (autoStartNarration && book) {
+      setAutoStartNarration(false);
+      setTimeout(() => startNarration(), 1000);
+    }
+  }, [sentences]);
+
+  // Follow the audio with the sentence being read
+  useEffect(() => {
+    if (usingAudiobook && tts.activeMarkIndex >= 0) {
+      setCurrentSentenceIndex(tts.activeMarkIndex);
+      setNarrationProgress((tts.activeMarkIndex / Math.max(sentences.length, 1)) * 100);
+    }
+  }, [tts.activeMarkIndex]);
+
   // Pause narration
   const pauseNarration = () => {
+    if (usingAudiobook) {
+      tts.pause();
+      setIsPaused(true);
+      return;
+    }
     if (window.speechSynthesis.speaking) {
       window.speechSynthesis.pause();
       setIsPaused(true);
@@ -288,6 +454,11 @@ export default function ReaderPage() {
 
   // Resume narration
   const resumeNarration = () => {
+    if (usingAudiobook) {
+      tts.resume();
+      setIsPaused(false);
+      return;
+    }
     if (window.speechSynthesis.paused) {
       window.speechSynthesis.resume();
       setIsPaused(false);
@@ -301,6 +472,8 @@ export default function ReaderPage() {
   // Stop narration
   const stopNarration = () => {
     window.speechSynthesis.cancel();
+    tts.stop();
+    setUsingAudiobook(false);
     setIsNarrating(false);
     setIsPaused(false);
     setCurrentSentenceIndex(-1);
@@ -310,6 +483,10 @@ export default function ReaderPage() {
   // Skip forward (next sentence)
   const skipForward = () => {
     if (currentSentenceIndex < sentences.length - 1) {
+      if (usingAudiobook) {
+        tts.seekToMark(currentSentenceIndex + 1);
+        return;
+      }
       window.speechSynthesis.cancel();
       speakSentence(currentSentenceIndex + 1);
     }
@@ -318,6 +495,10 @@ export default function ReaderPage() {
   // Skip backward (previous sentence)
   const skipBackward = () => {
     if (currentSentenceIndex > 0) {
+      if (usingAudiobook) {
+        tts.seekToMark(currentSentenceIndex - 1);
+        return;
+      }
       window.speechSynthesis.cancel();
       speakSentence(currentSentenceIndex - 1);
     }
@@ -325,6 +506,9 @@ export default function ReaderPage() {
 
   // Update speed while narrating
   useEffect(() => {
+    tts.setRate(narrationSpeed);
+    if (usingAudiobook) return;
+
     if (isNarrating && !isPaused && speechSynthRef.current) {
       // Need to restart with new speed
       window.speechSynthesis.cancel();
@@ -335,9 +519,22 @@ export default function ReaderPage() {
   const loadBook = async () => {
     try {
       setLoading(true);
-      const response = await api.get(`/books/${bookId}`);
+      const response = await api.get(`/book-purchases/${bookId}/read`);
       if (response.data.success) {
-        setBook(response.data.data);
+        const { book: bookData, readingProgress, betaAccessExpiresAt } = response.data.data;
+        setBook(bookData);
+
+        // Pick up at the chapter the reader last reached
+        const chapterCount = bookData.chapters.length;
+        if (readingProgress > 0 && chapterCount > 0) {
+          setCurrentChapterIndex(Math.min(chapterCount, Math.max(1, Math.round((readingProgress / 100) * chapterCount))) - 1);
+        }
+
+        if (betaAccessExpiresAt) {
+          getMyBetaCampaign(bookId!)
+            .then(setBetaCampaign)
+            .catch((err) => console.error('Failed to load beta campaign:', err));
+        }
       }
     } catch (error) {
       console.error('Failed to load book:', error);
@@ -351,6 +548,21 @@ export default function ReaderPage() {
   const currentChapter = book?.chapters[currentChapterIndex];
   const progress = book ? ((currentChapterIndex + 1) / book.chapters.length) * 100 : 0;
 
+  // Remember how far the reader got (also feeds beta-read results)
+  useEffect(() => {
+    if (!book || !bookId || book.chapters.length === 0) return;
+    api.put(`/book-purchases/${bookId}/progress`, { progress: Math.round(progress) }).catch(() => {});
+  }, [book, currentChapterIndex]);
+
+  const handleBetaFeedbackSaved = (feedback: BetaFeedback) => {
+    setBetaCampaign((campaign) =>
+      campaign && {
+        ...campaign,
+        feedback: [...campaign.feedback.filter((f) => f.chapter !== feedback.chapter), feedback],
+      }
+    );
+  };
+
   const nextChapter = () => {
     if (book && currentChapterIndex < book.chapters.length - 1) {
       setPageDirection('next');
@@ -377,6 +589,201 @@ export default function ReaderPage() {
     }
   };
 
+  const loadAudiobook = async () => {
+    if (!bookId) return;
+    try {
+      setAudiobook(await getAudiobook(bookId));
+    } catch (error) {
+      // Only owners can listen; others narrate with the browser voice
+      setAudiobook(null);
+    }
+  };
+
+  // Follow build progress
+  useEffect(() => {
+    if (audiobook?.status !== 'building') return;
+    const timer = setInterval(loadAudiobook, 5000);
+    return () => clearInterval(timer);
+  }, [audiobook?.status]);
+
+  // Release the chapter audio
+  useEffect(() => {
+    return () => {
+      if (audioUrlRef.current) URL.revokeObjectURL(audioUrlRef.current);
+    };
+  }, []);
+
+  const handleBuildAudiobook = async () => {
+    if (!bookId) return;
+    try {
+      setAudiobook(await buildAudiobook(bookId, audiobookProvider));
+      toast.success('Audiobook build started');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to start audiobook build');
+    }
+  };
+
+  const handleDownloadAudiobook = async (chapterOnly: boolean) => {
+    if (!bookId || !book || !currentChapter) return;
+    try {
+      if (chapterOnly) {
+        await downloadChapterAudio(
+          bookId,
+          currentChapter._id,
+          `${String(currentChapterIndex + 1).padStart(2, '0')} - ${currentChapter.title}.mp3`
+        );
+      } else {
+        await downloadAudiobook(bookId, `${book.title}.zip`);
+      }
+    } catch (error) {
+      toast.error('Failed to download audiobook');
+    }
+  };
+
+  const loadAnnotations = async () => {
+    if (!bookId) return;
+    try {
+      setAnnotations(await getAnnotations(bookId));
+      setCanAnnotate(true);
+    } catch (error) {
+      // Readers without a purchase can preview but not annotate
+      setAnnotations([]);
+      setCanAnnotate(false);
+    }
+  };
+
+  // Paint the current chapter's highlights and notes
+  useEffect(() => {
+    if (!chapterElement || !currentChapter) return;
+
+    clearHighlights(chapterElement);
+    annotations
+      .filter((a) => a.chapter === currentChapter._id && a.type !== 'bookmark' && !a.isOrphaned)
+      .forEach((a) =>
+        applyHighlight(chapterElement, {
+          id: a._id,
+          startOffset: a.anchor.startOffset,
+          endOffset: a.anchor.endOffset,
+          color: highlightColors[a.color],
+          title: a.note,
+        })
+      );
+  }, [chapterElement, annotations, currentChapter?._id]);
+
+  // Clicking a highlight opens it in the notes panel
+  useEffect(() => {
+    if (!chapterElement) return;
+
+    const handleClick = (event: MouseEvent) => {
+      const mark = (event.target as HTMLElement).closest(`mark[${ANNOTATION_ATTRIBUTE}]`);
+      if (mark && !window.getSelection()?.toString()) {
+        setActiveAnnotationId(mark.getAttribute(ANNOTATION_ATTRIBUTE));
+        setShowAnnotations(true);
+      }
+    };
+
+    chapterElement.addEventListener('click', handleClick);
+    return () => chapterElement.removeEventListener('click', handleClick);
+  }, [chapterElement]);
+
+  // Scroll to an annotation once its chapter is on screen
+  useEffect(() => {
+    if (!pendingJump || !chapterElement || !contentRef.current) return;
+    if (currentChapter?._id !== pendingJump.chapterId) return;
+
+    scrollToOffset(chapterElement, contentRef.current, pendingJump.offset);
+    setPendingJump(null);
+  }, [pendingJump, chapterElement, currentChapter?._id]);
+
+  const addAnnotation = async (type: AnnotationType, range: TextRange, note?: string) => {
+    if (!bookId || !currentChapter) return;
+
+    try {
+      const text = chapterElementRef.current?.textContent || '';
+      const annotation = await createAnnotation(bookId, {
+        chapterId: currentChapter._id,
+        type,
+        startOffset: range.startOffset,
+        endOffset: range.endOffset,
+        exact: type === 'bookmark' ? undefined : text.slice(range.startOffset, range.endOffset),
+        note,
+      });
+      setAnnotations((prev) => [...prev, annotation]);
+      toast.success(type === 'bookmark' ? 'Bookmark added' : type === 'note' ? 'Note saved' : 'Highlighted');
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to save annotation');
+    }
+  };
+
+  const handleHighlight = () => {
+    if (!selectionRange) return;
+    addAnnotation('highlight', selectionRange);
+    setShowShareButton(false);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleStartNote = () => {
+    if (!selectionRange) return;
+    setNoteDraft({ range: selectionRange, text: '' });
+    setShowShareButton(false);
+    window.getSelection()?.removeAllRanges();
+  };
+
+  const handleSaveNote = async () => {
+    if (!noteDraft || !noteDraft.text.trim()) return;
+    await addAnnotation('note', noteDraft.range, noteDraft.text.trim());
+    setNoteDraft(null);
+  };
+
+  const handleBookmark = () => {
+    if (!chapterElementRef.current || !contentRef.current) return;
+    const offset = getFirstVisibleOffset(chapterElementRef.current, contentRef.current);
+    addAnnotation('bookmark', { startOffset: offset, endOffset: offset });
+  };
+
+  const handleUpdateAnnotation = async (id: string, data: { note?: string; color?: HighlightColor }) => {
+    if (!bookId) return;
+    try {
+      const updated = await updateAnnotation(bookId, id, data);
+      setAnnotations((prev) => prev.map((a) => (a._id === id ? updated : a)));
+      setEditingNote(null);
+    } catch (error: any) {
+      toast.error(error.response?.data?.error || 'Failed to update annotation');
+    }
+  };
+
+  const handleDeleteAnnotation = async (id: string) => {
+    if (!bookId) return;
+    try {
+      await deleteAnnotation(bookId, id);
+      setAnnotations((prev) => prev.filter((a) => a._id !== id));
+    } catch (error) {
+      toast.error('Failed to delete annotation');
+    }
+  };
+
+  const handleExportAnnotations = async () => {
+    if (!bookId || !book) return;
+    try {
+      await exportAnnotations(bookId, book.title);
+    } catch (error) {
+      toast.error('Failed to export notes');
+    }
+  };
+
+  const jumpToAnnotation = (annotation: ReaderAnnotation) => {
+    if (!book) return;
+    const index = book.chapters.findIndex((c) => c._id === annotation.chapter);
+    if (index === -1) return;
+
+    if (index !== currentChapterIndex) {
+      setPageDirection(index > currentChapterIndex ? 'next' : 'prev');
+      setCurrentChapterIndex(index);
+    }
+    setActiveAnnotationId(annotation._id);
+    setPendingJump({ chapterId: annotation.chapter, offset: annotation.anchor.startOffset });
+  };
+
   const handleSubmitReview = async () => {
     if (rating === 0) {
       toast.error('Please select a rating');
@@ -428,6 +835,7 @@ export default function ReaderPage() {
   }
 
   const currentTheme = themes[theme];
+  const isAuthor = !!user && [user.id, user._id].includes(book.author._id);
 
   return (
     <div
@@ -536,6 +944,42 @@ export default function ReaderPage() {
         >
           <Share2 className="w-5 h-5 sm:w-6 sm:h-6" style={{ color: currentTheme.accent }} />
         </motion.button>
+
+        {canAnnotate && (
+          <>
+            {/* Bookmark Button */}
+            <motion.button
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              whileHover={{ scale: 1.1 }}
+              onClick={handleBookmark}
+              className="w-10 h-10 sm:w-12 sm:h-12 rounded-full backdrop-blur-md flex items-center justify-center transition-all hover:shadow-glow-gold group"
+              style={{
+                background: 'rgba(0, 0, 0, 0.3)',
+                border: `1px solid ${currentTheme.accent}`,
+              }}
+              title="Bookmark this page"
+            >
+              <Bookmark className="w-5 h-5 sm:w-6 sm:h-6" style={{ color: currentTheme.accent }} />
+            </motion.button>
+
+            {/* Notes Button */}
+            <motion.button
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              whileHover={{ scale: 1.1 }}
+              onClick={() => setShowAnnotations(!showAnnotations)}
+              className="w-10 h-10 sm:w-12 sm:h-12 rounded-full backdrop-blur-md flex items-center justify-center transition-all hover:shadow-glow-gold group"
+              style={{
+                background: showAnnotations ? `${currentTheme.accent}30` : 'rgba(0, 0, 0, 0.3)',
+                border: `1px solid ${currentTheme.accent}`,
+              }}
+              title="Highlights, notes & bookmarks"
+            >
+              <StickyNote className="w-5 h-5 sm:w-6 sm:h-6" style={{ color: currentTheme.accent }} />
+            </motion.button>
+          </>
+        )}
       </div>
 
       {/* Control Panel */}
@@ -651,9 +1095,10 @@ export default function ReaderPage() {
                 {!isNarrating ? (
                   <button
                     onClick={startNarration}
-                    className="w-full px-4 py-3 rounded-lg bg-gradient-to-r from-green-600 to-emerald-600 text-white font-medium flex items-center justify-center gap-2 hover:from-green-500 hover:to-emerald-500 transition-all"
+                    disabled={loadingAudiobook}
+                    className="w-full px-4 py-3 rounded-lg bg-gradient-to-r from-green-600 to-emerald-600 text-white font-medium flex items-center justify-center gap-2 hover:from-green-500 hover:to-emerald-500 transition-all disabled:opacity-60"
                   >
-                    <Volume2 className="w-5 h-5" />
+                    {loadingAudiobook ? <Loader2 className="w-5 h-5 animate-spin" /> : <Volume2 className="w-5 h-5" />}
                     Start Narration
                   </button>
                 ) : (
@@ -689,6 +1134,72 @@ export default function ReaderPage() {
                   </div>
                 )}
               </div>
+
+              {/* Audiobook Section */}
+              {(audiobook?.chapters.length || isAuthor) && (
+                <div>
+                  <div className="flex items-center gap-2 mb-3">
+                    <Headphones className="w-5 h-5 text-magic-gold" />
+                    <h3 className="font-display font-semibold text-white">Audiobook</h3>
+                  </div>
+
+                  {audiobook?.status === 'building' && (
+                    <p className="text-xs text-gray-400 mb-2 flex items-center gap-2">
+                      <Loader2 className="w-3 h-3 animate-spin" />
+                      Rendering chapter {Math.min(audiobook.progress.completed + 1, audiobook.progress.total)} of{' '}
+                      {audiobook.progress.total}...
+                    </p>
+                  )}
+                  {audiobook?.status === 'failed' && isAuthor && (
+                    <p className="text-xs text-red-400 mb-2">{audiobook.error}</p>
+                  )}
+
+                  {audiobook && audiobook.chapters.length > 0 && (
+                    <div className="space-y-2 mb-2">
+                      <p className="text-xs text-gray-400">
+                        {Math.round(audiobook.totalDuration / 60)} min narrated
+                        {audiobook.chapters.some((c) => c.isOutdated) && ' · some chapters changed since recording'}
+                      </p>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleDownloadAudiobook(true)}
+                          disabled={!audiobook.chapters.some((c) => c.chapterId === currentChapter._id)}
+                          className="flex-1 px-3 py-2 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 text-xs flex items-center justify-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed"
+                        >
+                          <Download className="w-3 h-3" />
+                          Chapter MP3
+                        </button>
+                        <button
+                          onClick={() => handleDownloadAudiobook(false)}
+                          className="flex-1 px-3 py-2 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 text-xs flex items-center justify-center gap-1"
+                        >
+                          <Download className="w-3 h-3" />
+                          All (.zip)
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
+                  {isAuthor && audiobook?.status !== 'building' && (
+                    <div className="flex gap-2">
+                      <select
+                        value={audiobookProvider}
+                        onChange={(e) => setAudiobookProvider(e.target.value as AudiobookProvider)}
+                        className="text-xs bg-white/10 border border-white/20 rounded-lg px-2 py-2 text-white"
+                      >
+                        <option value="google" className="bg-gray-800">Google</option>
+                        <option value="elevenlabs" className="bg-gray-800">ElevenLabs</option>
+                      </select>
+                      <button
+                        onClick={handleBuildAudiobook}
+                        className="flex-1 px-3 py-2 rounded-lg bg-indigo-600 text-white text-xs hover:bg-indigo-500 transition-all"
+                      >
+                        {audiobook?.chapters.length ? 'Update Audiobook' : 'Create Audiobook'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
             </GlassCard>
           </motion.div>
         )}
@@ -794,6 +1305,11 @@ export default function ReaderPage() {
               )}
 
               {/* Current sentence indicator */}
+              {usingAudiobook && sentences[currentSentenceIndex] && (
+                <p className="mt-3 max-w-xs mx-auto text-sm text-gray-200 text-center line-clamp-2">
+                  {sentences[currentSentenceIndex]}
+                </p>
+              )}
               <div className="mt-3 text-center">
                 <span className="text-xs text-gray-400">
                   Sentence {currentSentenceIndex + 1} of {sentences.length}
@@ -804,6 +1320,167 @@ export default function ReaderPage() {
         )}
       </AnimatePresence>
 
+      {/* Annotations Panel */}
+      <AnimatePresence>
+        {showAnnotations && (
+          <motion.div
+            initial={{ x: 320, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: 320, opacity: 0 }}
+            className="fixed top-16 sm:top-24 right-3 sm:right-6 z-40 max-w-[calc(100vw-24px)] sm:max-w-none"
+          >
+            <GlassCard className="w-72 sm:w-80 p-4 sm:p-5 max-h-[70vh] flex flex-col">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <StickyNote className="w-5 h-5 text-magic-gold" />
+                  <h3 className="font-display font-semibold text-white">Notes</h3>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={handleExportAnnotations}
+                    disabled={annotations.length === 0}
+                    className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+                    title="Export as Markdown"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setShowAnnotations(false)}
+                    className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-all"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="overflow-y-auto custom-scrollbar space-y-4 -mr-2 pr-2">
+                {annotations.length === 0 && (
+                  <p className="text-sm text-gray-400 text-center py-6">
+                    Select text to highlight it or add a note, or bookmark the page you are on.
+                  </p>
+                )}
+
+                {book.chapters.map((chapter) => {
+                  const chapterAnnotations = annotations.filter((a) => a.chapter === chapter._id);
+                  if (chapterAnnotations.length === 0) return null;
+
+                  return (
+                    <div key={chapter._id}>
+                      <p className="text-xs uppercase tracking-wide text-gray-500 mb-2 truncate">{chapter.title}</p>
+                      <div className="space-y-2">
+                        {chapterAnnotations.map((annotation) => (
+                          <div
+                            key={annotation._id}
+                            className={`rounded-lg p-3 bg-white/5 border transition-all ${
+                              activeAnnotationId === annotation._id ? 'border-magic-gold/60' : 'border-white/10'
+                            }`}
+                          >
+                            <button
+                              onClick={() => jumpToAnnotation(annotation)}
+                              className="w-full text-left"
+                              title="Go to this passage"
+                            >
+                              <div className="flex items-start gap-2">
+                                {annotation.type === 'bookmark' ? (
+                                  <Bookmark className="w-4 h-4 mt-0.5 flex-shrink-0 text-magic-gold" />
+                                ) : (
+                                  <span
+                                    className="w-1 self-stretch rounded-full flex-shrink-0"
+                                    style={{ background: highlightColors[annotation.color] }}
+                                  />
+                                )}
+                                <p className="text-sm text-gray-200 line-clamp-3">
+                                  {annotation.type === 'bookmark'
+                                    ? `…${annotation.anchor.suffix.trim()}…`
+                                    : `“${annotation.anchor.exact}”`}
+                                </p>
+                              </div>
+                            </button>
+
+                            {annotation.isOrphaned && (
+                              <p className="mt-2 text-xs text-amber-400">
+                                This passage was changed by the author and could not be found.
+                              </p>
+                            )}
+
+                            {editingNote?.id === annotation._id ? (
+                              <div className="mt-2">
+                                <textarea
+                                  value={editingNote.text}
+                                  onChange={(e) => setEditingNote({ id: annotation._id, text: e.target.value })}
+                                  maxLength={5000}
+                                  autoFocus
+                                  className="w-full h-20 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-magic-gold/50 resize-none"
+                                  placeholder="Write a note..."
+                                />
+                                <div className="flex justify-end gap-2 mt-1">
+                                  <button
+                                    onClick={() => setEditingNote(null)}
+                                    className="px-3 py-1 text-xs rounded-lg text-gray-400 hover:text-white"
+                                  >
+                                    Cancel
+                                  </button>
+                                  <button
+                                    onClick={() => handleUpdateAnnotation(annotation._id, { note: editingNote.text })}
+                                    className="px-3 py-1 text-xs rounded-lg bg-indigo-600 text-white hover:bg-indigo-500"
+                                  >
+                                    Save
+                                  </button>
+                                </div>
+                              </div>
+                            ) : (
+                              annotation.note && (
+                                <p className="mt-2 text-sm text-gray-400 whitespace-pre-wrap">{annotation.note}</p>
+                              )
+                            )}
+
+                            <div className="flex items-center justify-between mt-2">
+                              {annotation.type !== 'bookmark' ? (
+                                <div className="flex gap-1">
+                                  {(Object.keys(highlightColors) as HighlightColor[]).map((color) => (
+                                    <button
+                                      key={color}
+                                      onClick={() => handleUpdateAnnotation(annotation._id, { color })}
+                                      className={`w-4 h-4 rounded-full border ${
+                                        annotation.color === color ? 'border-white' : 'border-transparent'
+                                      }`}
+                                      style={{ background: highlightColors[color] }}
+                                      title={color}
+                                    />
+                                  ))}
+                                </div>
+                              ) : (
+                                <span />
+                              )}
+                              <div className="flex gap-1">
+                                <button
+                                  onClick={() => setEditingNote({ id: annotation._id, text: annotation.note || '' })}
+                                  className="p-1 rounded text-gray-500 hover:text-white transition-all"
+                                  title={annotation.note ? 'Edit note' : 'Add note'}
+                                >
+                                  <Pencil className="w-3.5 h-3.5" />
+                                </button>
+                                <button
+                                  onClick={() => handleDeleteAnnotation(annotation._id)}
+                                  className="p-1 rounded text-gray-500 hover:text-red-400 transition-all"
+                                  title="Delete"
+                                >
+                                  <Trash2 className="w-3.5 h-3.5" />
+                                </button>
+                              </div>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </GlassCard>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Main Reading Area */}
       <div className="fixed inset-0 flex items-center justify-center px-3 sm:px-8 py-16 sm:py-24">
         <div className="max-w-4xl w-full h-full flex items-center justify-center perspective-1000">
@@ -844,6 +1521,7 @@ export default function ReaderPage() {
 
                 {/* Chapter Content */}
                 <motion.div
+                  ref={chapterContentRef}
                   initial={{ opacity: 0 }}
                   animate={{ opacity: 1 }}
                   transition={{ delay: 0.5 }}
@@ -869,6 +1547,19 @@ export default function ReaderPage() {
                   <p className="text-center text-sm opacity-50" style={{ color: currentTheme.text }}>
                     End of Chapter {currentChapterIndex + 1}
                   </p>
+
+                  {betaCampaign && (
+                    <BetaFeedbackCard
+                      bookId={book._id}
+                      chapterId={currentChapter._id}
+                      questions={betaCampaign.questions.filter(
+                        (q) => q.chapters.length === 0 || q.chapters.includes(currentChapter._id)
+                      )}
+                      feedback={betaCampaign.feedback.find((f) => f.chapter === currentChapter._id)}
+                      accent={currentTheme.accent}
+                      onSaved={handleBetaFeedbackSaved}
+                    />
+                  )}
                 </motion.div>
 
                 {/* Rate & Review Card */}
@@ -951,21 +1642,72 @@ export default function ReaderPage() {
                     </motion.div>
                   )}
                 </AnimatePresence>
+
+                {/* Next in Series */}
+                {nextInSeries?.next && (
+                  <motion.div
+                    initial={{ opacity: 0, y: 30 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="mt-8"
+                  >
+                    <GlassCard glow="purple" className="max-w-2xl mx-auto">
+                      <div className="flex items-center gap-4">
+                        <div className="w-16 h-24 rounded-lg flex-shrink-0 overflow-hidden bg-purple-500/10 flex items-center justify-center">
+                          {nextInSeries.next.coverImageUrl ? (
+                            <img
+                              src={nextInSeries.next.coverImageUrl}
+                              alt={nextInSeries.next.title}
+                              className="w-full h-full object-cover"
+                            />
+                          ) : (
+                            <Library className="w-7 h-7 text-purple-300" />
+                          )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="text-xs uppercase tracking-wide text-purple-300">
+                            Next in {nextInSeries.series.title} · Book {nextInSeries.next.position} of{' '}
+                            {nextInSeries.total}
+                          </p>
+                          <h4 className="font-display text-2xl font-bold truncate" style={{ color: currentTheme.accent }}>
+                            {nextInSeries.next.title}
+                          </h4>
+                          <button
+                            onClick={() => navigate(`/series/${nextInSeries.series._id}`)}
+                            className="text-sm text-gray-400 hover:text-white transition-colors"
+                          >
+                            See the whole series
+                          </button>
+                        </div>
+                        <GlowingButton
+                          variant="cosmic"
+                          onClick={() =>
+                            navigate(
+                              nextInSeries.next!.owned ? `/read/${nextInSeries.next!._id}` : `/book/${nextInSeries.next!._id}`
+                            )
+                          }
+                        >
+                          {nextInSeries.next.owned ? 'Start reading' : 'Get it'}
+                        </GlowingButton>
+                      </div>
+                    </GlassCard>
+                  </motion.div>
+                )}
               </div>
             </motion.div>
           </AnimatePresence>
         </div>
       </div>
 
-      {/* Share Button for Selected Text */}
+      {/* Actions for Selected Text */}
       <AnimatePresence>
         {showShareButton && (
-          <motion.button
+          <motion.div
             initial={{ opacity: 0, scale: 0.8, y: 10 }}
             animate={{ opacity: 1, scale: 1, y: 0 }}
             exit={{ opacity: 0, scale: 0.8, y: 10 }}
-            onClick={handleShare}
-            className="fixed z-50 flex items-center gap-2 px-4 py-2 rounded-full backdrop-blur-md transition-all hover:shadow-glow-gold"
+            // Keep the selection alive while a button is pressed
+            onMouseDown={(e) => e.preventDefault()}
+            className="fixed z-50 flex items-center rounded-full backdrop-blur-md overflow-hidden"
             style={{
               left: shareButtonPos.x,
               top: shareButtonPos.y,
@@ -975,9 +1717,74 @@ export default function ReaderPage() {
               color: currentTheme.accent,
             }}
           >
-            <Share2 className="w-4 h-4" />
-            <span className="text-sm font-semibold">Share</span>
-          </motion.button>
+            {canAnnotate && selectionRange && (
+              <>
+                <button
+                  onClick={handleHighlight}
+                  className="flex items-center gap-2 px-4 py-2 transition-all hover:bg-white/10"
+                >
+                  <Highlighter className="w-4 h-4" />
+                  <span className="text-sm font-semibold">Highlight</span>
+                </button>
+                <button
+                  onClick={handleStartNote}
+                  className="flex items-center gap-2 px-4 py-2 transition-all hover:bg-white/10"
+                >
+                  <StickyNote className="w-4 h-4" />
+                  <span className="text-sm font-semibold">Note</span>
+                </button>
+              </>
+            )}
+            <button
+              onClick={handleShare}
+              className="flex items-center gap-2 px-4 py-2 transition-all hover:bg-white/10"
+            >
+              <Share2 className="w-4 h-4" />
+              <span className="text-sm font-semibold">Share</span>
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Note Composer */}
+      <AnimatePresence>
+        {noteDraft && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 px-4"
+            onClick={() => setNoteDraft(null)}
+          >
+            <motion.div
+              initial={{ scale: 0.9, y: 20 }}
+              animate={{ scale: 1, y: 0 }}
+              exit={{ scale: 0.9, y: 20 }}
+              onClick={(e) => e.stopPropagation()}
+            >
+              <GlassCard className="w-full max-w-md p-5">
+                <p className="text-sm text-gray-300 italic mb-3 line-clamp-3">
+                  “{(chapterElement?.textContent || '').slice(noteDraft.range.startOffset, noteDraft.range.endOffset)}”
+                </p>
+                <textarea
+                  value={noteDraft.text}
+                  onChange={(e) => setNoteDraft({ ...noteDraft, text: e.target.value })}
+                  maxLength={5000}
+                  autoFocus
+                  placeholder="Write a note..."
+                  className="w-full h-32 px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white placeholder-gray-500 focus:outline-none focus:border-magic-gold/50 resize-none"
+                />
+                <div className="flex justify-end gap-3 mt-4">
+                  <GlowingButton variant="cosmic" size="sm" onClick={() => setNoteDraft(null)}>
+                    Cancel
+                  </GlowingButton>
+                  <GlowingButton variant="gold" size="sm" onClick={handleSaveNote} disabled={!noteDraft.text.trim()}>
+                    Save Note
+                  </GlowingButton>
+                </div>
+              </GlassCard>
+            </motion.div>
+          </motion.div>
         )}
       </AnimatePresence>
 
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { Mail, Lock, User, Loader2 } from 'lucide-react';
 import { motion } from 'framer-motion';
@@ -14,6 +14,9 @@ export default function RegisterPage() {
   const [error, setError] = useState('');
   const { register } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Where RequireAuth or a gift claim link sent the user from
+  const from = (location.state as { from?: { pathname: string; search?: string } } | null)?.from;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -39,7 +42,7 @@ export default function RegisterPage() {
 
     try {
       await register(name, email, password);
-      navigate('/dashboard');
+      navigate(from ? `${from.pathname}${from.search ?? ''}` : '/dashboard');
     } catch (error: any) {
       // Error is already handled by axios interceptor
       console.error(error);
@@ -226,7 +229,7 @@ export default function RegisterPage() {
           {/* Login Link */}
           <div className="mt-6 text-center text-sm text-gray-400">
             Already have an account?{' '}
-            <Link to="/login" className="text-indigo-400 hover:text-indigo-300 font-medium">
+            <Link to="/login" state={{ from }} className="text-indigo-400 hover:text-indigo-300 font-medium">
               Sign in
             </Link>
           </div>
@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Lock, Loader2, ArrowLeft, Check, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import toast from 'react-hot-toast';
+import { resetPassword } from '../services/authApi';
+import logoIcon from '../assets/images/logo-icon.png';
+
+/**
+ * Reset Password Page
+ * Opened from the emailed reset link (/reset-password?token=...)
+ */
+export default function ResetPasswordPage() {
+  const { t } = useTranslation('auth');
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const token = searchParams.get('token') || '';
+
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [invalidLink, setInvalidLink] = useState(!token);
+
+  // Same rules as registration (enforced again by the server)
+  const requirements = [
+    { key: 'length', met: password.length >= 8 },
+    { key: 'uppercase', met: /[A-Z]/.test(password) },
+    { key: 'lowercase', met: /[a-z]/.test(password) },
+    { key: 'number', met: /\d/.test(password) },
+  ];
+  const passwordsMatch = password === confirmPassword;
+  const canSubmit = requirements.every((r) => r.met) && passwordsMatch && !loading;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+
+    setLoading(true);
+
+    try {
+      await resetPassword(token, password);
+      toast.success(t('reset_password.success'));
+      navigate('/login');
+    } catch (error: any) {
+      // Error toast is shown by the axios interceptor
+      if (error.response?.status === 400 && error.response.data?.error !== 'Validation failed') {
+        setInvalidLink(true);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col justify-center items-center p-8 bg-deep-space">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.5 }}
+        className="w-full max-w-md"
+      >
+        {/* Logo/Title */}
+        <div className="text-center mb-8">
+          <img
+            src={logoIcon}
+            alt="MeStory"
+            className="h-20 w-auto object-contain drop-shadow-lg inline-block mb-4"
+          />
+          <h1 className="text-4xl font-bold gradient-text">MeStory</h1>
+        </div>
+
+        <div className="card glow">
+          {invalidLink ? (
+            <div className="text-center">
+              <p className="text-gray-300 mb-6">{t('reset_password.invalid_link')}</p>
+              <Link to="/forgot-password" className="btn-primary inline-block">
+                {t('reset_password.request_new')}
+              </Link>
+            </div>
+          ) : (
+            <>
+              <h2 className="text-2xl font-bold text-white mb-2">{t('reset_password.title')}</h2>
+              <p className="text-gray-400 mb-6">{t('reset_password.subtitle')}</p>
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                {/* New Password Input */}
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+                    {t('reset_password.password')}
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
+                    <input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      className="input pl-11"
+                      placeholder={t('reset_password.password_placeholder')}
+                      autoComplete="new-password"
+                      required
+                      disabled={loading}
+                    />
+                  </div>
+                  {password && (
+                    <ul className="mt-2 space-y-1 text-xs">
+                      {requirements.map((requirement) => (
+                        <li
+                          key={requirement.key}
+                          className={`flex items-center gap-1 ${requirement.met ? 'text-green-400' : 'text-gray-500'}`}
+                        >
+                          {requirement.met ? <Check className="w-3 h-3" /> : <X className="w-3 h-3" />}
+                          {t(`password_requirements.${requirement.key}`)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {/* Confirm Password Input */}
+                <div>
+                  <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-2">
+                    {t('reset_password.confirm_password')}
+                  </label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-gray-500" />
+                    <input
+                      id="confirmPassword"
+                      type="password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      className="input pl-11"
+                      placeholder={t('reset_password.confirm_password_placeholder')}
+                      autoComplete="new-password"
+                      required
+                      disabled={loading}
+                    />
+                  </div>
+                  {confirmPassword && !passwordsMatch && (
+                    <p className="mt-2 text-xs text-red-400">{t('reset_password.passwords_mismatch')}</p>
+                  )}
+                </div>
+
+                {/* Submit Button */}
+                <button
+                  type="submit"
+                  disabled={!canSubmit}
+                  className="btn-primary w-full mt-6 flex items-center justify-center gap-2"
+                >
+                  {loading ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      {t('reset_password.resetting')}
+                    </>
+                  ) : (
+                    t('reset_password.submit')
+                  )}
+                </button>
+              </form>
+            </>
+          )}
+
+          {/* Back to Login */}
+          <div className="mt-6 text-center text-sm">
+            <Link
+              to="/login"
+              className="inline-flex items-center gap-1 text-indigo-400 hover:text-indigo-300 font-medium"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              {t('reset_password.back_to_login')}
+            </Link>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
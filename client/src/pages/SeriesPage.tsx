@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Library, BookOpen, User, Package, Check, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { GlassCard, GlowingButton } from '../components/ui';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getSeries,
+  createBundleOrder,
+  captureBundleOrder,
+  type SeriesDetails,
+  type SeriesBook,
+} from '../services/seriesApi';
+
+const formatPrice = (book: SeriesBook) => {
+  if (book.isFree) return 'Free';
+  if (book.salePrice !== undefined) return `$${book.salePrice.toFixed(2)}`;
+  return `$${book.price.toFixed(2)}`;
+};
+
+/**
+ * SeriesPage Component
+ *
+ * A series' books in reading order, which of them the reader owns, and
+ * the bundle priced for what they still need.
+ */
+export default function SeriesPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  const [series, setSeries] = useState<SeriesDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [buying, setBuying] = useState(false);
+
+  const loadSeries = async () => {
+    try {
+      setLoading(true);
+      setSeries(await getSeries(id!));
+    } catch (error) {
+      console.error('Failed to load series:', error);
+      toast.error('Failed to load series');
+      navigate('/marketplace');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSeries();
+  }, [id, user?.id]);
+
+  const handleBuyBundle = async () => {
+    if (!user) {
+      toast.error('Please log in to buy this series');
+      navigate('/login');
+      return;
+    }
+    if (!series) return;
+
+    setBuying(true);
+    try {
+      toast.loading('Creating order...', { id: 'bundle' });
+      const order = await createBundleOrder(series._id);
+
+      if (!order.mockMode && order.approvalUrl) {
+        window.location.href = order.approvalUrl;
+        return;
+      }
+
+      toast.loading('Processing payment...', { id: 'bundle' });
+      await captureBundleOrder(order.orderId);
+      toast.success(`All of "${series.title}" is in your library!`, { id: 'bundle' });
+      await loadSeries();
+    } catch (error: any) {
+      console.error('Failed to buy series:', error);
+      toast.error(error.response?.data?.error || 'Purchase failed. Please try again.', { id: 'bundle' });
+    } finally {
+      setBuying(false);
+    }
+  };
+
+  if (loading && !series) {
+    return (
+      <div className="min-h-screen pt-32 flex items-center justify-center">
+        <div className="text-center">
+          <Library className="w-16 h-16 text-magic-gold mx-auto mb-4 animate-pulse" />
+          <p className="text-gray-300 text-lg">Loading series...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!series) {
+    return null;
+  }
+
+  const ownedCount = series.books.filter((book) => book.owned).length;
+
+  return (
+    <div className="min-h-screen pt-32 pb-20">
+      <div className="max-w-6xl mx-auto px-6">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="flex flex-col md:flex-row gap-8 mb-12"
+        >
+          <div className="w-48 h-72 rounded-2xl shadow-2xl overflow-hidden flex-shrink-0 mx-auto md:mx-0 bg-gradient-to-br from-purple-600 to-indigo-800 flex items-center justify-center">
+            {series.coverImageUrl ? (
+              <img src={series.coverImageUrl} alt={series.title} className="w-full h-full object-cover" />
+            ) : (
+              <Library className="w-20 h-20 text-white/30" />
+            )}
+          </div>
+
+          <div className="flex-1">
+            <span className="px-4 py-2 rounded-full bg-purple-600/30 text-purple-300 text-sm font-semibold border border-purple-500/30">
+              Series · {series.books.length} {series.books.length === 1 ? 'book' : 'books'}
+            </span>
+            <h1 className="text-5xl font-display font-bold gradient-gold mt-4 mb-4">{series.title}</h1>
+            <Link to={`/profile/${series.author._id}`} className="flex items-center gap-2 mb-6 w-fit group">
+              <User className="w-5 h-5 text-magic-gold" />
+              <span className="text-lg text-white group-hover:text-magic-gold transition-colors">
+                {series.author.name}
+              </span>
+            </Link>
+            {series.description && <p className="text-gray-300 leading-relaxed mb-6">{series.description}</p>}
+
+            {/* Bundle */}
+            {series.bundle ? (
+              <GlassCard hover={false} glow="gold" className="p-6">
+                <div className="flex items-center gap-2 mb-2 text-white font-semibold">
+                  <Package className="w-5 h-5 text-magic-gold" />
+                  {ownedCount > 0
+                    ? `The ${series.bundle.books.length} books you don't own yet`
+                    : `All ${series.bundle.books.length} books`}
+                </div>
+                <div className="flex items-baseline gap-3 mb-4">
+                  <span className="text-4xl font-bold text-magic-gold">${series.bundle.price.toFixed(2)}</span>
+                  {series.bundle.savings > 0 && (
+                    <>
+                      <span className="text-lg text-gray-500 line-through">${series.bundle.separatePrice.toFixed(2)}</span>
+                      <span className="px-2 py-0.5 rounded-full bg-green-500/20 text-green-400 text-sm">
+                        Save ${series.bundle.savings.toFixed(2)}
+                      </span>
+                    </>
+                  )}
+                </div>
+                <GlowingButton variant="gold" onClick={handleBuyBundle} disabled={buying}>
+                  {buying ? <Loader2 className="w-5 h-5 animate-spin" /> : 'Buy the bundle'}
+                </GlowingButton>
+              </GlassCard>
+            ) : series.bundleUnavailable ? (
+              <p className="text-sm text-gray-400">{series.bundleUnavailable}</p>
+            ) : (
+              series.bundlePrice &&
+              !user && (
+                <GlassCard hover={false} className="p-6">
+                  <div className="flex items-center gap-2 mb-2 text-white font-semibold">
+                    <Package className="w-5 h-5 text-magic-gold" />
+                    All books for <span className="text-magic-gold">${series.bundlePrice.toFixed(2)}</span>
+                    {series.listTotal > series.bundlePrice && (
+                      <span className="text-gray-500 line-through">${series.listTotal.toFixed(2)}</span>
+                    )}
+                  </div>
+                  <GlowingButton variant="gold" onClick={handleBuyBundle}>
+                    Log in to buy the bundle
+                  </GlowingButton>
+                </GlassCard>
+              )
+            )}
+          </div>
+        </motion.div>
+
+        {/* Books in reading order */}
+        <div className="space-y-4">
+          {series.books.map((book, index) => (
+            <motion.div
+              key={book._id}
+              initial={{ opacity: 0, y: 10 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: index * 0.05 }}
+            >
+              <GlassCard hover className="p-4 flex gap-4 items-center">
+                <span className="w-10 text-center text-2xl font-bold text-magic-gold/70">{book.position}</span>
+                <div className="w-14 h-20 rounded-lg flex-shrink-0 overflow-hidden bg-indigo-500/10 flex items-center justify-center">
+                  {book.coverImageUrl ? (
+                    <img src={book.coverImageUrl} alt={book.title} className="w-full h-full object-cover" />
+                  ) : (
+                    <BookOpen className="w-6 h-6 text-indigo-400" />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <Link to={`/book/${book._id}`} className="font-semibold text-white hover:text-magic-gold transition-colors">
+                    {book.title}
+                  </Link>
+                  <p className="text-xs text-gray-400">{book.genre}</p>
+                  {book.description && <p className="text-sm text-gray-400 line-clamp-2 mt-1">{book.description}</p>}
+                </div>
+                <div className="flex-shrink-0 text-right">
+                  {book.owned ? (
+                    <Link
+                      to={`/read/${book._id}`}
+                      className="flex items-center gap-1 text-sm text-green-400 hover:text-green-300"
+                    >
+                      <Check className="w-4 h-4" />
+                      Read
+                    </Link>
+                  ) : (
+                    <span className="text-sm font-semibold text-white">{formatPrice(book)}</span>
+                  )}
+                </div>
+              </GlassCard>
+            </motion.div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { api } from '../services/api';
+import { getSessions, revokeSession, AuthSession } from '../services/authApi';
 import { useAuth } from '../contexts/AuthContext';
 import { useLanguage, Language } from '../contexts/LanguageContext';
 import {
@@ -20,6 +21,7 @@ import {
   Smartphone,
   AlertTriangle,
   Globe,
+  Zap,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 
@@ -48,6 +50,49 @@ interface EarningsData {
   }>;
 }
 
+interface CreditLedgerEntry {
+  id: string;
+  type: 'usage' | 'refund' | 'refill' | 'subscription' | 'adjustment';
+  operation?: string;
+  cost: number;
+  amount: number;
+  balanceAfter: number;
+  book?: { _id: string; title: string };
+  description?: string;
+  createdAt: string;
+}
+
+interface CreditHistory {
+  balance: number;
+  unlimited: boolean;
+  monthlyAllowance: number;
+  periodStart: string;
+  periodEnd?: string;
+  usage: Array<{ operation: string; count: number; credits: number }>;
+  entries: CreditLedgerEntry[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    pages: number;
+  };
+}
+
+// "ai.generate-image" -> "Generate image"
+const formatOperation = (operation?: string) => {
+  if (!operation) return '';
+  const name = operation.split('.').pop()!.replace(/-/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+};
+
+const CREDIT_ENTRY_LABELS: Record<CreditLedgerEntry['type'], string> = {
+  usage: 'AI usage',
+  refund: 'Refund',
+  refill: 'Monthly refill',
+  subscription: 'Plan change',
+  adjustment: 'Adjustment',
+};
+
 export default function SettingsPage() {
   const { user, refreshUser } = useAuth();
   const { language, setLanguage } = useLanguage();
@@ -66,7 +111,15 @@ export default function SettingsPage() {
   const [loadingEarnings, setLoadingEarnings] = useState(false);
   const [withdrawAmount, setWithdrawAmount] = useState('');
 
+  // Billing state
+  const [creditHistory, setCreditHistory] = useState<CreditHistory | null>(null);
+  const [loadingCredits, setLoadingCredits] = useState(false);
+
   // Security state
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loadingSessions, setLoadingSessions] = useState(false);
+  const [revokingSessionId, setRevokingSessionId] = useState<string | null>(null);
+
   const [oldPassword, setOldPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
@@ -83,9 +136,56 @@ export default function SettingsPage() {
   useEffect(() => {
     if (activeTab === 'earnings') {
       loadEarnings();
+    } else if (activeTab === 'billing') {
+      loadCreditHistory(1);
+    } else if (activeTab === 'security') {
+      loadSessions();
     }
   }, [activeTab]);
 
+  const loadSessions = async () => {
+    try {
+      setLoadingSessions(true);
+      setSessions(await getSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+      toast.error('Failed to load active sessions');
+    } finally {
+      setLoadingSessions(false);
+    }
+  };
+
+  const handleRevokeSession = async (sessionId: string) => {
+    try {
+      setRevokingSessionId(sessionId);
+      await revokeSession(sessionId);
+      setSessions((prev) => prev.filter((session) => session.id !== sessionId));
+      toast.success('Session revoked');
+    } catch (error) {
+      console.error('Failed to revoke session:', error);
+    } finally {
+      setRevokingSessionId(null);
+    }
+  };
+
+  const loadCreditHistory = async (page: number) => {
+    try {
+      setLoadingCredits(true);
+      const response = await api.get('/users/credits/history', { params: { page, limit: 20 } });
+      if (response.data.success) {
+        const data: CreditHistory = response.data.data;
+        setCreditHistory((prev) =>
+          page > 1 && prev ? { ...data, entries: [...prev.entries, ...data.entries] } : data
+        );
+      }
+    } catch (error) {
+      console.error('Failed to load credit history:', error);
+      toast.error('Failed to load credit history');
+    } finally {
+      setLoadingCredits(false);
+    }
+  };
+
   const loadEarnings = async () => {
     try {
       setLoadingEarnings(true);
@@ -604,6 +704,87 @@ export default function SettingsPage() {
                       </>
                     )}
                   </div>
+
+                  {/* Credit Usage */}
+                  <div className="mt-6 sm:mt-8">
+                    <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                      <Zap className="w-5 h-5 text-yellow-400" />
+                      Credit Usage
+                    </h3>
+
+                    {loadingCredits && !creditHistory ? (
+                      <div className="flex justify-center py-8">
+                        <Loader2 className="w-6 h-6 animate-spin text-purple-400" />
+                      </div>
+                    ) : creditHistory ? (
+                      <>
+                        {/* This Period */}
+                        <div className="glass rounded-xl p-4 mb-4">
+                          <div className="flex items-center justify-between mb-3">
+                            <span className="text-sm text-gray-400">
+                              Since {new Date(creditHistory.periodStart).toLocaleDateString()}
+                            </span>
+                            <span className="text-sm text-white">
+                              {creditHistory.unlimited
+                                ? 'Unlimited'
+                                : `${creditHistory.balance.toLocaleString()} / ${creditHistory.monthlyAllowance.toLocaleString()} left`}
+                            </span>
+                          </div>
+                          {creditHistory.usage.length === 0 ? (
+                            <p className="text-sm text-gray-500">No AI usage this period</p>
+                          ) : (
+                            <div className="space-y-2">
+                              {creditHistory.usage.map((item) => (
+                                <div key={item.operation} className="flex items-center justify-between text-sm">
+                                  <span className="text-gray-300">
+                                    {formatOperation(item.operation)}
+                                    <span className="text-gray-500"> × {item.count}</span>
+                                  </span>
+                                  <span className="text-gray-400">{item.credits} credits</span>
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+
+                        {/* Ledger */}
+                        <div className="divide-y divide-white/10">
+                          {creditHistory.entries.map((entry) => (
+                            <div key={entry.id} className="flex items-center justify-between py-3 gap-3">
+                              <div className="min-w-0">
+                                <p className="text-sm text-white truncate">
+                                  {entry.operation ? formatOperation(entry.operation) : CREDIT_ENTRY_LABELS[entry.type]}
+                                  {entry.book && <span className="text-gray-500"> · {entry.book.title}</span>}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  {CREDIT_ENTRY_LABELS[entry.type]} · {new Date(entry.createdAt).toLocaleString()}
+                                </p>
+                              </div>
+                              <div className="text-right flex-shrink-0">
+                                <p className={`text-sm font-medium ${entry.amount < 0 ? 'text-red-400' : entry.amount > 0 ? 'text-green-400' : 'text-gray-400'}`}>
+                                  {entry.amount > 0 ? '+' : ''}{entry.amount}
+                                </p>
+                                <p className="text-xs text-gray-500">
+                                  {creditHistory.unlimited ? `${entry.cost} listed` : `${entry.balanceAfter.toLocaleString()} left`}
+                                </p>
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+
+                        {creditHistory.pagination.page < creditHistory.pagination.pages && (
+                          <button
+                            onClick={() => loadCreditHistory(creditHistory.pagination.page + 1)}
+                            disabled={loadingCredits}
+                            className="btn-ghost w-full mt-4 flex items-center justify-center gap-2"
+                          >
+                            {loadingCredits && <Loader2 className="w-4 h-4 animate-spin" />}
+                            Load more
+                          </button>
+                        )}
+                      </>
+                    ) : null}
+                  </div>
                 </motion.div>
               )}
 
@@ -699,51 +880,49 @@ export default function SettingsPage() {
                     </div>
 
                     <div className="space-y-4">
-                      {/* Current Session */}
-                      <div className="glass rounded-xl p-4">
-                        <div className="flex items-start justify-between">
-                          <div className="flex items-start gap-3">
-                            <Smartphone className="w-5 h-5 text-green-400 mt-1" />
-                            <div>
-                              <div className="font-semibold text-white flex items-center gap-2">
-                                Windows PC - Chrome
-                                <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/20 text-green-400">
-                                  Current
-                                </span>
-                              </div>
-                              <div className="text-sm text-gray-400 mt-1">
-                                Last active: Just now
-                              </div>
-                              <div className="text-sm text-gray-500">
-                                IP: 192.168.1.1 • Location: Tel Aviv, Israel
-                              </div>
-                            </div>
-                          </div>
+                      {loadingSessions ? (
+                        <div className="flex justify-center py-6">
+                          <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
                         </div>
-                      </div>
-
-                      {/* Other Sessions (Mock Data) */}
-                      <div className="glass rounded-xl p-4">
-                        <div className="flex items-start justify-between">
-                          <div className="flex items-start gap-3">
-                            <Smartphone className="w-5 h-5 text-gray-400 mt-1" />
-                            <div>
-                              <div className="font-semibold text-white">
-                                iPhone 13 - Safari
-                              </div>
-                              <div className="text-sm text-gray-400 mt-1">
-                                Last active: 2 days ago
-                              </div>
-                              <div className="text-sm text-gray-500">
-                                IP: 192.168.1.15 • Location: Tel Aviv, Israel
+                      ) : (
+                        sessions.map((session) => (
+                          <div key={session.id} className="glass rounded-xl p-4">
+                            <div className="flex items-start justify-between">
+                              <div className="flex items-start gap-3">
+                                <Smartphone
+                                  className={`w-5 h-5 mt-1 ${session.isCurrent ? 'text-green-400' : 'text-gray-400'}`}
+                                />
+                                <div>
+                                  <div className="font-semibold text-white flex items-center gap-2">
+                                    {session.device || 'Unknown device'}
+                                    {session.isCurrent && (
+                                      <span className="text-xs px-2 py-0.5 rounded-full bg-green-500/20 text-green-400">
+                                        Current
+                                      </span>
+                                    )}
+                                  </div>
+                                  <div className="text-sm text-gray-400 mt-1">
+                                    Last active: {new Date(session.lastUsedAt).toLocaleString()}
+                                  </div>
+                                  <div className="text-sm text-gray-500">
+                                    {session.ipAddress && <>IP: {session.ipAddress} • </>}
+                                    Signed in: {new Date(session.createdAt).toLocaleDateString()}
+                                  </div>
+                                </div>
                               </div>
+                              {!session.isCurrent && (
+                                <button
+                                  onClick={() => handleRevokeSession(session.id)}
+                                  disabled={revokingSessionId === session.id}
+                                  className="text-sm text-red-400 hover:text-red-300 transition disabled:opacity-50"
+                                >
+                                  {revokingSessionId === session.id ? 'Revoking...' : 'Revoke'}
+                                </button>
+                              )}
                             </div>
                           </div>
-                          <button className="text-sm text-red-400 hover:text-red-300 transition">
-                            Revoke
-                          </button>
-                        </div>
-                      </div>
+                        ))
+                      )}
 
                       <div className="flex items-center gap-2 p-3 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
                         <AlertTriangle className="w-5 h-5 text-yellow-400 flex-shrink-0" />
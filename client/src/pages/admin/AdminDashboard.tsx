@@ -20,6 +20,7 @@ import {
   UserMinus,
   Zap,
   PieChart,
+  RotateCcw,
 } from 'lucide-react';
 import { api } from '../../services/api';
 import toast from 'react-hot-toast';
@@ -134,13 +135,46 @@ interface RevenueAnalytics {
   revenueBySource: { subscriptions: number; bookSales: number; credits: number };
 }
 
-type Tab = 'overview' | 'users' | 'content' | 'analytics';
+interface RefundRequest {
+  _id: string;
+  buyer: { _id: string; name: string; email: string } | null;
+  book: { _id: string; title: string } | null;
+  series?: { _id: string; title: string } | null; // Set for a series bundle, refunded as a whole
+  gift?: { _id: string; type: 'book' | 'gift_card'; amount: number } | null; // Set when the purchase was a gift
+  amount: number;
+  reason?: string;
+  source: 'buyer' | 'paypal_refund' | 'chargeback';
+  status: 'requested' | 'approved' | 'rejected' | 'refunded' | 'failed';
+  decidedBy?: { name: string } | null;
+  decisionNote?: string;
+  failureReason?: string;
+  unrecoveredAmount?: number; // Gift card value the gift's recipient had already spent
+  createdAt: string;
+}
+
+const REFUND_SOURCE_LABELS: Record<RefundRequest['source'], string> = {
+  buyer: 'Buyer request',
+  paypal_refund: 'Refunded in PayPal',
+  chargeback: 'Chargeback',
+};
+
+const REFUND_STATUS_STYLES: Record<RefundRequest['status'], string> = {
+  requested: 'bg-yellow-500/20 text-yellow-400',
+  approved: 'bg-blue-500/20 text-blue-400',
+  rejected: 'bg-gray-500/20 text-gray-400',
+  refunded: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+};
+
+type Tab = 'overview' | 'users' | 'content' | 'refunds' | 'analytics';
 
 export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState<Tab>('overview');
   const [stats, setStats] = useState<Stats | null>(null);
   const [users, setUsers] = useState<User[]>([]);
   const [flaggedBooks, setFlaggedBooks] = useState<FlaggedBook[]>([]);
+  const [refunds, setRefunds] = useState<RefundRequest[]>([]);
+  const [refundFilter, setRefundFilter] = useState('requested');
   const [loading, setLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [roleFilter, setRoleFilter] = useState('all');
@@ -162,10 +196,12 @@ export default function AdminDashboard() {
       loadUsers();
     } else if (activeTab === 'content') {
       loadFlaggedBooks();
+    } else if (activeTab === 'refunds') {
+      loadRefunds();
     } else if (activeTab === 'analytics') {
       loadAnalytics();
     }
-  }, [activeTab]);
+  }, [activeTab, refundFilter]);
 
   const loadStats = async () => {
     try {
@@ -296,6 +332,55 @@ export default function AdminDashboard() {
     }
   };
 
+  const loadRefunds = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/admin/refunds', {
+        params: { status: refundFilter !== 'all' ? refundFilter : undefined },
+      });
+      if (response.data.success) {
+        setRefunds(response.data.data.refunds);
+      }
+    } catch (error: any) {
+      console.error('Failed to load refunds:', error);
+      toast.error(error.response?.data?.error || 'Failed to load refunds');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApproveRefund = async (refund: RefundRequest) => {
+    if (!confirm(`Refund $${refund.amount.toFixed(2)} to ${refund.buyer?.name || 'the buyer'}? The book will be removed from their library.`)) return;
+
+    try {
+      const response = await api.post(`/admin/refunds/${refund._id}/approve`);
+      if (response.data.success) {
+        toast.success('Refund issued');
+        loadRefunds();
+      }
+    } catch (error: any) {
+      console.error('Failed to approve refund:', error);
+      toast.error(error.response?.data?.error || 'Failed to approve refund');
+      loadRefunds();
+    }
+  };
+
+  const handleRejectRefund = async (refundId: string) => {
+    const note = prompt('Reason for declining (will be sent to the buyer):');
+    if (note === null) return;
+
+    try {
+      const response = await api.post(`/admin/refunds/${refundId}/reject`, { note });
+      if (response.data.success) {
+        toast.success('Refund request declined');
+        loadRefunds();
+      }
+    } catch (error: any) {
+      console.error('Failed to decline refund:', error);
+      toast.error(error.response?.data?.error || 'Failed to decline refund');
+    }
+  };
+
   const handleUnpublishBook = async (bookId: string) => {
     const reason = prompt('Reason for unpublishing (will be sent to author):');
     if (!reason) return;
@@ -345,6 +430,7 @@ export default function AdminDashboard() {
             { id: 'overview' as Tab, label: 'Overview', icon: Activity },
             { id: 'users' as Tab, label: 'Users', icon: Users },
             { id: 'content' as Tab, label: 'Content Moderation', icon: AlertCircle },
+            { id: 'refunds' as Tab, label: 'Refunds', icon: RotateCcw },
             { id: 'analytics' as Tab, label: 'Analytics', icon: BarChart3 },
           ].map((tab) => {
             const Icon = tab.icon;
@@ -741,6 +827,119 @@ export default function AdminDashboard() {
           </motion.div>
         )}
 
+        {/* Refunds Tab */}
+        {activeTab === 'refunds' && (
+          <motion.div
+            key="refunds"
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+          >
+            <GlassCard>
+              <div className="flex items-center justify-between mb-6 gap-4 flex-wrap">
+                <div>
+                  <h3 className="text-xl font-display font-bold text-white">Refunds</h3>
+                  <p className="text-gray-400 text-sm">
+                    Book purchase refund requests, PayPal refunds and chargebacks
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <select
+                    value={refundFilter}
+                    onChange={(e) => setRefundFilter(e.target.value)}
+                    className="px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-magic-gold/50"
+                  >
+                    <option value="requested">Awaiting decision</option>
+                    <option value="failed">Failed</option>
+                    <option value="refunded">Refunded</option>
+                    <option value="rejected">Declined</option>
+                    <option value="all">All</option>
+                  </select>
+                  <GlowingButton onClick={loadRefunds} variant="cosmic">
+                    <RefreshCw className="w-5 h-5" />
+                    Refresh
+                  </GlowingButton>
+                </div>
+              </div>
+
+              {refunds.length === 0 ? (
+                <div className="text-center py-12">
+                  <RotateCcw className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+                  <p className="text-gray-400">No refunds to show</p>
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {refunds.map((refund) => (
+                    <div
+                      key={refund._id}
+                      className="flex items-start justify-between gap-4 p-4 bg-white/5 rounded-lg border border-white/10"
+                    >
+                      <div className="flex-1">
+                        <div className="flex items-center gap-3 mb-2">
+                          <h4 className="text-lg font-semibold text-white">
+                            {refund.series
+                              ? `${refund.series.title} (bundle)`
+                              : refund.gift?.type === 'gift_card'
+                              ? `$${refund.gift.amount.toFixed(2)} gift card`
+                              : refund.book?.title || 'Deleted book'}
+                          </h4>
+                          <span className={`px-2 py-1 rounded text-xs font-semibold ${REFUND_STATUS_STYLES[refund.status]}`}>
+                            {refund.status}
+                          </span>
+                          <span className="text-magic-gold font-semibold">${refund.amount.toFixed(2)}</span>
+                        </div>
+                        <p className="text-gray-400 text-sm mb-2">
+                          <span className="font-semibold">Buyer:</span>{' '}
+                          {refund.buyer ? `${refund.buyer.name} (${refund.buyer.email})` : 'Deleted user'}
+                        </p>
+                        {refund.reason && (
+                          <p className="text-gray-300 text-sm mb-2">"{refund.reason}"</p>
+                        )}
+                        {refund.failureReason && (
+                          <p className="text-red-400 text-sm mb-2">PayPal: {refund.failureReason}</p>
+                        )}
+                        {!!refund.unrecoveredAmount && (
+                          <p className="text-yellow-400 text-sm mb-2">
+                            ${refund.unrecoveredAmount.toFixed(2)} of the gift was already spent by its recipient and
+                            could not be taken back
+                          </p>
+                        )}
+                        {refund.decisionNote && (
+                          <p className="text-gray-400 text-sm mb-2">
+                            <span className="font-semibold">{refund.decidedBy?.name || 'Admin'}:</span> {refund.decisionNote}
+                          </p>
+                        )}
+                        <div className="flex items-center gap-4 text-sm text-gray-500">
+                          <span>{REFUND_SOURCE_LABELS[refund.source]}</span>
+                          <span>•</span>
+                          <span>{new Date(refund.createdAt).toLocaleDateString()}</span>
+                        </div>
+                      </div>
+                      {(refund.status === 'requested' || refund.status === 'failed') && (
+                        <div className="flex gap-2">
+                          <GlowingButton
+                            onClick={() => handleApproveRefund(refund)}
+                            variant="gold"
+                            size="sm"
+                          >
+                            <RotateCcw className="w-4 h-4" />
+                            {refund.status === 'failed' ? 'Retry refund' : 'Approve'}
+                          </GlowingButton>
+                          <button
+                            onClick={() => handleRejectRefund(refund._id)}
+                            className="px-3 py-2 rounded-lg bg-red-500/10 hover:bg-red-500/20 text-red-400 text-sm font-semibold transition-colors"
+                          >
+                            Decline
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </GlassCard>
+          </motion.div>
+        )}
+
         {/* Analytics Tab */}
         {activeTab === 'analytics' && (
           <motion.div
@@ -34,6 +34,22 @@ export interface InterviewState {
   isComplete: boolean;
   progress: number;
   canCompleteEarly: boolean;
+  language?: 'en' | 'he';
+}
+
+// Unfinished interview listed for resuming (chat or voice)
+export interface UnfinishedInterview {
+  id: string;
+  kind: 'chat' | 'voice';
+  bookId?: string;
+  genre?: string;
+  language?: 'en' | 'he';
+  currentTopic: string;
+  questionsAsked: number;
+  progress: number;
+  startedAt: string;
+  updatedAt: string;
+  expiresAt: string;
 }
 
 // Interview summary
@@ -62,6 +78,16 @@ export async function startInterview(
   return response.data.data;
 }
 
+// List the user's unfinished interviews, most recent first
+export async function getMyInterviews(
+  kind?: 'chat' | 'voice'
+): Promise<UnfinishedInterview[]> {
+  const response = await api.get('/ai/interview/mine', {
+    params: kind ? { kind } : undefined,
+  });
+  return response.data.data;
+}
+
 // Send a message and get AI response
 export async function sendInterviewMessage(
   interviewId: string,
@@ -0,0 +1,102 @@
+/**
+ * Annotation API Service
+ * Reader highlights, notes and bookmarks, synced per user
+ */
+
+import { api } from './api';
+
+export type AnnotationType = 'highlight' | 'note' | 'bookmark';
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+export interface AnnotationAnchor {
+  startOffset: number;
+  endOffset: number;
+  exact: string;
+  prefix: string;
+  suffix: string;
+}
+
+export interface ReaderAnnotation {
+  _id: string;
+  book: string;
+  chapter: string;
+  type: AnnotationType;
+  anchor: AnnotationAnchor;
+  note?: string;
+  color: HighlightColor;
+  isOrphaned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAnnotationData {
+  chapterId: string;
+  type: AnnotationType;
+  startOffset: number;
+  endOffset: number;
+  exact?: string;
+  note?: string;
+  color?: HighlightColor;
+}
+
+/**
+ * List the reader's annotations in a book, in reading order
+ */
+export const getAnnotations = async (bookId: string, chapterId?: string): Promise<ReaderAnnotation[]> => {
+  const response = await api.get(`/book-purchases/${bookId}/annotations`, {
+    params: chapterId ? { chapterId } : undefined,
+  });
+  return response.data.data.annotations;
+};
+
+/**
+ * Create a highlight, note or bookmark
+ */
+export const createAnnotation = async (bookId: string, data: CreateAnnotationData): Promise<ReaderAnnotation> => {
+  const response = await api.post(`/book-purchases/${bookId}/annotations`, data);
+  return response.data.data.annotation;
+};
+
+/**
+ * Edit an annotation's note or color
+ */
+export const updateAnnotation = async (
+  bookId: string,
+  annotationId: string,
+  data: { note?: string; color?: HighlightColor }
+): Promise<ReaderAnnotation> => {
+  const response = await api.patch(`/book-purchases/${bookId}/annotations/${annotationId}`, data);
+  return response.data.data.annotation;
+};
+
+/**
+ * Delete an annotation
+ */
+export const deleteAnnotation = async (bookId: string, annotationId: string): Promise<void> => {
+  await api.delete(`/book-purchases/${bookId}/annotations/${annotationId}`);
+};
+
+/**
+ * Download the reader's highlights and notes as a Markdown file
+ */
+export const exportAnnotations = async (bookId: string, fallbackName: string): Promise<void> => {
+  const response = await api.get(`/book-purchases/${bookId}/annotations/export`, {
+    responseType: 'blob',
+  });
+
+  // Prefer the server's filename (RFC 5987 encoded)
+  const disposition: string = response.headers['content-disposition'] || '';
+  const match = disposition.match(/filename\*=UTF-8''([^;]+)/);
+  const filename = match ? decodeURIComponent(match[1]) : `${fallbackName}-notes.md`;
+
+  const blob = new Blob([response.data], { type: 'text/markdown;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
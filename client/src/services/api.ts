@@ -1,9 +1,9 @@
-import axios, { AxiosError } from 'axios';
+import axios, { AxiosError, InternalAxiosRequestConfig } from 'axios';
 import toast from 'react-hot-toast';
 
 // In production, use the server URL
 // In development, use localhost
-const API_URL = import.meta.env.VITE_API_URL ||
+export const API_URL = import.meta.env.VITE_API_URL ||
   (import.meta.env.PROD ? 'https://me-story-server-7wdx.vercel.app/api' : 'http://localhost:5001/api');
 
 // Create axios instance with default config
@@ -29,19 +29,79 @@ api.interceptors.request.use(
   }
 );
 
+// Requests that must not trigger a token refresh
+const NO_REFRESH_URLS = ['/auth/login', '/auth/register', '/auth/refresh', '/auth/logout', '/auth/google/exchange'];
+
+// Single in-flight refresh shared by every request that hits a 401
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchange the stored refresh token for a new access token.
+ * Concurrent callers share one request; resolves with the new access token.
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    const refreshToken = localStorage.getItem('refreshToken');
+
+    refreshPromise = (
+      refreshToken
+        ? axios
+            .post(`${API_URL}/auth/refresh`, { refreshToken }, { withCredentials: true })
+            .then((response) => {
+              const { token, refreshToken: nextRefreshToken } = response.data.data;
+              localStorage.setItem('token', token);
+              localStorage.setItem('refreshToken', nextRefreshToken);
+              return token as string;
+            })
+            .catch((error) => {
+              // Another tab may have rotated the token in the meantime
+              const latestRefreshToken = localStorage.getItem('refreshToken');
+              if (latestRefreshToken && latestRefreshToken !== refreshToken) {
+                return localStorage.getItem('token') as string;
+              }
+              throw error;
+            })
+        : Promise.reject(new Error('No refresh token'))
+    ).finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+}
+
 // Response interceptor to handle errors
 api.interceptors.response.use(
   (response) => {
     return response;
   },
-  (error: AxiosError<{ error: string; message?: string }>) => {
+  async (error: AxiosError<{ error: string; message?: string }>) => {
     const url = error.config?.url || '';
     const isAuthCheck = url.includes('/auth/me');
+    const originalRequest = error.config as (InternalAxiosRequestConfig & { _retried?: boolean }) | undefined;
+
+    // Access token expired or revoked - refresh once and replay the request
+    if (
+      error.response?.status === 401 &&
+      originalRequest &&
+      !originalRequest._retried &&
+      !NO_REFRESH_URLS.some((path) => url.includes(path)) &&
+      localStorage.getItem('refreshToken')
+    ) {
+      originalRequest._retried = true;
+      try {
+        const token = await refreshAccessToken();
+        originalRequest.headers.Authorization = `Bearer ${token}`;
+        return api(originalRequest);
+      } catch {
+        // Refresh failed - fall through to the session-expired handling
+      }
+    }
 
     // Handle specific error cases
     if (error.response?.status === 401) {
       // Unauthorized - clear token and redirect to login
       localStorage.removeItem('token');
+      localStorage.removeItem('refreshToken');
       localStorage.removeItem('user');
 
       // Only redirect if not already on login/register page and not during initial auth check
@@ -51,6 +111,8 @@ api.interceptors.response.use(
         toast.error('Session expired. Please login again.');
         window.location.href = '/login';
       }
+    } else if (error.response?.status === 402) {
+      toast.error('Not enough credits for this AI action. Upgrade your plan or wait for your monthly refill.');
     } else if (error.response?.status === 403) {
       toast.error('You do not have permission to perform this action.');
     } else if (error.response?.status === 429) {
@@ -0,0 +1,107 @@
+/**
+ * Audiobook API Service
+ * Pre-rendered chapter narration: build status, audio and read-along marks
+ */
+
+import { api } from './api';
+
+export type AudiobookProvider = 'google' | 'elevenlabs';
+
+export interface AudiobookChapter {
+  chapterId: string;
+  title: string;
+  order: number;
+  duration: number;
+  sizeBytes: number;
+  isOutdated: boolean; // Chapter text changed since it was rendered
+}
+
+export interface Audiobook {
+  status: 'building' | 'ready' | 'failed';
+  provider: AudiobookProvider;
+  voice?: string;
+  language: string;
+  progress: { completed: number; total: number };
+  error?: string;
+  builtAt?: string;
+  totalDuration: number;
+  chapters: AudiobookChapter[];
+}
+
+export interface SentenceMark {
+  text: string;
+  start: number; // Seconds
+  end: number;
+}
+
+export interface ChapterAudioMarks {
+  duration: number;
+  marks: SentenceMark[];
+}
+
+/**
+ * Build status of a book's audiobook (null if never built)
+ */
+export const getAudiobook = async (bookId: string): Promise<Audiobook | null> => {
+  const response = await api.get(`/tts/audiobook/${bookId}`);
+  return response.data.data.audiobook;
+};
+
+/**
+ * Start rendering the audiobook (author only)
+ */
+export const buildAudiobook = async (
+  bookId: string,
+  provider: AudiobookProvider,
+  voice?: string
+): Promise<Audiobook> => {
+  const response = await api.post(`/tts/audiobook/${bookId}/build`, { provider, voice });
+  return response.data.data.audiobook;
+};
+
+/**
+ * Sentence timing marks for a chapter
+ */
+export const getChapterMarks = async (bookId: string, chapterId: string): Promise<ChapterAudioMarks> => {
+  const response = await api.get(`/tts/audiobook/${bookId}/chapters/${chapterId}/marks`);
+  return response.data.data;
+};
+
+/**
+ * Chapter audio as a blob. The audio endpoint needs the auth header, so
+ * it cannot be used as an <audio> src directly.
+ */
+export const getChapterAudio = async (bookId: string, chapterId: string): Promise<Blob> => {
+  const response = await api.get(`/tts/audiobook/${bookId}/chapters/${chapterId}/audio`, {
+    responseType: 'blob',
+  });
+  return response.data;
+};
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = window.URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+}
+
+/**
+ * Download one chapter's MP3
+ */
+export const downloadChapterAudio = async (bookId: string, chapterId: string, filename: string): Promise<void> => {
+  saveBlob(await getChapterAudio(bookId, chapterId), filename);
+};
+
+/**
+ * Download the whole audiobook as a ZIP of chapter MP3s
+ */
+export const downloadAudiobook = async (bookId: string, filename: string): Promise<void> => {
+  const response = await api.get(`/tts/audiobook/${bookId}/download`, {
+    responseType: 'blob',
+  });
+  saveBlob(response.data, filename);
+};
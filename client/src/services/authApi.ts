@@ -1,10 +1,22 @@
 /**
  * Auth API Service
  * Handles authentication-related API calls including email verification
+ * and password reset
  */
 
 import api from './api';
 
+export interface AuthSession {
+  id: string;
+  device?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastUsedAt: string;
+  createdAt: string;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
 /**
  * Verify email with code
  */
@@ -23,6 +35,14 @@ export const resendVerificationCode = async (): Promise<void> => {
   await api.post('/auth/resend-verification');
 };
 
+/**
+ * Exchange the one-time code from the Google sign-in redirect for tokens
+ */
+export const exchangeOAuthCode = async (code: string): Promise<{ token: string; refreshToken: string }> => {
+  const response = await api.post('/auth/google/exchange', { code });
+  return response.data.data;
+};
+
 /**
  * Get current user data
  */
@@ -30,3 +50,32 @@ export const getMe = async () => {
   const response = await api.get('/auth/me');
   return response.data.data.user;
 };
+
+/**
+ * Request a password reset link by email
+ */
+export const forgotPassword = async (email: string): Promise<void> => {
+  await api.post('/auth/forgot-password', { email });
+};
+
+/**
+ * Set a new password using the token from a reset link
+ */
+export const resetPassword = async (token: string, password: string): Promise<void> => {
+  await api.post('/auth/reset-password', { token, password });
+};
+
+/**
+ * List devices signed into the account
+ */
+export const getSessions = async (): Promise<AuthSession[]> => {
+  const response = await api.get('/auth/sessions');
+  return response.data.data.sessions;
+};
+
+/**
+ * Sign out a device
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  await api.delete(`/auth/sessions/${sessionId}`);
+};
@@ -0,0 +1,199 @@
+/**
+ * Beta Read API Service
+ * Pre-publication beta-read campaigns: invitations, chapter feedback
+ * and the author's results
+ */
+
+import { api } from './api';
+
+export type BetaCampaignStatus = 'active' | 'closed';
+export type BetaQuestionType = 'rating' | 'text';
+export type BetaReaction = 'loved' | 'liked' | 'neutral' | 'confused' | 'bored';
+export type BetaReaderStatus = 'invited' | 'reading' | 'finished' | 'expired' | 'revoked';
+
+export const BETA_REACTIONS: Array<{ value: BetaReaction; emoji: string }> = [
+  { value: 'loved', emoji: '😍' },
+  { value: 'liked', emoji: '🙂' },
+  { value: 'neutral', emoji: '😐' },
+  { value: 'confused', emoji: '😕' },
+  { value: 'bored', emoji: '🥱' },
+];
+
+export interface BetaQuestion {
+  _id: string;
+  prompt: string;
+  type: BetaQuestionType;
+  chapters: string[]; // Empty = every chapter
+}
+
+export interface BetaQuestionInput {
+  prompt: string;
+  type: BetaQuestionType;
+  chapters?: string[];
+}
+
+export interface BetaCampaignReader {
+  id: string;
+  email: string;
+  user?: string;
+  invitedAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+  lastOpenedAt?: string;
+  hasAccess: boolean;
+}
+
+export interface BetaCampaign {
+  id: string;
+  title: string;
+  message?: string;
+  status: BetaCampaignStatus;
+  accessDays: number;
+  questions: BetaQuestion[];
+  readers: BetaCampaignReader[];
+  closedAt?: string;
+  createdAt: string;
+}
+
+export interface BetaCampaignInput {
+  title?: string;
+  message?: string;
+  accessDays?: number;
+  questions?: BetaQuestionInput[];
+  status?: BetaCampaignStatus;
+}
+
+export interface BetaFeedback {
+  _id: string;
+  chapter: string;
+  reaction?: BetaReaction;
+  rating?: number;
+  answers: Array<{ question: string; rating?: number; text?: string }>;
+  comment?: string;
+  updatedAt: string;
+}
+
+export type BetaFeedbackInput = Omit<BetaFeedback, '_id' | 'chapter' | 'updatedAt'>;
+
+// The campaign as an invited reader sees it
+export interface ReaderBetaCampaign {
+  id: string;
+  title: string;
+  message?: string;
+  questions: BetaQuestion[];
+  expiresAt: string;
+  feedback: BetaFeedback[];
+}
+
+export interface BetaCampaignSummary {
+  campaign: BetaCampaign;
+  totals: {
+    invited: number;
+    opened: number;
+    finished: number;
+    feedback: number;
+    averageRating: number | null;
+  };
+  dropOff: { chapterId: string; title: string; readers: number } | null;
+  readers: Array<{
+    id: string;
+    email: string;
+    name?: string;
+    status: BetaReaderStatus;
+    furthestChapter: number; // Index into the book's chapters; -1 = not started
+    lastOpenedAt?: string;
+    expiresAt: string;
+  }>;
+  chapters: Array<{
+    chapterId: string;
+    title: string;
+    readersReached: number;
+    stoppedHere: number;
+    feedbackCount: number;
+    averageRating: number | null;
+    reactions: Record<BetaReaction, number>;
+    questions: Array<{
+      id: string;
+      prompt: string;
+      type: BetaQuestionType;
+      responses: number;
+      averageRating: number | null;
+      answers: string[];
+    }>;
+    comments: string[];
+  }>;
+}
+
+const campaignsUrl = (bookId: string) => `/books/${bookId}/beta-campaigns`;
+
+/**
+ * List a book's campaigns, newest first
+ */
+export const getBetaCampaigns = async (bookId: string): Promise<BetaCampaign[]> => {
+  const response = await api.get(campaignsUrl(bookId));
+  return response.data.data.campaigns;
+};
+
+/**
+ * Start a campaign
+ */
+export const createBetaCampaign = async (bookId: string, input: BetaCampaignInput): Promise<BetaCampaign> => {
+  const response = await api.post(campaignsUrl(bookId), input);
+  return response.data.data.campaign;
+};
+
+/**
+ * Edit, close or reopen a campaign
+ */
+export const updateBetaCampaign = async (
+  bookId: string,
+  campaignId: string,
+  input: BetaCampaignInput
+): Promise<BetaCampaign> => {
+  const response = await api.patch(`${campaignsUrl(bookId)}/${campaignId}`, input);
+  return response.data.data.campaign;
+};
+
+/**
+ * Invite readers by email, or renew their access
+ */
+export const inviteBetaReaders = async (bookId: string, campaignId: string, emails: string[]): Promise<BetaCampaign> => {
+  const response = await api.post(`${campaignsUrl(bookId)}/${campaignId}/readers`, { emails });
+  return response.data.data.campaign;
+};
+
+/**
+ * Revoke a reader's access
+ */
+export const revokeBetaReader = async (bookId: string, campaignId: string, readerId: string): Promise<BetaCampaign> => {
+  const response = await api.delete(`${campaignsUrl(bookId)}/${campaignId}/readers/${readerId}`);
+  return response.data.data.campaign;
+};
+
+/**
+ * Aggregate results of a campaign
+ */
+export const getBetaCampaignSummary = async (bookId: string, campaignId: string): Promise<BetaCampaignSummary> => {
+  const response = await api.get(`${campaignsUrl(bookId)}/${campaignId}/summary`);
+  return response.data.data.summary;
+};
+
+/**
+ * The campaign the current user was invited to read
+ */
+export const getMyBetaCampaign = async (bookId: string): Promise<ReaderBetaCampaign> => {
+  const response = await api.get(`/books/${bookId}/beta`);
+  return response.data.data.campaign;
+};
+
+/**
+ * Save feedback on a chapter, replacing earlier feedback
+ */
+export const submitBetaFeedback = async (
+  bookId: string,
+  chapterId: string,
+  input: BetaFeedbackInput
+): Promise<BetaFeedback> => {
+  const response = await api.put(`/books/${bookId}/beta/chapters/${chapterId}/feedback`, input);
+  return response.data.data.feedback;
+};
@@ -0,0 +1,98 @@
+/**
+ * Collaboration API Service
+ * Book teams: co-authors, editors and beta readers
+ */
+
+import { api } from './api';
+
+export type CollaboratorRole = 'co-author' | 'editor' | 'beta-reader';
+export type CollaboratorStatus = 'pending' | 'accepted' | 'declined';
+
+export interface Collaborator {
+  id: string;
+  user: {
+    id: string;
+    name?: string;
+    email?: string;
+    avatar?: string;
+  };
+  role: CollaboratorRole;
+  status: CollaboratorStatus;
+  chapters: string[]; // Assigned chapter ids; empty = the whole book
+  revenueShare: number; // Percentage of the author's share
+  invitedAt: string;
+  respondedAt?: string;
+}
+
+export interface Collaboration {
+  bookId: string;
+  title: string;
+  genre: string;
+  author: { id: string; name?: string };
+  coverImage?: string;
+  status?: string;
+  wordCount: number;
+  collaborator: Collaborator;
+  updatedAt: string;
+}
+
+export interface CollaboratorInput {
+  role?: CollaboratorRole;
+  chapters?: string[];
+  revenueShare?: number;
+}
+
+/**
+ * List a book's collaborators
+ */
+export const getCollaborators = async (bookId: string): Promise<Collaborator[]> => {
+  const response = await api.get(`/books/${bookId}/collaborators`);
+  return response.data.data.collaborators;
+};
+
+/**
+ * Invite a registered user by email (author only)
+ */
+export const inviteCollaborator = async (
+  bookId: string,
+  email: string,
+  data: CollaboratorInput & { role: CollaboratorRole }
+): Promise<Collaborator> => {
+  const response = await api.post(`/books/${bookId}/collaborators`, { email, ...data });
+  return response.data.data.collaborator;
+};
+
+/**
+ * Change a collaborator's role, chapters or revenue share (author only)
+ */
+export const updateCollaborator = async (
+  bookId: string,
+  collaboratorId: string,
+  data: CollaboratorInput
+): Promise<Collaborator> => {
+  const response = await api.patch(`/books/${bookId}/collaborators/${collaboratorId}`, data);
+  return response.data.data.collaborator;
+};
+
+/**
+ * Remove a collaborator, or leave the book when it is your own entry
+ */
+export const removeCollaborator = async (bookId: string, collaboratorId: string): Promise<void> => {
+  await api.delete(`/books/${bookId}/collaborators/${collaboratorId}`);
+};
+
+/**
+ * Accept or decline an invitation
+ */
+export const respondToInvitation = async (bookId: string, accept: boolean): Promise<Collaborator> => {
+  const response = await api.post(`/books/${bookId}/collaborators/respond`, { accept });
+  return response.data.data.collaborator;
+};
+
+/**
+ * Books the user is invited to or collaborates on
+ */
+export const getMyCollaborations = async (): Promise<Collaboration[]> => {
+  const response = await api.get('/books/collaborations');
+  return response.data.data.collaborations;
+};
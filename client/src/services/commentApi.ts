@@ -0,0 +1,134 @@
+/**
+ * Comment API Service
+ * Comment threads and suggested edits on chapter drafts
+ */
+
+import { api } from './api';
+
+export type CommentThreadKind = 'comment' | 'suggestion';
+export type SuggestionType = 'insert' | 'delete' | 'replace';
+export type CommentThreadStatus = 'open' | 'resolved' | 'accepted' | 'rejected';
+
+export interface ThreadUser {
+  _id: string;
+  name?: string;
+  profile?: { avatar?: string };
+}
+
+export interface ThreadMessage {
+  _id: string;
+  author: ThreadUser;
+  body: string;
+  createdAt: string;
+}
+
+export interface CommentThread {
+  _id: string;
+  chapter: string;
+  author: ThreadUser;
+  kind: CommentThreadKind;
+  anchor: {
+    startOffset: number;
+    endOffset: number;
+    exact: string;
+    prefix: string;
+    suffix: string;
+  };
+  suggestion?: {
+    type: SuggestionType;
+    text: string;
+  };
+  messages: ThreadMessage[];
+  status: CommentThreadStatus;
+  resolvedAt?: string;
+  isOrphaned: boolean;
+  createdAt: string;
+}
+
+export interface CreateThreadInput {
+  kind: CommentThreadKind;
+  startOffset: number;
+  endOffset: number;
+  exact: string;
+  body?: string;
+  text?: string; // Suggested text; empty suggests a deletion
+}
+
+const threadsUrl = (bookId: string, chapterId: string) => `/books/${bookId}/chapters/${chapterId}/comments`;
+
+/**
+ * List a chapter's threads, oldest first
+ */
+export const getCommentThreads = async (bookId: string, chapterId: string): Promise<CommentThread[]> => {
+  const response = await api.get(threadsUrl(bookId, chapterId));
+  return response.data.data.threads;
+};
+
+/**
+ * Comment on a passage or suggest an edit
+ */
+export const createCommentThread = async (
+  bookId: string,
+  chapterId: string,
+  input: CreateThreadInput
+): Promise<CommentThread> => {
+  const response = await api.post(threadsUrl(bookId, chapterId), input);
+  return response.data.data.thread;
+};
+
+/**
+ * Reply to a thread
+ */
+export const replyToCommentThread = async (
+  bookId: string,
+  chapterId: string,
+  threadId: string,
+  body: string
+): Promise<CommentThread> => {
+  const response = await api.post(`${threadsUrl(bookId, chapterId)}/${threadId}/replies`, { body });
+  return response.data.data.thread;
+};
+
+/**
+ * Resolve or reopen a comment
+ */
+export const setCommentThreadResolved = async (
+  bookId: string,
+  chapterId: string,
+  threadId: string,
+  resolved: boolean
+): Promise<CommentThread> => {
+  const response = await api.patch(`${threadsUrl(bookId, chapterId)}/${threadId}`, { resolved });
+  return response.data.data.thread;
+};
+
+/**
+ * Apply a suggested edit; returns the chapter's new content
+ */
+export const acceptSuggestion = async (
+  bookId: string,
+  chapterId: string,
+  threadId: string
+): Promise<{ thread: CommentThread; chapter: { _id: string; content: string; wordCount: number; version: number } }> => {
+  const response = await api.post(`${threadsUrl(bookId, chapterId)}/${threadId}/accept`);
+  return response.data.data;
+};
+
+/**
+ * Reject (or withdraw) a suggested edit
+ */
+export const rejectSuggestion = async (
+  bookId: string,
+  chapterId: string,
+  threadId: string
+): Promise<CommentThread> => {
+  const response = await api.post(`${threadsUrl(bookId, chapterId)}/${threadId}/reject`);
+  return response.data.data.thread;
+};
+
+/**
+ * Delete a thread
+ */
+export const deleteCommentThread = async (bookId: string, chapterId: string, threadId: string): Promise<void> => {
+  await api.delete(`${threadsUrl(bookId, chapterId)}/${threadId}`);
+};
@@ -0,0 +1,108 @@
+/**
+ * Coupon API Service
+ * Author discount codes, scheduled sale prices and buyer price quotes
+ */
+
+import { api } from './api';
+
+export type CouponDiscountType = 'percent' | 'fixed';
+
+export interface Coupon {
+  _id: string;
+  code: string;
+  discountType: CouponDiscountType;
+  value: number;
+  books: Array<{ _id: string; title: string }>; // Empty = every book
+  maxRedemptions?: number;
+  redemptions: number;
+  revenue: number;
+  discountGiven: number;
+  startsAt?: string;
+  expiresAt?: string;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface CouponInput {
+  code?: string;
+  discountType?: CouponDiscountType;
+  value?: number;
+  books?: string[];
+  maxRedemptions?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  active?: boolean;
+}
+
+export interface BookSale {
+  price: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface PromotionCoupon {
+  id: string;
+  code: string;
+  discountType: CouponDiscountType;
+  value: number;
+  catalogueWide: boolean;
+  maxRedemptions?: number;
+  redemptions: number;
+  revenue: number;
+  discountGiven: number;
+  startsAt?: string;
+  expiresAt?: string;
+  active: boolean;
+}
+
+// Returned with a book's pricing strategy
+export interface BookPromotions {
+  sale?: BookSale & { active: boolean };
+  coupons: PromotionCoupon[];
+}
+
+export interface PriceQuote {
+  listPrice: number;
+  price: number;
+  sale?: { price: number; endsAt: string };
+  coupon?: { id: string; code: string; discount: number };
+}
+
+export const getMyCoupons = async (): Promise<Coupon[]> => {
+  const response = await api.get('/user/coupons');
+  return response.data.data.coupons;
+};
+
+export const createCoupon = async (input: CouponInput): Promise<Coupon> => {
+  const response = await api.post('/user/coupons', input);
+  return response.data.data.coupon;
+};
+
+export const updateCoupon = async (couponId: string, input: CouponInput): Promise<Coupon> => {
+  const response = await api.put(`/user/coupons/${couponId}`, input);
+  return response.data.data.coupon;
+};
+
+/**
+ * Returns false when the coupon was used and got switched off instead
+ */
+export const deleteCoupon = async (couponId: string): Promise<boolean> => {
+  const response = await api.delete(`/user/coupons/${couponId}`);
+  return response.data.data.deleted;
+};
+
+export const scheduleSale = async (bookId: string, sale: BookSale): Promise<BookSale> => {
+  const response = await api.put(`/books/${bookId}/sale`, sale);
+  return response.data.data.sale;
+};
+
+export const cancelSale = async (bookId: string): Promise<void> => {
+  await api.delete(`/books/${bookId}/sale`);
+};
+
+export const getPriceQuote = async (bookId: string, coupon?: string): Promise<PriceQuote> => {
+  const response = await api.get(`/book-purchases/${bookId}/quote`, {
+    params: coupon ? { coupon } : undefined,
+  });
+  return response.data.data.quote;
+};
@@ -0,0 +1,100 @@
+/**
+ * Gift API Service
+ * Book gifts, gift cards, claim links and the gift card balance
+ */
+
+import { api } from './api';
+
+export type GiftType = 'book' | 'gift_card';
+
+export type GiftStatus = 'scheduled' | 'delivered' | 'claimed' | 'revoked';
+
+export interface GiftRecipient {
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+  deliverAt?: string; // ISO date; delivered right away when omitted
+}
+
+export interface GiftSummary {
+  _id: string;
+  type: GiftType;
+  status: GiftStatus;
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+  book?: { _id: string; title: string };
+  sender?: { _id: string; name: string };
+  amount: number;
+  deliverAt: string;
+  deliveredAt?: string;
+  claimedAt?: string;
+  creditedAsBalance?: boolean;
+}
+
+export interface GiftPreview {
+  type: GiftType;
+  senderName: string;
+  recipientName?: string;
+  message?: string;
+  book?: { _id: string; title: string; authorName: string; coverImageUrl?: string };
+  amount?: number;
+  claimed: boolean;
+}
+
+export interface ClaimResult {
+  type: GiftType;
+  bookId?: string;
+  balanceCredited: number;
+}
+
+export interface GiftOrder {
+  giftId: string;
+  orderId: string;
+  approvalUrl?: string;
+  mockMode?: boolean;
+  paidWithBalance?: boolean;
+}
+
+export const createBookGiftOrder = async (
+  bookId: string,
+  recipient: GiftRecipient,
+  options: { couponCode?: string; useGiftBalance?: boolean } = {}
+): Promise<GiftOrder> => {
+  const response = await api.post(`/book-purchases/${bookId}/gift`, { ...recipient, ...options });
+  return response.data.data;
+};
+
+export const createGiftCardOrder = async (amount: number, recipient: GiftRecipient): Promise<GiftOrder> => {
+  const response = await api.post('/book-purchases/gift-cards/create-order', { amount, ...recipient });
+  return response.data.data;
+};
+
+export const captureGiftOrder = async (orderId: string): Promise<void> => {
+  await api.post('/book-purchases/capture', { orderId });
+};
+
+export const previewGift = async (token: string): Promise<GiftPreview> => {
+  const response = await api.get(`/gifts/claim/${encodeURIComponent(token)}`);
+  return response.data.data.gift;
+};
+
+export const claimGift = async (token: string): Promise<ClaimResult> => {
+  const response = await api.post('/gifts/claim', { token });
+  return response.data.data.claim;
+};
+
+export const getSentGifts = async (): Promise<GiftSummary[]> => {
+  const response = await api.get('/gifts/sent');
+  return response.data.data.gifts;
+};
+
+export const getReceivedGifts = async (): Promise<GiftSummary[]> => {
+  const response = await api.get('/gifts/received');
+  return response.data.data.gifts;
+};
+
+export const getGiftCardBalance = async (): Promise<number> => {
+  const response = await api.get('/gifts/balance');
+  return response.data.data.balance;
+};
@@ -0,0 +1,50 @@
+/**
+ * Manuscript API Service
+ * Manuscript import with chapter detection preview
+ */
+
+import { api } from './api';
+
+export interface ImportedChapter {
+  title: string;
+  content: string;
+  wordCount: number;
+}
+
+export interface ManuscriptPreview {
+  fileName: string;
+  format: 'docx' | 'pdf' | 'md' | 'odt' | 'html' | 'epub' | 'txt';
+  language: 'he' | 'en';
+  chapters: ImportedChapter[];
+  chaptersDetected: boolean;
+  wordCount: number;
+}
+
+/**
+ * Parse a manuscript file and return the detected chapters (nothing is saved)
+ */
+export const previewManuscript = async (file: File): Promise<ManuscriptPreview> => {
+  const formData = new FormData();
+  formData.append('manuscript', file);
+
+  const response = await api.post('/books/upload/preview', formData, {
+    headers: {
+      'Content-Type': 'multipart/form-data',
+    },
+  });
+  return response.data.data;
+};
+
+/**
+ * Create a book from previewed chapters
+ */
+export const importManuscript = async (data: {
+  title: string;
+  genre: string;
+  language: string;
+  fileName: string;
+  chapters: Array<{ title: string; content: string }>;
+}): Promise<{ id: string; title: string }> => {
+  const response = await api.post('/books/import', data);
+  return response.data.data.book;
+};
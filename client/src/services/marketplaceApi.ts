@@ -0,0 +1,66 @@
+/**
+ * Marketplace API Service
+ * Full-text book search with facet counts and cursor pagination
+ */
+
+import api from './api';
+
+export type BookSearchSort = 'relevance' | 'newest' | 'popular' | 'rating' | 'price-asc' | 'price-desc';
+
+export type PriceRange = 'free' | 'under-5' | '5-10' | '10-20' | 'over-20';
+
+export interface BookSearchParams {
+  q?: string;
+  genres?: string[];
+  category?: string;
+  languages?: string[];
+  ageRatings?: string[];
+  priceRanges?: PriceRange[];
+  minRating?: number;
+  sort?: BookSearchSort;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface BookSearchFacets {
+  genres: FacetCount[];
+  languages: FacetCount[];
+  ageRatings: FacetCount[];
+  priceRanges: FacetCount[];
+  ratings: FacetCount[]; // Cumulative: value "4" counts books rated 4 stars and up
+}
+
+export interface BookSearchResponse<T> {
+  books: T[];
+  facets: BookSearchFacets;
+  pagination: {
+    total: number;
+    nextCursor: string | null;
+    hasMore: boolean;
+  };
+}
+
+/**
+ * Search published books. Multi-value filters are sent comma separated.
+ */
+export const searchBooks = async <T = any>(params: BookSearchParams): Promise<BookSearchResponse<T>> => {
+  const query: Record<string, string | number> = {};
+  if (params.q?.trim()) query.q = params.q.trim();
+  if (params.genres?.length) query.genre = params.genres.join(',');
+  if (params.category) query.category = params.category;
+  if (params.languages?.length) query.language = params.languages.join(',');
+  if (params.ageRatings?.length) query.ageRating = params.ageRatings.join(',');
+  if (params.priceRanges?.length) query.price = params.priceRanges.join(',');
+  if (params.minRating) query.minRating = params.minRating;
+  if (params.sort) query.sort = params.sort;
+  if (params.limit) query.limit = params.limit;
+  if (params.cursor) query.cursor = params.cursor;
+
+  const response = await api.get('/books/search', { params: query });
+  return response.data.data;
+};
@@ -111,6 +111,13 @@ export const getMessages = async (
   return response.data.data;
 };
 
+/**
+ * Mark a conversation as read
+ */
+export const markConversationRead = async (conversationId: string): Promise<void> => {
+  await api.post(`/messages/conversation/${conversationId}/read`);
+};
+
 /**
  * Get total unread message count
  */
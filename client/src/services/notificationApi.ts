@@ -18,7 +18,11 @@ export type NotificationType =
   | 'quality_score'
   | 'mention'
   | 'system'
-  | 'promotion';
+  | 'promotion'
+  | 'collaboration'
+  | 'comment_thread'
+  | 'beta_read'
+  | 'writing_goal';
 
 export interface Notification {
   _id: string;
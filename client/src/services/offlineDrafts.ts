@@ -0,0 +1,167 @@
+/**
+ * Offline Drafts Service
+ * Unsaved chapter edits kept in IndexedDB, so nothing is lost when the
+ * connection drops or the tab closes before a save. Each draft records
+ * the server version it was based on; syncChapterDrafts replays them
+ * once the server is reachable and returns the chapters that changed on
+ * the server meanwhile and need the author's decision.
+ */
+
+import { api } from './api';
+import { mergeChapter, buildMergedHtml, countWords } from '../utils/chapterMerge';
+
+const DB_NAME = 'mestory-offline';
+const DB_VERSION = 1;
+const STORE = 'chapterDrafts';
+
+export interface ChapterDraft {
+  key: string; // `${bookId}:${chapterId or localId}`
+  bookId: string;
+  chapterId?: string; // Chapters not yet saved have only a localId
+  localId?: string;
+  title: string;
+  content: string;
+  wordCount: number;
+  order: number;
+  baseVersion?: number; // Server version the edit started from
+  baseTitle: string; // Server title and content at that version, for merging
+  baseContent: string;
+  updatedAt: number;
+}
+
+export interface ServerChapter {
+  _id?: string;
+  title: string;
+  content: string;
+  order: number;
+  wordCount: number;
+  version?: number;
+}
+
+// A draft the server copy has moved on from, with edits on both sides that overlap
+export interface ChapterSyncConflict {
+  draft: ChapterDraft;
+  server: ServerChapter;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: ChapterSyncConflict[];
+  book?: any; // The book as saved, when anything was synced
+}
+
+export const draftKey = (bookId: string, chapterKey: string) => `${bookId}:${chapterKey}`;
+
+// ============================================
+// STORAGE
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('bookId', 'bookId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const saveChapterDraft = async (draft: ChapterDraft): Promise<void> => {
+  await withStore('readwrite', (store) => store.put(draft));
+};
+
+export const getChapterDrafts = async (bookId: string): Promise<ChapterDraft[]> => {
+  const drafts = await withStore<ChapterDraft[]>('readonly', (store) => store.index('bookId').getAll(bookId));
+  return drafts.sort((a, b) => a.updatedAt - b.updatedAt);
+};
+
+export const deleteChapterDraft = async (key: string): Promise<void> => {
+  await withStore('readwrite', (store) => store.delete(key));
+};
+
+// ============================================
+// SYNC
+// ============================================
+
+/**
+ * Replay a book's drafts against the latest server copy. Drafts whose
+ * chapter is unchanged on the server are applied; when both sides
+ * changed, edits to different paragraphs merge and overlapping ones are
+ * returned as conflicts (their drafts are kept).
+ */
+export const syncChapterDrafts = async (bookId: string, retried = false): Promise<SyncResult> => {
+  const drafts = await getChapterDrafts(bookId);
+  if (drafts.length === 0) return { synced: 0, conflicts: [] };
+
+  const response = await api.get(`/books/${bookId}`);
+  const chapters: ServerChapter[] = [...(response.data.data.book.chapters || [])];
+  const conflicts: ChapterSyncConflict[] = [];
+  const applied: ChapterDraft[] = [];
+
+  for (const draft of drafts) {
+    const index = draft.chapterId ? chapters.findIndex((chapter) => chapter._id === draft.chapterId) : -1;
+    const server = index >= 0 ? chapters[index] : undefined;
+
+    // New chapters, and chapters deleted on the server meanwhile, are added back
+    if (!server) {
+      chapters.push({ title: draft.title, content: draft.content, order: chapters.length, wordCount: draft.wordCount });
+      applied.push(draft);
+      continue;
+    }
+
+    if (server.content === draft.content && server.title === draft.title) {
+      await deleteChapterDraft(draft.key);
+      continue;
+    }
+
+    let content = draft.content;
+    let wordCount = draft.wordCount;
+    if (server.version !== draft.baseVersion) {
+      const merged = mergeChapter(draft.baseContent, draft.content, server.content);
+      if (merged.conflicts > 0) {
+        conflicts.push({ draft, server });
+        continue;
+      }
+      content = buildMergedHtml(merged, []);
+      wordCount = countWords(content);
+    }
+
+    // A title renamed only on the server stays renamed
+    const title = draft.title !== draft.baseTitle ? draft.title : server.title;
+    chapters[index] = { ...server, title, content, wordCount };
+    applied.push(draft);
+  }
+
+  if (applied.length === 0) return { synced: 0, conflicts };
+
+  try {
+    const saved = await api.put(`/books/${bookId}`, { chapters });
+    await Promise.all(applied.map((draft) => deleteChapterDraft(draft.key)));
+    return { synced: applied.length, conflicts, book: saved.data.data.book };
+  } catch (error: any) {
+    // Someone saved between our read and write: start over from their copy
+    if (error.response?.status === 409 && !retried) {
+      return syncChapterDrafts(bookId, true);
+    }
+    throw error;
+  }
+};
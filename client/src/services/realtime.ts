@@ -0,0 +1,170 @@
+/**
+ * Realtime Service
+ * WebSocket connection to the server's realtime gateway. Delivers new
+ * messages, typing indicators, read receipts and notifications.
+ *
+ * One shared connection per tab; components subscribe through the
+ * useRealtime hooks.
+ */
+
+import { API_URL, refreshAccessToken } from './api';
+import type { Message } from './messagingApi';
+import type { Notification } from './notificationApi';
+
+export interface RealtimeEvents {
+  ready: { userId: string };
+  'message:new': { conversationId: string; message: Message };
+  'message:read': { conversationId: string; readerId: string; readAt: string };
+  typing: { conversationId: string; userId: string; isTyping: boolean };
+  'notification:new': { notification: Notification };
+}
+
+export type RealtimeEventType = keyof RealtimeEvents;
+
+type Handler<E extends RealtimeEventType> = (data: RealtimeEvents[E]) => void;
+type StatusListener = (connected: boolean) => void;
+
+// Must match the server's close codes
+const CLOSE_AUTH_FAILED = 4001;
+const CLOSE_SESSION_REVOKED = 4003;
+
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+// ws(s)://host/api/realtime, derived from the REST base URL
+const REALTIME_URL =
+  import.meta.env.VITE_REALTIME_URL || `${API_URL.replace(/^http/, 'ws').replace(/\/$/, '')}/realtime`;
+
+let socket: WebSocket | null = null;
+let connected = false;
+let shouldConnect = false;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const handlers = new Map<RealtimeEventType, Set<Handler<any>>>();
+const statusListeners = new Set<StatusListener>();
+
+function setConnected(value: boolean) {
+  if (connected === value) return;
+  connected = value;
+  statusListeners.forEach((listener) => listener(value));
+}
+
+function scheduleReconnect() {
+  if (!shouldConnect || reconnectTimer) return;
+
+  // Exponential backoff: 1s, 2s, 4s ... up to 30s
+  const delay = Math.min(1000 * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    openSocket();
+  }, delay);
+}
+
+function openSocket() {
+  const token = localStorage.getItem('token');
+  if (!shouldConnect || !token || socket) return;
+
+  const ws = new WebSocket(REALTIME_URL);
+  socket = ws;
+
+  ws.onopen = () => {
+    ws.send(JSON.stringify({ type: 'auth', data: { token } }));
+  };
+
+  ws.onmessage = (event) => {
+    let frame: { type: RealtimeEventType; data: any };
+    try {
+      frame = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+
+    if (frame.type === 'ready') {
+      reconnectAttempts = 0;
+      setConnected(true);
+    }
+
+    handlers.get(frame.type)?.forEach((handler) => handler(frame.data));
+  };
+
+  ws.onclose = async (event) => {
+    socket = null;
+    setConnected(false);
+
+    if (event.code === CLOSE_SESSION_REVOKED) {
+      // Signed out on another device; the next API call handles the logout
+      return;
+    }
+
+    if (event.code === CLOSE_AUTH_FAILED && shouldConnect) {
+      try {
+        await refreshAccessToken();
+        reconnectAttempts = 0;
+      } catch {
+        return;
+      }
+    }
+
+    scheduleReconnect();
+  };
+}
+
+/**
+ * Open the connection (after login). Safe to call repeatedly.
+ */
+export function connectRealtime(): void {
+  shouldConnect = true;
+  openSocket();
+}
+
+/**
+ * Close the connection and stop reconnecting (logout)
+ */
+export function disconnectRealtime(): void {
+  shouldConnect = false;
+  reconnectAttempts = 0;
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
+  socket?.close();
+  socket = null;
+  setConnected(false);
+}
+
+/**
+ * Subscribe to a server event. Returns an unsubscribe function.
+ */
+export function onRealtimeEvent<E extends RealtimeEventType>(type: E, handler: Handler<E>): () => void {
+  if (!handlers.has(type)) {
+    handlers.set(type, new Set());
+  }
+  handlers.get(type)!.add(handler);
+  return () => {
+    handlers.get(type)?.delete(handler);
+  };
+}
+
+/**
+ * Subscribe to connection status changes. Returns an unsubscribe function.
+ */
+export function onRealtimeStatus(listener: StatusListener): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+export function isRealtimeConnected(): boolean {
+  return connected;
+}
+
+/**
+ * Tell the other participants whether the user is typing
+ */
+export function sendTyping(conversationId: string, isTyping: boolean): void {
+  if (socket && connected) {
+    socket.send(JSON.stringify({ type: 'typing', data: { conversationId, isTyping } }));
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Revision API Service
+ * Chapter revision history, diff and restore
+ */
+
+import { api } from './api';
+
+export interface ChapterRevisionSummary {
+  id: string;
+  title: string;
+  wordCount: number;
+  source: 'save' | 'restore' | 'suggestion'; // 'suggestion' = an editor's proposed version
+  restoredFrom?: string;
+  authorName?: string;
+  createdAt: string;
+}
+
+export interface ChapterRevision extends ChapterRevisionSummary {
+  content: string;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface RevisionDiff {
+  from: string;
+  to: string;
+  titleChanged: boolean;
+  segments: DiffSegment[];
+  stats: {
+    wordsAdded: number;
+    wordsRemoved: number;
+  };
+}
+
+/**
+ * List revisions of a chapter (newest first)
+ */
+export const getChapterRevisions = async (
+  bookId: string,
+  chapterId: string
+): Promise<{ revisions: ChapterRevisionSummary[]; retentionLimit: number; chapterExists: boolean }> => {
+  const response = await api.get(`/books/${bookId}/chapters/${chapterId}/revisions`);
+  return response.data.data;
+};
+
+/**
+ * Get a single revision with its content
+ */
+export const getChapterRevision = async (
+  bookId: string,
+  chapterId: string,
+  revisionId: string
+): Promise<ChapterRevision> => {
+  const response = await api.get(`/books/${bookId}/chapters/${chapterId}/revisions/${revisionId}`);
+  return response.data.data.revision;
+};
+
+/**
+ * Word-level diff between two revisions ('current' = the chapter as saved now)
+ */
+export const diffChapterRevisions = async (
+  bookId: string,
+  chapterId: string,
+  from: string,
+  to: string = 'current'
+): Promise<RevisionDiff> => {
+  const response = await api.get(`/books/${bookId}/chapters/${chapterId}/revisions/diff`, {
+    params: { from, to },
+  });
+  return response.data.data;
+};
+
+/**
+ * Restore a chapter to an earlier revision
+ */
+export const restoreChapterRevision = async (
+  bookId: string,
+  chapterId: string,
+  revisionId: string
+) => {
+  const response = await api.post(
+    `/books/${bookId}/chapters/${chapterId}/revisions/${revisionId}/restore`
+  );
+  return response.data.data;
+};
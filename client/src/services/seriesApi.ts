@@ -0,0 +1,124 @@
+/**
+ * Series API Service
+ * Series pages, "next in series", bundle orders and an author's series
+ */
+
+import { api } from './api';
+
+export interface SeriesBook {
+  _id: string;
+  title: string;
+  description?: string;
+  genre: string;
+  coverImageUrl?: string;
+  position: number;
+  price: number;
+  salePrice?: number;
+  isFree: boolean;
+  owned?: boolean; // Only when signed in
+}
+
+export interface BundleQuote {
+  books: Array<{ bookId: string; title: string; listPrice: number; amount: number }>;
+  separatePrice: number;
+  price: number;
+  savings: number;
+}
+
+export interface SeriesSummary {
+  _id: string;
+  title: string;
+  description?: string;
+  coverImageUrl?: string;
+  author: { _id: string; name: string };
+  bookCount: number;
+  bundlePrice?: number;
+}
+
+export interface SeriesDetails extends SeriesSummary {
+  books: SeriesBook[];
+  listTotal: number;
+  bundle?: BundleQuote; // Priced for the signed-in reader
+  bundleUnavailable?: string;
+}
+
+export interface NextInSeries {
+  series: { _id: string; title: string };
+  position: number;
+  total: number;
+  next?: SeriesBook;
+}
+
+// An author's own series, books in order with drafts included
+export interface AuthorSeries {
+  _id: string;
+  title: string;
+  description?: string;
+  coverImageUrl?: string;
+  books: Array<{
+    _id: string;
+    title: string;
+    publishingStatus: { status: string; price: number; isFree: boolean };
+  }>;
+  bundlePrice?: number;
+}
+
+export interface SeriesInput {
+  title?: string;
+  description?: string | null;
+  coverImageUrl?: string | null;
+  books?: string[];
+  bundlePrice?: number | null;
+}
+
+export interface BundleOrder {
+  orderId: string;
+  approvalUrl?: string;
+  mockMode?: boolean;
+}
+
+export const getPublishedSeries = async (limit?: number): Promise<SeriesSummary[]> => {
+  const response = await api.get('/series', { params: limit ? { limit } : undefined });
+  return response.data.data.series;
+};
+
+export const getSeries = async (seriesId: string): Promise<SeriesDetails> => {
+  const response = await api.get(`/series/${seriesId}`);
+  return response.data.data.series;
+};
+
+/**
+ * Null when the book is not in a series
+ */
+export const getNextInSeries = async (bookId: string): Promise<NextInSeries | null> => {
+  const response = await api.get(`/series/by-book/${bookId}/next`);
+  return response.data.data.next;
+};
+
+export const getMySeries = async (): Promise<AuthorSeries[]> => {
+  const response = await api.get('/series/mine');
+  return response.data.data.series;
+};
+
+export const createSeries = async (input: SeriesInput): Promise<AuthorSeries> => {
+  const response = await api.post('/series', input);
+  return response.data.data.series;
+};
+
+export const updateSeries = async (seriesId: string, input: SeriesInput): Promise<AuthorSeries> => {
+  const response = await api.put(`/series/${seriesId}`, input);
+  return response.data.data.series;
+};
+
+export const deleteSeries = async (seriesId: string): Promise<void> => {
+  await api.delete(`/series/${seriesId}`);
+};
+
+export const createBundleOrder = async (seriesId: string): Promise<BundleOrder> => {
+  const response = await api.post(`/book-purchases/series/${seriesId}/create-order`);
+  return response.data.data;
+};
+
+export const captureBundleOrder = async (orderId: string): Promise<void> => {
+  await api.post('/book-purchases/capture', { orderId });
+};
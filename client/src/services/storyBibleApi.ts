@@ -0,0 +1,64 @@
+/**
+ * Story Bible API Service
+ * A book's worldbuilding: locations, items, factions, glossary terms
+ * and timeline events, with the chapters that mention them
+ */
+
+import { api } from './api';
+
+export type StoryBibleEntryType = 'location' | 'item' | 'faction' | 'term' | 'event';
+
+export const STORY_BIBLE_ENTRY_TYPES: StoryBibleEntryType[] = ['location', 'item', 'faction', 'term', 'event'];
+
+export interface StoryBibleMention {
+  chapterId: string;
+  title: string;
+  count: number;
+}
+
+export interface StoryBibleEntry {
+  id: string;
+  type: StoryBibleEntryType;
+  name: string;
+  aliases: string[];
+  description: string;
+  chapters: string[]; // Chapters the author linked the entry to
+  inWorldDate?: string;
+  order?: number;
+  mentions: StoryBibleMention[]; // Chapters whose text names the entry
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface StoryBibleEntryInput {
+  type?: StoryBibleEntryType;
+  name?: string;
+  aliases?: string[];
+  description?: string;
+  chapters?: string[];
+  inWorldDate?: string;
+  order?: number;
+}
+
+export const getStoryBible = async (bookId: string): Promise<StoryBibleEntry[]> => {
+  const response = await api.get(`/books/${bookId}/story-bible`);
+  return response.data.data.entries;
+};
+
+export const createStoryBibleEntry = async (bookId: string, input: StoryBibleEntryInput): Promise<StoryBibleEntry> => {
+  const response = await api.post(`/books/${bookId}/story-bible`, input);
+  return response.data.data.entry;
+};
+
+export const updateStoryBibleEntry = async (
+  bookId: string,
+  entryId: string,
+  input: StoryBibleEntryInput
+): Promise<StoryBibleEntry> => {
+  const response = await api.patch(`/books/${bookId}/story-bible/${entryId}`, input);
+  return response.data.data.entry;
+};
+
+export const deleteStoryBibleEntry = async (bookId: string, entryId: string): Promise<void> => {
+  await api.delete(`/books/${bookId}/story-bible/${entryId}`);
+};
@@ -10,6 +10,7 @@ import {
   TemplateResponse,
   ApplyTemplateResponse,
 } from '../types/templates';
+import { refreshAccessToken } from './api';
 
 const API_BASE = import.meta.env.VITE_API_URL ||
   (import.meta.env.PROD ? 'https://me-story-server-7wdx.vercel.app/api' : 'http://localhost:5001/api');
@@ -17,7 +18,8 @@ const API_BASE = import.meta.env.VITE_API_URL ||
 // Helper function for API calls
 async function apiCall<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  retried = false
 ): Promise<T> {
   const token = localStorage.getItem('token');
 
@@ -30,6 +32,14 @@ async function apiCall<T>(
     },
   });
 
+  // Access token expired - refresh once and retry
+  if (response.status === 401 && token && !retried) {
+    const refreshed = await refreshAccessToken().then(() => true, () => false);
+    if (refreshed) {
+      return apiCall<T>(endpoint, options, true);
+    }
+  }
+
   const data = await response.json();
 
   if (!response.ok) {
@@ -62,7 +62,9 @@ interface StartInterviewResponse {
   firstQuestion: string;
   currentTopic: string;
   progress: number;
+  canCompleteEarly?: boolean;
   state: InterviewState;
+  message?: string; // Set when an unfinished interview was resumed
 }
 
 interface ProcessResponseResult {
@@ -157,6 +159,7 @@ export async function getInterviewState(
   interviewId: string
 ): Promise<{
   state: InterviewState;
+  currentQuestion?: string;
   progress: number;
   canCompleteEarly: boolean;
 }> {
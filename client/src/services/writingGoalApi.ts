@@ -0,0 +1,91 @@
+/**
+ * Writing Goal API Service
+ * Daily word goals, book deadlines, streaks and the writing record
+ */
+
+import { api } from './api';
+
+export type BookGoalStatus = 'done' | 'overdue' | 'on_track' | 'behind';
+
+export interface WritingGoalSettings {
+  dailyWords: number; // 0 = no daily goal
+  timezone: string;
+  reminder: {
+    enabled: boolean;
+    hour: number;
+  };
+}
+
+export interface WritingDay {
+  date: string; // 'YYYY-MM-DD'
+  words: number;
+  minutes: number;
+  goalMet: boolean;
+}
+
+export interface BookGoal {
+  bookId: string;
+  title: string;
+  targetWords: number;
+  wordsWritten: number;
+  deadline: string;
+  daysLeft: number;
+  wordsPerDay: number; // Needed from today to make the deadline
+  status: BookGoalStatus;
+}
+
+export interface WritingSession {
+  id: string;
+  book: { _id: string; title: string } | null;
+  startedAt: string;
+  lastSaveAt: string;
+  wordsAdded: number;
+  minutes: number;
+}
+
+export interface WritingDashboard {
+  settings: WritingGoalSettings;
+  today: {
+    date: string;
+    words: number;
+    minutes: number;
+    sessions: number;
+    goalMet: boolean;
+  };
+  streak: {
+    current: number;
+    longest: number;
+  };
+  history: WritingDay[];
+  bookGoals: BookGoal[];
+  recentSessions: WritingSession[];
+}
+
+export interface WritingGoalSettingsInput {
+  dailyWords?: number;
+  timezone?: string;
+  reminder?: Partial<WritingGoalSettings['reminder']>;
+}
+
+export const getWritingGoals = async (): Promise<WritingDashboard> => {
+  const response = await api.get('/user/writing-goals');
+  return response.data.data.goals;
+};
+
+export const updateWritingGoals = async (input: WritingGoalSettingsInput): Promise<WritingDashboard> => {
+  const response = await api.put('/user/writing-goals', input);
+  return response.data.data.goals;
+};
+
+export const setBookGoal = async (
+  bookId: string,
+  input: { targetWords?: number; deadline: string }
+): Promise<WritingDashboard> => {
+  const response = await api.put(`/user/writing-goals/books/${bookId}`, input);
+  return response.data.data.goals;
+};
+
+export const removeBookGoal = async (bookId: string): Promise<WritingDashboard> => {
+  const response = await api.delete(`/user/writing-goals/books/${bookId}`);
+  return response.data.data.goals;
+};
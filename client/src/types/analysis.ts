@@ -10,6 +10,7 @@ export interface EnhanceContext {
   genre?: string;
   bookId?: string;
   bookTitle?: string;
+  chapterId?: string;
   chapterTitle?: string;
   surroundingText?: string;
 }
@@ -135,4 +136,4 @@ export interface ScoreChange {
 }
 
 // Analysis Panel Tab Types
-export type AnalysisTab = 'copilot' | 'plot' | 'analysis';
+export type AnalysisTab = 'copilot' | 'plot' | 'analysis' | 'comments' | 'bible';
@@ -0,0 +1,139 @@
+/**
+ * Three-way merge of chapter HTML
+ * Merges two edits of the same chapter against the version both started
+ * from, one top-level block (paragraph, heading, list...) at a time.
+ * Blocks changed on one side only are taken from that side; blocks
+ * changed differently on both sides are conflicts for the author to
+ * settle.
+ */
+
+export type MergeChunk =
+  | { type: 'stable'; blocks: string[] }
+  | { type: 'conflict'; base: string[]; mine: string[]; theirs: string[] };
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+}
+
+/**
+ * Split chapter HTML into its top-level blocks
+ */
+export function splitBlocks(html: string): string[] {
+  const body = new DOMParser().parseFromString(html || '', 'text/html').body;
+  return Array.from(body.childNodes)
+    .map((node) => (node.nodeType === Node.ELEMENT_NODE ? (node as Element).outerHTML : node.textContent || ''))
+    .filter((block) => block.trim() !== '');
+}
+
+/**
+ * Words in chapter HTML, counted as the editor counts them
+ */
+export function countWords(html: string): number {
+  return splitBlocks(html)
+    .map((block) => new DOMParser().parseFromString(block, 'text/html').body.textContent || '')
+    .join(' ')
+    .split(/\s+/)
+    .filter(Boolean).length;
+}
+
+/**
+ * Longest common subsequence of two block lists, as a map from indexes
+ * in a to the matching indexes in b
+ */
+function matchBlocks(a: string[], b: string[]): Map<number, number> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Map<number, number>();
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches.set(i, j);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+function sameBlocks(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((block, index) => block === b[index]);
+}
+
+/**
+ * Merge mine and theirs, both edited from base
+ */
+export function mergeChapter(baseHtml: string, mineHtml: string, theirsHtml: string): MergeResult {
+  const base = splitBlocks(baseHtml);
+  const mine = splitBlocks(mineHtml);
+  const theirs = splitBlocks(theirsHtml);
+  const mineMatches = matchBlocks(base, mine);
+  const theirsMatches = matchBlocks(base, theirs);
+
+  const chunks: MergeChunk[] = [];
+  let conflicts = 0;
+
+  const pushStable = (blocks: string[]) => {
+    if (blocks.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'stable') last.blocks.push(...blocks);
+    else chunks.push({ type: 'stable', blocks: [...blocks] });
+  };
+
+  // Settle the stretch between two blocks that are unchanged everywhere
+  const resolve = (baseBlocks: string[], mineBlocks: string[], theirsBlocks: string[]) => {
+    if (sameBlocks(mineBlocks, baseBlocks)) pushStable(theirsBlocks);
+    else if (sameBlocks(theirsBlocks, baseBlocks) || sameBlocks(mineBlocks, theirsBlocks)) pushStable(mineBlocks);
+    else {
+      chunks.push({ type: 'conflict', base: baseBlocks, mine: mineBlocks, theirs: theirsBlocks });
+      conflicts++;
+    }
+  };
+
+  let b = 0;
+  let m = 0;
+  let t = 0;
+  for (let anchor = 0; anchor < base.length; anchor++) {
+    if (!mineMatches.has(anchor) || !theirsMatches.has(anchor)) continue;
+
+    const mineAt = mineMatches.get(anchor)!;
+    const theirsAt = theirsMatches.get(anchor)!;
+    resolve(base.slice(b, anchor), mine.slice(m, mineAt), theirs.slice(t, theirsAt));
+    pushStable([base[anchor]]);
+    b = anchor + 1;
+    m = mineAt + 1;
+    t = theirsAt + 1;
+  }
+  resolve(base.slice(b), mine.slice(m), theirs.slice(t));
+
+  return { chunks, conflicts };
+}
+
+/**
+ * The merged HTML, with each conflict settled by the given choice
+ */
+export function buildMergedHtml(result: MergeResult, choices: Array<'mine' | 'theirs' | 'both'>): string {
+  let conflictIndex = 0;
+
+  return result.chunks
+    .flatMap((chunk) => {
+      if (chunk.type === 'stable') return chunk.blocks;
+
+      const choice = choices[conflictIndex++] || 'mine';
+      if (choice === 'theirs') return chunk.theirs;
+      if (choice === 'both') return [...chunk.theirs, ...chunk.mine];
+      return chunk.mine;
+    })
+    .join('');
+}
@@ -0,0 +1,151 @@
+/**
+ * Text anchor helpers for reader annotations
+ * Convert between DOM selections and character offsets into an element's
+ * text content, and paint highlights over rendered chapter HTML.
+ *
+ * Offsets count characters of `element.textContent`, which is what the
+ * server measures against when it strips the chapter's HTML.
+ */
+
+export const ANNOTATION_ATTRIBUTE = 'data-annotation-id';
+
+export interface TextRange {
+  startOffset: number;
+  endOffset: number;
+}
+
+export interface HighlightMark extends TextRange {
+  id: string;
+  color: string;
+  title?: string;
+}
+
+/**
+ * Character offset of a DOM position (node + offset) within root
+ */
+function offsetOf(root: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+/**
+ * Offsets of the current selection within root, or null when the
+ * selection is empty or not entirely inside root
+ */
+export function getSelectionOffsets(root: HTMLElement): TextRange | null {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0 || selection.isCollapsed) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+
+  const startOffset = offsetOf(root, range.startContainer, range.startOffset);
+  const endOffset = offsetOf(root, range.endContainer, range.endOffset);
+
+  return endOffset > startOffset ? { startOffset, endOffset } : null;
+}
+
+function textNodes(root: HTMLElement): Text[] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) {
+    nodes.push(walker.currentNode as Text);
+  }
+  return nodes;
+}
+
+/**
+ * Remove every highlight mark from root, restoring the original text nodes
+ */
+export function clearHighlights(root: HTMLElement): void {
+  root.querySelectorAll(`mark[${ANNOTATION_ATTRIBUTE}]`).forEach((mark) => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    while (mark.firstChild) {
+      parent.insertBefore(mark.firstChild, mark);
+    }
+    parent.removeChild(mark);
+    parent.normalize();
+  });
+}
+
+/**
+ * Wrap a range of root's text in <mark> elements. A range that spans
+ * several elements (paragraphs, emphasis) gets one mark per text node.
+ */
+export function applyHighlight(root: HTMLElement, mark: HighlightMark): void {
+  let position = 0;
+
+  for (const node of textNodes(root)) {
+    const length = node.data.length;
+    const nodeStart = position;
+    position += length;
+
+    if (position <= mark.startOffset) continue;
+    if (nodeStart >= mark.endOffset) break;
+
+    const from = Math.max(mark.startOffset - nodeStart, 0);
+    const to = Math.min(mark.endOffset - nodeStart, length);
+    if (from >= to || !node.data.slice(from, to).trim()) continue;
+
+    // Split off the highlighted part of the text node and wrap it
+    const target = node.splitText(from);
+    target.splitText(to - from);
+
+    const element = document.createElement('mark');
+    element.setAttribute(ANNOTATION_ATTRIBUTE, mark.id);
+    element.style.backgroundColor = mark.color;
+    element.style.color = 'inherit';
+    element.style.borderRadius = '2px';
+    if (mark.title) element.title = mark.title;
+
+    target.parentNode!.insertBefore(element, target);
+    element.appendChild(target);
+  }
+}
+
+/**
+ * Offset of the first character visible in the scroll container, used to
+ * place bookmarks at the reader's current position
+ */
+export function getFirstVisibleOffset(root: HTMLElement, container: HTMLElement): number {
+  const top = container.getBoundingClientRect().top;
+  let position = 0;
+
+  for (const node of textNodes(root)) {
+    const range = document.createRange();
+    range.selectNodeContents(node);
+    if (range.getBoundingClientRect().bottom > top) {
+      return position;
+    }
+    position += node.data.length;
+  }
+
+  return 0;
+}
+
+/**
+ * Scroll the container so the given offset is near the top
+ */
+export function scrollToOffset(root: HTMLElement, container: HTMLElement, offset: number): void {
+  let position = 0;
+
+  for (const node of textNodes(root)) {
+    if (position + node.data.length >= offset) {
+      const range = document.createRange();
+      const local = Math.min(Math.max(offset - position, 0), node.data.length);
+      range.setStart(node, local);
+      range.setEnd(node, local);
+
+      const rect = range.getBoundingClientRect().height
+        ? range.getBoundingClientRect()
+        : node.parentElement!.getBoundingClientRect();
+      const containerTop = container.getBoundingClientRect().top;
+      container.scrollTo({ top: container.scrollTop + rect.top - containerTop - 80, behavior: 'smooth' });
+      return;
+    }
+    position += node.data.length;
+  }
+}
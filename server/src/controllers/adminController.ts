@@ -2,6 +2,12 @@ import { Response } from 'express';
 import { User, UserRole } from '../models/User';
 import { Book } from '../models/Book';
 import { AuthRequest } from '../types';
+import { UNLIMITED_CREDITS, recordBalanceChange } from '../services/creditService';
+import { getLLMUsage } from '../services/llmService';
+import { reconcileEarnings, importLegacyEarnings } from '../services/earningsLedgerService';
+import { listRefundRequests, approveRefund, rejectRefund } from '../services/refundService';
+import { RefundStatus } from '../models/RefundRequest';
+import { AppError } from '../utils/errors';
 
 /**
  * Get platform statistics
@@ -226,6 +232,8 @@ export const updateUser = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
+    const previousCredits = user.credits;
+
     // Update role
     if (role && [UserRole.FREE, UserRole.STANDARD, UserRole.PREMIUM, UserRole.ADMIN].includes(role)) {
       user.role = role;
@@ -236,7 +244,7 @@ export const updateUser = async (req: AuthRequest, res: Response): Promise<void>
       } else if (role === UserRole.STANDARD) {
         user.credits = 500;
       } else if (role === UserRole.PREMIUM) {
-        user.credits = 999999;
+        user.credits = UNLIMITED_CREDITS;
       }
     }
 
@@ -257,6 +265,14 @@ export const updateUser = async (req: AuthRequest, res: Response): Promise<void>
 
     await user.save();
 
+    recordBalanceChange(
+      String(user._id),
+      'adjustment',
+      previousCredits,
+      user.credits,
+      `Updated by admin ${req.user?.email || ''}`.trim()
+    ).catch((err) => console.error('Failed to record credit adjustment:', err));
+
     res.status(200).json({
       success: true,
       message: 'User updated successfully',
@@ -397,3 +413,138 @@ export const unpublishBook = async (req: AuthRequest, res: Response): Promise<vo
     });
   }
 };
+
+/**
+ * Get LLM token usage since the server started, overall and per task
+ * GET /api/admin/ai-usage
+ */
+export const getAIUsage = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: getLLMUsage(),
+    });
+  } catch (error) {
+    console.error('Get AI usage error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get AI usage',
+    });
+  }
+};
+
+/**
+ * Reconcile the earnings ledger against completed book purchases, for an
+ * optional period (?from=&to=, ISO dates)
+ * GET /api/admin/earnings/reconciliation
+ */
+export const getEarningsReconciliation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+    const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      res.status(400).json({
+        success: false,
+        error: 'from and to must be valid dates',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { report: await reconcileEarnings(from, to) },
+    });
+  } catch (error) {
+    console.error('Earnings reconciliation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reconcile earnings',
+    });
+  }
+};
+
+/**
+ * Carry earnings kept on user profiles before the ledger into it. Run once
+ * after deploying the ledger; running it again imports nobody twice.
+ * POST /api/admin/earnings/import-legacy
+ */
+export const importLegacyEarningsToLedger = async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: { imported: await importLegacyEarnings() },
+    });
+  } catch (error) {
+    console.error('Import legacy earnings error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to import legacy earnings',
+    });
+  }
+};
+
+/**
+ * List book purchase refund requests
+ * GET /api/admin/refunds
+ */
+export const getRefundRequests = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const status = req.query.status ? (String(req.query.status) as RefundStatus) : undefined;
+
+    res.status(200).json({
+      success: true,
+      data: { refunds: await listRefundRequests(status) },
+    });
+  } catch (error) {
+    console.error('Get refund requests error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get refund requests',
+    });
+  }
+};
+
+/**
+ * Approve a refund request and refund the payment
+ * POST /api/admin/refunds/:id/approve
+ */
+export const approveRefundRequest = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const refund = await approveRefund(req.params.id, req.user!.id, req.body.note);
+
+    res.status(200).json({
+      success: true,
+      message: 'Refund issued',
+      data: { refund },
+    });
+  } catch (error) {
+    console.error('Approve refund error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to approve refund',
+    });
+  }
+};
+
+/**
+ * Decline a refund request
+ * POST /api/admin/refunds/:id/reject
+ */
+export const rejectRefundRequest = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const refund = await rejectRefund(req.params.id, req.user!.id, req.body.note);
+
+    res.status(200).json({
+      success: true,
+      message: 'Refund request declined',
+      data: { refund },
+    });
+  } catch (error) {
+    console.error('Reject refund error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to decline refund',
+    });
+  }
+};
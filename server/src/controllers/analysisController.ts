@@ -10,6 +10,8 @@ import {
   EnhanceContext,
 } from '../services/textEnhancementService';
 import { Book } from '../models/Book';
+import { findRelevantEntries } from '../services/storyBibleService';
+import { checkContinuity } from '../services/continuityService';
 
 /**
  * POST /api/analysis/enhance-text
@@ -71,6 +73,17 @@ export const enhanceText = async (req: Request, res: Response): Promise<void> =>
         // Continue without voice interview context
         console.warn('Could not fetch book context:', bookError);
       }
+
+      try {
+        enhanceContext.storyBible = await findRelevantEntries(
+          context.bookId,
+          `${context.surroundingText || ''} ${text}`,
+          context.chapterId
+        );
+      } catch (bibleError) {
+        // Continue without story bible context
+        console.warn('Could not fetch story bible context:', bibleError);
+      }
     }
 
     // Enhance text
@@ -227,6 +240,49 @@ export const analyzeWritingTechniques = async (req: Request, res: Response): Pro
   }
 };
 
+/**
+ * POST /api/analysis/continuity/:bookId
+ * Check continuity across chapters; mode 'incremental' re-reads only changed chapters
+ */
+export const analyzeContinuity = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { bookId } = req.params;
+    const mode = req.body?.mode === 'incremental' ? 'incremental' : 'full';
+
+    // Fetch book
+    const book = await Book.findById(bookId);
+    if (!book) {
+      res.status(404).json({
+        success: false,
+        message: 'Book not found',
+      });
+      return;
+    }
+
+    if (!book.chapters || book.chapters.length === 0) {
+      res.status(400).json({
+        success: false,
+        message: 'Book must have at least one chapter for continuity analysis',
+      });
+      return;
+    }
+
+    const report = await checkContinuity(book, mode);
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Error analyzing continuity:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to analyze continuity',
+      error: process.env.NODE_ENV === 'development' ? (error as Error).message : undefined,
+    });
+  }
+};
+
 /**
  * POST /api/analysis/guidance
  * Check for writing guidance alerts
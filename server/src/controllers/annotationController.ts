@@ -0,0 +1,152 @@
+/**
+ * Annotation Controller
+ * Handlers for a reader's highlights, notes and bookmarks in a book
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  listAnnotations,
+  createAnnotation as createReaderAnnotation,
+  updateAnnotation as updateReaderAnnotation,
+  deleteAnnotation as deleteReaderAnnotation,
+  exportAnnotationsMarkdown,
+} from '../services/annotationService';
+import { AppError } from '../utils/errors';
+
+/**
+ * List the reader's annotations in a book (optionally one chapter)
+ * GET /api/book-purchases/:id/annotations?chapterId=
+ */
+export const getAnnotations = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const chapterId = typeof req.query.chapterId === 'string' ? req.query.chapterId : undefined;
+    const annotations = await listAnnotations(req.user!.id, req.params.id, chapterId);
+
+    res.status(200).json({
+      success: true,
+      data: { annotations },
+    });
+  } catch (error) {
+    console.error('Get annotations error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get annotations',
+    });
+  }
+};
+
+/**
+ * Create a highlight, note or bookmark
+ * POST /api/book-purchases/:id/annotations
+ */
+export const createAnnotation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { chapterId, type, startOffset, endOffset, exact, note, color } = req.body;
+
+    const annotation = await createReaderAnnotation(req.user!.id, req.params.id, {
+      chapterId,
+      type,
+      startOffset,
+      endOffset,
+      exact,
+      note,
+      color,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { annotation },
+    });
+  } catch (error) {
+    console.error('Create annotation error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to create annotation',
+    });
+  }
+};
+
+/**
+ * Edit an annotation's note or color
+ * PATCH /api/book-purchases/:id/annotations/:annotationId
+ */
+export const updateAnnotation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { note, color } = req.body;
+
+    const annotation = await updateReaderAnnotation(req.user!.id, req.params.id, req.params.annotationId, {
+      note,
+      color,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { annotation },
+    });
+  } catch (error) {
+    console.error('Update annotation error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to update annotation',
+    });
+  }
+};
+
+/**
+ * Delete an annotation
+ * DELETE /api/book-purchases/:id/annotations/:annotationId
+ */
+export const deleteAnnotation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    // No access check: readers may clean up after losing access to a book
+    const deleted = await deleteReaderAnnotation(req.user.id, req.params.id, req.params.annotationId);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Annotation not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Annotation deleted',
+    });
+  } catch (error) {
+    console.error('Delete annotation error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete annotation',
+    });
+  }
+};
+
+/**
+ * Download the reader's highlights and notes as Markdown
+ * GET /api/book-purchases/:id/annotations/export
+ */
+export const exportAnnotations = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { filename, markdown } = await exportAnnotationsMarkdown(req.user!.id, req.params.id);
+
+    res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.status(200).send(markdown);
+  } catch (error) {
+    console.error('Export annotations error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to export annotations',
+    });
+  }
+};
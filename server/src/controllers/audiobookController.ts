@@ -0,0 +1,142 @@
+/**
+ * Audiobook Controller
+ * Build pre-rendered audiobooks and serve chapter audio to book owners
+ */
+
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../types';
+import {
+  startAudiobookBuild,
+  getAudiobookStatus as getStatus,
+  getChapterAudioFile,
+  getChapterMarks,
+  createAudiobookArchive,
+} from '../services/audiobookService';
+import { AppError } from '../utils/errors';
+
+function isValidChapterId(req: AuthRequest, res: Response): boolean {
+  if (!mongoose.Types.ObjectId.isValid(req.params.chapterId)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid chapter ID',
+    });
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Start building (or rebuilding) a book's audiobook
+ * POST /api/tts/audiobook/:bookId/build
+ */
+export const buildAudiobook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { provider, voice } = req.body;
+
+    await startAudiobookBuild(req.user!.id, req.params.bookId, {
+      provider,
+      voice: typeof voice === 'string' ? voice : undefined,
+    });
+
+    res.status(202).json({
+      success: true,
+      message: 'Audiobook build started',
+      data: { audiobook: await getStatus(req.params.bookId) },
+    });
+  } catch (error) {
+    console.error('Build audiobook error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to start audiobook build',
+    });
+  }
+};
+
+/**
+ * Audiobook build status and chapter list
+ * GET /api/tts/audiobook/:bookId
+ */
+export const getAudiobook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: { audiobook: await getStatus(req.params.bookId) },
+    });
+  } catch (error) {
+    console.error('Get audiobook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get audiobook',
+    });
+  }
+};
+
+/**
+ * Sentence timing marks for read-along
+ * GET /api/tts/audiobook/:bookId/chapters/:chapterId/marks
+ */
+export const getChapterAudioMarks = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!isValidChapterId(req, res)) return;
+
+    const marks = await getChapterMarks(req.params.bookId, req.params.chapterId);
+
+    res.status(200).json({
+      success: true,
+      data: marks,
+    });
+  } catch (error) {
+    console.error('Get chapter marks error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get chapter marks',
+    });
+  }
+};
+
+/**
+ * Download a chapter's MP3
+ * GET /api/tts/audiobook/:bookId/chapters/:chapterId/audio
+ */
+export const getChapterAudio = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!isValidChapterId(req, res)) return;
+
+    const { filePath, filename } = await getChapterAudioFile(req.params.bookId, req.params.chapterId);
+
+    res.setHeader('Content-Type', 'audio/mpeg');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    res.sendFile(filePath);
+  } catch (error) {
+    console.error('Get chapter audio error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get chapter audio',
+    });
+  }
+};
+
+/**
+ * Download the whole audiobook (ZIP of chapter MP3s with a playlist)
+ * GET /api/tts/audiobook/:bookId/download
+ */
+export const downloadAudiobook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { filename, stream } = await createAudiobookArchive(req.params.bookId);
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(filename)}`);
+    stream.on('error', (err) => {
+      console.error('Audiobook archive error:', err);
+      res.destroy(err);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Download audiobook error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to download audiobook',
+    });
+  }
+};
@@ -1,13 +1,40 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
 import { User, UserRole } from '../models/User';
-import { generateToken } from '../utils/jwt';
 import { AuthRequest } from '../types';
+import { AuthenticationError } from '../utils/errors';
 import {
   generateVerificationCode,
   sendVerificationEmail,
   sendWelcomeEmail,
+  sendPasswordResetEmail,
 } from '../services/emailService';
+import {
+  createSession,
+  refreshSession,
+  exchangeSignInCode,
+  revokeSessionByRefreshToken,
+  revokeSession,
+  revokeAllSessions,
+  listActiveSessions,
+} from '../services/sessionService';
+import { reindexBookSearch } from '../services/bookSearchService';
+import { claimGiftsForEmail } from '../services/giftService';
+import { linkBetaInvitesForEmail } from '../services/betaReadService';
+
+// Password reset links are valid for one hour
+const PASSWORD_RESET_EXPIRY_MS = 60 * 60 * 1000;
+// Minimum time between reset emails for the same account
+const PASSWORD_RESET_RESEND_MS = 60 * 1000;
+
+/**
+ * Only the SHA-256 of a reset token is stored, so a database leak
+ * does not expose usable reset links
+ */
+const hashResetToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
 
 /**
  * Register a new user
@@ -64,12 +91,8 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       console.error('Failed to send verification email:', err)
     );
 
-    // Generate JWT token (60-day expiry as per Section 17.1)
-    const token = generateToken({
-      id: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
+    // Start a session (short-lived access token + refresh token)
+    const { token, refreshToken } = await createSession(user, req);
 
     // Return user data (excluding password)
     res.status(201).json({
@@ -88,6 +111,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
           },
         },
         token,
+        refreshToken,
         requiresVerification: true,
       },
     });
@@ -130,12 +154,8 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate JWT token
-    const token = generateToken({
-      id: user._id.toString(),
-      email: user.email,
-      role: user.role,
-    });
+    // Start a session (short-lived access token + refresh token)
+    const { token, refreshToken } = await createSession(user, req);
 
     // Return user data (excluding password)
     res.status(200).json({
@@ -155,6 +175,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
           },
         },
         token,
+        refreshToken,
         requiresVerification: !user.emailVerification?.isVerified,
       },
     });
@@ -246,6 +267,16 @@ export const verifyEmail = async (req: AuthRequest, res: Response): Promise<void
       console.error('Failed to send welcome email:', err)
     );
 
+    // Gifts sent to this address before the account existed
+    claimGiftsForEmail(user._id.toString(), user.email).catch((err) =>
+      console.error('Failed to claim gifts:', err)
+    );
+
+    // Beta read invitations sent to this address
+    linkBetaInvitesForEmail(user._id.toString(), user.email).catch((err) =>
+      console.error('Failed to link beta invites:', err)
+    );
+
     res.status(200).json({
       success: true,
       message: 'Email verified successfully. Welcome to MeStory!',
@@ -417,6 +448,7 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
     }
 
     // Update basic fields
+    const nameChanged = !!name && name !== user.name;
     if (name) user.name = name;
 
     // Update profile fields
@@ -428,6 +460,13 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
 
     await user.save();
 
+    // Keep the author name in the marketplace search index current
+    if (nameChanged) {
+      reindexBookSearch({ author: user._id }).catch((err) =>
+        console.error('Failed to reindex author books:', err)
+      );
+    }
+
     res.status(200).json({
       success: true,
       message: 'Profile updated successfully',
@@ -450,3 +489,278 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
     });
   }
 };
+
+/**
+ * Request a password reset link
+ * Always responds with success so the endpoint cannot be used to
+ * discover which emails are registered.
+ * POST /api/auth/forgot-password
+ */
+export const forgotPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email: email.toLowerCase() }).select('+passwordReset');
+
+    const recentlyRequested =
+      user?.passwordReset?.requestedAt &&
+      Date.now() - user.passwordReset.requestedAt.getTime() < PASSWORD_RESET_RESEND_MS;
+
+    if (user && !recentlyRequested) {
+      const resetToken = crypto.randomBytes(32).toString('hex');
+
+      user.passwordReset = {
+        tokenHash: hashResetToken(resetToken),
+        expiresAt: new Date(Date.now() + PASSWORD_RESET_EXPIRY_MS),
+        requestedAt: new Date(),
+      };
+      await user.save();
+
+      // Send reset email (async, don't block or reveal the outcome)
+      sendPasswordResetEmail(user.email, user.name, resetToken).catch((err) =>
+        console.error('Failed to send password reset email:', err)
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'If an account exists for this email, a password reset link has been sent.',
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to request password reset. Please try again.',
+    });
+  }
+};
+
+/**
+ * Reset password with an emailed token
+ * The token is single-use, and every token issued before the reset
+ * stops working.
+ * POST /api/auth/reset-password
+ */
+export const resetPassword = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    const hashedPassword = await bcrypt.hash(password, 12);
+
+    // Consume the token atomically so it cannot be used twice
+    const user = await User.findOneAndUpdate(
+      {
+        'passwordReset.tokenHash': hashResetToken(token),
+        'passwordReset.expiresAt': { $gt: new Date() },
+      },
+      {
+        $set: {
+          password: hashedPassword,
+          passwordChangedAt: new Date(),
+        },
+        $unset: { passwordReset: 1 },
+      },
+      { new: true }
+    );
+
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        error: 'This password reset link is invalid or has expired. Please request a new one.',
+      });
+      return;
+    }
+
+    // Sign out every device that used the old password
+    await revokeAllSessions(user._id.toString(), 'password_reset');
+
+    res.status(200).json({
+      success: true,
+      message: 'Password has been reset. Please sign in with your new password.',
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reset password. Please try again.',
+    });
+  }
+};
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * POST /api/auth/refresh
+ */
+export const refreshToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken: token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Refresh token is required',
+      });
+      return;
+    }
+
+    const tokens = await refreshSession(token, req);
+
+    res.status(200).json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error: any) {
+    if (error instanceof AuthenticationError) {
+      res.status(401).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh session',
+    });
+  }
+};
+
+/**
+ * Exchange the one-time code from the Google OAuth redirect for tokens
+ * POST /api/auth/google/exchange
+ */
+export const exchangeOAuthCode = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({
+        success: false,
+        error: 'Sign-in code is required',
+      });
+      return;
+    }
+
+    const tokens = await exchangeSignInCode(code, req);
+
+    res.status(200).json({
+      success: true,
+      data: tokens,
+    });
+  } catch (error: any) {
+    if (error instanceof AuthenticationError) {
+      res.status(401).json({
+        success: false,
+        error: error.message,
+      });
+      return;
+    }
+    console.error('OAuth code exchange error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to complete sign in',
+    });
+  }
+};
+
+/**
+ * Logout - revoke the session of the given refresh token
+ * POST /api/auth/logout
+ */
+export const logout = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { refreshToken: token } = req.body;
+
+    if (token && typeof token === 'string') {
+      await revokeSessionByRefreshToken(token);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Logged out successfully',
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to logout',
+    });
+  }
+};
+
+/**
+ * List the user's active sessions (signed-in devices)
+ * GET /api/auth/sessions
+ */
+export const getSessions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    const sessions = await listActiveSessions(req.user.id);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => ({
+          id: session._id,
+          device: session.device,
+          userAgent: session.userAgent,
+          ipAddress: session.ipAddress,
+          lastUsedAt: session.lastUsedAt,
+          createdAt: session.createdAt,
+          expiresAt: session.expiresAt,
+          isCurrent: session._id.toString() === req.user!.sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve sessions',
+    });
+  }
+};
+
+/**
+ * Revoke one of the user's sessions (sign out a device)
+ * DELETE /api/auth/sessions/:id
+ */
+export const deleteSession = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+
+    if (!mongoose.isValidObjectId(id) || !(await revokeSession(req.user.id, id))) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked',
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session',
+    });
+  }
+};
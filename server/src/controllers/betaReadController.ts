@@ -0,0 +1,207 @@
+/**
+ * Beta Read Controller
+ * Handlers for beta-read campaigns: the author's invitations and
+ * results, and the readers' chapter feedback
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  listCampaigns,
+  createCampaign,
+  updateCampaign,
+  inviteReaders,
+  revokeReader,
+  getCampaignSummary,
+  getReaderCampaign,
+  submitFeedback,
+} from '../services/betaReadService';
+import { AppError } from '../utils/errors';
+
+/**
+ * List the book's beta campaigns
+ * GET /api/books/:id/beta-campaigns
+ */
+export const getBetaCampaigns = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const campaigns = await listCampaigns(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: { campaigns },
+    });
+  } catch (error) {
+    console.error('Get beta campaigns error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get beta campaigns',
+    });
+  }
+};
+
+/**
+ * Start a beta campaign
+ * POST /api/books/:id/beta-campaigns
+ */
+export const createBetaCampaign = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { title, message, accessDays, questions } = req.body;
+
+    const campaign = await createCampaign(req.user!.id, req.params.id, { title, message, accessDays, questions });
+
+    res.status(201).json({
+      success: true,
+      data: { campaign },
+    });
+  } catch (error) {
+    console.error('Create beta campaign error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to create beta campaign',
+    });
+  }
+};
+
+/**
+ * Edit, close or reopen a beta campaign
+ * PATCH /api/books/:id/beta-campaigns/:campaignId
+ */
+export const updateBetaCampaign = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { title, message, accessDays, questions, status } = req.body;
+
+    const campaign = await updateCampaign(req.params.id, req.params.campaignId, {
+      title,
+      message,
+      accessDays,
+      questions,
+      status,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { campaign },
+    });
+  } catch (error) {
+    console.error('Update beta campaign error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to update beta campaign',
+    });
+  }
+};
+
+/**
+ * Invite readers by email (or renew their access)
+ * POST /api/books/:id/beta-campaigns/:campaignId/readers
+ */
+export const inviteBetaReaders = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const campaign = await inviteReaders(req.user!.id, req.params.id, req.params.campaignId, req.body.emails);
+
+    res.status(200).json({
+      success: true,
+      message: 'Invitations sent',
+      data: { campaign },
+    });
+  } catch (error) {
+    console.error('Invite beta readers error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to invite readers',
+    });
+  }
+};
+
+/**
+ * Revoke a reader's access
+ * DELETE /api/books/:id/beta-campaigns/:campaignId/readers/:readerId
+ */
+export const revokeBetaReader = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const campaign = await revokeReader(req.params.id, req.params.campaignId, req.params.readerId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Access revoked',
+      data: { campaign },
+    });
+  } catch (error) {
+    console.error('Revoke beta reader error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to revoke access',
+    });
+  }
+};
+
+/**
+ * Aggregate results of a beta campaign
+ * GET /api/books/:id/beta-campaigns/:campaignId/summary
+ */
+export const getBetaCampaignSummary = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const summary = await getCampaignSummary(req.params.id, req.params.campaignId);
+
+    res.status(200).json({
+      success: true,
+      data: { summary },
+    });
+  } catch (error) {
+    console.error('Get beta campaign summary error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get beta results',
+    });
+  }
+};
+
+/**
+ * The campaign as the invited reader sees it
+ * GET /api/books/:id/beta
+ */
+export const getMyBetaCampaign = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const campaign = await getReaderCampaign(req.user!.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: { campaign },
+    });
+  } catch (error) {
+    console.error('Get beta campaign error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get beta campaign',
+    });
+  }
+};
+
+/**
+ * Leave feedback on a chapter
+ * PUT /api/books/:id/beta/chapters/:chapterId/feedback
+ */
+export const submitBetaFeedback = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { reaction, rating, answers, comment } = req.body;
+
+    const feedback = await submitFeedback(req.user!.id, req.params.id, req.params.chapterId, {
+      reaction,
+      rating,
+      answers,
+      comment,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Feedback saved',
+      data: { feedback },
+    });
+  } catch (error) {
+    console.error('Submit beta feedback error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to save feedback',
+    });
+  }
+};
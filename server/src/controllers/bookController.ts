@@ -2,21 +2,41 @@ import { Request, Response } from 'express';
 import mongoose from 'mongoose';
 import fs from 'fs/promises';
 import path from 'path';
-// pdf-parse is temporarily disabled for Vercel serverless compatibility (DOMMatrix not defined)
-// import PDFParser from 'pdf-parse';
-import mammoth from 'mammoth';
 import { Book } from '../models/Book';
 import { User } from '../models/User';
+import { Transaction } from '../models/Transaction';
+import { ChapterRevision } from '../models/ChapterRevision';
 import { AuthRequest } from '../types';
 import { transcribeAudio } from '../services/whisperService';
 import { generatePricingStrategy } from '../services/pricingStrategyService';
 import { exportBook } from '../services/bookExportService';
+import {
+  countWords,
+  recordChapterRevisions,
+  recordChapterSuggestions,
+  seedChapterRevisions,
+} from '../services/chapterRevisionService';
+import {
+  CO_AUTHOR_UPDATES,
+  findChangedChapters,
+  getCollaboration,
+  isChapterAssigned,
+  splitAuthorShare,
+} from '../services/collaborationService';
+import { importManuscript } from '../services/manuscriptImportService';
+import { searchBooks as runBookSearch, BookSearchSort } from '../services/bookSearchService';
+import { recordWritingActivity } from '../services/writingGoalService';
+import { findChapterConflicts, assignChapterVersions, chapterVersionGuard } from '../services/chapterVersionService';
+import { postSale } from '../services/earningsLedgerService';
+import { quoteBookPrice, redeemCoupon, getBookPromotions } from '../services/couponService';
+import { AppError } from '../utils/errors';
 import {
   notifyBookLike,
   notifyBookComment,
   notifyBookShare,
   notifyBookPurchase,
   notifyBookPublished,
+  notifyChapterSuggestion,
 } from '../services/notificationService';
 import {
   sendBookPurchaseEmail,
@@ -225,8 +245,12 @@ export const getBookById = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
-    // Ensure user owns this book
-    if (book.author.toString() !== req.user.id) {
+    // Ensure user owns this book or is on its team (beta readers get a
+    // read-only draft to comment on)
+    const isAuthor = book.author.toString() === req.user.id;
+    const collaboration = isAuthor ? undefined : getCollaboration(book, req.user.id);
+
+    if (!isAuthor && !collaboration) {
       res.status(403).json({
         success: false,
         error: 'You do not have permission to access this book',
@@ -237,6 +261,11 @@ export const getBookById = async (req: AuthRequest, res: Response): Promise<void
     res.status(200).json({
       success: true,
       data: {
+        // How the caller works on the book; chapters lists their assignment (empty = all)
+        access: {
+          role: isAuthor ? 'author' : collaboration!.role,
+          chapters: collaboration?.chapters || [],
+        },
         book: {
           id: book._id,
           title: book.title,
@@ -305,8 +334,11 @@ export const updateBook = async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
-    // Ensure user owns this book
-    if (book.author.toString() !== req.user.id) {
+    // Co-authors and editors work on the manuscript alongside the author
+    const isAuthor = book.author.toString() === req.user.id;
+    const collaboration = isAuthor ? undefined : getCollaboration(book, req.user.id);
+
+    if (!isAuthor && (!collaboration || collaboration.role === 'beta-reader')) {
       res.status(403).json({
         success: false,
         error: 'You do not have permission to update this book',
@@ -332,6 +364,92 @@ export const updateBook = async (req: AuthRequest, res: Response): Promise<void>
       'publishingStatus',
     ];
 
+    if (collaboration) {
+      const fields = Object.keys(req.body).filter((key) => allowedUpdates.includes(key));
+      const changedChapters = Array.isArray(req.body.chapters) ? findChangedChapters(book, req.body.chapters) : [];
+
+      // With a chapter assignment, only those chapters may change - no adding or removing
+      const outsideAssignment = changedChapters.some(
+        ({ chapterId, chapter }) =>
+          collaboration.chapters.length > 0 && (!chapterId || !chapter || !isChapterAssigned(collaboration, chapterId))
+      );
+      if (outsideAssignment) {
+        res.status(403).json({
+          success: false,
+          error: 'You can only change the chapters assigned to you',
+        });
+        return;
+      }
+
+      if (collaboration.role === 'editor') {
+        // Editors suggest; the author decides what goes into the book
+        if (fields.some((key) => key !== 'chapters') || changedChapters.some(({ chapterId, chapter }) => !chapterId || !chapter)) {
+          res.status(403).json({
+            success: false,
+            error: 'Editors can only suggest changes to existing chapters',
+          });
+          return;
+        }
+
+        const suggested = await recordChapterSuggestions(
+          book,
+          req.user.id,
+          changedChapters.map(({ chapterId, chapter }) => ({
+            chapterId: chapterId!,
+            title: chapter!.title,
+            content: chapter!.content,
+          }))
+        );
+
+        if (suggested > 0) {
+          notifyChapterSuggestion(id, req.user.id, book.author.toString(), suggested).catch((err) =>
+            console.error('Failed to send suggestion notification:', err)
+          );
+        }
+
+        res.status(202).json({
+          success: true,
+          message: suggested > 0 ? 'Suggestion sent to the author' : 'No changes to suggest',
+          data: { suggestedChapters: suggested },
+        });
+        return;
+      }
+
+      if (fields.some((key) => !CO_AUTHOR_UPDATES.includes(key))) {
+        res.status(403).json({
+          success: false,
+          error: 'Co-authors can only change the manuscript',
+        });
+        return;
+      }
+    }
+
+    // Refuse to overwrite chapters that changed since the client loaded them
+    const incomingChapters = Array.isArray(req.body.chapters) ? req.body.chapters : null;
+    if (incomingChapters) {
+      const conflicts = findChapterConflicts(book, incomingChapters);
+      if (conflicts.length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Some chapters were changed elsewhere since you started editing',
+          data: { conflicts },
+        });
+        return;
+      }
+      req.body.chapters = assignChapterVersions(book, req.body.chapters);
+
+      // Chapters without history yet keep what they held before this save
+      const replaced = findChangedChapters(book, req.body.chapters)
+        .map(({ chapterId }) => chapterId)
+        .filter((chapterId): chapterId is string => !!chapterId);
+      await seedChapterRevisions(book, req.user.id, req.user.role, replaced);
+
+      // Only write if no chapter changed since the check above
+      book.$where = chapterVersionGuard(book);
+    }
+
+    const wordsBefore = book.statistics?.wordCount || 0;
+
     // Apply updates
     Object.keys(req.body).forEach((key) => {
       if (allowedUpdates.includes(key)) {
@@ -340,10 +458,35 @@ export const updateBook = async (req: AuthRequest, res: Response): Promise<void>
     });
 
     // Save book (pre-save middleware will update statistics)
-    await book.save();
+    try {
+      await book.save();
+    } catch (error) {
+      if (!incomingChapters || !(error instanceof mongoose.Error.DocumentNotFoundError)) throw error;
 
-    // Update user's writing statistics
-    const user = await User.findById(req.user.id);
+      // Another save changed chapters between the check and the write
+      const current = await Book.findById(id);
+      res.status(409).json({
+        success: false,
+        error: 'Some chapters were changed elsewhere since you started editing',
+        data: { conflicts: current ? findChapterConflicts(current, incomingChapters) : [] },
+      });
+      return;
+    }
+
+    // Snapshot changed chapters so overwritten content can be restored
+    if (req.body.chapters) {
+      await recordChapterRevisions(book, req.user.id, req.user.role).catch((err) =>
+        console.error('Failed to record chapter revisions:', err)
+      );
+
+      // Count the words toward the writer's session, daily goal and streak
+      recordWritingActivity(req.user.id, id, book.statistics.wordCount - wordsBefore).catch((err) =>
+        console.error('Failed to record writing activity:', err)
+      );
+    }
+
+    // Update the author's writing statistics
+    const user = isAuthor ? await User.findById(req.user.id) : null;
     if (user && user.profile?.writingStatistics) {
       user.profile.writingStatistics.totalWords = book.statistics.wordCount;
       await user.save();
@@ -434,6 +577,7 @@ export const deleteBook = async (req: AuthRequest, res: Response): Promise<void>
     }
 
     await Book.findByIdAndDelete(id);
+    await ChapterRevision.deleteMany({ book: id });
 
     // Update user's writing statistics
     const user = await User.findById(req.user.id);
@@ -678,6 +822,17 @@ export const purchaseBook = async (req: AuthRequest, res: Response): Promise<voi
       return;
     }
 
+    // Sale price and coupon; throws for a coupon that cannot be used
+    const quote = await quoteBookPrice(book, req.body?.couponCode);
+    const price = quote.price;
+    if (quote.coupon && !(await redeemCoupon(quote.coupon.id, price, quote.coupon.discount))) {
+      res.status(400).json({
+        success: false,
+        error: 'This coupon has reached its usage limit',
+      });
+      return;
+    }
+
     // Add to user's library
     user.profile.readingHistory.push({
       bookId: new mongoose.Types.ObjectId(id),
@@ -689,28 +844,49 @@ export const purchaseBook = async (req: AuthRequest, res: Response): Promise<voi
 
     // Update book statistics
     book.statistics.purchases += 1;
-    book.statistics.revenue += book.publishingStatus.price;
+    book.statistics.revenue += price;
     await book.save();
 
-    // Update author's earnings
-    const author = await User.findById(book.author);
-    if (author && author.profile) {
-      if (!author.profile.earnings) {
-        author.profile.earnings = {
-          totalEarned: 0,
-          pendingPayout: 0,
-          withdrawn: 0,
-          history: [],
-        };
-      }
-      const authorShare = book.publishingStatus.price * 0.5; // 50% split
-      author.profile.earnings.totalEarned += authorShare;
-      author.profile.earnings.pendingPayout += authorShare;
-
-      if (author.profile.authorProfile) {
-        author.profile.authorProfile.totalSales += 1;
-      }
+    // Record the purchase like a captured order, so it can be refunded
+    // and reconciled, and key the author's and collaborators' earnings on it
+    const authorShare = price * 0.5; // 50% split
+    const revenueSplit = splitAuthorShare(book, authorShare);
+    const transaction = await Transaction.create({
+      userId: user._id,
+      amount: price,
+      currency: 'ILS',
+      plan: 'book-purchase',
+      status: 'completed',
+      paymentMethod: 'mock',
+      orderId: `DIRECT-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      description: `Purchase: ${book.title}`,
+      metadata: {
+        bookId: book._id,
+        bookTitle: book.title,
+        authorId: book.author,
+        authorShare,
+        platformShare: price - authorShare,
+        listPrice: quote.listPrice,
+        salePrice: quote.sale?.price,
+        coupon: quote.coupon,
+        type: 'book_purchase',
+        capturedAt: new Date(),
+        revenueProcessed: true,
+        revenueSplit,
+      },
+    });
+    await postSale({
+      idempotencyKey: `sale:${transaction.orderId}`,
+      amount: price,
+      revenueSplit,
+      bookId: book._id,
+      transactionId: transaction._id,
+      description: `Sale: ${book.title}`,
+    });
 
+    const author = await User.findById(book.author);
+    if (author?.profile?.authorProfile) {
+      author.profile.authorProfile.totalSales += 1;
       await author.save();
     }
 
@@ -719,7 +895,7 @@ export const purchaseBook = async (req: AuthRequest, res: Response): Promise<voi
       id,
       req.user!.id,
       book.author.toString(),
-      book.publishingStatus.price,
+      price,
       'ILS'
     ).catch((err) => console.error('Failed to send purchase notification:', err));
 
@@ -730,7 +906,7 @@ export const purchaseBook = async (req: AuthRequest, res: Response): Promise<voi
       user!.name,
       book.title,
       author?.name || 'Unknown',
-      book.publishingStatus.price,
+      price,
       'ILS',
       id
     ).catch((err) => console.error('Failed to send purchase email:', err));
@@ -742,7 +918,7 @@ export const purchaseBook = async (req: AuthRequest, res: Response): Promise<voi
         author.name,
         book.title,
         user!.name,
-        book.publishingStatus.price * 0.5, // Author's share
+        price * 0.5, // Author's share
         'ILS'
       ).catch((err) => console.error('Failed to send sale notification email:', err));
     }
@@ -753,15 +929,16 @@ export const purchaseBook = async (req: AuthRequest, res: Response): Promise<voi
       data: {
         bookId: book._id,
         title: book.title,
-        price: book.publishingStatus.price,
+        price,
+        coupon: quote.coupon?.code,
         readUrl: `/read/${book._id}`,
       },
     });
   } catch (error) {
     console.error('Purchase book error:', error);
-    res.status(500).json({
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
       success: false,
-      error: 'Failed to purchase book',
+      error: error instanceof AppError ? error.message : 'Failed to purchase book',
     });
   }
 };
@@ -835,6 +1012,58 @@ export const getPublicBooks = async (req: Request, res: Response): Promise<void>
   }
 };
 
+// "a,b" or repeated ?key=a&key=b -> ['a', 'b']
+const parseListParam = (value: unknown): string[] | undefined => {
+  const values = (Array.isArray(value) ? value : [value])
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => item.split(','))
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return values.length > 0 ? values : undefined;
+};
+
+/**
+ * Full-text marketplace search with facet counts and cursor pagination
+ * GET /api/books/search?q=&genre=&language=&ageRating=&price=&minRating=&category=&sort=&limit=&cursor=
+ */
+export const searchBooks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { q, category, sort, limit, minRating, cursor } = req.query;
+
+    const result = await runBookSearch({
+      q: typeof q === 'string' ? q.trim() : undefined,
+      category: typeof category === 'string' && category !== 'All' ? category : undefined,
+      genres: parseListParam(req.query.genre),
+      languages: parseListParam(req.query.language),
+      ageRatings: parseListParam(req.query.ageRating),
+      priceRanges: parseListParam(req.query.price),
+      minRating: minRating ? parseInt(minRating as string, 10) : undefined,
+      sort: sort as BookSearchSort | undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+      cursor: typeof cursor === 'string' ? cursor : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        books: result.books,
+        facets: result.facets,
+        pagination: {
+          total: result.total,
+          nextCursor: result.nextCursor,
+          hasMore: result.nextCursor !== null,
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error('Search books error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to search books',
+    });
+  }
+};
+
 /**
  * Export book as PDF
  * GET /api/books/:id/export
@@ -1307,15 +1536,96 @@ export const uploadCoverImage = async (req: AuthRequest, res: Response): Promise
 };
 
 /**
- * Upload and extract text from manuscript file
+ * Read an uploaded manuscript from memory (Vercel) or disk storage
+ */
+async function readUploadedFile(file: Express.Multer.File): Promise<Buffer> {
+  return file.buffer ?? fs.readFile(file.path);
+}
+
+/**
+ * Remove an uploaded file from disk storage (no-op for memory storage)
+ */
+async function cleanupUploadedFile(file?: Express.Multer.File): Promise<void> {
+  if (file?.path) {
+    try {
+      await fs.unlink(file.path);
+    } catch (unlinkError) {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+/**
+ * Create a draft book from imported chapters and update the author's statistics
+ */
+async function createImportedBook(
+  userId: string,
+  data: {
+    title: string;
+    genre: string;
+    description: string;
+    language: string;
+    chapters: Array<{ title: string; content: string }>;
+  }
+) {
+  const chapters = data.chapters.map((chapter, index) => ({
+    title: chapter.title.trim() || `Chapter ${index + 1}`,
+    content: chapter.content,
+    order: index,
+    wordCount: countWords(chapter.content),
+  }));
+  const wordCount = chapters.reduce((sum, chapter) => sum + chapter.wordCount, 0);
+
+  const book = new Book({
+    title: data.title.trim(),
+    author: userId,
+    genre: data.genre,
+    description: data.description,
+    language: data.language,
+    chapters,
+    publishingStatus: {
+      status: 'draft',
+      price: 0,
+      isFree: true,
+      isPublic: false,
+    },
+    statistics: {
+      wordCount,
+      pageCount: Math.ceil(wordCount / 250), // Rough estimate: 250 words per page
+      chapterCount: chapters.length,
+      characterCount: 0,
+      views: 0,
+      purchases: 0,
+      revenue: 0,
+      totalReviews: 0,
+    },
+  });
+
+  await book.save();
+
+  // Update user's writing statistics
+  const user = await User.findById(userId);
+  if (user && user.profile) {
+    if (!user.profile.writingStatistics) {
+      user.profile.writingStatistics = {
+        totalWords: 0,
+        booksWritten: 0,
+      };
+    }
+    user.profile.writingStatistics.booksWritten += 1;
+    user.profile.writingStatistics.totalWords += wordCount;
+    await user.save();
+  }
+
+  return book;
+}
+
+/**
+ * Upload a manuscript and create a book from the detected chapters
  * POST /api/books/upload
  * Section 4.1: File Upload → Analysis → Book
  */
 export const uploadManuscript = async (req: AuthRequest, res: Response): Promise<void> => {
-  // Track temp file for cleanup
-  let tempFilePath: string | null = null;
-  const isVercel = process.env.VERCEL === '1' || process.env.VERCEL === 'true';
-
   try {
     if (!req.user) {
       res.status(401).json({
@@ -1343,193 +1653,135 @@ export const uploadManuscript = async (req: AuthRequest, res: Response): Promise
       return;
     }
 
-    const fileExtension = path.extname(req.file.originalname).toLowerCase();
-    let extractedText = '';
+    const manuscript = await importManuscript(await readUploadedFile(req.file), req.file.originalname);
 
-    // Handle both disk storage (local) and memory storage (Vercel)
-    let filePath: string;
+    const book = await createImportedBook(req.user.id, {
+      title,
+      genre,
+      description: `Imported from ${req.file.originalname}`,
+      language: manuscript.language,
+      chapters: manuscript.chapters,
+    });
 
-    if (req.file.path) {
-      // Disk storage - file is on disk
-      filePath = req.file.path;
-    } else if (req.file.buffer) {
-      // Memory storage (Vercel) - write buffer to temp file
-      const tempDir = '/tmp';
-      const tempFileName = `manuscript-${Date.now()}-${Math.random().toString(36).substring(7)}${fileExtension}`;
-      tempFilePath = path.join(tempDir, tempFileName);
+    res.status(201).json({
+      success: true,
+      message: 'Manuscript uploaded and processed successfully',
+      data: {
+        book: {
+          id: book._id,
+          title: book.title,
+          genre: book.genre,
+          wordCount: book.statistics.wordCount,
+          chapters: book.chapters.map((ch) => ({
+            title: ch.title,
+            wordCount: ch.wordCount,
+          })),
+        },
+      },
+    });
+  } catch (error: any) {
+    console.error('Upload manuscript error:', {
+      message: error.message,
+      stack: error.stack,
+      code: error.code,
+    });
 
-      console.log(`📁 Writing buffer to temp file: ${tempFilePath}`);
-      await fs.writeFile(tempFilePath, req.file.buffer);
-      filePath = tempFilePath;
-    } else {
-      res.status(400).json({
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to process uploaded manuscript',
+    });
+  } finally {
+    await cleanupUploadedFile(req.file);
+  }
+};
+
+/**
+ * Parse a manuscript and return the detected chapters without creating a book
+ * POST /api/books/upload/preview
+ */
+export const previewManuscript = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
         success: false,
-        error: 'File upload failed. No file data received.',
+        error: 'Authentication required',
       });
       return;
     }
 
-    try {
-      // Extract text based on file type
-      if (fileExtension === '.pdf') {
-        // PDF parsing is temporarily disabled for serverless compatibility
-        res.status(400).json({
-          success: false,
-          error: 'PDF upload is temporarily unavailable. Please upload DOCX or TXT files instead.',
-        });
-        return;
-      } else if (fileExtension === '.docx' || fileExtension === '.doc') {
-        // Extract text from DOCX - mammoth can use buffer directly on Vercel
-        if (isVercel && req.file.buffer) {
-          const result = await mammoth.extractRawText({ buffer: req.file.buffer });
-          extractedText = result.value;
-        } else {
-          const result = await mammoth.extractRawText({ path: filePath });
-          extractedText = result.value;
-        }
-      } else if (fileExtension === '.txt') {
-        // Read plain text file - can use buffer directly on Vercel
-        if (isVercel && req.file.buffer) {
-          extractedText = req.file.buffer.toString('utf-8');
-        } else {
-          extractedText = await fs.readFile(filePath, 'utf-8');
-        }
-      } else {
-        res.status(400).json({
-          success: false,
-          error: 'Unsupported file type. Please upload DOCX or TXT files.',
-        });
-        return;
-      }
-
-      // Validate extracted text
-      if (!extractedText || extractedText.trim().length < 100) {
-        res.status(400).json({
-          success: false,
-          error: 'Could not extract sufficient text from the file. Please ensure the file contains readable text.',
-        });
-        return;
-      }
-
-      // Calculate word count
-      const wordCount = extractedText.trim().split(/\s+/).length;
-
-      // Create new book with extracted content
-      const book = new Book({
-        title: title.trim(),
-        author: req.user.id,
-        genre,
-        description: `Imported from ${req.file.originalname}`,
-        language: 'en',
-        chapters: [
-          {
-            title: 'Imported Content',
-            content: extractedText.trim(),
-            order: 0,
-            wordCount,
-          },
-        ],
-        publishingStatus: {
-          status: 'draft',
-          price: 0,
-          isFree: true,
-          isPublic: false,
-        },
-        statistics: {
-          wordCount,
-          pageCount: Math.ceil(wordCount / 250), // Rough estimate: 250 words per page
-          chapterCount: 1,
-          characterCount: 0,
-          views: 0,
-          purchases: 0,
-          revenue: 0,
-          totalReviews: 0,
-        },
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: 'No file uploaded',
       });
+      return;
+    }
 
-      await book.save();
+    const manuscript = await importManuscript(await readUploadedFile(req.file), req.file.originalname);
 
-      // Update user's writing statistics
-      const user = await User.findById(req.user.id);
-      if (user && user.profile) {
-        if (!user.profile.writingStatistics) {
-          user.profile.writingStatistics = {
-            totalWords: 0,
-            booksWritten: 0,
-          };
-        }
-        user.profile.writingStatistics.booksWritten += 1;
-        user.profile.writingStatistics.totalWords += wordCount;
-        await user.save();
-      }
+    res.status(200).json({
+      success: true,
+      data: {
+        fileName: req.file.originalname,
+        ...manuscript,
+      },
+    });
+  } catch (error: any) {
+    console.error('Preview manuscript error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to process uploaded manuscript',
+    });
+  } finally {
+    await cleanupUploadedFile(req.file);
+  }
+};
 
-      res.status(201).json({
-        success: true,
-        message: 'Manuscript uploaded and processed successfully',
-        data: {
-          book: {
-            id: book._id,
-            title: book.title,
-            genre: book.genre,
-            wordCount,
-            chapters: book.chapters.map((ch) => ({
-              title: ch.title,
-              wordCount: ch.wordCount,
-            })),
-          },
-        },
+/**
+ * Create a book from previewed (and possibly edited) manuscript chapters
+ * POST /api/books/import
+ */
+export const importManuscriptBook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
       });
-    } catch (extractError) {
-      throw extractError;
-    } finally {
-      // Clean up temp file if created (Vercel memory storage case)
-      if (tempFilePath) {
-        try {
-          await fs.unlink(tempFilePath);
-          console.log(`🗑️ Cleaned up temp file: ${tempFilePath}`);
-        } catch (unlinkError) {
-          // Ignore cleanup errors
-        }
-      }
-      // Clean up disk storage file (local development)
-      if (req.file?.path) {
-        try {
-          await fs.unlink(req.file.path);
-        } catch (unlinkError) {
-          // Ignore cleanup errors
-        }
-      }
-    }
-  } catch (error: any) {
-    // Clean up temp file on error
-    if (tempFilePath) {
-      try {
-        await fs.unlink(tempFilePath);
-      } catch (unlinkError) {
-        // Ignore cleanup errors
-      }
+      return;
     }
 
-    console.error('Upload manuscript error:', {
-      message: error.message,
-      stack: error.stack,
-      code: error.code,
-    });
+    const { title, genre, language, fileName, chapters } = req.body;
 
-    // Provide specific error messages
-    let errorMessage = 'Failed to process uploaded manuscript';
-
-    if (error.code === 'ENOENT') {
-      errorMessage = 'File upload failed. Please try again.';
-    } else if (error.message?.includes('DOCX') || error.message?.includes('mammoth')) {
-      errorMessage = 'Failed to read DOCX file. Please ensure the file is not corrupted.';
-    } else if (error.message) {
-      errorMessage = error.message;
-    }
+    const book = await createImportedBook(req.user.id, {
+      title,
+      genre,
+      description: fileName ? `Imported from ${fileName}` : '',
+      language: language || 'en',
+      chapters,
+    });
 
+    res.status(201).json({
+      success: true,
+      message: 'Manuscript imported successfully',
+      data: {
+        book: {
+          id: book._id,
+          title: book.title,
+          genre: book.genre,
+          wordCount: book.statistics.wordCount,
+          chapters: book.chapters.map((ch) => ({
+            title: ch.title,
+            wordCount: ch.wordCount,
+          })),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Import manuscript error:', error);
     res.status(500).json({
       success: false,
-      error: errorMessage,
+      error: 'Failed to import manuscript',
     });
   }
 };
@@ -1790,7 +2042,10 @@ export const getPricingStrategy = async (req: AuthRequest, res: Response): Promi
 
     res.status(200).json({
       success: true,
-      data: strategy,
+      data: {
+        ...strategy,
+        promotions: await getBookPromotions(book),
+      },
     });
   } catch (error: any) {
     console.error('Get pricing strategy error:', error);
@@ -1802,7 +2057,7 @@ export const getPricingStrategy = async (req: AuthRequest, res: Response): Promi
 };
 
 /**
- * Export book to PDF or DOCX
+ * Export book to PDF, DOCX or EPUB
  * GET /api/books/:id/export/:format
  */
 export const exportBookToFormat = async (req: AuthRequest, res: Response): Promise<void> => {
@@ -1818,10 +2073,10 @@ export const exportBookToFormat = async (req: AuthRequest, res: Response): Promi
     const { id, format } = req.params;
 
     // Validate format
-    if (!['pdf', 'docx'].includes(format)) {
+    if (!['pdf', 'docx', 'epub'].includes(format)) {
       res.status(400).json({
         success: false,
-        error: 'Invalid format. Supported formats: pdf, docx',
+        error: 'Invalid format. Supported formats: pdf, docx, epub',
       });
       return;
     }
@@ -1874,13 +2129,16 @@ export const exportBookToFormat = async (req: AuthRequest, res: Response): Promi
     }
 
     // Generate export file
-    const buffer = await exportBook(id, format as 'pdf' | 'docx');
+    const buffer = await exportBook(id, format as 'pdf' | 'docx' | 'epub');
 
     // Set response headers
     const filename = book.title.replace(/[^a-zA-Z0-9\u0590-\u05FF]/g, '_');
-    const contentType = format === 'pdf'
-      ? 'application/pdf'
-      : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+    const contentTypes: Record<string, string> = {
+      pdf: 'application/pdf',
+      docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      epub: 'application/epub+zip',
+    };
+    const contentType = contentTypes[format];
 
     res.setHeader('Content-Type', contentType);
     res.setHeader('Content-Disposition', `attachment; filename="${filename}.${format}"`);
@@ -10,12 +10,19 @@ import { Book } from '../models/Book';
 import { User } from '../models/User';
 import {
   createBookPurchaseOrder,
+  createSeriesPurchaseOrder,
+  createGiftCardOrder,
   captureBookPayment,
   processAuthorPayout,
   getAuthorEarnings,
   connectAuthorPayPal,
   checkBookOwnership,
 } from '../services/paypalService';
+import { canRead } from '../services/accessPolicy';
+import { requestRefund, listMyRefunds } from '../services/refundService';
+import { createBookGift, createGiftCard, discardGift } from '../services/giftService';
+import { quoteBookPrice } from '../services/couponService';
+import { recordBetaOpen } from '../services/betaReadService';
 import {
   notifyBookPurchase,
 } from '../services/notificationService';
@@ -23,6 +30,7 @@ import {
   sendBookPurchaseEmail,
   sendSaleNotificationToAuthor,
 } from '../services/emailService';
+import { AppError } from '../utils/errors';
 
 /**
  * Create purchase order for a book
@@ -49,7 +57,9 @@ export const createPurchaseOrder = async (req: AuthRequest, res: Response): Prom
       return;
     }
 
-    const result = await createBookPurchaseOrder(bookId, req.user.id);
+    const result = await createBookPurchaseOrder(bookId, req.user.id, req.body?.couponCode, {
+      useGiftBalance: !!req.body?.useGiftBalance,
+    });
 
     if (!result.success) {
       res.status(400).json({
@@ -65,6 +75,7 @@ export const createPurchaseOrder = async (req: AuthRequest, res: Response): Prom
         orderId: result.orderId,
         approvalUrl: result.approvalUrl,
         mockMode: result.mockMode,
+        paidWithBalance: result.paidWithBalance,
       },
     });
   } catch (error: any) {
@@ -76,6 +87,161 @@ export const createPurchaseOrder = async (req: AuthRequest, res: Response): Prom
   }
 };
 
+/**
+ * Create purchase order for a series bundle (captured like a book order)
+ * POST /api/book-purchases/series/:id/create-order
+ */
+export const createSeriesOrder = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const result = await createSeriesPurchaseOrder(req.params.id, req.user!.id);
+
+    if (!result.success) {
+      res.status(400).json({
+        success: false,
+        error: result.error,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        orderId: result.orderId,
+        approvalUrl: result.approvalUrl,
+        mockMode: result.mockMode,
+      },
+    });
+  } catch (error: any) {
+    console.error('Create series order error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create purchase order',
+    });
+  }
+};
+
+/**
+ * Buy a book as a gift, emailed to the recipient now or on deliverAt
+ * (captured like a book order)
+ * POST /api/book-purchases/:id/gift
+ */
+export const createGiftOrder = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { recipientEmail, recipientName, message, deliverAt, couponCode, useGiftBalance } = req.body;
+    const gift = await createBookGift(req.user!.id, req.params.id, {
+      recipientEmail,
+      recipientName,
+      message,
+      deliverAt,
+    });
+
+    const result = await createBookPurchaseOrder(req.params.id, req.user!.id, couponCode, {
+      giftId: gift._id.toString(),
+      useGiftBalance: !!useGiftBalance,
+    });
+
+    if (!result.success) {
+      await discardGift(gift._id.toString());
+      res.status(400).json({
+        success: false,
+        error: result.error,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        giftId: gift._id,
+        orderId: result.orderId,
+        approvalUrl: result.approvalUrl,
+        mockMode: result.mockMode,
+        paidWithBalance: result.paidWithBalance,
+      },
+    });
+  } catch (error) {
+    console.error('Create gift order error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to create gift order',
+    });
+  }
+};
+
+/**
+ * Buy a gift card for someone (captured like a book order)
+ * POST /api/book-purchases/gift-cards/create-order
+ */
+export const createGiftCardPurchase = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { amount, recipientEmail, recipientName, message, deliverAt } = req.body;
+    const gift = await createGiftCard(req.user!.id, Number(amount), {
+      recipientEmail,
+      recipientName,
+      message,
+      deliverAt,
+    });
+
+    const result = await createGiftCardOrder(gift, req.user!.id);
+
+    if (!result.success) {
+      await discardGift(gift._id.toString());
+      res.status(400).json({
+        success: false,
+        error: result.error,
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        giftId: gift._id,
+        orderId: result.orderId,
+        approvalUrl: result.approvalUrl,
+        mockMode: result.mockMode,
+      },
+    });
+  } catch (error) {
+    console.error('Create gift card order error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to create gift card order',
+    });
+  }
+};
+
+/**
+ * Price a book for the buyer: sale price and coupon discount
+ * GET /api/book-purchases/:id/quote?coupon=CODE
+ */
+export const getPriceQuote = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const book = await Book.findById(req.params.id);
+    if (!book || book.publishingStatus.status !== 'published') {
+      res.status(404).json({
+        success: false,
+        error: 'Book not found',
+      });
+      return;
+    }
+
+    const coupon = req.query.coupon ? String(req.query.coupon) : undefined;
+    const quote = await quoteBookPrice(book, coupon);
+
+    res.status(200).json({
+      success: true,
+      data: { quote },
+    });
+  } catch (error) {
+    console.error('Get price quote error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to price book',
+    });
+  }
+};
+
 /**
  * Capture payment after PayPal approval
  * POST /api/book-purchases/capture
@@ -121,25 +287,29 @@ export const capturePayment = async (req: AuthRequest, res: Response): Promise<v
       const author = await User.findById(metadata.authorId);
 
       if (book && buyer && author) {
+        const paid = transaction.amount + (metadata.giftBalanceUsed || 0);
+
         // Send purchase notification to author
         notifyBookPurchase(
           metadata.bookId,
           req.user.id,
           metadata.authorId,
-          transaction.amount,
+          paid,
           'USD'
         ).catch((err) => console.error('Failed to send purchase notification:', err));
 
-        // Send email confirmations
-        sendBookPurchaseEmail(
-          buyer.email,
-          buyer.name,
-          book.title,
-          author.name,
-          transaction.amount,
-          'USD',
-          metadata.bookId
-        ).catch((err) => console.error('Failed to send purchase email:', err));
+        // Send email confirmations (a gift's recipient gets its own email)
+        if (!metadata.giftId) {
+          sendBookPurchaseEmail(
+            buyer.email,
+            buyer.name,
+            book.title,
+            author.name,
+            paid,
+            'USD',
+            metadata.bookId
+          ).catch((err) => console.error('Failed to send purchase email:', err));
+        }
 
         sendSaleNotificationToAuthor(
           author.email,
@@ -214,6 +384,63 @@ export const checkAccess = async (req: AuthRequest, res: Response): Promise<void
   }
 };
 
+/**
+ * Ask for a refund of a purchased book
+ * POST /api/book-purchases/:id/refund
+ */
+export const requestBookRefund = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    const refund = await requestRefund(req.user.id, req.params.id, String(req.body.reason || ''));
+
+    res.status(201).json({
+      success: true,
+      message: 'Refund requested',
+      data: { refund },
+    });
+  } catch (error) {
+    console.error('Request refund error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to request refund',
+    });
+  }
+};
+
+/**
+ * Get the user's refund requests
+ * GET /api/book-purchases/refunds
+ */
+export const getMyRefunds = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: { refunds: await listMyRefunds(req.user.id) },
+    });
+  } catch (error) {
+    console.error('Get refunds error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get refunds',
+    });
+  }
+};
+
 /**
  * Get author earnings dashboard
  * GET /api/book-purchases/earnings
@@ -431,20 +658,23 @@ export const getBookForReading = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    // Check access
-    const access = await checkBookOwnership(req.user.id, bookId);
+    // Check access (buyers, free published books, the author and collaborators)
+    const decision = await canRead(req.user.id, bookId);
 
-    if (!access.owns) {
-      res.status(403).json({
+    if (!decision.allowed) {
+      res.status(decision.statusCode).json({
         success: false,
-        error: 'You do not have access to this book. Please purchase it first.',
-        requiresPurchase: true,
+        error: decision.reason,
+        ...(decision.requiresPurchase && { requiresPurchase: true }),
       });
       return;
     }
 
-    // Get full book data
+    const access = await checkBookOwnership(req.user.id, bookId);
+
+    // Get full book data (the team is the author's business, not the reader's)
     const book = await Book.findById(bookId)
+      .select('-collaborators')
       .populate('author', 'name profile.avatar profile.bio')
       .lean();
 
@@ -456,13 +686,17 @@ export const getBookForReading = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    // Increment view count (if not author)
-    if (!access.isAuthor) {
+    // Increment view count (if not author, collaborator or beta reader)
+    if (!access.isAuthor && !decision.role && !decision.betaAccessExpiresAt) {
       await Book.findByIdAndUpdate(bookId, {
         $inc: { 'statistics.views': 1 },
       });
     }
 
+    if (decision.betaAccessExpiresAt) {
+      await recordBetaOpen(req.user.id, bookId);
+    }
+
     // Get user's reading progress
     const user = await User.findById(req.user.id);
     const historyItem = user?.profile?.readingHistory?.find(
@@ -486,6 +720,8 @@ export const getBookForReading = async (req: AuthRequest, res: Response): Promis
         lastRead: historyItem?.lastRead,
         isAuthor: access.isAuthor,
         isFree: access.isFree,
+        collaboratorRole: decision.role,
+        betaAccessExpiresAt: decision.betaAccessExpiresAt,
       },
     });
   } catch (error: any) {
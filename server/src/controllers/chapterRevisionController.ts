@@ -0,0 +1,259 @@
+/**
+ * Chapter Revision Controller
+ * Handlers for chapter revision history, diff and restore endpoints
+ */
+
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { Book, IBook } from '../models/Book';
+import { ChapterRevision } from '../models/ChapterRevision';
+import { AuthRequest } from '../types';
+import {
+  diffWords,
+  getRevisionLimit,
+  restoreChapterRevision as restoreRevision,
+} from '../services/chapterRevisionService';
+import { getCollaboration, isChapterAssigned } from '../services/collaborationService';
+
+/**
+ * Load the book from :id and verify the caller is its author or a co-author.
+ * Sends the error response and returns null when access is denied.
+ */
+async function findOwnedBook(req: AuthRequest, res: Response): Promise<IBook | null> {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Authentication required',
+    });
+    return null;
+  }
+
+  const book = await Book.findById(req.params.id);
+
+  if (!book) {
+    res.status(404).json({
+      success: false,
+      error: 'Book not found',
+    });
+    return null;
+  }
+
+  if (book.author.toString() !== req.user.id && getCollaboration(book, req.user.id)?.role !== 'co-author') {
+    res.status(403).json({
+      success: false,
+      error: 'You do not have permission to access this book',
+    });
+    return null;
+  }
+
+  return book;
+}
+
+/**
+ * List revisions of a chapter (newest first, without content)
+ * GET /api/books/:id/chapters/:chapterId/revisions
+ */
+export const getChapterRevisions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const book = await findOwnedBook(req, res);
+    if (!book) return;
+
+    const { chapterId } = req.params;
+
+    const revisions = await ChapterRevision.find({ book: book._id, chapter: chapterId })
+      .sort({ createdAt: -1 })
+      .select('-content')
+      .populate('author', 'name')
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        revisions: revisions.map((rev) => ({
+          id: rev._id,
+          title: rev.title,
+          wordCount: rev.wordCount,
+          source: rev.source,
+          restoredFrom: rev.restoredFrom,
+          authorName: (rev.author as any)?.name,
+          createdAt: rev.createdAt,
+        })),
+        count: revisions.length,
+        retentionLimit: getRevisionLimit(req.user!.role),
+        chapterExists: book.chapters.some((ch) => ch._id?.toString() === chapterId),
+      },
+    });
+  } catch (error) {
+    console.error('Get chapter revisions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve chapter revisions',
+    });
+  }
+};
+
+/**
+ * Get a single revision including its content
+ * GET /api/books/:id/chapters/:chapterId/revisions/:revisionId
+ */
+export const getChapterRevision = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const book = await findOwnedBook(req, res);
+    if (!book) return;
+
+    const { chapterId, revisionId } = req.params;
+
+    const revision = await ChapterRevision.findOne({
+      _id: revisionId,
+      book: book._id,
+      chapter: chapterId,
+    });
+
+    if (!revision) {
+      res.status(404).json({
+        success: false,
+        error: 'Revision not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: {
+        revision: {
+          id: revision._id,
+          title: revision.title,
+          content: revision.content,
+          wordCount: revision.wordCount,
+          source: revision.source,
+          restoredFrom: revision.restoredFrom,
+          createdAt: revision.createdAt,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get chapter revision error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve revision',
+    });
+  }
+};
+
+/**
+ * Word-level diff between two revisions
+ * GET /api/books/:id/chapters/:chapterId/revisions/diff?from=<revisionId>&to=<revisionId|current>
+ */
+export const diffChapterRevisions = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const book = await findOwnedBook(req, res);
+    if (!book) return;
+
+    const { chapterId } = req.params;
+    const from = req.query.from as string;
+    const to = (req.query.to as string) || 'current';
+
+    const ids = [from, to].filter((id) => id !== 'current');
+    const revisions = await ChapterRevision.find({
+      _id: { $in: ids },
+      book: book._id,
+      chapter: chapterId,
+    });
+
+    const resolve = (id: string): { content: string; title: string } | null => {
+      if (id === 'current') {
+        const chapter = book.chapters.find((ch) => ch._id?.toString() === chapterId);
+        return chapter ? { content: chapter.content || '', title: chapter.title } : null;
+      }
+      const revision = revisions.find((rev) => (rev._id as mongoose.Types.ObjectId).toString() === id);
+      return revision ? { content: revision.content, title: revision.title } : null;
+    };
+
+    const previous = resolve(from);
+    const next = resolve(to);
+
+    if (!previous || !next) {
+      res.status(404).json({
+        success: false,
+        error: 'Revision not found',
+      });
+      return;
+    }
+
+    const diff = diffWords(previous.content, next.content);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        from,
+        to,
+        titleChanged: previous.title !== next.title,
+        ...diff,
+      },
+    });
+  } catch (error) {
+    console.error('Diff chapter revisions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compare revisions',
+    });
+  }
+};
+
+/**
+ * Restore a chapter to an earlier revision
+ * POST /api/books/:id/chapters/:chapterId/revisions/:revisionId/restore
+ */
+export const restoreChapterRevision = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const book = await findOwnedBook(req, res);
+    if (!book) return;
+
+    const { chapterId, revisionId } = req.params;
+
+    const collaboration = getCollaboration(book, req.user!.id);
+    if (collaboration && !isChapterAssigned(collaboration, chapterId)) {
+      res.status(403).json({
+        success: false,
+        error: 'You can only change the chapters assigned to you',
+      });
+      return;
+    }
+
+    const revision = await ChapterRevision.findOne({
+      _id: revisionId,
+      book: book._id,
+      chapter: chapterId,
+    });
+
+    if (!revision) {
+      res.status(404).json({
+        success: false,
+        error: 'Revision not found',
+      });
+      return;
+    }
+
+    const restored = await restoreRevision(book, revision, req.user!.id, req.user!.role);
+
+    res.status(200).json({
+      success: true,
+      message: 'Chapter restored successfully',
+      data: {
+        revisionId: restored._id,
+        book: {
+          id: book._id,
+          chapters: book.chapters,
+          statistics: book.statistics,
+          updatedAt: book.updatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Restore chapter revision error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore revision',
+    });
+  }
+};
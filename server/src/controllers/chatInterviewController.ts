@@ -7,14 +7,38 @@ import { Response } from 'express';
 import { AuthRequest } from '../types';
 import {
   createInterview,
-  getInterview,
-  deleteInterview,
   generateFirstMessage,
   processUserMessage,
   generateSummary,
   getInterviewProgress,
   canCompleteEarly,
+  ChatInterviewState,
 } from '../services/chatInterviewService';
+import {
+  getInterviewProgress as getVoiceInterviewProgress,
+  InterviewState as VoiceInterviewState,
+} from '../services/aiInterviewService';
+import {
+  saveInterviewSession,
+  loadInterviewSession,
+  deleteInterviewSession,
+  listUnfinishedInterviewSessions,
+} from '../services/interviewSessionService';
+import { InterviewKind } from '../models/InterviewSession';
+
+// Interview state as returned to the client
+function toClientState(state: ChatInterviewState) {
+  return {
+    id: state.id,
+    currentTopic: state.currentTopic,
+    questionsAsked: state.questionsAsked,
+    messages: state.messages,
+    isComplete: state.isComplete,
+    progress: getInterviewProgress(state),
+    canCompleteEarly: canCompleteEarly(state),
+    language: state.language,
+  };
+}
 
 /**
  * Start a new AI interview
@@ -25,6 +49,14 @@ export const startInterview = async (
   res: Response
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
     const { genre, targetAudience, language = 'he' } = req.body;
 
     // Validate language
@@ -36,19 +68,12 @@ export const startInterview = async (
     // Generate first AI message
     const firstMessage = await generateFirstMessage(state);
 
+    await saveInterviewSession(req.user.id, 'chat', state);
+
     res.status(200).json({
       success: true,
       data: {
-        state: {
-          id: state.id,
-          currentTopic: state.currentTopic,
-          questionsAsked: state.questionsAsked,
-          messages: state.messages,
-          isComplete: state.isComplete,
-          progress: getInterviewProgress(state),
-          canCompleteEarly: canCompleteEarly(state),
-          language: state.language,
-        },
+        state: toClientState(state),
         firstMessage,
       },
     });
@@ -61,6 +86,61 @@ export const startInterview = async (
   }
 };
 
+/**
+ * List the user's unfinished chat and voice interviews
+ * GET /api/ai/interview/mine
+ */
+export const getMyInterviews = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    const kind = ['chat', 'voice'].includes(req.query.kind as string)
+      ? (req.query.kind as InterviewKind)
+      : undefined;
+
+    const sessions = await listUnfinishedInterviewSessions(req.user.id, kind);
+
+    res.status(200).json({
+      success: true,
+      data: sessions.map((session) => {
+        const progress =
+          session.kind === 'chat'
+            ? getInterviewProgress(session.state as ChatInterviewState)
+            : getVoiceInterviewProgress(session.state as VoiceInterviewState);
+
+        return {
+          id: session.interviewId,
+          kind: session.kind,
+          bookId: session.book,
+          genre: session.state.genre,
+          language: session.state.language,
+          currentTopic: session.state.currentTopic,
+          questionsAsked: session.state.questionsAsked,
+          progress,
+          startedAt: session.state.startedAt,
+          updatedAt: session.updatedAt,
+          expiresAt: session.expiresAt,
+        };
+      }),
+    });
+  } catch (error: any) {
+    console.error('Error listing interviews:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to list interviews',
+    });
+  }
+};
+
 /**
  * Send a message and get AI response
  * POST /api/ai/interview/:id/message
@@ -70,6 +150,14 @@ export const sendMessage = async (
   res: Response
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
     const { id } = req.params;
     const { message } = req.body;
 
@@ -82,9 +170,9 @@ export const sendMessage = async (
     }
 
     // Get interview state
-    const state = getInterview(id);
+    const session = await loadInterviewSession(req.user.id, 'chat', id);
 
-    if (!state) {
+    if (!session) {
       res.status(404).json({
         success: false,
         error: 'Interview not found',
@@ -92,6 +180,8 @@ export const sendMessage = async (
       return;
     }
 
+    const state = session.state as ChatInterviewState;
+
     if (state.isComplete) {
       res.status(400).json({
         success: false,
@@ -103,19 +193,12 @@ export const sendMessage = async (
     // Process message and get AI response
     const result = await processUserMessage(state, message);
 
+    await saveInterviewSession(req.user.id, 'chat', result.state);
+
     res.status(200).json({
       success: true,
       data: {
-        state: {
-          id: result.state.id,
-          currentTopic: result.state.currentTopic,
-          questionsAsked: result.state.questionsAsked,
-          messages: result.state.messages,
-          isComplete: result.state.isComplete,
-          progress: getInterviewProgress(result.state),
-          canCompleteEarly: canCompleteEarly(result.state),
-          language: result.state.language,
-        },
+        state: toClientState(result.state),
         aiMessage: result.aiMessage,
         topicTransition: result.topicTransition,
       },
@@ -138,11 +221,19 @@ export const getInterviewState = async (
   res: Response
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
     const { id } = req.params;
 
-    const state = getInterview(id);
+    const session = await loadInterviewSession(req.user.id, 'chat', id);
 
-    if (!state) {
+    if (!session) {
       res.status(404).json({
         success: false,
         error: 'Interview not found',
@@ -152,15 +243,7 @@ export const getInterviewState = async (
 
     res.status(200).json({
       success: true,
-      data: {
-        id: state.id,
-        currentTopic: state.currentTopic,
-        questionsAsked: state.questionsAsked,
-        messages: state.messages,
-        isComplete: state.isComplete,
-        progress: getInterviewProgress(state),
-        canCompleteEarly: canCompleteEarly(state),
-      },
+      data: toClientState(session.state as ChatInterviewState),
     });
   } catch (error: any) {
     console.error('Error getting interview state:', error);
@@ -180,11 +263,19 @@ export const completeInterview = async (
   res: Response
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
     const { id } = req.params;
 
-    const state = getInterview(id);
+    const session = await loadInterviewSession(req.user.id, 'chat', id);
 
-    if (!state) {
+    if (!session) {
       res.status(404).json({
         success: false,
         error: 'Interview not found',
@@ -192,11 +283,14 @@ export const completeInterview = async (
       return;
     }
 
+    const state = session.state as ChatInterviewState;
+
     // Generate summary
     const summary = await generateSummary(state);
 
     // Mark as complete
     state.isComplete = true;
+    await saveInterviewSession(req.user.id, 'chat', state);
 
     res.status(200).json({
       success: true,
@@ -220,11 +314,19 @@ export const cancelInterview = async (
   res: Response
 ): Promise<void> => {
   try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
     const { id } = req.params;
 
-    const state = getInterview(id);
+    const deleted = await deleteInterviewSession(req.user.id, 'chat', id);
 
-    if (!state) {
+    if (!deleted) {
       res.status(404).json({
         success: false,
         error: 'Interview not found',
@@ -232,8 +334,6 @@ export const cancelInterview = async (
       return;
     }
 
-    deleteInterview(id);
-
     res.status(200).json({
       success: true,
       message: 'Interview cancelled',
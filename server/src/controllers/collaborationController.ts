@@ -0,0 +1,158 @@
+/**
+ * Collaboration Controller
+ * Handlers for a book's team: invitations, roles, chapter assignments
+ * and revenue shares
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  listCollaborators,
+  inviteCollaborator as inviteBookCollaborator,
+  updateCollaborator as updateBookCollaborator,
+  removeCollaborator as removeBookCollaborator,
+  respondToInvitation as respondToBookInvitation,
+  getUserCollaborations,
+} from '../services/collaborationService';
+import { AppError } from '../utils/errors';
+
+/**
+ * Books the user was invited to or works on with their author
+ * GET /api/books/collaborations
+ */
+export const getMyCollaborations = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const collaborations = await getUserCollaborations(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { collaborations },
+    });
+  } catch (error) {
+    console.error('Get collaborations error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get collaborations',
+    });
+  }
+};
+
+/**
+ * List the book's collaborators
+ * GET /api/books/:id/collaborators
+ */
+export const getCollaborators = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const collaborators = await listCollaborators(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: { collaborators },
+    });
+  } catch (error) {
+    console.error('Get collaborators error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get collaborators',
+    });
+  }
+};
+
+/**
+ * Invite a user to the book by email
+ * POST /api/books/:id/collaborators
+ */
+export const inviteCollaborator = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { email, role, chapters, revenueShare } = req.body;
+
+    const collaborator = await inviteBookCollaborator(req.user!.id, req.params.id, {
+      email,
+      role,
+      chapters,
+      revenueShare,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Invitation sent',
+      data: { collaborator },
+    });
+  } catch (error) {
+    console.error('Invite collaborator error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to invite collaborator',
+    });
+  }
+};
+
+/**
+ * Change a collaborator's role, chapters or revenue share
+ * PATCH /api/books/:id/collaborators/:collaboratorId
+ */
+export const updateCollaborator = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { role, chapters, revenueShare } = req.body;
+
+    const collaborator = await updateBookCollaborator(req.params.id, req.params.collaboratorId, {
+      role,
+      chapters,
+      revenueShare,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { collaborator },
+    });
+  } catch (error) {
+    console.error('Update collaborator error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to update collaborator',
+    });
+  }
+};
+
+/**
+ * Remove a collaborator, or leave the book
+ * DELETE /api/books/:id/collaborators/:collaboratorId
+ */
+export const removeCollaborator = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await removeBookCollaborator(req.user!.id, req.params.id, req.params.collaboratorId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Collaborator removed',
+    });
+  } catch (error) {
+    console.error('Remove collaborator error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to remove collaborator',
+    });
+  }
+};
+
+/**
+ * Accept or decline an invitation to the book
+ * POST /api/books/:id/collaborators/respond
+ */
+export const respondToInvitation = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const collaborator = await respondToBookInvitation(req.user!.id, req.params.id, req.body.accept);
+
+    res.status(200).json({
+      success: true,
+      message: req.body.accept ? 'Invitation accepted' : 'Invitation declined',
+      data: { collaborator },
+    });
+  } catch (error) {
+    console.error('Respond to invitation error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to respond to invitation',
+    });
+  }
+};
@@ -0,0 +1,198 @@
+/**
+ * Comment Thread Controller
+ * Handlers for comments and suggested edits on a chapter draft
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  listThreads,
+  createThread,
+  replyToThread,
+  setThreadResolved,
+  acceptSuggestion as acceptChapterSuggestion,
+  rejectSuggestion as rejectChapterSuggestion,
+  deleteThread,
+} from '../services/commentThreadService';
+import { AppError } from '../utils/errors';
+
+/**
+ * List a chapter's comment threads and suggestions
+ * GET /api/books/:id/chapters/:chapterId/comments
+ */
+export const getCommentThreads = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const threads = await listThreads(req.params.id, req.params.chapterId);
+
+    res.status(200).json({
+      success: true,
+      data: { threads },
+    });
+  } catch (error) {
+    console.error('Get comment threads error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get comments',
+    });
+  }
+};
+
+/**
+ * Comment on a passage or suggest an edit
+ * POST /api/books/:id/chapters/:chapterId/comments
+ */
+export const createCommentThread = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { kind, startOffset, endOffset, exact, body, text } = req.body;
+
+    const thread = await createThread(req.user!.id, req.params.id, req.params.chapterId, {
+      kind,
+      startOffset,
+      endOffset,
+      exact,
+      body,
+      text,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { thread },
+    });
+  } catch (error) {
+    console.error('Create comment thread error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to add comment',
+    });
+  }
+};
+
+/**
+ * Reply to a thread
+ * POST /api/books/:id/chapters/:chapterId/comments/:threadId/replies
+ */
+export const replyToCommentThread = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const thread = await replyToThread(
+      req.user!.id,
+      req.params.id,
+      req.params.chapterId,
+      req.params.threadId,
+      req.body.body
+    );
+
+    res.status(201).json({
+      success: true,
+      data: { thread },
+    });
+  } catch (error) {
+    console.error('Reply to comment thread error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to reply',
+    });
+  }
+};
+
+/**
+ * Resolve or reopen a comment
+ * PATCH /api/books/:id/chapters/:chapterId/comments/:threadId
+ */
+export const resolveCommentThread = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const thread = await setThreadResolved(
+      req.user!.id,
+      req.params.id,
+      req.params.chapterId,
+      req.params.threadId,
+      req.body.resolved
+    );
+
+    res.status(200).json({
+      success: true,
+      data: { thread },
+    });
+  } catch (error) {
+    console.error('Resolve comment thread error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to update comment',
+    });
+  }
+};
+
+/**
+ * Apply a suggested edit to the chapter
+ * POST /api/books/:id/chapters/:chapterId/comments/:threadId/accept
+ */
+export const acceptSuggestion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { thread, chapter } = await acceptChapterSuggestion(
+      req.user!.id,
+      req.user!.role,
+      req.params.id,
+      req.params.chapterId,
+      req.params.threadId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Suggestion accepted',
+      data: { thread, chapter },
+    });
+  } catch (error) {
+    console.error('Accept suggestion error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to accept suggestion',
+    });
+  }
+};
+
+/**
+ * Reject (or withdraw) a suggested edit
+ * POST /api/books/:id/chapters/:chapterId/comments/:threadId/reject
+ */
+export const rejectSuggestion = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const thread = await rejectChapterSuggestion(
+      req.user!.id,
+      req.params.id,
+      req.params.chapterId,
+      req.params.threadId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Suggestion rejected',
+      data: { thread },
+    });
+  } catch (error) {
+    console.error('Reject suggestion error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to reject suggestion',
+    });
+  }
+};
+
+/**
+ * Delete a thread
+ * DELETE /api/books/:id/chapters/:chapterId/comments/:threadId
+ */
+export const deleteCommentThread = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await deleteThread(req.user!.id, req.params.id, req.params.chapterId, req.params.threadId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Thread deleted',
+    });
+  } catch (error) {
+    console.error('Delete comment thread error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to delete thread',
+    });
+  }
+};
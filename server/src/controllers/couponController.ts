@@ -0,0 +1,150 @@
+/**
+ * Coupon Controller
+ * Handlers for an author's discount codes and books' scheduled sales
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  listCoupons,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  setBookSale,
+  clearBookSale,
+  CouponInput,
+} from '../services/couponService';
+import { AppError } from '../utils/errors';
+
+function couponInput(body: any): CouponInput {
+  const { code, discountType, value, books, maxRedemptions, startsAt, expiresAt, active } = body;
+  return { code, discountType, value, books, maxRedemptions, startsAt, expiresAt, active };
+}
+
+/**
+ * List the author's coupons with their redemption stats
+ * GET /api/user/coupons
+ */
+export const getMyCoupons = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const coupons = await listCoupons(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { coupons },
+    });
+  } catch (error) {
+    console.error('Get coupons error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get coupons',
+    });
+  }
+};
+
+/**
+ * Create a coupon
+ * POST /api/user/coupons
+ */
+export const createMyCoupon = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const coupon = await createCoupon(req.user!.id, couponInput(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: { coupon },
+    });
+  } catch (error) {
+    console.error('Create coupon error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to create coupon',
+    });
+  }
+};
+
+/**
+ * Change a coupon
+ * PUT /api/user/coupons/:id
+ */
+export const updateMyCoupon = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const coupon = await updateCoupon(req.user!.id, req.params.id, couponInput(req.body));
+
+    res.status(200).json({
+      success: true,
+      data: { coupon },
+    });
+  } catch (error) {
+    console.error('Update coupon error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to update coupon',
+    });
+  }
+};
+
+/**
+ * Delete a coupon (one that was used is switched off instead)
+ * DELETE /api/user/coupons/:id
+ */
+export const deleteMyCoupon = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const deleted = await deleteCoupon(req.user!.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: deleted ? 'Coupon deleted' : 'Coupon was used, so it was switched off instead',
+      data: { deleted },
+    });
+  } catch (error) {
+    console.error('Delete coupon error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to delete coupon',
+    });
+  }
+};
+
+/**
+ * Schedule a sale price for a book
+ * PUT /api/books/:id/sale
+ */
+export const scheduleBookSale = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { price, startsAt, endsAt } = req.body;
+    const book = await setBookSale(req.params.id, { price, startsAt, endsAt });
+
+    res.status(200).json({
+      success: true,
+      data: { sale: book.publishingStatus.sale },
+    });
+  } catch (error) {
+    console.error('Schedule sale error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to schedule sale',
+    });
+  }
+};
+
+/**
+ * End or cancel a book's sale
+ * DELETE /api/books/:id/sale
+ */
+export const cancelBookSale = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await clearBookSale(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Sale cancelled',
+    });
+  } catch (error) {
+    console.error('Cancel sale error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to cancel sale',
+    });
+  }
+};
@@ -0,0 +1,121 @@
+/**
+ * Gift Controller
+ * Handlers for claim links, sent and received gifts and the gift card
+ * balance. Gifts are bought through /api/book-purchases.
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  previewGift,
+  claimGift,
+  listSentGifts,
+  listReceivedGifts,
+  getGiftCardBalance,
+} from '../services/giftService';
+import { AppError } from '../utils/errors';
+
+/**
+ * What a claim link holds, before signing in
+ * GET /api/gifts/claim/:token
+ */
+export const getGiftPreview = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const gift = await previewGift(req.params.token);
+
+    res.status(200).json({
+      success: true,
+      data: { gift },
+    });
+  } catch (error) {
+    console.error('Get gift preview error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get gift',
+    });
+  }
+};
+
+/**
+ * Claim a gift into the signed-in user's library or balance
+ * POST /api/gifts/claim
+ */
+export const claimMyGift = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const claim = await claimGift(req.user!.id, req.body.token);
+
+    res.status(200).json({
+      success: true,
+      data: { claim },
+    });
+  } catch (error) {
+    console.error('Claim gift error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to claim gift',
+    });
+  }
+};
+
+/**
+ * Gifts the user has sent
+ * GET /api/gifts/sent
+ */
+export const getSentGifts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const gifts = await listSentGifts(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { gifts },
+    });
+  } catch (error) {
+    console.error('Get sent gifts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get sent gifts',
+    });
+  }
+};
+
+/**
+ * Gifts the user has claimed
+ * GET /api/gifts/received
+ */
+export const getReceivedGifts = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const gifts = await listReceivedGifts(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { gifts },
+    });
+  } catch (error) {
+    console.error('Get received gifts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get received gifts',
+    });
+  }
+};
+
+/**
+ * The user's gift card balance
+ * GET /api/gifts/balance
+ */
+export const getBalance = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const balance = await getGiftCardBalance(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { balance },
+    });
+  } catch (error) {
+    console.error('Get gift card balance error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get gift card balance',
+    });
+  }
+};
@@ -5,11 +5,42 @@
 
 import { Response } from 'express';
 import mongoose from 'mongoose';
-import { Message, Conversation } from '../models/Message';
+import { Message, Conversation, IConversation } from '../models/Message';
 import { User } from '../models/User';
 import { Book } from '../models/Book';
 import { AuthRequest } from '../types';
 import { notifyNewMessage } from '../services/notificationService';
+import { emitToUsers } from '../services/realtimeService';
+
+/**
+ * Mark the other participants' messages as read for a user, reset their
+ * unread count and send a read receipt to the open clients of everyone
+ * in the conversation
+ */
+const markConversationReadFor = async (conversation: IConversation, userId: string): Promise<void> => {
+  const readAt = new Date();
+  const result = await Message.updateMany(
+    {
+      conversation: conversation._id,
+      sender: { $ne: userId },
+      readAt: null,
+    },
+    { readAt }
+  );
+
+  if (result.modifiedCount === 0 && !conversation.unreadCount.get(userId)) {
+    return;
+  }
+
+  conversation.unreadCount.set(userId, 0);
+  await conversation.save();
+
+  emitToUsers(
+    conversation.participants.map((p) => p.toString()),
+    'message:read',
+    { conversationId: conversation._id.toString(), readerId: userId, readAt }
+  );
+};
 
 /**
  * Start or get existing conversation with an author about a book
@@ -196,6 +227,13 @@ export const sendMessage = async (req: AuthRequest, res: Response): Promise<void
     // Populate sender info
     await message.populate('sender', 'name profilePicture');
 
+    // Deliver to open clients (including the sender's other devices)
+    emitToUsers(
+      conversation.participants.map((p) => p.toString()),
+      'message:new',
+      { conversationId, message }
+    );
+
     res.status(201).json({
       success: true,
       data: { message },
@@ -307,19 +345,8 @@ export const getMessages = async (req: AuthRequest, res: Response): Promise<void
 
     const total = await Message.countDocuments({ conversation: conversationId });
 
-    // Mark messages as read
-    await Message.updateMany(
-      {
-        conversation: conversationId,
-        sender: { $ne: req.user.id },
-        readAt: null,
-      },
-      { readAt: new Date() }
-    );
-
-    // Reset unread count for current user
-    conversation.unreadCount.set(req.user.id, 0);
-    await conversation.save();
+    // Mark messages as read and reset unread count for current user
+    await markConversationReadFor(conversation, req.user.id);
 
     res.status(200).json({
       success: true,
@@ -342,6 +369,50 @@ export const getMessages = async (req: AuthRequest, res: Response): Promise<void
   }
 };
 
+/**
+ * Mark a conversation as read (e.g. a message arrived while it was open)
+ * POST /api/messages/conversation/:conversationId/read
+ */
+export const markConversationRead = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const { conversationId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(conversationId)) {
+      res.status(400).json({ success: false, error: 'Invalid conversation ID' });
+      return;
+    }
+
+    const conversation = await Conversation.findById(conversationId);
+    if (!conversation) {
+      res.status(404).json({ success: false, error: 'Conversation not found' });
+      return;
+    }
+
+    if (!conversation.participants.some((p) => p.toString() === req.user!.id)) {
+      res.status(403).json({ success: false, error: 'Not a participant in this conversation' });
+      return;
+    }
+
+    await markConversationReadFor(conversation, req.user.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Conversation marked as read',
+    });
+  } catch (error: any) {
+    console.error('Mark conversation read error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to mark conversation as read',
+    });
+  }
+};
+
 /**
  * Get total unread message count for user
  * GET /api/messages/unread-count
@@ -1,4 +1,4 @@
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { User, UserRole } from '../models/User';
 import { Transaction } from '../models/Transaction';
 import { AuthRequest } from '../types';
@@ -7,6 +7,9 @@ import {
   sendSubscriptionUpgradeEmail,
   sendPayPalReceiptEmail,
 } from '../services/emailService';
+import { UNLIMITED_CREDITS, recordBalanceChange, expireSubscription } from '../services/creditService';
+import { verifyWebhookSignature } from '../services/paypalService';
+import { handlePayPalEvent, PayPalWebhookEvent } from '../services/refundService';
 
 /**
  * Payment Controller
@@ -70,6 +73,9 @@ export const createOrder = async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
+    // A plan whose period ended can be bought again: paying is how it renews
+    await expireSubscription(user);
+
     // Check if user is already on this plan or higher
     if (
       (planType === 'standard' && (user.role === UserRole.STANDARD || user.role === UserRole.PREMIUM)) ||
@@ -207,7 +213,7 @@ export const captureOrder = async (req: AuthRequest, res: Response): Promise<voi
 
       // Update user subscription
       user.role = planDetails.tier;
-      user.credits = planDetails.credits === -1 ? 999999 : planDetails.credits;
+      user.credits = planDetails.credits === -1 ? UNLIMITED_CREDITS : planDetails.credits;
 
       const now = new Date();
       const endDate = new Date(now);
@@ -238,6 +244,14 @@ export const captureOrder = async (req: AuthRequest, res: Response): Promise<voi
       };
       await transaction.save();
 
+      recordBalanceChange(
+        String(user._id),
+        'subscription',
+        previousCredits,
+        user.credits,
+        `Upgraded to ${transaction.plan} plan (order ${transaction.orderId || transaction._id})`
+      ).catch((err) => console.error('Failed to record credit change:', err));
+
       console.log(`✅ [MOCK MODE] Order captured successfully`);
       console.log(`✅ User upgraded: ${previousPlan} → ${user.role}`);
       console.log(`✅ Credits updated: ${previousCredits} → ${user.credits}`);
@@ -372,3 +386,36 @@ export const getTransactionHistory = async (req: AuthRequest, res: Response): Pr
     });
   }
 };
+
+/**
+ * Receive PayPal webhook events (refunds and chargebacks of book purchases).
+ * Events are verified with PayPal; anything else unsigned is refused.
+ * POST /api/payments/webhook/paypal
+ */
+export const handlePayPalWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const event = req.body as PayPalWebhookEvent;
+
+    if (!event?.event_type || !(await verifyWebhookSignature(req.headers, event))) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid webhook signature',
+      });
+      return;
+    }
+
+    const applied = await handlePayPalEvent(event);
+
+    res.status(200).json({
+      success: true,
+      data: { applied },
+    });
+  } catch (error) {
+    // A 500 makes PayPal retry the event later
+    console.error('PayPal webhook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process webhook',
+    });
+  }
+};
@@ -0,0 +1,171 @@
+/**
+ * Series Controller
+ * Handlers for series pages, "next in series" and an author's series
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  listSeries,
+  createSeries,
+  updateSeries,
+  deleteSeries,
+  listPublishedSeries,
+  getSeriesDetails,
+  getNextInSeries,
+  SeriesInput,
+} from '../services/seriesService';
+import { AppError } from '../utils/errors';
+
+function seriesInput(body: any): SeriesInput {
+  const { title, description, coverImageUrl, books, bundlePrice } = body;
+  return { title, description, coverImageUrl, books, bundlePrice };
+}
+
+/**
+ * List series with published books, for the marketplace
+ * GET /api/series
+ */
+export const getPublishedSeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 12, 50);
+    const series = await listPublishedSeries(limit);
+
+    res.status(200).json({
+      success: true,
+      data: { series },
+    });
+  } catch (error) {
+    console.error('Get published series error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get series',
+    });
+  }
+};
+
+/**
+ * A series page, with the bundle priced for the signed-in reader
+ * GET /api/series/:id
+ */
+export const getSeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const series = await getSeriesDetails(req.params.id, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      data: { series },
+    });
+  } catch (error) {
+    console.error('Get series error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get series',
+    });
+  }
+};
+
+/**
+ * The book that follows this one in its series
+ * GET /api/series/by-book/:id/next
+ */
+export const getNextBook = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const next = await getNextInSeries(req.params.id, req.user?.id);
+
+    res.status(200).json({
+      success: true,
+      data: { next },
+    });
+  } catch (error) {
+    console.error('Get next in series error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get next in series',
+    });
+  }
+};
+
+/**
+ * List the author's series
+ * GET /api/series/mine
+ */
+export const getMySeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const series = await listSeries(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { series },
+    });
+  } catch (error) {
+    console.error('Get my series error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get series',
+    });
+  }
+};
+
+/**
+ * Create a series
+ * POST /api/series
+ */
+export const createMySeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const series = await createSeries(req.user!.id, seriesInput(req.body));
+
+    res.status(201).json({
+      success: true,
+      data: { series },
+    });
+  } catch (error) {
+    console.error('Create series error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to create series',
+    });
+  }
+};
+
+/**
+ * Change a series or its book order
+ * PUT /api/series/:id
+ */
+export const updateMySeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const series = await updateSeries(req.user!.id, req.params.id, seriesInput(req.body));
+
+    res.status(200).json({
+      success: true,
+      data: { series },
+    });
+  } catch (error) {
+    console.error('Update series error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to update series',
+    });
+  }
+};
+
+/**
+ * Delete a series (its books stay as they are)
+ * DELETE /api/series/:id
+ */
+export const deleteMySeries = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await deleteSeries(req.user!.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Series deleted',
+    });
+  } catch (error) {
+    console.error('Delete series error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to delete series',
+    });
+  }
+};
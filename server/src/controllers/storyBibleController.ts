@@ -0,0 +1,113 @@
+/**
+ * Story Bible Controller
+ * Handlers for a book's worldbuilding entries: locations, items,
+ * factions, glossary terms and timeline events
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import { listEntries, createEntry, updateEntry, deleteEntry } from '../services/storyBibleService';
+import { AppError } from '../utils/errors';
+
+/**
+ * List the story bible with the chapters mentioning each entry
+ * GET /api/books/:id/story-bible
+ */
+export const getStoryBible = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const entries = await listEntries(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: { entries },
+    });
+  } catch (error) {
+    console.error('Get story bible error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get story bible',
+    });
+  }
+};
+
+/**
+ * Add a story bible entry
+ * POST /api/books/:id/story-bible
+ */
+export const createStoryBibleEntry = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { type, name, aliases, description, chapters, inWorldDate, order } = req.body;
+
+    const entry = await createEntry(req.user!.id, req.params.id, {
+      type,
+      name,
+      aliases,
+      description,
+      chapters,
+      inWorldDate,
+      order,
+    });
+
+    res.status(201).json({
+      success: true,
+      data: { entry },
+    });
+  } catch (error) {
+    console.error('Create story bible entry error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to create story bible entry',
+    });
+  }
+};
+
+/**
+ * Edit a story bible entry
+ * PATCH /api/books/:id/story-bible/:entryId
+ */
+export const updateStoryBibleEntry = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { name, aliases, description, chapters, inWorldDate, order } = req.body;
+
+    const entry = await updateEntry(req.params.id, req.params.entryId, {
+      name,
+      aliases,
+      description,
+      chapters,
+      inWorldDate,
+      order,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { entry },
+    });
+  } catch (error) {
+    console.error('Update story bible entry error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to update story bible entry',
+    });
+  }
+};
+
+/**
+ * Remove a story bible entry
+ * DELETE /api/books/:id/story-bible/:entryId
+ */
+export const deleteStoryBibleEntry = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await deleteEntry(req.params.id, req.params.entryId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Story bible entry removed',
+    });
+  } catch (error) {
+    console.error('Delete story bible entry error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to remove story bible entry',
+    });
+  }
+};
@@ -2,6 +2,7 @@ import { Response } from 'express';
 import { User, UserRole } from '../models/User';
 import { AuthRequest } from '../types';
 import { notifySubscriptionChange } from '../services/notificationService';
+import { UNLIMITED_CREDITS, recordBalanceChange } from '../services/creditService';
 
 // Plan details as per Section 3.1
 const PLANS = {
@@ -115,10 +116,11 @@ export const upgradeSubscription = async (
 
     const planDetails = PLANS[plan as keyof typeof PLANS];
     const previousRole = user.role;
+    const previousCredits = user.credits;
 
     // Update user role and credits
     user.role = planDetails.tier;
-    user.credits = planDetails.credits === -1 ? 999999 : planDetails.credits;
+    user.credits = planDetails.credits === -1 ? UNLIMITED_CREDITS : planDetails.credits;
 
     // Update subscription details
     const now = new Date();
@@ -137,6 +139,9 @@ export const upgradeSubscription = async (
 
     await user.save();
 
+    recordBalanceChange(String(user._id), 'subscription', previousCredits, user.credits, `Switched to ${plan} plan`)
+      .catch((err) => console.error('Failed to record credit change:', err));
+
     // Determine if this is an upgrade or downgrade
     const planLevels: Record<string, number> = {
       [UserRole.FREE]: 0,
@@ -2,7 +2,12 @@ import { Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { User } from '../models/User';
 import { Book } from '../models/Book';
+import { CreditLedger } from '../models/CreditLedger';
 import { AuthRequest } from '../types';
+import { expireSubscription, hasUnlimitedCredits } from '../services/creditService';
+import { reindexBookSearch } from '../services/bookSearchService';
+import { getEarningsSummary, reservePayout } from '../services/earningsLedgerService';
+import { AppError } from '../utils/errors';
 
 /**
  * Get user earnings data
@@ -55,22 +60,20 @@ export const getEarnings = async (req: AuthRequest, res: Response): Promise<void
       monthlySales[thisMonth] += revenue;
     });
 
-    // Author gets 50% of revenue
-    const authorEarnings = totalRevenue * 0.5;
-
-    // Get user to check withdrawal history
-    const user = await User.findById(userId).select('profile');
-    const withdrawn = user?.profile?.earnings?.withdrawn || 0;
-    const available = authorEarnings - withdrawn;
+    // Earned, owed and paid out, from the earnings ledger
+    const earnings = await getEarningsSummary(userId);
+    const pending = earnings.history
+      .filter((payout) => payout.status === 'pending')
+      .reduce((sum, payout) => sum + payout.amount, 0);
 
     res.status(200).json({
       success: true,
       data: {
         earnings: {
-          total: authorEarnings,
-          available,
-          withdrawn,
-          pending: 0, // Placeholder for pending payouts
+          total: earnings.totalEarned,
+          available: earnings.pendingPayout,
+          withdrawn: earnings.withdrawn,
+          pending,
         },
         sales: {
           totalBooks: books.length,
@@ -138,12 +141,20 @@ export const updateProfile = async (req: AuthRequest, res: Response): Promise<vo
     }
 
     // Update fields
+    const nameChanged = !!name && name !== user.name;
     if (name) user.name = name;
     if (bio !== undefined) user.profile.bio = bio;
     if (avatar) user.profile.avatar = avatar;
 
     await user.save();
 
+    // Keep the author name in the marketplace search index current
+    if (nameChanged) {
+      reindexBookSearch({ author: user._id }).catch((err) =>
+        console.error('Failed to reindex author books:', err)
+      );
+    }
+
     res.status(200).json({
       success: true,
       message: 'Profile updated successfully',
@@ -283,48 +294,15 @@ export const requestWithdrawal = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    // Calculate available balance
-    const books = await Book.find({
-      author: req.user.id,
-      'publishingStatus.status': 'published',
-    }).select('statistics');
-
-    const totalRevenue = books.reduce(
-      (sum, book) => sum + (book.statistics?.revenue || 0),
-      0
-    );
-    const authorEarnings = totalRevenue * 0.5;
-    const withdrawn = user.profile?.earnings?.withdrawn || 0;
-    const available = authorEarnings - withdrawn;
-
-    if (amount > available) {
-      res.status(400).json({
-        success: false,
-        error: `Insufficient balance. Available: $${available.toFixed(2)}`,
-      });
-      return;
-    }
-
-    // Initialize profile and earnings if they don't exist
-    if (!user.profile) {
-      user.profile = {};
-    }
-    if (!user.profile.earnings) {
-      user.profile.earnings = { totalEarned: 0, pendingPayout: 0, withdrawn: 0, history: [] };
-    }
-
-    // In production, integrate with PayPal Payouts API
-    // For now, just update the withdrawn amount
-    user.profile.earnings.withdrawn += amount;
-    user.profile.earnings.history.push({
-      amount,
-      date: new Date(),
+    // Set the amount aside in the earnings ledger; it is sent to PayPal
+    // manually, so the payout stays pending
+    await reservePayout(req.user.id, {
+      paypalEmail: user.paypal.email,
+      minimum: 10,
       status: 'pending',
-      paypalEmail: user.paypal?.email || '',
+      amount,
     });
 
-    await user.save();
-
     res.status(200).json({
       success: true,
       message: 'Withdrawal request submitted successfully',
@@ -338,9 +316,9 @@ export const requestWithdrawal = async (req: AuthRequest, res: Response): Promis
     });
   } catch (error) {
     console.error('Withdrawal request error:', error);
-    res.status(500).json({
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
       success: false,
-      error: 'Failed to process withdrawal request',
+      error: error instanceof AppError ? error.message : 'Failed to process withdrawal request',
     });
   }
 };
@@ -592,3 +570,98 @@ export const followUser = async (req: AuthRequest, res: Response): Promise<void>
     });
   }
 };
+
+/**
+ * Get the credit balance and ledger history
+ * GET /api/users/credits/history
+ */
+export const getCreditHistory = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Authentication required',
+      });
+      return;
+    }
+
+    const user = await User.findById(req.user.id);
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found',
+      });
+      return;
+    }
+
+    await expireSubscription(user);
+
+    const page = Math.max(parseInt(req.query.page as string, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 20, 1), 100);
+    const type = typeof req.query.type === 'string' ? req.query.type : undefined;
+
+    const filter: Record<string, any> = { user: user._id };
+    if (type) {
+      filter.type = type;
+    }
+
+    // Usage since the start of the current billing period (or calendar month)
+    const periodStart = user.subscription?.startDate
+      ?? new Date(new Date().getFullYear(), new Date().getMonth(), 1);
+
+    const [entries, total, usage] = await Promise.all([
+      CreditLedger.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .populate('book', 'title')
+        .lean(),
+      CreditLedger.countDocuments(filter),
+      CreditLedger.aggregate([
+        { $match: { user: user._id, type: 'usage', createdAt: { $gte: periodStart } } },
+        { $group: { _id: '$operation', count: { $sum: 1 }, credits: { $sum: '$cost' } } },
+        { $sort: { credits: -1 } },
+      ]),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        balance: user.credits,
+        unlimited: hasUnlimitedCredits(user.role),
+        monthlyAllowance: user.subscription?.credits ?? 100,
+        periodStart,
+        periodEnd: user.subscription?.endDate,
+        usage: usage.map((item) => ({
+          operation: item._id,
+          count: item.count,
+          credits: item.credits,
+        })),
+        entries: entries.map((entry) => ({
+          id: entry._id,
+          type: entry.type,
+          operation: entry.operation,
+          cost: entry.cost,
+          amount: entry.amount,
+          balanceAfter: entry.balanceAfter,
+          book: entry.book,
+          description: entry.description,
+          createdAt: entry.createdAt,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error('Get credit history error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retrieve credit history',
+    });
+  }
+};
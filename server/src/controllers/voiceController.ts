@@ -52,9 +52,11 @@ import {
   canCompleteEarly,
   InterviewState,
 } from '../services/aiInterviewService';
-
-// In-memory interview state storage (use Redis in production)
-const interviewStates = new Map<string, InterviewState>();
+import {
+  saveInterviewSession,
+  loadInterviewSession,
+  deleteInterviewSession,
+} from '../services/interviewSessionService';
 
 /**
  * Start a new voice interview
@@ -76,22 +78,25 @@ export const startInterview = async (req: AuthRequest, res: Response): Promise<v
     const interviewId = bookId || `interview_${req.user.id}_${Date.now()}`;
 
     // Check if interview already exists
-    if (interviewStates.has(interviewId)) {
-      const existingState = interviewStates.get(interviewId)!;
-
-      // If not complete, return existing state
-      if (!existingState.isComplete) {
-        res.status(200).json({
-          success: true,
-          data: {
-            interviewId,
-            state: existingState,
-            progress: getInterviewProgress(existingState),
-            message: 'Resumed existing interview',
-          },
-        });
-        return;
-      }
+    const existing = await loadInterviewSession(req.user.id, 'voice', interviewId);
+
+    // If not complete, resume it where the author left off
+    if (existing && !existing.isComplete) {
+      const existingState = existing.state as InterviewState;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          interviewId,
+          firstQuestion: existing.currentQuestion,
+          currentTopic: existingState.currentTopic,
+          progress: getInterviewProgress(existingState),
+          canCompleteEarly: canCompleteEarly(existingState),
+          state: existingState,
+          message: 'Resumed existing interview',
+        },
+      });
+      return;
     }
 
     // Create new interview state
@@ -101,7 +106,10 @@ export const startInterview = async (req: AuthRequest, res: Response): Promise<v
     const firstQuestion = await getFirstQuestion(state);
 
     // Store state
-    interviewStates.set(interviewId, state);
+    await saveInterviewSession(req.user.id, 'voice', state, {
+      currentQuestion: firstQuestion,
+      bookId,
+    });
 
     res.status(200).json({
       success: true,
@@ -140,7 +148,11 @@ export const processInterviewResponse = async (req: AuthRequest, res: Response):
     const audioFile = req.file;
 
     // Validate interview exists
-    if (!interviewId || !interviewStates.has(interviewId)) {
+    const session = interviewId
+      ? await loadInterviewSession(req.user.id, 'voice', interviewId)
+      : null;
+
+    if (!session) {
       res.status(400).json({
         success: false,
         error: 'Interview not found. Please start a new interview.',
@@ -148,7 +160,7 @@ export const processInterviewResponse = async (req: AuthRequest, res: Response):
       return;
     }
 
-    const state = interviewStates.get(interviewId)!;
+    const state = session.state as InterviewState;
 
     // Check if interview is complete
     if (state.isComplete) {
@@ -217,7 +229,9 @@ export const processInterviewResponse = async (req: AuthRequest, res: Response):
     const result = await processResponse(state, responseText.trim());
 
     // Update stored state
-    interviewStates.set(interviewId, result.state);
+    await saveInterviewSession(req.user.id, 'voice', result.state, {
+      currentQuestion: result.nextQuestion,
+    });
 
     // Calculate progress
     const progress = getInterviewProgress(result.state);
@@ -331,7 +345,11 @@ export const completeInterview = async (req: AuthRequest, res: Response): Promis
     const { interviewId } = req.body;
 
     // Validate interview exists
-    if (!interviewId || !interviewStates.has(interviewId)) {
+    const session = interviewId
+      ? await loadInterviewSession(req.user.id, 'voice', interviewId)
+      : null;
+
+    if (!session) {
       res.status(400).json({
         success: false,
         error: 'Interview not found',
@@ -339,17 +357,17 @@ export const completeInterview = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    const state = interviewStates.get(interviewId)!;
+    const state = session.state as InterviewState;
 
     // Generate summary
     const summary = await generateInterviewSummary(state);
 
     // Calculate duration
-    const duration = Math.round((Date.now() - state.startedAt.getTime()) / 1000);
+    const duration = Math.round((Date.now() - new Date(state.startedAt).getTime()) / 1000);
 
     // Mark interview as complete
     state.isComplete = true;
-    interviewStates.set(interviewId, state);
+    await saveInterviewSession(req.user.id, 'voice', state, { currentQuestion: null });
 
     res.status(200).json({
       success: true,
@@ -386,7 +404,9 @@ export const getInterviewState = async (req: AuthRequest, res: Response): Promis
     const { interviewId } = req.params;
 
     // Validate interview exists
-    if (!interviewId || !interviewStates.has(interviewId)) {
+    const session = await loadInterviewSession(req.user.id, 'voice', interviewId);
+
+    if (!session) {
       res.status(404).json({
         success: false,
         error: 'Interview not found',
@@ -394,12 +414,13 @@ export const getInterviewState = async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    const state = interviewStates.get(interviewId)!;
+    const state = session.state as InterviewState;
 
     res.status(200).json({
       success: true,
       data: {
         state,
+        currentQuestion: session.currentQuestion,
         progress: getInterviewProgress(state),
         canCompleteEarly: canCompleteEarly(state),
       },
@@ -471,8 +492,8 @@ export const saveInterviewToBook = async (req: AuthRequest, res: Response): Prom
     await book.save();
 
     // Clean up interview state
-    if (interviewId && interviewStates.has(interviewId)) {
-      interviewStates.delete(interviewId);
+    if (interviewId) {
+      await deleteInterviewSession(req.user.id, 'voice', interviewId);
     }
 
     res.status(200).json({
@@ -507,8 +528,8 @@ export const cancelInterview = async (req: AuthRequest, res: Response): Promise<
 
     const { interviewId } = req.params;
 
-    if (interviewId && interviewStates.has(interviewId)) {
-      interviewStates.delete(interviewId);
+    if (interviewId) {
+      await deleteInterviewSession(req.user.id, 'voice', interviewId);
     }
 
     res.status(200).json({
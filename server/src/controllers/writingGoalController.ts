@@ -0,0 +1,102 @@
+/**
+ * Writing Goal Controller
+ * Handlers for an author's daily goal, book deadlines and writing record
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../types';
+import {
+  getWritingDashboard,
+  updateGoalSettings,
+  setBookGoal,
+  removeBookGoal,
+} from '../services/writingGoalService';
+import { AppError } from '../utils/errors';
+
+/**
+ * Get goals, today's progress, streak, history and recent sessions
+ * GET /api/user/writing-goals
+ */
+export const getWritingGoals = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const goals = await getWritingDashboard(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: { goals },
+    });
+  } catch (error) {
+    console.error('Get writing goals error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to get writing goals',
+    });
+  }
+};
+
+/**
+ * Change the daily goal, timezone or reminder
+ * PUT /api/user/writing-goals
+ */
+export const updateWritingGoals = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { dailyWords, timezone, reminder } = req.body;
+
+    const goals = await updateGoalSettings(req.user!.id, { dailyWords, timezone, reminder });
+
+    res.status(200).json({
+      success: true,
+      data: { goals },
+    });
+  } catch (error) {
+    console.error('Update writing goals error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to update writing goals',
+    });
+  }
+};
+
+/**
+ * Set a deadline for finishing a book
+ * PUT /api/user/writing-goals/books/:id
+ */
+export const setBookWritingGoal = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { targetWords, deadline } = req.body;
+
+    const goals = await setBookGoal(req.user!.id, req.params.id, { targetWords, deadline });
+
+    res.status(200).json({
+      success: true,
+      data: { goals },
+    });
+  } catch (error) {
+    console.error('Set book writing goal error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to set book goal',
+    });
+  }
+};
+
+/**
+ * Remove a book's deadline
+ * DELETE /api/user/writing-goals/books/:id
+ */
+export const removeBookWritingGoal = async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const goals = await removeBookGoal(req.user!.id, req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: { goals },
+    });
+  } catch (error) {
+    console.error('Remove book writing goal error:', error);
+    res.status(error instanceof AppError ? error.statusCode : 500).json({
+      success: false,
+      error: error instanceof AppError ? error.message : 'Failed to remove book goal',
+    });
+  }
+};
@@ -1,8 +1,21 @@
 import { Response, NextFunction } from 'express';
-import { verifyToken } from '../utils/jwt';
+import { verifyToken, JWTPayload } from '../utils/jwt';
 import { User, UserRole } from '../models/User';
+import { isSessionActive } from '../services/sessionService';
 import { AuthRequest } from '../types';
 
+/**
+ * Whether a token's session has been revoked or has expired (logout,
+ * revocation from another device, password reset). Tokens issued before
+ * sessions existed carry no session id and are rejected.
+ */
+const isTokenRevoked = async (decoded: JWTPayload): Promise<boolean> => {
+  if (!decoded.sid) {
+    return true;
+  }
+  return !(await isSessionActive(decoded.sid, decoded.id));
+};
+
 /**
  * Authentication middleware
  * Verifies JWT token from Authorization header
@@ -31,11 +44,20 @@ export const authenticate = async (
     // Verify token
     const decoded = verifyToken(token);
 
+    if (await isTokenRevoked(decoded)) {
+      res.status(401).json({
+        success: false,
+        error: 'Session is no longer valid. Please login again.',
+      });
+      return;
+    }
+
     // Attach user info to request
     req.user = {
       id: decoded.id,
       email: decoded.email,
       role: decoded.role,
+      sessionId: decoded.sid,
     };
 
     next();
@@ -71,11 +93,14 @@ export const optionalAuth = async (
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.substring(7);
       const decoded = verifyToken(token);
-      req.user = {
-        id: decoded.id,
-        email: decoded.email,
-        role: decoded.role,
-      };
+      if (!(await isTokenRevoked(decoded))) {
+        req.user = {
+          id: decoded.id,
+          email: decoded.email,
+          role: decoded.role,
+          sessionId: decoded.sid,
+        };
+      }
     }
     // Continue regardless of authentication status
     next();
@@ -162,7 +187,7 @@ export const checkCredits = (requiredCredits: number) => {
 
       // Check if user has enough credits
       if (user.credits < requiredCredits) {
-        res.status(403).json({
+        res.status(402).json({
           success: false,
           error: 'Insufficient credits',
           data: {
@@ -0,0 +1,94 @@
+import { Response, NextFunction } from 'express';
+import mongoose from 'mongoose';
+import { AuthRequest } from '../types';
+import { BookAction, checkBookAccess, recordDenial } from '../services/accessPolicy';
+
+interface BookAccessOptions {
+  param?: string; // Route param holding the book id (default 'bookId')
+  body?: string; // Read the id from the body instead, e.g. 'bookId' or 'context.bookId'
+  optional?: boolean; // Skip the check when no id is given
+}
+
+function readBookId(req: AuthRequest, options: BookAccessOptions): unknown {
+  if (options.body) {
+    return options.body.split('.').reduce<any>((value, key) => value?.[key], req.body);
+  }
+  return req.params[options.param || 'bookId'];
+}
+
+/**
+ * Book Access Middleware
+ * Applies the book access policy (services/accessPolicy) to a route and
+ * records refused requests. Must be used after authenticate middleware.
+ *
+ * @example
+ * router.post('/tension/:bookId', requireBookAccess('edit'), analyzeTension)
+ * router.get('/:id', requireBookAccess('read', { param: 'id' }), getBook)
+ */
+export const requireBookAccess = (action: BookAction, options: BookAccessOptions = {}) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const bookId = readBookId(req, options);
+
+      if (bookId === undefined || bookId === null || bookId === '') {
+        if (options.optional) {
+          next();
+          return;
+        }
+        res.status(400).json({
+          success: false,
+          error: 'Book ID is required',
+        });
+        return;
+      }
+
+      if (typeof bookId !== 'string' || !mongoose.Types.ObjectId.isValid(bookId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid book ID',
+        });
+        return;
+      }
+
+      const decision = await checkBookAccess(action, req.user.id, bookId);
+
+      if (!decision.allowed) {
+        // Business rules (e.g. buying your own book) are not access violations
+        if (decision.statusCode !== 400) {
+          recordDenial({
+            userId: req.user.id,
+            bookId,
+            action,
+            reason: decision.reason || 'Denied',
+            method: req.method,
+            path: req.originalUrl,
+            ip: req.ip,
+          });
+        }
+
+        res.status(decision.statusCode).json({
+          success: false,
+          error: decision.reason,
+          ...(decision.requiresPurchase && { requiresPurchase: true }),
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      console.error('Book access middleware error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Server error',
+      });
+    }
+  };
+};
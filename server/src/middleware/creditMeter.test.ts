@@ -0,0 +1,131 @@
+import mongoose from 'mongoose';
+import { CreditLedger, ICreditLedgerEntry } from '../models/CreditLedger';
+import { User, UserRole } from '../models/User';
+import { FakeResponse, fake, settle } from '../test/fixtures';
+import { AuthRequest } from '../types';
+import { meterCredits } from './creditMeter';
+
+describe('meterCredits', () => {
+  let user: InstanceType<typeof User>;
+  let entries: ICreditLedgerEntry[];
+
+  const request = (body: Record<string, unknown> = {}) =>
+    ({ user: { id: user._id.toString(), email: user.email, role: user.role }, params: {}, body }) as unknown as AuthRequest;
+
+  // Runs the middleware; resolves with the response and whether the handler was reached
+  async function meter(operation: Parameters<typeof meterCredits>[0], body?: Record<string, unknown>) {
+    const res = new FakeResponse();
+    const next = jest.fn();
+    await meterCredits(operation)(request(body), res.asResponse(), next);
+    return { res, reached: next.mock.calls.length === 1 };
+  }
+
+  beforeEach(() => {
+    user = new User({ email: 'writer@example.com', name: 'Writer', role: UserRole.FREE, credits: 10 });
+    entries = [];
+
+    fake(User, 'findById', async () => user);
+    // Conditional $inc on the stored balance, as MongoDB applies it
+    fake(User, 'findOneAndUpdate', async (filter: { credits?: { $gte: number } }, update: { $inc: { credits: number } }) => {
+      if (filter.credits && user.credits < filter.credits.$gte) return null;
+      user.credits += update.$inc.credits;
+      return { credits: user.credits };
+    });
+    fake(User, 'findByIdAndUpdate', async (_id: unknown, update: { $inc: { credits: number } }) => {
+      user.credits += update.$inc.credits;
+      return { credits: user.credits };
+    });
+    fake(CreditLedger, 'create', async (doc: object) => {
+      const entry = new CreditLedger(doc);
+      entries.push(entry);
+      return entry;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('charges the operation and reports the remaining balance', async () => {
+    const { res, reached } = await meter('analysis.tension');
+
+    expect(reached).toBe(true);
+    expect(user.credits).toBe(5);
+    expect(res.headers['X-Credits-Remaining']).toBe('5');
+    expect(entries.map((entry) => [entry.type, entry.operation, entry.amount])).toEqual([
+      ['usage', 'analysis.tension', -5],
+    ]);
+  });
+
+  it('prices operations from the request', async () => {
+    await meter('ai.generate-variations', { count: 2 });
+
+    expect(user.credits).toBe(0);
+  });
+
+  it('refuses an operation the balance does not cover', async () => {
+    user.credits = 4;
+
+    const { res, reached } = await meter('analysis.tension');
+
+    expect(reached).toBe(false);
+    expect(res.statusCode).toBe(402);
+    expect(res.body).toMatchObject({ data: { required: 5, available: 4 } });
+    expect(entries).toHaveLength(0);
+  });
+
+  it('gives the credits back when the operation fails', async () => {
+    const { res } = await meter('analysis.tension');
+
+    res.status(500).json({ success: false });
+    await settle();
+
+    expect(user.credits).toBe(10);
+    expect(entries.map((entry) => [entry.type, entry.amount])).toEqual([
+      ['usage', -5],
+      ['refund', 5],
+    ]);
+    expect(entries[1].refundOf?.toString()).toBe((entries[0]._id as mongoose.Types.ObjectId).toString());
+  });
+
+  it('gives the credits back when the client disconnects before the response', async () => {
+    const { res } = await meter('analysis.tension');
+
+    res.emit('close');
+    await settle();
+
+    expect(user.credits).toBe(10);
+    expect(entries.map((entry) => entry.type)).toEqual(['usage', 'refund']);
+  });
+
+  it('refunds a failed operation once although the response also closes', async () => {
+    const { res } = await meter('analysis.tension');
+
+    res.status(500).json({ success: false });
+    res.emit('close');
+    await settle();
+
+    expect(user.credits).toBe(10);
+    expect(entries.filter((entry) => entry.type === 'refund')).toHaveLength(1);
+  });
+
+  it('keeps the charge when the operation succeeds', async () => {
+    const { res } = await meter('analysis.tension');
+
+    res.json({ success: true });
+    await settle();
+
+    expect(user.credits).toBe(5);
+    expect(entries).toHaveLength(1);
+  });
+
+  it('records usage without charging premium users', async () => {
+    user.role = UserRole.PREMIUM;
+
+    const { reached } = await meter('ai.design-book');
+
+    expect(reached).toBe(true);
+    expect(user.credits).toBe(10);
+    expect(entries.map((entry) => [entry.cost, entry.amount])).toEqual([[10, 0]]);
+  });
+});
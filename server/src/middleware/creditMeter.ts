@@ -0,0 +1,89 @@
+import { Response, NextFunction } from 'express';
+import { User } from '../models/User';
+import { AuthRequest } from '../types';
+import {
+  CreditOperation,
+  expireSubscription,
+  chargeCredits,
+  getOperationCost,
+  refundCredits,
+} from '../services/creditService';
+
+/**
+ * Credit metering middleware
+ * Charges the cost of an AI operation before the handler runs and records
+ * it in the credit ledger. Responds 402 when the balance is too low and
+ * refunds the charge if the handler ends with an error status or the
+ * client disconnects before the response is sent.
+ * Must be used after authenticate middleware
+ */
+export const meterCredits = (operation: CreditOperation) => {
+  return async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user) {
+        res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+        return;
+      }
+
+      const user = await User.findById(req.user.id);
+
+      if (!user) {
+        res.status(404).json({
+          success: false,
+          error: 'User not found',
+        });
+        return;
+      }
+
+      await expireSubscription(user);
+
+      const cost = getOperationCost(operation, req);
+      const bookId = req.params.bookId || req.body?.bookId || req.body?.context?.bookId;
+      const entry = await chargeCredits(user, operation, cost, bookId);
+
+      if (!entry) {
+        res.status(402).json({
+          success: false,
+          error: 'Insufficient credits',
+          data: {
+            operation,
+            required: cost,
+            available: user.credits,
+          },
+        });
+        return;
+      }
+
+      res.setHeader('X-Credits-Remaining', String(entry.balanceAfter));
+
+      // A failed or aborted operation is refunded once - 'close' follows 'finish'
+      let settled = false;
+      const settle = (failed: boolean) => {
+        if (settled) return;
+        settled = true;
+        if (failed) {
+          refundCredits(entry).catch((err) =>
+            console.error('Failed to refund credits:', err)
+          );
+        }
+      };
+      res.on('finish', () => settle(res.statusCode >= 400));
+      res.on('close', () => settle(!res.writableFinished));
+
+      next();
+    } catch (error) {
+      console.error('Credit metering error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check credits',
+      });
+    }
+  };
+};
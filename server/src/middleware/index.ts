@@ -3,3 +3,4 @@ export * from './auth';
 export * from './validate';
 export * from './validators';
 export * from './rateLimiter';
+export * from './creditMeter';
@@ -77,7 +77,7 @@ const documentFilter = (
   file: Express.Multer.File,
   cb: multer.FileFilterCallback
 ) => {
-  const allowedTypes = ['.pdf', '.docx', '.txt', '.doc'];
+  const allowedTypes = ['.pdf', '.docx', '.txt', '.doc', '.md', '.markdown', '.odt', '.html', '.htm', '.epub'];
   const ext = path.extname(file.originalname).toLowerCase();
 
   if (allowedTypes.includes(ext)) {
@@ -1,4 +1,4 @@
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 
 /**
  * Validation rules for user registration
@@ -45,6 +45,37 @@ export const loginValidation = [
     .withMessage('Password is required'),
 ];
 
+/**
+ * Validation rules for requesting a password reset
+ */
+export const forgotPasswordValidation = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email is required')
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+];
+
+/**
+ * Validation rules for resetting a password with an emailed token
+ */
+export const resetPasswordValidation = [
+  body('token')
+    .trim()
+    .notEmpty()
+    .withMessage('Reset token is required'),
+
+  body('password')
+    .notEmpty()
+    .withMessage('Password is required')
+    .isLength({ min: 8 })
+    .withMessage('Password must be at least 8 characters long')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
+    .withMessage('Password must contain at least one uppercase letter, one lowercase letter, and one number'),
+];
+
 /**
  * Validation rules for creating a book
  */
@@ -123,6 +154,11 @@ export const updateBookValidation = [
     .isInt({ min: 0 })
     .withMessage('Chapter order must be a non-negative integer'),
 
+  body('chapters.*.version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Chapter version must be a positive integer'),
+
   body('characters')
     .optional()
     .isArray()
@@ -143,3 +179,827 @@ export const mongoIdValidation = [
     .isMongoId()
     .withMessage('Invalid ID format'),
 ];
+
+/**
+ * Validation rules for chapter revision routes
+ */
+export const chapterRevisionValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  param('chapterId')
+    .isMongoId()
+    .withMessage('Invalid chapter ID'),
+
+  param('revisionId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid revision ID'),
+];
+
+/**
+ * Validation rules for comparing two chapter revisions
+ */
+export const revisionDiffValidation = [
+  query('from')
+    .custom((value) => value === 'current' || /^[a-f\d]{24}$/i.test(value))
+    .withMessage('from must be a revision ID or "current"'),
+
+  query('to')
+    .optional()
+    .custom((value) => value === 'current' || /^[a-f\d]{24}$/i.test(value))
+    .withMessage('to must be a revision ID or "current"'),
+];
+
+/**
+ * Validation rules for annotation routes
+ */
+export const annotationIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  param('annotationId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid annotation ID'),
+
+  query('chapterId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid chapter ID'),
+];
+
+/**
+ * Validation rules for creating a reader annotation
+ */
+export const createAnnotationValidation = [
+  body('chapterId')
+    .isMongoId()
+    .withMessage('Invalid chapter ID'),
+
+  body('type')
+    .isIn(['highlight', 'note', 'bookmark'])
+    .withMessage('Type must be highlight, note or bookmark'),
+
+  body('startOffset')
+    .isInt({ min: 0 })
+    .withMessage('startOffset must be a non-negative integer')
+    .toInt(),
+
+  body('endOffset')
+    .isInt({ min: 0 })
+    .withMessage('endOffset must be a non-negative integer')
+    .toInt(),
+
+  body('exact')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Selection must not exceed 5000 characters'),
+
+  body('note')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Note must not exceed 5000 characters'),
+
+  body('color')
+    .optional()
+    .isIn(['yellow', 'green', 'blue', 'pink', 'purple'])
+    .withMessage('Invalid highlight color'),
+];
+
+/**
+ * Validation rules for editing a reader annotation
+ */
+export const updateAnnotationValidation = [
+  body('note')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Note must not exceed 5000 characters'),
+
+  body('color')
+    .optional()
+    .isIn(['yellow', 'green', 'blue', 'pink', 'purple'])
+    .withMessage('Invalid highlight color'),
+];
+
+/**
+ * Validation rules for refund routes
+ */
+export const refundRequestValidation = [
+  body('reason')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Reason must be between 1 and 1000 characters'),
+];
+
+export const refundDecisionValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid refund request ID'),
+
+  body('note')
+    .optional()
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Note must not exceed 1000 characters'),
+];
+
+/**
+ * Validation rules for coupons and sales
+ */
+const couponFieldValidation = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('code')
+      .isString()
+      .trim()
+      .matches(/^[A-Za-z0-9_-]{3,30}$/)
+      .withMessage('Codes are 3-30 letters, digits, dashes or underscores'),
+
+    field('discountType')
+      .isIn(['percent', 'fixed'])
+      .withMessage('Discount type must be percent or fixed'),
+
+    field('value')
+      .isFloat({ min: 0.01, max: 100 })
+      .withMessage('Discount must be between 0.01 and 100')
+      .toFloat(),
+
+    body('books')
+      .optional()
+      .isArray({ max: 200 })
+      .withMessage('Books must be an array'),
+
+    body('books.*')
+      .isMongoId()
+      .withMessage('Invalid book ID'),
+
+    body('maxRedemptions')
+      .optional({ values: 'null' })
+      .isInt({ min: 1 })
+      .withMessage('Usage cap must be at least 1')
+      .toInt(),
+
+    body(['startsAt', 'expiresAt'])
+      .optional({ values: 'null' })
+      .isISO8601()
+      .withMessage('Dates must be ISO 8601'),
+
+    body('active')
+      .optional()
+      .isBoolean()
+      .withMessage('active must be a boolean'),
+  ];
+};
+
+export const createCouponValidation = couponFieldValidation(false);
+
+export const updateCouponValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid coupon ID'),
+
+  ...couponFieldValidation(true),
+];
+
+export const bookSaleValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  body('price')
+    .isFloat({ min: 0 })
+    .withMessage('Sale price must be a positive number')
+    .toFloat(),
+
+  body(['startsAt', 'endsAt'])
+    .isISO8601()
+    .withMessage('Sale dates must be ISO 8601'),
+];
+
+/**
+ * Validation rules for series
+ */
+const seriesFieldValidation = (optional: boolean) => [
+  (optional ? body('title').optional() : body('title'))
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Title must be between 1 and 200 characters'),
+
+  body('description')
+    .optional({ values: 'null' })
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('Description must not exceed 2000 characters'),
+
+  body('coverImageUrl')
+    .optional({ values: 'falsy' })
+    .isURL()
+    .withMessage('Cover must be a valid URL'),
+
+  body('books')
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage('Books must be an array'),
+
+  body('books.*')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  body('bundlePrice')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0.5, max: 1000 })
+    .withMessage('Bundle price must be between 0.5 and 1000')
+    .toFloat(),
+];
+
+export const createSeriesValidation = seriesFieldValidation(false);
+
+export const updateSeriesValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid series ID'),
+
+  ...seriesFieldValidation(true),
+];
+
+/**
+ * Validation rules for gifts
+ */
+const giftRecipientValidation = [
+  body('recipientEmail')
+    .trim()
+    .notEmpty()
+    .withMessage('Recipient email is required')
+    .isEmail()
+    .withMessage('Please provide a valid recipient email address')
+    .normalizeEmail(),
+
+  body('recipientName')
+    .optional({ values: 'falsy' })
+    .isString()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('Recipient name must not exceed 100 characters'),
+
+  body('message')
+    .optional({ values: 'falsy' })
+    .isString()
+    .isLength({ max: 1000 })
+    .withMessage('Message must not exceed 1000 characters'),
+
+  body('deliverAt')
+    .optional({ values: 'falsy' })
+    .isISO8601()
+    .withMessage('Delivery date must be a valid date'),
+];
+
+export const giftOrderValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  ...giftRecipientValidation,
+
+  body('useGiftBalance')
+    .optional()
+    .isBoolean()
+    .withMessage('useGiftBalance must be a boolean')
+    .toBoolean(),
+];
+
+export const giftCardOrderValidation = [
+  body('amount')
+    .isFloat({ min: 5, max: 500 })
+    .withMessage('Gift card amount must be between 5 and 500')
+    .toFloat(),
+
+  ...giftRecipientValidation,
+];
+
+export const claimGiftValidation = [
+  body('token')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Claim token is required'),
+];
+
+/**
+ * Validation rules for collaborator routes
+ */
+export const collaboratorIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  param('collaboratorId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid collaborator ID'),
+];
+
+const collaboratorFields = [
+  body('chapters')
+    .optional()
+    .isArray({ max: 500 })
+    .withMessage('Chapters must be an array'),
+
+  body('chapters.*')
+    .isMongoId()
+    .withMessage('Invalid chapter ID'),
+
+  body('revenueShare')
+    .optional()
+    .isFloat({ min: 0, max: 100 })
+    .withMessage('Revenue share must be between 0 and 100')
+    .toFloat(),
+];
+
+/**
+ * Validation rules for inviting a collaborator
+ */
+export const inviteCollaboratorValidation = [
+  body('email')
+    .trim()
+    .isEmail()
+    .withMessage('Please provide a valid email address')
+    .normalizeEmail(),
+
+  body('role')
+    .isIn(['co-author', 'editor', 'beta-reader'])
+    .withMessage('Role must be co-author, editor or beta-reader'),
+
+  ...collaboratorFields,
+];
+
+/**
+ * Validation rules for changing a collaborator
+ */
+export const updateCollaboratorValidation = [
+  body('role')
+    .optional()
+    .isIn(['co-author', 'editor', 'beta-reader'])
+    .withMessage('Role must be co-author, editor or beta-reader'),
+
+  ...collaboratorFields,
+];
+
+/**
+ * Validation rules for answering a collaboration invitation
+ */
+export const respondInvitationValidation = [
+  body('accept')
+    .isBoolean()
+    .withMessage('accept must be true or false')
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for comment thread routes
+ */
+export const commentThreadIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  param('chapterId')
+    .isMongoId()
+    .withMessage('Invalid chapter ID'),
+
+  param('threadId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid thread ID'),
+];
+
+/**
+ * Validation rules for opening a comment thread or suggesting an edit
+ */
+export const createCommentThreadValidation = [
+  body('kind')
+    .isIn(['comment', 'suggestion'])
+    .withMessage('Kind must be comment or suggestion'),
+
+  body('startOffset')
+    .isInt({ min: 0 })
+    .withMessage('startOffset must be a non-negative integer')
+    .toInt(),
+
+  body('endOffset')
+    .isInt({ min: 0 })
+    .withMessage('endOffset must be a non-negative integer')
+    .toInt(),
+
+  body('exact')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Selection must not exceed 5000 characters'),
+
+  body('body')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Comment must not exceed 5000 characters'),
+
+  body('text')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Suggested text must not exceed 5000 characters'),
+];
+
+/**
+ * Validation rules for replying to a comment thread
+ */
+export const replyCommentThreadValidation = [
+  body('body')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Reply text is required')
+    .isLength({ max: 5000 })
+    .withMessage('Reply must not exceed 5000 characters'),
+];
+
+/**
+ * Validation rules for resolving or reopening a comment
+ */
+export const resolveCommentThreadValidation = [
+  body('resolved')
+    .isBoolean()
+    .withMessage('resolved must be true or false')
+    .toBoolean(),
+];
+
+/**
+ * Validation rules for beta campaign routes
+ */
+export const betaCampaignIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  param('campaignId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid campaign ID'),
+
+  param('readerId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid reader ID'),
+];
+
+const betaCampaignFields = [
+  body('message')
+    .optional()
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('Message must not exceed 2000 characters'),
+
+  body('accessDays')
+    .optional()
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Access must last between 1 and 365 days')
+    .toInt(),
+
+  body('questions')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('A campaign can ask up to 10 questions'),
+
+  body('questions.*.prompt')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Question text is required')
+    .isLength({ max: 300 })
+    .withMessage('Question must not exceed 300 characters'),
+
+  body('questions.*.type')
+    .isIn(['rating', 'text'])
+    .withMessage('Question type must be rating or text'),
+
+  body('questions.*.chapters')
+    .optional()
+    .isArray({ max: 500 })
+    .withMessage('Question chapters must be an array'),
+
+  body('questions.*.chapters.*')
+    .isMongoId()
+    .withMessage('Invalid chapter ID'),
+];
+
+/**
+ * Validation rules for starting a beta campaign
+ */
+export const createBetaCampaignValidation = [
+  body('title')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Campaign title is required')
+    .isLength({ max: 120 })
+    .withMessage('Title must not exceed 120 characters'),
+
+  ...betaCampaignFields,
+];
+
+/**
+ * Validation rules for editing, closing or reopening a beta campaign
+ */
+export const updateBetaCampaignValidation = [
+  body('title')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Campaign title cannot be empty')
+    .isLength({ max: 120 })
+    .withMessage('Title must not exceed 120 characters'),
+
+  body('status')
+    .optional()
+    .isIn(['active', 'closed'])
+    .withMessage('Status must be active or closed'),
+
+  ...betaCampaignFields,
+];
+
+/**
+ * Validation rules for inviting beta readers
+ */
+export const inviteBetaReadersValidation = [
+  body('emails')
+    .isArray({ min: 1, max: 50 })
+    .withMessage('Provide between 1 and 50 email addresses'),
+
+  body('emails.*')
+    .trim()
+    .isEmail()
+    .withMessage('Please provide valid email addresses')
+    .normalizeEmail(),
+];
+
+/**
+ * Validation rules for a beta reader's chapter feedback
+ */
+export const betaFeedbackValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  param('chapterId')
+    .isMongoId()
+    .withMessage('Invalid chapter ID'),
+
+  body('reaction')
+    .optional()
+    .isIn(['loved', 'liked', 'neutral', 'confused', 'bored'])
+    .withMessage('Invalid reaction'),
+
+  body('rating')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Rating must be between 1 and 5')
+    .toInt(),
+
+  body('answers')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('Answers must be an array'),
+
+  body('answers.*.question')
+    .isMongoId()
+    .withMessage('Invalid question ID'),
+
+  body('answers.*.rating')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Rating must be between 1 and 5')
+    .toInt(),
+
+  body('answers.*.text')
+    .optional()
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('Answer must not exceed 2000 characters'),
+
+  body('comment')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Comment must not exceed 5000 characters'),
+];
+
+/**
+ * Validation rules for story bible entry routes
+ */
+export const storyBibleEntryIdValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  param('entryId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid entry ID'),
+];
+
+const storyBibleEntryFields = [
+  body('aliases')
+    .optional()
+    .isArray({ max: 10 })
+    .withMessage('An entry can have up to 10 aliases'),
+
+  body('aliases.*')
+    .isString()
+    .isLength({ max: 120 })
+    .withMessage('Alias must not exceed 120 characters'),
+
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Description must not exceed 5000 characters'),
+
+  body('chapters')
+    .optional()
+    .isArray({ max: 500 })
+    .withMessage('Chapters must be an array'),
+
+  body('chapters.*')
+    .isMongoId()
+    .withMessage('Invalid chapter ID'),
+
+  body('inWorldDate')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('In-world date must not exceed 100 characters'),
+
+  body('order')
+    .optional()
+    .isInt({ min: 0, max: 100000 })
+    .withMessage('Order must be a non-negative number')
+    .toInt(),
+];
+
+/**
+ * Validation rules for adding a story bible entry
+ */
+export const createStoryBibleEntryValidation = [
+  ...storyBibleEntryIdValidation,
+
+  body('type')
+    .isIn(['location', 'item', 'faction', 'term', 'event'])
+    .withMessage('Type must be location, item, faction, term or event'),
+
+  body('name')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Name is required')
+    .isLength({ max: 120 })
+    .withMessage('Name must not exceed 120 characters'),
+
+  ...storyBibleEntryFields,
+];
+
+/**
+ * Validation rules for editing a story bible entry
+ */
+export const updateStoryBibleEntryValidation = [
+  ...storyBibleEntryIdValidation,
+
+  body('name')
+    .optional()
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Name cannot be empty')
+    .isLength({ max: 120 })
+    .withMessage('Name must not exceed 120 characters'),
+
+  ...storyBibleEntryFields,
+];
+
+/**
+ * Validation rules for changing writing goal settings
+ */
+export const writingGoalSettingsValidation = [
+  body('dailyWords')
+    .optional()
+    .isInt({ min: 0, max: 50000 })
+    .withMessage('Daily goal must be between 0 and 50000 words'),
+
+  body('timezone')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 64 })
+    .withMessage('Invalid timezone'),
+
+  body('reminder.enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('reminder.enabled must be a boolean'),
+
+  body('reminder.hour')
+    .optional()
+    .isInt({ min: 0, max: 23 })
+    .withMessage('Reminder hour must be between 0 and 23'),
+];
+
+/**
+ * Validation rules for setting a book deadline
+ */
+export const bookWritingGoalValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('Invalid book ID'),
+
+  body('targetWords')
+    .optional()
+    .isInt({ min: 100, max: 1000000 })
+    .withMessage('Target must be between 100 and 1000000 words'),
+
+  body('deadline')
+    .isISO8601()
+    .withMessage('Deadline must be a valid date'),
+];
+
+/**
+ * Validation rules for marketplace search
+ */
+export const bookSearchValidation = [
+  query('q')
+    .optional()
+    .isString()
+    .isLength({ max: 200 })
+    .withMessage('Search query must not exceed 200 characters'),
+
+  query('sort')
+    .optional()
+    .isIn(['relevance', 'newest', 'popular', 'rating', 'price-asc', 'price-desc'])
+    .withMessage('Invalid sort option'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 60 })
+    .withMessage('Limit must be between 1 and 60'),
+
+  query('minRating')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Minimum rating must be between 1 and 5'),
+
+  query('cursor')
+    .optional()
+    .isBase64({ urlSafe: true })
+    .withMessage('Invalid search cursor'),
+];
+
+/**
+ * Validation rules for creating a book from previewed manuscript chapters
+ */
+export const importManuscriptValidation = [
+  body('title')
+    .trim()
+    .notEmpty()
+    .withMessage('Book title is required')
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Title must be between 1 and 200 characters'),
+
+  body('genre')
+    .trim()
+    .notEmpty()
+    .withMessage('Genre is required'),
+
+  body('language')
+    .optional()
+    .isLength({ min: 2, max: 5 })
+    .withMessage('Language code must be 2-5 characters'),
+
+  body('chapters')
+    .isArray({ min: 1 })
+    .withMessage('At least one chapter is required'),
+
+  body('chapters.*.title')
+    .isString()
+    .trim()
+    .isLength({ max: 200 })
+    .withMessage('Chapter title must not exceed 200 characters'),
+
+  body('chapters.*.content')
+    .isString()
+    .withMessage('Chapter content must be a string'),
+];
@@ -0,0 +1,65 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Access Audit Log Model
+ * Records requests refused by the book access policy, so repeated
+ * attempts on other users' books can be reviewed. Entries expire after
+ * 90 days.
+ */
+
+export type BookAction = 'read' | 'comment' | 'edit' | 'manage' | 'narrate' | 'purchase';
+
+// Access Audit Log interface
+export interface IAccessAuditLog extends Document {
+  user: mongoose.Types.ObjectId;
+  book?: mongoose.Types.ObjectId; // Unset when the id did not parse
+  action: BookAction;
+  reason: string;
+  method: string;
+  path: string;
+  ip?: string;
+  createdAt: Date;
+}
+
+// Access Audit Log schema
+const AccessAuditLogSchema = new Schema<IAccessAuditLog>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+    },
+    action: {
+      type: String,
+      enum: ['read', 'comment', 'edit', 'manage', 'narrate', 'purchase'],
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    ip: String,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'access_audit_logs',
+  }
+);
+
+AccessAuditLogSchema.index({ user: 1, createdAt: -1 });
+AccessAuditLogSchema.index({ book: 1, createdAt: -1 });
+AccessAuditLogSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const AccessAuditLog = mongoose.model<IAccessAuditLog>('AccessAuditLog', AccessAuditLogSchema);
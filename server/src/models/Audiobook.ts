@@ -0,0 +1,119 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Audiobook Model
+ * Pre-rendered narration of a book, one MP3 per chapter. Each chapter's
+ * audio is stored under a hash of its text and voice settings, so a
+ * rebuild only synthesizes chapters that changed.
+ */
+
+export type AudiobookProvider = 'google' | 'elevenlabs';
+
+export type AudiobookStatus = 'building' | 'ready' | 'failed';
+
+// A rendered chapter; the audio and timing marks live on disk under contentHash
+export interface IAudiobookChapter {
+  chapter: mongoose.Types.ObjectId;
+  title: string;
+  order: number;
+  contentHash: string;
+  duration: number; // Seconds
+  sizeBytes: number;
+}
+
+// Audiobook interface
+export interface IAudiobook extends Document {
+  book: mongoose.Types.ObjectId;
+  requestedBy: mongoose.Types.ObjectId;
+  provider: AudiobookProvider;
+  voice?: string;
+  language: string;
+  status: AudiobookStatus;
+  chapters: IAudiobookChapter[];
+  progress: {
+    completed: number;
+    total: number;
+  };
+  error?: string;
+  builtAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const AudiobookChapterSchema = new Schema<IAudiobookChapter>(
+  {
+    chapter: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    title: {
+      type: String,
+      default: '',
+    },
+    order: {
+      type: Number,
+      default: 0,
+    },
+    contentHash: {
+      type: String,
+      required: true,
+    },
+    duration: {
+      type: Number,
+      default: 0,
+    },
+    sizeBytes: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+// Audiobook schema
+const AudiobookSchema = new Schema<IAudiobook>(
+  {
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+      unique: true,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    provider: {
+      type: String,
+      enum: ['google', 'elevenlabs'],
+      required: true,
+    },
+    voice: String,
+    language: {
+      type: String,
+      default: 'he',
+    },
+    status: {
+      type: String,
+      enum: ['building', 'ready', 'failed'],
+      default: 'building',
+    },
+    chapters: {
+      type: [AudiobookChapterSchema],
+      default: [],
+    },
+    progress: {
+      completed: { type: Number, default: 0 },
+      total: { type: Number, default: 0 },
+    },
+    error: String,
+    builtAt: Date,
+  },
+  {
+    timestamps: true,
+    collection: 'audiobooks',
+  }
+);
+
+export const Audiobook = mongoose.model<IAudiobook>('Audiobook', AudiobookSchema);
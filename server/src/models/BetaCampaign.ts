@@ -0,0 +1,150 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Beta Campaign Model
+ * A private pre-publication read of a book. The author invites readers
+ * by email; each invitation is an access grant that lets the reader open
+ * the book until it expires or is revoked, without the book being
+ * published. Readers answer the campaign's questions chapter by chapter
+ * (see BetaFeedback).
+ */
+
+export type BetaCampaignStatus = 'active' | 'closed';
+
+export type BetaQuestionType = 'rating' | 'text';
+
+// A question asked at the end of chapters
+export interface IBetaQuestion {
+  _id?: mongoose.Types.ObjectId;
+  prompt: string;
+  type: BetaQuestionType; // rating: 1-5 stars, text: free answer
+  chapters: mongoose.Types.ObjectId[]; // Empty = every chapter
+}
+
+// An invited reader and their access grant
+export interface IBetaReader {
+  _id?: mongoose.Types.ObjectId;
+  email: string;
+  user?: mongoose.Types.ObjectId; // Linked when the reader has (or opens with) an account
+  invitedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  lastOpenedAt?: Date;
+}
+
+// Beta Campaign interface
+export interface IBetaCampaign extends Document {
+  book: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  title: string;
+  message?: string; // Note to readers, shown in the invitation
+  status: BetaCampaignStatus;
+  accessDays: number; // Length of each reader's grant
+  questions: IBetaQuestion[];
+  readers: IBetaReader[];
+  closedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BetaQuestionSchema = new Schema<IBetaQuestion>({
+  prompt: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 300,
+  },
+  type: {
+    type: String,
+    enum: ['rating', 'text'],
+    default: 'rating',
+  },
+  chapters: {
+    type: [Schema.Types.ObjectId],
+    default: [],
+  },
+});
+
+const BetaReaderSchema = new Schema<IBetaReader>({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+  },
+  invitedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  revokedAt: {
+    type: Date,
+  },
+  lastOpenedAt: {
+    type: Date,
+  },
+});
+
+// Beta Campaign schema
+const BetaCampaignSchema = new Schema<IBetaCampaign>(
+  {
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 120,
+    },
+    message: {
+      type: String,
+      maxlength: 2000,
+    },
+    status: {
+      type: String,
+      enum: ['active', 'closed'],
+      default: 'active',
+    },
+    accessDays: {
+      type: Number,
+      min: 1,
+      max: 365,
+      default: 30,
+    },
+    questions: {
+      type: [BetaQuestionSchema],
+      default: [],
+    },
+    readers: {
+      type: [BetaReaderSchema],
+      default: [],
+    },
+    closedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'beta_campaigns',
+  }
+);
+
+// Access checks look up the book's active campaign
+BetaCampaignSchema.index({ book: 1, status: 1 });
+
+export const BetaCampaign = mongoose.model<IBetaCampaign>('BetaCampaign', BetaCampaignSchema);
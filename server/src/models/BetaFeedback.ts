@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Beta Feedback Model
+ * A beta reader's response to one chapter of a campaign: a quick
+ * reaction, an overall rating and answers to the campaign's questions.
+ * One document per reader and chapter; submitting again replaces it.
+ */
+
+export type BetaReaction = 'loved' | 'liked' | 'neutral' | 'confused' | 'bored';
+
+export const BETA_REACTIONS: BetaReaction[] = ['loved', 'liked', 'neutral', 'confused', 'bored'];
+
+// Answer to one campaign question
+export interface IBetaAnswer {
+  question: mongoose.Types.ObjectId;
+  rating?: number;
+  text?: string;
+}
+
+// Beta Feedback interface
+export interface IBetaFeedback extends Document {
+  campaign: mongoose.Types.ObjectId;
+  book: mongoose.Types.ObjectId;
+  chapter: mongoose.Types.ObjectId;
+  reader: mongoose.Types.ObjectId;
+  reaction?: BetaReaction;
+  rating?: number; // 1-5
+  answers: IBetaAnswer[];
+  comment?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const BetaAnswerSchema = new Schema<IBetaAnswer>(
+  {
+    question: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    rating: {
+      type: Number,
+      min: 1,
+      max: 5,
+    },
+    text: {
+      type: String,
+      maxlength: 2000,
+    },
+  },
+  { _id: false }
+);
+
+// Beta Feedback schema
+const BetaFeedbackSchema = new Schema<IBetaFeedback>(
+  {
+    campaign: {
+      type: Schema.Types.ObjectId,
+      ref: 'BetaCampaign',
+      required: true,
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    chapter: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    reader: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    reaction: {
+      type: String,
+      enum: BETA_REACTIONS,
+    },
+    rating: {
+      type: Number,
+      min: 1,
+      max: 5,
+    },
+    answers: {
+      type: [BetaAnswerSchema],
+      default: [],
+    },
+    comment: {
+      type: String,
+      maxlength: 5000,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'beta_feedback',
+  }
+);
+
+BetaFeedbackSchema.index({ campaign: 1, chapter: 1, reader: 1 }, { unique: true });
+
+export const BetaFeedback = mongoose.model<IBetaFeedback>('BetaFeedback', BetaFeedbackSchema);
@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { buildSearchVariants } from '../utils/searchText';
 
 // Chapter interface
 export interface IChapter {
@@ -7,6 +8,7 @@ export interface IChapter {
   content: string;
   order: number;
   wordCount: number;
+  version: number; // Bumped on every change to title or content; saves send it back to detect conflicts
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -211,6 +213,11 @@ export interface IPublishingStatus {
   priceILS?: number; // 0-99 ILS
   isFree: boolean;
   isPublic: boolean;
+  sale?: {
+    price: number; // Charged instead of price between startsAt and endsAt
+    startsAt: Date;
+    endsAt: Date;
+  };
   marketingStrategy?: {
     targetAudience?: string;
     description?: string;
@@ -417,6 +424,32 @@ export interface IReview {
   updatedAt?: Date;
 }
 
+// Collaborator roles on a book
+// - co-author:   writes chapters (only the assigned ones, if any)
+// - editor:      proposes changes, which are saved as suggestions for the author
+// - beta-reader: reads the draft before publication
+export type CollaboratorRole = 'co-author' | 'editor' | 'beta-reader';
+export type CollaboratorStatus = 'pending' | 'accepted' | 'declined';
+
+// Collaborator interface
+export interface ICollaborator {
+  _id?: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  role: CollaboratorRole;
+  status: CollaboratorStatus;
+  chapters: mongoose.Types.ObjectId[]; // Assigned chapters; empty = the whole book
+  revenueShare: number; // Percentage of the author's share of each sale (0-100)
+  invitedBy: mongoose.Types.ObjectId;
+  invitedAt: Date;
+  respondedAt?: Date;
+}
+
+// Denormalized fields for the marketplace text index
+export interface IBookSearch {
+  authorName?: string;
+  terms?: string; // Extra tokens, e.g. Hebrew words without prefixes (utils/searchText)
+}
+
 // Book interface extending Mongoose Document
 export interface IBook extends Document {
   title: string;
@@ -444,6 +477,8 @@ export interface IBook extends Document {
   likes: number;
   likedBy: mongoose.Types.ObjectId[];
   reviews: IReview[];
+  collaborators: ICollaborator[];
+  search?: IBookSearch;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -468,6 +503,10 @@ const ChapterSchema = new Schema<IChapter>(
       type: Number,
       default: 0,
     },
+    version: {
+      type: Number,
+      default: 1,
+    },
   },
   { timestamps: true }
 );
@@ -942,6 +981,17 @@ const PublishingStatusSchema = new Schema<IPublishingStatus>(
       type: Boolean,
       default: false,
     },
+    sale: {
+      type: new Schema(
+        {
+          price: { type: Number, required: true, min: 0 },
+          startsAt: { type: Date, required: true },
+          endsAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
     marketingStrategy: {
       targetAudience: String,
       description: String,
@@ -1287,6 +1337,67 @@ const ReviewSchema = new Schema<IReview>(
   { timestamps: true }
 );
 
+// Collaborator schema
+const CollaboratorSchema = new Schema<ICollaborator>({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  role: {
+    type: String,
+    enum: ['co-author', 'editor', 'beta-reader'],
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'declined'],
+    default: 'pending',
+  },
+  chapters: {
+    type: [Schema.Types.ObjectId],
+    default: [],
+  },
+  revenueShare: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 0,
+  },
+  invitedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  invitedAt: {
+    type: Date,
+    default: Date.now,
+  },
+  respondedAt: {
+    type: Date,
+  },
+});
+
+/**
+ * Search fields for a book (see the text index below)
+ */
+export function buildBookSearchFields(
+  book: Pick<IBook, 'title' | 'description' | 'synopsis' | 'tags' | 'publishingStatus'>,
+  authorName?: string
+): IBookSearch {
+  return {
+    authorName,
+    terms: buildSearchVariants([
+      book.title,
+      authorName,
+      ...(book.tags || []),
+      ...(book.publishingStatus?.marketingStrategy?.tags || []),
+      book.description,
+      book.synopsis,
+    ]),
+  };
+}
+
 // Book schema
 const BookSchema = new Schema<IBook>(
   {
@@ -1395,6 +1506,18 @@ const BookSchema = new Schema<IBook>(
       type: [ReviewSchema],
       default: [],
     },
+    collaborators: {
+      type: [CollaboratorSchema],
+      default: [],
+    },
+    search: {
+      type: {
+        authorName: String,
+        terms: String,
+        _id: false,
+      },
+      select: false,
+    },
   },
   {
     timestamps: true,
@@ -1412,11 +1535,42 @@ BookSchema.index({ 'statistics.views': -1 });
 BookSchema.index({ 'statistics.purchases': -1 });
 BookSchema.index({ createdAt: -1 });
 BookSchema.index({ tags: 1 });
+BookSchema.index({ 'collaborators.user': 1 });
 
 // Compound indexes
 BookSchema.index({ 'publishingStatus.status': 1, 'publishingStatus.isPublic': 1 });
 BookSchema.index({ genre: 1, 'qualityScore.overallScore': -1 });
 
+// Marketplace full-text search. default_language 'none' disables English
+// stemming so Hebrew and English are tokenized alike, and the language
+// override points at an unused field because Book.language holds codes
+// such as 'he' that the text index does not support.
+BookSchema.index(
+  {
+    title: 'text',
+    'search.authorName': 'text',
+    tags: 'text',
+    'publishingStatus.marketingStrategy.tags': 'text',
+    description: 'text',
+    synopsis: 'text',
+    'search.terms': 'text',
+  },
+  {
+    name: 'book_text_search',
+    weights: {
+      title: 10,
+      'search.authorName': 6,
+      tags: 5,
+      'publishingStatus.marketingStrategy.tags': 5,
+      description: 3,
+      synopsis: 2,
+      'search.terms': 1,
+    },
+    default_language: 'none',
+    language_override: 'textSearchLanguage',
+  }
+);
+
 // Virtual for checking if book is published
 BookSchema.virtual('isPublished').get(function (this: IBook) {
   return this.publishingStatus.status === 'published' && this.publishingStatus.isPublic;
@@ -1429,6 +1583,14 @@ BookSchema.virtual('formattedPrice').get(function (this: IBook) {
 
 // Pre-save middleware to update statistics
 BookSchema.pre('save', function (next) {
+  // Chapters edited in place (restores, accepted suggestions) get a new
+  // version; updateBook numbers the chapters it replaces itself
+  for (const chapter of this.chapters as unknown as mongoose.Types.Subdocument[]) {
+    if (!chapter.isNew && (chapter.isModified('content') || chapter.isModified('title'))) {
+      chapter.set('version', (chapter.get('version') || 1) + 1);
+    }
+  }
+
   // Update chapter count
   this.statistics.chapterCount = this.chapters.length;
 
@@ -1453,5 +1615,22 @@ BookSchema.pre('save', function (next) {
   next();
 });
 
+// Pre-save middleware to keep the search fields in sync
+BookSchema.pre('save', async function () {
+  const searchFieldsChanged =
+    this.isNew ||
+    this.isModified('title') ||
+    this.isModified('description') ||
+    this.isModified('synopsis') ||
+    this.isModified('tags') ||
+    this.isModified('publishingStatus.marketingStrategy.tags') ||
+    this.isModified('author');
+
+  if (!searchFieldsChanged) return;
+
+  const author = await mongoose.model('User').findById(this.author).select('name').lean<{ name?: string }>();
+  this.search = buildBookSearchFields(this, author?.name);
+});
+
 // Export the model
 export const Book = mongoose.model<IBook>('Book', BookSchema);
@@ -0,0 +1,147 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Chapter Facts Model
+ * The continuity checker's fact table: what one chapter states about
+ * characters, places and dates, extracted by the AI. A sheet is reused
+ * until its chapter (or the character profiles) change, which is what
+ * makes incremental checks cheap.
+ */
+
+// attribute:  a lasting detail of a character or place (eye color, the inn's sign)
+// death:      the subject dies
+// appearance: the subject is present and acting
+// location:   where the subject is
+// date:       when an event happens
+export type ContinuityFactKind = 'attribute' | 'death' | 'appearance' | 'location' | 'date';
+
+export const CONTINUITY_FACT_KINDS: ContinuityFactKind[] = ['attribute', 'death', 'appearance', 'location', 'date'];
+
+export interface IContinuityFact {
+  kind: ContinuityFactKind;
+  subject: string; // Character, place or event
+  attribute?: string; // attribute facts: what is described, e.g. 'eye color'
+  value?: string; // As the text says it
+  normalized?: string; // Short canonical form for comparison; dates as YYYY[-MM[-DD]]
+  changeExplained: boolean; // The text accounts for a change (dyed hair, a new scar)
+  flashback: boolean; // Memory, dream or flashback rather than the story's present
+  quote: string;
+  startOffset?: number; // Of the quote in the chapter's text content
+  endOffset?: number;
+}
+
+// Something the chapter says that contradicts a character's profile
+export interface IProfileConflict {
+  character: string;
+  field: string;
+  profileValue: string;
+  chapterValue: string;
+  quote: string;
+  startOffset?: number;
+  endOffset?: number;
+}
+
+// Chapter Facts interface
+export interface IChapterFacts extends Document {
+  book: mongoose.Types.ObjectId;
+  chapter: mongoose.Types.ObjectId;
+  contentHash: string; // Chapter content plus character profiles
+  facts: IContinuityFact[];
+  profileConflicts: IProfileConflict[];
+  scannedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ContinuityFactSchema = new Schema<IContinuityFact>(
+  {
+    kind: {
+      type: String,
+      enum: CONTINUITY_FACT_KINDS,
+      required: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    attribute: String,
+    value: String,
+    normalized: String,
+    changeExplained: {
+      type: Boolean,
+      default: false,
+    },
+    flashback: {
+      type: Boolean,
+      default: false,
+    },
+    quote: {
+      type: String,
+      default: '',
+    },
+    startOffset: Number,
+    endOffset: Number,
+  },
+  { _id: false }
+);
+
+const ProfileConflictSchema = new Schema<IProfileConflict>(
+  {
+    character: {
+      type: String,
+      required: true,
+    },
+    field: {
+      type: String,
+      required: true,
+    },
+    profileValue: String,
+    chapterValue: String,
+    quote: {
+      type: String,
+      default: '',
+    },
+    startOffset: Number,
+    endOffset: Number,
+  },
+  { _id: false }
+);
+
+// Chapter Facts schema
+const ChapterFactsSchema = new Schema<IChapterFacts>(
+  {
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    chapter: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    contentHash: {
+      type: String,
+      required: true,
+    },
+    facts: {
+      type: [ContinuityFactSchema],
+      default: [],
+    },
+    profileConflicts: {
+      type: [ProfileConflictSchema],
+      default: [],
+    },
+    scannedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'chapter_facts',
+  }
+);
+
+ChapterFactsSchema.index({ book: 1, chapter: 1 }, { unique: true });
+
+export const ChapterFacts = mongoose.model<IChapterFacts>('ChapterFacts', ChapterFactsSchema);
@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Chapter Revision Model
+ * Point-in-time snapshots of a chapter's content, keyed by book + chapter,
+ * so overwritten or deleted text can be inspected, diffed and restored
+ */
+
+// 'suggestion' holds an editor's proposed version; it never changed the book
+export type RevisionSource = 'save' | 'restore' | 'suggestion';
+
+// Chapter Revision interface
+export interface IChapterRevision extends Document {
+  book: mongoose.Types.ObjectId;
+  chapter: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId; // User whose save (or suggestion) produced the snapshot
+  title: string;
+  content: string;
+  wordCount: number;
+  source: RevisionSource;
+  restoredFrom?: mongoose.Types.ObjectId; // Revision that was restored (source === 'restore')
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Chapter Revision schema
+const ChapterRevisionSchema = new Schema<IChapterRevision>(
+  {
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    chapter: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    title: {
+      type: String,
+      default: '',
+    },
+    content: {
+      type: String,
+      default: '',
+    },
+    wordCount: {
+      type: Number,
+      default: 0,
+    },
+    source: {
+      type: String,
+      enum: ['save', 'restore', 'suggestion'],
+      default: 'save',
+    },
+    restoredFrom: {
+      type: Schema.Types.ObjectId,
+      ref: 'ChapterRevision',
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'chapter_revisions',
+  }
+);
+
+// Revisions are always listed newest-first per chapter
+ChapterRevisionSchema.index({ book: 1, chapter: 1, createdAt: -1 });
+
+export const ChapterRevision = mongoose.model<IChapterRevision>('ChapterRevision', ChapterRevisionSchema);
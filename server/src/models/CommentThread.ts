@@ -0,0 +1,142 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { AnnotationAnchorSchema, IAnnotationAnchor } from './ReaderAnnotation';
+
+/**
+ * Comment Thread Model
+ * A discussion anchored to a passage of a chapter draft. A thread is
+ * either a plain comment or a suggested edit (insert, delete or replace)
+ * that the author accepts into the chapter or rejects. Anchors use the
+ * same text offsets as reader annotations, so they survive later edits.
+ */
+
+export type CommentThreadKind = 'comment' | 'suggestion';
+
+export type SuggestionType = 'insert' | 'delete' | 'replace';
+
+// Comments are open or resolved; suggestions end accepted or rejected
+export type CommentThreadStatus = 'open' | 'resolved' | 'accepted' | 'rejected';
+
+// The proposed edit of the anchored range
+export interface ISuggestedEdit {
+  type: SuggestionType;
+  text: string; // Text to insert, or the replacement; empty for deletions
+}
+
+// One message in a thread
+export interface IThreadMessage {
+  _id?: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  body: string;
+  createdAt: Date;
+}
+
+// Comment Thread interface
+export interface ICommentThread extends Document {
+  book: mongoose.Types.ObjectId;
+  chapter: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId; // User who opened the thread
+  kind: CommentThreadKind;
+  anchor: IAnnotationAnchor;
+  suggestion?: ISuggestedEdit;
+  messages: IThreadMessage[];
+  status: CommentThreadStatus;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
+  isOrphaned: boolean; // Anchor text no longer found in the chapter
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SuggestedEditSchema = new Schema<ISuggestedEdit>(
+  {
+    type: {
+      type: String,
+      enum: ['insert', 'delete', 'replace'],
+      required: true,
+    },
+    text: {
+      type: String,
+      default: '',
+      maxlength: 5000,
+    },
+  },
+  { _id: false }
+);
+
+const ThreadMessageSchema = new Schema<IThreadMessage>({
+  author: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  body: {
+    type: String,
+    required: true,
+    maxlength: 5000,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+// Comment Thread schema
+const CommentThreadSchema = new Schema<ICommentThread>(
+  {
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    chapter: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: ['comment', 'suggestion'],
+      required: true,
+    },
+    anchor: {
+      type: AnnotationAnchorSchema,
+      required: true,
+    },
+    suggestion: {
+      type: SuggestedEditSchema,
+    },
+    messages: {
+      type: [ThreadMessageSchema],
+      default: [],
+    },
+    status: {
+      type: String,
+      enum: ['open', 'resolved', 'accepted', 'rejected'],
+      default: 'open',
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    resolvedAt: {
+      type: Date,
+    },
+    isOrphaned: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'comment_threads',
+  }
+);
+
+// Threads are always loaded per chapter
+CommentThreadSchema.index({ book: 1, chapter: 1, createdAt: 1 });
+
+export const CommentThread = mongoose.model<ICommentThread>('CommentThread', CommentThreadSchema);
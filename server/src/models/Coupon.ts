@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Coupon Model
+ * A discount code an author offers on their books: a percentage or a
+ * fixed amount off, for chosen books or the whole catalogue, with an
+ * optional usage cap and validity window
+ */
+
+export type CouponDiscountType = 'percent' | 'fixed';
+
+// Coupon interface
+export interface ICoupon extends Document {
+  author: mongoose.Types.ObjectId;
+  code: string; // Stored upper-case; unique per author
+  discountType: CouponDiscountType;
+  value: number; // Percent (1-100) or USD
+  books: mongoose.Types.ObjectId[]; // Empty = every book by the author
+  maxRedemptions?: number;
+  redemptions: number;
+  revenue: number; // USD paid on purchases that used the coupon
+  discountGiven: number; // USD taken off those purchases
+  startsAt?: Date;
+  expiresAt?: Date;
+  active: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Coupon schema
+const CouponSchema = new Schema<ICoupon>(
+  {
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    code: {
+      type: String,
+      required: true,
+      trim: true,
+      uppercase: true,
+      match: [/^[A-Z0-9_-]{3,30}$/, 'Codes are 3-30 letters, digits, dashes or underscores'],
+    },
+    discountType: {
+      type: String,
+      enum: ['percent', 'fixed'],
+      required: true,
+    },
+    value: {
+      type: Number,
+      required: true,
+      min: 0.01,
+    },
+    books: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Book',
+      },
+    ],
+    maxRedemptions: {
+      type: Number,
+      min: 1,
+    },
+    redemptions: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    revenue: {
+      type: Number,
+      default: 0,
+    },
+    discountGiven: {
+      type: Number,
+      default: 0,
+    },
+    startsAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'coupons',
+  }
+);
+
+CouponSchema.index({ author: 1, code: 1 }, { unique: true });
+
+export const Coupon = mongoose.model<ICoupon>('Coupon', CouponSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Credit Ledger Model
+ * Append-only record of every change to a user's AI credit balance:
+ * metered AI operations, refunds of failed operations, monthly refills
+ * and plan or admin adjustments
+ */
+
+export type CreditEntryType = 'usage' | 'refund' | 'refill' | 'subscription' | 'adjustment';
+
+// Credit Ledger entry interface
+export interface ICreditLedgerEntry extends Document {
+  user: mongoose.Types.ObjectId;
+  type: CreditEntryType;
+  operation?: string; // Metered AI operation (usage and refund entries)
+  cost: number; // List price of the operation, charged or not
+  amount: number; // Signed change applied to the balance
+  balanceAfter: number;
+  book?: mongoose.Types.ObjectId;
+  description?: string;
+  refundOf?: mongoose.Types.ObjectId; // Usage entry reversed by a refund
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Credit Ledger schema
+const CreditLedgerSchema = new Schema<ICreditLedgerEntry>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['usage', 'refund', 'refill', 'subscription', 'adjustment'],
+      required: true,
+    },
+    operation: {
+      type: String,
+    },
+    cost: {
+      type: Number,
+      default: 0,
+    },
+    amount: {
+      type: Number,
+      required: true,
+    },
+    balanceAfter: {
+      type: Number,
+      required: true,
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+    },
+    description: {
+      type: String,
+    },
+    refundOf: {
+      type: Schema.Types.ObjectId,
+      ref: 'CreditLedger',
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'credit_ledger',
+  }
+);
+
+// History is always listed newest-first per user
+CreditLedgerSchema.index({ user: 1, createdAt: -1 });
+
+export const CreditLedger = mongoose.model<ICreditLedgerEntry>('CreditLedger', CreditLedgerSchema);
@@ -0,0 +1,120 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Earnings Ledger Model
+ * Append-only, double-entry record of book sale money: what buyers paid,
+ * what is owed to authors and collaborators, the platform's revenue and
+ * the payouts sent. Each entry's lines sum to zero; balances are derived
+ * from the lines rather than kept as counters.
+ */
+
+export const EARNINGS_ACCOUNTS = [
+  'buyer_payments', // Money received from buyers
+  'author_payable', // Owed to an author or collaborator (per user)
+  'platform_revenue', // The platform's share of sales
+  'payouts', // Money sent out to authors
+  'opening_balances', // Earnings carried over from the old profile counters
+] as const;
+
+export type EarningsAccount = (typeof EARNINGS_ACCOUNTS)[number];
+
+export type EarningsEntryType = 'sale' | 'refund' | 'partial_refund' | 'payout' | 'payout_reversal' | 'opening_balance';
+
+export interface IEarningsLine {
+  account: EarningsAccount;
+  user?: mongoose.Types.ObjectId; // Whose balance, on author_payable lines
+  amount: number; // Cents; debits positive, credits negative
+}
+
+// Earnings Ledger entry interface
+export interface IEarningsEntry extends Document {
+  type: EarningsEntryType;
+  idempotencyKey: string; // Posting the same key twice is refused (e.g. sale:<order id>)
+  lines: IEarningsLine[];
+  transactionRef?: mongoose.Types.ObjectId; // The buyer's Transaction, for sales and refunds
+  book?: mongoose.Types.ObjectId;
+  payout?: {
+    paypalEmail: string;
+    status: 'pending' | 'completed';
+  };
+  reverses?: mongoose.Types.ObjectId; // Entry undone (or, by a partial refund, reduced) by a refund or payout reversal
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const EarningsLineSchema = new Schema<IEarningsLine>(
+  {
+    account: {
+      type: String,
+      enum: EARNINGS_ACCOUNTS,
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    amount: {
+      type: Number,
+      required: true,
+      validate: {
+        validator: Number.isInteger,
+        message: 'Ledger amounts are whole cents',
+      },
+    },
+  },
+  { _id: false }
+);
+
+// Earnings Ledger schema
+const EarningsLedgerSchema = new Schema<IEarningsEntry>(
+  {
+    type: {
+      type: String,
+      enum: ['sale', 'refund', 'partial_refund', 'payout', 'payout_reversal', 'opening_balance'],
+      required: true,
+    },
+    idempotencyKey: {
+      type: String,
+      required: true,
+    },
+    lines: {
+      type: [EarningsLineSchema],
+      validate: {
+        validator: (lines: IEarningsLine[]) =>
+          lines.length >= 2 && lines.reduce((sum, line) => sum + line.amount, 0) === 0,
+        message: 'Ledger entry lines must balance to zero',
+      },
+    },
+    transactionRef: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+    },
+    payout: {
+      paypalEmail: { type: String },
+      status: { type: String, enum: ['pending', 'completed'] },
+    },
+    reverses: {
+      type: Schema.Types.ObjectId,
+      ref: 'EarningsLedger',
+    },
+    description: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'earnings_ledger',
+  }
+);
+
+EarningsLedgerSchema.index({ idempotencyKey: 1 }, { unique: true });
+EarningsLedgerSchema.index({ 'lines.user': 1, createdAt: -1 });
+EarningsLedgerSchema.index({ type: 1, createdAt: -1 });
+EarningsLedgerSchema.index({ transactionRef: 1 });
+
+export const EarningsLedger = mongoose.model<IEarningsEntry>('EarningsLedger', EarningsLedgerSchema);
@@ -0,0 +1,120 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Gift Model
+ * A book or a prepaid gift card bought for someone by email. Once paid it
+ * waits for its delivery date, then the recipient gets an email with a
+ * claim link; claiming adds the book to their library or the card's value
+ * to their gift card balance, whether or not they had an account when it
+ * was sent. A gift whose payment is refunded is revoked.
+ */
+
+export type GiftType = 'book' | 'gift_card';
+
+export type GiftStatus = 'pending_payment' | 'scheduled' | 'delivered' | 'claimed' | 'revoked';
+
+// Gift interface
+export interface IGift extends Document {
+  type: GiftType;
+  sender: mongoose.Types.ObjectId;
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+  book?: mongoose.Types.ObjectId; // Book gifts only
+  amount: number; // USD: what the book cost, or the card's value
+  transactionRef?: mongoose.Types.ObjectId;
+  status: GiftStatus;
+  deliverAt: Date;
+  deliveredAt?: Date;
+  claimTokenHash?: string; // SHA-256 of the emailed token, set on delivery
+  claimedBy?: mongoose.Types.ObjectId;
+  claimedAt?: Date;
+  creditedAsBalance?: boolean; // The recipient already owned the book
+  revokedAt?: Date; // Its payment was refunded or charged back
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Gift schema
+const GiftSchema = new Schema<IGift>(
+  {
+    type: {
+      type: String,
+      enum: ['book', 'gift_card'],
+      required: true,
+    },
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    recipientEmail: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    recipientName: {
+      type: String,
+      trim: true,
+      maxlength: 100,
+    },
+    message: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    transactionRef: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+    },
+    status: {
+      type: String,
+      enum: ['pending_payment', 'scheduled', 'delivered', 'claimed', 'revoked'],
+      default: 'pending_payment',
+    },
+    deliverAt: {
+      type: Date,
+      required: true,
+    },
+    deliveredAt: {
+      type: Date,
+    },
+    claimTokenHash: {
+      type: String,
+    },
+    claimedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    claimedAt: {
+      type: Date,
+    },
+    creditedAsBalance: {
+      type: Boolean,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'gifts',
+  }
+);
+
+GiftSchema.index({ status: 1, deliverAt: 1 });
+GiftSchema.index({ recipientEmail: 1, status: 1 });
+GiftSchema.index({ sender: 1, createdAt: -1 });
+GiftSchema.index({ claimTokenHash: 1 }, { unique: true, sparse: true });
+
+export const Gift = mongoose.model<IGift>('Gift', GiftSchema);
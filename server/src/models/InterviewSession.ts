@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Interview Session Model
+ * Persisted state of an author's chat or voice story interview, so an
+ * interview survives server restarts and can be resumed from any instance.
+ * Sessions expire after a period of inactivity.
+ */
+
+export type InterviewKind = 'chat' | 'voice';
+
+// Interview Session interface
+export interface IInterviewSession extends Document {
+  interviewId: string; // Client-facing interview id
+  user: mongoose.Types.ObjectId;
+  kind: InterviewKind;
+  book?: mongoose.Types.ObjectId;
+  state: Record<string, any>; // ChatInterviewState or InterviewState, per kind
+  currentQuestion?: string; // Question awaiting an answer (voice interviews)
+  isComplete: boolean;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Interview Session schema
+const InterviewSessionSchema = new Schema<IInterviewSession>(
+  {
+    interviewId: {
+      type: String,
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: ['chat', 'voice'],
+      required: true,
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+    },
+    state: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    currentQuestion: {
+      type: String,
+    },
+    isComplete: {
+      type: Boolean,
+      default: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'interview_sessions',
+    minimize: false,
+  }
+);
+
+// Interview ids are only unique per user (voice interviews may reuse a book id)
+InterviewSessionSchema.index({ user: 1, interviewId: 1 }, { unique: true });
+InterviewSessionSchema.index({ user: 1, isComplete: 1, updatedAt: -1 });
+
+// TTL index - MongoDB removes the session once expiresAt has passed
+InterviewSessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const InterviewSession = mongoose.model<IInterviewSession>('InterviewSession', InterviewSessionSchema);
@@ -19,7 +19,11 @@ export type NotificationType =
   | 'quality_score'  // Book quality score updated
   | 'mention'        // Someone mentioned you
   | 'system'         // System notification
-  | 'promotion';     // Your book was featured/promoted
+  | 'promotion'      // Your book was featured/promoted
+  | 'collaboration'  // Book team invitations, responses and editor suggestions
+  | 'comment_thread' // Comments and suggested edits on a chapter draft
+  | 'beta_read'      // Invitation to beta-read a book before it is published
+  | 'writing_goal';  // Daily writing goal reminders
 
 // Notification interface
 export interface INotification extends Document {
@@ -77,6 +81,10 @@ const notificationSchema = new Schema<INotification>(
         'mention',
         'system',
         'promotion',
+        'collaboration',
+        'comment_thread',
+        'beta_read',
+        'writing_goal',
       ],
       required: true,
       index: true,
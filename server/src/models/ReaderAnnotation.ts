@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Reader Annotation Model
+ * A reader's highlight, note or bookmark in a book. Anchored by chapter
+ * plus character offsets into the chapter's text, with the quoted text
+ * and its surroundings kept so the anchor can be found again after the
+ * author edits the chapter.
+ */
+
+export type AnnotationType = 'highlight' | 'note' | 'bookmark';
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+// Position of the annotated text within the chapter's text content
+export interface IAnnotationAnchor {
+  startOffset: number;
+  endOffset: number;
+  exact: string; // The annotated text itself
+  prefix: string; // Up to 32 characters before it
+  suffix: string; // Up to 32 characters after it
+}
+
+// Reader Annotation interface
+export interface IReaderAnnotation extends Document {
+  user: mongoose.Types.ObjectId;
+  book: mongoose.Types.ObjectId;
+  chapter: mongoose.Types.ObjectId;
+  type: AnnotationType;
+  anchor: IAnnotationAnchor;
+  note?: string;
+  color: HighlightColor;
+  isOrphaned: boolean; // Anchor text no longer found in the chapter
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const AnnotationAnchorSchema = new Schema<IAnnotationAnchor>(
+  {
+    startOffset: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    endOffset: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    exact: {
+      type: String,
+      default: '',
+      maxlength: 5000,
+    },
+    prefix: {
+      type: String,
+      default: '',
+      maxlength: 64,
+    },
+    suffix: {
+      type: String,
+      default: '',
+      maxlength: 64,
+    },
+  },
+  { _id: false }
+);
+
+// Reader Annotation schema
+const ReaderAnnotationSchema = new Schema<IReaderAnnotation>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    chapter: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['highlight', 'note', 'bookmark'],
+      required: true,
+    },
+    anchor: {
+      type: AnnotationAnchorSchema,
+      required: true,
+    },
+    note: {
+      type: String,
+      maxlength: 5000,
+    },
+    color: {
+      type: String,
+      enum: ['yellow', 'green', 'blue', 'pink', 'purple'],
+      default: 'yellow',
+    },
+    isOrphaned: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'reader_annotations',
+  }
+);
+
+// A reader's annotations are always loaded per book
+ReaderAnnotationSchema.index({ user: 1, book: 1, chapter: 1 });
+
+export const ReaderAnnotation = mongoose.model<IReaderAnnotation>('ReaderAnnotation', ReaderAnnotationSchema);
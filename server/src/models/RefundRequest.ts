@@ -0,0 +1,117 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Refund Request Model
+ * A refund of a book or series bundle purchase: asked for by the buyer and decided by an
+ * admin, or reported by PayPal (a refund issued there, or a chargeback).
+ * Gift card purchases are only refunded in PayPal.
+ */
+
+export type RefundStatus = 'requested' | 'approved' | 'rejected' | 'refunded' | 'failed';
+export type RefundSource = 'buyer' | 'paypal_refund' | 'chargeback';
+
+// Refund Request interface
+export interface IRefundRequest extends Document {
+  transactionRef: mongoose.Types.ObjectId;
+  buyer: mongoose.Types.ObjectId;
+  book?: mongoose.Types.ObjectId; // For a series bundle, the book the refund was asked about; none for a gift card
+  series?: mongoose.Types.ObjectId; // Set when the purchase was a series bundle
+  gift?: mongoose.Types.ObjectId; // Set when the purchase was a gift
+  amount: number;
+  reason?: string;
+  source: RefundSource;
+  status: RefundStatus;
+  decidedBy?: mongoose.Types.ObjectId;
+  decidedAt?: Date;
+  decisionNote?: string;
+  paypalRefundId?: string;
+  refundedAt?: Date;
+  failureReason?: string;
+  unrecoveredAmount?: number; // Gift card value the gift's recipient had already spent
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Refund Request schema
+const RefundRequestSchema = new Schema<IRefundRequest>(
+  {
+    transactionRef: {
+      type: Schema.Types.ObjectId,
+      ref: 'Transaction',
+      required: true,
+    },
+    buyer: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+    },
+    series: {
+      type: Schema.Types.ObjectId,
+      ref: 'Series',
+    },
+    gift: {
+      type: Schema.Types.ObjectId,
+      ref: 'Gift',
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    source: {
+      type: String,
+      enum: ['buyer', 'paypal_refund', 'chargeback'],
+      default: 'buyer',
+    },
+    status: {
+      type: String,
+      enum: ['requested', 'approved', 'rejected', 'refunded', 'failed'],
+      default: 'requested',
+    },
+    decidedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    decidedAt: {
+      type: Date,
+    },
+    decisionNote: {
+      type: String,
+      trim: true,
+      maxlength: 1000,
+    },
+    paypalRefundId: {
+      type: String,
+    },
+    refundedAt: {
+      type: Date,
+    },
+    failureReason: {
+      type: String,
+    },
+    unrecoveredAmount: {
+      type: Number,
+      min: 0,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'refund_requests',
+  }
+);
+
+// One refund per purchase
+RefundRequestSchema.index({ transactionRef: 1 }, { unique: true });
+RefundRequestSchema.index({ status: 1, createdAt: -1 });
+RefundRequestSchema.index({ buyer: 1, createdAt: -1 });
+
+export const RefundRequest = mongoose.model<IRefundRequest>('RefundRequest', RefundRequestSchema);
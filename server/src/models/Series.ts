@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Series Model
+ * An author's ordered run of books with its own description and cover,
+ * optionally sold as a bundle for less than the books cost separately
+ */
+
+// Series interface
+export interface ISeries extends Document {
+  author: mongoose.Types.ObjectId;
+  title: string;
+  description?: string;
+  coverImageUrl?: string;
+  books: mongoose.Types.ObjectId[]; // Reading order; a book is in at most one series
+  bundlePrice?: number; // USD for every paid book; unset = not sold as a bundle
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Series schema
+const SeriesSchema = new Schema<ISeries>(
+  {
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: 2000,
+    },
+    coverImageUrl: {
+      type: String,
+      trim: true,
+    },
+    books: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Book',
+      },
+    ],
+    bundlePrice: {
+      type: Number,
+      min: 0.5,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'series',
+  }
+);
+
+SeriesSchema.index({ author: 1, updatedAt: -1 });
+SeriesSchema.index({ books: 1 });
+
+export const Series = mongoose.model<ISeries>('Series', SeriesSchema);
@@ -0,0 +1,87 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Session Model
+ * One signed-in device. Holds the hash of the device's current refresh
+ * token; access tokens carry the session id, so revoking the session
+ * signs the device out on its next request.
+ */
+
+// Session interface
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  refreshTokenHash: string;
+  previousRefreshTokenHash?: string; // Hash replaced by the last rotation, kept to detect reuse
+  rotatedAt?: Date;
+  signInCodeHash?: string; // One-time code from an OAuth redirect, exchanged for the first tokens
+  userAgent?: string;
+  device?: string; // Readable label, e.g. "Chrome on macOS"
+  ipAddress?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'revoked' | 'password_reset' | 'token_reuse';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Session schema
+const SessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+    },
+    previousRefreshTokenHash: {
+      type: String,
+    },
+    rotatedAt: {
+      type: Date,
+    },
+    signInCodeHash: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+      maxlength: 500,
+    },
+    device: {
+      type: String,
+    },
+    ipAddress: {
+      type: String,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: ['logout', 'revoked', 'password_reset', 'token_reuse'],
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'auth_sessions',
+  }
+);
+
+// Indexes
+SessionSchema.index({ user: 1, revokedAt: 1, lastUsedAt: -1 });
+
+// TTL index - MongoDB removes the session once expiresAt has passed
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,85 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Story Bible Entry Model
+ * Worldbuilding kept alongside a book: places, objects, factions,
+ * glossary terms and timeline events. Entries can be linked to the
+ * chapters they belong to; chapters that merely mention an entry are
+ * found from the text.
+ */
+
+export type StoryBibleEntryType = 'location' | 'item' | 'faction' | 'term' | 'event';
+
+export const STORY_BIBLE_ENTRY_TYPES: StoryBibleEntryType[] = ['location', 'item', 'faction', 'term', 'event'];
+
+// Story Bible Entry interface
+export interface IStoryBibleEntry extends Document {
+  book: mongoose.Types.ObjectId;
+  type: StoryBibleEntryType;
+  name: string;
+  aliases: string[]; // Other names the text uses for it
+  description: string;
+  chapters: mongoose.Types.ObjectId[]; // Chapters the author linked it to
+  inWorldDate?: string; // Events: the date as the story tells it, e.g. 'Spring, year 3 of the siege'
+  order?: number; // Events: position on the timeline
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Story Bible Entry schema
+const StoryBibleEntrySchema = new Schema<IStoryBibleEntry>(
+  {
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: STORY_BIBLE_ENTRY_TYPES,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: [true, 'Name is required'],
+      trim: true,
+      maxlength: [120, 'Name must not exceed 120 characters'],
+    },
+    aliases: {
+      type: [String],
+      default: [],
+    },
+    description: {
+      type: String,
+      default: '',
+      maxlength: [5000, 'Description must not exceed 5000 characters'],
+    },
+    chapters: [
+      {
+        type: Schema.Types.ObjectId,
+      },
+    ],
+    inWorldDate: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'In-world date must not exceed 100 characters'],
+    },
+    order: {
+      type: Number,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'story_bible_entries',
+  }
+);
+
+StoryBibleEntrySchema.index({ book: 1, type: 1, name: 1 });
+
+export const StoryBibleEntry = mongoose.model<IStoryBibleEntry>('StoryBibleEntry', StoryBibleEntrySchema);
@@ -9,9 +9,9 @@ export interface ITransaction extends Document {
   userId: Types.ObjectId;
   amount: number;
   currency: string;
-  plan: 'free' | 'standard' | 'premium';
+  plan: 'free' | 'standard' | 'premium' | 'book-purchase' | 'gift-card';
   status: 'pending' | 'completed' | 'failed' | 'refunded';
-  paymentMethod: 'paypal' | 'mock' | 'credit_card';
+  paymentMethod: 'paypal' | 'mock' | 'credit_card' | 'gift_card';
   orderId?: string;
   paypalOrderId?: string;
   paypalCaptureId?: string;
@@ -47,7 +47,7 @@ const transactionSchema = new Schema<ITransaction>(
     plan: {
       type: String,
       required: true,
-      enum: ['free', 'standard', 'premium'],
+      enum: ['free', 'standard', 'premium', 'book-purchase', 'gift-card'],
     },
     status: {
       type: String,
@@ -59,7 +59,7 @@ const transactionSchema = new Schema<ITransaction>(
     paymentMethod: {
       type: String,
       required: true,
-      enum: ['paypal', 'mock', 'credit_card'],
+      enum: ['paypal', 'mock', 'credit_card', 'gift_card'],
       default: 'mock',
     },
     orderId: {
@@ -42,6 +42,8 @@ export interface IProfile {
     booksWritten: number;
     averageQualityScore?: number;
   };
+  // Counters from before the earnings ledger; imported into it once and
+  // no longer written
   earnings?: {
     totalEarned: number;
     pendingPayout: number;
@@ -85,6 +87,13 @@ export interface IEmailVerification {
   verifiedAt?: Date;
 }
 
+// Password reset interface - only a hash of the emailed token is stored
+export interface IPasswordReset {
+  tokenHash: string;
+  expiresAt: Date;
+  requestedAt: Date;
+}
+
 // User interface extending Mongoose Document
 export interface IUser extends Document {
   name: string;
@@ -95,7 +104,10 @@ export interface IUser extends Document {
   subscription?: ISubscription;
   profile?: IProfile;
   paypal?: IPayPal;
+  giftCardBalance: number; // USD from claimed gift cards, spendable on books
   emailVerification: IEmailVerification;
+  passwordReset?: IPasswordReset;
+  passwordChangedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -332,6 +344,25 @@ const EmailVerificationSchema = new Schema<IEmailVerification>(
   { _id: false }
 );
 
+// Password reset schema
+const PasswordResetSchema = new Schema<IPasswordReset>(
+  {
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    requestedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 // User schema
 const UserSchema = new Schema<IUser>(
   {
@@ -378,10 +409,22 @@ const UserSchema = new Schema<IUser>(
     paypal: {
       type: PayPalSchema,
     },
+    giftCardBalance: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
     emailVerification: {
       type: EmailVerificationSchema,
       default: () => ({ isVerified: false }),
     },
+    passwordReset: {
+      type: PasswordResetSchema,
+      select: false,
+    },
+    passwordChangedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -394,6 +437,7 @@ UserSchema.index({ email: 1 });
 UserSchema.index({ role: 1 });
 UserSchema.index({ 'subscription.tier': 1 });
 UserSchema.index({ createdAt: -1 });
+UserSchema.index({ 'passwordReset.tokenHash': 1 }, { sparse: true });
 
 // Virtual for checking if user is premium
 UserSchema.virtual('isPremium').get(function (this: IUser) {
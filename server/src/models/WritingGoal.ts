@@ -0,0 +1,156 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Writing Goal Model
+ * An author's writing targets and daily record: a daily word goal, book
+ * deadlines, an optional reminder, and words written per day. Days are
+ * calendar days in the author's timezone, keyed 'YYYY-MM-DD'.
+ */
+
+// A deadline for finishing a book
+export interface IBookGoal {
+  book: mongoose.Types.ObjectId;
+  targetWords: number;
+  deadline: Date;
+  createdAt: Date;
+}
+
+// Words written on one day
+export interface IWritingDay {
+  date: string; // 'YYYY-MM-DD' in the author's timezone
+  words: number; // Net words added (can be negative after heavy edits)
+  minutes: number;
+  sessions: number;
+  goalMet: boolean;
+}
+
+// Writing Goal interface
+export interface IWritingGoal extends Document {
+  user: mongoose.Types.ObjectId;
+  dailyWords: number; // 0 = no daily goal
+  timezone: string; // IANA name, e.g. 'Asia/Jerusalem'
+  reminder: {
+    enabled: boolean;
+    hour: number; // Local hour (0-23) to remind if the goal is not met yet
+  };
+  lastReminderOn?: string; // Day key of the last reminder sent
+  bookGoals: IBookGoal[];
+  history: IWritingDay[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Days of history kept
+export const WRITING_HISTORY_DAYS = 366;
+
+const BookGoalSchema = new Schema<IBookGoal>(
+  {
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    targetWords: {
+      type: Number,
+      required: true,
+      min: 100,
+    },
+    deadline: {
+      type: Date,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const WritingDaySchema = new Schema<IWritingDay>(
+  {
+    date: {
+      type: String,
+      required: true,
+    },
+    words: {
+      type: Number,
+      default: 0,
+    },
+    minutes: {
+      type: Number,
+      default: 0,
+    },
+    sessions: {
+      type: Number,
+      default: 0,
+    },
+    goalMet: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
+// Writing Goal schema
+const WritingGoalSchema = new Schema<IWritingGoal>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    dailyWords: {
+      type: Number,
+      min: 0,
+      max: 50000,
+      default: 0,
+    },
+    timezone: {
+      type: String,
+      default: 'UTC',
+    },
+    reminder: {
+      enabled: {
+        type: Boolean,
+        default: false,
+      },
+      hour: {
+        type: Number,
+        min: 0,
+        max: 23,
+        default: 19,
+      },
+    },
+    lastReminderOn: {
+      type: String,
+    },
+    bookGoals: {
+      type: [BookGoalSchema],
+      default: [],
+    },
+    history: {
+      type: [WritingDaySchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'writing_goals',
+  }
+);
+
+// The reminder job scans authors with reminders on
+WritingGoalSchema.index({ 'reminder.enabled': 1 });
+
+// Keep the last year of days
+WritingGoalSchema.pre('save', function (next) {
+  if (this.history.length > WRITING_HISTORY_DAYS) {
+    this.history = this.history.slice(-WRITING_HISTORY_DAYS);
+  }
+  next();
+});
+
+export const WritingGoal = mongoose.model<IWritingGoal>('WritingGoal', WritingGoalSchema);
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * Writing Session Model
+ * A stretch of work on one book, built from chapter saves: saves less
+ * than half an hour apart belong to the same session. Word counts are
+ * the change in the book's total between saves.
+ */
+
+// Writing Session interface
+export interface IWritingSession extends Document {
+  user: mongoose.Types.ObjectId;
+  book: mongoose.Types.ObjectId;
+  startedAt: Date;
+  lastSaveAt: Date;
+  wordsAdded: number; // Net change over the session
+  saves: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Writing Session schema
+const WritingSessionSchema = new Schema<IWritingSession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    book: {
+      type: Schema.Types.ObjectId,
+      ref: 'Book',
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lastSaveAt: {
+      type: Date,
+      default: Date.now,
+    },
+    wordsAdded: {
+      type: Number,
+      default: 0,
+    },
+    saves: {
+      type: Number,
+      default: 1,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'writing_sessions',
+  }
+);
+
+// Finding the open session and listing recent ones
+WritingSessionSchema.index({ user: 1, book: 1, lastSaveAt: -1 });
+WritingSessionSchema.index({ user: 1, startedAt: -1 });
+
+export const WritingSession = mongoose.model<IWritingSession>('WritingSession', WritingSessionSchema);
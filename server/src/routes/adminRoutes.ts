@@ -6,6 +6,12 @@ import {
   deleteUser,
   getFlaggedBooks,
   unpublishBook,
+  getAIUsage,
+  getEarningsReconciliation,
+  importLegacyEarningsToLedger,
+  getRefundRequests,
+  approveRefundRequest,
+  rejectRefundRequest,
 } from '../controllers/adminController';
 import {
   getPlatformMetrics,
@@ -30,6 +36,8 @@ import {
 } from '../controllers/analyticsController';
 import { authenticate } from '../middleware/auth';
 import { requireAdmin } from '../middleware/adminMiddleware';
+import { runValidation } from '../middleware/validate';
+import { refundDecisionValidation } from '../middleware/validators';
 
 const router = Router();
 
@@ -62,6 +70,24 @@ router.get('/books/flagged', getFlaggedBooks as any);
 // PUT /api/admin/books/:id/unpublish - Unpublish a book
 router.put('/books/:id/unpublish', unpublishBook as any);
 
+// GET /api/admin/ai-usage - LLM token usage per task
+router.get('/ai-usage', getAIUsage as any);
+
+// GET /api/admin/earnings/reconciliation - Earnings ledger vs. book purchases
+router.get('/earnings/reconciliation', getEarningsReconciliation as any);
+
+// POST /api/admin/earnings/import-legacy - Carry pre-ledger profile earnings into the ledger
+router.post('/earnings/import-legacy', importLegacyEarningsToLedger as any);
+
+// GET /api/admin/refunds - Book purchase refund requests (?status=requested)
+router.get('/refunds', getRefundRequests as any);
+
+// POST /api/admin/refunds/:id/approve - Refund the payment through PayPal
+router.post('/refunds/:id/approve', runValidation(refundDecisionValidation), approveRefundRequest as any);
+
+// POST /api/admin/refunds/:id/reject - Decline a refund request
+router.post('/refunds/:id/reject', runValidation(refundDecisionValidation), rejectRefundRequest as any);
+
 // ==================== ANALYTICS ====================
 
 // GET /api/admin/analytics/metrics - Platform overview
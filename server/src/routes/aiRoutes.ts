@@ -21,12 +21,15 @@ import {
 } from '../controllers/aiBookDesignController';
 import {
   startInterview,
+  getMyInterviews,
   sendMessage,
   getInterviewState,
   completeInterview,
   cancelInterview,
 } from '../controllers/chatInterviewController';
 import { authenticate } from '../middleware/auth';
+import { meterCredits } from '../middleware/creditMeter';
+import { requireBookAccess } from '../middleware/bookAccess';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
@@ -63,7 +66,7 @@ router.use(aiLimiter);
  *   }
  * }
  */
-router.post('/suggestions', getSuggestions as any);
+router.post('/suggestions', meterCredits('ai.suggestions') as any, getSuggestions as any);
 
 /**
  * POST /api/ai/analyze
@@ -74,7 +77,7 @@ router.post('/suggestions', getSuggestions as any);
  *   text: string (min 100 chars)
  * }
  */
-router.post('/analyze', analyzeChapter as any);
+router.post('/analyze', meterCredits('ai.analyze') as any, analyzeChapter as any);
 
 /**
  * POST /api/ai/generate-titles
@@ -86,7 +89,7 @@ router.post('/analyze', analyzeChapter as any);
  *   count?: number (1-10, default 5)
  * }
  */
-router.post('/generate-titles', generateTitles as any);
+router.post('/generate-titles', meterCredits('ai.generate-titles') as any, generateTitles as any);
 
 /**
  * POST /api/ai/generate-synopsis
@@ -97,7 +100,7 @@ router.post('/generate-titles', generateTitles as any);
  *   bookId: string
  * }
  */
-router.post('/generate-synopsis', generateBookSynopsis as any);
+router.post('/generate-synopsis', requireBookAccess('edit', { body: 'bookId' }) as any, meterCredits('ai.generate-synopsis') as any, generateBookSynopsis as any);
 
 /**
  * POST /api/ai/generate-cover-colors
@@ -110,7 +113,7 @@ router.post('/generate-synopsis', generateBookSynopsis as any);
  *   mood?: string
  * }
  */
-router.post('/generate-cover-colors', generateCoverColors as any);
+router.post('/generate-cover-colors', meterCredits('ai.generate-cover-colors') as any, generateCoverColors as any);
 
 /**
  * POST /api/ai/generate-cover
@@ -123,7 +126,7 @@ router.post('/generate-cover-colors', generateCoverColors as any);
  *   title: string
  * }
  */
-router.post('/generate-cover', generateCover as any);
+router.post('/generate-cover', meterCredits('ai.generate-cover') as any, generateCover as any);
 
 /**
  * POST /api/ai/generate-image
@@ -138,7 +141,7 @@ router.post('/generate-cover', generateCover as any);
  *   pageIndex?: number (if provided with bookId, saves image to book)
  * }
  */
-router.post('/generate-image', generateAIImage as any);
+router.post('/generate-image', requireBookAccess('edit', { body: 'bookId', optional: true }) as any, meterCredits('ai.generate-image') as any, generateAIImage as any);
 
 /**
  * POST /api/ai/generate-variations
@@ -153,7 +156,7 @@ router.post('/generate-image', generateAIImage as any);
  *   count?: number (1-4, default 4)
  * }
  */
-router.post('/generate-variations', generateAIImageVariations as any);
+router.post('/generate-variations', requireBookAccess('edit', { body: 'bookId', optional: true }) as any, meterCredits('ai.generate-variations') as any, generateAIImageVariations as any);
 
 /**
  * POST /api/ai/generate-illustration/:bookId/:chapterIndex
@@ -165,7 +168,7 @@ router.post('/generate-variations', generateAIImageVariations as any);
  *   pageIndex?: number (if provided, saves image to book)
  * }
  */
-router.post('/generate-illustration/:bookId/:chapterIndex', generateChapterIllustration as any);
+router.post('/generate-illustration/:bookId/:chapterIndex', requireBookAccess('edit') as any, meterCredits('ai.generate-illustration') as any, generateChapterIllustration as any);
 
 /**
  * POST /api/ai/preview-prompt
@@ -178,7 +181,7 @@ router.post('/generate-illustration/:bookId/:chapterIndex', generateChapterIllus
  *   style?: string
  * }
  */
-router.post('/preview-prompt', previewEnhancedPrompt as any);
+router.post('/preview-prompt', requireBookAccess('edit', { body: 'bookId', optional: true }) as any, meterCredits('ai.preview-prompt') as any, previewEnhancedPrompt as any);
 
 // ============================================
 // AI BOOK DESIGN ROUTES
@@ -189,7 +192,7 @@ router.post('/preview-prompt', previewEnhancedPrompt as any);
  * Generate complete AI book design (typography, layout, cover, image suggestions)
  * This is the main "AI Design" feature
  */
-router.post('/design-book/:bookId', generateBookDesign as any);
+router.post('/design-book/:bookId', requireBookAccess('edit') as any, meterCredits('ai.design-book') as any, generateBookDesign as any);
 
 /**
  * POST /api/ai/apply-design/:bookId
@@ -204,19 +207,19 @@ router.post('/design-book/:bookId', generateBookDesign as any);
  *   applyImageSuggestions: boolean
  * }
  */
-router.post('/apply-design/:bookId', applyBookDesign as any);
+router.post('/apply-design/:bookId', requireBookAccess('edit') as any, applyBookDesign as any);
 
 /**
  * POST /api/ai/design-typography/:bookId
  * Generate only typography design
  */
-router.post('/design-typography/:bookId', generateTypography as any);
+router.post('/design-typography/:bookId', requireBookAccess('edit') as any, meterCredits('ai.design-typography') as any, generateTypography as any);
 
 /**
  * POST /api/ai/suggest-images/:bookId
  * Get AI suggestions for image placements in the book
  */
-router.post('/suggest-images/:bookId', getImageSuggestions as any);
+router.post('/suggest-images/:bookId', requireBookAccess('edit') as any, meterCredits('ai.suggest-images') as any, getImageSuggestions as any);
 
 /**
  * POST /api/ai/generate-contextual-image
@@ -230,7 +233,7 @@ router.post('/suggest-images/:bookId', getImageSuggestions as any);
  *   customPrompt: string (optional)
  * }
  */
-router.post('/generate-contextual-image', generateContextualImage as any);
+router.post('/generate-contextual-image', requireBookAccess('edit', { body: 'bookId' }) as any, meterCredits('ai.generate-contextual-image') as any, generateContextualImage as any);
 
 /**
  * POST /api/ai/design-complete/:bookId
@@ -241,7 +244,7 @@ router.post('/generate-contextual-image', generateContextualImage as any);
  *   generateImages?: boolean (default true)
  * }
  */
-router.post('/design-complete/:bookId', generateCompleteDesign as any);
+router.post('/design-complete/:bookId', requireBookAccess('edit') as any, meterCredits('ai.design-complete') as any, generateCompleteDesign as any);
 
 /**
  * POST /api/ai/design-wizard/:bookId
@@ -253,25 +256,25 @@ router.post('/design-complete/:bookId', generateCompleteDesign as any);
  *   generateInteriorImages?: boolean (default false)
  * }
  */
-router.post('/design-wizard/:bookId', designWizard as any);
+router.post('/design-wizard/:bookId', requireBookAccess('edit') as any, meterCredits('ai.design-wizard') as any, designWizard as any);
 
 /**
  * POST /api/ai/design-preview/:bookId
  * Get quick design preview without generating images
  */
-router.post('/design-preview/:bookId', getDesignPreview as any);
+router.post('/design-preview/:bookId', requireBookAccess('edit') as any, meterCredits('ai.design-preview') as any, getDesignPreview as any);
 
 /**
  * GET /api/ai/design-state/:bookId
  * Get current AI design state (for resuming)
  */
-router.get('/design-state/:bookId', getDesignState as any);
+router.get('/design-state/:bookId', requireBookAccess('edit') as any, getDesignState as any);
 
 /**
  * POST /api/ai/apply-complete-design/:bookId
  * Apply AI design state to book layout and cover
  */
-router.post('/apply-complete-design/:bookId', applyCompleteDesign as any);
+router.post('/apply-complete-design/:bookId', requireBookAccess('edit') as any, applyCompleteDesign as any);
 
 /**
  * POST /api/ai/design/complete
@@ -287,7 +290,7 @@ router.post('/apply-complete-design/:bookId', applyCompleteDesign as any);
  *   generateCoverImage?: boolean (default false)
  * }
  */
-router.post('/design/complete', generateTemplateDesign as any);
+router.post('/design/complete', requireBookAccess('edit', { body: 'bookId', optional: true }) as any, meterCredits('ai.design-template') as any, generateTemplateDesign as any);
 
 // ============================================
 // AI CHAT INTERVIEW ROUTES
@@ -305,6 +308,15 @@ router.post('/design/complete', generateTemplateDesign as any);
  */
 router.post('/interview/start', startInterview as any);
 
+/**
+ * GET /api/ai/interview/mine
+ * List the user's unfinished chat and voice interviews, most recent first
+ *
+ * Query:
+ *   kind?: 'chat' | 'voice'
+ */
+router.get('/interview/mine', getMyInterviews as any);
+
 /**
  * POST /api/ai/interview/:id/message
  * Send a message and get AI response
@@ -9,10 +9,13 @@ import {
   analyzePlotStructure,
   analyzeTension,
   analyzeWritingTechniques,
+  analyzeContinuity,
   checkWritingGuidance,
   calculateScoreChange,
 } from '../controllers/analysisController';
 import { authenticate } from '../middleware/auth';
+import { meterCredits } from '../middleware/creditMeter';
+import { requireBookAccess } from '../middleware/bookAccess';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
@@ -45,6 +48,7 @@ router.use(analysisLimiter);
  *     genre?: string
  *     bookId?: string
  *     bookTitle?: string
+ *     chapterId?: string (story bible entries linked to it are included)
  *     chapterTitle?: string
  *     surroundingText?: string
  *   }
@@ -58,7 +62,7 @@ router.use(analysisLimiter);
  *   action: string
  * }
  */
-router.post('/enhance-text', enhanceText as any);
+router.post('/enhance-text', requireBookAccess('edit', { body: 'context.bookId', optional: true }) as any, meterCredits('analysis.enhance-text') as any, enhanceText as any);
 
 /**
  * POST /api/analysis/plot-structure/:bookId
@@ -72,7 +76,7 @@ router.post('/enhance-text', enhanceText as any);
  *   suggestions: string[]
  * }
  */
-router.post('/plot-structure/:bookId', analyzePlotStructure as any);
+router.post('/plot-structure/:bookId', requireBookAccess('edit') as any, meterCredits('analysis.plot-structure') as any, analyzePlotStructure as any);
 
 /**
  * POST /api/analysis/tension/:bookId
@@ -85,7 +89,7 @@ router.post('/plot-structure/:bookId', analyzePlotStructure as any);
  *   suggestions: string[]
  * }
  */
-router.post('/tension/:bookId', analyzeTension as any);
+router.post('/tension/:bookId', requireBookAccess('edit') as any, meterCredits('analysis.tension') as any, analyzeTension as any);
 
 /**
  * POST /api/analysis/techniques/:bookId
@@ -105,7 +109,29 @@ router.post('/tension/:bookId', analyzeTension as any);
  *   improvements: string[]
  * }
  */
-router.post('/techniques/:bookId', analyzeWritingTechniques as any);
+router.post('/techniques/:bookId', requireBookAccess('edit') as any, meterCredits('analysis.techniques') as any, analyzeWritingTechniques as any);
+
+/**
+ * POST /api/analysis/continuity/:bookId
+ * Find contradictions between chapters and with the character profiles
+ *
+ * Body:
+ * {
+ *   mode?: 'full' | 'incremental' (incremental re-reads only chapters changed since the last check)
+ * }
+ *
+ * Response:
+ * {
+ *   mode: 'full' | 'incremental'
+ *   issues: [{ type, severity, subject, attribute?, values, message, references: [{ chapterId, chapterIndex, chapterTitle, quote, startOffset?, endOffset? }] }]
+ *   chapters: [{ chapterId, chapterIndex, title, facts, scannedAt }]
+ *   scannedChapters: number
+ *   reusedChapters: number
+ *   failedChapters: string[]
+ *   analyzedAt: Date
+ * }
+ */
+router.post('/continuity/:bookId', requireBookAccess('edit') as any, meterCredits('analysis.continuity') as any, analyzeContinuity as any);
 
 /**
  * POST /api/analysis/guidance
@@ -128,7 +154,7 @@ router.post('/techniques/:bookId', analyzeWritingTechniques as any);
  *   } | null
  * }
  */
-router.post('/guidance', checkWritingGuidance as any);
+router.post('/guidance', requireBookAccess('edit', { body: 'bookId' }) as any, meterCredits('analysis.guidance') as any, checkWritingGuidance as any);
 
 /**
  * POST /api/analysis/score-change
@@ -151,6 +177,6 @@ router.post('/guidance', checkWritingGuidance as any);
  *   improvements: string[]
  * }
  */
-router.post('/score-change', calculateScoreChange as any);
+router.post('/score-change', requireBookAccess('edit', { body: 'bookId', optional: true }) as any, meterCredits('analysis.score-change') as any, calculateScoreChange as any);
 
 export default router;
@@ -7,6 +7,13 @@ import {
   updateProfile,
   verifyEmail,
   resendVerificationCode,
+  forgotPassword,
+  resetPassword,
+  refreshToken,
+  exchangeOAuthCode,
+  logout,
+  getSessions,
+  deleteSession,
 } from '../controllers/authController';
 import { authenticate } from '../middleware/auth';
 import { authLimiter } from '../middleware/rateLimiter';
@@ -14,8 +21,10 @@ import { runValidation } from '../middleware/validate';
 import {
   registerValidation,
   loginValidation,
+  forgotPasswordValidation,
+  resetPasswordValidation,
 } from '../middleware/validators';
-import { generateToken } from '../utils/jwt';
+import { createSignInCode } from '../services/sessionService';
 import { isGoogleOAuthEnabled } from '../config/passport';
 
 /**
@@ -56,6 +65,42 @@ router.post(
   login
 );
 
+// POST /api/auth/forgot-password - Email a password reset link
+router.post(
+  '/forgot-password',
+  authLimiter, // Rate limit: 5 attempts per 15 minutes
+  runValidation(forgotPasswordValidation),
+  forgotPassword
+);
+
+// POST /api/auth/reset-password - Set a new password with a reset token
+router.post(
+  '/reset-password',
+  authLimiter, // Rate limit: 5 attempts per 15 minutes
+  runValidation(resetPasswordValidation),
+  resetPassword
+);
+
+// POST /api/auth/refresh - Rotate refresh token, issue new access token
+router.post('/refresh', refreshToken);
+
+// POST /api/auth/logout - Revoke the current session
+router.post('/logout', logout);
+
+// GET /api/auth/sessions - List signed-in devices
+router.get(
+  '/sessions',
+  authenticate as any, // Requires authentication
+  getSessions as any
+);
+
+// DELETE /api/auth/sessions/:id - Sign out a device
+router.delete(
+  '/sessions/:id',
+  authenticate as any, // Requires authentication
+  deleteSession as any
+);
+
 // GET /api/auth/me - Get current user
 router.get(
   '/me',
@@ -123,20 +168,16 @@ router.get(
     failureRedirect: `${process.env.CLIENT_URL || 'http://localhost:5173'}/login?error=oauth_failed`,
     session: false
   }),
-  (req: Request, res: Response) => {
+  async (req: Request, res: Response) => {
     try {
       // User is attached to req.user by passport
       const user = req.user as any;
 
-      // Generate JWT token
-      const token = generateToken({
-        id: user._id.toString(),
-        email: user.email,
-        role: user.role,
-      });
+      // Start a session; the client exchanges the one-time code for its
+      // tokens, so they never appear in the redirect URL
+      const code = await createSignInCode(user, req);
 
-      // Redirect to client with token in URL
-      res.redirect(`${process.env.CLIENT_URL || 'http://localhost:5173'}/auth-success?token=${token}`);
+      res.redirect(`${process.env.CLIENT_URL || 'http://localhost:5173'}/auth-success?code=${code}`);
     } catch (error) {
       console.error('Google OAuth callback error:', error);
       res.redirect(`${process.env.CLIENT_URL || 'http://localhost:5173'}/login?error=oauth_error`);
@@ -144,4 +185,11 @@ router.get(
   }
 );
 
+// POST /api/auth/google/exchange - Exchange the one-time sign-in code for tokens
+router.post(
+  '/google/exchange',
+  authLimiter, // Rate limit to prevent guessing
+  exchangeOAuthCode
+);
+
 export default router;
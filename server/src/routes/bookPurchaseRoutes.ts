@@ -6,6 +6,9 @@
 import { Router } from 'express';
 import {
   createPurchaseOrder,
+  createSeriesOrder,
+  createGiftOrder,
+  createGiftCardPurchase,
   capturePayment,
   checkAccess,
   getEarnings,
@@ -14,10 +17,29 @@ import {
   getLibrary,
   getBookForReading,
   updateReadingProgress,
+  requestBookRefund,
+  getMyRefunds,
+  getPriceQuote,
 } from '../controllers/bookPurchaseController';
+import {
+  getAnnotations,
+  createAnnotation,
+  updateAnnotation,
+  deleteAnnotation,
+  exportAnnotations,
+} from '../controllers/annotationController';
+import { requireBookAccess } from '../middleware/bookAccess';
 import { authenticate } from '../middleware/auth';
 import { runValidation } from '../middleware/validate';
-import { mongoIdValidation } from '../middleware/validators';
+import {
+  mongoIdValidation,
+  annotationIdValidation,
+  createAnnotationValidation,
+  updateAnnotationValidation,
+  refundRequestValidation,
+  giftOrderValidation,
+  giftCardOrderValidation,
+} from '../middleware/validators';
 
 const router = Router();
 
@@ -38,14 +60,42 @@ router.get('/earnings', getEarnings as any);
  * Payment Routes
  */
 
-// POST /api/book-purchases/:id/create-order - Create purchase order
+// GET /api/book-purchases/:id/quote - Price with any running sale and a coupon (?coupon=CODE)
+router.get(
+  '/:id/quote',
+  runValidation(mongoIdValidation),
+  getPriceQuote as any
+);
+
+// POST /api/book-purchases/:id/create-order - Create purchase order (optional couponCode)
 router.post(
   '/:id/create-order',
   runValidation(mongoIdValidation),
   createPurchaseOrder as any
 );
 
-// POST /api/book-purchases/capture - Capture payment after approval
+// POST /api/book-purchases/series/:id/create-order - Create a series bundle order
+router.post(
+  '/series/:id/create-order',
+  runValidation(mongoIdValidation),
+  createSeriesOrder as any
+);
+
+// POST /api/book-purchases/:id/gift - Buy a book as a gift (recipient, message, deliverAt)
+router.post(
+  '/:id/gift',
+  runValidation(giftOrderValidation),
+  createGiftOrder as any
+);
+
+// POST /api/book-purchases/gift-cards/create-order - Buy a gift card for someone
+router.post(
+  '/gift-cards/create-order',
+  runValidation(giftCardOrderValidation),
+  createGiftCardPurchase as any
+);
+
+// POST /api/book-purchases/capture - Capture payment after approval (books, bundles and gifts)
 router.post('/capture', capturePayment as any);
 
 // GET /api/book-purchases/:id/check-access - Check if user can access a book
@@ -55,6 +105,20 @@ router.get(
   checkAccess as any
 );
 
+/**
+ * Refund Routes
+ */
+
+// GET /api/book-purchases/refunds - List the user's refund requests
+router.get('/refunds', getMyRefunds as any);
+
+// POST /api/book-purchases/:id/refund - Ask for a refund of a purchased book
+router.post(
+  '/:id/refund',
+  runValidation([...mongoIdValidation, ...refundRequestValidation]),
+  requestBookRefund as any
+);
+
 /**
  * Author Payout Routes
  */
@@ -83,4 +147,47 @@ router.put(
   updateReadingProgress as any
 );
 
+/**
+ * Annotation Routes (highlights, notes, bookmarks)
+ */
+
+// GET /api/book-purchases/:id/annotations - List the reader's annotations
+router.get(
+  '/:id/annotations',
+  runValidation(annotationIdValidation),
+  requireBookAccess('read', { param: 'id' }) as any,
+  getAnnotations as any
+);
+
+// GET /api/book-purchases/:id/annotations/export - Download notes as Markdown
+router.get(
+  '/:id/annotations/export',
+  runValidation(mongoIdValidation),
+  requireBookAccess('read', { param: 'id' }) as any,
+  exportAnnotations as any
+);
+
+// POST /api/book-purchases/:id/annotations - Create an annotation
+router.post(
+  '/:id/annotations',
+  runValidation([...mongoIdValidation, ...createAnnotationValidation]),
+  requireBookAccess('read', { param: 'id' }) as any,
+  createAnnotation as any
+);
+
+// PATCH /api/book-purchases/:id/annotations/:annotationId - Edit note or color
+router.patch(
+  '/:id/annotations/:annotationId',
+  runValidation([...annotationIdValidation, ...updateAnnotationValidation]),
+  requireBookAccess('read', { param: 'id' }) as any,
+  updateAnnotation as any
+);
+
+// DELETE /api/book-purchases/:id/annotations/:annotationId - Delete an annotation
+router.delete(
+  '/:id/annotations/:annotationId',
+  runValidation(annotationIdValidation),
+  deleteAnnotation as any
+);
+
 export default router;
@@ -9,11 +9,14 @@ import {
   purchaseBook,
   exportBookPDF,
   getPublicBooks,
+  searchBooks,
   likeBook,
   addReview,
   getBookReviews,
   uploadCoverImage,
   uploadManuscript,
+  previewManuscript,
+  importManuscriptBook,
   uploadAudio,
   getPricingStrategy,
   exportBookToFormat,
@@ -25,17 +28,86 @@ import {
   shareBook,
   getBookSocialStats,
 } from '../controllers/bookController';
+import {
+  getChapterRevisions,
+  getChapterRevision,
+  diffChapterRevisions,
+  restoreChapterRevision,
+} from '../controllers/chapterRevisionController';
+import {
+  getMyCollaborations,
+  getCollaborators,
+  inviteCollaborator,
+  updateCollaborator,
+  removeCollaborator,
+  respondToInvitation,
+} from '../controllers/collaborationController';
+import {
+  getCommentThreads,
+  createCommentThread,
+  replyToCommentThread,
+  resolveCommentThread,
+  acceptSuggestion,
+  rejectSuggestion,
+  deleteCommentThread,
+} from '../controllers/commentThreadController';
+import {
+  getBetaCampaigns,
+  createBetaCampaign,
+  updateBetaCampaign,
+  inviteBetaReaders,
+  revokeBetaReader,
+  getBetaCampaignSummary,
+  getMyBetaCampaign,
+  submitBetaFeedback,
+} from '../controllers/betaReadController';
+import {
+  getStoryBible,
+  createStoryBibleEntry,
+  updateStoryBibleEntry,
+  deleteStoryBibleEntry,
+} from '../controllers/storyBibleController';
+import { scheduleBookSale, cancelBookSale } from '../controllers/couponController';
 import { upload, uploadImage, uploadAudio as uploadAudioMiddleware } from '../middleware/uploadMiddleware';
 import { authenticate } from '../middleware/auth';
+import { requireBookAccess } from '../middleware/bookAccess';
 import { runValidation } from '../middleware/validate';
 import {
   createBookValidation,
   updateBookValidation,
   mongoIdValidation,
+  chapterRevisionValidation,
+  revisionDiffValidation,
+  importManuscriptValidation,
+  bookSearchValidation,
+  collaboratorIdValidation,
+  inviteCollaboratorValidation,
+  updateCollaboratorValidation,
+  respondInvitationValidation,
+  commentThreadIdValidation,
+  createCommentThreadValidation,
+  replyCommentThreadValidation,
+  resolveCommentThreadValidation,
+  betaCampaignIdValidation,
+  createBetaCampaignValidation,
+  updateBetaCampaignValidation,
+  inviteBetaReadersValidation,
+  betaFeedbackValidation,
+  storyBibleEntryIdValidation,
+  createStoryBibleEntryValidation,
+  updateStoryBibleEntryValidation,
+  bookSaleValidation,
 } from '../middleware/validators';
 
 const router = Router();
 
+// Book access policy for routes addressed by :id
+const canReadBook = requireBookAccess('read', { param: 'id' }) as any;
+const canCommentOnBook = requireBookAccess('comment', { param: 'id' }) as any;
+const canEditBook = requireBookAccess('edit', { param: 'id' }) as any;
+const canManageBook = requireBookAccess('manage', { param: 'id' }) as any;
+const canPurchaseBook = requireBookAccess('purchase', { param: 'id' }) as any;
+
 /**
  * Section 14.2: Books API Endpoints
  */
@@ -44,6 +116,9 @@ const router = Router();
 // GET /api/books/public - Get all published books for marketplace
 router.get('/public', getPublicBooks as any);
 
+// GET /api/books/search - Full-text marketplace search with facets
+router.get('/search', runValidation(bookSearchValidation), searchBooks as any);
+
 // GET /api/books/:id/reviews - Get all reviews for a book
 router.get('/:id/reviews', runValidation(mongoIdValidation), getBookReviews as any);
 
@@ -67,6 +142,20 @@ router.post(
   uploadManuscript as any
 );
 
+// POST /api/books/upload/preview - Parse manuscript and preview detected chapters
+router.post(
+  '/upload/preview',
+  upload.single('manuscript'),
+  previewManuscript as any
+);
+
+// POST /api/books/import - Create book from previewed manuscript chapters
+router.post(
+  '/import',
+  runValidation(importManuscriptValidation),
+  importManuscriptBook as any
+);
+
 // POST /api/books/upload-audio - Upload and transcribe audio file
 router.post(
   '/upload-audio',
@@ -74,10 +163,14 @@ router.post(
   uploadAudio as any
 );
 
+// GET /api/books/collaborations - Books the user is invited to or collaborates on
+router.get('/collaborations', getMyCollaborations as any);
+
 // GET /api/books/:id - Get book by ID
 router.get(
   '/:id',
   runValidation(mongoIdValidation),
+  canCommentOnBook,
   getBookById as any
 );
 
@@ -85,6 +178,7 @@ router.get(
 router.put(
   '/:id',
   runValidation(updateBookValidation),
+  canEditBook,
   updateBook as any
 );
 
@@ -92,6 +186,7 @@ router.put(
 router.delete(
   '/:id',
   runValidation(mongoIdValidation),
+  canManageBook,
   deleteBook as any
 );
 
@@ -99,6 +194,7 @@ router.delete(
 router.post(
   '/:id/publish',
   runValidation(mongoIdValidation),
+  canManageBook,
   publishBook as any
 );
 
@@ -106,6 +202,7 @@ router.post(
 router.post(
   '/:id/purchase',
   runValidation(mongoIdValidation),
+  canPurchaseBook,
   purchaseBook as any
 );
 
@@ -113,6 +210,7 @@ router.post(
 router.get(
   '/:id/export',
   runValidation(mongoIdValidation),
+  canEditBook,
   exportBookPDF as any
 );
 
@@ -141,12 +239,14 @@ router.get(
 router.post(
   '/:id/review',
   runValidation(mongoIdValidation),
+  canReadBook,
   addReview as any
 );
 
 // POST /api/books/:id/upload-cover - Upload cover image
 router.post(
   '/:id/upload-cover',
+  canEditBook,
   uploadImage.single('cover'),
   uploadCoverImage as any
 );
@@ -155,28 +255,275 @@ router.post(
 router.get(
   '/:id/pricing-strategy',
   runValidation(mongoIdValidation),
+  canManageBook,
   getPricingStrategy as any
 );
 
-// GET /api/books/:id/export/:format - Export book to PDF or DOCX
+// PUT /api/books/:id/sale - Schedule a time-limited sale price
+router.put(
+  '/:id/sale',
+  runValidation(bookSaleValidation),
+  canManageBook,
+  scheduleBookSale as any
+);
+
+// DELETE /api/books/:id/sale - End or cancel the book's sale
+router.delete(
+  '/:id/sale',
+  runValidation(mongoIdValidation),
+  canManageBook,
+  cancelBookSale as any
+);
+
+// GET /api/books/:id/export/:format - Export book to PDF, DOCX or EPUB
 router.get(
   '/:id/export/:format',
   runValidation(mongoIdValidation),
+  canEditBook,
   exportBookToFormat as any
 );
 
+// === Chapter Revision Routes ===
+
+// GET /api/books/:id/chapters/:chapterId/revisions - List chapter revisions
+router.get(
+  '/:id/chapters/:chapterId/revisions',
+  runValidation(chapterRevisionValidation),
+  canEditBook,
+  getChapterRevisions as any
+);
+
+// GET /api/books/:id/chapters/:chapterId/revisions/diff - Word-level diff between two revisions
+router.get(
+  '/:id/chapters/:chapterId/revisions/diff',
+  runValidation([...chapterRevisionValidation, ...revisionDiffValidation]),
+  canEditBook,
+  diffChapterRevisions as any
+);
+
+// GET /api/books/:id/chapters/:chapterId/revisions/:revisionId - Get a revision with content
+router.get(
+  '/:id/chapters/:chapterId/revisions/:revisionId',
+  runValidation(chapterRevisionValidation),
+  canEditBook,
+  getChapterRevision as any
+);
+
+// POST /api/books/:id/chapters/:chapterId/revisions/:revisionId/restore - Restore a revision
+router.post(
+  '/:id/chapters/:chapterId/revisions/:revisionId/restore',
+  runValidation(chapterRevisionValidation),
+  canEditBook,
+  restoreChapterRevision as any
+);
+
+// === Comment Thread Routes ===
+
+// GET /api/books/:id/chapters/:chapterId/comments - List a chapter's comments and suggestions
+router.get(
+  '/:id/chapters/:chapterId/comments',
+  runValidation(commentThreadIdValidation),
+  canCommentOnBook,
+  getCommentThreads as any
+);
+
+// POST /api/books/:id/chapters/:chapterId/comments - Comment on a passage or suggest an edit
+router.post(
+  '/:id/chapters/:chapterId/comments',
+  runValidation([...commentThreadIdValidation, ...createCommentThreadValidation]),
+  canCommentOnBook,
+  createCommentThread as any
+);
+
+// POST /api/books/:id/chapters/:chapterId/comments/:threadId/replies - Reply to a thread
+router.post(
+  '/:id/chapters/:chapterId/comments/:threadId/replies',
+  runValidation([...commentThreadIdValidation, ...replyCommentThreadValidation]),
+  canCommentOnBook,
+  replyToCommentThread as any
+);
+
+// PATCH /api/books/:id/chapters/:chapterId/comments/:threadId - Resolve or reopen a comment
+router.patch(
+  '/:id/chapters/:chapterId/comments/:threadId',
+  runValidation([...commentThreadIdValidation, ...resolveCommentThreadValidation]),
+  canCommentOnBook,
+  resolveCommentThread as any
+);
+
+// POST /api/books/:id/chapters/:chapterId/comments/:threadId/accept - Apply a suggested edit
+router.post(
+  '/:id/chapters/:chapterId/comments/:threadId/accept',
+  runValidation(commentThreadIdValidation),
+  canEditBook,
+  acceptSuggestion as any
+);
+
+// POST /api/books/:id/chapters/:chapterId/comments/:threadId/reject - Reject a suggested edit
+router.post(
+  '/:id/chapters/:chapterId/comments/:threadId/reject',
+  runValidation(commentThreadIdValidation),
+  canCommentOnBook,
+  rejectSuggestion as any
+);
+
+// DELETE /api/books/:id/chapters/:chapterId/comments/:threadId - Delete a thread
+router.delete(
+  '/:id/chapters/:chapterId/comments/:threadId',
+  runValidation(commentThreadIdValidation),
+  canCommentOnBook,
+  deleteCommentThread as any
+);
+
+// === Collaborator Routes ===
+
+// GET /api/books/:id/collaborators - List the book's team
+router.get(
+  '/:id/collaborators',
+  runValidation(collaboratorIdValidation),
+  canReadBook,
+  getCollaborators as any
+);
+
+// POST /api/books/:id/collaborators - Invite a co-author, editor or beta reader
+router.post(
+  '/:id/collaborators',
+  runValidation([...collaboratorIdValidation, ...inviteCollaboratorValidation]),
+  canManageBook,
+  inviteCollaborator as any
+);
+
+// POST /api/books/:id/collaborators/respond - Accept or decline an invitation
+router.post(
+  '/:id/collaborators/respond',
+  runValidation([...collaboratorIdValidation, ...respondInvitationValidation]),
+  respondToInvitation as any
+);
+
+// PATCH /api/books/:id/collaborators/:collaboratorId - Change role, chapters or revenue share
+router.patch(
+  '/:id/collaborators/:collaboratorId',
+  runValidation([...collaboratorIdValidation, ...updateCollaboratorValidation]),
+  canManageBook,
+  updateCollaborator as any
+);
+
+// DELETE /api/books/:id/collaborators/:collaboratorId - Remove a collaborator (or leave the book)
+router.delete(
+  '/:id/collaborators/:collaboratorId',
+  runValidation(collaboratorIdValidation),
+  removeCollaborator as any
+);
+
+// === Beta Read Routes ===
+
+// GET /api/books/:id/beta-campaigns - List the book's beta campaigns
+router.get(
+  '/:id/beta-campaigns',
+  runValidation(betaCampaignIdValidation),
+  canManageBook,
+  getBetaCampaigns as any
+);
+
+// POST /api/books/:id/beta-campaigns - Start a beta campaign
+router.post(
+  '/:id/beta-campaigns',
+  runValidation([...betaCampaignIdValidation, ...createBetaCampaignValidation]),
+  canManageBook,
+  createBetaCampaign as any
+);
+
+// PATCH /api/books/:id/beta-campaigns/:campaignId - Edit, close or reopen a campaign
+router.patch(
+  '/:id/beta-campaigns/:campaignId',
+  runValidation([...betaCampaignIdValidation, ...updateBetaCampaignValidation]),
+  canManageBook,
+  updateBetaCampaign as any
+);
+
+// GET /api/books/:id/beta-campaigns/:campaignId/summary - Aggregate reader results
+router.get(
+  '/:id/beta-campaigns/:campaignId/summary',
+  runValidation(betaCampaignIdValidation),
+  canManageBook,
+  getBetaCampaignSummary as any
+);
+
+// POST /api/books/:id/beta-campaigns/:campaignId/readers - Invite readers (or renew access)
+router.post(
+  '/:id/beta-campaigns/:campaignId/readers',
+  runValidation([...betaCampaignIdValidation, ...inviteBetaReadersValidation]),
+  canManageBook,
+  inviteBetaReaders as any
+);
+
+// DELETE /api/books/:id/beta-campaigns/:campaignId/readers/:readerId - Revoke a reader's access
+router.delete(
+  '/:id/beta-campaigns/:campaignId/readers/:readerId',
+  runValidation(betaCampaignIdValidation),
+  canManageBook,
+  revokeBetaReader as any
+);
+
+// GET /api/books/:id/beta - The campaign as an invited reader sees it
+router.get(
+  '/:id/beta',
+  runValidation(mongoIdValidation),
+  canReadBook,
+  getMyBetaCampaign as any
+);
+
+// PUT /api/books/:id/beta/chapters/:chapterId/feedback - Leave feedback on a chapter
+router.put(
+  '/:id/beta/chapters/:chapterId/feedback',
+  runValidation(betaFeedbackValidation),
+  canReadBook,
+  submitBetaFeedback as any
+);
+
+// === Story Bible Routes ===
+
+// GET /api/books/:id/story-bible - List entries with the chapters that mention them
+router.get('/:id/story-bible', runValidation(storyBibleEntryIdValidation), canCommentOnBook, getStoryBible as any);
+
+// POST /api/books/:id/story-bible - Add a location, item, faction, term or event
+router.post(
+  '/:id/story-bible',
+  runValidation(createStoryBibleEntryValidation),
+  canEditBook,
+  createStoryBibleEntry as any
+);
+
+// PATCH /api/books/:id/story-bible/:entryId - Edit an entry
+router.patch(
+  '/:id/story-bible/:entryId',
+  runValidation(updateStoryBibleEntryValidation),
+  canEditBook,
+  updateStoryBibleEntry as any
+);
+
+// DELETE /api/books/:id/story-bible/:entryId - Remove an entry
+router.delete(
+  '/:id/story-bible/:entryId',
+  runValidation(storyBibleEntryIdValidation),
+  canEditBook,
+  deleteStoryBibleEntry as any
+);
+
 // === Page Image Routes for Book Layout ===
 
 // GET /api/books/:id/page-images - Get all page images
 router.get(
   '/:id/page-images',
   runValidation(mongoIdValidation),
+  canEditBook,
   getPageImages as any
 );
 
 // POST /api/books/:id/page-image - Upload a new page image
 router.post(
   '/:id/page-image',
+  canEditBook,
   uploadImage.single('image'),
   uploadPageImage as any
 );
@@ -185,18 +532,21 @@ router.post(
 router.put(
   '/:id/page-images',
   runValidation(mongoIdValidation),
+  canEditBook,
   updatePageImages as any
 );
 
 // PUT /api/books/:id/page-image/:imageId - Update single page image position/size
 router.put(
   '/:id/page-image/:imageId',
+  canEditBook,
   updatePageImage as any
 );
 
 // DELETE /api/books/:id/page-image/:imageId - Delete a page image
 router.delete(
   '/:id/page-image/:imageId',
+  canEditBook,
   deletePageImage as any
 );
 
@@ -0,0 +1,42 @@
+/**
+ * Gift Routes
+ * Claim links, sent and received gifts and the gift card balance. Gifts
+ * are bought through /api/book-purchases/:id/gift and
+ * /api/book-purchases/gift-cards/create-order.
+ */
+
+import { Router } from 'express';
+import {
+  getGiftPreview,
+  claimMyGift,
+  getSentGifts,
+  getReceivedGifts,
+  getBalance,
+} from '../controllers/giftController';
+import { authenticate } from '../middleware/auth';
+import { runValidation } from '../middleware/validate';
+import { claimGiftValidation } from '../middleware/validators';
+
+const router = Router();
+
+// GET /api/gifts/claim/:token - Preview a gift from its claim link
+router.get('/claim/:token', getGiftPreview as any);
+
+// POST /api/gifts/claim - Claim a gift with its token
+router.post(
+  '/claim',
+  authenticate as any,
+  runValidation(claimGiftValidation),
+  claimMyGift as any
+);
+
+// GET /api/gifts/sent - List gifts the user has sent
+router.get('/sent', authenticate as any, getSentGifts as any);
+
+// GET /api/gifts/received - List gifts the user has claimed
+router.get('/received', authenticate as any, getReceivedGifts as any);
+
+// GET /api/gifts/balance - The user's gift card balance
+router.get('/balance', authenticate as any, getBalance as any);
+
+export default router;
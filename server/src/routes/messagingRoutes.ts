@@ -9,6 +9,7 @@ import {
   sendMessage,
   getConversations,
   getMessages,
+  markConversationRead,
   getUnreadCount,
   deleteConversation,
 } from '../controllers/messagingController';
@@ -61,6 +62,12 @@ router.get('/conversations', getConversations as any);
  */
 router.get('/conversation/:conversationId', getMessages as any);
 
+/**
+ * POST /api/messages/conversation/:conversationId/read
+ * Mark a conversation as read
+ */
+router.post('/conversation/:conversationId/read', markConversationRead as any);
+
 /**
  * GET /api/messages/unread-count
  * Get total unread message count
@@ -3,6 +3,7 @@ import {
   createOrder,
   captureOrder,
   getTransactionHistory,
+  handlePayPalWebhook,
 } from '../controllers/paymentController';
 import { authenticate } from '../middleware/auth';
 import { apiLimiter } from '../middleware/rateLimiter';
@@ -11,7 +12,7 @@ const router = Router();
 
 /**
  * Payment Routes
- * All routes require authentication
+ * All routes require authentication, except PayPal's signed webhooks
  */
 
 // POST /api/payments/create-order - Create a new payment order
@@ -38,4 +39,7 @@ router.get(
   getTransactionHistory as any
 );
 
+// POST /api/payments/webhook/paypal - PayPal refund and chargeback events
+router.post('/webhook/paypal', handlePayPalWebhook);
+
 export default router;
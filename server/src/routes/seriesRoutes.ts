@@ -0,0 +1,73 @@
+/**
+ * Series Routes
+ * Series pages, "next in series" and author series management. Bundles
+ * are bought through /api/book-purchases/series/:id/create-order.
+ */
+
+import { Router } from 'express';
+import {
+  getPublishedSeries,
+  getSeries,
+  getNextBook,
+  getMySeries,
+  createMySeries,
+  updateMySeries,
+  deleteMySeries,
+} from '../controllers/seriesController';
+import { authenticate, optionalAuth } from '../middleware/auth';
+import { runValidation } from '../middleware/validate';
+import {
+  mongoIdValidation,
+  createSeriesValidation,
+  updateSeriesValidation,
+} from '../middleware/validators';
+
+const router = Router();
+
+// GET /api/series - List series with published books
+router.get('/', optionalAuth as any, getPublishedSeries as any);
+
+// GET /api/series/mine - List the author's series
+router.get('/mine', authenticate as any, getMySeries as any);
+
+// GET /api/series/by-book/:id/next - The book after this one in its series
+router.get(
+  '/by-book/:id/next',
+  optionalAuth as any,
+  runValidation(mongoIdValidation),
+  getNextBook as any
+);
+
+// GET /api/series/:id - Series page with the reader's bundle price
+router.get(
+  '/:id',
+  optionalAuth as any,
+  runValidation(mongoIdValidation),
+  getSeries as any
+);
+
+// POST /api/series - Create a series
+router.post(
+  '/',
+  authenticate as any,
+  runValidation(createSeriesValidation),
+  createMySeries as any
+);
+
+// PUT /api/series/:id - Change a series or its book order
+router.put(
+  '/:id',
+  authenticate as any,
+  runValidation(updateSeriesValidation),
+  updateMySeries as any
+);
+
+// DELETE /api/series/:id - Delete a series
+router.delete(
+  '/:id',
+  authenticate as any,
+  runValidation(mongoIdValidation),
+  deleteMySeries as any
+);
+
+export default router;
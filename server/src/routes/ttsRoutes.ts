@@ -10,7 +10,15 @@ import {
   narrateChapter,
   prepareChapterText,
 } from '../controllers/ttsController';
+import {
+  buildAudiobook,
+  getAudiobook,
+  getChapterAudioMarks,
+  getChapterAudio,
+  downloadAudiobook,
+} from '../controllers/audiobookController';
 import { authenticate } from '../middleware/auth';
+import { requireBookAccess } from '../middleware/bookAccess';
 import rateLimit from 'express-rate-limit';
 
 const router = Router();
@@ -67,13 +75,50 @@ router.post('/synthesize', synthesizeSpeech as any);
  *   provider?: 'browser' | 'google' | 'elevenlabs'
  * }
  */
-router.post('/narrate-chapter/:bookId/:chapterIndex', narrateChapter as any);
+router.post('/narrate-chapter/:bookId/:chapterIndex', requireBookAccess('narrate') as any, narrateChapter as any);
 
 /**
  * GET /api/tts/prepare/:bookId/:chapterIndex
  * Get prepared text for client-side TTS
  * Returns plain text and sentences for Web Speech API
  */
-router.get('/prepare/:bookId/:chapterIndex', prepareChapterText as any);
+router.get('/prepare/:bookId/:chapterIndex', requireBookAccess('narrate') as any, prepareChapterText as any);
+
+/**
+ * POST /api/tts/audiobook/:bookId/build
+ * Render the book to MP3 in the background (author only).
+ * Chapters whose text and voice are unchanged are not re-synthesized.
+ *
+ * Body:
+ * {
+ *   provider: 'google' | 'elevenlabs',
+ *   voice?: string
+ * }
+ */
+router.post('/audiobook/:bookId/build', requireBookAccess('manage') as any, buildAudiobook as any);
+
+/**
+ * GET /api/tts/audiobook/:bookId
+ * Build status and rendered chapters (book owners)
+ */
+router.get('/audiobook/:bookId', requireBookAccess('narrate') as any, getAudiobook as any);
+
+/**
+ * GET /api/tts/audiobook/:bookId/download
+ * ZIP of all chapter MP3s with an M3U playlist (book owners)
+ */
+router.get('/audiobook/:bookId/download', requireBookAccess('narrate') as any, downloadAudiobook as any);
+
+/**
+ * GET /api/tts/audiobook/:bookId/chapters/:chapterId/marks
+ * Sentence start/end times for read-along highlighting (book owners)
+ */
+router.get('/audiobook/:bookId/chapters/:chapterId/marks', requireBookAccess('narrate') as any, getChapterAudioMarks as any);
+
+/**
+ * GET /api/tts/audiobook/:bookId/chapters/:chapterId/audio
+ * Chapter MP3 (book owners)
+ */
+router.get('/audiobook/:bookId/chapters/:chapterId/audio', requireBookAccess('narrate') as any, getChapterAudio as any);
 
 export default router;
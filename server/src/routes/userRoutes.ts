@@ -7,8 +7,30 @@ import {
   getUserProfile,
   followUser,
   updateLanguage,
+  getCreditHistory,
 } from '../controllers/userController';
+import {
+  getWritingGoals,
+  updateWritingGoals,
+  setBookWritingGoal,
+  removeBookWritingGoal,
+} from '../controllers/writingGoalController';
+import {
+  getMyCoupons,
+  createMyCoupon,
+  updateMyCoupon,
+  deleteMyCoupon,
+} from '../controllers/couponController';
 import { authenticate } from '../middleware/auth';
+import { requireBookAccess } from '../middleware/bookAccess';
+import { runValidation } from '../middleware/validate';
+import {
+  writingGoalSettingsValidation,
+  bookWritingGoalValidation,
+  mongoIdValidation,
+  createCouponValidation,
+  updateCouponValidation,
+} from '../middleware/validators';
 
 const router = Router();
 
@@ -26,6 +48,9 @@ router.use(authenticate as any);
 // GET /api/user/earnings - Get earnings data
 router.get('/earnings', getEarnings as any);
 
+// GET /api/users/credits/history - Get credit balance and usage ledger
+router.get('/credits/history', getCreditHistory as any);
+
 // PUT /api/user/profile - Update user profile
 router.put('/profile', updateProfile as any);
 
@@ -38,6 +63,35 @@ router.put('/password', changePassword as any);
 // POST /api/user/withdraw - Request withdrawal
 router.post('/withdraw', requestWithdrawal as any);
 
+// GET /api/user/writing-goals - Goals, today's progress, streak and history
+router.get('/writing-goals', getWritingGoals as any);
+
+// PUT /api/user/writing-goals - Change daily goal, timezone or reminder
+router.put('/writing-goals', runValidation(writingGoalSettingsValidation), updateWritingGoals as any);
+
+// PUT /api/user/writing-goals/books/:id - Set a deadline for finishing a book
+router.put(
+  '/writing-goals/books/:id',
+  runValidation(bookWritingGoalValidation),
+  requireBookAccess('edit', { param: 'id' }) as any,
+  setBookWritingGoal as any
+);
+
+// DELETE /api/user/writing-goals/books/:id - Remove a book's deadline
+router.delete('/writing-goals/books/:id', removeBookWritingGoal as any);
+
+// GET /api/user/coupons - The author's coupons with redemption stats
+router.get('/coupons', getMyCoupons as any);
+
+// POST /api/user/coupons - Create a coupon for some or all of the author's books
+router.post('/coupons', runValidation(createCouponValidation), createMyCoupon as any);
+
+// PUT /api/user/coupons/:id - Change a coupon
+router.put('/coupons/:id', runValidation(updateCouponValidation), updateMyCoupon as any);
+
+// DELETE /api/user/coupons/:id - Delete (or, once used, switch off) a coupon
+router.delete('/coupons/:id', runValidation(mongoIdValidation), deleteMyCoupon as any);
+
 // POST /api/user/:id/follow - Follow/unfollow a user
 router.post('/:id/follow', followUser as any);
 
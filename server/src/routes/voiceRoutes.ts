@@ -69,7 +69,7 @@ router.post(
 
 /**
  * POST /api/interview/start
- * Start a new voice interview
+ * Start a new voice interview, or resume the unfinished one for bookId
  *
  * Body:
  * {
@@ -142,6 +142,7 @@ router.post('/interview/complete', completeInterview as any);
  * Response:
  * {
  *   state: InterviewState,
+ *   currentQuestion?: string,
  *   progress: number,
  *   canCompleteEarly: boolean
  * }
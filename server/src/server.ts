@@ -31,7 +31,15 @@ import voiceRoutes from './routes/voiceRoutes';
 import analysisRoutes from './routes/analysisRoutes';
 import templateRoutes from './routes/templateRoutes';
 import bookPurchaseRoutes from './routes/bookPurchaseRoutes';
+import seriesRoutes from './routes/seriesRoutes';
+import giftRoutes from './routes/giftRoutes';
 import { initializeDefaultTemplates } from './services/templateService';
+import { backfillBookSearch } from './services/bookSearchService';
+import { getLLMProvider } from './services/llmService';
+import { attachRealtimeGateway } from './services/realtimeService';
+import { startWritingReminders } from './services/writingGoalService';
+import { startGiftDeliveries } from './services/giftService';
+import { startSubscriptionExpiry } from './services/creditService';
 
 // Load environment variables
 dotenv.config();
@@ -72,6 +80,9 @@ const initializeApp = async () => {
     await initializeDefaultTemplates();
     console.log('✅ Book templates initialized');
 
+    // Index books created before marketplace search (runs in the background)
+    backfillBookSearch().catch((err) => console.error('Failed to backfill book search:', err));
+
     isInitialized = true;
     console.log('✅ Server initialization complete');
   } catch (error) {
@@ -146,6 +157,7 @@ app.use(cors({
     callback(null, true);
   },
   credentials: true,
+  exposedHeaders: ['X-Credits-Remaining'],
 }));
 app.use(morgan('dev'));
 app.use(compression());
@@ -200,9 +212,13 @@ app.get('/health', (_req, res) => {
   if (!process.env.OPENAI_API_KEY) {
     configIssues.push('OPENAI_API_KEY is not set (required for audio transcription)');
   }
-  if (!process.env.GEMINI_API_KEY) {
+  const llmProvider = getLLMProvider();
+  if (llmProvider.name === 'gemini' && !process.env.GEMINI_API_KEY) {
     configIssues.push('GEMINI_API_KEY is not set (required for AI features)');
   }
+  if (llmProvider.name === 'openai' && !process.env.LLM_API_KEY && !process.env.OPENAI_API_KEY && !process.env.LLM_BASE_URL) {
+    configIssues.push('LLM_API_KEY is not set (required for AI features)');
+  }
 
   res.status(200).json({
     status: configIssues.length === 0 ? 'ok' : 'warning',
@@ -219,6 +235,7 @@ app.get('/health', (_req, res) => {
       hasGoogleCallbackUrl: !!process.env.GOOGLE_CALLBACK_URL,
       hasOpenAiKey: !!process.env.OPENAI_API_KEY,
       hasGeminiKey: !!process.env.GEMINI_API_KEY,
+      llmProvider: `${llmProvider.name} (${llmProvider.model})`,
       hasClientUrl: !!process.env.CLIENT_URL,
       clientUrl: process.env.CLIENT_URL || 'not set',
       nodeEnv: process.env.NODE_ENV,
@@ -242,6 +259,7 @@ app.use('/api/auth', authRoutes);
 app.use('/api/books', bookRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/user', userRoutes);
+app.use('/api/users', userRoutes); // Plural alias, e.g. /api/users/credits/history
 app.use('/api/subscription', subscriptionRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/admin', adminRoutes);
@@ -254,6 +272,8 @@ app.use('/api/voice', voiceRoutes);
 app.use('/api/analysis', analysisRoutes);
 app.use('/api/templates', templateRoutes);
 app.use('/api/book-purchases', bookPurchaseRoutes);
+app.use('/api/series', seriesRoutes);
+app.use('/api/gifts', giftRoutes);
 
 // ============================================
 // Error Handling (must be last)
@@ -268,11 +288,23 @@ const startServer = async () => {
   try {
     await initializeApp();
 
-    app.listen(PORT, () => {
+    const server = app.listen(PORT, () => {
       console.log(`🚀 Server running on port ${PORT}`);
       console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}`);
       console.log(`🌐 Client URL: ${process.env.CLIENT_URL || 'http://localhost:5173'}`);
     });
+
+    // WebSocket gateway for messaging and notifications (not available on Vercel)
+    attachRealtimeGateway(server);
+
+    // Daily writing goal reminders need a long-running process too
+    startWritingReminders();
+
+    // As do scheduled gift deliveries
+    startGiftDeliveries();
+
+    // And the sweep for paid plans that have ended
+    startSubscriptionExpiry();
   } catch (error) {
     console.error('❌ Failed to start server:', error);
     process.exit(1);
@@ -0,0 +1,223 @@
+/**
+ * Book Access Policy
+ * The single place that decides what a user may do with a book. Routes
+ * apply it with the requireBookAccess middleware before handlers run, and
+ * refused requests are recorded in the access audit log.
+ *
+ * - read:     the author, collaborators, buyers, beta readers while their
+ *             invitation lasts, and everyone for free published books
+ * - comment:  the author and collaborators (comment threads on the draft)
+ * - edit:     the author, co-authors and editors (updateBook narrows what
+ *             each role may change)
+ * - manage:   the author - deleting, publishing, pricing and the team
+ * - narrate:  same as read - narration is a way of reading
+ * - purchase: a published book the user did not write and has not bought
+ *
+ * Ownership comes from checkBookOwnership in the PayPal service. Only
+ * collaborators who accepted their invitation count.
+ */
+
+import mongoose from 'mongoose';
+import { Book, CollaboratorRole } from '../models/Book';
+import { AccessAuditLog, BookAction } from '../models/AccessAuditLog';
+import { checkBookOwnership } from './paypalService';
+import { getCollaboration } from './collaborationService';
+import { findBetaGrant } from './betaReadService';
+
+export type { BookAction };
+
+export interface AccessDecision {
+  allowed: boolean;
+  statusCode: number; // HTTP status to answer with when not allowed
+  reason?: string;
+  requiresPurchase?: boolean; // Client should offer to buy the book
+  isAuthor: boolean;
+  role?: CollaboratorRole; // Set when access comes from a collaboration
+  betaAccessExpiresAt?: Date; // Set when access comes from a beta-read invitation
+}
+
+const allow = (isAuthor: boolean, role?: CollaboratorRole): AccessDecision => ({
+  allowed: true,
+  statusCode: 200,
+  isAuthor,
+  ...(role && { role }),
+});
+
+const deny = (statusCode: number, reason: string, extra: Partial<AccessDecision> = {}): AccessDecision => ({
+  allowed: false,
+  statusCode,
+  reason,
+  isAuthor: false,
+  ...extra,
+});
+
+async function loadBook(bookId: string) {
+  if (!mongoose.Types.ObjectId.isValid(bookId)) return null;
+  return Book.findById(bookId).select('author publishingStatus.status collaborators').lean();
+}
+
+// ============================================
+// POLICIES
+// ============================================
+
+/**
+ * Can the user read the book's chapters?
+ */
+export async function canRead(userId: string, bookId: string): Promise<AccessDecision> {
+  const book = await loadBook(bookId);
+  if (!book) return deny(404, 'Book not found');
+
+  const access = await checkBookOwnership(userId, bookId);
+  if (access.isAuthor) return allow(true);
+
+  // Collaborators read the draft, published or not
+  const collaborator = getCollaboration(book, userId);
+  if (collaborator) return allow(false, collaborator.role);
+
+  // Buyers keep their copy if the author later unpublishes
+  if (access.owns && !access.isFree) return allow(false);
+
+  // Beta readers see the book before it is published, until their grant ends
+  const grant = await findBetaGrant(userId, bookId);
+  if (grant) return { ...allow(false), betaAccessExpiresAt: grant.expiresAt };
+
+  if (book.publishingStatus?.status !== 'published') {
+    return deny(404, 'Book not found');
+  }
+  if (!access.owns) {
+    return deny(403, 'You do not have access to this book. Please purchase it first.', { requiresPurchase: true });
+  }
+
+  return allow(false);
+}
+
+/**
+ * Can the user comment on the draft or suggest edits?
+ */
+export async function canComment(userId: string, bookId: string): Promise<AccessDecision> {
+  const book = await loadBook(bookId);
+  if (!book) return deny(404, 'Book not found');
+
+  if (book.author.toString() === userId) return allow(true);
+
+  const collaborator = getCollaboration(book, userId);
+  if (collaborator) return allow(false, collaborator.role);
+
+  return deny(403, 'Only the book\'s team can comment on the draft');
+}
+
+/**
+ * Can the user change the book (content, design, AI tools)?
+ */
+export async function canEdit(userId: string, bookId: string): Promise<AccessDecision> {
+  const book = await loadBook(bookId);
+  if (!book) return deny(404, 'Book not found');
+
+  if (book.author.toString() === userId) return allow(true);
+
+  const collaborator = getCollaboration(book, userId);
+  if (collaborator && collaborator.role !== 'beta-reader') {
+    return allow(false, collaborator.role);
+  }
+
+  return deny(403, 'You do not have permission to modify this book');
+}
+
+/**
+ * Can the user run the book (delete, publish, price, invite collaborators)?
+ */
+export async function canManage(userId: string, bookId: string): Promise<AccessDecision> {
+  const book = await loadBook(bookId);
+  if (!book) return deny(404, 'Book not found');
+
+  if (book.author.toString() !== userId) {
+    return deny(403, 'Only the author can manage this book');
+  }
+
+  return allow(true);
+}
+
+/**
+ * Can the user have the book narrated?
+ */
+export async function canNarrate(userId: string, bookId: string): Promise<AccessDecision> {
+  return canRead(userId, bookId);
+}
+
+/**
+ * Can the user buy (or add to their library) the book?
+ */
+export async function canPurchase(userId: string, bookId: string): Promise<AccessDecision> {
+  const book = await loadBook(bookId);
+  if (!book) return deny(404, 'Book not found');
+
+  if (book.publishingStatus?.status !== 'published') {
+    return deny(400, 'This book is not available for purchase');
+  }
+
+  const access = await checkBookOwnership(userId, bookId);
+  if (access.isAuthor) {
+    return deny(400, 'You cannot purchase your own book');
+  }
+  // Free books are "owned" by everyone but can still be added to a library
+  if (access.owns && !access.isFree) {
+    return deny(400, 'You have already purchased this book');
+  }
+
+  return allow(false);
+}
+
+const POLICIES: Record<BookAction, (userId: string, bookId: string) => Promise<AccessDecision>> = {
+  read: canRead,
+  comment: canComment,
+  edit: canEdit,
+  manage: canManage,
+  narrate: canNarrate,
+  purchase: canPurchase,
+};
+
+/**
+ * Evaluate a policy by action name
+ */
+export function checkBookAccess(action: BookAction, userId: string, bookId: string): Promise<AccessDecision> {
+  return POLICIES[action](userId, bookId);
+}
+
+// ============================================
+// AUDIT
+// ============================================
+
+export interface DenialContext {
+  userId: string;
+  bookId: string;
+  action: BookAction;
+  reason: string;
+  method: string;
+  path: string;
+  ip?: string;
+}
+
+/**
+ * Record a refused request. Never throws - auditing must not break the
+ * response.
+ */
+export async function recordDenial(context: DenialContext): Promise<void> {
+  console.warn(
+    `Access denied: user=${context.userId} action=${context.action} book=${context.bookId} ` +
+      `${context.method} ${context.path} - ${context.reason}`
+  );
+
+  try {
+    await AccessAuditLog.create({
+      user: context.userId,
+      book: mongoose.Types.ObjectId.isValid(context.bookId) ? context.bookId : undefined,
+      action: context.action,
+      reason: context.reason,
+      method: context.method,
+      path: context.path,
+      ip: context.ip,
+    });
+  } catch (error) {
+    console.error('Failed to record access denial:', error);
+  }
+}
@@ -1,25 +1,9 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { z } from 'zod';
 import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
-
-// Lazy-initialize Gemini AI client (only when API key is available)
-let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
-
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
+import { generateJSON, generateText } from './llmService';
 
 // ============================================
 // TYPE DEFINITIONS
@@ -127,6 +111,89 @@ export interface CoverDesign {
   reasoning: string;
 }
 
+// Expected AI responses
+const typographySchema = z.object({
+  bodyFont: z.string(),
+  headingFont: z.string(),
+  titleFont: z.string(),
+  fontSize: z.number(),
+  lineHeight: z.number(),
+  chapterTitleSize: z.number(),
+  pageNumberSize: z.number(),
+  colors: z.object({
+    text: z.string(),
+    heading: z.string(),
+    accent: z.string(),
+  }),
+  reasoning: z.string().default(''),
+});
+
+const pageLayoutSchema = z.object({
+  margins: z.object({
+    top: z.number(),
+    bottom: z.number(),
+    inner: z.number(),
+    outer: z.number(),
+  }),
+  chapterStartStyle: z.enum(['same-page', 'new-page', 'new-page-centered']).catch('new-page-centered'),
+  pageNumberPosition: z.enum(['bottom-center', 'bottom-outer', 'top-outer', 'none']).catch('bottom-outer'),
+  headerStyle: z.enum(['none', 'book-title', 'chapter-title', 'author-name']).catch('none'),
+  dropCaps: z.boolean(),
+  ornaments: z.boolean(),
+  reasoning: z.string().default(''),
+});
+
+const imagePlacementsSchema = z.array(
+  z.object({
+    position: z.enum(['chapter-start', 'mid-chapter', 'chapter-end']).catch('mid-chapter'),
+    textContext: z.string(),
+    suggestedPrompt: z.string(),
+    importance: z.enum(['high', 'medium', 'low']).catch('medium'),
+    reasoning: z.string().default(''),
+  })
+);
+
+const coverTextSchema = z.object({
+  text: z.string(),
+  font: z.string(),
+  size: z.number(),
+  color: z.string(),
+});
+
+const coverDesignSchema = z.object({
+  front: z.object({
+    imagePrompt: z.string(),
+    title: coverTextSchema.extend({
+      position: z.enum(['top', 'center', 'bottom']).catch('center'),
+      alignment: z.enum(['left', 'center', 'right']).catch('center'),
+    }),
+    author: coverTextSchema.extend({
+      position: z.enum(['top', 'bottom']).catch('bottom'),
+    }),
+    colorPalette: z.array(z.string()).default([]),
+  }),
+  back: z.object({
+    imagePrompt: z.string(),
+    synopsis: coverTextSchema,
+    author: coverTextSchema,
+    backgroundColor: z.string(),
+  }),
+  spine: z.object({
+    title: z.string(),
+    author: z.string(),
+    font: z.string(),
+    color: z.string(),
+    backgroundColor: z.string(),
+  }),
+  reasoning: z.string().default(''),
+});
+
+const templateSelectionSchema = z.object({
+  templateId: z.string(),
+  reasoning: z.string().optional(),
+  coverPrompt: z.string().optional(),
+});
+
 export interface CompleteBookDesign {
   typography: TypographyDesign;
   layout: PageLayoutDesign;
@@ -226,15 +293,11 @@ Respond with ONLY valid JSON in this exact format:
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const responseText = result.response.text();
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      throw new Error('Invalid response format');
-    }
-
-    const typography = JSON.parse(jsonMatch[0]) as TypographyDesign;
+    const typography: TypographyDesign = await generateJSON({
+      task: 'ai.design-typography',
+      prompt,
+      schema: typographySchema,
+    });
 
     // Validate and fallback
     const bodyFonts = fontDb[genreMapping.body as keyof typeof fontDb];
@@ -325,15 +388,11 @@ Values for pageNumberPosition: "bottom-center" | "bottom-outer" | "top-outer" |
 Values for headerStyle: "none" | "book-title" | "chapter-title" | "author-name"`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const responseText = result.response.text();
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      throw new Error('Invalid response format');
-    }
-
-    return JSON.parse(jsonMatch[0]) as PageLayoutDesign;
+    return await generateJSON({
+      task: 'ai.design-layout',
+      prompt,
+      schema: pageLayoutSchema,
+    });
   } catch (error) {
     console.error('Layout generation error:', error);
     return {
@@ -393,19 +452,17 @@ Respond with ONLY valid JSON array:
 If no illustrations are needed for this chapter, return empty array: []`;
 
     try {
-      const result = await getGeminiModel().generateContent(prompt);
-      const responseText = result.response.text();
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/);
-
-      if (jsonMatch) {
-        const chapterSuggestions = JSON.parse(jsonMatch[0]) as Array<Omit<ImagePlacementSuggestion, 'chapterIndex'>>;
+      const chapterSuggestions = await generateJSON({
+        task: 'ai.suggest-images',
+        prompt,
+        schema: imagePlacementsSchema,
+      });
 
-        for (const suggestion of chapterSuggestions) {
-          suggestions.push({
-            ...suggestion,
-            chapterIndex: i,
-          });
-        }
+      for (const suggestion of chapterSuggestions) {
+        suggestions.push({
+          ...suggestion,
+          chapterIndex: i,
+        });
       }
     } catch (error) {
       console.error(`Error analyzing chapter ${i + 1}:`, error);
@@ -506,15 +563,11 @@ Respond with ONLY valid JSON:
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const responseText = result.response.text();
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      throw new Error('Invalid response format');
-    }
-
-    return JSON.parse(jsonMatch[0]) as CoverDesign;
+    return await generateJSON({
+      task: 'ai.design-cover',
+      prompt,
+      schema: coverDesignSchema,
+    });
   } catch (error) {
     console.error('Cover design generation error:', error);
     // Return default cover design
@@ -663,8 +716,7 @@ Cover concept: ${cover.reasoning}
 Describe the overall aesthetic in 2 sentences.`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    return result.response.text().trim();
+    return await generateText({ task: 'ai.design-style', prompt });
   } catch {
     return `Professional ${input.genre} design with ${typography.bodyFont} typography and ${cover.front.colorPalette.length > 0 ? 'rich color palette' : 'classic styling'}.`;
   }
@@ -1033,8 +1085,6 @@ export async function selectBestTemplate(
   reasoning: string;
   coverPrompt: string;
 }> {
-  const model = getGeminiModel();
-
   // Get suggested templates for genre
   const genreKey = bookGenre.toLowerCase().replace(/[_-]/g, ' ');
   const suggestedTemplates = GENRE_TEMPLATE_MAPPING[genreKey] || GENRE_TEMPLATE_MAPPING.default;
@@ -1078,17 +1128,14 @@ IMPORTANT:
 - coverPrompt should be detailed and visual, suitable for AI image generation`;
 
   try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    let text = response.text();
-
-    // Clean up response
-    text = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-
-    const parsed = JSON.parse(text);
+    const parsed = await generateJSON({
+      task: 'ai.design-template',
+      prompt,
+      schema: templateSelectionSchema,
+    });
 
     // Validate templateId
-    if (!TEMPLATE_IDS.includes(parsed.templateId)) {
+    if (!(TEMPLATE_IDS as readonly string[]).includes(parsed.templateId)) {
       parsed.templateId = suggestedTemplates[0] || 'novel';
     }
 
@@ -1,27 +1,11 @@
 /**
  * AI Interview Service
  * Handles voice-based AI interviews for book creation
- * Uses Gemini AI for adaptive questioning and summary generation
+ * Uses the LLM service for adaptive questioning and summary generation
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-
-// Lazy-initialize Gemini AI client (only when API key is available)
-let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
-
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
+import { z } from 'zod';
+import { generateJSON, generateText } from './llmService';
 
 // Interview topics
 export type InterviewTopic = 'theme' | 'characters' | 'plot' | 'setting';
@@ -88,6 +72,55 @@ export interface InterviewSummary {
   writingGuidelines: string[];
 }
 
+// Expected AI responses
+const nextQuestionSchema = z.object({
+  question: z.string().min(1),
+  isFollowUp: z.boolean().default(false),
+});
+
+const responseAnalysisSchema = z.object({
+  needsFollowUp: z.boolean(),
+  followUpReason: z
+    .enum(['too_short', 'off_topic', 'needs_clarification'])
+    .nullish()
+    .catch(undefined)
+    .transform((reason) => reason ?? undefined),
+  topicComplete: z.boolean(),
+  extractedInfo: z.string().optional(),
+});
+
+const interviewSummarySchema = z.object({
+  theme: z.object({
+    mainTheme: z.string(),
+    subThemes: z.array(z.string()).default([]),
+    tone: z.string(),
+    genre: z.string(),
+  }),
+  characters: z
+    .array(
+      z.object({
+        name: z.string(),
+        role: z.enum(['protagonist', 'antagonist', 'supporting', 'minor']).catch('supporting'),
+        traits: z.array(z.string()).default([]),
+        description: z.string(),
+      })
+    )
+    .default([]),
+  plot: z.object({
+    premise: z.string(),
+    conflict: z.string(),
+    stakes: z.string(),
+    keyEvents: z.array(z.string()).default([]),
+  }),
+  setting: z.object({
+    world: z.string(),
+    timePeriod: z.string(),
+    atmosphere: z.string(),
+    locations: z.array(z.string()).default([]),
+  }),
+  writingGuidelines: z.array(z.string()).default([]),
+});
+
 // Topic configurations
 const TOPIC_CONFIG: Record<InterviewTopic, {
   minQuestions: number;
@@ -147,8 +180,7 @@ export async function getFirstQuestion(state: InterviewState): Promise<string> {
 
 תחזיר רק את השאלה, ללא הסברים.`;
 
-  const result = await getGeminiModel().generateContent(prompt);
-  return result.response.text().trim();
+  return generateText({ task: 'interview.voice.first-question', prompt });
 }
 
 /**
@@ -200,24 +232,11 @@ ${relevantResponses ? `שיחה קודמת בנושא:\n${relevantResponses}` :
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const text = result.response.text().trim();
-
-    // Extract JSON from response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        question: parsed.question,
-        isFollowUp: parsed.isFollowUp || false,
-      };
-    }
-
-    // Fallback if JSON parsing fails
-    return {
-      question: text.replace(/[{}"\n]/g, '').trim(),
-      isFollowUp: false,
-    };
+    return await generateJSON({
+      task: 'interview.voice.next-question',
+      prompt,
+      schema: nextQuestionSchema,
+    });
   } catch (error) {
     console.error('Error generating question:', error);
     // Fallback questions per topic
@@ -311,20 +330,19 @@ export async function analyzeResponse(
   "extractedInfo": "סיכום קצר של המידע החדש שהתקבל"
 }`;
 
-    const result = await getGeminiModel().generateContent(prompt);
-    const text = result.response.text().trim();
+    const parsed = await generateJSON({
+      task: 'interview.voice.analyze-response',
+      prompt,
+      schema: responseAnalysisSchema,
+    });
 
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      return {
-        isComplete: false,
-        needsFollowUp: parsed.needsFollowUp && !minQuestionsReached,
-        followUpReason: parsed.followUpReason,
-        topicComplete: parsed.topicComplete && minQuestionsReached,
-        extractedInfo: parsed.extractedInfo || response,
-      };
-    }
+    return {
+      isComplete: false,
+      needsFollowUp: parsed.needsFollowUp && !minQuestionsReached,
+      followUpReason: parsed.followUpReason,
+      topicComplete: parsed.topicComplete && minQuestionsReached,
+      extractedInfo: parsed.extractedInfo || response,
+    };
   } catch (error) {
     console.error('Error analyzing response:', error);
   }
@@ -488,14 +506,11 @@ ${responsesByTopic.setting.join('\n\n')}
 - הנחיות הכתיבה צריכות להיות ספציפיות ושימושיות`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const text = result.response.text().trim();
-
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const summary = JSON.parse(jsonMatch[0]) as InterviewSummary;
-      return summary;
-    }
+    return await generateJSON({
+      task: 'interview.voice.summary',
+      prompt,
+      schema: interviewSummarySchema,
+    });
   } catch (error) {
     console.error('Error generating summary:', error);
   }
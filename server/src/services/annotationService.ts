@@ -0,0 +1,379 @@
+/**
+ * Annotation Service
+ * Reader highlights, notes and bookmarks. Offsets index into the text
+ * content of a chapter as the reader renders it (HTML tags removed,
+ * entities decoded, whitespace untouched), which is what the browser's
+ * Node.textContent returns for the same HTML.
+ *
+ * When the author edits a chapter, stored offsets may no longer point at
+ * the annotated text. Anchors are then re-located by the quoted text and
+ * its surroundings, and marked orphaned when the text is gone.
+ */
+
+import mongoose from 'mongoose';
+import { Book, IChapter } from '../models/Book';
+import {
+  ReaderAnnotation,
+  IReaderAnnotation,
+  IAnnotationAnchor,
+  AnnotationType,
+  HighlightColor,
+} from '../models/ReaderAnnotation';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+// Characters of context stored on each side of the annotated text
+const CONTEXT_LENGTH = 32;
+
+// Occurrences of the quote considered when re-anchoring
+const MAX_ANCHOR_CANDIDATES = 500;
+
+export interface CreateAnnotationInput {
+  chapterId: string;
+  type: AnnotationType;
+  startOffset: number;
+  endOffset: number;
+  exact?: string;
+  note?: string;
+  color?: HighlightColor;
+}
+
+export interface UpdateAnnotationInput {
+  note?: string;
+  color?: HighlightColor;
+}
+
+type ChapterText = Pick<IChapter, 'title' | 'order'> & { _id: mongoose.Types.ObjectId; text: string };
+
+// ============================================
+// TEXT & ANCHORS
+// ============================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+};
+
+/**
+ * Chapter HTML to the text the reader's browser sees (Node.textContent)
+ */
+export function toTextContent(html: string): string {
+  return (html || '')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const codePoint = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return Number.isFinite(codePoint) ? String.fromCodePoint(codePoint) : entity;
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+}
+
+export function buildAnchor(text: string, startOffset: number, endOffset: number): IAnnotationAnchor {
+  return {
+    startOffset,
+    endOffset,
+    exact: text.slice(startOffset, endOffset),
+    prefix: text.slice(Math.max(0, startOffset - CONTEXT_LENGTH), startOffset),
+    suffix: text.slice(endOffset, endOffset + CONTEXT_LENGTH),
+  };
+}
+
+// Number of matching characters at the end of a and b
+function commonSuffixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[a.length - 1 - length] === b[b.length - 1 - length]) {
+    length++;
+  }
+  return length;
+}
+
+// Number of matching characters at the start of a and b
+function commonPrefixLength(a: string, b: string): number {
+  let length = 0;
+  while (length < a.length && length < b.length && a[length] === b[length]) {
+    length++;
+  }
+  return length;
+}
+
+/**
+ * Locate an anchor in (possibly edited) chapter text. Returns the
+ * current offsets, or null if the quoted text no longer exists.
+ * Among several occurrences, the one whose surroundings best match the
+ * stored context wins; ties go to the one closest to the old position.
+ */
+export function resolveAnchor(text: string, anchor: IAnnotationAnchor): { startOffset: number; endOffset: number } | null {
+  const { exact, startOffset, endOffset } = anchor;
+
+  if (!exact) {
+    // Position-only anchor (bookmark at an empty spot)
+    const offset = Math.min(startOffset, text.length);
+    return { startOffset: offset, endOffset: offset };
+  }
+
+  if (text.slice(startOffset, endOffset) === exact) {
+    return { startOffset, endOffset };
+  }
+
+  let best: { start: number; score: number; distance: number } | null = null;
+  let index = text.indexOf(exact);
+
+  for (let found = 0; index !== -1 && found < MAX_ANCHOR_CANDIDATES; found++) {
+    const score =
+      commonSuffixLength(text.slice(Math.max(0, index - anchor.prefix.length), index), anchor.prefix) +
+      commonPrefixLength(text.slice(index + exact.length, index + exact.length + anchor.suffix.length), anchor.suffix);
+    const distance = Math.abs(index - startOffset);
+
+    if (!best || score > best.score || (score === best.score && distance < best.distance)) {
+      best = { start: index, score, distance };
+    }
+    index = text.indexOf(exact, index + 1);
+  }
+
+  return best ? { startOffset: best.start, endOffset: best.start + exact.length } : null;
+}
+
+// ============================================
+// LOADING
+// ============================================
+
+async function loadChapterTexts(bookId: string): Promise<{ title: string; chapters: Map<string, ChapterText> }> {
+  const book = await Book.findById(bookId).select('title chapters._id chapters.title chapters.order chapters.content').lean();
+
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+
+  const chapters = new Map<string, ChapterText>();
+  for (const chapter of book.chapters as Array<IChapter & { _id: mongoose.Types.ObjectId }>) {
+    chapters.set(chapter._id.toString(), {
+      _id: chapter._id,
+      title: chapter.title,
+      order: chapter.order,
+      text: toTextContent(chapter.content),
+    });
+  }
+
+  return { title: book.title, chapters };
+}
+
+/**
+ * Re-anchor annotations against the current chapter text, persisting
+ * moved offsets and orphan state so later reads are cheap
+ */
+async function reanchor(annotations: IReaderAnnotation[], chapters: Map<string, ChapterText>): Promise<void> {
+  const updates: any[] = [];
+
+  for (const annotation of annotations) {
+    const chapter = chapters.get(annotation.chapter.toString());
+    const resolved = chapter ? resolveAnchor(chapter.text, annotation.anchor) : null;
+
+    if (!resolved) {
+      if (!annotation.isOrphaned) {
+        annotation.isOrphaned = true;
+        updates.push({ updateOne: { filter: { _id: annotation._id }, update: { $set: { isOrphaned: true } } } });
+      }
+      continue;
+    }
+
+    const moved =
+      resolved.startOffset !== annotation.anchor.startOffset || resolved.endOffset !== annotation.anchor.endOffset;
+
+    if (moved || annotation.isOrphaned) {
+      annotation.anchor = buildAnchor(chapter!.text, resolved.startOffset, resolved.endOffset);
+      annotation.isOrphaned = false;
+      updates.push({
+        updateOne: {
+          filter: { _id: annotation._id },
+          update: { $set: { anchor: annotation.anchor, isOrphaned: false } },
+        },
+      });
+    }
+  }
+
+  if (updates.length > 0) {
+    await ReaderAnnotation.bulkWrite(updates);
+  }
+}
+
+function sortByPosition(annotations: IReaderAnnotation[], chapters: Map<string, ChapterText>): IReaderAnnotation[] {
+  const orderOf = (annotation: IReaderAnnotation) =>
+    chapters.get(annotation.chapter.toString())?.order ?? Number.MAX_SAFE_INTEGER;
+
+  return annotations.sort(
+    (a, b) => orderOf(a) - orderOf(b) || a.anchor.startOffset - b.anchor.startOffset
+  );
+}
+
+// ============================================
+// CRUD
+// ============================================
+
+/**
+ * A reader's annotations in a book, in reading order
+ */
+export async function listAnnotations(userId: string, bookId: string, chapterId?: string): Promise<IReaderAnnotation[]> {
+  const { chapters } = await loadChapterTexts(bookId);
+
+  const filter: Record<string, any> = { user: userId, book: bookId };
+  if (chapterId) {
+    filter.chapter = chapterId;
+  }
+
+  const annotations = await ReaderAnnotation.find(filter);
+  await reanchor(annotations, chapters);
+
+  return sortByPosition(annotations, chapters);
+}
+
+/**
+ * Create an annotation. The client's offsets are checked against the
+ * chapter text; the stored quote and context always come from the server.
+ */
+export async function createAnnotation(
+  userId: string,
+  bookId: string,
+  input: CreateAnnotationInput
+): Promise<IReaderAnnotation> {
+  const { chapters } = await loadChapterTexts(bookId);
+  const chapter = chapters.get(input.chapterId);
+
+  if (!chapter) {
+    throw new NotFoundError('Chapter not found');
+  }
+
+  const { startOffset, endOffset } = input;
+  if (startOffset < 0 || endOffset < startOffset || endOffset > chapter.text.length) {
+    throw new ValidationError('Annotation is outside the chapter text');
+  }
+  if (input.type !== 'bookmark' && startOffset === endOffset) {
+    throw new ValidationError('Select some text to highlight');
+  }
+
+  // The client's view of the chapter may be stale (author edited it since)
+  let position: { startOffset: number; endOffset: number } | null = { startOffset, endOffset };
+  if (input.exact !== undefined && chapter.text.slice(startOffset, endOffset) !== input.exact) {
+    position = resolveAnchor(chapter.text, { startOffset, endOffset, exact: input.exact, prefix: '', suffix: '' });
+  }
+  if (!position) {
+    throw new ValidationError('The selected text was not found in the chapter');
+  }
+
+  return ReaderAnnotation.create({
+    user: userId,
+    book: bookId,
+    chapter: chapter._id,
+    type: input.type === 'highlight' && input.note?.trim() ? 'note' : input.type,
+    anchor: buildAnchor(chapter.text, position.startOffset, position.endOffset),
+    note: input.note?.trim() || undefined,
+    color: input.color,
+  });
+}
+
+/**
+ * Edit an annotation's note or color. Adding a note to a highlight turns
+ * it into a note, and clearing a note's text turns it back.
+ */
+export async function updateAnnotation(
+  userId: string,
+  bookId: string,
+  annotationId: string,
+  input: UpdateAnnotationInput
+): Promise<IReaderAnnotation> {
+  const annotation = await ReaderAnnotation.findOne({ _id: annotationId, user: userId, book: bookId });
+
+  if (!annotation) {
+    throw new NotFoundError('Annotation not found');
+  }
+
+  if (input.note !== undefined) {
+    const note = input.note.trim();
+    annotation.note = note || undefined;
+    if (annotation.type !== 'bookmark') {
+      annotation.type = note ? 'note' : 'highlight';
+    }
+  }
+  if (input.color) {
+    annotation.color = input.color;
+  }
+
+  await annotation.save();
+  return annotation;
+}
+
+/**
+ * Delete an annotation. Returns false if it did not exist.
+ */
+export async function deleteAnnotation(userId: string, bookId: string, annotationId: string): Promise<boolean> {
+  const result = await ReaderAnnotation.deleteOne({ _id: annotationId, user: userId, book: bookId });
+  return result.deletedCount > 0;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+function quoteMarkdown(text: string): string {
+  return text
+    .trim()
+    .split('\n')
+    .map((line) => `> ${line}`)
+    .join('\n');
+}
+
+/**
+ * A reader's highlights, notes and bookmarks in a book as Markdown,
+ * grouped by chapter in reading order
+ */
+export async function exportAnnotationsMarkdown(
+  userId: string,
+  bookId: string
+): Promise<{ filename: string; markdown: string }> {
+  const { title, chapters } = await loadChapterTexts(bookId);
+  const annotations = await ReaderAnnotation.find({ user: userId, book: bookId });
+  await reanchor(annotations, chapters);
+  sortByPosition(annotations, chapters);
+
+  const lines: string[] = [`# ${title}`, '', `_Exported ${new Date().toISOString().slice(0, 10)}_`, ''];
+  let currentChapter: string | null = null;
+
+  for (const annotation of annotations) {
+    const chapterId = annotation.chapter.toString();
+    if (chapterId !== currentChapter) {
+      currentChapter = chapterId;
+      lines.push(`## ${chapters.get(chapterId)?.title || 'Removed chapter'}`, '');
+    }
+
+    if (annotation.type === 'bookmark') {
+      const excerpt = annotation.anchor.exact.trim().slice(0, 80);
+      lines.push(`- 🔖 Bookmark${excerpt ? `: "${excerpt}…"` : ''}`, '');
+    } else {
+      lines.push(quoteMarkdown(annotation.anchor.exact), '');
+      if (annotation.note) {
+        lines.push(annotation.note.trim(), '');
+      }
+    }
+
+    if (annotation.isOrphaned) {
+      lines.push('_This passage has since been changed by the author._', '');
+    }
+  }
+
+  if (annotations.length === 0) {
+    lines.push('No highlights or notes yet.', '');
+  }
+
+  const slug = title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'book';
+  return { filename: `${slug}-notes.md`, markdown: lines.join('\n') };
+}
@@ -0,0 +1,537 @@
+/**
+ * Audiobook Service
+ * Renders a book to one MP3 per chapter with a server-side TTS provider.
+ *
+ * Chapters are narrated in segments of whole sentences (providers cap the
+ * request size), the segments are stitched into a single MP3, and each
+ * sentence gets a start/end time for read-along highlighting. Audio and
+ * marks are stored under a hash of the chapter text and voice settings,
+ * so rebuilding after an edit only re-synthesizes the chapters that
+ * changed.
+ *
+ * Builds run in the background of the server process. Serverless
+ * deployments (Vercel) stop work after the response, so audiobooks must
+ * be built on a long-running server. Files are kept outside the public
+ * uploads directory and served only to readers who own the book.
+ *
+ * Chapters are delivered as MP3, individually or zipped with a playlist.
+ * M4B would need an AAC encoder, which the server does not ship.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import mongoose from 'mongoose';
+import { Book, IChapter } from '../models/Book';
+import { Audiobook, IAudiobook, IAudiobookChapter, AudiobookProvider } from '../models/Audiobook';
+import { generateChapterNarration, prepareTextForTTS, splitIntoSentences } from './ttsService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+const AUDIOBOOK_DIR = process.env.AUDIOBOOK_DIR || './storage/audiobooks';
+const UPLOAD_DIR = process.env.UPLOAD_DIR || './uploads';
+
+// Providers reject long requests (Google: 5000 bytes); sentences are
+// grouped into segments below this size
+const MAX_SEGMENT_BYTES = 4500;
+
+export interface SentenceMark {
+  text: string;
+  start: number; // Seconds from the start of the chapter audio
+  end: number;
+}
+
+export interface ChapterAudioMarks {
+  duration: number;
+  marks: SentenceMark[];
+}
+
+export interface StartBuildInput {
+  provider: AudiobookProvider;
+  voice?: string;
+}
+
+type BookChapter = IChapter & { _id: mongoose.Types.ObjectId };
+
+// Books with a build running in this process
+const activeBuilds = new Set<string>();
+
+// ============================================
+// MP3 HELPERS
+// ============================================
+
+// Layer III bitrates (kbps) by bitrate index
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+// Sample rates by version bits (0 = MPEG 2.5, 2 = MPEG 2, 3 = MPEG 1)
+const SAMPLE_RATES: Record<number, number[]> = {
+  0: [11025, 12000, 8000],
+  2: [22050, 24000, 16000],
+  3: [44100, 48000, 32000],
+};
+
+/**
+ * Remove a leading ID3v2 tag so segments can be concatenated
+ */
+function stripId3(buffer: Buffer): Buffer {
+  if (buffer.length < 10 || buffer.toString('latin1', 0, 3) !== 'ID3') {
+    return buffer;
+  }
+
+  // Tag size is a 28-bit "syncsafe" integer
+  const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+  const footer = buffer[5] & 0x10 ? 10 : 0;
+  return buffer.subarray(10 + size + footer);
+}
+
+/**
+ * Duration of an MP3 (Layer III) in seconds, by walking its frame headers.
+ * Works for both the constant and variable bitrate output of TTS providers.
+ */
+export function getMp3Duration(buffer: Buffer): number {
+  const data = stripId3(buffer);
+  let offset = 0;
+  let seconds = 0;
+
+  while (offset + 4 <= data.length) {
+    const b1 = data[offset + 1];
+    const b2 = data[offset + 2];
+
+    const isSync = data[offset] === 0xff && (b1 & 0xe0) === 0xe0;
+    const version = (b1 >> 3) & 0x03;
+    const isLayer3 = ((b1 >> 1) & 0x03) === 0x01;
+    const bitrateIndex = b2 >> 4;
+    const sampleRateIndex = (b2 >> 2) & 0x03;
+
+    if (!isSync || version === 1 || !isLayer3 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+      offset++;
+      continue;
+    }
+
+    const bitrate = (version === 3 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+    const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+    const samplesPerFrame = version === 3 ? 1152 : 576;
+    const padding = (b2 >> 1) & 0x01;
+
+    const frameLength = Math.floor((samplesPerFrame / 8) * bitrate / sampleRate) + padding;
+    seconds += samplesPerFrame / sampleRate;
+    offset += frameLength;
+  }
+
+  return seconds;
+}
+
+// ============================================
+// TEXT & SEGMENTS
+// ============================================
+
+/**
+ * Sentences of a chapter, with sentences too long for a single request
+ * broken at word boundaries
+ */
+function chapterSentences(content: string): string[] {
+  const sentences: string[] = [];
+
+  for (const sentence of splitIntoSentences(prepareTextForTTS(content))) {
+    if (Buffer.byteLength(sentence) <= MAX_SEGMENT_BYTES) {
+      sentences.push(sentence);
+      continue;
+    }
+
+    let piece = '';
+    for (const word of sentence.split(' ')) {
+      const next = piece ? `${piece} ${word}` : word;
+      if (piece && Buffer.byteLength(next) > MAX_SEGMENT_BYTES) {
+        sentences.push(piece);
+        piece = word;
+      } else {
+        piece = next;
+      }
+    }
+    if (piece) sentences.push(piece);
+  }
+
+  return sentences;
+}
+
+/**
+ * Group consecutive sentences into segments that fit one TTS request
+ */
+function groupIntoSegments(sentences: string[]): string[][] {
+  const segments: string[][] = [];
+  let current: string[] = [];
+  let bytes = 0;
+
+  for (const sentence of sentences) {
+    const size = Buffer.byteLength(sentence) + 1;
+    if (current.length > 0 && bytes + size > MAX_SEGMENT_BYTES) {
+      segments.push(current);
+      current = [];
+      bytes = 0;
+    }
+    current.push(sentence);
+    bytes += size;
+  }
+  if (current.length > 0) segments.push(current);
+
+  return segments;
+}
+
+/**
+ * Hash identifying a chapter's rendered audio
+ */
+function chapterHash(sentences: string[], provider: AudiobookProvider, voice: string | undefined, language: string): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([provider, voice || '', language, sentences]))
+    .digest('hex');
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+function bookDir(bookId: string): string {
+  return path.resolve(AUDIOBOOK_DIR, bookId);
+}
+
+function audioPath(bookId: string, hash: string): string {
+  return path.join(bookDir(bookId), `${hash}.mp3`);
+}
+
+function marksPath(bookId: string, hash: string): string {
+  return path.join(bookDir(bookId), `${hash}.json`);
+}
+
+async function fileSize(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Duration and size of a chapter rendered earlier, or null if it has to
+ * be synthesized. Files from an interrupted build are reused too.
+ */
+async function findCachedChapter(bookId: string, hash: string): Promise<{ duration: number; sizeBytes: number } | null> {
+  const sizeBytes = await fileSize(audioPath(bookId, hash));
+  if (sizeBytes === null) return null;
+
+  try {
+    const { duration } = JSON.parse(await fs.readFile(marksPath(bookId, hash), 'utf8')) as ChapterAudioMarks;
+    return { duration, sizeBytes };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete rendered files no chapter refers to anymore
+ */
+async function removeUnusedFiles(bookId: string, hashes: Set<string>): Promise<void> {
+  const files = await fs.readdir(bookDir(bookId)).catch(() => [] as string[]);
+
+  await Promise.all(
+    files
+      .filter((file) => !hashes.has(file.replace(/\.(mp3|json)$/, '')))
+      .map((file) => fs.unlink(path.join(bookDir(bookId), file)).catch(() => undefined))
+  );
+}
+
+// ============================================
+// SYNTHESIS
+// ============================================
+
+/**
+ * Narrate one segment and return its MP3 data. The TTS service writes
+ * the audio to the public uploads directory; it is moved into memory
+ * and the file removed.
+ */
+async function synthesizeSegment(
+  text: string,
+  language: string,
+  provider: AudiobookProvider,
+  voice?: string
+): Promise<Buffer> {
+  const result = await generateChapterNarration(text, language, provider, voice);
+
+  if (!result.success || !result.audioUrl) {
+    throw new Error(result.error || 'Narration failed');
+  }
+
+  const filePath = path.join(UPLOAD_DIR, 'audio', path.basename(result.audioUrl));
+  try {
+    return stripId3(await fs.readFile(filePath));
+  } finally {
+    await fs.unlink(filePath).catch(() => undefined);
+  }
+}
+
+/**
+ * Render a chapter: narrate each segment, stitch the audio and spread
+ * each segment's duration over its sentences by length
+ */
+async function renderChapter(
+  bookId: string,
+  hash: string,
+  sentences: string[],
+  audiobook: IAudiobook
+): Promise<{ duration: number; sizeBytes: number }> {
+  const buffers: Buffer[] = [];
+  const marks: SentenceMark[] = [];
+  let elapsed = 0;
+
+  for (const segment of groupIntoSegments(sentences)) {
+    const audio = await synthesizeSegment(segment.join(' '), audiobook.language, audiobook.provider, audiobook.voice);
+    const duration = getMp3Duration(audio);
+    const totalLength = segment.reduce((sum, sentence) => sum + sentence.length, 0) || 1;
+
+    let start = elapsed;
+    for (const sentence of segment) {
+      const end = start + duration * (sentence.length / totalLength);
+      marks.push({ text: sentence, start: Number(start.toFixed(3)), end: Number(end.toFixed(3)) });
+      start = end;
+    }
+
+    elapsed += duration;
+    buffers.push(audio);
+  }
+
+  const audio = Buffer.concat(buffers);
+  const chapterMarks: ChapterAudioMarks = { duration: Number(elapsed.toFixed(3)), marks };
+
+  await fs.mkdir(bookDir(bookId), { recursive: true });
+  // Marks are written last: their presence means the chapter is complete
+  await fs.writeFile(audioPath(bookId, hash), audio);
+  await fs.writeFile(marksPath(bookId, hash), JSON.stringify(chapterMarks));
+
+  return { duration: chapterMarks.duration, sizeBytes: audio.length };
+}
+
+/**
+ * Render every chapter of the book, reusing audio whose hash is unchanged
+ */
+async function runBuild(audiobookId: string): Promise<void> {
+  const audiobook = await Audiobook.findById(audiobookId);
+  if (!audiobook) return;
+
+  const bookId = audiobook.book.toString();
+
+  try {
+    const book = await Book.findById(bookId).select('chapters');
+    if (!book) {
+      throw new Error('Book not found');
+    }
+
+    const chapters = [...(book.chapters as BookChapter[])].sort((a, b) => a.order - b.order);
+    const rendered: IAudiobookChapter[] = [];
+
+    audiobook.progress = { completed: 0, total: chapters.length };
+    await audiobook.save();
+
+    for (const chapter of chapters) {
+      const sentences = chapterSentences(chapter.content);
+      if (sentences.length === 0) {
+        audiobook.progress.completed++;
+        continue;
+      }
+
+      const hash = chapterHash(sentences, audiobook.provider, audiobook.voice, audiobook.language);
+      const { duration, sizeBytes } =
+        (await findCachedChapter(bookId, hash)) || (await renderChapter(bookId, hash, sentences, audiobook));
+
+      rendered.push({
+        chapter: chapter._id,
+        title: chapter.title,
+        order: chapter.order,
+        contentHash: hash,
+        duration,
+        sizeBytes,
+      });
+
+      audiobook.progress.completed++;
+      await audiobook.save();
+    }
+
+    audiobook.chapters = rendered;
+    audiobook.status = 'ready';
+    audiobook.error = undefined;
+    audiobook.builtAt = new Date();
+    await audiobook.save();
+
+    await removeUnusedFiles(bookId, new Set(rendered.map((c) => c.contentHash)));
+  } catch (error: any) {
+    console.error('Audiobook build error:', error);
+    audiobook.status = 'failed';
+    audiobook.error = error.message || 'Audiobook build failed';
+    await audiobook.save();
+  } finally {
+    activeBuilds.delete(bookId);
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Start (or restart) rendering a book's audiobook. The build continues
+ * after this returns.
+ */
+export async function startAudiobookBuild(
+  userId: string,
+  bookId: string,
+  input: StartBuildInput
+): Promise<IAudiobook> {
+  if (!['google', 'elevenlabs'].includes(input.provider)) {
+    throw new ValidationError('Audiobooks need a server-side voice provider (google or elevenlabs)');
+  }
+
+  const book = await Book.findById(bookId).select('language chapters._id');
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+  if (book.chapters.length === 0) {
+    throw new ValidationError('The book has no chapters to narrate');
+  }
+  if (activeBuilds.has(bookId)) {
+    throw new ConflictError('An audiobook build is already running for this book');
+  }
+
+  // Chapters already listed stay downloadable while the rebuild runs
+  const audiobook =
+    (await Audiobook.findOne({ book: bookId })) || new Audiobook({ book: bookId, chapters: [] });
+
+  audiobook.requestedBy = new mongoose.Types.ObjectId(userId);
+  audiobook.provider = input.provider;
+  audiobook.voice = input.voice || undefined;
+  audiobook.language = book.language || 'he';
+  audiobook.status = 'building';
+  audiobook.error = undefined;
+  audiobook.progress = { completed: 0, total: book.chapters.length };
+  await audiobook.save();
+
+  activeBuilds.add(bookId);
+  runBuild(audiobook._id.toString()).catch((err) => console.error('Audiobook build error:', err));
+
+  return audiobook;
+}
+
+/**
+ * Audiobook status, with chapters whose text changed since the build
+ * flagged as outdated
+ */
+export async function getAudiobookStatus(bookId: string) {
+  const audiobook = await Audiobook.findOne({ book: bookId }).lean();
+  if (!audiobook) return null;
+
+  const book = await Book.findById(bookId).select('chapters._id chapters.content').lean();
+  const currentContent = new Map(
+    ((book?.chapters || []) as BookChapter[]).map((c) => [c._id.toString(), c.content])
+  );
+
+  // A build that was interrupted by a restart will never finish
+  const status = audiobook.status === 'building' && !activeBuilds.has(bookId) ? 'failed' : audiobook.status;
+
+  return {
+    status,
+    provider: audiobook.provider,
+    voice: audiobook.voice,
+    language: audiobook.language,
+    progress: audiobook.progress,
+    error: status === 'failed' ? audiobook.error || 'The build was interrupted' : undefined,
+    builtAt: audiobook.builtAt,
+    totalDuration: audiobook.chapters.reduce((sum, c) => sum + c.duration, 0),
+    chapters: audiobook.chapters.map((c) => {
+      const content = currentContent.get(c.chapter.toString());
+      return {
+        chapterId: c.chapter.toString(),
+        title: c.title,
+        order: c.order,
+        duration: c.duration,
+        sizeBytes: c.sizeBytes,
+        isOutdated:
+          content === undefined ||
+          chapterHash(chapterSentences(content), audiobook.provider, audiobook.voice, audiobook.language) !==
+            c.contentHash,
+      };
+    }),
+  };
+}
+
+async function findRenderedChapter(bookId: string, chapterId: string): Promise<IAudiobookChapter> {
+  const audiobook = await Audiobook.findOne({ book: bookId }).select('chapters').lean();
+  const chapter = audiobook?.chapters.find((c) => c.chapter.toString() === chapterId);
+
+  if (!chapter) {
+    throw new NotFoundError('No audio has been rendered for this chapter');
+  }
+  return chapter;
+}
+
+/**
+ * Path of a chapter's MP3 on disk
+ */
+export async function getChapterAudioFile(bookId: string, chapterId: string): Promise<{ filePath: string; filename: string }> {
+  const chapter = await findRenderedChapter(bookId, chapterId);
+  const filePath = audioPath(bookId, chapter.contentHash);
+
+  if ((await fileSize(filePath)) === null) {
+    throw new NotFoundError('Chapter audio is missing; rebuild the audiobook');
+  }
+
+  return { filePath, filename: `${String(chapter.order + 1).padStart(2, '0')} - ${chapter.title || 'Chapter'}.mp3` };
+}
+
+/**
+ * Sentence timing marks for a chapter's audio
+ */
+export async function getChapterMarks(bookId: string, chapterId: string): Promise<ChapterAudioMarks> {
+  const chapter = await findRenderedChapter(bookId, chapterId);
+
+  try {
+    return JSON.parse(await fs.readFile(marksPath(bookId, chapter.contentHash), 'utf8'));
+  } catch {
+    throw new NotFoundError('Chapter audio is missing; rebuild the audiobook');
+  }
+}
+
+/**
+ * The whole audiobook as a ZIP of chapter MP3s with an M3U playlist
+ */
+export async function createAudiobookArchive(bookId: string): Promise<{ filename: string; stream: NodeJS.ReadableStream }> {
+  const [audiobook, book] = await Promise.all([
+    Audiobook.findOne({ book: bookId }).lean(),
+    Book.findById(bookId).select('title').lean(),
+  ]);
+
+  if (!audiobook || !book || audiobook.chapters.length === 0) {
+    throw new NotFoundError('This book has no audiobook yet');
+  }
+
+  const zip = new JSZip();
+  const playlist = ['#EXTM3U'];
+
+  for (const chapter of [...audiobook.chapters].sort((a, b) => a.order - b.order)) {
+    const filename = `${String(chapter.order + 1).padStart(2, '0')} - ${(chapter.title || 'Chapter').replace(/[\\/:*?"<>|]/g, '')}.mp3`;
+    const filePath = audioPath(bookId, chapter.contentHash);
+
+    if ((await fileSize(filePath)) === null) {
+      throw new NotFoundError('Chapter audio is missing; rebuild the audiobook');
+    }
+
+    // MP3 does not compress further; store as-is
+    zip.file(filename, fs.readFile(filePath), { compression: 'STORE' });
+    playlist.push(`#EXTINF:${Math.round(chapter.duration)},${chapter.title}`, filename);
+  }
+
+  zip.file('playlist.m3u', playlist.join('\n'));
+
+  return {
+    filename: `${book.title || 'audiobook'}.zip`,
+    stream: zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true }),
+  };
+}
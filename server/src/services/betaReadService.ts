@@ -0,0 +1,563 @@
+/**
+ * Beta Read Service
+ * Private pre-publication reads. An author runs one active campaign per
+ * book: invited readers get an expiring grant that the read policy
+ * honours for the unpublished book, answer per-chapter questions, and
+ * the author sees aggregate results - how far readers got, where they
+ * stopped, and how each chapter landed.
+ *
+ * Who may call what is decided by the book access policy ('manage' for
+ * the campaign, 'read' for readers). A reader's grant itself is checked
+ * here.
+ */
+
+import mongoose from 'mongoose';
+import { Book, IBook, IChapter } from '../models/Book';
+import { User } from '../models/User';
+import { BetaCampaign, IBetaCampaign, IBetaQuestion, IBetaReader, BetaQuestionType } from '../models/BetaCampaign';
+import { BetaFeedback, IBetaFeedback, BetaReaction, BETA_REACTIONS } from '../models/BetaFeedback';
+import { notifyBetaInvite } from './notificationService';
+import { sendBetaInviteEmail } from './emailService';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface BetaQuestionInput {
+  prompt: string;
+  type: BetaQuestionType;
+  chapters?: string[]; // Empty = every chapter
+}
+
+export interface CreateCampaignInput {
+  title: string;
+  message?: string;
+  accessDays?: number;
+  questions?: BetaQuestionInput[];
+}
+
+export interface UpdateCampaignInput {
+  title?: string;
+  message?: string;
+  accessDays?: number;
+  questions?: BetaQuestionInput[];
+  status?: 'active' | 'closed';
+}
+
+export interface BetaFeedbackInput {
+  reaction?: BetaReaction;
+  rating?: number;
+  answers?: Array<{ question: string; rating?: number; text?: string }>;
+  comment?: string;
+}
+
+export interface BetaGrant {
+  campaignId: mongoose.Types.ObjectId;
+  readerId: mongoose.Types.ObjectId;
+  expiresAt: Date;
+}
+
+export type BetaReaderStatus = 'invited' | 'reading' | 'finished' | 'expired' | 'revoked';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function findBook(bookId: string): Promise<IBook> {
+  const book = await Book.findById(bookId).select('title author chapters._id chapters.title chapters.order');
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+  return book;
+}
+
+async function findCampaign(bookId: string, campaignId: string): Promise<IBetaCampaign> {
+  const campaign = await BetaCampaign.findOne({ _id: campaignId, book: bookId });
+  if (!campaign) {
+    throw new NotFoundError('Beta campaign not found');
+  }
+  return campaign;
+}
+
+function orderedChapters(book: IBook): IChapter[] {
+  return [...book.chapters].sort((a, b) => a.order - b.order);
+}
+
+function isGrantActive(reader: IBetaReader, now = new Date()): boolean {
+  return !reader.revokedAt && reader.expiresAt > now;
+}
+
+/**
+ * Validate questions against the book's chapters
+ */
+function toQuestions(book: IBook, questions: BetaQuestionInput[]): IBetaQuestion[] {
+  const known = new Set(book.chapters.map((ch) => ch._id?.toString()));
+
+  return questions.map((question) => {
+    const chapters = [...new Set(question.chapters || [])];
+    if (chapters.some((id) => !known.has(id))) {
+      throw new ValidationError('Question chapters must belong to this book');
+    }
+    return {
+      prompt: question.prompt.trim(),
+      type: question.type,
+      chapters: chapters.map((id) => new mongoose.Types.ObjectId(id)),
+    };
+  });
+}
+
+/**
+ * Does a question apply to the chapter? An empty list means every chapter.
+ */
+function asksAbout(question: IBetaQuestion, chapterId: string): boolean {
+  return question.chapters.length === 0 || question.chapters.some((id) => id.toString() === chapterId);
+}
+
+/**
+ * The last chapter a reading progress percentage reaches; -1 before the
+ * first. The reader reports progress as (chapter index + 1) / chapters.
+ */
+function chapterIndexAt(progress: number, chapterCount: number): number {
+  if (progress <= 0 || chapterCount === 0) return -1;
+  return Math.min(chapterCount, Math.max(1, Math.round((progress / 100) * chapterCount))) - 1;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 10) / 10;
+}
+
+function toCampaignResponse(campaign: IBetaCampaign) {
+  const now = new Date();
+
+  return {
+    id: campaign._id,
+    title: campaign.title,
+    message: campaign.message,
+    status: campaign.status,
+    accessDays: campaign.accessDays,
+    questions: campaign.questions,
+    readers: campaign.readers.map((reader) => ({
+      id: reader._id,
+      email: reader.email,
+      user: reader.user,
+      invitedAt: reader.invitedAt,
+      expiresAt: reader.expiresAt,
+      revokedAt: reader.revokedAt,
+      lastOpenedAt: reader.lastOpenedAt,
+      hasAccess: campaign.status === 'active' && isGrantActive(reader, now),
+    })),
+    closedAt: campaign.closedAt,
+    createdAt: campaign.createdAt,
+  };
+}
+
+// ============================================
+// ACCESS
+// ============================================
+
+/**
+ * The user's live beta grant on a book, if any: an active campaign, an
+ * invitation to their account or email, not revoked and not expired.
+ * Invitations sent by email are linked to the account on first match,
+ * once the account has verified that address.
+ */
+export async function findBetaGrant(userId: string, bookId: string): Promise<BetaGrant | null> {
+  const campaign = await BetaCampaign.findOne({ book: bookId, status: 'active' }).select('readers').lean();
+  if (!campaign || campaign.readers.length === 0) return null;
+
+  let reader = campaign.readers.find((r) => r.user?.toString() === userId);
+
+  if (!reader && campaign.readers.some((r) => !r.user)) {
+    const user = await User.findById(userId).select('email emailVerification.isVerified').lean();
+    reader = user?.emailVerification?.isVerified
+      ? campaign.readers.find((r) => !r.user && r.email === user.email.toLowerCase())
+      : undefined;
+
+    if (reader) {
+      await BetaCampaign.updateOne(
+        { _id: campaign._id, 'readers._id': reader._id },
+        { $set: { 'readers.$.user': new mongoose.Types.ObjectId(userId) } }
+      );
+    }
+  }
+
+  if (!reader || !isGrantActive(reader)) return null;
+
+  return { campaignId: campaign._id, readerId: reader._id!, expiresAt: reader.expiresAt };
+}
+
+/**
+ * Link invitations sent to an address to the account that just verified
+ * it, so readers invited before they signed up get their access
+ */
+export async function linkBetaInvitesForEmail(userId: string, email: string): Promise<void> {
+  const address = email.toLowerCase();
+
+  await BetaCampaign.updateMany(
+    { status: 'active', readers: { $elemMatch: { email: address, user: null } } },
+    { $set: { 'readers.$[invite].user': new mongoose.Types.ObjectId(userId) } },
+    { arrayFilters: [{ 'invite.email': address, 'invite.user': null }] }
+  );
+}
+
+/**
+ * Note that a beta reader opened the book. Never throws.
+ */
+export async function recordBetaOpen(userId: string, bookId: string): Promise<void> {
+  try {
+    await BetaCampaign.updateOne(
+      { book: bookId, status: 'active', 'readers.user': userId },
+      { $set: { 'readers.$.lastOpenedAt': new Date() } }
+    );
+  } catch (error) {
+    console.error('Failed to record beta read:', error);
+  }
+}
+
+// ============================================
+// CAMPAIGNS
+// ============================================
+
+/**
+ * A book's campaigns, newest first
+ */
+export async function listCampaigns(bookId: string) {
+  const campaigns = await BetaCampaign.find({ book: bookId }).sort({ createdAt: -1 });
+  return campaigns.map(toCampaignResponse);
+}
+
+/**
+ * Start a campaign. A book runs one active campaign at a time.
+ */
+export async function createCampaign(authorId: string, bookId: string, input: CreateCampaignInput) {
+  const book = await findBook(bookId);
+
+  const active = await BetaCampaign.exists({ book: bookId, status: 'active' });
+  if (active) {
+    throw new ConflictError('This book already has an active beta campaign');
+  }
+
+  const campaign = await BetaCampaign.create({
+    book: book._id,
+    author: authorId,
+    title: input.title.trim(),
+    message: input.message?.trim() || undefined,
+    accessDays: input.accessDays || 30,
+    questions: toQuestions(book, input.questions || []),
+  });
+
+  return toCampaignResponse(campaign);
+}
+
+/**
+ * Edit a campaign, or close and reopen it. Changing accessDays only
+ * affects invitations sent afterwards.
+ */
+export async function updateCampaign(bookId: string, campaignId: string, input: UpdateCampaignInput) {
+  const campaign = await findCampaign(bookId, campaignId);
+
+  if (input.title !== undefined) campaign.title = input.title.trim();
+  if (input.message !== undefined) campaign.message = input.message.trim() || undefined;
+  if (input.accessDays !== undefined) campaign.accessDays = input.accessDays;
+
+  if (input.questions !== undefined) {
+    const book = await findBook(bookId);
+    campaign.questions = toQuestions(book, input.questions);
+  }
+
+  if (input.status && input.status !== campaign.status) {
+    if (input.status === 'active') {
+      const active = await BetaCampaign.exists({ book: bookId, status: 'active', _id: { $ne: campaign._id } });
+      if (active) {
+        throw new ConflictError('This book already has an active beta campaign');
+      }
+      campaign.closedAt = undefined;
+    } else {
+      campaign.closedAt = new Date();
+    }
+    campaign.status = input.status;
+  }
+
+  await campaign.save();
+  return toCampaignResponse(campaign);
+}
+
+/**
+ * Invite readers by email. Inviting someone again renews their grant.
+ * Readers without a verified account get access once they sign up and
+ * verify the invited address.
+ */
+export async function inviteReaders(authorId: string, bookId: string, campaignId: string, emails: string[]) {
+  const [book, campaign] = await Promise.all([findBook(bookId), findCampaign(bookId, campaignId)]);
+
+  if (campaign.status !== 'active') {
+    throw new ValidationError('Reopen the campaign before inviting readers');
+  }
+
+  const addresses = [...new Set(emails.map((email) => email.toLowerCase().trim()))];
+  const [author, users] = await Promise.all([
+    User.findById(authorId).select('name email').lean(),
+    User.find({ email: { $in: addresses }, 'emailVerification.isVerified': true }).select('email').lean(),
+  ]);
+
+  if (author && addresses.includes(author.email.toLowerCase())) {
+    throw new ValidationError('You cannot invite yourself');
+  }
+
+  const usersByEmail = new Map(users.map((u) => [u.email.toLowerCase(), u._id as mongoose.Types.ObjectId]));
+  const expiresAt = new Date(Date.now() + campaign.accessDays * DAY_MS);
+
+  for (const email of addresses) {
+    const existing = campaign.readers.find((r) => r.email === email);
+    const user = usersByEmail.get(email);
+
+    if (existing) {
+      existing.invitedAt = new Date();
+      existing.expiresAt = expiresAt;
+      existing.revokedAt = undefined;
+      existing.user = existing.user || user;
+    } else {
+      campaign.readers.push({ email, user, invitedAt: new Date(), expiresAt });
+    }
+  }
+
+  await campaign.save();
+
+  const inviterName = author?.name || 'An author';
+
+  for (const email of addresses) {
+    const userId = usersByEmail.get(email);
+    if (userId) {
+      notifyBetaInvite(userId.toString(), authorId, bookId, book.title, expiresAt).catch((err) =>
+        console.error('Failed to send beta invite notification:', err)
+      );
+    }
+
+    sendBetaInviteEmail(email, inviterName, book.title, bookId, expiresAt, campaign.message).catch((err) =>
+      console.error('Failed to send beta invite email:', err)
+    );
+  }
+
+  return toCampaignResponse(campaign);
+}
+
+/**
+ * Take back a reader's access. Their feedback stays in the results.
+ */
+export async function revokeReader(bookId: string, campaignId: string, readerId: string) {
+  const campaign = await findCampaign(bookId, campaignId);
+
+  const reader = campaign.readers.find((r) => r._id?.toString() === readerId);
+  if (!reader) {
+    throw new NotFoundError('Reader not found');
+  }
+
+  reader.revokedAt = new Date();
+  await campaign.save();
+
+  return toCampaignResponse(campaign);
+}
+
+// ============================================
+// READERS
+// ============================================
+
+async function requireGrant(userId: string, bookId: string) {
+  const grant = await findBetaGrant(userId, bookId);
+  if (!grant) {
+    throw new AuthorizationError('You are not a beta reader of this book');
+  }
+
+  const campaign = await BetaCampaign.findById(grant.campaignId);
+  if (!campaign) {
+    throw new NotFoundError('Beta campaign not found');
+  }
+
+  return { grant, campaign };
+}
+
+/**
+ * What a beta reader sees: the author's note, the questions and the
+ * feedback they already gave
+ */
+export async function getReaderCampaign(userId: string, bookId: string) {
+  const { grant, campaign } = await requireGrant(userId, bookId);
+
+  const feedback = await BetaFeedback.find({ campaign: campaign._id, reader: userId })
+    .select('chapter reaction rating answers comment updatedAt')
+    .lean();
+
+  return {
+    id: campaign._id,
+    title: campaign.title,
+    message: campaign.message,
+    questions: campaign.questions,
+    expiresAt: grant.expiresAt,
+    feedback,
+  };
+}
+
+/**
+ * Save a reader's feedback on a chapter, replacing earlier feedback
+ */
+export async function submitFeedback(userId: string, bookId: string, chapterId: string, input: BetaFeedbackInput) {
+  const { campaign } = await requireGrant(userId, bookId);
+  const book = await findBook(bookId);
+
+  if (!book.chapters.some((ch) => ch._id?.toString() === chapterId)) {
+    throw new NotFoundError('Chapter not found');
+  }
+  if (input.reaction && !BETA_REACTIONS.includes(input.reaction)) {
+    throw new ValidationError('Invalid reaction');
+  }
+
+  const answers = (input.answers || []).map((answer) => {
+    const question = campaign.questions.find((q) => q._id?.toString() === answer.question);
+    if (!question || !asksAbout(question, chapterId)) {
+      throw new ValidationError('Answers must be to this chapter\'s questions');
+    }
+    return question.type === 'rating'
+      ? { question: question._id!, rating: answer.rating }
+      : { question: question._id!, text: answer.text?.trim() };
+  });
+
+  const emptyAnswer = answers.find((a) => a.rating === undefined && !a.text);
+  if (emptyAnswer) {
+    throw new ValidationError('Each answer needs a rating or text');
+  }
+  if (!input.reaction && input.rating === undefined && answers.length === 0 && !input.comment?.trim()) {
+    throw new ValidationError('Feedback cannot be empty');
+  }
+
+  // Resubmitting replaces the feedback, so fields left out are cleared
+  const optional = { reaction: input.reaction, rating: input.rating, comment: input.comment?.trim() || undefined };
+  const set = Object.fromEntries(Object.entries(optional).filter(([, value]) => value !== undefined));
+  const unset = Object.fromEntries(
+    Object.entries(optional)
+      .filter(([, value]) => value === undefined)
+      .map(([key]) => [key, 1])
+  );
+
+  return BetaFeedback.findOneAndUpdate(
+    { campaign: campaign._id, chapter: chapterId, reader: userId },
+    { $set: { book: bookId, answers, ...set }, $unset: unset },
+    { upsert: true, new: true, runValidators: true, setDefaultsOnInsert: true }
+  ).lean();
+}
+
+// ============================================
+// RESULTS
+// ============================================
+
+/**
+ * Aggregate results of a campaign: each reader's furthest chapter (from
+ * reading progress and the feedback they left), the chapter where most
+ * readers stopped, and per-chapter ratings, reactions and answers
+ */
+export async function getCampaignSummary(bookId: string, campaignId: string) {
+  const [book, campaign] = await Promise.all([findBook(bookId), findCampaign(bookId, campaignId)]);
+  const chapters = orderedChapters(book);
+  const chapterIndex = new Map(chapters.map((ch, index) => [ch._id!.toString(), index]));
+
+  const readerIds = campaign.readers.filter((r) => r.user).map((r) => r.user!);
+  const [users, feedback] = await Promise.all([
+    User.find({ _id: { $in: readerIds } }).select('name profile.readingHistory').lean(),
+    BetaFeedback.find({ campaign: campaign._id }).lean<IBetaFeedback[]>(),
+  ]);
+
+  const usersById = new Map(users.map((u) => [u._id.toString(), u]));
+  const now = new Date();
+
+  // How far each reader got
+  const readers = campaign.readers.map((reader) => {
+    const userId = reader.user?.toString();
+    const user = userId ? usersById.get(userId) : undefined;
+    const history = user?.profile?.readingHistory?.find((item) => item.bookId.toString() === bookId);
+
+    const feedbackIndexes = feedback
+      .filter((f) => f.reader.toString() === userId)
+      .map((f) => chapterIndex.get(f.chapter.toString()) ?? -1);
+    const furthest = Math.max(chapterIndexAt(history?.progress || 0, chapters.length), ...feedbackIndexes, -1);
+
+    let status: BetaReaderStatus = 'invited';
+    if (furthest === chapters.length - 1 && chapters.length > 0) status = 'finished';
+    else if (reader.revokedAt) status = 'revoked';
+    else if (reader.expiresAt <= now) status = 'expired';
+    else if (furthest >= 0 || reader.lastOpenedAt) status = 'reading';
+
+    return {
+      id: reader._id,
+      email: reader.email,
+      name: user?.name,
+      status,
+      furthestChapter: furthest,
+      lastOpenedAt: reader.lastOpenedAt,
+      expiresAt: reader.expiresAt,
+    };
+  });
+
+  // Readers who started but did not finish, by the chapter they stopped at
+  const stops = new Array<number>(chapters.length).fill(0);
+  for (const reader of readers) {
+    if (reader.furthestChapter >= 0 && reader.status !== 'finished') {
+      stops[reader.furthestChapter] += 1;
+    }
+  }
+  const mostStops = Math.max(0, ...stops);
+  const dropOffIndex = mostStops > 0 ? stops.indexOf(mostStops) : -1;
+
+  const perChapter = chapters.map((chapter, index) => {
+    const id = chapter._id!.toString();
+    const entries = feedback.filter((f) => f.chapter.toString() === id);
+
+    const reactions = Object.fromEntries(BETA_REACTIONS.map((r) => [r, 0])) as Record<BetaReaction, number>;
+    for (const entry of entries) {
+      if (entry.reaction) reactions[entry.reaction] += 1;
+    }
+
+    const questions = campaign.questions
+      .filter((question) => asksAbout(question, id))
+      .map((question) => {
+        const answers = entries.flatMap((f) =>
+          f.answers.filter((a) => a.question.toString() === question._id!.toString())
+        );
+        return {
+          id: question._id,
+          prompt: question.prompt,
+          type: question.type,
+          responses: answers.length,
+          averageRating: question.type === 'rating' ? average(answers.map((a) => a.rating!).filter(Boolean)) : null,
+          answers: question.type === 'text' ? answers.map((a) => a.text!).filter(Boolean) : [],
+        };
+      });
+
+    return {
+      chapterId: id,
+      title: chapter.title,
+      readersReached: readers.filter((r) => r.furthestChapter >= index).length,
+      stoppedHere: stops[index],
+      feedbackCount: entries.length,
+      averageRating: average(entries.map((f) => f.rating!).filter(Boolean)),
+      reactions,
+      questions,
+      comments: entries.map((f) => f.comment!).filter(Boolean),
+    };
+  });
+
+  return {
+    campaign: toCampaignResponse(campaign),
+    totals: {
+      invited: readers.length,
+      opened: readers.filter((r) => r.lastOpenedAt || r.furthestChapter >= 0).length,
+      finished: readers.filter((r) => r.status === 'finished').length,
+      feedback: feedback.length,
+      averageRating: average(feedback.map((f) => f.rating!).filter(Boolean)),
+    },
+    dropOff:
+      dropOffIndex === -1
+        ? null
+        : { chapterId: perChapter[dropOffIndex].chapterId, title: perChapter[dropOffIndex].title, readers: mostStops },
+    readers,
+    chapters: perChapter,
+  };
+}
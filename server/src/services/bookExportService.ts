@@ -3,15 +3,19 @@ import { Document, Packer, Paragraph, TextRun, HeadingLevel, PageBreak, Alignmen
 import { Book, IChapter, ICharacter, IPageImage, IStoryContext } from '../models/Book';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import axios from 'axios';
+import archiver from 'archiver';
 
 // ============================================================================
 // INTERFACES
 // ============================================================================
 
 interface ChapterData {
+  id?: string;
   title: string;
   content: string;
+  html: string; // Original editor HTML (used by EPUB export)
   wordCount: number;
   images: PageImageData[];
 }
@@ -82,6 +86,7 @@ interface CoverDesignData {
   backImageUrl?: string;
   synopsis?: string;
   authorBio?: string;
+  isbn?: string;
 }
 
 interface PageLayoutData {
@@ -399,8 +404,10 @@ async function extractBookData(bookId: string): Promise<BookExportData> {
 
   // Extract chapters with images
   const chapters: ChapterData[] = (book.chapters || []).map((ch: IChapter, index: number) => ({
+    id: ch._id?.toString(),
     title: ch.title || 'פרק ללא שם',
     content: stripHtml(ch.content || ''),
+    html: ch.content || '',
     wordCount: ch.wordCount || 0,
     images: chapterImagesMap.get(index) || [],
   }));
@@ -457,6 +464,7 @@ async function extractBookData(bookId: string): Promise<BookExportData> {
       backImageUrl: getBackImageUrl(),
       synopsis: coverDesignData?.back?.synopsis,
       authorBio: coverDesignData?.back?.authorBio,
+      isbn: coverDesignData?.back?.barcodeArea?.isbn,
     },
     pageLayout,
     aiDesign: aiDesignData ? {
@@ -1819,6 +1827,359 @@ export async function generateDOCX(bookId: string): Promise<Buffer> {
   }
 }
 
+// ============================================================================
+// EPUB GENERATION
+// ============================================================================
+
+interface EpubResource {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+  data: Buffer | string;
+}
+
+// Named HTML entities the editor may emit; XHTML only knows the XML five
+const HTML_ENTITIES: Record<string, number> = {
+  nbsp: 160,
+  copy: 169,
+  hellip: 8230,
+  mdash: 8212,
+  ndash: 8211,
+  lsquo: 8216,
+  rsquo: 8217,
+  ldquo: 8220,
+  rdquo: 8221,
+};
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Detect an image's media type from its magic bytes
+ */
+function detectImageType(buffer: Buffer): { mediaType: string; extension: string } | null {
+  if (buffer.length < 12) return null;
+  if (buffer[0] === 0x89 && buffer.toString('ascii', 1, 4) === 'PNG') {
+    return { mediaType: 'image/png', extension: 'png' };
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return { mediaType: 'image/jpeg', extension: 'jpg' };
+  }
+  if (buffer.toString('ascii', 0, 3) === 'GIF') {
+    return { mediaType: 'image/gif', extension: 'gif' };
+  }
+  if (buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return { mediaType: 'image/webp', extension: 'webp' };
+  }
+  return null;
+}
+
+/**
+ * Convert editor HTML (or plain imported text) into well-formed XHTML body content
+ */
+function toXhtml(html: string): string {
+  const trimmed = html.trim();
+  if (!trimmed) return '';
+
+  // Plain text from imported manuscripts - wrap paragraphs
+  if (!trimmed.startsWith('<')) {
+    return trimmed
+      .split(/\n\s*\n/)
+      .map((para) => para.trim())
+      .filter(Boolean)
+      .map((para) => `<p>${escapeXml(para).replace(/\n/g, '<br/>')}</p>`)
+      .join('\n');
+  }
+
+  return trimmed
+    .replace(/<(script|style|iframe)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/\s+on\w+="[^"]*"/gi, '')
+    .replace(/<img[^>]*>/gi, '') // Inline remote images are not packaged
+    .replace(/<(br|hr)(\s[^>]*?)?\s*\/?>/gi, '<$1$2/>')
+    .replace(/&(#\d+|#x[\da-f]+|[a-z]+);|&/gi, (match, entity?: string) => {
+      if (!entity) return '&amp;';
+      if (entity.startsWith('#') || ['amp', 'lt', 'gt', 'quot', 'apos'].includes(entity)) return match;
+      const code = HTML_ENTITIES[entity.toLowerCase()];
+      return code ? `&#${code};` : `&amp;${entity};`;
+    });
+}
+
+/**
+ * Wrap body content in an EPUB 3 XHTML content document
+ */
+function xhtmlDocument(title: string, body: string, lang: string, dir: 'rtl' | 'ltr'): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}" lang="${lang}" dir="${dir}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Build the EPUB identifier: ISBN when a valid one is set, otherwise a stable UUID from the book id
+ */
+function getEpubIdentifier(bookId: string, isbn?: string): string {
+  const normalizedIsbn = (isbn || '').replace(/[^\dX]/gi, '').toUpperCase();
+  if (normalizedIsbn.length === 10 || normalizedIsbn.length === 13) {
+    return `urn:isbn:${normalizedIsbn}`;
+  }
+
+  const hash = crypto.createHash('md5').update(`mestory-book-${bookId}`).digest('hex');
+  return `urn:uuid:${hash.slice(0, 8)}-${hash.slice(8, 12)}-${hash.slice(12, 16)}-${hash.slice(16, 20)}-${hash.slice(20, 32)}`;
+}
+
+/**
+ * Zip EPUB resources; the mimetype entry must come first and be stored uncompressed
+ */
+function zipEpub(resources: EpubResource[], opf: string, ncx: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const archive = archiver('zip', { zlib: { level: 9 } });
+    const chunks: Buffer[] = [];
+
+    archive.on('data', (chunk: Buffer) => chunks.push(chunk));
+    archive.on('end', () => resolve(Buffer.concat(chunks)));
+    archive.on('error', reject);
+
+    archive.append('application/epub+zip', { name: 'mimetype', store: true });
+    archive.append(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`,
+      { name: 'META-INF/container.xml' }
+    );
+    archive.append(opf, { name: 'OEBPS/content.opf' });
+    archive.append(ncx, { name: 'OEBPS/toc.ncx' });
+    resources.forEach((resource) => {
+      archive.append(resource.data, { name: `OEBPS/${resource.href}` });
+    });
+
+    archive.finalize().catch(reject);
+  });
+}
+
+/**
+ * Generate an EPUB 3 package from book data
+ */
+export async function generateEPUB(bookId: string): Promise<Buffer> {
+  const bookData = await extractBookData(bookId);
+
+  const isRTL = bookData.language === 'he' || containsHebrew(bookData.title);
+  const dir = isRTL ? 'rtl' : 'ltr';
+  const lang = bookData.language || (isRTL ? 'he' : 'en');
+  const tocTitle = isRTL ? 'תוכן עניינים' : 'Table of Contents';
+  const identifier = getEpubIdentifier(bookId, bookData.coverDesign.isbn);
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+  const resources: EpubResource[] = [];
+  const spine: Array<{ idref: string; linear?: boolean }> = [];
+
+  resources.push({
+    id: 'css',
+    href: 'styles.css',
+    mediaType: 'text/css',
+    data: `body { font-family: "${bookData.pageLayout.bodyFont}", serif; line-height: ${bookData.pageLayout.lineHeight}; }
+h1 { text-align: center; margin: 2em 0 1em; }
+p { text-indent: 1.5em; margin: 0 0 0.5em; }
+.cover { text-align: center; margin: 0; padding: 0; }
+.cover img { max-width: 100%; max-height: 100%; }
+.title-page { text-align: center; margin-top: 30%; }
+.title-page .author { font-size: 1.2em; margin-top: 2em; text-indent: 0; }
+figure.page-image { text-align: center; margin: 1em 0; }
+figure.page-image img { max-width: 100%; }
+figcaption { font-size: 0.85em; font-style: italic; }
+`,
+  });
+
+  // Cover
+  const coverBuffer = await fetchImageAsBuffer(bookData.coverDesign.frontImageUrl || '');
+  const coverType = coverBuffer ? detectImageType(coverBuffer) : null;
+  if (coverBuffer && coverType) {
+    const coverHref = `images/cover.${coverType.extension}`;
+    resources.push({
+      id: 'cover-image',
+      href: coverHref,
+      mediaType: coverType.mediaType,
+      properties: 'cover-image',
+      data: coverBuffer,
+    });
+    resources.push({
+      id: 'cover',
+      href: 'cover.xhtml',
+      mediaType: 'application/xhtml+xml',
+      data: xhtmlDocument(
+        bookData.title,
+        `<section epub:type="cover" class="cover"><img src="${coverHref}" alt="${escapeXml(bookData.title)}"/></section>`,
+        lang,
+        dir
+      ),
+    });
+    spine.push({ idref: 'cover' });
+  }
+
+  // Title page
+  resources.push({
+    id: 'title-page',
+    href: 'title-page.xhtml',
+    mediaType: 'application/xhtml+xml',
+    data: xhtmlDocument(
+      bookData.title,
+      `<section epub:type="titlepage" class="title-page">
+<h1>${escapeXml(bookData.title)}</h1>
+<p class="author">${escapeXml(bookData.authorName)}</p>
+</section>`,
+      lang,
+      dir
+    ),
+  });
+  spine.push({ idref: 'title-page' });
+
+  // Navigation document (always in the manifest, in the spine only when a TOC is wanted)
+  spine.push({ idref: 'nav', linear: bookData.pageLayout.includeTableOfContents });
+
+  // Chapters with their page images
+  const chapterEntries: Array<{ id: string; href: string; title: string }> = [];
+
+  for (const [index, chapter] of bookData.chapters.entries()) {
+    const id = `chapter-${String(index + 1).padStart(3, '0')}`;
+    const figures: string[] = [];
+
+    for (const [imageIndex, image] of chapter.images.entries()) {
+      const buffer = await fetchImageAsBuffer(image.url);
+      const type = buffer ? detectImageType(buffer) : null;
+      if (!buffer || !type) continue;
+
+      const imageId = `${id}-image-${imageIndex + 1}`;
+      const href = `images/${imageId}.${type.extension}`;
+      resources.push({ id: imageId, href, mediaType: type.mediaType, data: buffer });
+
+      const caption = image.caption ? `<figcaption>${escapeXml(image.caption)}</figcaption>` : '';
+      figures.push(
+        `<figure class="page-image"><img src="${href}" alt="${escapeXml(image.caption || chapter.title)}" style="width: ${Math.round(image.width)}%;"/>${caption}</figure>`
+      );
+    }
+
+    const body = `<section epub:type="chapter" id="${id}">
+<h1>${escapeXml(chapter.title)}</h1>
+${figures.join('\n')}
+${toXhtml(chapter.html)}
+</section>`;
+
+    resources.push({
+      id,
+      href: `${id}.xhtml`,
+      mediaType: 'application/xhtml+xml',
+      data: xhtmlDocument(chapter.title, body, lang, dir),
+    });
+    spine.push({ idref: id });
+    chapterEntries.push({ id, href: `${id}.xhtml`, title: chapter.title });
+  }
+
+  const tocItems = chapterEntries
+    .map((entry) => `      <li><a href="${entry.href}">${escapeXml(entry.title)}</a></li>`)
+    .join('\n');
+  const firstChapterHref = chapterEntries[0]?.href || 'title-page.xhtml';
+
+  resources.push({
+    id: 'nav',
+    href: 'nav.xhtml',
+    mediaType: 'application/xhtml+xml',
+    properties: 'nav',
+    data: xhtmlDocument(
+      tocTitle,
+      `<nav epub:type="toc" id="toc">
+  <h1>${tocTitle}</h1>
+  <ol>
+${tocItems}
+  </ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+  <ol>
+${resources.some((r) => r.id === 'cover') ? '    <li><a epub:type="cover" href="cover.xhtml">Cover</a></li>\n' : ''}    <li><a epub:type="toc" href="nav.xhtml">${tocTitle}</a></li>
+    <li><a epub:type="bodymatter" href="${firstChapterHref}">${escapeXml(bookData.title)}</a></li>
+  </ol>
+</nav>`,
+      lang,
+      dir
+    ),
+  });
+
+  // NCX for EPUB 2 reading systems
+  const ncx = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1" xml:lang="${lang}"${isRTL ? ' dir="rtl"' : ''}>
+  <head>
+    <meta name="dtb:uid" content="${escapeXml(identifier)}"/>
+  </head>
+  <docTitle><text>${escapeXml(bookData.title)}</text></docTitle>
+  <navMap>
+${chapterEntries
+  .map(
+    (entry, index) => `    <navPoint id="nav-${entry.id}" playOrder="${index + 1}">
+      <navLabel><text>${escapeXml(entry.title)}</text></navLabel>
+      <content src="${entry.href}"/>
+    </navPoint>`
+  )
+  .join('\n')}
+  </navMap>
+</ncx>
+`;
+
+  const description = bookData.synopsis || bookData.description;
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}" dir="${dir}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(identifier)}</dc:identifier>
+    <dc:title>${escapeXml(bookData.title)}</dc:title>
+    <dc:creator id="creator">${escapeXml(bookData.authorName)}</dc:creator>
+    <meta refines="#creator" property="role" scheme="marc:relators">aut</meta>
+    <dc:language>${lang}</dc:language>
+    <dc:subject>${escapeXml(bookData.genre)}</dc:subject>
+${description ? `    <dc:description>${escapeXml(description)}</dc:description>\n` : ''}    <dc:publisher>MeStory</dc:publisher>
+    <meta property="dcterms:modified">${modified}</meta>
+${resources.some((r) => r.id === 'cover-image') ? '    <meta name="cover" content="cover-image"/>\n' : ''}  </metadata>
+  <manifest>
+    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+${resources
+  .map(
+    (r) => `    <item id="${r.id}" href="${r.href}" media-type="${r.mediaType}"${r.properties ? ` properties="${r.properties}"` : ''}/>`
+  )
+  .join('\n')}
+  </manifest>
+  <spine toc="ncx" page-progression-direction="${dir}">
+${spine.map((item) => `    <itemref idref="${item.idref}"${item.linear === false ? ' linear="no"' : ''}/>`).join('\n')}
+  </spine>
+</package>
+`;
+
+  try {
+    return await zipEpub(resources, opf, ncx);
+  } catch (error: any) {
+    console.error('Failed to generate EPUB package:', error);
+    throw new Error(`Failed to generate EPUB: ${error.message}`);
+  }
+}
+
 // ============================================================================
 // MAIN EXPORT FUNCTION
 // ============================================================================
@@ -1828,10 +2189,12 @@ export async function generateDOCX(bookId: string): Promise<Buffer> {
  */
 export async function exportBook(
   bookId: string,
-  format: 'pdf' | 'docx'
+  format: 'pdf' | 'docx' | 'epub'
 ): Promise<Buffer> {
   if (format === 'pdf') {
     return generatePDF(bookId);
+  } else if (format === 'epub') {
+    return generateEPUB(bookId);
   } else {
     return generateDOCX(bookId);
   }
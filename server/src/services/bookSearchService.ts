@@ -0,0 +1,343 @@
+/**
+ * Book Search Service
+ * Marketplace full-text search over published books with facet counts
+ * and cursor pagination. Relevance comes from the MongoDB text index on
+ * Book (title, author name, tags, description, synopsis); Hebrew prefix
+ * handling is done by utils/searchText on both the index and the query.
+ */
+
+import mongoose, { PipelineStage } from 'mongoose';
+import { Book, buildBookSearchFields } from '../models/Book';
+import { User } from '../models/User';
+import { buildTextQuery } from '../utils/searchText';
+import { ValidationError } from '../utils/errors';
+
+export type BookSearchSort = 'relevance' | 'newest' | 'popular' | 'rating' | 'price-asc' | 'price-desc';
+
+export interface BookSearchParams {
+  q?: string;
+  genres?: string[];
+  category?: string;
+  languages?: string[];
+  ageRatings?: string[];
+  priceRanges?: string[];
+  minRating?: number;
+  sort?: BookSearchSort;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface BookSearchFacets {
+  genres: FacetCount[];
+  languages: FacetCount[];
+  ageRatings: FacetCount[];
+  priceRanges: FacetCount[];
+  ratings: FacetCount[]; // Cumulative: value "4" counts books rated 4 stars and up
+}
+
+export interface BookSearchResult {
+  books: any[];
+  facets: BookSearchFacets;
+  total: number;
+  nextCursor: string | null;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 24;
+export const MAX_SEARCH_LIMIT = 60;
+
+// Price ranges in USD, upper bound exclusive
+export const PRICE_RANGES: Record<string, { min: number; max?: number }> = {
+  free: { min: 0, max: 0.01 },
+  'under-5': { min: 0.01, max: 5 },
+  '5-10': { min: 5, max: 10 },
+  '10-20': { min: 10, max: 20 },
+  'over-20': { min: 20 },
+};
+
+const RATING_THRESHOLDS = [4, 3, 2, 1];
+
+type FacetName = 'genres' | 'languages' | 'ageRatings' | 'priceRanges' | 'ratings';
+
+// Sort key per sort option; '_id' breaks ties so cursors are stable
+const SORT_EXPRESSIONS: Record<Exclude<BookSearchSort, 'relevance'>, any> = {
+  newest: { $toLong: { $ifNull: ['$publishingStatus.publishedAt', '$createdAt'] } },
+  popular: { $ifNull: ['$statistics.purchases', 0] },
+  rating: { $ifNull: ['$statistics.averageRating', 0] },
+  'price-asc': { $ifNull: ['$publishingStatus.price', 0] },
+  'price-desc': { $ifNull: ['$publishingStatus.price', 0] },
+};
+
+const RESULT_PROJECTION = {
+  title: 1,
+  genre: 1,
+  description: 1,
+  coverDesign: 1,
+  publishingStatus: 1,
+  qualityScore: 1,
+  statistics: 1,
+  tags: 1,
+  language: 1,
+  ageRating: 1,
+  author: 1,
+  createdAt: 1,
+};
+
+// ============================================
+// CURSORS
+// ============================================
+
+interface SearchCursor {
+  v: number; // Sort key of the last book
+  id: string; // _id of the last book
+}
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): SearchCursor {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (typeof decoded.v !== 'number' || !mongoose.isValidObjectId(decoded.id)) {
+      throw new Error('malformed');
+    }
+    return decoded;
+  } catch {
+    throw new ValidationError('Invalid search cursor');
+  }
+}
+
+// ============================================
+// FILTERS
+// ============================================
+
+function priceRangeCondition(ranges: string[]): Record<string, any> | null {
+  const conditions = ranges
+    .filter((range) => PRICE_RANGES[range])
+    .map((range) => {
+      const { min, max } = PRICE_RANGES[range];
+      if (range === 'free') {
+        return { $or: [{ 'publishingStatus.isFree': true }, { 'publishingStatus.price': { $lt: max } }] };
+      }
+      return {
+        'publishingStatus.isFree': { $ne: true },
+        'publishingStatus.price': max === undefined ? { $gte: min } : { $gte: min, $lt: max },
+      };
+    });
+
+  return conditions.length > 0 ? { $or: conditions } : null;
+}
+
+/**
+ * Filter conditions keyed by facet, so each facet can be counted
+ * without its own selection (multi-select facets)
+ */
+function buildFacetFilters(params: BookSearchParams): Record<FacetName, Record<string, any> | null> {
+  return {
+    genres: params.genres?.length ? { genre: { $in: params.genres } } : null,
+    languages: params.languages?.length ? { language: { $in: params.languages } } : null,
+    ageRatings: params.ageRatings?.length ? { ageRating: { $in: params.ageRatings } } : null,
+    priceRanges: params.priceRanges?.length ? priceRangeCondition(params.priceRanges) : null,
+    ratings: params.minRating ? { 'statistics.averageRating': { $gte: params.minRating } } : null,
+  };
+}
+
+function combineFilters(filters: Array<Record<string, any> | null>): Record<string, any> {
+  const active = filters.filter((filter): filter is Record<string, any> => filter !== null);
+  return active.length > 0 ? { $and: active } : {};
+}
+
+// ============================================
+// FACETS
+// ============================================
+
+const PRICE_RANGE_BUCKET = {
+  $switch: {
+    branches: [
+      {
+        case: {
+          $or: [{ $eq: ['$publishingStatus.isFree', true] }, { $lt: ['$publishingStatus.price', PRICE_RANGES['under-5'].min] }],
+        },
+        then: 'free',
+      },
+      { case: { $lt: ['$publishingStatus.price', PRICE_RANGES['under-5'].max] }, then: 'under-5' },
+      { case: { $lt: ['$publishingStatus.price', PRICE_RANGES['5-10'].max] }, then: '5-10' },
+      { case: { $lt: ['$publishingStatus.price', PRICE_RANGES['10-20'].max] }, then: '10-20' },
+    ],
+    default: 'over-20',
+  },
+};
+
+function countBy(expression: any): PipelineStage.FacetPipelineStage[] {
+  return [
+    { $group: { _id: expression, count: { $sum: 1 } } },
+    { $match: { _id: { $ne: null } } },
+    { $sort: { count: -1, _id: 1 } },
+  ];
+}
+
+function toFacetCounts(buckets: Array<{ _id: any; count: number }> = []): FacetCount[] {
+  return buckets.map((bucket) => ({ value: String(bucket._id), count: bucket.count }));
+}
+
+// Star buckets -> cumulative "N stars & up" counts
+function toRatingCounts(buckets: Array<{ _id: number; count: number }> = []): FacetCount[] {
+  return RATING_THRESHOLDS.map((threshold) => ({
+    value: String(threshold),
+    count: buckets.filter((bucket) => bucket._id >= threshold).reduce((sum, bucket) => sum + bucket.count, 0),
+  }));
+}
+
+// ============================================
+// SEARCH
+// ============================================
+
+/**
+ * Search published books
+ */
+export async function searchBooks(params: BookSearchParams): Promise<BookSearchResult> {
+  const textQuery = params.q ? buildTextQuery(params.q) : '';
+  const sort: BookSearchSort =
+    params.sort === 'relevance' && !textQuery ? 'popular' : params.sort || (textQuery ? 'relevance' : 'newest');
+  const limit = Math.min(Math.max(params.limit || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const direction = sort === 'price-asc' ? 1 : -1;
+
+  // Base match: published books matching the text query and category
+  const baseMatch: Record<string, any> = {
+    'publishingStatus.status': 'published',
+    'publishingStatus.isPublic': true,
+  };
+  if (textQuery) {
+    baseMatch.$text = { $search: textQuery };
+  }
+  if (params.category) {
+    baseMatch['publishingStatus.marketingStrategy.categories'] = params.category;
+  }
+
+  const facetFilters = buildFacetFilters(params);
+  const allFilters = combineFilters(Object.values(facetFilters));
+  const filtersExcept = (facet: FacetName) =>
+    combineFilters((Object.keys(facetFilters) as FacetName[]).filter((name) => name !== facet).map((name) => facetFilters[name]));
+
+  // Cursor: books strictly after the last one in sort order
+  const cursorStages: PipelineStage.FacetPipelineStage[] = [];
+  if (params.cursor) {
+    const cursor = decodeCursor(params.cursor);
+    const after = direction === 1 ? '$gt' : '$lt';
+    cursorStages.push({
+      $match: {
+        $or: [
+          { _sortKey: { [after]: cursor.v } },
+          { _sortKey: cursor.v, _id: { [after]: new mongoose.Types.ObjectId(cursor.id) } },
+        ],
+      },
+    });
+  }
+
+  const pipeline: PipelineStage[] = [
+    { $match: baseMatch },
+    {
+      $addFields: {
+        _sortKey: sort === 'relevance' ? { $meta: 'textScore' } : SORT_EXPRESSIONS[sort],
+      },
+    },
+    {
+      $facet: {
+        results: [
+          { $match: allFilters },
+          ...cursorStages,
+          { $sort: { _sortKey: direction, _id: direction } },
+          { $limit: limit + 1 },
+          { $project: { ...RESULT_PROJECTION, _sortKey: 1 } },
+          {
+            $lookup: {
+              from: 'users',
+              localField: 'author',
+              foreignField: '_id',
+              pipeline: [{ $project: { name: 1 } }],
+              as: 'author',
+            },
+          },
+          { $unwind: { path: '$author', preserveNullAndEmptyArrays: true } },
+        ],
+        total: [{ $match: allFilters }, { $count: 'count' }],
+        genres: [{ $match: filtersExcept('genres') }, ...countBy('$genre')],
+        languages: [{ $match: filtersExcept('languages') }, ...countBy('$language')],
+        ageRatings: [{ $match: filtersExcept('ageRatings') }, ...countBy('$ageRating')],
+        priceRanges: [{ $match: filtersExcept('priceRanges') }, ...countBy(PRICE_RANGE_BUCKET)],
+        ratings: [{ $match: filtersExcept('ratings') }, ...countBy({ $floor: '$statistics.averageRating' })],
+      },
+    },
+  ];
+
+  const [result] = await Book.aggregate(pipeline);
+
+  const hasMore = result.results.length > limit;
+  const books = hasMore ? result.results.slice(0, limit) : result.results;
+  const last = books[books.length - 1];
+
+  return {
+    books: books.map(({ _sortKey, ...book }: any) => book),
+    facets: {
+      genres: toFacetCounts(result.genres),
+      languages: toFacetCounts(result.languages),
+      ageRatings: toFacetCounts(result.ageRatings),
+      priceRanges: toFacetCounts(result.priceRanges),
+      ratings: toRatingCounts(result.ratings),
+    },
+    total: result.total[0]?.count || 0,
+    nextCursor: hasMore && last ? encodeCursor({ v: last._sortKey, id: last._id.toString() }) : null,
+  };
+}
+
+// ============================================
+// INDEX MAINTENANCE
+// ============================================
+
+/**
+ * Recompute the search fields of books matching a filter, without
+ * touching updatedAt. Used after an author renames and to backfill
+ * books created before search existed.
+ */
+export async function reindexBookSearch(filter: Record<string, any>): Promise<number> {
+  const books = Book.find(filter)
+    .select('title description synopsis tags publishingStatus.marketingStrategy.tags author')
+    .lean()
+    .cursor();
+
+  const authorNames = new Map<string, string | undefined>();
+  let updated = 0;
+
+  for await (const book of books) {
+    const authorId = book.author.toString();
+    if (!authorNames.has(authorId)) {
+      const author = await User.findById(authorId).select('name').lean();
+      authorNames.set(authorId, author?.name);
+    }
+
+    await Book.updateOne(
+      { _id: book._id },
+      { $set: { search: buildBookSearchFields(book as any, authorNames.get(authorId)) } },
+      { timestamps: false }
+    );
+    updated++;
+  }
+
+  return updated;
+}
+
+/**
+ * Index books that have no search fields yet
+ */
+export async function backfillBookSearch(): Promise<void> {
+  const updated = await reindexBookSearch({ 'search.terms': { $exists: false } });
+
+  if (updated > 0) {
+    console.log(`✅ Indexed ${updated} books for marketplace search`);
+  }
+}
@@ -0,0 +1,67 @@
+import mongoose from 'mongoose';
+import { Book } from '../models/Book';
+import { ChapterRevision } from '../models/ChapterRevision';
+import { fake } from '../test/fixtures';
+import { recordChapterSuggestions } from './chapterRevisionService';
+
+const author = new mongoose.Types.ObjectId();
+const editor = new mongoose.Types.ObjectId().toString();
+
+const makeBookWithChapter = () =>
+  new Book({
+    title: 'Tides',
+    author,
+    chapters: [{ title: 'Landfall', content: '<p>The boat reached the shore at dawn.</p>', order: 0, wordCount: 7 }],
+  });
+
+describe('chapterRevisionService.recordChapterSuggestions', () => {
+  let inserted: Array<{ title: string; content: string; wordCount: number; source: string }>;
+
+  beforeEach(() => {
+    inserted = [];
+    fake(ChapterRevision, 'insertMany', async (docs: typeof inserted) => {
+      inserted.push(...docs);
+      return docs;
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('stores the proposed title and content as a suggestion', async () => {
+    const book = makeBookWithChapter();
+    const chapterId = book.chapters[0]._id!.toString();
+
+    const count = await recordChapterSuggestions(book, editor, [
+      { chapterId, title: 'Arrival', content: '<p>They landed.</p>' },
+    ]);
+
+    expect(count).toBe(1);
+    expect(inserted).toEqual([
+      expect.objectContaining({ title: 'Arrival', content: '<p>They landed.</p>', wordCount: 2, source: 'suggestion' }),
+    ]);
+  });
+
+  it('keeps the current text when only the title is suggested', async () => {
+    const book = makeBookWithChapter();
+    const chapterId = book.chapters[0]._id!.toString();
+
+    await recordChapterSuggestions(book, editor, [{ chapterId, title: 'Arrival' }]);
+
+    expect(inserted).toEqual([
+      expect.objectContaining({
+        title: 'Arrival',
+        content: '<p>The boat reached the shore at dawn.</p>',
+        wordCount: 7,
+      }),
+    ]);
+  });
+
+  it('skips chapters the book does not have', async () => {
+    const count = await recordChapterSuggestions(makeBookWithChapter(), editor, [
+      { chapterId: new mongoose.Types.ObjectId().toString(), content: '<p>Lost</p>' },
+    ]);
+
+    expect(count).toBe(0);
+    expect(inserted).toEqual([]);
+  });
+});
@@ -0,0 +1,390 @@
+/**
+ * Chapter Revision Service
+ * Snapshots chapter content on save, enforces per-tier retention,
+ * computes word-level diffs and restores earlier revisions
+ */
+
+import mongoose from 'mongoose';
+import { IBook } from '../models/Book';
+import { UserRole } from '../models/User';
+import { ChapterRevision, IChapterRevision } from '../models/ChapterRevision';
+
+// Number of revisions kept per chapter, by subscription tier
+export const REVISION_RETENTION: Record<UserRole, number> = {
+  [UserRole.FREE]: 10,
+  [UserRole.STANDARD]: 50,
+  [UserRole.PREMIUM]: 200,
+  [UserRole.ADMIN]: 200,
+};
+
+// Above this many edits the diff falls back to a whole-block replacement
+const MAX_EDIT_DISTANCE = 2000;
+
+export type DiffSegmentType = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+export interface RevisionDiff {
+  segments: DiffSegment[];
+  stats: {
+    wordsAdded: number;
+    wordsRemoved: number;
+  };
+}
+
+/**
+ * Convert chapter HTML to plain text, keeping block boundaries as line breaks
+ */
+function toPlainText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|h[1-6]|li|blockquote|div)>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Count words in chapter HTML
+ */
+export function countWords(html: string): number {
+  const text = toPlainText(html);
+  return text ? text.split(/\s+/).length : 0;
+}
+
+/**
+ * Get the retention limit for a user role
+ */
+export function getRevisionLimit(role: UserRole): number {
+  return REVISION_RETENTION[role] ?? REVISION_RETENTION[UserRole.FREE];
+}
+
+/**
+ * Delete the oldest revisions of a chapter beyond the retention limit
+ */
+async function pruneRevisions(
+  bookId: mongoose.Types.ObjectId | string,
+  chapterId: mongoose.Types.ObjectId | string,
+  limit: number
+): Promise<void> {
+  const stale = await ChapterRevision.find({ book: bookId, chapter: chapterId })
+    .sort({ createdAt: -1 })
+    .skip(limit)
+    .select('_id')
+    .lean();
+
+  if (stale.length > 0) {
+    await ChapterRevision.deleteMany({ _id: { $in: stale.map((rev) => rev._id) } });
+  }
+}
+
+/**
+ * Snapshot every chapter whose title or content differs from its latest revision.
+ * Called after each book save; unchanged chapters are skipped.
+ */
+export async function recordChapterRevisions(
+  book: IBook,
+  userId: string,
+  role: UserRole,
+  chapterIds?: string[]
+): Promise<number> {
+  const chapters = book.chapters.filter(
+    (ch) => ch._id && (!chapterIds || chapterIds.includes(ch._id.toString()))
+  );
+  if (chapters.length === 0) return 0;
+
+  // Latest revision per chapter in a single round trip
+  const latest: Array<{ _id: mongoose.Types.ObjectId; title: string; content: string }> =
+    await ChapterRevision.aggregate([
+      {
+        $match: {
+          book: book._id,
+          chapter: { $in: chapters.map((ch) => ch._id) },
+          source: { $ne: 'suggestion' }, // Proposals are not what the book contained
+        },
+      },
+      { $sort: { createdAt: -1 } },
+      { $group: { _id: '$chapter', title: { $first: '$title' }, content: { $first: '$content' } } },
+    ]);
+  const latestByChapter = new Map(latest.map((rev) => [rev._id.toString(), rev]));
+
+  const changed = chapters.filter((ch) => {
+    const previous = latestByChapter.get(ch._id!.toString());
+    return !previous || previous.content !== (ch.content || '') || previous.title !== ch.title;
+  });
+  if (changed.length === 0) return 0;
+
+  await ChapterRevision.insertMany(
+    changed.map((ch) => ({
+      book: book._id,
+      chapter: ch._id,
+      author: userId,
+      title: ch.title,
+      content: ch.content || '',
+      wordCount: ch.wordCount || countWords(ch.content || ''),
+      source: 'save',
+    }))
+  );
+
+  const limit = getRevisionLimit(role);
+  await Promise.all(changed.map((ch) => pruneRevisions(book._id as mongoose.Types.ObjectId, ch._id!, limit)));
+
+  return changed.length;
+}
+
+/**
+ * Snapshot the stored state of chapters that have no revision yet -
+ * chapters written before revision history existed, or imported ones.
+ * Call before an update replaces them; recordChapterRevisions only sees
+ * the new content once the book is saved.
+ */
+export async function seedChapterRevisions(
+  book: IBook,
+  userId: string,
+  role: UserRole,
+  chapterIds: string[]
+): Promise<number> {
+  if (chapterIds.length === 0) return 0;
+
+  const tracked: mongoose.Types.ObjectId[] = await ChapterRevision.distinct('chapter', {
+    book: book._id,
+    chapter: { $in: chapterIds.map((id) => new mongoose.Types.ObjectId(id)) },
+    source: { $ne: 'suggestion' },
+  });
+  const trackedIds = new Set(tracked.map((id) => id.toString()));
+
+  const untracked = chapterIds.filter((id) => !trackedIds.has(id));
+  if (untracked.length === 0) return 0;
+
+  return recordChapterRevisions(book, userId, role, untracked);
+}
+
+/**
+ * Store an editor's proposed chapter versions as suggestion revisions.
+ * The book itself is left untouched; the author accepts a suggestion by
+ * restoring it. Returns the number of chapters suggested.
+ */
+export async function recordChapterSuggestions(
+  book: IBook,
+  userId: string,
+  chapters: Array<{ chapterId: string; title?: string; content?: string }>
+): Promise<number> {
+  const stored = new Map(book.chapters.map((ch) => [ch._id?.toString(), ch]));
+
+  const suggestions = chapters
+    .filter(({ chapterId }) => stored.has(chapterId))
+    .map(({ chapterId, title, content }) => {
+      const chapter = stored.get(chapterId)!;
+      // A suggestion that only renames the chapter keeps its current text
+      const suggested = content ?? chapter.content ?? '';
+      return {
+        book: book._id,
+        chapter: chapter._id,
+        author: userId,
+        title: title ?? chapter.title,
+        content: suggested,
+        wordCount: countWords(suggested),
+        source: 'suggestion',
+      };
+    });
+
+  if (suggestions.length > 0) {
+    await ChapterRevision.insertMany(suggestions);
+  }
+  return suggestions.length;
+}
+
+/**
+ * Restore a revision into the book. If the chapter was deleted since,
+ * it is re-inserted at the end with its original id.
+ */
+export async function restoreChapterRevision(
+  book: IBook,
+  revision: IChapterRevision,
+  userId: string,
+  role: UserRole
+): Promise<IChapterRevision> {
+  const chapterId = revision.chapter.toString();
+
+  // Make sure the state being replaced is itself recoverable
+  await recordChapterRevisions(book, userId, role, [chapterId]);
+
+  const wordCount = revision.wordCount || countWords(revision.content);
+  const chapter = book.chapters.find((ch) => ch._id?.toString() === chapterId);
+
+  if (chapter) {
+    chapter.title = revision.title || chapter.title;
+    chapter.content = revision.content;
+    chapter.wordCount = wordCount;
+  } else {
+    book.chapters.push({
+      _id: revision.chapter,
+      title: revision.title || `Chapter ${book.chapters.length + 1}`,
+      content: revision.content,
+      order: book.chapters.length,
+      wordCount,
+      version: 1,
+    });
+  }
+
+  book.markModified('chapters');
+  await book.save();
+
+  const restored = await ChapterRevision.create({
+    book: book._id,
+    chapter: revision.chapter,
+    author: userId,
+    title: revision.title,
+    content: revision.content,
+    wordCount,
+    source: 'restore',
+    restoredFrom: revision._id,
+  });
+
+  await pruneRevisions(book._id as mongoose.Types.ObjectId, revision.chapter, getRevisionLimit(role));
+
+  return restored;
+}
+
+/**
+ * Myers shortest-edit-script over two token arrays
+ */
+function myersDiff(a: string[], b: string[]): DiffSegment[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 3).fill(0);
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, a, b);
+      }
+    }
+
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+}
+
+/**
+ * Walk the Myers trace back from (n, m) to build the edit script
+ */
+function backtrack(trace: number[][], a: string[], b: string[]): DiffSegment[] {
+  const ops: DiffSegment[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1];
+    const at = (k: number) => previous[k + d - 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push({ type: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (x === prevX) {
+      ops.push({ type: 'insert', text: b[y - 1] });
+    } else {
+      ops.push({ type: 'delete', text: a[x - 1] });
+    }
+
+    x = prevX;
+    y = prevY;
+  }
+
+  while (x > 0 && y > 0) {
+    ops.push({ type: 'equal', text: a[x - 1] });
+    x--;
+    y--;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Word-level diff between two chapter contents (HTML or plain text)
+ */
+export function diffWords(previousContent: string, nextContent: string): RevisionDiff {
+  const tokenize = (html: string) => toPlainText(html).match(/\s+|[^\s]+/g) || [];
+  const a = tokenize(previousContent);
+  const b = tokenize(nextContent);
+
+  // Trim the common prefix/suffix so the edit script only covers the changed region
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = myersDiff(middleA, middleB) || [
+    ...middleA.map((text): DiffSegment => ({ type: 'delete', text })),
+    ...middleB.map((text): DiffSegment => ({ type: 'insert', text })),
+  ];
+
+  const ops: DiffSegment[] = [
+    ...a.slice(0, start).map((text): DiffSegment => ({ type: 'equal', text })),
+    ...middle,
+    ...a.slice(endA).map((text): DiffSegment => ({ type: 'equal', text })),
+  ];
+
+  // Merge consecutive tokens of the same type into segments
+  const segments: DiffSegment[] = [];
+  let wordsAdded = 0;
+  let wordsRemoved = 0;
+
+  for (const op of ops) {
+    const isWord = op.text.trim().length > 0;
+    if (isWord && op.type === 'insert') wordsAdded++;
+    if (isWord && op.type === 'delete') wordsRemoved++;
+
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += op.text;
+    } else {
+      segments.push({ ...op });
+    }
+  }
+
+  return {
+    segments,
+    stats: { wordsAdded, wordsRemoved },
+  };
+}
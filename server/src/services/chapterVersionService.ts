@@ -0,0 +1,96 @@
+/**
+ * Chapter Version Service
+ * Optimistic concurrency for chapter saves. Every chapter carries a
+ * version that changes with its title or content; a save states the
+ * version it was based on, and is refused for chapters that changed on
+ * the server in the meantime (another device, a co-author, a restore).
+ */
+
+import { IBook, IChapter } from '../models/Book';
+
+type IncomingChapter = Partial<IChapter> & { _id?: any };
+
+// The server's copy of a chapter the client is out of date on
+export interface ChapterConflict {
+  chapterId: string;
+  baseVersion: number; // What the client edited
+  chapter: {
+    title: string;
+    content: string;
+    wordCount: number;
+    version: number;
+    updatedAt?: Date;
+  };
+}
+
+function differs(incoming: IncomingChapter, stored: IChapter): boolean {
+  return (incoming.content ?? '') !== (stored.content || '') || (incoming.title ?? stored.title) !== stored.title;
+}
+
+/**
+ * Chapters the save would overwrite although they changed since the
+ * client loaded them. Chapters sent without a version (older clients)
+ * and chapters the client left as they are never conflict.
+ */
+export function findChapterConflicts(book: IBook, incoming: IncomingChapter[]): ChapterConflict[] {
+  const stored = new Map(book.chapters.map((chapter) => [chapter._id?.toString(), chapter]));
+  const conflicts: ChapterConflict[] = [];
+
+  for (const chapter of incoming) {
+    const previous = chapter._id ? stored.get(String(chapter._id)) : undefined;
+    if (!previous || typeof chapter.version !== 'number') continue;
+
+    if (chapter.version !== previous.version && differs(chapter, previous)) {
+      conflicts.push({
+        chapterId: previous._id!.toString(),
+        baseVersion: chapter.version,
+        chapter: {
+          title: previous.title,
+          content: previous.content,
+          wordCount: previous.wordCount,
+          version: previous.version,
+          updatedAt: previous.updatedAt,
+        },
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Number the chapters of a save: changed chapters move to the next
+ * version, unchanged ones keep theirs, new ones start at 1
+ */
+export function assignChapterVersions(book: IBook, incoming: IncomingChapter[]): IncomingChapter[] {
+  const stored = new Map(book.chapters.map((chapter) => [chapter._id?.toString(), chapter]));
+
+  return incoming.map((chapter) => {
+    const previous = chapter._id ? stored.get(String(chapter._id)) : undefined;
+    if (!previous) return { ...chapter, version: 1 };
+
+    return { ...chapter, version: differs(chapter, previous) ? previous.version + 1 : previous.version };
+  });
+}
+
+/**
+ * Filter that holds a save to the chapter versions it was checked
+ * against. Set as the book's $where before saving: if another save
+ * changed or removed a chapter in between, the write matches nothing
+ * and fails instead of overwriting it.
+ */
+export function chapterVersionGuard(book: IBook): Record<string, unknown> {
+  if (book.chapters.length === 0) return {};
+
+  return {
+    chapters: {
+      $all: book.chapters.map((chapter) => ({
+        $elemMatch: {
+          _id: chapter._id,
+          // Chapters stored before versions existed have none saved
+          version: chapter.version === 1 ? { $in: [1, null] } : chapter.version,
+        },
+      })),
+    },
+  };
+}
@@ -4,25 +4,9 @@
  * Covers 8 pillars: theme, characters, conflict, climax, resolution, setting, keyPoints, narrativeArc
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { z } from 'zod';
 import crypto from 'crypto';
-
-// Lazy-initialize Gemini AI client
-let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
-
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
+import { generateJSON, generateText } from './llmService';
 
 // 8 Interview Topics
 export type ChatInterviewTopic =
@@ -149,6 +133,20 @@ export interface ChatInterviewSummary {
   narrativeArc: string;
 }
 
+// Expected AI summary response; list answers are joined into one field
+const summaryField = z.union([z.string(), z.array(z.string()).transform((items) => items.join('\n'))]);
+
+const chatInterviewSummarySchema = z.object({
+  theme: summaryField,
+  characters: summaryField,
+  conflict: summaryField,
+  climax: summaryField,
+  resolution: summaryField,
+  setting: summaryField,
+  keyPoints: summaryField,
+  narrativeArc: summaryField,
+});
+
 // Supported languages
 export type InterviewLanguage = 'en' | 'he';
 
@@ -354,11 +352,9 @@ ${messagesByTopic.narrativeArc.join('\n') || 'לא צוין'}
   },
 };
 
-// In-memory storage for interview states (use Redis in production)
-const interviewStates = new Map<string, ChatInterviewState>();
-
 /**
- * Create a new interview
+ * Create a new interview state
+ * Persistence is handled by interviewSessionService
  */
 export function createInterview(
   genre?: string,
@@ -389,24 +385,9 @@ export function createInterview(
     language,
   };
 
-  interviewStates.set(id, state);
   return state;
 }
 
-/**
- * Get interview state by ID
- */
-export function getInterview(id: string): ChatInterviewState | undefined {
-  return interviewStates.get(id);
-}
-
-/**
- * Delete interview
- */
-export function deleteInterview(id: string): void {
-  interviewStates.delete(id);
-}
-
 /**
  * Generate the first AI message
  */
@@ -418,8 +399,7 @@ export async function generateFirstMessage(
   const prompt = prompts.firstMessage(state.genre || '');
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const content = result.response.text().trim();
+    const content = await generateText({ task: 'interview.chat.first-message', prompt });
 
     const message: ChatMessage = {
       id: crypto.randomUUID(),
@@ -431,7 +411,6 @@ export async function generateFirstMessage(
 
     state.messages.push(message);
     state.questionsPerTopic.theme++;
-    interviewStates.set(state.id, state);
 
     return message;
   } catch (error) {
@@ -448,7 +427,6 @@ export async function generateFirstMessage(
 
     state.messages.push(message);
     state.questionsPerTopic.theme++;
-    interviewStates.set(state.id, state);
 
     return message;
   }
@@ -525,8 +503,7 @@ export async function processUserMessage(
   );
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const content = result.response.text().trim();
+    const content = await generateText({ task: 'interview.chat.message', prompt });
 
     const aiMessage: ChatMessage = {
       id: crypto.randomUUID(),
@@ -540,7 +517,6 @@ export async function processUserMessage(
     if (!state.isComplete) {
       state.questionsPerTopic[nextTopic]++;
     }
-    interviewStates.set(state.id, state);
 
     return { state, aiMessage, topicTransition };
   } catch (error) {
@@ -563,7 +539,6 @@ export async function processUserMessage(
     if (!state.isComplete) {
       state.questionsPerTopic[nextTopic]++;
     }
-    interviewStates.set(state.id, state);
 
     return { state, aiMessage, topicTransition };
   }
@@ -630,13 +605,11 @@ export async function generateSummary(
   const prompt = prompts.summaryPrompt(messagesByTopic);
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const text = result.response.text().trim();
-
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]) as ChatInterviewSummary;
-    }
+    return await generateJSON({
+      task: 'interview.chat.summary',
+      prompt,
+      schema: chatInterviewSummarySchema,
+    });
   } catch (error) {
     console.error('Error generating summary:', error);
   }
@@ -0,0 +1,415 @@
+/**
+ * Collaboration Service
+ * Book teams: invitations with accept/decline, roles and chapter
+ * assignments, and revenue shares split out of the author's earnings.
+ *
+ * Who may call what is decided by the book access policy ('manage' for
+ * the team, 'edit' for writing). This service only enforces the rules of
+ * the team itself.
+ */
+
+import mongoose from 'mongoose';
+import { Book, IBook, IChapter, ICollaborator, CollaboratorRole } from '../models/Book';
+import { User } from '../models/User';
+import { createNotification } from './notificationService';
+import { sendCollaborationInviteEmail } from './emailService';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['co-author', 'editor', 'beta-reader'];
+
+// Fields a co-author may change through updateBook; the rest stays with the author
+export const CO_AUTHOR_UPDATES = ['chapters', 'characters', 'plotStructure', 'synopsis'];
+
+export interface InviteCollaboratorInput {
+  email: string;
+  role: CollaboratorRole;
+  chapters?: string[];
+  revenueShare?: number;
+}
+
+export interface UpdateCollaboratorInput {
+  role?: CollaboratorRole;
+  chapters?: string[];
+  revenueShare?: number;
+}
+
+export interface RevenueSplit {
+  userId: string;
+  amount: number;
+  revenueShare: number; // Percentage of the author's share
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function findBook(bookId: string): Promise<IBook> {
+  const book = await Book.findById(bookId);
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+  return book;
+}
+
+function findMember(book: IBook, collaboratorId: string): ICollaborator {
+  const collaborator = book.collaborators.find((c) => c._id?.toString() === collaboratorId);
+  if (!collaborator) {
+    throw new NotFoundError('Collaborator not found');
+  }
+  return collaborator;
+}
+
+/**
+ * Validate chapter ids against the book
+ */
+function toChapterIds(book: IBook, chapterIds: string[] = []): mongoose.Types.ObjectId[] {
+  const known = new Set(book.chapters.map((ch) => ch._id?.toString()));
+  const unknown = chapterIds.filter((id) => !known.has(id));
+  if (unknown.length > 0) {
+    throw new ValidationError('Assigned chapters must belong to this book');
+  }
+  return [...new Set(chapterIds)].map((id) => new mongoose.Types.ObjectId(id));
+}
+
+/**
+ * Shares are taken out of the author's cut, so together they may not exceed it
+ */
+function assertRevenueShares(book: IBook, changing?: ICollaborator, nextShare = 0): void {
+  const total = book.collaborators
+    .filter((c) => c !== changing && c.status !== 'declined')
+    .reduce((sum, c) => sum + (c.revenueShare || 0), nextShare);
+
+  if (total > 100) {
+    throw new ValidationError('Revenue shares of all collaborators cannot exceed 100%');
+  }
+}
+
+function toResponse(collaborator: ICollaborator & { user: any }) {
+  const user = collaborator.user;
+  const populated = user && typeof user === 'object' && 'name' in user;
+
+  return {
+    id: collaborator._id,
+    user: populated
+      ? { id: user._id, name: user.name, email: user.email, avatar: user.profile?.avatar }
+      : { id: user },
+    role: collaborator.role,
+    status: collaborator.status,
+    chapters: collaborator.chapters,
+    revenueShare: collaborator.revenueShare,
+    invitedAt: collaborator.invitedAt,
+    respondedAt: collaborator.respondedAt,
+  };
+}
+
+// ============================================
+// PERMISSIONS
+// ============================================
+
+/**
+ * The user's accepted collaborator entry on a book
+ */
+export function getCollaboration(
+  book: { collaborators?: ICollaborator[] },
+  userId: string
+): ICollaborator | undefined {
+  return book.collaborators?.find((c) => c.user.toString() === userId && c.status === 'accepted');
+}
+
+/**
+ * Can this collaborator change the given chapter? An empty assignment
+ * covers the whole book.
+ */
+export function isChapterAssigned(collaborator: ICollaborator, chapterId?: string): boolean {
+  if (collaborator.chapters.length === 0) return true;
+  return !!chapterId && collaborator.chapters.some((id) => id.toString() === chapterId);
+}
+
+/**
+ * Chapters in an update that differ from the stored book. New chapters
+ * (no id) are reported with chapterId undefined, removed ones as well.
+ */
+export function findChangedChapters(
+  book: IBook,
+  incoming: Array<Partial<IChapter> & { _id?: any }>
+): Array<{ chapterId?: string; chapter?: Partial<IChapter> }> {
+  const stored = new Map(book.chapters.map((ch) => [ch._id?.toString(), ch]));
+  const seen = new Set<string>();
+  const changed: Array<{ chapterId?: string; chapter?: Partial<IChapter> }> = [];
+
+  for (const chapter of incoming) {
+    const chapterId = chapter._id ? String(chapter._id) : undefined;
+    const previous = chapterId ? stored.get(chapterId) : undefined;
+
+    if (!chapterId || !previous) {
+      changed.push({ chapterId: undefined, chapter });
+      continue;
+    }
+
+    seen.add(chapterId);
+    if (
+      (chapter.content ?? '') !== (previous.content || '') ||
+      (chapter.title ?? previous.title) !== previous.title ||
+      (chapter.order ?? previous.order) !== previous.order
+    ) {
+      changed.push({ chapterId, chapter });
+    }
+  }
+
+  for (const [chapterId] of stored) {
+    if (chapterId && !seen.has(chapterId)) {
+      changed.push({ chapterId });
+    }
+  }
+
+  return changed;
+}
+
+// ============================================
+// TEAM
+// ============================================
+
+/**
+ * List a book's collaborators with their user details
+ */
+export async function listCollaborators(bookId: string) {
+  const book = await Book.findById(bookId)
+    .select('author collaborators')
+    .populate('collaborators.user', 'name email profile.avatar')
+    .lean();
+
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+
+  return book.collaborators.map((c) => toResponse(c as ICollaborator & { user: any }));
+}
+
+/**
+ * Invite a registered user to the book by email
+ */
+export async function inviteCollaborator(ownerId: string, bookId: string, input: InviteCollaboratorInput) {
+  if (!COLLABORATOR_ROLES.includes(input.role)) {
+    throw new ValidationError('Invalid collaborator role');
+  }
+
+  const [book, owner, invitee] = await Promise.all([
+    findBook(bookId),
+    User.findById(ownerId).select('name'),
+    User.findOne({ email: input.email.toLowerCase().trim() }).select('name email'),
+  ]);
+
+  if (!invitee) {
+    throw new NotFoundError('No MeStory account uses this email address');
+  }
+  if (invitee._id.toString() === book.author.toString()) {
+    throw new ValidationError('You cannot invite yourself');
+  }
+
+  const revenueShare = input.role === 'beta-reader' ? 0 : input.revenueShare || 0;
+  const chapters = toChapterIds(book, input.chapters);
+
+  // A declined invitation can be sent again; anything else is a duplicate
+  let collaborator = book.collaborators.find((c) => c.user.toString() === invitee._id.toString());
+  if (collaborator && collaborator.status !== 'declined') {
+    throw new ConflictError('This user is already on the team');
+  }
+
+  assertRevenueShares(book, collaborator, revenueShare);
+
+  if (collaborator) {
+    collaborator.role = input.role;
+    collaborator.status = 'pending';
+    collaborator.chapters = chapters;
+    collaborator.revenueShare = revenueShare;
+    collaborator.invitedBy = new mongoose.Types.ObjectId(ownerId);
+    collaborator.invitedAt = new Date();
+    collaborator.respondedAt = undefined;
+  } else {
+    book.collaborators.push({
+      user: invitee._id as mongoose.Types.ObjectId,
+      role: input.role,
+      status: 'pending',
+      chapters,
+      revenueShare,
+      invitedBy: new mongoose.Types.ObjectId(ownerId),
+      invitedAt: new Date(),
+    });
+    collaborator = book.collaborators[book.collaborators.length - 1];
+  }
+
+  book.markModified('collaborators');
+  await book.save();
+
+  const inviterName = owner?.name || 'An author';
+
+  createNotification({
+    recipientId: invitee._id.toString(),
+    senderId: ownerId,
+    type: 'collaboration',
+    title: 'Collaboration invitation',
+    message: `${inviterName} invited you to join "${book.title}" as ${input.role}`,
+    data: {
+      bookId: book._id as mongoose.Types.ObjectId,
+      bookTitle: book.title,
+      role: input.role,
+      link: '/dashboard',
+    },
+  }).catch((err) => console.error('Failed to send collaboration notification:', err));
+
+  sendCollaborationInviteEmail(invitee.email, invitee.name, inviterName, book.title, input.role).catch((err) =>
+    console.error('Failed to send collaboration email:', err)
+  );
+
+  return toResponse({ ...(collaborator as any).toObject(), user: invitee });
+}
+
+/**
+ * Change a collaborator's role, chapter assignment or revenue share
+ */
+export async function updateCollaborator(bookId: string, collaboratorId: string, input: UpdateCollaboratorInput) {
+  const book = await findBook(bookId);
+  const collaborator = findMember(book, collaboratorId);
+
+  if (input.role !== undefined) {
+    if (!COLLABORATOR_ROLES.includes(input.role)) {
+      throw new ValidationError('Invalid collaborator role');
+    }
+    collaborator.role = input.role;
+  }
+  if (input.chapters !== undefined) {
+    collaborator.chapters = toChapterIds(book, input.chapters);
+  }
+  if (input.revenueShare !== undefined) {
+    assertRevenueShares(book, collaborator, input.revenueShare);
+    collaborator.revenueShare = input.revenueShare;
+  }
+  if (collaborator.role === 'beta-reader') {
+    collaborator.revenueShare = 0;
+  }
+
+  book.markModified('collaborators');
+  await book.save();
+
+  return toResponse(collaborator as ICollaborator & { user: any });
+}
+
+/**
+ * Remove a collaborator. The author removes anyone; a collaborator may
+ * only remove themselves (leave the book).
+ */
+export async function removeCollaborator(userId: string, bookId: string, collaboratorId: string): Promise<void> {
+  const book = await findBook(bookId);
+  const collaborator = findMember(book, collaboratorId);
+
+  const isAuthor = book.author.toString() === userId;
+  if (!isAuthor && collaborator.user.toString() !== userId) {
+    throw new AuthorizationError('Only the author can remove other collaborators');
+  }
+
+  book.collaborators = book.collaborators.filter((c) => c !== collaborator);
+  book.markModified('collaborators');
+  await book.save();
+
+  if (!isAuthor) {
+    const member = await User.findById(userId).select('name');
+    createNotification({
+      recipientId: book.author.toString(),
+      senderId: userId,
+      type: 'collaboration',
+      title: 'Collaborator left',
+      message: `${member?.name || 'A collaborator'} left "${book.title}"`,
+      data: { bookId: book._id as mongoose.Types.ObjectId, bookTitle: book.title },
+    }).catch((err) => console.error('Failed to send collaboration notification:', err));
+  }
+}
+
+/**
+ * Accept or decline a pending invitation
+ */
+export async function respondToInvitation(userId: string, bookId: string, accept: boolean) {
+  const book = await findBook(bookId);
+
+  const collaborator = book.collaborators.find((c) => c.user.toString() === userId && c.status === 'pending');
+  if (!collaborator) {
+    throw new NotFoundError('Invitation not found');
+  }
+
+  collaborator.status = accept ? 'accepted' : 'declined';
+  collaborator.respondedAt = new Date();
+  book.markModified('collaborators');
+  await book.save();
+
+  const member = await User.findById(userId).select('name');
+  createNotification({
+    recipientId: book.author.toString(),
+    senderId: userId,
+    type: 'collaboration',
+    title: accept ? 'Invitation accepted' : 'Invitation declined',
+    message: `${member?.name || 'A user'} ${accept ? 'joined' : 'declined to join'} "${book.title}" as ${collaborator.role}`,
+    data: { bookId: book._id as mongoose.Types.ObjectId, bookTitle: book.title, link: `/editor/${book._id}` },
+  }).catch((err) => console.error('Failed to send collaboration notification:', err));
+
+  return toResponse(collaborator as ICollaborator & { user: any });
+}
+
+/**
+ * Books the user was invited to or collaborates on
+ */
+export async function getUserCollaborations(userId: string) {
+  const books = await Book.find({
+    collaborators: { $elemMatch: { user: userId, status: { $in: ['pending', 'accepted'] } } },
+  })
+    .select('title genre author coverDesign.front.imageUrl publishingStatus.status statistics.wordCount collaborators updatedAt')
+    .populate('author', 'name')
+    .sort({ updatedAt: -1 })
+    .lean();
+
+  return books.map((book) => {
+    const collaborator = book.collaborators.find((c) => c.user.toString() === userId)!;
+    const author = book.author as any;
+
+    return {
+      bookId: book._id,
+      title: book.title,
+      genre: book.genre,
+      author: { id: author?._id, name: author?.name },
+      coverImage: book.coverDesign?.front?.imageUrl,
+      status: book.publishingStatus?.status,
+      wordCount: book.statistics?.wordCount || 0,
+      collaborator: toResponse(collaborator as ICollaborator & { user: any }),
+      updatedAt: book.updatedAt,
+    };
+  });
+}
+
+// ============================================
+// REVENUE
+// ============================================
+
+/**
+ * Split the author's share of a sale between the author and collaborators
+ * with a revenue share. Amounts are rounded to cents and the author gets
+ * the remainder, so the parts always add up to authorShare.
+ */
+export function splitAuthorShare(book: IBook, authorShare: number): RevenueSplit[] {
+  const members = (book.collaborators || []).filter((c) => c.status === 'accepted' && c.revenueShare > 0);
+
+  const splits: RevenueSplit[] = members.map((c) => ({
+    userId: c.user.toString(),
+    amount: Math.floor(Math.round(authorShare * c.revenueShare * 100) / 100) / 100,
+    revenueShare: c.revenueShare,
+  }));
+
+  const distributed = splits.reduce((sum, split) => sum + split.amount, 0);
+  const authorPercentage = 100 - members.reduce((sum, c) => sum + c.revenueShare, 0);
+
+  return [
+    {
+      userId: book.author.toString(),
+      amount: Math.round((authorShare - distributed) * 100) / 100,
+      revenueShare: Math.round(authorPercentage * 100) / 100,
+    },
+    ...splits,
+  ];
+}
@@ -0,0 +1,477 @@
+/**
+ * Comment Thread Service
+ * Comments and suggested edits on chapter drafts. Anchors use the same
+ * text offsets as reader annotations (see annotationService), so threads
+ * follow their passage while the chapter is edited. Accepting a
+ * suggestion writes it into the chapter HTML.
+ */
+
+import { Book, IBook, IChapter } from '../models/Book';
+import { UserRole } from '../models/User';
+import { CommentThread, ICommentThread, CommentThreadKind, SuggestionType } from '../models/CommentThread';
+import { IAnnotationAnchor } from '../models/ReaderAnnotation';
+import { buildAnchor, resolveAnchor, toTextContent } from './annotationService';
+import { countWords, recordChapterRevisions } from './chapterRevisionService';
+import { getCollaboration, isChapterAssigned } from './collaborationService';
+import { notifyCommentThread, CommentThreadEvent } from './notificationService';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export interface CreateThreadInput {
+  kind: CommentThreadKind;
+  startOffset: number;
+  endOffset: number;
+  exact?: string; // The selected text as the client saw it
+  body?: string; // Opening message; required for comments
+  text?: string; // Suggested text; empty suggests deleting the range
+}
+
+const THREAD_USER_FIELDS = 'name profile.avatar';
+
+// Tags, entities, runs of plain text and stray '<' or '&', in document order
+const HTML_TOKEN = /<[^>]*>|&(?:#x[0-9a-f]+|#\d+|[a-z]+);|[^<&]+|[<&]/gi;
+
+// ============================================
+// TEXT
+// ============================================
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Replace a range of a chapter's text content (offsets as in
+ * toTextContent) with plain text, leaving the markup around it intact.
+ * A range spanning several paragraphs loses its text but keeps the tags.
+ */
+export function replaceTextRange(html: string, startOffset: number, endOffset: number, text: string): string {
+  const insertion = escapeHtml(text);
+  let output = '';
+  let position = 0;
+  let inserted = false;
+
+  for (const [token] of (html || '').matchAll(HTML_TOKEN)) {
+    if (token[0] === '<' && token.length > 1) {
+      output += token;
+      continue;
+    }
+
+    const length = toTextContent(token).length;
+    const segmentStart = position;
+    const segmentEnd = position + length;
+    position = segmentEnd;
+
+    // A pure insertion at a boundary joins the text before it; a replaced
+    // range starts in the segment holding its first character
+    const insertHere =
+      !inserted &&
+      segmentStart <= startOffset &&
+      (startOffset < segmentEnd || (startOffset === segmentEnd && startOffset === endOffset));
+    if (insertHere) inserted = true;
+
+    if (token[0] === '&' && token.length > 1) {
+      // Entities are a single character; keep them whole
+      const removed = startOffset < endOffset && segmentStart >= startOffset && segmentEnd <= endOffset;
+      const before = insertHere && startOffset === segmentStart;
+      output += (before ? insertion : '') + (removed ? '' : token) + (insertHere && !before ? insertion : '');
+      continue;
+    }
+
+    const cutFrom = Math.min(Math.max(startOffset - segmentStart, 0), length);
+    const cutTo = Math.min(Math.max(endOffset - segmentStart, 0), length);
+    output += token.slice(0, cutFrom) + (insertHere ? insertion : '') + token.slice(Math.max(cutFrom, cutTo));
+  }
+
+  // Empty chapter: the text becomes its first paragraph
+  if (!inserted && insertion) {
+    output += `<p>${insertion}</p>`;
+  }
+
+  return output;
+}
+
+/**
+ * Current offsets of a thread's anchor, or null when its text is gone.
+ * Insertion points quote no text, so they follow the text before them.
+ */
+function locateAnchor(text: string, anchor: IAnnotationAnchor): { startOffset: number; endOffset: number } | null {
+  if (!anchor.exact && anchor.prefix) {
+    const found = resolveAnchor(text, {
+      startOffset: anchor.startOffset - anchor.prefix.length,
+      endOffset: anchor.startOffset,
+      exact: anchor.prefix,
+      prefix: '',
+      suffix: '',
+    });
+    return found && { startOffset: found.endOffset, endOffset: found.endOffset };
+  }
+
+  return resolveAnchor(text, anchor);
+}
+
+// ============================================
+// LOADING & PERMISSIONS
+// ============================================
+
+async function loadChapter(bookId: string, chapterId: string): Promise<{ book: IBook; chapter: IChapter; text: string }> {
+  const book = await Book.findById(bookId);
+
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+
+  const chapter = book.chapters.find((ch) => ch._id?.toString() === chapterId);
+  if (!chapter) {
+    throw new NotFoundError('Chapter not found');
+  }
+
+  return { book, chapter, text: toTextContent(chapter.content) };
+}
+
+async function findThread(bookId: string, chapterId: string, threadId: string): Promise<ICommentThread> {
+  const thread = await CommentThread.findOne({ _id: threadId, book: bookId, chapter: chapterId });
+
+  if (!thread) {
+    throw new NotFoundError('Comment thread not found');
+  }
+  return thread;
+}
+
+/**
+ * Accepting and rejecting suggestions changes the chapter, so it takes
+ * the author or a co-author assigned to it. Editors only suggest.
+ */
+function canDecide(book: IBook, userId: string, chapterId: string): boolean {
+  if (book.author.toString() === userId) return true;
+
+  const collaborator = getCollaboration(book, userId);
+  return collaborator?.role === 'co-author' && isChapterAssigned(collaborator, chapterId);
+}
+
+function populateThread(thread: ICommentThread): Promise<ICommentThread> {
+  return thread.populate([
+    { path: 'author', select: THREAD_USER_FIELDS },
+    { path: 'messages.author', select: THREAD_USER_FIELDS },
+  ]);
+}
+
+/**
+ * Re-anchor open threads against the current chapter text, persisting
+ * moved offsets and orphan state. Settled suggestions keep their anchor.
+ */
+async function reanchor(threads: ICommentThread[], text: string): Promise<void> {
+  const updates: any[] = [];
+
+  for (const thread of threads) {
+    if (thread.status === 'accepted' || thread.status === 'rejected') continue;
+
+    const resolved = locateAnchor(text, thread.anchor);
+
+    if (!resolved) {
+      if (!thread.isOrphaned) {
+        thread.isOrphaned = true;
+        updates.push({ updateOne: { filter: { _id: thread._id }, update: { $set: { isOrphaned: true } } } });
+      }
+      continue;
+    }
+
+    const moved =
+      resolved.startOffset !== thread.anchor.startOffset || resolved.endOffset !== thread.anchor.endOffset;
+
+    if (moved || thread.isOrphaned) {
+      thread.anchor = buildAnchor(text, resolved.startOffset, resolved.endOffset);
+      thread.isOrphaned = false;
+      updates.push({
+        updateOne: {
+          filter: { _id: thread._id },
+          update: { $set: { anchor: thread.anchor, isOrphaned: false } },
+        },
+      });
+    }
+  }
+
+  if (updates.length > 0) {
+    await CommentThread.bulkWrite(updates);
+  }
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+// Everyone who wrote in the thread, plus the book's author
+function participantsOf(book: IBook, thread: ICommentThread): string[] {
+  return [
+    book.author.toString(),
+    thread.author.toString(),
+    ...thread.messages.map((message) => message.author.toString()),
+  ];
+}
+
+/**
+ * A collaborator's new thread goes to the author; the author's goes to
+ * the co-authors and editors working on that chapter
+ */
+function newThreadRecipients(book: IBook, userId: string, chapterId: string): string[] {
+  if (book.author.toString() !== userId) return [book.author.toString()];
+
+  return book.collaborators
+    .filter((c) => c.status === 'accepted' && c.role !== 'beta-reader' && isChapterAssigned(c, chapterId))
+    .map((c) => c.user.toString());
+}
+
+function notify(book: IBook, userId: string, recipients: string[], event: CommentThreadEvent, chapter: IChapter): void {
+  notifyCommentThread(book._id!.toString(), userId, recipients, event, chapter.title).catch((err) =>
+    console.error('Failed to send comment thread notification:', err)
+  );
+}
+
+// ============================================
+// THREADS
+// ============================================
+
+/**
+ * All threads on a chapter, oldest first, re-anchored to its current text
+ */
+export async function listThreads(bookId: string, chapterId: string): Promise<ICommentThread[]> {
+  const { text } = await loadChapter(bookId, chapterId);
+
+  const threads = await CommentThread.find({ book: bookId, chapter: chapterId }).sort({ createdAt: 1 });
+  await reanchor(threads, text);
+
+  return CommentThread.populate(threads, [
+    { path: 'author', select: THREAD_USER_FIELDS },
+    { path: 'messages.author', select: THREAD_USER_FIELDS },
+  ]);
+}
+
+/**
+ * Open a comment thread or suggest an edit. The client's offsets are
+ * checked against the chapter text, as for reader annotations.
+ */
+export async function createThread(
+  userId: string,
+  bookId: string,
+  chapterId: string,
+  input: CreateThreadInput
+): Promise<ICommentThread> {
+  const { book, chapter, text } = await loadChapter(bookId, chapterId);
+
+  const { startOffset, endOffset } = input;
+  if (startOffset < 0 || endOffset < startOffset || endOffset > text.length) {
+    throw new ValidationError('The selection is outside the chapter text');
+  }
+
+  const body = input.body?.trim() || '';
+  const suggestedText = input.text ?? '';
+
+  if (input.kind === 'comment') {
+    if (startOffset === endOffset) {
+      throw new ValidationError('Select some text to comment on');
+    }
+    if (!body) {
+      throw new ValidationError('Comment text is required');
+    }
+  } else if (startOffset === endOffset && !suggestedText) {
+    throw new ValidationError('Enter the text to insert');
+  }
+
+  // The client's view of the chapter may be stale (someone saved since)
+  let position: { startOffset: number; endOffset: number } | null = { startOffset, endOffset };
+  if (input.exact !== undefined && text.slice(startOffset, endOffset) !== input.exact) {
+    position = input.exact
+      ? resolveAnchor(text, { startOffset, endOffset, exact: input.exact, prefix: '', suffix: '' })
+      : null;
+  }
+  if (!position) {
+    throw new ValidationError('The selected text was not found in the chapter');
+  }
+
+  const anchor = buildAnchor(text, position.startOffset, position.endOffset);
+
+  let suggestion: { type: SuggestionType; text: string } | undefined;
+  if (input.kind === 'suggestion') {
+    if (anchor.exact === suggestedText) {
+      throw new ValidationError('The suggestion does not change the text');
+    }
+    const type: SuggestionType = !anchor.exact ? 'insert' : suggestedText ? 'replace' : 'delete';
+    suggestion = { type, text: suggestedText };
+  }
+
+  const thread = await CommentThread.create({
+    book: book._id,
+    chapter: chapter._id,
+    author: userId,
+    kind: input.kind,
+    anchor,
+    suggestion,
+    messages: body ? [{ author: userId, body }] : [],
+  });
+
+  notify(book, userId, newThreadRecipients(book, userId, chapterId), input.kind, chapter);
+
+  return populateThread(thread);
+}
+
+/**
+ * Add a message to a thread. Replying to a resolved comment reopens it.
+ */
+export async function replyToThread(
+  userId: string,
+  bookId: string,
+  chapterId: string,
+  threadId: string,
+  body: string
+): Promise<ICommentThread> {
+  const { book, chapter } = await loadChapter(bookId, chapterId);
+  const thread = await findThread(bookId, chapterId, threadId);
+
+  thread.messages.push({ author: userId as any, body: body.trim(), createdAt: new Date() });
+
+  if (thread.status === 'resolved') {
+    thread.status = 'open';
+    thread.resolvedBy = undefined;
+    thread.resolvedAt = undefined;
+  }
+
+  await thread.save();
+
+  notify(book, userId, participantsOf(book, thread), 'reply', chapter);
+
+  return populateThread(thread);
+}
+
+/**
+ * Resolve or reopen a comment. The thread's author, the book's author
+ * and co-authors on the chapter may do so.
+ */
+export async function setThreadResolved(
+  userId: string,
+  bookId: string,
+  chapterId: string,
+  threadId: string,
+  resolved: boolean
+): Promise<ICommentThread> {
+  const { book, chapter } = await loadChapter(bookId, chapterId);
+  const thread = await findThread(bookId, chapterId, threadId);
+
+  if (thread.kind !== 'comment') {
+    throw new ValidationError('Suggestions are accepted or rejected, not resolved');
+  }
+  if (thread.author.toString() !== userId && !canDecide(book, userId, chapterId)) {
+    throw new AuthorizationError('You cannot resolve this thread');
+  }
+
+  if (resolved && thread.status !== 'resolved') {
+    thread.status = 'resolved';
+    thread.resolvedBy = userId as any;
+    thread.resolvedAt = new Date();
+    await thread.save();
+
+    notify(book, userId, participantsOf(book, thread), 'resolved', chapter);
+  } else if (!resolved && thread.status === 'resolved') {
+    thread.status = 'open';
+    thread.resolvedBy = undefined;
+    thread.resolvedAt = undefined;
+    await thread.save();
+  }
+
+  return populateThread(thread);
+}
+
+/**
+ * Apply a suggested edit to the chapter. The chapter's previous content
+ * is snapshotted first so the change can be undone from revision history.
+ */
+export async function acceptSuggestion(
+  userId: string,
+  role: UserRole,
+  bookId: string,
+  chapterId: string,
+  threadId: string
+): Promise<{ thread: ICommentThread; chapter: { _id: string; content: string; wordCount: number; version: number } }> {
+  const { book, chapter, text } = await loadChapter(bookId, chapterId);
+  const thread = await findThread(bookId, chapterId, threadId);
+
+  if (!canDecide(book, userId, chapterId)) {
+    throw new AuthorizationError('Only the author or a co-author can accept suggestions');
+  }
+  if (thread.kind !== 'suggestion' || !thread.suggestion) {
+    throw new ValidationError('This thread is not a suggestion');
+  }
+  if (thread.status !== 'open') {
+    throw new ConflictError(`This suggestion was already ${thread.status}`);
+  }
+
+  const position = locateAnchor(text, thread.anchor);
+  if (!position) {
+    thread.isOrphaned = true;
+    await thread.save();
+    throw new ConflictError('The suggested passage no longer exists in the chapter');
+  }
+
+  await recordChapterRevisions(book, userId, role, [chapterId]);
+
+  chapter.content = replaceTextRange(chapter.content, position.startOffset, position.endOffset, thread.suggestion.text);
+  chapter.wordCount = countWords(chapter.content);
+  book.markModified('chapters');
+  await book.save();
+
+  thread.status = 'accepted';
+  thread.resolvedBy = userId as any;
+  thread.resolvedAt = new Date();
+  await thread.save();
+
+  notify(book, userId, participantsOf(book, thread), 'accepted', chapter);
+
+  return {
+    thread: await populateThread(thread),
+    chapter: { _id: chapterId, content: chapter.content, wordCount: chapter.wordCount, version: chapter.version },
+  };
+}
+
+/**
+ * Turn a suggestion down without changing the chapter. Its author may
+ * also withdraw it this way.
+ */
+export async function rejectSuggestion(
+  userId: string,
+  bookId: string,
+  chapterId: string,
+  threadId: string
+): Promise<ICommentThread> {
+  const { book, chapter } = await loadChapter(bookId, chapterId);
+  const thread = await findThread(bookId, chapterId, threadId);
+
+  if (thread.author.toString() !== userId && !canDecide(book, userId, chapterId)) {
+    throw new AuthorizationError('Only the author or a co-author can reject suggestions');
+  }
+  if (thread.kind !== 'suggestion') {
+    throw new ValidationError('This thread is not a suggestion');
+  }
+  if (thread.status !== 'open') {
+    throw new ConflictError(`This suggestion was already ${thread.status}`);
+  }
+
+  thread.status = 'rejected';
+  thread.resolvedBy = userId as any;
+  thread.resolvedAt = new Date();
+  await thread.save();
+
+  notify(book, userId, participantsOf(book, thread), 'rejected', chapter);
+
+  return populateThread(thread);
+}
+
+/**
+ * Delete a thread. Only its author or the book's author may.
+ */
+export async function deleteThread(userId: string, bookId: string, chapterId: string, threadId: string): Promise<void> {
+  const { book } = await loadChapter(bookId, chapterId);
+  const thread = await findThread(bookId, chapterId, threadId);
+
+  if (thread.author.toString() !== userId && book.author.toString() !== userId) {
+    throw new AuthorizationError('You cannot delete this thread');
+  }
+
+  await thread.deleteOne();
+}
@@ -0,0 +1,460 @@
+/**
+ * Continuity Service
+ * Finds places where a book contradicts itself. The AI reads each
+ * chapter into a fact table (character and place details, deaths,
+ * appearances, whereabouts, dates) and compares it with the character
+ * profiles; the contradictions between chapters are then found here,
+ * from the facts. Fact sheets are kept per chapter, so an incremental
+ * check only re-reads chapters that changed.
+ */
+
+import crypto from 'crypto';
+import { z } from 'zod';
+import { IBook, IChapter } from '../models/Book';
+import {
+  ChapterFacts,
+  IChapterFacts,
+  IContinuityFact,
+  IProfileConflict,
+  ContinuityFactKind,
+  CONTINUITY_FACT_KINDS,
+} from '../models/ChapterFacts';
+import { toTextContent } from './annotationService';
+import { generateJSON } from './llmService';
+
+export type ContinuityMode = 'full' | 'incremental';
+
+export type ContinuityIssueType =
+  | 'attribute_changed' // A lasting detail differs from an earlier chapter
+  | 'dead_character_appears' // A character acts after their death
+  | 'date_conflict' // The same event is given different dates
+  | 'timeline_order' // A chapter's present is earlier than a previous chapter's
+  | 'profile_mismatch'; // The text contradicts the character's profile
+
+export interface ContinuityReference {
+  chapterId: string;
+  chapterIndex: number;
+  chapterTitle: string;
+  quote: string;
+  startOffset?: number;
+  endOffset?: number;
+}
+
+export interface ContinuityIssue {
+  type: ContinuityIssueType;
+  severity: 'error' | 'warning';
+  subject: string;
+  attribute?: string;
+  values: string[]; // The conflicting values, current one first
+  message: string;
+  references: ContinuityReference[]; // Where it happens, then where it was established
+}
+
+export interface ContinuityReport {
+  mode: ContinuityMode;
+  issues: ContinuityIssue[];
+  chapters: Array<{
+    chapterId: string;
+    chapterIndex: number;
+    title: string;
+    facts: IContinuityFact[];
+    scannedAt?: Date;
+  }>;
+  scannedChapters: number;
+  reusedChapters: number;
+  failedChapters: string[]; // Could not be read this time; earlier facts are used if there are any
+  analyzedAt: Date;
+}
+
+// How much of a chapter the AI reads
+const MAX_CHAPTER_CHARS = 12000;
+
+// Subjects and attribute names from earlier chapters passed to the AI so
+// it reuses them
+const MAX_KNOWN_TERMS = 60;
+
+// Expected AI response
+const chapterFactsSchema = z.object({
+  facts: z
+    .array(
+      z.object({
+        kind: z.string(),
+        subject: z.string(),
+        attribute: z.string().optional(),
+        value: z.string().optional(),
+        normalized: z.string().optional(),
+        changeExplained: z.boolean().default(false),
+        flashback: z.boolean().default(false),
+        quote: z.string().default(''),
+      })
+    )
+    .default([]),
+  profileConflicts: z
+    .array(
+      z.object({
+        character: z.string(),
+        field: z.string(),
+        profileValue: z.string().default(''),
+        chapterValue: z.string().default(''),
+        quote: z.string().default(''),
+      })
+    )
+    .default([]),
+});
+
+interface ScannedChapter {
+  chapter: IChapter;
+  index: number;
+  sheet?: IChapterFacts;
+}
+
+// ============================================
+// TEXT
+// ============================================
+
+function readableText(html: string): string {
+  return toTextContent(html.replace(/<\/(p|h[1-6]|li|blockquote)>|<br\s*\/?>/gi, '\n'))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Offsets of a quote in the chapter's text content (as comment anchors
+ * use them). The AI may change the spacing, so whitespace is loose.
+ */
+function locateQuote(text: string, quote: string): { startOffset: number; endOffset: number } | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+
+  const exact = text.indexOf(trimmed);
+  if (exact >= 0) return { startOffset: exact, endOffset: exact + trimmed.length };
+
+  const words = trimmed.split(/\s+/).map(escapeRegExp);
+  const match = new RegExp(words.join('\\s*')).exec(text);
+  return match ? { startOffset: match.index, endOffset: match.index + match[0].length } : null;
+}
+
+function key(value?: string): string {
+  return (value || '').trim().toLowerCase();
+}
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+/**
+ * Character profiles as the AI is given them; also part of each
+ * chapter's hash, so editing a profile re-checks the chapters
+ */
+function profileSummary(book: IBook): string {
+  return book.characters
+    .map((character) => {
+      const details = [
+        character.age !== undefined ? `גיל: ${character.age}` : '',
+        character.description ? `תיאור: ${character.description.slice(0, 300)}` : '',
+        character.traits?.length ? `תכונות: ${character.traits.join(', ')}` : '',
+      ].filter(Boolean);
+      return `- ${character.name}${details.length ? ` (${details.join('; ')})` : ''}`;
+    })
+    .join('\n');
+}
+
+function contentHash(chapter: IChapter, profiles: string): string {
+  return crypto.createHash('sha1').update(`${chapter.title}\n${chapter.content}\n${profiles}`).digest('hex');
+}
+
+function knownTerms(sheets: IChapterFacts[]): { subjects: string[]; attributes: string[] } {
+  const subjects = new Set<string>();
+  const attributes = new Set<string>();
+  for (const sheet of sheets) {
+    for (const fact of sheet.facts) {
+      subjects.add(fact.subject);
+      if (fact.attribute) attributes.add(fact.attribute);
+    }
+  }
+  return {
+    subjects: [...subjects].slice(0, MAX_KNOWN_TERMS),
+    attributes: [...attributes].slice(0, MAX_KNOWN_TERMS),
+  };
+}
+
+/**
+ * Have the AI read one chapter into facts
+ */
+async function extractChapterFacts(
+  book: IBook,
+  chapter: IChapter,
+  index: number,
+  profiles: string,
+  known: { subjects: string[]; attributes: string[] }
+): Promise<{ facts: IContinuityFact[]; profileConflicts: IProfileConflict[] }> {
+  const prompt = `אתה עורך המתמחה בבדיקת רציפות (continuity) בספרים.
+
+ספר: "${book.title}" (${book.genre})
+פרק ${index + 1}: "${chapter.title}"
+
+פרופילי הדמויות:
+${profiles || 'אין'}
+
+${known.subjects.length ? `שמות שכבר הופיעו בפרקים קודמים (השתמש בהם כפי שהם): ${known.subjects.join(', ')}` : ''}
+${known.attributes.length ? `מאפיינים שכבר תועדו (השתמש באותם שמות): ${known.attributes.join(', ')}` : ''}
+
+תוכן הפרק:
+${readableText(chapter.content).slice(0, MAX_CHAPTER_CHARS)}
+
+משימה:
+1. חלץ את העובדות שהפרק קובע, מכל סוג:
+   - "attribute": פרט קבוע של דמות או מקום (צבע עיניים, צלקת, מקצוע, צבע הבית). attribute = מה מתואר
+   - "death": הדמות מתה
+   - "appearance": הדמות נוכחת ופועלת בפרק
+   - "location": היכן הדמות נמצאת. value = המקום
+   - "date": מתי אירוע קורה. subject = האירוע
+   לכל עובדה: "normalized" - ערך קצר וקנוני באנגלית באותיות קטנות להשוואה (למשל "blue"); תאריכים בפורמט YYYY או YYYY-MM או YYYY-MM-DD.
+   "changeExplained": true אם הטקסט מסביר שינוי (צבע שיער, פציעה חדשה).
+   "flashback": true אם זה זיכרון, חלום או פלשבק.
+   "quote": ציטוט מדויק וקצר מהפרק (עד 15 מילים).
+2. ציין סתירות בין הפרק לבין פרופילי הדמויות.
+
+החזר JSON בפורמט הבא בלבד:
+{
+  "facts": [
+    { "kind": "attribute", "subject": "שם", "attribute": "eye color", "value": "עיניים כחולות", "normalized": "blue", "changeExplained": false, "flashback": false, "quote": "ציטוט" }
+  ],
+  "profileConflicts": [
+    { "character": "שם", "field": "age", "profileValue": "30", "chapterValue": "50", "quote": "ציטוט" }
+  ]
+}`;
+
+  const result = await generateJSON({
+    task: 'analysis.continuity',
+    prompt,
+    schema: chapterFactsSchema,
+  });
+
+  const text = toTextContent(chapter.content);
+  const anchor = (quote: string) => locateQuote(text, quote) || {};
+
+  return {
+    facts: result.facts
+      .filter((fact) => CONTINUITY_FACT_KINDS.includes(fact.kind as ContinuityFactKind) && fact.subject.trim())
+      .map((fact) => ({
+        ...fact,
+        kind: fact.kind as ContinuityFactKind,
+        subject: fact.subject.trim(),
+        ...anchor(fact.quote),
+      })),
+    profileConflicts: result.profileConflicts.map((conflict) => ({ ...conflict, ...anchor(conflict.quote) })),
+  };
+}
+
+// ============================================
+// DETECTION
+// ============================================
+
+/**
+ * Compare two normalized dates to their shared precision (a year
+ * against a full date compares the years). Null when either is not
+ * a date.
+ */
+function compareDates(a?: string, b?: string): number | null {
+  const pattern = /^(\d{1,4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/;
+  const left = a?.trim().match(pattern);
+  const right = b?.trim().match(pattern);
+  if (!left || !right) return null;
+
+  for (let part = 1; part <= 3; part++) {
+    if (left[part] === undefined || right[part] === undefined) break;
+    const diff = Number(left[part]) - Number(right[part]);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function reference(scanned: ScannedChapter, item: { quote: string; startOffset?: number; endOffset?: number }): ContinuityReference {
+  return {
+    chapterId: scanned.chapter._id!.toString(),
+    chapterIndex: scanned.index,
+    chapterTitle: scanned.chapter.title,
+    quote: item.quote,
+    startOffset: item.startOffset,
+    endOffset: item.endOffset,
+  };
+}
+
+/**
+ * Walk the chapters in order, comparing each fact with what earlier
+ * chapters established
+ */
+function detectIssues(chapters: ScannedChapter[]): ContinuityIssue[] {
+  const issues: ContinuityIssue[] = [];
+  const attributes = new Map<string, { fact: IContinuityFact; at: ScannedChapter }>();
+  const deaths = new Map<string, { fact: IContinuityFact; at: ScannedChapter }>();
+  const eventDates = new Map<string, { fact: IContinuityFact; at: ScannedChapter }>();
+  let latestDate: { fact: IContinuityFact; at: ScannedChapter } | undefined;
+
+  for (const scanned of chapters) {
+    if (!scanned.sheet) continue;
+    let chapterLatest: typeof latestDate;
+
+    for (const fact of scanned.sheet.facts) {
+      const subject = key(fact.subject);
+
+      if (fact.kind === 'attribute' && fact.attribute) {
+        const slot = `${subject}|${key(fact.attribute)}`;
+        const earlier = attributes.get(slot);
+        const value = key(fact.normalized || fact.value);
+        if (earlier && value && key(earlier.fact.normalized || earlier.fact.value) !== value && !fact.changeExplained && !fact.flashback) {
+          issues.push({
+            type: 'attribute_changed',
+            severity: 'warning',
+            subject: fact.subject,
+            attribute: fact.attribute,
+            values: [fact.value || value, earlier.fact.value || earlier.fact.normalized || ''],
+            message: `${fact.subject}'s ${fact.attribute} was "${earlier.fact.value}" in chapter ${earlier.at.index + 1} but is "${fact.value}" in chapter ${scanned.index + 1}`,
+            references: [reference(scanned, fact), reference(earlier.at, earlier.fact)],
+          });
+        }
+        if (!fact.flashback) attributes.set(slot, { fact, at: scanned });
+      }
+
+      if ((fact.kind === 'appearance' || fact.kind === 'location') && !fact.flashback) {
+        const death = deaths.get(subject);
+        if (death && death.at.index < scanned.index) {
+          issues.push({
+            type: 'dead_character_appears',
+            severity: 'error',
+            subject: fact.subject,
+            values: [],
+            message: `${fact.subject} died in chapter ${death.at.index + 1} but appears in chapter ${scanned.index + 1}`,
+            references: [reference(scanned, fact), reference(death.at, death.fact)],
+          });
+          deaths.delete(subject); // One report per death is enough
+        }
+      }
+
+      if (fact.kind === 'death' && !fact.flashback && !deaths.has(subject)) {
+        deaths.set(subject, { fact, at: scanned });
+      }
+
+      if (fact.kind === 'date' && fact.normalized) {
+        const earlier = eventDates.get(subject);
+        if (earlier && compareDates(earlier.fact.normalized, fact.normalized) !== 0) {
+          issues.push({
+            type: 'date_conflict',
+            severity: 'error',
+            subject: fact.subject,
+            values: [fact.value || fact.normalized, earlier.fact.value || earlier.fact.normalized || ''],
+            message: `"${fact.subject}" is dated ${fact.normalized} in chapter ${scanned.index + 1} but ${earlier.fact.normalized} in chapter ${earlier.at.index + 1}`,
+            references: [reference(scanned, fact), reference(earlier.at, earlier.fact)],
+          });
+        } else if (!earlier) {
+          eventDates.set(subject, { fact, at: scanned });
+        }
+
+        if (!fact.flashback) {
+          if (latestDate && latestDate.at.index < scanned.index && (compareDates(fact.normalized, latestDate.fact.normalized) ?? 0) < 0) {
+            issues.push({
+              type: 'timeline_order',
+              severity: 'warning',
+              subject: fact.subject,
+              values: [fact.normalized, latestDate.fact.normalized || ''],
+              message: `Chapter ${scanned.index + 1} is set on ${fact.normalized}, before chapter ${latestDate.at.index + 1} (${latestDate.fact.normalized}), without being marked as a flashback`,
+              references: [reference(scanned, fact), reference(latestDate.at, latestDate.fact)],
+            });
+          }
+          if (!chapterLatest || (compareDates(fact.normalized, chapterLatest.fact.normalized) ?? 0) > 0) {
+            chapterLatest = { fact, at: scanned };
+          }
+        }
+      }
+    }
+
+    for (const conflict of scanned.sheet.profileConflicts) {
+      issues.push({
+        type: 'profile_mismatch',
+        severity: 'error',
+        subject: conflict.character,
+        attribute: conflict.field,
+        values: [conflict.chapterValue, conflict.profileValue],
+        message: `${conflict.character}'s ${conflict.field} is "${conflict.chapterValue}" in chapter ${scanned.index + 1} but "${conflict.profileValue}" in the character profile`,
+        references: [reference(scanned, conflict)],
+      });
+    }
+
+    // Dates later in the same chapter are compared with earlier chapters only
+    if (chapterLatest && (!latestDate || (compareDates(chapterLatest.fact.normalized, latestDate.fact.normalized) ?? 0) > 0)) {
+      latestDate = chapterLatest;
+    }
+  }
+
+  return issues;
+}
+
+// ============================================
+// CHECK
+// ============================================
+
+/**
+ * Check a book's continuity. A full check re-reads every chapter; an
+ * incremental one only those changed since they were last read.
+ */
+export async function checkContinuity(book: IBook, mode: ContinuityMode = 'full'): Promise<ContinuityReport> {
+  const chapters = [...book.chapters].sort((a, b) => a.order - b.order);
+  const chapterIds = chapters.map((chapter) => chapter._id);
+
+  // Sheets of deleted chapters are dropped
+  await ChapterFacts.deleteMany({ book: book._id, chapter: { $nin: chapterIds } });
+  const sheets = await ChapterFacts.find({ book: book._id });
+  const sheetsByChapter = new Map(sheets.map((sheet) => [sheet.chapter.toString(), sheet]));
+
+  const profiles = profileSummary(book);
+  const scanned: ScannedChapter[] = [];
+  const failedChapters: string[] = [];
+  let scannedCount = 0;
+
+  for (const [index, chapter] of chapters.entries()) {
+    const chapterId = chapter._id!.toString();
+    const hash = contentHash(chapter, profiles);
+    let sheet = sheetsByChapter.get(chapterId);
+
+    if (mode === 'full' || !sheet || sheet.contentHash !== hash) {
+      try {
+        // Earlier chapters' names keep the facts comparable
+        const known = knownTerms(scanned.flatMap((s) => (s.sheet ? [s.sheet] : [])));
+        const extracted = await extractChapterFacts(book, chapter, index, profiles, known);
+        sheet = (await ChapterFacts.findOneAndUpdate(
+          { book: book._id, chapter: chapter._id },
+          { $set: { contentHash: hash, ...extracted, scannedAt: new Date() } },
+          { upsert: true, new: true }
+        ))!;
+        scannedCount += 1;
+      } catch (error) {
+        console.error(`Continuity scan failed for chapter ${chapterId}:`, error);
+        failedChapters.push(chapterId);
+      }
+    }
+
+    scanned.push({ chapter, index, sheet });
+  }
+
+  return {
+    mode,
+    issues: detectIssues(scanned),
+    chapters: scanned.map(({ chapter, index, sheet }) => ({
+      chapterId: chapter._id!.toString(),
+      chapterIndex: index,
+      title: chapter.title,
+      facts: sheet?.facts || [],
+      scannedAt: sheet?.scannedAt,
+    })),
+    scannedChapters: scannedCount,
+    reusedChapters: scanned.filter((s) => s.sheet).length - scannedCount,
+    failedChapters,
+    analyzedAt: new Date(),
+  };
+}
@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import { Coupon } from '../models/Coupon';
+import { DAY, fake, makeBook, runningSale } from '../test/fixtures';
+import { ValidationError } from '../utils/errors';
+import { activeSalePrice, quoteBookPrice } from './couponService';
+
+const author = new mongoose.Types.ObjectId();
+
+describe('couponService', () => {
+  let findCoupon: jest.SpyInstance;
+
+  beforeEach(() => {
+    findCoupon = fake(Coupon, 'findOne', async () => null);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const offerCoupon = (fields: Record<string, unknown>) => {
+    findCoupon.mockResolvedValue(new Coupon({ author, code: 'SAVE', ...fields }));
+  };
+
+  describe('activeSalePrice', () => {
+    it('applies only while the sale is running', () => {
+      const upcoming = { price: 6, startsAt: new Date(Date.now() + DAY), endsAt: new Date(Date.now() + 2 * DAY) };
+      const ended = { price: 6, startsAt: new Date(Date.now() - 2 * DAY), endsAt: new Date(Date.now() - DAY) };
+
+      expect(activeSalePrice(makeBook({ author, price: 10, sale: runningSale(6) }))).toBe(6);
+      expect(activeSalePrice(makeBook({ author, price: 10, sale: upcoming }))).toBeUndefined();
+      expect(activeSalePrice(makeBook({ author, price: 10, sale: ended }))).toBeUndefined();
+    });
+
+    it('ignores a sale price that is not below the list price', () => {
+      expect(activeSalePrice(makeBook({ author, price: 10, sale: runningSale(12) }))).toBeUndefined();
+    });
+  });
+
+  describe('quoteBookPrice', () => {
+    it('charges the list price without a sale or coupon', async () => {
+      await expect(quoteBookPrice(makeBook({ author, price: 9.99 }))).resolves.toEqual({ listPrice: 9.99, price: 9.99 });
+      expect(findCoupon).not.toHaveBeenCalled();
+    });
+
+    it('charges the sale price while a sale runs', async () => {
+      const quote = await quoteBookPrice(makeBook({ author, price: 10, sale: runningSale(7.5) }));
+
+      expect(quote.price).toBe(7.5);
+      expect(quote.sale?.price).toBe(7.5);
+    });
+
+    it('takes a percentage coupon off the sale price', async () => {
+      offerCoupon({ discountType: 'percent', value: 20 });
+
+      const quote = await quoteBookPrice(makeBook({ author, price: 10, sale: runningSale(7.5) }), ' save ');
+
+      expect(findCoupon).toHaveBeenCalledWith({ author, code: 'SAVE' });
+      expect(quote.price).toBe(6);
+      expect(quote.coupon).toMatchObject({ code: 'SAVE', discount: 1.5 });
+    });
+
+    it('rounds discounts to whole cents', async () => {
+      offerCoupon({ discountType: 'percent', value: 15 });
+
+      const quote = await quoteBookPrice(makeBook({ author, price: 9.99 }), 'SAVE');
+
+      expect(quote.price).toBe(8.49);
+      expect(quote.coupon?.discount).toBe(1.5);
+    });
+
+    it('never takes a paid book below the minimum price', async () => {
+      offerCoupon({ discountType: 'fixed', value: 50 });
+
+      const quote = await quoteBookPrice(makeBook({ author, price: 4 }), 'SAVE');
+
+      expect(quote.price).toBe(0.5);
+      expect(quote.coupon?.discount).toBe(3.5);
+    });
+
+    it('keeps a price already below the minimum', async () => {
+      offerCoupon({ discountType: 'fixed', value: 1 });
+
+      await expect(quoteBookPrice(makeBook({ author, price: 0.3 }), 'SAVE')).resolves.toMatchObject({ price: 0.3 });
+    });
+
+    it('rejects codes that cannot be used', async () => {
+      const book = makeBook({ author, price: 10 });
+
+      await expect(quoteBookPrice(book, 'NOPE')).rejects.toThrow(new ValidationError('Invalid coupon code'));
+
+      offerCoupon({ discountType: 'percent', value: 10, active: false });
+      await expect(quoteBookPrice(book, 'SAVE')).rejects.toThrow('Invalid coupon code');
+
+      offerCoupon({ discountType: 'percent', value: 10, expiresAt: new Date(Date.now() - DAY) });
+      await expect(quoteBookPrice(book, 'SAVE')).rejects.toThrow('This coupon has expired');
+
+      offerCoupon({ discountType: 'percent', value: 10, startsAt: new Date(Date.now() + DAY) });
+      await expect(quoteBookPrice(book, 'SAVE')).rejects.toThrow('This coupon is not active yet');
+
+      offerCoupon({ discountType: 'percent', value: 10, books: [new mongoose.Types.ObjectId()] });
+      await expect(quoteBookPrice(book, 'SAVE')).rejects.toThrow('This coupon does not apply to this book');
+
+      offerCoupon({ discountType: 'percent', value: 10, maxRedemptions: 5, redemptions: 5 });
+      await expect(quoteBookPrice(book, 'SAVE')).rejects.toThrow('This coupon has reached its usage limit');
+    });
+
+    it('accepts a coupon limited to the book being bought', async () => {
+      const book = makeBook({ author, price: 10 });
+      offerCoupon({ discountType: 'fixed', value: 2, books: [book._id] });
+
+      await expect(quoteBookPrice(book, 'SAVE')).resolves.toMatchObject({ price: 8 });
+    });
+  });
+});
@@ -0,0 +1,349 @@
+/**
+ * Coupon Service
+ * Author promotions: discount codes and scheduled sale prices. Every
+ * purchase path prices a book through quoteBookPrice, so a sale price and
+ * a coupon apply the same way whether the buyer pays through PayPal or
+ * not, and the author's and platform's shares are taken from what the
+ * buyer actually paid.
+ */
+
+import mongoose from 'mongoose';
+import { Book, IBook } from '../models/Book';
+import { Coupon, ICoupon, CouponDiscountType } from '../models/Coupon';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+// A paid book never drops below this, whatever the discounts
+const MIN_PRICE = 0.5;
+
+export interface CouponInput {
+  code?: string;
+  discountType?: CouponDiscountType;
+  value?: number;
+  books?: string[];
+  maxRedemptions?: number | null;
+  startsAt?: string | null;
+  expiresAt?: string | null;
+  active?: boolean;
+}
+
+export interface SaleInput {
+  price: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface PriceQuote {
+  listPrice: number;
+  price: number; // What the buyer pays
+  sale?: {
+    price: number;
+    endsAt: Date;
+  };
+  coupon?: {
+    id: string;
+    code: string;
+    discount: number;
+  };
+}
+
+export interface BookPromotions {
+  sale?: {
+    price: number;
+    startsAt: Date;
+    endsAt: Date;
+    active: boolean;
+  };
+  coupons: Array<{
+    id: string;
+    code: string;
+    discountType: CouponDiscountType;
+    value: number;
+    catalogueWide: boolean;
+    maxRedemptions?: number;
+    redemptions: number;
+    revenue: number;
+    discountGiven: number;
+    startsAt?: Date;
+    expiresAt?: Date;
+    active: boolean;
+  }>;
+}
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// ============================================
+// PRICING
+// ============================================
+
+/**
+ * The book's sale price, if a sale is running
+ */
+export function activeSalePrice(book: IBook, now: Date = new Date()): number | undefined {
+  const sale = book.publishingStatus.sale;
+  if (!sale || sale.startsAt > now || sale.endsAt <= now) return undefined;
+  return sale.price < book.publishingStatus.price ? sale.price : undefined;
+}
+
+/**
+ * Why a coupon cannot be used on a book right now, if it cannot
+ */
+function couponProblem(coupon: ICoupon, book: IBook, now: Date): string | null {
+  if (!coupon.active) return 'Invalid coupon code';
+  if (coupon.startsAt && coupon.startsAt > now) return 'This coupon is not active yet';
+  if (coupon.expiresAt && coupon.expiresAt <= now) return 'This coupon has expired';
+  if (coupon.books.length > 0 && !coupon.books.some((id) => id.equals(book._id as mongoose.Types.ObjectId))) {
+    return 'This coupon does not apply to this book';
+  }
+  if (coupon.maxRedemptions && coupon.redemptions >= coupon.maxRedemptions) {
+    return 'This coupon has reached its usage limit';
+  }
+  return null;
+}
+
+/**
+ * Price a book for a buyer: the sale price if a sale is running, less the
+ * coupon's discount if a valid code is given. Throws ValidationError for
+ * a code that cannot be used.
+ */
+export async function quoteBookPrice(book: IBook, couponCode?: string): Promise<PriceQuote> {
+  const now = new Date();
+  const listPrice = book.publishingStatus.price;
+  const salePrice = activeSalePrice(book, now);
+  const quote: PriceQuote = { listPrice, price: salePrice ?? listPrice };
+
+  if (salePrice !== undefined) {
+    quote.sale = { price: salePrice, endsAt: book.publishingStatus.sale!.endsAt };
+  }
+
+  const code = couponCode?.trim().toUpperCase();
+  if (!code) return quote;
+
+  const authorId = (book.author as any)._id || book.author;
+  const coupon = await Coupon.findOne({ author: authorId, code });
+  if (!coupon) {
+    throw new ValidationError('Invalid coupon code');
+  }
+  const problem = couponProblem(coupon, book, now);
+  if (problem) {
+    throw new ValidationError(problem);
+  }
+
+  const discount = coupon.discountType === 'percent' ? (quote.price * coupon.value) / 100 : coupon.value;
+  const price = Math.max(Math.min(MIN_PRICE, quote.price), roundCents(quote.price - discount));
+
+  quote.coupon = {
+    id: coupon._id.toString(),
+    code: coupon.code,
+    discount: roundCents(quote.price - price),
+  };
+  quote.price = price;
+  return quote;
+}
+
+/**
+ * Count a purchase against a coupon. The usage cap is checked in the same
+ * update, so concurrent buyers cannot take it past the cap. Returns false
+ * if the coupon was used up (or switched off) since the price was quoted.
+ */
+export async function redeemCoupon(couponId: string, paid: number, discount: number): Promise<boolean> {
+  const redeemed = await Coupon.findOneAndUpdate(
+    {
+      _id: couponId,
+      active: true,
+      $or: [{ maxRedemptions: null }, { $expr: { $lt: ['$redemptions', '$maxRedemptions'] } }],
+    },
+    { $inc: { redemptions: 1, revenue: paid, discountGiven: discount } }
+  );
+  return !!redeemed;
+}
+
+/**
+ * Undo a redemption whose payment did not go through
+ */
+export async function releaseCoupon(couponId: string, paid: number, discount: number): Promise<void> {
+  await Coupon.updateOne(
+    { _id: couponId, redemptions: { $gt: 0 } },
+    { $inc: { redemptions: -1, revenue: -paid, discountGiven: -discount } }
+  );
+}
+
+// ============================================
+// AUTHOR COUPONS
+// ============================================
+
+function parseDate(value: string | null | undefined, field: string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ValidationError(`${field} must be a valid date`);
+  }
+  return date;
+}
+
+/**
+ * Check and apply coupon fields. Books must belong to the author.
+ */
+async function applyCouponInput(coupon: ICoupon, input: CouponInput): Promise<void> {
+  if (input.code !== undefined) coupon.code = input.code;
+  if (input.discountType !== undefined) coupon.discountType = input.discountType;
+  if (input.value !== undefined) coupon.value = input.value;
+  if (input.active !== undefined) coupon.active = input.active;
+  if (input.maxRedemptions !== undefined) coupon.maxRedemptions = input.maxRedemptions ?? undefined;
+  if (input.startsAt !== undefined) coupon.startsAt = parseDate(input.startsAt, 'startsAt');
+  if (input.expiresAt !== undefined) coupon.expiresAt = parseDate(input.expiresAt, 'expiresAt');
+
+  if (input.books !== undefined) {
+    const owned = await Book.countDocuments({ _id: { $in: input.books }, author: coupon.author });
+    if (owned !== input.books.length) {
+      throw new ValidationError('Coupons can only apply to your own books');
+    }
+    coupon.books = input.books.map((id) => new mongoose.Types.ObjectId(id));
+  }
+
+  if (coupon.discountType === 'percent' && coupon.value > 100) {
+    throw new ValidationError('A percentage discount cannot exceed 100');
+  }
+  if (coupon.startsAt && coupon.expiresAt && coupon.expiresAt <= coupon.startsAt) {
+    throw new ValidationError('A coupon must expire after it starts');
+  }
+}
+
+async function saveCoupon(coupon: ICoupon): Promise<ICoupon> {
+  try {
+    return await coupon.save();
+  } catch (error: any) {
+    if (error.code === 11000) {
+      throw new ConflictError(`You already have a coupon with the code ${coupon.code}`);
+    }
+    throw error;
+  }
+}
+
+async function findAuthorCoupon(authorId: string, couponId: string): Promise<ICoupon> {
+  const coupon = await Coupon.findOne({ _id: couponId, author: authorId });
+  if (!coupon) {
+    throw new NotFoundError('Coupon not found');
+  }
+  return coupon;
+}
+
+/**
+ * An author's coupons, newest first
+ */
+export async function listCoupons(authorId: string): Promise<ICoupon[]> {
+  return Coupon.find({ author: authorId }).populate('books', 'title').sort({ createdAt: -1 });
+}
+
+/**
+ * Create a coupon
+ */
+export async function createCoupon(authorId: string, input: CouponInput): Promise<ICoupon> {
+  const coupon = new Coupon({ author: authorId });
+  await applyCouponInput(coupon, input);
+  return saveCoupon(coupon);
+}
+
+/**
+ * Change a coupon. Its code is fixed once it has been used.
+ */
+export async function updateCoupon(authorId: string, couponId: string, input: CouponInput): Promise<ICoupon> {
+  const coupon = await findAuthorCoupon(authorId, couponId);
+  if (input.code !== undefined && input.code.toUpperCase() !== coupon.code && coupon.redemptions > 0) {
+    throw new ValidationError('A coupon that was used cannot be renamed');
+  }
+  await applyCouponInput(coupon, input);
+  return saveCoupon(coupon);
+}
+
+/**
+ * Delete a coupon. One that was used is switched off instead, keeping its
+ * redemption stats. Returns whether it was deleted.
+ */
+export async function deleteCoupon(authorId: string, couponId: string): Promise<boolean> {
+  const coupon = await findAuthorCoupon(authorId, couponId);
+  if (coupon.redemptions > 0) {
+    coupon.active = false;
+    await coupon.save();
+    return false;
+  }
+  await coupon.deleteOne();
+  return true;
+}
+
+// ============================================
+// SALES
+// ============================================
+
+/**
+ * Schedule a sale price for a book, replacing any earlier sale
+ */
+export async function setBookSale(bookId: string, input: SaleInput): Promise<IBook> {
+  const book = await Book.findById(bookId);
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+
+  const startsAt = parseDate(input.startsAt, 'startsAt')!;
+  const endsAt = parseDate(input.endsAt, 'endsAt')!;
+
+  if (book.publishingStatus.isFree || book.publishingStatus.price === 0) {
+    throw new ValidationError('Free books cannot go on sale');
+  }
+  if (input.price >= book.publishingStatus.price) {
+    throw new ValidationError('The sale price must be lower than the book price');
+  }
+  if (endsAt <= startsAt || endsAt <= new Date()) {
+    throw new ValidationError('A sale must end after it starts, and in the future');
+  }
+
+  book.publishingStatus.sale = { price: roundCents(input.price), startsAt, endsAt };
+  await book.save();
+  return book;
+}
+
+/**
+ * End or cancel a book's sale
+ */
+export async function clearBookSale(bookId: string): Promise<void> {
+  const result = await Book.updateOne({ _id: bookId }, { $unset: { 'publishingStatus.sale': 1 } });
+  if (result.matchedCount === 0) {
+    throw new NotFoundError('Book not found');
+  }
+}
+
+/**
+ * A book's sale and the coupons that apply to it, with redemption stats
+ */
+export async function getBookPromotions(book: IBook): Promise<BookPromotions> {
+  const coupons = await Coupon.find({
+    author: book.author,
+    $or: [{ books: { $size: 0 } }, { books: book._id }],
+  }).sort({ createdAt: -1 });
+
+  const sale = book.publishingStatus.sale;
+
+  return {
+    sale: sale
+      ? {
+          price: sale.price,
+          startsAt: sale.startsAt,
+          endsAt: sale.endsAt,
+          active: activeSalePrice(book) !== undefined,
+        }
+      : undefined,
+    coupons: coupons.map((coupon) => ({
+      id: coupon._id.toString(),
+      code: coupon.code,
+      discountType: coupon.discountType,
+      value: coupon.value,
+      catalogueWide: coupon.books.length === 0,
+      maxRedemptions: coupon.maxRedemptions,
+      redemptions: coupon.redemptions,
+      revenue: roundCents(coupon.revenue),
+      discountGiven: roundCents(coupon.discountGiven),
+      startsAt: coupon.startsAt,
+      expiresAt: coupon.expiresAt,
+      active: coupon.active,
+    })),
+  };
+}
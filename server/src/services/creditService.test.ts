@@ -0,0 +1,101 @@
+import { CreditLedger, ICreditLedgerEntry } from '../models/CreditLedger';
+import { User, UserRole } from '../models/User';
+import { DAY, fake } from '../test/fixtures';
+import { expireLapsedSubscriptions, expireSubscription } from './creditService';
+
+const subscriber = (endDate: Date, credits = 420) =>
+  new User({
+    email: 'writer@example.com',
+    name: 'Writer',
+    role: UserRole.STANDARD,
+    credits,
+    subscription: {
+      tier: UserRole.STANDARD,
+      price: 9.99,
+      credits: 500,
+      startDate: new Date(endDate.getTime() - 30 * DAY),
+      endDate,
+      isActive: true,
+      autoRenew: true,
+    },
+  });
+
+describe('creditService.expireSubscription', () => {
+  let entries: ICreditLedgerEntry[];
+  let updates: jest.SpyInstance;
+
+  beforeEach(() => {
+    entries = [];
+    updates = fake(User, 'findOneAndUpdate', async () => ({}));
+    fake(CreditLedger, 'create', async (doc: object) => {
+      const entry = new CreditLedger(doc);
+      entries.push(entry);
+      return entry;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('moves a plan whose period has ended to the free plan', async () => {
+    const user = subscriber(new Date(Date.now() - DAY));
+
+    await expect(expireSubscription(user)).resolves.toBe(true);
+
+    expect(user.role).toBe(UserRole.FREE);
+    expect(user.subscription).toMatchObject({ tier: UserRole.FREE, price: 0, credits: 100, autoRenew: false });
+    expect(user.credits).toBe(100);
+    expect(entries.map((entry) => [entry.type, entry.amount, entry.balanceAfter])).toEqual([['subscription', -320, 100]]);
+  });
+
+  it('keeps a balance already within the free allowance', async () => {
+    const user = subscriber(new Date(Date.now() - DAY), 12);
+
+    await expect(expireSubscription(user)).resolves.toBe(true);
+
+    expect(user.credits).toBe(12);
+    expect(entries).toHaveLength(0);
+  });
+
+  it('leaves a running period alone', async () => {
+    const user = subscriber(new Date(Date.now() + DAY));
+
+    await expect(expireSubscription(user)).resolves.toBe(false);
+
+    expect(updates).not.toHaveBeenCalled();
+    expect(user.role).toBe(UserRole.STANDARD);
+  });
+
+  it('lapses once when a concurrent request got there first', async () => {
+    updates.mockResolvedValue(null);
+    const user = subscriber(new Date(Date.now() - DAY));
+
+    await expect(expireSubscription(user)).resolves.toBe(false);
+
+    expect(user.role).toBe(UserRole.STANDARD);
+    expect(entries).toHaveLength(0);
+  });
+});
+
+describe('creditService.expireLapsedSubscriptions', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('lapses every plan the sweep finds and keeps going past a failure', async () => {
+    const users = [subscriber(new Date(Date.now() - DAY)), subscriber(new Date(Date.now() - 2 * DAY))];
+    const find = fake(User, 'find', () => ({ limit: async () => users }));
+    fake(User, 'findOneAndUpdate', async (filter: { _id: unknown }) => {
+      if (filter._id === users[0]._id) throw new Error('write conflict');
+      return {};
+    });
+    fake(CreditLedger, 'create', async (doc: object) => new CreditLedger(doc));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await expect(expireLapsedSubscriptions()).resolves.toBe(1);
+
+    expect(find.mock.calls[0][0]).toMatchObject({ 'subscription.endDate': { $lte: expect.any(Date) } });
+    expect(users.map((user) => user.role)).toEqual([UserRole.STANDARD, UserRole.FREE]);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Credit Service
+ * Cost table for metered AI operations, atomic balance changes recorded
+ * in the credit ledger, and the fall back to the free plan when a paid
+ * period ends
+ */
+
+import mongoose from 'mongoose';
+import { User, IUser, UserRole } from '../models/User';
+import { CreditLedger, CreditEntryType, ICreditLedgerEntry } from '../models/CreditLedger';
+import { AuthRequest } from '../types';
+
+// Balance stored for plans with unlimited credits (plan credits === -1)
+export const UNLIMITED_CREDITS = 999999;
+
+// Allowance of the free plan, which a lapsed paid plan falls back to
+const FREE_PLAN_CREDITS = parseInt(process.env.FREE_PLAN_CREDITS || '100');
+
+// How often ended paid plans are looked for
+const EXPIRY_INTERVAL_MS = 60 * 60 * 1000;
+
+export type CreditOperation =
+  | 'ai.suggestions'
+  | 'ai.analyze'
+  | 'ai.generate-titles'
+  | 'ai.generate-synopsis'
+  | 'ai.generate-cover-colors'
+  | 'ai.generate-cover'
+  | 'ai.generate-image'
+  | 'ai.generate-variations'
+  | 'ai.generate-illustration'
+  | 'ai.preview-prompt'
+  | 'ai.design-book'
+  | 'ai.design-typography'
+  | 'ai.suggest-images'
+  | 'ai.generate-contextual-image'
+  | 'ai.design-complete'
+  | 'ai.design-wizard'
+  | 'ai.design-preview'
+  | 'ai.design-template'
+  | 'analysis.enhance-text'
+  | 'analysis.plot-structure'
+  | 'analysis.tension'
+  | 'analysis.techniques'
+  | 'analysis.continuity'
+  | 'analysis.guidance'
+  | 'analysis.score-change';
+
+// Credits charged per operation; image generation dominates the cost
+const IMAGE_COST = 5;
+
+export const CREDIT_COSTS: Record<CreditOperation, number | ((req: AuthRequest) => number)> = {
+  'ai.suggestions': 1,
+  'ai.analyze': 2,
+  'ai.generate-titles': 1,
+  'ai.generate-synopsis': 2,
+  'ai.generate-cover-colors': 1,
+  'ai.generate-cover': IMAGE_COST,
+  'ai.generate-image': IMAGE_COST,
+  'ai.generate-variations': (req) =>
+    IMAGE_COST * Math.min(Math.max(parseInt(req.body?.count, 10) || 4, 1), 4),
+  'ai.generate-illustration': IMAGE_COST,
+  'ai.preview-prompt': 1,
+  'ai.design-book': 10,
+  'ai.design-typography': 2,
+  'ai.suggest-images': 2,
+  'ai.generate-contextual-image': IMAGE_COST,
+  'ai.design-complete': (req) => (req.body?.generateImages === false ? 10 : 25),
+  'ai.design-wizard': (req) => (req.body?.generateInteriorImages ? 30 : 15),
+  'ai.design-preview': 2,
+  'ai.design-template': (req) => (req.body?.generateCoverImage ? 3 + IMAGE_COST : 3),
+  'analysis.enhance-text': 1,
+  'analysis.plot-structure': 5,
+  'analysis.tension': 5,
+  'analysis.techniques': 3,
+  // Incremental checks usually re-read only a chapter or two
+  'analysis.continuity': (req) => (req.body?.mode === 'incremental' ? 2 : 8),
+  'analysis.guidance': 1,
+  'analysis.score-change': 2,
+};
+
+/**
+ * Premium and admin users are never charged
+ */
+export function hasUnlimitedCredits(role: UserRole): boolean {
+  return role === UserRole.PREMIUM || role === UserRole.ADMIN;
+}
+
+/**
+ * Resolve the cost of an operation for a specific request
+ */
+export function getOperationCost(operation: CreditOperation, req: AuthRequest): number {
+  const cost = CREDIT_COSTS[operation];
+  return typeof cost === 'function' ? cost(req) : cost;
+}
+
+/**
+ * Append a balance change to the ledger
+ */
+export async function recordCreditEntry(entry: {
+  userId: string | mongoose.Types.ObjectId;
+  type: CreditEntryType;
+  amount: number;
+  balanceAfter: number;
+  cost?: number;
+  operation?: string;
+  bookId?: string;
+  description?: string;
+  refundOf?: mongoose.Types.ObjectId;
+}): Promise<ICreditLedgerEntry> {
+  return CreditLedger.create({
+    user: entry.userId,
+    type: entry.type,
+    operation: entry.operation,
+    cost: entry.cost ?? Math.abs(entry.amount),
+    amount: entry.amount,
+    balanceAfter: entry.balanceAfter,
+    book: entry.bookId && mongoose.isValidObjectId(entry.bookId) ? entry.bookId : undefined,
+    description: entry.description,
+    refundOf: entry.refundOf,
+  });
+}
+
+/**
+ * Record a plan change or admin edit that set the balance directly
+ */
+export async function recordBalanceChange(
+  userId: string | mongoose.Types.ObjectId,
+  type: 'subscription' | 'adjustment',
+  previousBalance: number,
+  newBalance: number,
+  description: string
+): Promise<void> {
+  if (previousBalance === newBalance) return;
+
+  await recordCreditEntry({
+    userId,
+    type,
+    amount: newBalance - previousBalance,
+    balanceAfter: newBalance,
+    description,
+  });
+}
+
+/**
+ * Charge an operation against the user's balance.
+ * The deduction is a single conditional update, so concurrent requests
+ * can never take the balance below zero. Returns null when the balance
+ * is insufficient.
+ */
+export async function chargeCredits(
+  user: IUser,
+  operation: CreditOperation,
+  cost: number,
+  bookId?: string
+): Promise<ICreditLedgerEntry | null> {
+  if (hasUnlimitedCredits(user.role) || cost <= 0) {
+    return recordCreditEntry({
+      userId: user._id as mongoose.Types.ObjectId,
+      type: 'usage',
+      operation,
+      cost,
+      amount: 0,
+      balanceAfter: user.credits,
+      bookId,
+    });
+  }
+
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id, credits: { $gte: cost } },
+    { $inc: { credits: -cost } },
+    { new: true, projection: { credits: 1 } }
+  );
+
+  if (!updated) return null;
+
+  return recordCreditEntry({
+    userId: user._id as mongoose.Types.ObjectId,
+    type: 'usage',
+    operation,
+    cost,
+    amount: -cost,
+    balanceAfter: updated.credits,
+    bookId,
+  });
+}
+
+/**
+ * Give back the credits of a usage entry whose operation failed
+ */
+export async function refundCredits(entry: ICreditLedgerEntry): Promise<void> {
+  if (entry.amount >= 0) return;
+
+  const updated = await User.findByIdAndUpdate(
+    entry.user,
+    { $inc: { credits: -entry.amount } },
+    { new: true, projection: { credits: 1 } }
+  );
+
+  if (!updated) return;
+
+  await recordCreditEntry({
+    userId: entry.user,
+    type: 'refund',
+    operation: entry.operation,
+    cost: entry.cost,
+    amount: -entry.amount,
+    balanceAfter: updated.credits,
+    bookId: entry.book?.toString(),
+    description: 'Operation failed',
+    refundOf: entry._id as mongoose.Types.ObjectId,
+  });
+}
+
+/**
+ * Move a paid plan whose billing period has ended back to the free plan.
+ * There is no recurring billing - a new period and its credits only come
+ * from a captured payment - so nothing is refilled here. Applied when an
+ * access token is issued, when credits are read or charged, and by the
+ * periodic sweep below. Returns true if the plan lapsed.
+ */
+export async function expireSubscription(user: IUser): Promise<boolean> {
+  const subscription = user.subscription;
+
+  if (
+    !subscription ||
+    subscription.tier === UserRole.FREE ||
+    user.role === UserRole.ADMIN ||
+    subscription.endDate > new Date()
+  ) {
+    return false;
+  }
+
+  // Paid credits beyond the free allowance go with the plan
+  const credits = Math.min(user.credits, FREE_PLAN_CREDITS);
+
+  // Guard on the lapsed period so concurrent requests downgrade only once
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id, 'subscription.tier': subscription.tier, 'subscription.endDate': subscription.endDate },
+    {
+      $set: {
+        role: UserRole.FREE,
+        credits,
+        'subscription.tier': UserRole.FREE,
+        'subscription.price': 0,
+        'subscription.credits': FREE_PLAN_CREDITS,
+        'subscription.autoRenew': false,
+      },
+    },
+    { new: true }
+  );
+
+  if (!updated) return false;
+
+  await recordBalanceChange(
+    user._id as mongoose.Types.ObjectId,
+    'subscription',
+    user.credits,
+    credits,
+    `${subscription.tier} plan ended; moved to the free plan`
+  );
+
+  user.role = UserRole.FREE;
+  user.credits = credits;
+  subscription.tier = UserRole.FREE;
+  subscription.price = 0;
+  subscription.credits = FREE_PLAN_CREDITS;
+  subscription.autoRenew = false;
+  return true;
+}
+
+/**
+ * Lapse every paid plan whose billing period has ended
+ */
+export async function expireLapsedSubscriptions(): Promise<number> {
+  const lapsed = await User.find({
+    role: { $ne: UserRole.ADMIN },
+    'subscription.tier': { $ne: UserRole.FREE },
+    'subscription.endDate': { $lte: new Date() },
+  }).limit(100);
+
+  let expired = 0;
+  for (const user of lapsed) {
+    try {
+      if (await expireSubscription(user)) expired++;
+    } catch (error) {
+      console.error(`Failed to expire the plan of user ${user._id}:`, error);
+    }
+  }
+
+  return expired;
+}
+
+/**
+ * Look for ended plans every hour. Needs a long-running process, so it is
+ * not started on Vercel - there plans lapse when tokens are issued.
+ */
+export function startSubscriptionExpiry(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    expireLapsedSubscriptions().catch((err) => console.error('Failed to expire subscriptions:', err));
+  }, EXPIRY_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
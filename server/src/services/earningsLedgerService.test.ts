@@ -0,0 +1,387 @@
+import mongoose from 'mongoose';
+import { EarningsLedger, IEarningsEntry } from '../models/EarningsLedger';
+import { Transaction } from '../models/Transaction';
+import { fake, fakeEarningsLedger, queryOf } from '../test/fixtures';
+import { postPartialRefund, postRefund, postSale, reconcileEarnings, reservePayout } from './earningsLedgerService';
+
+const authorId = new mongoose.Types.ObjectId().toString();
+const coAuthorId = new mongoose.Types.ObjectId().toString();
+const bookId = new mongoose.Types.ObjectId().toString();
+
+const sumOf = (entry: IEarningsEntry) => entry.lines.reduce((sum, line) => sum + line.amount, 0);
+
+describe('earningsLedgerService', () => {
+  let stored: IEarningsEntry[];
+
+  beforeEach(() => {
+    stored = fakeEarningsLedger();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('postSale', () => {
+    it('credits each earner and the platform against the buyer payment', async () => {
+      const transactionId = new mongoose.Types.ObjectId();
+
+      const entry = await postSale({
+        idempotencyKey: 'sale:ORDER-1',
+        amount: 10,
+        revenueSplit: [
+          { userId: authorId, amount: 4.2, revenueShare: 60 },
+          { userId: coAuthorId, amount: 2.8, revenueShare: 40 },
+        ],
+        bookId,
+        transactionId,
+      });
+
+      expect(entry).not.toBeNull();
+      expect(sumOf(entry!)).toBe(0);
+      expect(entry!.lines.map((line) => [line.account, line.user?.toString(), line.amount])).toEqual([
+        ['buyer_payments', undefined, 1000],
+        ['author_payable', authorId, -420],
+        ['author_payable', coAuthorId, -280],
+        ['platform_revenue', undefined, -300],
+      ]);
+      expect(entry!.transactionRef?.toString()).toBe(transactionId.toString());
+      expect(entry!.book?.toString()).toBe(bookId);
+    });
+
+    it('lets the platform line absorb rounding so the entry balances', async () => {
+      const entry = await postSale({
+        idempotencyKey: 'sale:ORDER-2',
+        amount: 9.99,
+        revenueSplit: [
+          { userId: authorId, amount: 9.99 * 0.7 * (2 / 3), revenueShare: 66.67 },
+          { userId: coAuthorId, amount: 9.99 * 0.7 * (1 / 3), revenueShare: 33.33 },
+        ],
+        bookId,
+      });
+
+      expect(entry!.lines.every((line) => Number.isInteger(line.amount))).toBe(true);
+      expect(sumOf(entry!)).toBe(0);
+    });
+
+    it('skips earners with nothing to receive', async () => {
+      const entry = await postSale({
+        idempotencyKey: 'sale:ORDER-3',
+        amount: 5,
+        revenueSplit: [
+          { userId: authorId, amount: 3.5, revenueShare: 100 },
+          { userId: coAuthorId, amount: 0, revenueShare: 0 },
+        ],
+        bookId,
+      });
+
+      expect(entry!.lines.filter((line) => line.account === 'author_payable')).toHaveLength(1);
+    });
+
+    it('records a retried sale once', async () => {
+      const sale = {
+        idempotencyKey: 'sale:ORDER-4',
+        amount: 10,
+        revenueSplit: [{ userId: authorId, amount: 7, revenueShare: 100 }],
+        bookId,
+      };
+
+      const [first, second] = await Promise.all([postSale(sale), postSale(sale)]);
+
+      expect([first, second].filter(Boolean)).toHaveLength(1);
+      expect(stored).toHaveLength(1);
+    });
+  });
+
+  describe('postRefund', () => {
+    it('reverses every line of the sale', async () => {
+      const transactionId = new mongoose.Types.ObjectId();
+      const sale = await postSale({
+        idempotencyKey: 'sale:ORDER-5',
+        amount: 12.5,
+        revenueSplit: [{ userId: authorId, amount: 8.75, revenueShare: 100 }],
+        bookId,
+        transactionId,
+      });
+
+      const refund = await postRefund(transactionId, 'Refund approved');
+
+      expect(refund!.type).toBe('refund');
+      expect(refund!.reverses?.toString()).toBe(sale!._id!.toString());
+      expect(refund!.lines.map((line) => line.amount)).toEqual(sale!.lines.map((line) => -line.amount));
+      expect(sumOf(refund!)).toBe(0);
+    });
+
+    it('refunds a sale once', async () => {
+      const transactionId = new mongoose.Types.ObjectId();
+      await postSale({
+        idempotencyKey: 'sale:ORDER-6',
+        amount: 10,
+        revenueSplit: [{ userId: authorId, amount: 7, revenueShare: 100 }],
+        bookId,
+        transactionId,
+      });
+
+      expect(await postRefund(transactionId)).not.toBeNull();
+      expect(await postRefund(transactionId)).toBeNull();
+      expect(stored.filter((entry) => entry.type === 'refund')).toHaveLength(1);
+    });
+
+    it('does nothing for a sale that was never recorded', async () => {
+      await expect(postRefund(new mongoose.Types.ObjectId())).resolves.toBeNull();
+      expect(stored).toHaveLength(0);
+    });
+
+    it('reverses only what partial refunds left of the sale', async () => {
+      const transactionId = new mongoose.Types.ObjectId();
+      await postSale({
+        idempotencyKey: 'sale:ORDER-7',
+        amount: 10,
+        revenueSplit: [{ userId: authorId, amount: 7, revenueShare: 100 }],
+        bookId,
+        transactionId,
+      });
+      await postPartialRefund({ transactionId, paypalRefundId: 'REFUND-A', amount: 4 });
+
+      const refund = await postRefund(transactionId);
+
+      expect(refund!.lines.map((line) => line.amount)).toEqual([-600, 420, 180]);
+      // Sale, partial refund and refund leave every account where it started
+      const net = (account: string) =>
+        stored
+          .flatMap((entry) => entry.lines)
+          .filter((line) => line.account === account)
+          .reduce((sum, line) => sum + line.amount, 0);
+      expect(['buyer_payments', 'author_payable', 'platform_revenue'].map(net)).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('postPartialRefund', () => {
+    const transactionId = new mongoose.Types.ObjectId();
+
+    beforeEach(async () => {
+      await postSale({
+        idempotencyKey: 'sale:ORDER-8',
+        amount: 9.99,
+        revenueSplit: [
+          { userId: authorId, amount: 4.2, revenueShare: 60 },
+          { userId: coAuthorId, amount: 2.8, revenueShare: 40 },
+        ],
+        bookId,
+        transactionId,
+      });
+    });
+
+    it('takes back each share in proportion to the refunded part', async () => {
+      const entry = await postPartialRefund({ transactionId, paypalRefundId: 'REFUND-A', amount: 3.33 });
+
+      expect(entry!.type).toBe('partial_refund');
+      expect(entry!.idempotencyKey).toBe('partial_refund:REFUND-A');
+      expect(entry!.lines.map((line) => [line.account, line.user?.toString(), line.amount])).toEqual([
+        ['buyer_payments', undefined, -333],
+        ['author_payable', authorId, 140],
+        ['author_payable', coAuthorId, 93],
+        ['platform_revenue', undefined, 100],
+      ]);
+      expect(sumOf(entry!)).toBe(0);
+    });
+
+    it('posts each PayPal refund once', async () => {
+      expect(await postPartialRefund({ transactionId, paypalRefundId: 'REFUND-A', amount: 2 })).not.toBeNull();
+      expect(await postPartialRefund({ transactionId, paypalRefundId: 'REFUND-A', amount: 2 })).toBeNull();
+      expect(await postPartialRefund({ transactionId, paypalRefundId: 'REFUND-B', amount: 2 })).not.toBeNull();
+      expect(stored.filter((entry) => entry.type === 'partial_refund')).toHaveLength(2);
+    });
+  });
+
+  describe('reservePayout', () => {
+    // The author's payable balance, summed from the stored lines
+    const payableTotal = () =>
+      stored
+        .flatMap((entry) => entry.lines)
+        .filter((line) => line.account === 'author_payable' && line.user?.toString() === authorId)
+        .reduce((sum, line) => sum + line.amount, 0);
+
+    beforeEach(async () => {
+      await postSale({
+        idempotencyKey: 'sale:ORDER-7',
+        amount: 50,
+        revenueSplit: [{ userId: authorId, amount: 35, revenueShare: 100 }],
+        bookId,
+      });
+
+      fake(EarningsLedger, 'find', () => queryOf(stored.slice(-1)));
+      fake(EarningsLedger, 'aggregate', async () => [{ total: payableTotal() }]);
+    });
+
+    it('moves the whole payable balance to payouts', async () => {
+      const { entry, amount } = await reservePayout(authorId, {
+        paypalEmail: 'author@example.com',
+        minimum: 10,
+        status: 'pending',
+      });
+
+      expect(amount).toBe(35);
+      expect(sumOf(entry)).toBe(0);
+      expect(payableTotal()).toBe(0);
+    });
+
+    it('refuses a balance below the minimum', async () => {
+      await expect(
+        reservePayout(authorId, { paypalEmail: 'author@example.com', minimum: 50, status: 'pending' })
+      ).rejects.toThrow('Minimum payout threshold is $50. Current balance: $35.00');
+    });
+
+    it('pays a balance once when two requests race for it', async () => {
+      const payout = { paypalEmail: 'author@example.com', minimum: 10, status: 'pending' as const };
+
+      const results = await Promise.allSettled([reservePayout(authorId, payout), reservePayout(authorId, payout)]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find((result) => result.status === 'rejected')).toMatchObject({
+        reason: { message: 'A payout of this balance is already in progress' },
+      });
+      expect(stored.filter((entry) => entry.type === 'payout')).toHaveLength(1);
+    });
+  });
+
+  describe('reconcileEarnings', () => {
+    const purchase = (_id: mongoose.Types.ObjectId, amount: number, status = 'completed', metadata: object = {}) => ({
+      _id,
+      amount,
+      orderId: `ORDER-${_id}`,
+      status,
+      metadata: { type: 'book_purchase', ...metadata },
+      createdAt: new Date(),
+    });
+
+    const sell = (transactionId: mongoose.Types.ObjectId, amount: number) =>
+      postSale({
+        idempotencyKey: `sale:${transactionId}`,
+        amount,
+        revenueSplit: [{ userId: authorId, amount: amount * 0.7, revenueShare: 100 }],
+        bookId,
+        transactionId,
+      });
+
+    // Completed purchases answer the first query, the rest are looked up by id
+    const useTransactions = (transactions: Array<ReturnType<typeof purchase>>) =>
+      fake(Transaction, 'find', (filter: { status?: string }) =>
+        queryOf(transactions.filter((t) => (filter.status === 'completed') === (t.status === 'completed')))
+      );
+
+    beforeEach(() => {
+      fake(EarningsLedger, 'find', (filter: { type: string }) =>
+        queryOf(stored.filter((entry) => entry.type === filter.type).map((entry) => entry.toObject()))
+      );
+      fake(EarningsLedger, 'aggregate', async () => {
+        const totals = new Map<string, number>();
+        stored
+          .flatMap((entry) => entry.lines)
+          .forEach((line) => totals.set(line.account, (totals.get(line.account) || 0) + line.amount));
+        return Array.from(totals, ([_id, total]) => ({ _id, total }));
+      });
+    });
+
+    it('reports purchases without a sale and sales of a different amount', async () => {
+      const recorded = new mongoose.Types.ObjectId();
+      const mismatched = new mongoose.Types.ObjectId();
+      const missing = new mongoose.Types.ObjectId();
+      await sell(recorded, 10);
+      await sell(mismatched, 8);
+      useTransactions([purchase(recorded, 10), purchase(mismatched, 9), purchase(missing, 12)]);
+
+      const report = await reconcileEarnings();
+
+      expect(report.missingEntries.map((entry) => [entry.transactionId, entry.amount])).toEqual([
+        [missing.toString(), 12],
+      ]);
+      expect(report.amountMismatches).toEqual([
+        { transactionId: mismatched.toString(), transactionAmount: 9, ledgerAmount: 8 },
+      ]);
+      expect(report.orphanEntries).toEqual([]);
+      expect(report.transactions).toEqual({ count: 3, total: 31 });
+      expect(report.sales).toEqual({ count: 2, total: 18 });
+      expect(report.accounts.buyer_payments).toBe(18);
+      expect(report.balanced).toBe(true);
+    });
+
+    it('reports refunded purchases whose sale was never reversed', async () => {
+      const reversed = new mongoose.Types.ObjectId();
+      const unreversed = new mongoose.Types.ObjectId();
+      await sell(reversed, 10);
+      await sell(unreversed, 6);
+      await postRefund(reversed);
+      useTransactions([purchase(reversed, 10, 'refunded'), purchase(unreversed, 6, 'refunded')]);
+
+      const report = await reconcileEarnings();
+
+      expect(report.unreversedRefunds).toEqual([{ transactionId: unreversed.toString(), amount: 6 }]);
+      expect(report.orphanEntries).toEqual([]);
+      expect(report.refunds).toEqual({ count: 1, total: 10 });
+    });
+
+    it('reports partial refunds recorded on a purchase but not in the ledger', async () => {
+      const transactionId = new mongoose.Types.ObjectId();
+      await sell(transactionId, 10);
+      await postPartialRefund({ transactionId, paypalRefundId: 'REFUND-A', amount: 2 });
+      useTransactions([
+        purchase(transactionId, 10, 'completed', {
+          partialRefunds: [
+            { paypalRefundId: 'REFUND-A', amount: 2 },
+            { paypalRefundId: 'REFUND-B', amount: 3 },
+          ],
+        }),
+      ]);
+
+      const report = await reconcileEarnings();
+
+      expect(report.partialRefunds).toEqual({ count: 1, total: 2 });
+      expect(report.unreversedPartialRefunds).toEqual([
+        { transactionId: transactionId.toString(), paypalRefundId: 'REFUND-B', amount: 3 },
+      ]);
+      expect(report.amountMismatches).toEqual([]);
+      expect(report.balanced).toBe(true);
+    });
+
+    it('matches sales partly paid from a gift card balance against the full price', async () => {
+      const transactionId = new mongoose.Types.ObjectId();
+      await sell(transactionId, 10);
+      useTransactions([purchase(transactionId, 6, 'completed', { giftBalanceUsed: 4 })]);
+
+      const report = await reconcileEarnings();
+
+      expect(report.amountMismatches).toEqual([]);
+      expect(report.missingEntries).toEqual([]);
+      expect(report.transactions.total).toBe(10);
+      expect(report.sales.total).toBe(10);
+    });
+  });
+
+  describe('EarningsLedger model', () => {
+    it('rejects entries whose lines do not balance', async () => {
+      const entry = new EarningsLedger({
+        type: 'sale',
+        idempotencyKey: 'sale:UNBALANCED',
+        lines: [
+          { account: 'buyer_payments', amount: 1000 },
+          { account: 'platform_revenue', amount: -999 },
+        ],
+      });
+
+      await expect(entry.validate()).rejects.toThrow('Ledger entry lines must balance to zero');
+    });
+
+    it('rejects fractional cents', async () => {
+      const entry = new EarningsLedger({
+        type: 'sale',
+        idempotencyKey: 'sale:FRACTIONAL',
+        lines: [
+          { account: 'buyer_payments', amount: 10.5 },
+          { account: 'platform_revenue', amount: -10.5 },
+        ],
+      });
+
+      await expect(entry.validate()).rejects.toThrow('Ledger amounts are whole cents');
+    });
+  });
+});
@@ -0,0 +1,525 @@
+/**
+ * Earnings Ledger Service
+ * Posts book sales, refunds and author payouts to the double-entry earnings
+ * ledger, derives balances from it, and reconciles it against buyer
+ * transactions. Every posting carries an idempotency key, so a sale or
+ * payout retried or raced by concurrent requests is recorded once.
+ */
+
+import mongoose from 'mongoose';
+import {
+  EarningsLedger,
+  EarningsAccount,
+  EarningsEntryType,
+  IEarningsEntry,
+  IEarningsLine,
+  EARNINGS_ACCOUNTS,
+} from '../models/EarningsLedger';
+import { Transaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { RevenueSplit } from './collaborationService';
+import { ConflictError, ValidationError } from '../utils/errors';
+
+export interface EarningsSummary {
+  totalEarned: number;
+  pendingPayout: number;
+  withdrawn: number;
+  lastPayoutDate?: Date;
+  history: Array<{
+    amount: number;
+    date: Date;
+    status: 'pending' | 'completed' | 'failed';
+    paypalEmail: string;
+  }>;
+}
+
+export interface ReconciliationReport {
+  from?: Date;
+  to?: Date;
+  transactions: { count: number; total: number };
+  sales: { count: number; total: number };
+  refunds: { count: number; total: number };
+  partialRefunds: { count: number; total: number };
+  missingEntries: Array<{ transactionId: string; orderId?: string; amount: number; date: Date }>;
+  orphanEntries: Array<{ entryId: string; transactionId?: string; amount: number; transactionStatus?: string }>;
+  amountMismatches: Array<{ transactionId: string; transactionAmount: number; ledgerAmount: number }>;
+  unreversedRefunds: Array<{ transactionId: string; amount: number }>; // Refunded, but the sale still stands
+  unreversedPartialRefunds: Array<{ transactionId: string; paypalRefundId: string; amount: number }>;
+  accounts: Record<EarningsAccount, number>;
+  balanced: boolean;
+}
+
+// ============================================
+// AMOUNTS
+// ============================================
+
+// Ledger lines are whole cents; the rest of the app works in dollars
+const toCents = (dollars: number): number => Math.round(dollars * 100);
+const toDollars = (cents: number): number => cents / 100;
+
+const userId = (id: string | mongoose.Types.ObjectId) => new mongoose.Types.ObjectId(id.toString());
+
+// ============================================
+// POSTING
+// ============================================
+
+/**
+ * Append an entry. Returns null when an entry with the same idempotency
+ * key already exists.
+ */
+async function postEntry(entry: {
+  type: EarningsEntryType;
+  idempotencyKey: string;
+  lines: IEarningsLine[];
+  transactionRef?: mongoose.Types.ObjectId;
+  book?: mongoose.Types.ObjectId;
+  payout?: IEarningsEntry['payout'];
+  reverses?: mongoose.Types.ObjectId;
+  description?: string;
+}): Promise<IEarningsEntry | null> {
+  try {
+    return await EarningsLedger.create(entry);
+  } catch (error: any) {
+    if (error.code === 11000) return null;
+    throw error;
+  }
+}
+
+/**
+ * Record a sale: the buyer's payment against each earner's share and the
+ * platform's revenue. The platform line absorbs rounding so the entry
+ * always balances. Returns null if the sale was already recorded.
+ */
+export async function postSale(sale: {
+  idempotencyKey: string;
+  amount: number;
+  revenueSplit: RevenueSplit[];
+  bookId?: string | mongoose.Types.ObjectId; // Omitted for a series bundle
+  transactionId?: string | mongoose.Types.ObjectId;
+  description?: string;
+}): Promise<IEarningsEntry | null> {
+  const total = toCents(sale.amount);
+  const earned = sale.revenueSplit
+    .filter((split) => split.amount > 0)
+    .map((split) => ({ account: 'author_payable' as const, user: userId(split.userId), amount: -toCents(split.amount) }));
+  const paidToEarners = earned.reduce((sum, line) => sum + line.amount, 0);
+
+  return postEntry({
+    type: 'sale',
+    idempotencyKey: sale.idempotencyKey,
+    lines: [
+      { account: 'buyer_payments', amount: total },
+      ...earned,
+      { account: 'platform_revenue', amount: -(total + paidToEarners) },
+    ],
+    transactionRef: sale.transactionId ? userId(sale.transactionId) : undefined,
+    book: sale.bookId ? userId(sale.bookId) : undefined,
+    description: sale.description,
+  });
+}
+
+/**
+ * Undo a refunded sale: the buyer is paid back and each earner's share
+ * and the platform's revenue are taken back, less what partial refunds
+ * already took. Earners who were already paid out go negative until
+ * later sales cover it. Returns null if the sale was never recorded or
+ * the refund already was.
+ */
+export async function postRefund(
+  transactionId: string | mongoose.Types.ObjectId,
+  description?: string
+): Promise<IEarningsEntry | null> {
+  const sale = await EarningsLedger.findOne({ type: 'sale', transactionRef: userId(transactionId) });
+  if (!sale) return null;
+
+  const partials = await EarningsLedger.find({ type: 'partial_refund', transactionRef: sale.transactionRef });
+  const partialLines = partials.flatMap((entry) => entry.lines);
+  const remaining = (line: IEarningsLine) =>
+    partialLines
+      .filter((partial) => partial.account === line.account && partial.user?.toString() === line.user?.toString())
+      .reduce((sum, partial) => sum + partial.amount, line.amount);
+
+  return postEntry({
+    type: 'refund',
+    idempotencyKey: `refund:${transactionId}`,
+    lines: sale.lines.map((line) => ({ account: line.account, user: line.user, amount: -remaining(line) })),
+    transactionRef: sale.transactionRef,
+    book: sale.book,
+    reverses: sale._id as mongoose.Types.ObjectId,
+    description,
+  });
+}
+
+/**
+ * Undo part of a sale after a partial refund: the refunded amount goes
+ * back to the buyer, and each earner's share shrinks in proportion. The
+ * platform line absorbs rounding. Keyed on the PayPal refund, so each is
+ * posted once. Returns null if the sale was never recorded or the refund
+ * already was.
+ */
+export async function postPartialRefund(refund: {
+  transactionId: string | mongoose.Types.ObjectId;
+  paypalRefundId: string;
+  amount: number;
+  description?: string;
+}): Promise<IEarningsEntry | null> {
+  const sale = await EarningsLedger.findOne({ type: 'sale', transactionRef: userId(refund.transactionId) });
+  if (!sale) return null;
+
+  const paid = sale.lines.find((line) => line.account === 'buyer_payments')?.amount || 0;
+  if (paid <= 0) return null;
+  const refunded = Math.min(toCents(refund.amount), paid);
+
+  const earned = sale.lines
+    .filter((line) => line.account === 'author_payable')
+    .map((line) => ({ account: line.account, user: line.user, amount: -Math.round((line.amount * refunded) / paid) }));
+  const takenFromEarners = earned.reduce((sum, line) => sum + line.amount, 0);
+
+  return postEntry({
+    type: 'partial_refund',
+    idempotencyKey: `partial_refund:${refund.paypalRefundId}`,
+    lines: [
+      { account: 'buyer_payments', amount: -refunded },
+      ...earned,
+      { account: 'platform_revenue', amount: refunded - takenFromEarners },
+    ],
+    transactionRef: sale.transactionRef,
+    book: sale.book,
+    reverses: sale._id as mongoose.Types.ObjectId,
+    description: refund.description,
+  });
+}
+
+/**
+ * Move a user's payable balance (or part of it) to payouts before the
+ * money is sent. The key names the last entry the balance was computed
+ * from, so two requests racing on the same balance cannot both pay it.
+ */
+export async function reservePayout(
+  user: string,
+  payout: {
+    paypalEmail: string;
+    minimum: number;
+    status: 'pending' | 'completed';
+    amount?: number; // Defaults to the whole balance
+  }
+): Promise<{ entry: IEarningsEntry; amount: number }> {
+  const { paypalEmail, minimum, status } = payout;
+  const [latest] = await EarningsLedger.find({ lines: { $elemMatch: { account: 'author_payable', user: userId(user) } } })
+    .sort({ createdAt: -1, _id: -1 })
+    .limit(1)
+    .select('_id');
+  const balance = await getPayableBalanceCents(user);
+
+  const amount = payout.amount === undefined ? balance : toCents(payout.amount);
+
+  if (!latest || toDollars(amount) < minimum) {
+    throw new ValidationError(
+      `Minimum payout threshold is $${minimum}. Current balance: $${toDollars(balance).toFixed(2)}`
+    );
+  }
+  if (amount > balance) {
+    throw new ValidationError(`Insufficient balance. Available: $${toDollars(balance).toFixed(2)}`);
+  }
+
+  const entry = await postEntry({
+    type: 'payout',
+    idempotencyKey: `payout:${user}:${latest._id}`,
+    lines: [
+      { account: 'author_payable', user: userId(user), amount },
+      { account: 'payouts', amount: -amount },
+    ],
+    payout: { paypalEmail, status },
+    description: `Payout to ${paypalEmail}`,
+  });
+  if (!entry) {
+    throw new ConflictError('A payout of this balance is already in progress');
+  }
+
+  // A sale posted between reading the balance and posting can still let
+  // two payouts through; whichever overdraws backs out
+  if ((await getPayableBalanceCents(user)) < 0) {
+    await reversePayout(entry, 'Overlapping payout request');
+    throw new ConflictError('A payout of this balance is already in progress');
+  }
+
+  return { entry, amount: toDollars(amount) };
+}
+
+/**
+ * Return a payout that could not be sent to the user's balance
+ */
+export async function reversePayout(payout: IEarningsEntry, reason: string): Promise<void> {
+  await postEntry({
+    type: 'payout_reversal',
+    idempotencyKey: `payout_reversal:${payout._id}`,
+    lines: payout.lines.map((line) => ({ account: line.account, user: line.user, amount: -line.amount })),
+    reverses: payout._id as mongoose.Types.ObjectId,
+    description: reason,
+  });
+}
+
+// ============================================
+// BALANCES
+// ============================================
+
+async function getPayableBalanceCents(user: string): Promise<number> {
+  const [result] = await EarningsLedger.aggregate([
+    { $match: { 'lines.user': userId(user) } },
+    { $unwind: '$lines' },
+    { $match: { 'lines.account': 'author_payable', 'lines.user': userId(user) } },
+    { $group: { _id: null, total: { $sum: '$lines.amount' } } },
+  ]);
+  // Payable is a credit balance: credits are negative
+  return -(result?.total || 0);
+}
+
+/**
+ * What a user has earned, is owed and has been paid, from their ledger lines
+ */
+export async function getEarningsSummary(user: string): Promise<EarningsSummary> {
+  const entries = await EarningsLedger.find({ 'lines.user': userId(user) }).sort({ createdAt: -1 }).lean();
+
+  let earned = 0;
+  let withdrawn = 0;
+  let balance = 0;
+  const reversed = new Set(
+    entries.filter((e) => e.type === 'payout_reversal').map((e) => e.reverses!.toString())
+  );
+  const history: EarningsSummary['history'] = [];
+  let lastPayoutDate: Date | undefined;
+
+  for (const entry of entries) {
+    const amount = entry.lines
+      .filter((line) => line.account === 'author_payable' && line.user?.toString() === user)
+      .reduce((sum, line) => sum + line.amount, 0);
+    balance -= amount;
+
+    if (['sale', 'refund', 'partial_refund', 'opening_balance'].includes(entry.type)) {
+      earned -= amount;
+    } else if (entry.type === 'payout' || entry.type === 'payout_reversal') {
+      withdrawn += amount;
+    }
+
+    if (entry.type === 'payout') {
+      const failed = reversed.has(entry._id.toString());
+      history.push({
+        amount: toDollars(amount),
+        date: entry.createdAt,
+        status: failed ? 'failed' : entry.payout?.status || 'completed',
+        paypalEmail: entry.payout?.paypalEmail || '',
+      });
+      if (!failed && !lastPayoutDate) lastPayoutDate = entry.createdAt;
+    }
+  }
+
+  return {
+    totalEarned: toDollars(earned),
+    pendingPayout: toDollars(balance),
+    withdrawn: toDollars(withdrawn),
+    lastPayoutDate,
+    history,
+  };
+}
+
+// ============================================
+// RECONCILIATION
+// ============================================
+
+/**
+ * Compare completed book and series bundle purchases with recorded sales
+ * and partial refunds over a period, and total every account. A healthy
+ * ledger has no missing, orphan, mismatched or unreversed entries and
+ * accounts summing to zero.
+ */
+export async function reconcileEarnings(from?: Date, to?: Date): Promise<ReconciliationReport> {
+  const createdAt: Record<string, Date> = {};
+  if (from) createdAt.$gte = from;
+  if (to) createdAt.$lt = to;
+  const period = from || to ? { createdAt } : {};
+
+  const [transactions, sales, refunds, partialRefunds, accountTotals] = await Promise.all([
+    Transaction.find({
+      ...period,
+      'metadata.type': { $in: ['book_purchase', 'series_purchase'] },
+      status: 'completed',
+    }).lean(),
+    EarningsLedger.find({ ...period, type: 'sale', transactionRef: { $exists: true } }).lean(),
+    EarningsLedger.find({ type: 'refund' }).select('transactionRef lines createdAt').lean(),
+    EarningsLedger.find({ type: 'partial_refund' }).select('idempotencyKey lines createdAt').lean(),
+    EarningsLedger.aggregate([
+      { $unwind: '$lines' },
+      { $group: { _id: '$lines.account', total: { $sum: '$lines.amount' } } },
+    ]),
+  ]);
+
+  const saleAmount = (entry: Pick<IEarningsEntry, 'lines'>) =>
+    entry.lines.find((line) => line.account === 'buyer_payments')?.amount || 0;
+  const refundedTransactions = new Set(refunds.map((entry) => entry.transactionRef?.toString()));
+  const inPeriod = (entry: { createdAt: Date }) => (!from || entry.createdAt >= from) && (!to || entry.createdAt < to);
+  const refundsInPeriod = refunds.filter(inPeriod);
+  const partialRefundsInPeriod = partialRefunds.filter(inPeriod);
+  const salesByTransaction = new Map(sales.map((entry) => [entry.transactionRef!.toString(), entry]));
+  const transactionIds = new Set(transactions.map((t) => t._id.toString()));
+  const postedPartialRefunds = new Set(partialRefunds.map((entry) => entry.idempotencyKey));
+
+  // A sale is the full price; the transaction holds only what PayPal
+  // charged, after any gift card balance
+  const paidAmount = (t: (typeof transactions)[number]) => t.amount + ((t.metadata as any)?.giftBalanceUsed || 0);
+
+  const report: ReconciliationReport = {
+    from,
+    to,
+    transactions: {
+      count: transactions.length,
+      total: toDollars(transactions.reduce((sum, t) => sum + toCents(paidAmount(t)), 0)),
+    },
+    sales: { count: sales.length, total: toDollars(sales.reduce((sum, entry) => sum + saleAmount(entry), 0)) },
+    refunds: {
+      count: refundsInPeriod.length,
+      total: toDollars(-refundsInPeriod.reduce((sum, entry) => sum + saleAmount(entry), 0)),
+    },
+    partialRefunds: {
+      count: partialRefundsInPeriod.length,
+      total: toDollars(-partialRefundsInPeriod.reduce((sum, entry) => sum + saleAmount(entry), 0)),
+    },
+    missingEntries: [],
+    orphanEntries: [],
+    amountMismatches: [],
+    unreversedRefunds: [],
+    unreversedPartialRefunds: [],
+    accounts: Object.fromEntries(EARNINGS_ACCOUNTS.map((account) => [account, 0])) as Record<EarningsAccount, number>,
+    balanced: true,
+  };
+
+  for (const transaction of transactions) {
+    const entry = salesByTransaction.get(transaction._id.toString());
+    if (!entry) {
+      report.missingEntries.push({
+        transactionId: transaction._id.toString(),
+        orderId: transaction.orderId,
+        amount: paidAmount(transaction),
+        date: transaction.createdAt,
+      });
+    } else if (saleAmount(entry) !== toCents(paidAmount(transaction))) {
+      report.amountMismatches.push({
+        transactionId: transaction._id.toString(),
+        transactionAmount: paidAmount(transaction),
+        ledgerAmount: toDollars(saleAmount(entry)),
+      });
+    }
+
+    // Partial refunds recorded on the purchase need their ledger entry too
+    const partials = ((transaction.metadata as any)?.partialRefunds || []) as Array<{
+      paypalRefundId?: string;
+      amount: number;
+    }>;
+    for (const partial of partials) {
+      if (partial.paypalRefundId && !postedPartialRefunds.has(`partial_refund:${partial.paypalRefundId}`)) {
+        report.unreversedPartialRefunds.push({
+          transactionId: transaction._id.toString(),
+          paypalRefundId: partial.paypalRefundId,
+          amount: partial.amount,
+        });
+      }
+    }
+  }
+
+  // Sales whose purchase is not completed: fine once refunded in the
+  // ledger too, otherwise reported
+  const unmatched = sales.filter(
+    (entry) =>
+      !transactionIds.has(entry.transactionRef!.toString()) && !refundedTransactions.has(entry.transactionRef!.toString())
+  );
+  if (unmatched.length > 0) {
+    const statuses = await Transaction.find({ _id: { $in: unmatched.map((entry) => entry.transactionRef) } })
+      .select('status')
+      .lean();
+    const statusById = new Map(statuses.map((t) => [t._id.toString(), t.status]));
+
+    for (const entry of unmatched) {
+      const transactionId = entry.transactionRef!.toString();
+      const transactionStatus = statusById.get(transactionId);
+
+      if (transactionStatus === 'refunded') {
+        report.unreversedRefunds.push({ transactionId, amount: toDollars(saleAmount(entry)) });
+      } else {
+        report.orphanEntries.push({
+          entryId: entry._id.toString(),
+          transactionId,
+          amount: toDollars(saleAmount(entry)),
+          transactionStatus,
+        });
+      }
+    }
+  }
+
+  let sum = 0;
+  for (const { _id, total } of accountTotals) {
+    report.accounts[_id as EarningsAccount] = toDollars(total);
+    sum += total;
+  }
+  report.balanced = sum === 0;
+
+  return report;
+}
+
+// ============================================
+// LEGACY COUNTERS
+// ============================================
+
+/**
+ * Carry earnings kept in the old profile counters into the ledger: what
+ * each user earned as an opening balance, and their past withdrawals as
+ * payouts. Run by an admin after the ledger is deployed; each user is
+ * imported once, however often it runs.
+ */
+export async function importLegacyEarnings(): Promise<number> {
+  const users = await User.find({ 'profile.earnings.totalEarned': { $gt: 0 } }).select('profile.earnings');
+  let imported = 0;
+
+  for (const user of users) {
+    const earnings = user.profile!.earnings!;
+    const id = user._id.toString();
+
+    const opening = await postEntry({
+      type: 'opening_balance',
+      idempotencyKey: `opening:${id}`,
+      lines: [
+        { account: 'opening_balances', amount: toCents(earnings.totalEarned) },
+        { account: 'author_payable', user: user._id, amount: -toCents(earnings.totalEarned) },
+      ],
+      description: 'Earnings before the ledger',
+    });
+
+    // Withdrawals before the ledger, as payouts; any amount the history
+    // does not account for becomes one more
+    const payouts = (earnings.history || []).filter((item) => item.status !== 'failed').map((item) => ({
+      amount: item.amount,
+      date: item.date,
+      paypalEmail: item.paypalEmail,
+      status: item.status === 'pending' ? ('pending' as const) : ('completed' as const),
+    }));
+    const unlisted = earnings.withdrawn - payouts.reduce((sum, payout) => sum + payout.amount, 0);
+    if (unlisted > 0) {
+      payouts.push({ amount: unlisted, date: new Date(), paypalEmail: '', status: 'completed' });
+    }
+
+    for (const [index, payout] of payouts.entries()) {
+      if (toCents(payout.amount) <= 0) continue;
+      await postEntry({
+        type: 'payout',
+        idempotencyKey: `opening:${id}:payout:${index}`,
+        lines: [
+          { account: 'author_payable', user: user._id, amount: toCents(payout.amount) },
+          { account: 'payouts', amount: -toCents(payout.amount) },
+        ],
+        payout: { paypalEmail: payout.paypalEmail, status: payout.status },
+        description: `Payout before the ledger (${payout.date.toISOString().slice(0, 10)})`,
+      });
+    }
+    if (opening) imported++;
+  }
+
+  return imported;
+}
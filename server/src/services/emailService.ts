@@ -231,6 +231,11 @@ async function sendEmail({ to, subject, html }: SendEmailParams): Promise<boolea
   }
 }
 
+// Author-written text placed in an email body
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 /**
  * Generate a 6-digit verification code
  */
@@ -497,6 +502,164 @@ export async function sendSaleNotificationToAuthor(
   });
 }
 
+/**
+ * Send a book collaboration invitation
+ */
+export async function sendCollaborationInviteEmail(
+  to: string,
+  name: string,
+  inviterName: string,
+  bookTitle: string,
+  role: 'co-author' | 'editor' | 'beta-reader'
+): Promise<boolean> {
+  const roleLabels = {
+    'co-author': 'שותף/ה לכתיבה',
+    editor: 'עורך/ת',
+    'beta-reader': 'קורא/ת בטא',
+  };
+
+  const content = `
+    <div class="success-icon">✍️</div>
+    <h1>הזמנה לשיתוף פעולה</h1>
+    <div class="content">
+      <p>שלום <span class="highlight">${name}</span>,</p>
+      <p><span class="highlight">${inviterName}</span> מזמין/ה אותך לעבוד יחד על ספר!</p>
+
+      <div class="info-box">
+        <div class="info-row">
+          <span class="info-label">ספר</span>
+          <span class="info-value">${bookTitle}</span>
+        </div>
+        <div class="info-row">
+          <span class="info-label">תפקיד</span>
+          <span class="info-value">${roleLabels[role]}</span>
+        </div>
+      </div>
+
+      <p>ניתן לאשר או לדחות את ההזמנה מלוח הבקרה.</p>
+
+      <div style="text-align: center;">
+        <a href="${process.env.CLIENT_URL || 'http://localhost:5173'}/dashboard" class="button">
+          צפה בהזמנה
+        </a>
+      </div>
+    </div>
+  `;
+
+  return sendEmail({
+    to,
+    subject: `הזמנה לעבוד על "${bookTitle}" ✍️`,
+    html: getBaseTemplate(content, 'הזמנה לשיתוף פעולה'),
+  });
+}
+
+/**
+ * Send beta reading invitation email
+ */
+export async function sendBetaInviteEmail(
+  to: string,
+  inviterName: string,
+  bookTitle: string,
+  bookId: string,
+  expiresAt: Date,
+  message?: string
+): Promise<boolean> {
+  const content = `
+    <div class="success-icon">📖</div>
+    <h1>הזמנה לקריאת בטא</h1>
+    <div class="content">
+      <p><span class="highlight">${inviterName}</span> מזמין/ה אותך לקרוא את הספר לפני שהוא יוצא לאור!</p>
+
+      ${message ? `<p style="white-space: pre-line;">${escapeHtml(message)}</p>` : ''}
+
+      <div class="info-box">
+        <div class="info-row">
+          <span class="info-label">ספר</span>
+          <span class="info-value">${bookTitle}</span>
+        </div>
+        <div class="info-row">
+          <span class="info-label">גישה עד</span>
+          <span class="info-value">${expiresAt.toLocaleDateString('he-IL')}</span>
+        </div>
+      </div>
+
+      <p>התחבר/י לחשבון עם כתובת המייל הזו כדי לקרוא. בסוף כל פרק נשמח לשמוע מה חשבת.</p>
+
+      <div style="text-align: center;">
+        <a href="${process.env.CLIENT_URL || 'http://localhost:5173'}/read/${bookId}" class="button">
+          התחל לקרוא
+        </a>
+      </div>
+    </div>
+  `;
+
+  return sendEmail({
+    to,
+    subject: `הזמנה לקרוא את "${bookTitle}" לפני כולם 📖`,
+    html: getBaseTemplate(content, 'הזמנה לקריאת בטא'),
+  });
+}
+
+/**
+ * Send a gift (a book or a gift card) with its claim link
+ */
+export async function sendGiftEmail(
+  to: string,
+  senderName: string,
+  claimToken: string,
+  gift: {
+    bookTitle?: string;
+    authorName?: string;
+    amount?: number;
+    recipientName?: string;
+    message?: string;
+  }
+): Promise<boolean> {
+  const claimUrl = `${process.env.CLIENT_URL || 'http://localhost:5173'}/gifts/claim?token=${claimToken}`;
+  const what = gift.bookTitle ? `את הספר "${escapeHtml(gift.bookTitle)}"` : `כרטיס מתנה בסך $${gift.amount?.toFixed(2)}`;
+
+  const content = `
+    <div class="success-icon">🎁</div>
+    <h1>קיבלת מתנה!</h1>
+    <div class="content">
+      <p>שלום${gift.recipientName ? ` <span class="highlight">${escapeHtml(gift.recipientName)}</span>` : ''},</p>
+      <p><span class="highlight">${escapeHtml(senderName)}</span> שלח/ה לך ${what}.</p>
+
+      ${gift.message ? `<p style="white-space: pre-line;">${escapeHtml(gift.message)}</p>` : ''}
+
+      <div class="info-box">
+        ${gift.bookTitle ? `
+        <div class="info-row">
+          <span class="info-label">ספר</span>
+          <span class="info-value">${escapeHtml(gift.bookTitle)}</span>
+        </div>
+        <div class="info-row">
+          <span class="info-label">מחבר</span>
+          <span class="info-value">${escapeHtml(gift.authorName || '')}</span>
+        </div>` : `
+        <div class="info-row">
+          <span class="info-label">יתרה לרכישת ספרים</span>
+          <span class="info-value">$${gift.amount?.toFixed(2)}</span>
+        </div>`}
+      </div>
+
+      <p>התחבר/י או הירשם/י כדי לממש את המתנה. אם תירשם/י עם כתובת המייל הזו, המתנה תחכה לך בחשבון.</p>
+
+      <div style="text-align: center;">
+        <a href="${claimUrl}" class="button">
+          קבלת המתנה
+        </a>
+      </div>
+    </div>
+  `;
+
+  return sendEmail({
+    to,
+    subject: `🎁 ${senderName} שלח/ה לך מתנה`,
+    html: getBaseTemplate(content, 'מתנה'),
+  });
+}
+
 /**
  * Send password reset email
  */
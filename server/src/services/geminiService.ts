@@ -1,21 +1,5 @@
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-
-// Lazy-initialize Gemini AI client (only when API key is available)
-let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
-
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
+import { z } from 'zod';
+import { generateJSON, generateText } from './llmService';
 
 // Types for AI responses
 export interface WritingSuggestion {
@@ -38,6 +22,39 @@ export interface QualityAnalysis {
   suggestions?: string[];
 }
 
+// Expected AI responses
+const continuationsSchema = z.array(z.string()).min(1);
+
+const coverColorSchemeSchema = z.object({
+  backgroundColor: z.string(),
+  gradientColors: z.array(z.string()).default([]),
+  titleColor: z.string(),
+  authorColor: z.string(),
+  suggestion: z.string().default(''),
+});
+
+const coverDesignSchema = z.object({
+  type: z.enum(['gradient', 'pattern']).catch('gradient'),
+  backgroundColor: z.string(),
+  gradientColors: z.array(z.string()).optional(),
+  pattern: z.string().optional(),
+  overlayOpacity: z.number().min(0).max(1).optional(),
+  suggestion: z.string().default(''),
+});
+
+const qualityAnalysisSchema = z.object({
+  scores: z.object({
+    writingQuality: z.number().min(0).max(100),
+    plotStructure: z.number().min(0).max(100),
+    characterDevelopment: z.number().min(0).max(100),
+    dialogue: z.number().min(0).max(100),
+    setting: z.number().min(0).max(100),
+    originality: z.number().min(0).max(100),
+  }),
+  feedback: z.string(),
+  suggestions: z.array(z.string()).optional(),
+});
+
 // Voice Interview Summary interface for context
 interface VoiceInterviewContext {
   theme?: {
@@ -62,7 +79,7 @@ interface VoiceInterviewContext {
 }
 
 /**
- * Generate writing continuations using Gemini AI
+ * Generate writing continuations with AI
  * Section 5.2: AI Writing Assistant
  */
 export async function generateContinuations(
@@ -134,28 +151,11 @@ ${context?.storyContext?.voiceInterview ? '- Align with the story background fro
 Respond ONLY with a JSON array of 3 strings, nothing else:
 ["option1", "option2", "option3"]`;
 
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response;
-    const text = response.text();
-
-    // Parse JSON response
-    let suggestions: string[];
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = text.match(/\[[\s\S]*\]/);
-      if (jsonMatch) {
-        suggestions = JSON.parse(jsonMatch[0]);
-      } else {
-        // Fallback: split by quotes if JSON parsing fails
-        suggestions = text
-          .split('\n')
-          .filter(line => line.trim().length > 20)
-          .slice(0, 3);
-      }
-    } catch (parseError) {
-      // Fallback: return the raw text split into chunks
-      suggestions = [text.slice(0, 200), text.slice(200, 400), text.slice(400, 600)].filter(s => s.length > 0);
-    }
+    const suggestions = await generateJSON({
+      task: 'ai.suggestions',
+      prompt,
+      schema: continuationsSchema,
+    });
 
     // Ensure we have exactly 3 suggestions
     while (suggestions.length < 3) {
@@ -166,7 +166,7 @@ Respond ONLY with a JSON array of 3 strings, nothing else:
       suggestions: suggestions.slice(0, 3),
     };
   } catch (error: any) {
-    console.error('Gemini API error (generateContinuations):', {
+    console.error('LLM error (generateContinuations):', {
       message: error.message,
       response: error.response?.data,
       stack: error.stack,
@@ -177,7 +177,7 @@ Respond ONLY with a JSON array of 3 strings, nothing else:
 }
 
 /**
- * Analyze text quality using Gemini AI
+ * Analyze text quality with AI
  * Section 5.5: Quality Scoring System
  */
 export async function analyzeTextQuality(text: string): Promise<QualityAnalysis> {
@@ -216,17 +216,11 @@ Respond ONLY with valid JSON in this exact format:
   "suggestions": ["<suggestion 1>", "<suggestion 2>", "<suggestion 3>"]
 }`;
 
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response;
-    const responseText = response.text();
-
-    // Extract JSON from response
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Invalid response format from AI');
-    }
-
-    const parsedResponse = JSON.parse(jsonMatch[0]);
+    const parsedResponse = await generateJSON({
+      task: 'ai.analyze',
+      prompt,
+      schema: qualityAnalysisSchema,
+    });
 
     // Calculate overall score based on weights (Section 5.5)
     const weights = {
@@ -277,7 +271,7 @@ Respond ONLY with valid JSON in this exact format:
       suggestions: parsedResponse.suggestions || [],
     };
   } catch (error: any) {
-    console.error('Gemini API error (analyzeTextQuality):', {
+    console.error('LLM error (analyzeTextQuality):', {
       message: error.message,
       response: error.response?.data,
       stack: error.stack,
@@ -288,7 +282,7 @@ Respond ONLY with valid JSON in this exact format:
 }
 
 /**
- * Enhance text using Gemini AI
+ * Enhance text with AI
  * Section 5.2: Text Enhancement
  */
 export async function enhanceText(
@@ -316,11 +310,9 @@ export async function enhanceText(
         break;
     }
 
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response;
-    return response.text().trim();
+    return await generateText({ task: 'ai.enhance-text', prompt });
   } catch (error: any) {
-    console.error('Gemini API error (enhanceText):', {
+    console.error('LLM error (enhanceText):', {
       message: error.message,
       response: error.response?.data,
       stack: error.stack,
@@ -352,9 +344,7 @@ Requirements:
 
 Format: Return only the titles, one per line, numbered 1-${count}.`;
 
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response;
-    const text = response.text().trim();
+    const text = await generateText({ task: 'ai.generate-titles', prompt });
 
     // Parse the titles from the response
     const lines = text.split('\n').filter(line => line.trim());
@@ -369,7 +359,7 @@ Format: Return only the titles, one per line, numbered 1-${count}.`;
 
     return titles;
   } catch (error: any) {
-    console.error('Gemini API error (generateBookTitles):', {
+    console.error('LLM error (generateBookTitles):', {
       message: error.message,
       response: error.response?.data,
       stack: error.stack,
@@ -419,9 +409,7 @@ TARGET AUDIENCE: Readers browsing the marketplace who need a reason to click "Re
 
 Respond with ONLY the synopsis text, no titles, no explanations, no formatting markers.`;
 
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response;
-    const synopsis = response.text().trim();
+    const synopsis = await generateText({ task: 'ai.generate-synopsis', prompt });
 
     // Validate length (100-1000 characters as per frontend validation)
     if (synopsis.length < 100) {
@@ -435,7 +423,7 @@ Respond with ONLY the synopsis text, no titles, no explanations, no formatting m
 
     return synopsis;
   } catch (error: any) {
-    console.error('Gemini API error (generateSynopsis):', {
+    console.error('LLM error (generateSynopsis):', {
       message: error.message,
       response: error.response?.data,
       stack: error.stack,
@@ -484,21 +472,13 @@ Provide colors as hex codes. Respond ONLY with valid JSON in this exact format:
   "suggestion": "Brief explanation of the color choice (1-2 sentences)"
 }`;
 
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response;
-    const text = response.text().trim();
-
-    // Extract JSON from response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Invalid response format from AI');
-    }
-
-    const colorScheme = JSON.parse(jsonMatch[0]);
-
-    return colorScheme;
+    return await generateJSON({
+      task: 'ai.generate-cover-colors',
+      prompt,
+      schema: coverColorSchemeSchema,
+    });
   } catch (error: any) {
-    console.error('Gemini API error (generateCoverColorScheme):', {
+    console.error('LLM error (generateCoverColorScheme):', {
       message: error.message,
       response: error.response?.data,
       stack: error.stack,
@@ -553,21 +533,13 @@ Respond ONLY with valid JSON in this exact format:
   "suggestion": "Brief explanation of the design concept (2-3 sentences)"
 }`;
 
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response;
-    const text = response.text().trim();
-
-    // Extract JSON from response
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('Invalid response format from AI');
-    }
-
-    const coverDesign = JSON.parse(jsonMatch[0]);
-
-    return coverDesign;
+    return await generateJSON({
+      task: 'ai.generate-cover',
+      prompt,
+      schema: coverDesignSchema,
+    });
   } catch (error: any) {
-    console.error('Gemini API error (generateBookCover):', {
+    console.error('LLM error (generateBookCover):', {
       message: error.message,
       response: error.response?.data,
       stack: error.stack,
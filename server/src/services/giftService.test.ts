@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Gift, IGift } from '../models/Gift';
+import { User } from '../models/User';
+import { fake, queryOf, settle } from '../test/fixtures';
+import * as emailService from './emailService';
+import { activateGift, claimGift, claimGiftsForEmail, createGiftCard } from './giftService';
+
+const senderId = new mongoose.Types.ObjectId();
+const recipientId = new mongoose.Types.ObjectId();
+const bookId = new mongoose.Types.ObjectId();
+
+describe('giftService', () => {
+  let gift: IGift;
+  let owned: string[];
+  let balance: number;
+  let sendEmail: jest.SpyInstance;
+
+  const makeGift = (fields: Partial<IGift>) =>
+    new Gift({
+      sender: senderId,
+      recipientEmail: 'friend@example.com',
+      deliverAt: new Date(Date.now() - 1000),
+      ...fields,
+    });
+
+  // Deliver the gift and return the token its email carries
+  const deliver = async (): Promise<string> => {
+    await activateGift(gift._id.toString(), gift.amount || 8, new mongoose.Types.ObjectId());
+    await settle();
+    return sendEmail.mock.calls[0][2];
+  };
+
+  beforeEach(() => {
+    gift = makeGift({ type: 'book', book: bookId, amount: 0 });
+    owned = [];
+    balance = 0;
+
+    // Conditional status change, as MongoDB applies it
+    fake(Gift, 'findOneAndUpdate', (filter: { status: string }, update: { $set: Record<string, unknown> }) => {
+      if (gift.status !== filter.status) return queryOf(null);
+      Object.entries(update.$set).forEach(([path, value]) => gift.set(path, value));
+      return queryOf(gift);
+    });
+    fake(Gift, 'findOne', (filter: { claimTokenHash: string; status: { $ne: string } }) =>
+      queryOf(filter.claimTokenHash === gift.claimTokenHash && gift.status !== filter.status.$ne ? gift : null)
+    );
+    fake(Gift, 'find', async () => (gift.status === 'delivered' ? [gift] : []));
+    fake(gift, 'save', async () => gift);
+
+    fake(User, 'updateOne', async (_filter: object, update: Record<string, any>) => {
+      if (update.$push) {
+        const book = update.$push['profile.readingHistory'].bookId.toString();
+        if (owned.includes(book)) return { modifiedCount: 0 };
+        owned.push(book);
+      } else {
+        balance += update.$inc.giftCardBalance;
+      }
+      return { modifiedCount: 1 };
+    });
+    sendEmail = fake(emailService, 'sendGiftEmail', async () => true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('refuses gift cards outside the allowed amounts', async () => {
+    await expect(createGiftCard(senderId.toString(), 2, { recipientEmail: 'friend@example.com' })).rejects.toThrow(
+      'Gift cards are between $5 and $500'
+    );
+    await expect(createGiftCard(senderId.toString(), 501, { recipientEmail: 'friend@example.com' })).rejects.toThrow(
+      'Gift cards are between $5 and $500'
+    );
+  });
+
+  it('activates a paid gift once and emails a claim link when it is due', async () => {
+    const token = await deliver();
+
+    await expect(activateGift(gift._id.toString(), 8, new mongoose.Types.ObjectId())).resolves.toBe(false);
+    await settle();
+
+    expect(gift.status).toBe('delivered');
+    expect(gift.amount).toBe(8);
+    expect(gift.claimTokenHash).toBe(crypto.createHash('sha256').update(token).digest('hex'));
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(sendEmail.mock.calls[0][0]).toBe('friend@example.com');
+  });
+
+  it('keeps a gift scheduled for later until its date', async () => {
+    gift.deliverAt = new Date(Date.now() + 60 * 60 * 1000);
+
+    await expect(activateGift(gift._id.toString(), 8, new mongoose.Types.ObjectId())).resolves.toBe(true);
+    await settle();
+
+    expect(gift.status).toBe('scheduled');
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('puts a claimed book in the recipient library', async () => {
+    const token = await deliver();
+
+    await expect(claimGift(recipientId.toString(), token)).resolves.toEqual({
+      type: 'book',
+      bookId: bookId.toString(),
+      balanceCredited: 0,
+    });
+
+    expect(gift.status).toBe('claimed');
+    expect(gift.claimedBy?.toString()).toBe(recipientId.toString());
+    expect(owned).toEqual([bookId.toString()]);
+    expect(balance).toBe(0);
+  });
+
+  it('credits a book the recipient already owns to their gift card balance', async () => {
+    owned.push(bookId.toString());
+    const token = await deliver();
+
+    await expect(claimGift(recipientId.toString(), token)).resolves.toMatchObject({ balanceCredited: 8 });
+
+    expect(gift.creditedAsBalance).toBe(true);
+    expect(balance).toBe(8);
+  });
+
+  it('adds a gift card to the recipient balance', async () => {
+    gift = makeGift({ type: 'gift_card', amount: 25 });
+    const token = await deliver();
+
+    await expect(claimGift(recipientId.toString(), token)).resolves.toEqual({
+      type: 'gift_card',
+      bookId: undefined,
+      balanceCredited: 25,
+    });
+    expect(balance).toBe(25);
+  });
+
+  it('refuses a gift that was claimed or that the user sent', async () => {
+    const token = await deliver();
+
+    await expect(claimGift(senderId.toString(), token)).rejects.toThrow('You cannot claim a gift you sent');
+    await claimGift(recipientId.toString(), token);
+    await expect(claimGift(recipientId.toString(), token)).rejects.toThrow('This gift was already claimed');
+    await expect(claimGift(recipientId.toString(), 'not-a-token')).rejects.toThrow('Gift not found');
+
+    expect(owned).toHaveLength(1);
+  });
+
+  it('refuses a revoked gift', async () => {
+    const token = await deliver();
+    gift.status = 'revoked';
+
+    await expect(claimGift(recipientId.toString(), token)).rejects.toThrow('Gift not found');
+    await expect(claimGiftsForEmail(recipientId.toString(), 'friend@example.com')).resolves.toBe(0);
+
+    expect(owned).toHaveLength(0);
+  });
+
+  it('claims delivered gifts once their address is verified', async () => {
+    await deliver();
+
+    await expect(claimGiftsForEmail(recipientId.toString(), 'Friend@Example.com')).resolves.toBe(1);
+    await expect(claimGiftsForEmail(recipientId.toString(), 'friend@example.com')).resolves.toBe(0);
+
+    expect(owned).toEqual([bookId.toString()]);
+  });
+});
@@ -0,0 +1,475 @@
+/**
+ * Gift Service
+ * Books and gift cards bought for someone else. A paid gift waits for its
+ * delivery date, then the recipient is emailed a claim link. The link's
+ * token is stored only as a hash; claiming it (or verifying an account
+ * with the gift's email address) puts the book in the recipient's library
+ * or the card's value on their gift card balance, which pays for books at
+ * checkout.
+ */
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Gift, IGift, GiftStatus, GiftType } from '../models/Gift';
+import { Book } from '../models/Book';
+import { User } from '../models/User';
+import { sendGiftEmail } from './emailService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+const GIFT_CARD_MIN = 5;
+const GIFT_CARD_MAX = 500;
+
+// How far ahead a gift can be scheduled
+const MAX_SCHEDULE_DAYS = 365;
+
+const DELIVERY_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface GiftInput {
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+  deliverAt?: string | Date; // Now when omitted or already past
+}
+
+export interface GiftSummary {
+  _id: string;
+  type: GiftType;
+  status: GiftStatus;
+  recipientEmail: string;
+  recipientName?: string;
+  message?: string;
+  book?: { _id: string; title: string };
+  sender?: { _id: string; name: string };
+  amount: number;
+  deliverAt: Date;
+  deliveredAt?: Date;
+  claimedAt?: Date;
+  creditedAsBalance?: boolean;
+}
+
+export interface GiftPreview {
+  type: GiftType;
+  senderName: string;
+  recipientName?: string;
+  message?: string;
+  book?: { _id: string; title: string; authorName: string; coverImageUrl?: string };
+  amount?: number; // Gift cards only
+  claimed: boolean;
+}
+
+export interface ClaimResult {
+  type: GiftType;
+  bookId?: string;
+  balanceCredited: number; // Gift card value, or a book the recipient already owned
+}
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+function toSummary(gift: IGift): GiftSummary {
+  const book = gift.book as any;
+  const sender = gift.sender as any;
+  return {
+    _id: gift._id.toString(),
+    type: gift.type,
+    status: gift.status,
+    recipientEmail: gift.recipientEmail,
+    recipientName: gift.recipientName,
+    message: gift.message,
+    book: book?.title ? { _id: book._id.toString(), title: book.title } : undefined,
+    sender: sender?.name ? { _id: sender._id.toString(), name: sender.name } : undefined,
+    amount: gift.amount,
+    deliverAt: gift.deliverAt,
+    deliveredAt: gift.deliveredAt,
+    claimedAt: gift.claimedAt,
+    creditedAsBalance: gift.creditedAsBalance,
+  };
+}
+
+// ============================================
+// SENDING
+// ============================================
+
+/**
+ * The fields every gift shares, checked for the sender
+ */
+async function giftFields(senderId: string, input: GiftInput) {
+  const sender = await User.findById(senderId).select('email');
+  if (!sender) {
+    throw new NotFoundError('User not found');
+  }
+
+  const recipientEmail = input.recipientEmail.toLowerCase().trim();
+  if (recipientEmail === sender.email.toLowerCase()) {
+    throw new ValidationError('You cannot send a gift to yourself');
+  }
+
+  let deliverAt = new Date();
+  if (input.deliverAt) {
+    const requested = new Date(input.deliverAt);
+    if (isNaN(requested.getTime())) {
+      throw new ValidationError('Invalid delivery date');
+    }
+    if (requested.getTime() > Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+      throw new ValidationError(`Gifts can be scheduled up to ${MAX_SCHEDULE_DAYS} days ahead`);
+    }
+    if (requested > deliverAt) deliverAt = requested;
+  }
+
+  return {
+    sender: sender._id,
+    recipientEmail,
+    recipientName: input.recipientName?.trim() || undefined,
+    message: input.message?.trim() || undefined,
+    deliverAt,
+  };
+}
+
+/**
+ * Start a book gift. It stays pending until its order is paid; the price
+ * is recorded then.
+ */
+export async function createBookGift(senderId: string, bookId: string, input: GiftInput): Promise<IGift> {
+  const book = await Book.findById(bookId).select('publishingStatus');
+  if (!book || book.publishingStatus.status !== 'published') {
+    throw new NotFoundError('Book not found');
+  }
+  if (book.publishingStatus.isFree || book.publishingStatus.price === 0) {
+    throw new ValidationError('This book is free - share its link instead');
+  }
+
+  return Gift.create({
+    ...(await giftFields(senderId, input)),
+    type: 'book',
+    book: book._id,
+    amount: 0,
+  });
+}
+
+/**
+ * Start a gift card for a fixed amount, pending until its order is paid
+ */
+export async function createGiftCard(senderId: string, amount: number, input: GiftInput): Promise<IGift> {
+  if (!(amount >= GIFT_CARD_MIN && amount <= GIFT_CARD_MAX)) {
+    throw new ValidationError(`Gift cards are between $${GIFT_CARD_MIN} and $${GIFT_CARD_MAX}`);
+  }
+
+  return Gift.create({
+    ...(await giftFields(senderId, input)),
+    type: 'gift_card',
+    amount: roundCents(amount),
+  });
+}
+
+/**
+ * Drop a gift whose order could not be created
+ */
+export async function discardGift(giftId: string): Promise<void> {
+  await Gift.deleteOne({ _id: giftId, status: 'pending_payment' });
+}
+
+/**
+ * Mark a gift paid and schedule it, delivering it now if it is due.
+ * Only the first call for a gift does anything.
+ */
+export async function activateGift(
+  giftId: string,
+  amount: number,
+  transactionId: string | mongoose.Types.ObjectId
+): Promise<boolean> {
+  const gift = await Gift.findOneAndUpdate(
+    { _id: giftId, status: 'pending_payment' },
+    { $set: { status: 'scheduled', amount: roundCents(amount), transactionRef: transactionId } },
+    { new: true }
+  );
+  if (!gift) return false;
+
+  if (gift.deliverAt <= new Date()) {
+    deliverGift(gift).catch((err) => console.error('Failed to deliver gift:', err));
+  }
+  return true;
+}
+
+// ============================================
+// DELIVERY
+// ============================================
+
+/**
+ * Email a scheduled gift's claim link. A new token is made here and only
+ * its hash is kept, so the email is the one place the link exists.
+ */
+async function deliverGift(gift: IGift): Promise<boolean> {
+  const token = crypto.randomBytes(32).toString('hex');
+  const delivered = await Gift.findOneAndUpdate(
+    { _id: gift._id, status: 'scheduled' },
+    { $set: { status: 'delivered', deliveredAt: new Date(), claimTokenHash: hashToken(token) } },
+    { new: true }
+  )
+    .populate('sender', 'name')
+    .populate({ path: 'book', select: 'title author', populate: { path: 'author', select: 'name' } });
+  if (!delivered) return false;
+
+  const sender = delivered.sender as any;
+  const book = delivered.book as any;
+  await sendGiftEmail(delivered.recipientEmail, sender?.name || 'A friend', token, {
+    bookTitle: book?.title,
+    authorName: book?.author?.name,
+    amount: delivered.type === 'gift_card' ? delivered.amount : undefined,
+    recipientName: delivered.recipientName,
+    message: delivered.message,
+  });
+  return true;
+}
+
+/**
+ * Deliver every scheduled gift whose date has come
+ */
+export async function deliverDueGifts(): Promise<number> {
+  const due = await Gift.find({ status: 'scheduled', deliverAt: { $lte: new Date() } })
+    .sort({ deliverAt: 1 })
+    .limit(100);
+
+  let sent = 0;
+  for (const gift of due) {
+    try {
+      if (await deliverGift(gift)) sent++;
+    } catch (error) {
+      console.error(`Failed to deliver gift ${gift._id}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Check for scheduled gifts every 5 minutes. Needs a long-running
+ * process, so it is not started on Vercel.
+ */
+export function startGiftDeliveries(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    deliverDueGifts().catch((err) => console.error('Failed to deliver gifts:', err));
+  }, DELIVERY_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
+
+// ============================================
+// CLAIMING
+// ============================================
+
+async function findByToken(token: string): Promise<IGift> {
+  const gift = await Gift.findOne({ claimTokenHash: hashToken(token), status: { $ne: 'revoked' } })
+    .populate('sender', 'name')
+    .populate({
+      path: 'book',
+      select: 'title author coverDesign.front.imageUrl',
+      populate: { path: 'author', select: 'name' },
+    });
+  if (!gift) {
+    throw new NotFoundError('Gift not found');
+  }
+  return gift;
+}
+
+/**
+ * What a claim link holds, shown before the recipient signs in
+ */
+export async function previewGift(token: string): Promise<GiftPreview> {
+  const gift = await findByToken(token);
+  const sender = gift.sender as any;
+  const book = gift.book as any;
+
+  return {
+    type: gift.type,
+    senderName: sender?.name || 'A friend',
+    recipientName: gift.recipientName,
+    message: gift.message,
+    book: book
+      ? {
+          _id: book._id.toString(),
+          title: book.title,
+          authorName: book.author?.name || 'Unknown Author',
+          coverImageUrl: book.coverDesign?.front?.imageUrl,
+        }
+      : undefined,
+    amount: gift.type === 'gift_card' ? gift.amount : undefined,
+    claimed: gift.status === 'claimed',
+  };
+}
+
+/**
+ * Give a delivered gift to a user. A book they already own is credited
+ * to their gift card balance at what the sender paid.
+ */
+async function redeemGift(gift: IGift, userId: string): Promise<ClaimResult> {
+  const claimed = await Gift.findOneAndUpdate(
+    { _id: gift._id, status: 'delivered' },
+    { $set: { status: 'claimed', claimedBy: userId, claimedAt: new Date() } },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new ConflictError('This gift was already claimed');
+  }
+
+  if (claimed.type === 'book' && claimed.book) {
+    const added = await User.updateOne(
+      { _id: userId, 'profile.readingHistory.bookId': { $ne: claimed.book } },
+      { $push: { 'profile.readingHistory': { bookId: claimed.book, progress: 0, lastRead: new Date() } } }
+    );
+    if (added.modifiedCount === 1) {
+      return { type: 'book', bookId: claimed.book.toString(), balanceCredited: 0 };
+    }
+
+    claimed.creditedAsBalance = true;
+    await claimed.save();
+  }
+
+  await User.updateOne({ _id: userId }, { $inc: { giftCardBalance: claimed.amount } });
+  return {
+    type: claimed.type,
+    bookId: claimed.book?.toString(),
+    balanceCredited: claimed.amount,
+  };
+}
+
+/**
+ * Claim a gift with the token from its email
+ */
+export async function claimGift(userId: string, token: string): Promise<ClaimResult> {
+  const gift = await findByToken(token);
+  if (gift.status === 'claimed') {
+    throw new ConflictError('This gift was already claimed');
+  }
+  if ((gift.sender as any)._id.toString() === userId) {
+    throw new ValidationError('You cannot claim a gift you sent');
+  }
+
+  return redeemGift(gift, userId);
+}
+
+/**
+ * Claim every delivered gift sent to an address once its owner has
+ * verified it, so recipients who sign up later still get their gifts
+ */
+export async function claimGiftsForEmail(userId: string, email: string): Promise<number> {
+  const gifts = await Gift.find({
+    recipientEmail: email.toLowerCase(),
+    status: 'delivered',
+    sender: { $ne: userId },
+  });
+
+  let claimed = 0;
+  for (const gift of gifts) {
+    try {
+      await redeemGift(gift, userId);
+      claimed++;
+    } catch (error) {
+      if (!(error instanceof ConflictError)) throw error;
+    }
+  }
+
+  return claimed;
+}
+
+// ============================================
+// LISTINGS & BALANCE
+// ============================================
+
+/**
+ * Paid gifts a user has sent, newest first
+ */
+export async function listSentGifts(senderId: string): Promise<GiftSummary[]> {
+  const gifts = await Gift.find({ sender: senderId, status: { $ne: 'pending_payment' } })
+    .populate('book', 'title')
+    .sort({ createdAt: -1 })
+    .limit(100);
+  return gifts.map(toSummary);
+}
+
+/**
+ * Gifts a user has claimed, newest first
+ */
+export async function listReceivedGifts(userId: string): Promise<GiftSummary[]> {
+  const gifts = await Gift.find({ claimedBy: userId })
+    .populate('book', 'title')
+    .populate('sender', 'name')
+    .sort({ claimedAt: -1 })
+    .limit(100);
+  return gifts.map(toSummary);
+}
+
+export async function getGiftCardBalance(userId: string): Promise<number> {
+  const user = await User.findById(userId).select('giftCardBalance');
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  return user.giftCardBalance || 0;
+}
+
+/**
+ * Take an amount off a user's gift card balance. False when the balance
+ * no longer covers it.
+ */
+export async function spendGiftBalance(userId: string, amount: number): Promise<boolean> {
+  const result = await User.updateOne(
+    { _id: userId, giftCardBalance: { $gte: amount } },
+    { $inc: { giftCardBalance: -amount } }
+  );
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Put spent gift card balance back, after a failed capture or a refund
+ */
+export async function releaseGiftBalance(userId: string, amount: number): Promise<void> {
+  await User.updateOne({ _id: userId }, { $inc: { giftCardBalance: amount } });
+}
+
+// ============================================
+// REFUNDS
+// ============================================
+
+/**
+ * Take gift card value back from a user, as far as it is still unspent.
+ * Returns the amount taken.
+ */
+async function takeBackGiftBalance(userId: mongoose.Types.ObjectId, amount: number): Promise<number> {
+  const before = await User.findOneAndUpdate({ _id: userId }, [
+    {
+      $set: {
+        giftCardBalance: {
+          $max: [0, { $round: [{ $subtract: [{ $ifNull: ['$giftCardBalance', 0] }, amount] }, 2] }],
+        },
+      },
+    },
+  ]).select('giftCardBalance');
+  return Math.min(before?.giftCardBalance || 0, amount);
+}
+
+/**
+ * Revoke a gift whose payment was refunded, so it can no longer be
+ * delivered or claimed. A claimed book goes back out of the recipient's
+ * library; value the gift put on their gift card balance (a gift card,
+ * or a book they already owned) is taken back as far as it is unspent.
+ * Returns the part the recipient had already spent.
+ */
+export async function revokeGift(giftId: string | mongoose.Types.ObjectId): Promise<number> {
+  const gift = await Gift.findByIdAndUpdate(
+    giftId,
+    { $set: { status: 'revoked', revokedAt: new Date() } },
+    { new: true }
+  );
+  if (!gift?.claimedBy) return 0;
+
+  if (gift.type === 'book' && !gift.creditedAsBalance) {
+    await User.updateOne(
+      { _id: gift.claimedBy },
+      { $pull: { 'profile.readingHistory': { bookId: gift.book } } }
+    );
+    return 0;
+  }
+
+  const taken = await takeBackGiftBalance(gift.claimedBy, gift.amount);
+  return roundCents(gift.amount - taken);
+}
@@ -3,25 +3,12 @@ import axios from 'axios';
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
+import { generateText } from './llmService';
 
 // Lazy-initialize Gemini AI client (only when API key is available)
 let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
 let imageModelInstance: GenerativeModel | null = null;
 
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
-
 /**
  * Get Gemini model configured for image generation (Nano Banana Pro)
  * Uses gemini-2.0-flash-exp with image generation capabilities
@@ -108,9 +95,7 @@ Keep the enhanced prompt under 300 characters for optimal AI image generation.
 
 Respond ONLY with the enhanced prompt text in English, nothing else.`;
 
-    const result = await getGeminiModel().generateContent(aiPrompt);
-    const response = result.response;
-    return response.text().trim();
+    return await generateText({ task: 'image.enhance-prompt', prompt: aiPrompt });
   } catch (error) {
     console.error('Error generating enhanced prompt:', error);
     return prompt; // Return original prompt if enhancement fails
@@ -399,7 +384,7 @@ Requirements:
     console.log('🍌 Gemini does not support native image generation, falling back to Pollinations...');
 
     // Use the Gemini model to create a better prompt for Pollinations
-    const enhancedResult = await getGeminiModel().generateContent(`
+    const enhancedPrompt = await generateText({ task: 'image.enhance-prompt', prompt: `
 You are an expert at creating image generation prompts. Transform this request into an optimal prompt for AI image generation:
 
 "${prompt}"
@@ -414,9 +399,7 @@ Create a detailed, vivid prompt under 200 characters that will generate a stunni
 
 IMPORTANT: The output MUST be in ENGLISH only. If the input is in Hebrew or any other language, translate it to English first.
 
-Respond with ONLY the enhanced prompt in English, nothing else.`);
-
-    const enhancedPrompt = enhancedResult.response.text().trim();
+Respond with ONLY the enhanced prompt in English, nothing else.` });
 
     // Generate with Pollinations using enhanced prompt
     return await generateWithPollinationsEnhanced(enhancedPrompt, aspectRatio);
@@ -616,8 +599,7 @@ Describe the scene in 2-3 sentences, focusing on:
 
 Respond with ONLY the scene description, no other text.`;
 
-    const result = await getGeminiModel().generateContent(analysisPrompt);
-    const sceneDescription = result.response.text().trim();
+    const sceneDescription = await generateText({ task: 'image.describe-scene', prompt: analysisPrompt });
 
     // Generate the illustration
     return await generateImage({
@@ -720,8 +702,7 @@ Create a detailed, vivid image description (under 300 characters) that will gene
 
 Respond with ONLY the image prompt, nothing else.`;
 
-  const frontPromptResult = await getGeminiModel().generateContent(frontCoverPromptRequest);
-  let frontCoverPrompt = frontPromptResult.response.text().trim();
+  let frontCoverPrompt = await generateText({ task: 'image.cover-prompt', prompt: frontCoverPromptRequest });
 
   // Add genre style and negative prompts
   frontCoverPrompt = `${frontCoverPrompt}, ${genreStyle}, ${NEGATIVE_PROMPTS}`;
@@ -756,8 +737,7 @@ The back cover should:
 
 Respond with ONLY the image prompt (under 250 characters), no other text.`;
 
-  const backPromptResult = await getGeminiModel().generateContent(backCoverPromptRequest);
-  let backCoverPrompt = backPromptResult.response.text().trim();
+  let backCoverPrompt = await generateText({ task: 'image.cover-prompt', prompt: backCoverPromptRequest });
 
   // Add negative prompts to back cover
   backCoverPrompt = `${backCoverPrompt}, subtle background, ${NEGATIVE_PROMPTS}`;
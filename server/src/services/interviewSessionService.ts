@@ -0,0 +1,95 @@
+/**
+ * Interview Session Service
+ * MongoDB persistence for chat and voice interview state. Every lookup is
+ * scoped to the owning user, and each save pushes the expiry forward so
+ * only abandoned interviews are removed by the TTL index.
+ */
+
+import mongoose from 'mongoose';
+import { InterviewSession, InterviewKind, IInterviewSession } from '../models/InterviewSession';
+
+// Days of inactivity before an interview session expires
+const SESSION_TTL_DAYS = parseInt(process.env.INTERVIEW_SESSION_TTL_DAYS || '', 10) || 14;
+
+function getExpiryDate(): Date {
+  return new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Create or update the stored session for an interview
+ */
+export async function saveInterviewSession<T extends { id: string; isComplete: boolean }>(
+  userId: string,
+  kind: InterviewKind,
+  state: T,
+  options: { currentQuestion?: string | null; bookId?: string } = {}
+): Promise<void> {
+  const update: Record<string, any> = {
+    $set: {
+      kind,
+      state,
+      isComplete: state.isComplete,
+      expiresAt: getExpiryDate(),
+    },
+  };
+
+  if (options.currentQuestion) {
+    update.$set.currentQuestion = options.currentQuestion;
+  } else if (options.currentQuestion === null) {
+    update.$unset = { currentQuestion: 1 };
+  }
+  if (options.bookId && mongoose.isValidObjectId(options.bookId)) {
+    update.$set.book = options.bookId;
+  }
+
+  await InterviewSession.updateOne({ user: userId, interviewId: state.id }, update, { upsert: true });
+}
+
+/**
+ * Load an interview session owned by the user.
+ * Returns null if it does not exist, belongs to someone else or has expired.
+ */
+export async function loadInterviewSession(
+  userId: string,
+  kind: InterviewKind,
+  interviewId: string
+): Promise<IInterviewSession | null> {
+  return InterviewSession.findOne({
+    user: userId,
+    kind,
+    interviewId,
+    expiresAt: { $gt: new Date() },
+  });
+}
+
+/**
+ * Delete an interview session owned by the user.
+ * Returns false if there was nothing to delete.
+ */
+export async function deleteInterviewSession(
+  userId: string,
+  kind: InterviewKind,
+  interviewId: string
+): Promise<boolean> {
+  const result = await InterviewSession.deleteOne({ user: userId, kind, interviewId });
+  return result.deletedCount > 0;
+}
+
+/**
+ * List the user's unfinished interviews, most recently active first
+ */
+export async function listUnfinishedInterviewSessions(
+  userId: string,
+  kind?: InterviewKind
+): Promise<IInterviewSession[]> {
+  const filter: Record<string, any> = {
+    user: userId,
+    isComplete: false,
+    expiresAt: { $gt: new Date() },
+  };
+  if (kind) {
+    filter.kind = kind;
+  }
+
+  return InterviewSession.find(filter).sort({ updatedAt: -1 }).limit(20);
+}
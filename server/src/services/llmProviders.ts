@@ -0,0 +1,260 @@
+/**
+ * LLM Providers
+ * Implementations of the LLMProvider interface used by llmService:
+ * Google Gemini, any OpenAI-compatible chat completions API, and a
+ * deterministic offline stub driven by fixtures.
+ *
+ * Configuration:
+ * - Gemini: GEMINI_API_KEY, GEMINI_MODEL (default gemini-2.0-flash)
+ * - OpenAI-compatible: LLM_API_KEY (or OPENAI_API_KEY), LLM_BASE_URL, LLM_MODEL (default gpt-4o-mini)
+ * - Stub: LLM_STUB_FIXTURES, path to a JSON array of { task?, match?, response }
+ */
+
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import OpenAI from 'openai';
+import crypto from 'crypto';
+import fs from 'fs';
+import {
+  ZodTypeAny,
+  ZodObject,
+  ZodArray,
+  ZodString,
+  ZodNumber,
+  ZodBoolean,
+  ZodEnum,
+  ZodNativeEnum,
+  ZodLiteral,
+  ZodOptional,
+  ZodNullable,
+  ZodDefault,
+  ZodCatch,
+  ZodEffects,
+  ZodUnion,
+  ZodRecord,
+  ZodTuple,
+} from 'zod';
+import { AIServiceError } from '../utils/errors';
+import { LLMProvider, LLMProviderRequest, TokenUsage } from './llmService';
+
+// ============================================
+// GEMINI
+// ============================================
+
+/**
+ * Google Gemini provider
+ */
+export function createGeminiProvider(): LLMProvider {
+  const model = process.env.GEMINI_MODEL || 'gemini-2.0-flash';
+  let client: GoogleGenerativeAI | null = null;
+
+  return {
+    name: 'gemini',
+    model,
+    async generate(request: LLMProviderRequest) {
+      if (!process.env.GEMINI_API_KEY) {
+        throw new AIServiceError('GEMINI_API_KEY is not configured', false, 503);
+      }
+      if (!client) {
+        client = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
+      }
+
+      const result = await client.getGenerativeModel({ model }).generateContent({
+        contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxOutputTokens,
+        },
+      });
+
+      // usageMetadata is only returned by newer API versions
+      const metadata = (result.response as any).usageMetadata;
+      const usage: TokenUsage | undefined = metadata
+        ? {
+            promptTokens: metadata.promptTokenCount || 0,
+            completionTokens: metadata.candidatesTokenCount || 0,
+            totalTokens: metadata.totalTokenCount || 0,
+            estimated: false,
+          }
+        : undefined;
+
+      return { text: result.response.text(), usage };
+    },
+  };
+}
+
+// ============================================
+// OPENAI-COMPATIBLE
+// ============================================
+
+/**
+ * OpenAI chat completions provider. LLM_BASE_URL points it at any
+ * compatible server (Azure, OpenRouter, a local Ollama or vLLM instance).
+ */
+export function createOpenAIProvider(): LLMProvider {
+  const model = process.env.LLM_MODEL || 'gpt-4o-mini';
+  let client: OpenAI | null = null;
+
+  return {
+    name: 'openai',
+    model,
+    async generate(request: LLMProviderRequest) {
+      const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+
+      if (!apiKey && !process.env.LLM_BASE_URL) {
+        throw new AIServiceError('LLM_API_KEY is not configured', false, 503);
+      }
+      if (!client) {
+        client = new OpenAI({
+          apiKey: apiKey || 'not-needed',
+          baseURL: process.env.LLM_BASE_URL || undefined,
+          maxRetries: 0, // Retries are handled by llmService
+        });
+      }
+
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [{ role: 'user', content: request.prompt }],
+        temperature: request.temperature,
+        max_tokens: request.maxOutputTokens,
+        // JSON mode only accepts a top-level object
+        response_format: request.schema instanceof ZodObject ? { type: 'json_object' } : undefined,
+      });
+
+      const usage: TokenUsage | undefined = completion.usage
+        ? {
+            promptTokens: completion.usage.prompt_tokens,
+            completionTokens: completion.usage.completion_tokens,
+            totalTokens: completion.usage.total_tokens,
+            estimated: false,
+          }
+        : undefined;
+
+      return { text: completion.choices[0]?.message?.content || '', usage };
+    },
+  };
+}
+
+// ============================================
+// OFFLINE STUB
+// ============================================
+
+interface StubFixture {
+  task?: string; // Exact task label, or a prefix ending in '*'
+  match?: string; // Case-insensitive regex tested against the prompt
+  response: unknown; // Returned as-is if a string, otherwise serialized as JSON
+}
+
+function loadStubFixtures(): StubFixture[] {
+  const fixturePath = process.env.LLM_STUB_FIXTURES;
+  if (!fixturePath) return [];
+
+  try {
+    const fixtures = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+    if (!Array.isArray(fixtures)) {
+      throw new Error('fixture file must contain a JSON array');
+    }
+    return fixtures;
+  } catch (error: any) {
+    console.warn(`Failed to load LLM stub fixtures from ${fixturePath}: ${error.message}`);
+    return [];
+  }
+}
+
+function fixtureMatches(fixture: StubFixture, request: LLMProviderRequest): boolean {
+  if (fixture.task) {
+    const matchesTask = fixture.task.endsWith('*')
+      ? request.task.startsWith(fixture.task.slice(0, -1))
+      : request.task === fixture.task;
+    if (!matchesTask) return false;
+  }
+  return !fixture.match || new RegExp(fixture.match, 'i').test(request.prompt);
+}
+
+/**
+ * Build a value that satisfies a schema, so JSON callers get well-formed
+ * output even without a fixture
+ */
+function sampleFromSchema(schema: ZodTypeAny, key: string): unknown {
+  if (schema instanceof ZodOptional || schema instanceof ZodNullable) {
+    return sampleFromSchema(schema.unwrap(), key);
+  }
+  if (schema instanceof ZodDefault) {
+    return schema._def.defaultValue();
+  }
+  if (schema instanceof ZodCatch) {
+    return sampleFromSchema(schema._def.innerType, key);
+  }
+  if (schema instanceof ZodEffects) {
+    return sampleFromSchema(schema.innerType(), key);
+  }
+  if (schema instanceof ZodObject) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+    return Object.fromEntries(
+      Object.entries(shape).map(([field, fieldSchema]) => [field, sampleFromSchema(fieldSchema, field)])
+    );
+  }
+  if (schema instanceof ZodArray) {
+    const length = schema._def.exactLength?.value ?? Math.max(schema._def.minLength?.value ?? 0, 1);
+    return Array.from({ length }, (_, i) => sampleFromSchema(schema.element, `${key} ${i + 1}`));
+  }
+  if (schema instanceof ZodTuple) {
+    return schema.items.map((item: ZodTypeAny, i: number) => sampleFromSchema(item, `${key} ${i + 1}`));
+  }
+  if (schema instanceof ZodString) {
+    return `Sample ${key}`;
+  }
+  if (schema instanceof ZodNumber) {
+    const min = schema.minValue ?? 0;
+    const max = schema.maxValue ?? min + 100;
+    return schema.isInt ? Math.round((min + max) / 2) : (min + max) / 2;
+  }
+  if (schema instanceof ZodBoolean) {
+    return false;
+  }
+  if (schema instanceof ZodEnum) {
+    return schema.options[0];
+  }
+  if (schema instanceof ZodNativeEnum) {
+    return Object.values(schema.enum)[0];
+  }
+  if (schema instanceof ZodLiteral) {
+    return schema.value;
+  }
+  if (schema instanceof ZodUnion) {
+    return sampleFromSchema(schema.options[0], key);
+  }
+  if (schema instanceof ZodRecord) {
+    return {};
+  }
+  return null;
+}
+
+/**
+ * Deterministic provider for offline development and tests. The first
+ * matching fixture wins; otherwise JSON requests get a value built from
+ * their schema and text requests get a fixed sentence derived from the prompt.
+ */
+export function createStubProvider(fixtures: StubFixture[] = loadStubFixtures()): LLMProvider {
+  return {
+    name: 'stub',
+    model: 'stub',
+    async generate(request: LLMProviderRequest) {
+      const fixture = fixtures.find((f) => fixtureMatches(f, request));
+
+      if (fixture) {
+        return {
+          text: typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response),
+        };
+      }
+
+      if (request.json) {
+        return {
+          text: JSON.stringify(request.schema ? sampleFromSchema(request.schema, 'value') : {}),
+        };
+      }
+
+      const digest = crypto.createHash('sha1').update(request.prompt).digest('hex').slice(0, 8);
+      return { text: `Offline response for ${request.task} (${digest}).` };
+    },
+  };
+}
@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { AIServiceError, InvalidAIResponseError } from '../utils/errors';
+import { createStubProvider } from './llmProviders';
+import {
+  LLMProvider,
+  extractJSON,
+  generateJSON,
+  generateText,
+  getLLMUsage,
+  resetLLMUsage,
+  setLLMProvider,
+} from './llmService';
+
+/**
+ * Provider that plays back a fixed list of outcomes, one per call
+ */
+function scriptedProvider(outcomes: Array<string | Error>): LLMProvider & { calls: number } {
+  const provider = {
+    name: 'stub' as const,
+    model: 'scripted',
+    calls: 0,
+    async generate() {
+      const outcome = outcomes[Math.min(provider.calls++, outcomes.length - 1)];
+      if (outcome instanceof Error) throw outcome;
+      return { text: outcome };
+    },
+  };
+  return provider;
+}
+
+describe('llmService', () => {
+  beforeEach(() => {
+    resetLLMUsage();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setLLMProvider(null);
+    jest.restoreAllMocks();
+  });
+
+  describe('stub provider', () => {
+    it('returns the first matching fixture', async () => {
+      setLLMProvider(
+        createStubProvider([
+          { task: 'analysis.*', match: 'dragon', response: 'A dragon story' },
+          { task: 'analysis.*', response: 'Any analysis' },
+        ])
+      );
+
+      await expect(generateText({ task: 'analysis.tension', prompt: 'The dragon woke' })).resolves.toBe(
+        'A dragon story'
+      );
+      await expect(generateText({ task: 'analysis.tension', prompt: 'A quiet morning' })).resolves.toBe(
+        'Any analysis'
+      );
+    });
+
+    it('gives the same text for the same prompt without fixtures', async () => {
+      setLLMProvider(createStubProvider([]));
+
+      const first = await generateText({ task: 'chat', prompt: 'Hello' });
+      const second = await generateText({ task: 'chat', prompt: 'Hello' });
+
+      expect(first).toMatch(/^Offline response for chat \([0-9a-f]{8}\)\.$/);
+      expect(second).toBe(first);
+    });
+
+    it('builds JSON that satisfies the requested schema', async () => {
+      setLLMProvider(createStubProvider([]));
+      const schema = z.object({
+        title: z.string(),
+        score: z.number().int().min(1).max(10),
+        tags: z.array(z.string()).min(2),
+        mood: z.enum(['dark', 'light']),
+        note: z.string().optional(),
+      });
+
+      const result = await generateJSON({ task: 'analysis.summary', prompt: 'Summarize', schema });
+
+      expect(result.title).toBe('Sample title');
+      expect(result.score).toBeGreaterThanOrEqual(1);
+      expect(result.score).toBeLessThanOrEqual(10);
+      expect(result.tags).toHaveLength(2);
+      expect(result.mood).toBe('dark');
+    });
+  });
+
+  describe('extractJSON', () => {
+    it('parses plain JSON', () => {
+      expect(extractJSON('{"a":1}')).toEqual({ a: 1 });
+    });
+
+    it('strips code fences', () => {
+      expect(extractJSON('```json\n{"a":[1,2]}\n```')).toEqual({ a: [1, 2] });
+    });
+
+    it('finds the document inside surrounding prose', () => {
+      expect(extractJSON('Here you go: {"a":{"b":true}} Hope it helps!')).toEqual({ a: { b: true } });
+      expect(extractJSON('Results: [1, 2, 3].')).toEqual([1, 2, 3]);
+    });
+
+    it('rejects output without JSON', () => {
+      expect(() => extractJSON('No structured data here')).toThrow(InvalidAIResponseError);
+      expect(() => extractJSON('{"a": }')).toThrow(InvalidAIResponseError);
+    });
+  });
+
+  describe('generateJSON', () => {
+    const schema = z.object({ name: z.string(), age: z.number() });
+
+    it('retries output that fails schema validation', async () => {
+      const provider = scriptedProvider(['{"name":"Ada"}', '{"name":"Ada","age":36}']);
+      setLLMProvider(provider);
+
+      await expect(generateJSON({ task: 'profile', prompt: 'Who?', schema, retries: 1 })).resolves.toEqual({
+        name: 'Ada',
+        age: 36,
+      });
+      expect(provider.calls).toBe(2);
+    });
+
+    it('reports the failing field once retries run out', async () => {
+      setLLMProvider(scriptedProvider(['{"name":"Ada","age":"old"}']));
+
+      await expect(generateJSON({ task: 'profile', prompt: 'Who?', schema, retries: 0 })).rejects.toThrow(
+        /Invalid AI response: age/
+      );
+    });
+  });
+
+  describe('retries and timeouts', () => {
+    it('retries transient provider errors', async () => {
+      const provider = scriptedProvider([new AIServiceError('Rate limited', true, 429), 'Recovered']);
+      setLLMProvider(provider);
+
+      await expect(generateText({ task: 'chat', prompt: 'Hi', retries: 1 })).resolves.toBe('Recovered');
+      expect(provider.calls).toBe(2);
+    });
+
+    it('does not retry permanent errors', async () => {
+      const provider = scriptedProvider([new AIServiceError('Bad key', false, 401), 'Never reached']);
+      setLLMProvider(provider);
+
+      await expect(generateText({ task: 'chat', prompt: 'Hi', retries: 2 })).rejects.toThrow('Bad key');
+      expect(provider.calls).toBe(1);
+    });
+
+    it('times out a provider that does not answer', async () => {
+      setLLMProvider({
+        name: 'stub',
+        model: 'hanging',
+        generate: () => new Promise(() => undefined),
+      });
+
+      await expect(generateText({ task: 'chat', prompt: 'Hi', timeoutMs: 20, retries: 0 })).rejects.toThrow(
+        'AI request "chat" timed out after 20ms'
+      );
+    });
+
+    it('counts requests, failures and estimated tokens per task', async () => {
+      setLLMProvider(scriptedProvider([new AIServiceError('Overloaded', true, 503), 'abcdefgh']));
+
+      await generateText({ task: 'chat', prompt: 'abcd', retries: 1 });
+      const usage = getLLMUsage();
+
+      expect(usage.byTask.chat).toEqual({
+        requests: 2,
+        failures: 1,
+        promptTokens: 1,
+        completionTokens: 2,
+        totalTokens: 3,
+      });
+      expect(usage.totals.requests).toBe(2);
+    });
+  });
+});
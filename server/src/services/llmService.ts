@@ -0,0 +1,293 @@
+/**
+ * LLM Service
+ * Single entry point for AI text generation. Selects the configured provider
+ * (Gemini, an OpenAI-compatible API or the offline stub) and adds timeouts,
+ * retries, structured-JSON validation and token accounting on top of it.
+ *
+ * Configuration:
+ * - LLM_PROVIDER: 'gemini' (default) | 'openai' | 'stub' ('stub' when NODE_ENV=test)
+ * - LLM_TIMEOUT_MS: per-attempt timeout (default 60000)
+ * - LLM_MAX_RETRIES: retries after the first attempt (default 2)
+ */
+
+import { ZodType, ZodTypeAny } from 'zod';
+import { AIServiceError, InvalidAIResponseError } from '../utils/errors';
+import { createGeminiProvider, createOpenAIProvider, createStubProvider } from './llmProviders';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'stub';
+
+export interface LLMRequest {
+  task: string; // Short label used for token accounting and stub fixtures, e.g. 'analysis.tension'
+  prompt: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  timeoutMs?: number;
+  retries?: number;
+}
+
+// Request as seen by a provider
+export interface LLMProviderRequest extends LLMRequest {
+  json: boolean; // The caller expects a JSON document
+  schema?: ZodTypeAny;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimated: boolean; // Provider did not report usage, counted from text length
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  model: string;
+  generate(request: LLMProviderRequest): Promise<{ text: string; usage?: TokenUsage }>;
+}
+
+export interface LLMUsageTotals {
+  requests: number;
+  failures: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.LLM_TIMEOUT_MS || '', 10) || 60000;
+const configuredRetries = parseInt(process.env.LLM_MAX_RETRIES || '', 10);
+const DEFAULT_RETRIES = Number.isNaN(configuredRetries) ? 2 : Math.max(configuredRetries, 0);
+const RETRY_BASE_DELAY_MS = 500;
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Provider chosen by LLM_PROVIDER
+ */
+function resolveProviderName(): LLMProviderName {
+  const configured = process.env.LLM_PROVIDER?.trim().toLowerCase();
+
+  if (configured === 'gemini' || configured === 'openai' || configured === 'stub') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown LLM_PROVIDER "${configured}", using gemini`);
+  }
+  return process.env.NODE_ENV === 'test' ? 'stub' : 'gemini';
+}
+
+/**
+ * Get the active provider (created lazily from the environment)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    const name = resolveProviderName();
+    activeProvider =
+      name === 'openai' ? createOpenAIProvider() : name === 'stub' ? createStubProvider() : createGeminiProvider();
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the active provider (tests and scripts); null restores the configured one
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+// ============================================
+// TOKEN ACCOUNTING
+// ============================================
+
+const usageByTask = new Map<string, LLMUsageTotals>();
+
+/**
+ * Rough token count for providers that do not report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function getTaskTotals(task: string): LLMUsageTotals {
+  let totals = usageByTask.get(task);
+  if (!totals) {
+    totals = { requests: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    usageByTask.set(task, totals);
+  }
+  return totals;
+}
+
+/**
+ * Count one provider call; usage is null when the call itself failed
+ */
+function recordAttempt(task: string, usage: TokenUsage | null): void {
+  const totals = getTaskTotals(task);
+
+  totals.requests++;
+  if (usage) {
+    totals.promptTokens += usage.promptTokens;
+    totals.completionTokens += usage.completionTokens;
+    totals.totalTokens += usage.totalTokens;
+  }
+}
+
+/**
+ * Token usage since process start, overall and per task
+ */
+export function getLLMUsage(): {
+  provider: LLMProviderName;
+  model: string;
+  totals: LLMUsageTotals;
+  byTask: Record<string, LLMUsageTotals>;
+} {
+  const provider = getLLMProvider();
+  const totals: LLMUsageTotals = { requests: 0, failures: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const byTask: Record<string, LLMUsageTotals> = {};
+
+  usageByTask.forEach((taskTotals, task) => {
+    byTask[task] = { ...taskTotals };
+    totals.requests += taskTotals.requests;
+    totals.failures += taskTotals.failures;
+    totals.promptTokens += taskTotals.promptTokens;
+    totals.completionTokens += taskTotals.completionTokens;
+    totals.totalTokens += taskTotals.totalTokens;
+  });
+
+  return { provider: provider.name, model: provider.model, totals, byTask };
+}
+
+export function resetLLMUsage(): void {
+  usageByTask.clear();
+}
+
+// ============================================
+// EXECUTION
+// ============================================
+
+/**
+ * Whether a failed attempt is worth retrying: timeouts, rate limits,
+ * server errors, network failures and malformed model output
+ */
+function isRetryable(error: any): boolean {
+  if (error instanceof AIServiceError) return error.retryable;
+
+  const status = error?.status ?? error?.statusCode ?? parseInt(error?.message?.match(/\[(\d{3})\b/)?.[1], 10);
+  if (status) return status === 408 || status === 429 || status >= 500;
+
+  return /ECONNRESET|ETIMEDOUT|ECONNREFUSED|EAI_AGAIN|fetch failed|socket hang up/i.test(error?.message || '');
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, task: string): Promise<T> {
+  let timer: NodeJS.Timeout;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new AIServiceError(`AI request "${task}" timed out after ${timeoutMs}ms`, true, 504)),
+      timeoutMs
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run a request against the active provider, retrying transient failures
+ * and output that `parse` rejects
+ */
+async function execute<T>(request: LLMProviderRequest, parse: (text: string) => T): Promise<T> {
+  const provider = getLLMProvider();
+  const retries = request.retries ?? DEFAULT_RETRIES;
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  let lastError: any;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+    }
+
+    let recorded = false;
+
+    try {
+      const result = await withTimeout(provider.generate(request), timeoutMs, request.task);
+      const promptTokens = estimateTokens(request.prompt);
+      const completionTokens = estimateTokens(result.text);
+      recordAttempt(
+        request.task,
+        result.usage || {
+          promptTokens,
+          completionTokens,
+          totalTokens: promptTokens + completionTokens,
+          estimated: true,
+        }
+      );
+      recorded = true;
+
+      return parse(result.text);
+    } catch (error: any) {
+      lastError = error;
+      if (!recorded) {
+        recordAttempt(request.task, null);
+      }
+      getTaskTotals(request.task).failures++;
+      if (!isRetryable(error)) break;
+      console.warn(`LLM ${provider.name} "${request.task}" attempt ${attempt + 1} failed: ${error.message}`);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Generate free text
+ */
+export async function generateText(request: LLMRequest): Promise<string> {
+  return execute({ ...request, json: false }, (text) => text.trim());
+}
+
+/**
+ * Extract the JSON document from model output, tolerating code fences
+ * and prose around it
+ */
+export function extractJSON(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '').trim();
+
+  try {
+    return JSON.parse(unfenced);
+  } catch {
+    // Fall through to bracket matching
+  }
+
+  const objectStart = unfenced.indexOf('{');
+  const arrayStart = unfenced.indexOf('[');
+  const isArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart);
+  const start = isArray ? arrayStart : objectStart;
+  const end = unfenced.lastIndexOf(isArray ? ']' : '}');
+
+  if (start === -1 || end <= start) {
+    throw new InvalidAIResponseError('Invalid AI response: no JSON found');
+  }
+
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch (error: any) {
+    throw new InvalidAIResponseError(`Invalid AI response: ${error.message}`);
+  }
+}
+
+/**
+ * Generate a JSON document and validate it against a schema.
+ * Output that is not JSON or does not match the schema is retried.
+ */
+export async function generateJSON<T>(request: LLMRequest & { schema: ZodType<T, any, any> }): Promise<T> {
+  const { schema, ...rest } = request;
+
+  return execute({ ...rest, json: true, schema }, (text) => {
+    const result = schema.safeParse(extractJSON(text));
+
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      throw new InvalidAIResponseError(
+        `Invalid AI response: ${issue.path.join('.') || 'root'} ${issue.message}`
+      );
+    }
+    return result.data;
+  });
+}
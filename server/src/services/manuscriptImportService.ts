@@ -0,0 +1,655 @@
+/**
+ * Manuscript Import Service
+ * Converts uploaded manuscripts (DOCX, PDF, Markdown, ODT, HTML, EPUB, TXT)
+ * into TipTap-compatible HTML and splits them into chapters by heading patterns
+ */
+
+import path from 'path';
+import mammoth from 'mammoth';
+import JSZip from 'jszip';
+import MarkdownIt from 'markdown-it';
+import pdfParse from 'pdf-parse';
+import { ValidationError } from '../utils/errors';
+import { countWords } from './chapterRevisionService';
+
+export type ManuscriptFormat = 'docx' | 'pdf' | 'md' | 'odt' | 'html' | 'epub' | 'txt';
+
+// File extension → importer
+export const MANUSCRIPT_FORMATS: Record<string, ManuscriptFormat> = {
+  '.docx': 'docx',
+  '.doc': 'docx',
+  '.pdf': 'pdf',
+  '.md': 'md',
+  '.markdown': 'md',
+  '.odt': 'odt',
+  '.html': 'html',
+  '.htm': 'html',
+  '.epub': 'epub',
+  '.txt': 'txt',
+};
+
+// Front matter shorter than this is merged into the first chapter
+const MIN_PREAMBLE_WORDS = 100;
+
+// Paragraph lines longer than this are never treated as chapter headings
+const MAX_HEADING_LENGTH = 100;
+
+export interface ImportedChapter {
+  title: string;
+  content: string;
+  wordCount: number;
+}
+
+export interface ImportedManuscript {
+  format: ManuscriptFormat;
+  language: 'he' | 'en';
+  chapters: ImportedChapter[];
+  chaptersDetected: boolean;
+  wordCount: number;
+}
+
+type BlockType = 'p' | 'h1' | 'h2' | 'h3' | 'blockquote' | 'ul' | 'ol' | 'hr';
+
+interface Block {
+  type: BlockType;
+  html: string; // Inner HTML (for lists: the <li> items)
+  text: string; // Plain text, used for heading detection
+}
+
+// ==========================================
+// CHAPTER HEADING DETECTION
+// ==========================================
+
+const EN_NUMBER_WORDS =
+  'one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|' +
+  'sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred';
+
+const HE_ORDINAL_WORDS =
+  'ראשון|שני|שלישי|רביעי|חמישי|שישי|שביעי|שמיני|תשיעי|עשירי|אחד|שתיים|שלוש|ארבע|חמש|שש|שבע|שמונה|תשע|עשר';
+
+const CHAPTER_HEADING_PATTERNS: RegExp[] = [
+  // "Chapter 3", "CHAPTER XII", "Chapter Twenty-One: The Storm", "Ch. 4"
+  new RegExp(
+    `^(chapter|ch\\.)\\s+(\\d+|[ivxlcdm]+|(?:${EN_NUMBER_WORDS})(?:[-\\s](?:${EN_NUMBER_WORDS}))?)\\b(\\s*[:.\\-–—]\\s*.*|\\s+.*)?$`,
+    'i'
+  ),
+  /^(prologue|epilogue|introduction|preface|foreword|afterword|interlude)\b(\s*[:.\-–—]\s*.*)?$/i,
+  // "פרק 3", "פרק ג'", "פרק י״ב", "פרק שלישי"
+  new RegExp(
+    `^פרק\\s+(\\d+|[א-ת]{1,2}['׳]|[א-ת]["״][א-ת]|[א-ת]{1,2}(?=\\s*(?:$|[:.\\-–—]))|(?:${HE_ORDINAL_WORDS}))(\\s*[:.\\-–—]\\s*.*|\\s+.*)?$`
+  ),
+  /^(פרולוג|אפילוג|הקדמה|מבוא|אחרית דבר)(\s*[:.\-–—]\s*.*)?$/,
+];
+
+/**
+ * Check whether a line of text looks like a chapter heading
+ */
+export function isChapterHeading(text: string): boolean {
+  const line = text.trim();
+  if (!line || line.length > MAX_HEADING_LENGTH) return false;
+
+  // "Chapter 3 was the hardest to write." is prose, not a heading
+  if (line.split(/\s+/).length > 4 && /[^\s.][.!?,;]$/.test(line)) return false;
+  if (/^([Cc]hapter|CHAPTER|[Cc]h\.)\s+\S+\s+[a-z]/.test(line)) return false;
+  return CHAPTER_HEADING_PATTERNS.some((pattern) => pattern.test(line));
+}
+
+// ==========================================
+// HTML HELPERS
+// ==========================================
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  shy: '',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+    }
+    const decoded = NAMED_ENTITIES[entity.toLowerCase()];
+    return decoded !== undefined ? decoded : match;
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]*>/g, ''))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Inline tags kept in chapter content, normalized to TipTap marks
+const INLINE_TAGS: Record<string, string> = {
+  strong: 'strong',
+  b: 'strong',
+  em: 'em',
+  i: 'em',
+  cite: 'em',
+  u: 'u',
+  s: 's',
+  strike: 's',
+  del: 's',
+};
+
+const HEADING_TAGS: Record<string, BlockType> = {
+  h1: 'h1',
+  h2: 'h2',
+  h3: 'h3',
+  h4: 'h3',
+  h5: 'h3',
+  h6: 'h3',
+};
+
+const PARAGRAPH_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'aside', 'main',
+  'pre', 'figure', 'figcaption', 'dt', 'dd', 'tr', 'td', 'th', 'caption', 'body',
+]);
+
+// Elements whose content is never imported
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'title', 'nav', 'svg', 'math', 'template']);
+
+/**
+ * Flatten arbitrary (X)HTML into a list of TipTap-compatible blocks.
+ * Unknown elements are unwrapped, inline formatting is limited to
+ * bold/italic/underline/strike and nested blocks are flattened.
+ */
+function htmlToBlocks(html: string): Block[] {
+  const blocks: Block[] = [];
+  const tokenPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[!?][^>]*>|<\/?([a-zA-Z][\w:.-]*)([^>]*)>|([^<]+)/g;
+
+  let blockType: BlockType = 'p';
+  let buffer = '';
+  let openInline: string[] = [];
+  let quoteDepth = 0;
+  let skipDepth = 0;
+  let list: { type: 'ul' | 'ol'; items: string[] } | null = null;
+  let listDepth = 0;
+
+  const flush = () => {
+    const closing = [...openInline].reverse().map((tag) => `</${tag}>`).join('');
+    const inner = (buffer + closing).replace(/\s+/g, ' ').replace(/(<br>\s*)+$/, '').trim();
+    const text = stripTags(inner);
+
+    if (text) {
+      if (list) {
+        list.items.push(inner);
+      } else {
+        blocks.push({ type: quoteDepth > 0 && blockType === 'p' ? 'blockquote' : blockType, html: inner, text });
+      }
+    }
+
+    buffer = openInline.map((tag) => `<${tag}>`).join('');
+    blockType = 'p';
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(html)) !== null) {
+    const [token, cdata, rawName, attrs, textContent] = match;
+
+    if (textContent !== undefined || cdata !== undefined) {
+      if (skipDepth === 0) buffer += escapeHtml(decodeEntities(textContent ?? cdata));
+      continue;
+    }
+    if (!rawName) continue; // Comment, doctype or processing instruction
+
+    const name = rawName.toLowerCase().replace(/^.*:/, '');
+    const isClosing = token.startsWith('</');
+    const isSelfClosing = /\/\s*$/.test(attrs);
+
+    if (SKIPPED_TAGS.has(name)) {
+      if (!isSelfClosing) skipDepth = Math.max(0, skipDepth + (isClosing ? -1 : 1));
+      continue;
+    }
+    if (skipDepth > 0) continue;
+
+    if (name === 'br') {
+      buffer += '<br>';
+    } else if (name === 'hr') {
+      flush();
+      if (!list) blocks.push({ type: 'hr', html: '', text: '' });
+    } else if (INLINE_TAGS[name]) {
+      const tag = INLINE_TAGS[name];
+      if (isClosing) {
+        const index = openInline.lastIndexOf(tag);
+        if (index !== -1) {
+          buffer += openInline.slice(index).reverse().map((t) => `</${t}>`).join('');
+          openInline = openInline.slice(0, index);
+        }
+      } else if (!isSelfClosing) {
+        openInline.push(tag);
+        buffer += `<${tag}>`;
+      }
+    } else if (HEADING_TAGS[name]) {
+      flush();
+      if (!isClosing) blockType = HEADING_TAGS[name];
+    } else if (name === 'blockquote') {
+      flush();
+      quoteDepth = Math.max(0, quoteDepth + (isClosing ? -1 : 1));
+    } else if (name === 'ul' || name === 'ol') {
+      flush();
+      if (isClosing) {
+        listDepth = Math.max(0, listDepth - 1);
+        if (listDepth === 0 && list) {
+          if (list.items.length > 0) {
+            blocks.push({
+              type: list.type,
+              html: list.items.map((item) => `<li><p>${item}</p></li>`).join(''),
+              text: list.items.map(stripTags).join(' '),
+            });
+          }
+          list = null;
+        }
+      } else {
+        // Nested lists are flattened into the outermost one
+        if (listDepth === 0) list = { type: name, items: [] };
+        listDepth++;
+      }
+    } else if (name === 'li' || PARAGRAPH_TAGS.has(name)) {
+      flush();
+    }
+  }
+
+  flush();
+  if (list && list.items.length > 0) {
+    blocks.push({
+      type: list.type,
+      html: list.items.map((item) => `<li><p>${item}</p></li>`).join(''),
+      text: list.items.map(stripTags).join(' '),
+    });
+  }
+
+  return blocks;
+}
+
+function renderBlock(block: Block): string {
+  switch (block.type) {
+    case 'hr':
+      return '<hr>';
+    case 'blockquote':
+      return `<blockquote><p>${block.html}</p></blockquote>`;
+    default:
+      return `<${block.type}>${block.html}</${block.type}>`;
+  }
+}
+
+function paragraph(text: string): Block {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return { type: 'p', html: escapeHtml(clean), text: clean };
+}
+
+// ==========================================
+// PLAIN TEXT & PDF
+// ==========================================
+
+/**
+ * Split plain text into paragraphs. Blank lines separate paragraphs when the
+ * file uses them; otherwise every line is its own paragraph.
+ * Chapter heading lines always become their own paragraph.
+ */
+function textToBlocks(text: string): Block[] {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/\u00a0/g, ' ');
+  const hasBlankLines = /\n[ \t]*\n/.test(normalized);
+  const blocks: Block[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) blocks.push(paragraph(current.join(' ')));
+    current = [];
+  };
+
+  for (const rawLine of normalized.split('\n')) {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+    } else if (isChapterHeading(line)) {
+      flush();
+      blocks.push(paragraph(line));
+    } else if (hasBlankLines) {
+      current.push(line);
+    } else {
+      blocks.push(paragraph(line));
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Rebuild paragraphs from PDF text, where every visual line ends with a newline.
+ * A line noticeably shorter than a full line that ends a sentence closes the
+ * paragraph; hyphenated line breaks are re-joined and bare page numbers dropped.
+ */
+function pdfTextToBlocks(text: string): Block[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n').map((line) => line.trim());
+  const lengths = lines.filter((line) => line.length > 0).map((line) => line.length).sort((a, b) => a - b);
+  const fullLine = lengths.length > 0 ? lengths[Math.floor(lengths.length * 0.75)] : 0;
+
+  const blocks: Block[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) blocks.push(paragraph(current));
+    current = '';
+  };
+
+  for (const line of lines) {
+    if (!line) {
+      flush();
+      continue;
+    }
+    if (/^[-–—\s]*\d{1,4}[-–—\s]*$/.test(line)) continue; // Page number
+
+    if (isChapterHeading(line)) {
+      flush();
+      blocks.push(paragraph(line));
+      continue;
+    }
+
+    if (/[a-z֐-׿]-$/i.test(current) && /^[a-z֐-׿]/.test(line)) {
+      current = current.slice(0, -1) + line;
+    } else {
+      current = current ? `${current} ${line}` : line;
+    }
+
+    if (line.length < fullLine * 0.75 && /[.!?:…"”'’׳״)]$/.test(line)) {
+      flush();
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+// ==========================================
+// ODT
+// ==========================================
+
+/**
+ * Convert ODT content.xml to HTML. Bold/italic/underline come from the
+ * automatic text styles referenced by spans and paragraphs.
+ */
+function odtToHtml(contentXml: string): string {
+  const styles = new Map<string, string[]>();
+  const stylePattern = /<style:style\b([^>]*)>([\s\S]*?)<\/style:style>/g;
+  let styleMatch: RegExpExecArray | null;
+
+  while ((styleMatch = stylePattern.exec(contentXml)) !== null) {
+    const name = /style:name="([^"]+)"/.exec(styleMatch[1])?.[1];
+    const props = /<style:text-properties\b([^>]*)>/.exec(styleMatch[2])?.[1] || '';
+    if (!name) continue;
+
+    const marks: string[] = [];
+    if (/fo:font-weight="(bold|[6-9]00)"/.test(props)) marks.push('strong');
+    if (/fo:font-style="italic"/.test(props)) marks.push('em');
+    if (/style:text-underline-style="(?!none)[^"]+"/.test(props)) marks.push('u');
+    if (/style:text-line-through-style="(?!none)[^"]+"/.test(props)) marks.push('s');
+    if (marks.length > 0) styles.set(name, marks);
+  }
+
+  const wrap = (attrs: string, inner: string) => {
+    const styleName = /text:style-name="([^"]+)"/.exec(attrs)?.[1];
+    const marks = (styleName && styles.get(styleName)) || [];
+    return marks.reduceRight((html, tag) => `<${tag}>${html}</${tag}>`, inner);
+  };
+
+  let body = /<office:text\b[^>]*>([\s\S]*)<\/office:text>/.exec(contentXml)?.[1] || contentXml;
+
+  body = body
+    .replace(/<text:(note|tracked-changes|sequence-decls|table-of-content)\b[\s\S]*?<\/text:\1>/g, '')
+    .replace(/<office:annotation\b[\s\S]*?<\/office:annotation>/g, '')
+    .replace(/<text:line-break\s*\/>/g, '<br/>')
+    .replace(/<text:tab\s*\/>/g, ' ')
+    .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_m, count) => ' '.repeat(Number(count) || 1));
+
+  // Innermost spans first so nested styles are all applied
+  const spanPattern = /<text:span\b([^>]*)>((?:(?!<text:span\b)[\s\S])*?)<\/text:span>/g;
+  let previous: string;
+  do {
+    previous = body;
+    body = body.replace(spanPattern, (_m, attrs: string, inner: string) => wrap(attrs, inner));
+  } while (body !== previous);
+
+  return body
+    .replace(/<text:h\b([^>]*?)\/>/g, '')
+    .replace(/<text:h\b([^>]*)>([\s\S]*?)<\/text:h>/g, (_m, attrs: string, inner: string) => {
+      const level = Math.min(Number(/text:outline-level="(\d+)"/.exec(attrs)?.[1]) || 1, 6);
+      return `<h${level}>${inner}</h${level}>`;
+    })
+    .replace(/<text:p\b([^>]*?)\/>/g, '')
+    .replace(/<text:p\b([^>]*)>([\s\S]*?)<\/text:p>/g, (_m, attrs: string, inner: string) => `<p>${wrap(attrs, inner)}</p>`)
+    .replace(/<text:list(?=[\s>])[^>]*>/g, '<ul>')
+    .replace(/<\/text:list>/g, '</ul>')
+    .replace(/<text:list-(item|header)\b[^>]*>/g, '<li>')
+    .replace(/<\/text:list-(item|header)>/g, '</li>');
+}
+
+// ==========================================
+// EPUB
+// ==========================================
+
+/**
+ * Read the spine documents of an EPUB in reading order
+ */
+async function readEpubDocuments(buffer: Buffer): Promise<string[]> {
+  const zip = await JSZip.loadAsync(buffer);
+
+  const container = await zip.file('META-INF/container.xml')?.async('string');
+  const opfPath = container && /<rootfile\b[^>]*full-path="([^"]+)"/.exec(container)?.[1];
+  const opf = opfPath && await zip.file(opfPath)?.async('string');
+
+  if (!opfPath || !opf) {
+    throw new ValidationError('Invalid EPUB file: package document not found');
+  }
+
+  const baseDir = path.posix.dirname(opfPath);
+  const manifest = new Map<string, { href: string; properties: string }>();
+  const itemPattern = /<(?:opf:)?item\b([^>]*)\/?>/g;
+  let itemMatch: RegExpExecArray | null;
+
+  while ((itemMatch = itemPattern.exec(opf)) !== null) {
+    const id = /\bid="([^"]+)"/.exec(itemMatch[1])?.[1];
+    const href = /\bhref="([^"]+)"/.exec(itemMatch[1])?.[1];
+    if (id && href) {
+      manifest.set(id, {
+        href: decodeURIComponent(decodeEntities(href)),
+        properties: /\bproperties="([^"]+)"/.exec(itemMatch[1])?.[1] || '',
+      });
+    }
+  }
+
+  const documents: string[] = [];
+  const itemrefPattern = /<(?:opf:)?itemref\b([^>]*)\/?>/g;
+  let refMatch: RegExpExecArray | null;
+
+  while ((refMatch = itemrefPattern.exec(opf)) !== null) {
+    if (/linear="no"/.test(refMatch[1])) continue;
+
+    const idref = /idref="([^"]+)"/.exec(refMatch[1])?.[1];
+    const item = idref ? manifest.get(idref) : undefined;
+    if (!item || item.properties.split(/\s+/).includes('nav')) continue;
+
+    const filePath = baseDir === '.' ? item.href : path.posix.join(baseDir, item.href);
+    const content = await zip.file(filePath)?.async('string');
+    if (content) documents.push(content);
+  }
+
+  return documents;
+}
+
+// ==========================================
+// CHAPTER SPLITTING
+// ==========================================
+
+function toChapter(title: string, blocks: Block[]): ImportedChapter {
+  const content = blocks.map(renderBlock).join('');
+  return { title, content, wordCount: countWords(content) };
+}
+
+/**
+ * Split blocks into chapters. Lines matching a chapter pattern win; otherwise
+ * the top heading level is used if it occurs more than once.
+ * Returns null when no chapter structure is found.
+ */
+function splitBlocks(blocks: Block[], language: 'he' | 'en'): ImportedChapter[] | null {
+  const byPattern = blocks.filter((block) => block.type !== 'ul' && block.type !== 'ol' && isChapterHeading(block.text));
+  let isBoundary: (block: Block) => boolean;
+
+  if (byPattern.length >= 2) {
+    isBoundary = (block) => byPattern.includes(block);
+  } else {
+    const level = (['h1', 'h2'] as BlockType[]).find(
+      (type) => blocks.filter((block) => block.type === type).length >= 2
+    );
+    if (!level) return null;
+    isBoundary = (block) => block.type === level;
+  }
+
+  const preamble: Block[] = [];
+  const groups: Array<{ title: string; blocks: Block[] }> = [];
+
+  for (const block of blocks) {
+    if (isBoundary(block)) {
+      groups.push({ title: block.text.slice(0, 200), blocks: [] });
+    } else if (groups.length > 0) {
+      groups[groups.length - 1].blocks.push(block);
+    } else {
+      preamble.push(block);
+    }
+  }
+
+  // Short front matter (title page, dedication) is folded into the first chapter
+  const preambleWords = countWords(preamble.map(renderBlock).join(''));
+  if (preambleWords >= MIN_PREAMBLE_WORDS) {
+    groups.unshift({ title: language === 'he' ? 'מבוא' : 'Introduction', blocks: preamble });
+  } else if (preambleWords > 0) {
+    groups[0].blocks.unshift(...preamble);
+  }
+
+  return groups.map((group) => toChapter(group.title, group.blocks));
+}
+
+function detectLanguage(text: string): 'he' | 'en' {
+  const hebrew = (text.match(/[֐-׿]/g) || []).length;
+  const latin = (text.match(/[a-zA-Z]/g) || []).length;
+  return hebrew > latin ? 'he' : 'en';
+}
+
+// ==========================================
+// MAIN IMPORT FUNCTION
+// ==========================================
+
+/**
+ * Resolve the importer for a file name, or null if unsupported
+ */
+export function getManuscriptFormat(filename: string): ManuscriptFormat | null {
+  return MANUSCRIPT_FORMATS[path.extname(filename).toLowerCase()] || null;
+}
+
+/**
+ * Parse a manuscript file into chapters of TipTap-compatible HTML
+ */
+export async function importManuscript(buffer: Buffer, filename: string): Promise<ImportedManuscript> {
+  const format = getManuscriptFormat(filename);
+
+  if (!format) {
+    throw new ValidationError(
+      `Unsupported file type. Supported formats: ${Object.keys(MANUSCRIPT_FORMATS).join(', ')}`
+    );
+  }
+
+  // Each spine document of an EPUB is a fallback chapter boundary
+  let sections: Block[][];
+
+  switch (format) {
+    case 'docx': {
+      const result = await mammoth.convertToHtml({ buffer });
+      sections = [htmlToBlocks(result.value)];
+      break;
+    }
+    case 'pdf': {
+      const result = await pdfParse(buffer);
+      sections = [pdfTextToBlocks(result.text)];
+      break;
+    }
+    case 'md': {
+      const markdown = new MarkdownIt({ html: false, typographer: true });
+      sections = [htmlToBlocks(markdown.render(buffer.toString('utf-8')))];
+      break;
+    }
+    case 'odt': {
+      const zip = await JSZip.loadAsync(buffer);
+      const contentXml = await zip.file('content.xml')?.async('string');
+      if (!contentXml) {
+        throw new ValidationError('Invalid ODT file: content.xml not found');
+      }
+      sections = [htmlToBlocks(odtToHtml(contentXml))];
+      break;
+    }
+    case 'html':
+      sections = [htmlToBlocks(buffer.toString('utf-8'))];
+      break;
+    case 'epub':
+      sections = (await readEpubDocuments(buffer)).map(htmlToBlocks);
+      break;
+    default:
+      sections = [textToBlocks(buffer.toString('utf-8').replace(/^\ufeff/, ''))];
+  }
+
+  sections = sections.filter((blocks) => blocks.some((block) => block.text));
+  const blocks = sections.flat();
+  const plainText = blocks.map((block) => block.text).join(' ');
+
+  if (plainText.trim().length < 100) {
+    throw new ValidationError(
+      'Could not extract sufficient text from the file. Please ensure the file contains readable text.'
+    );
+  }
+
+  const language = detectLanguage(plainText);
+  let chapters = splitBlocks(blocks, language);
+  const chaptersDetected = chapters !== null || sections.length > 1;
+
+  if (!chapters && sections.length > 1) {
+    chapters = sections.map((section, index) => {
+      const heading = section.find((block) => /^h[1-3]$/.test(block.type));
+      const title = heading?.text.slice(0, 200)
+        || (language === 'he' ? `פרק ${index + 1}` : `Chapter ${index + 1}`);
+      return toChapter(title, heading ? section.filter((block) => block !== heading) : section);
+    });
+  }
+
+  if (!chapters) {
+    chapters = [toChapter(language === 'he' ? 'פרק 1' : 'Chapter 1', blocks)];
+  }
+
+  chapters = chapters.filter((chapter) => chapter.wordCount > 0);
+
+  return {
+    format,
+    language,
+    chapters,
+    chaptersDetected,
+    wordCount: chapters.reduce((sum, chapter) => sum + chapter.wordCount, 0),
+  };
+}
@@ -1,6 +1,7 @@
 import mongoose from 'mongoose';
 import { Book, IBook } from '../models/Book';
 import { UserActivity } from '../models/UserActivity';
+import { getLaterInSeries } from './seriesService';
 // User kept for potential future use
 
 /**
@@ -36,11 +37,17 @@ export interface RecommendationWithReason {
   category: 'personalized' | 'trending' | 'new' | 'similar' | 'explore';
 }
 
+export interface BecauseYouRead {
+  basedOn: IBook;
+  recommendations: IBook[];
+  series?: { _id: string; title: string }; // Set when the first picks continue basedOn's series
+}
+
 export interface PersonalizedFeed {
   recommendedForYou: RecommendationWithReason[];
   continueReading: Array<{ book: IBook; progress: number; lastReadAt: Date }>;
   continueWriting: Array<{ book: IBook; lastEditedAt: Date; wordCount: number }>;
-  becauseYouRead: Array<{ basedOn: IBook; recommendations: IBook[] }>;
+  becauseYouRead: BecauseYouRead[];
   trending: IBook[];
   newReleases: IBook[];
 }
@@ -549,13 +556,14 @@ export async function getDiversifiedRecommendations(
 }
 
 /**
- * Get "Because you read X" recommendations
+ * Get "Because you read X" recommendations, led by the books that follow X
+ * in its series
  */
 export async function getBecauseYouRead(
   userId: string,
   limit: number = 3,
   booksPerSource: number = 4
-): Promise<Array<{ basedOn: IBook; recommendations: IBook[] }>> {
+): Promise<BecauseYouRead[]> {
   const userActivity = await UserActivity.findOne({ userId });
   if (!userActivity || userActivity.completedBooks.length === 0) {
     return [];
@@ -574,9 +582,12 @@ export async function getBecauseYouRead(
     .populate('author', 'name profile.avatar')
     .lean();
 
-  const results: Array<{ basedOn: IBook; recommendations: IBook[] }> = [];
+  const results: BecauseYouRead[] = [];
 
   for (const source of sourceBooks) {
+    // Later books in the source's series come first, in reading order
+    const series = await getLaterInSeries(source._id.toString());
+
     // Get similar books (hybrid: content + collaborative)
     const contentSimilar = await getContentSimilarBooks(source._id.toString(), booksPerSource);
     const collabSimilar = await findSimilarBooks(source._id.toString(), booksPerSource);
@@ -590,7 +601,7 @@ export async function getBecauseYouRead(
       .populate('author', 'name profile.avatar')
       .lean();
 
-    const allSimilar = [...contentSimilar, ...(collabBooks as unknown as IBook[])];
+    const allSimilar = [...(series?.books || []), ...contentSimilar, ...(collabBooks as unknown as IBook[])];
     const uniqueIds = new Set<string>();
     const unique = allSimilar.filter((b) => {
       const id = b._id.toString();
@@ -607,9 +618,11 @@ export async function getBecauseYouRead(
     );
 
     if (filtered.length > 0) {
+      const continuesSeries = !!series?.books.some((b) => b._id.toString() === filtered[0]._id.toString());
       results.push({
         basedOn: source as unknown as IBook,
         recommendations: filtered.slice(0, booksPerSource),
+        ...(continuesSeries && { series: series!.series }),
       });
     }
   }
@@ -7,6 +7,7 @@ import mongoose from 'mongoose';
 import { Notification, INotification, NotificationType } from '../models/Notification';
 import { User } from '../models/User';
 import { Book } from '../models/Book';
+import { emitToUser } from './realtimeService';
 
 // ==================== NOTIFICATION CREATION ====================
 
@@ -33,6 +34,13 @@ export async function createNotification(params: CreateNotificationParams): Prom
   });
 
   await notification.save();
+
+  // Push to the recipient's open clients
+  if (params.senderId) {
+    await notification.populate('sender', 'name profilePicture');
+  }
+  emitToUser(params.recipientId, 'notification:new', { notification });
+
   return notification;
 }
 
@@ -51,7 +59,13 @@ export async function createBatchNotifications(
     data: n.data,
   }));
 
-  return await Notification.insertMany(docs) as unknown as INotification[];
+  const created = await Notification.insertMany(docs) as unknown as INotification[];
+
+  created.forEach((notification) =>
+    emitToUser(notification.recipient.toString(), 'notification:new', { notification })
+  );
+
+  return created;
 }
 
 // ==================== SPECIFIC NOTIFICATION TYPES ====================
@@ -191,6 +205,49 @@ export async function notifyBookPurchase(
   });
 }
 
+/**
+ * Notify the buyer and the author when a book or series bundle purchase is refunded
+ */
+export async function notifyBookRefund(
+  bookId: string,
+  buyerId: string,
+  authorId: string,
+  amount: number,
+  currency: string,
+  chargeback: boolean = false,
+  title?: string // Shown instead of the book's title, e.g. for a series bundle
+): Promise<INotification[]> {
+  const book = await Book.findById(bookId).select('title');
+  if (!book) return [];
+  const bookTitle = title || book.title;
+
+  const data = {
+    bookId: new mongoose.Types.ObjectId(bookId),
+    bookTitle,
+    amount,
+    currency,
+  };
+
+  return createBatchNotifications([
+    {
+      recipientId: buyerId,
+      type: 'payment',
+      title: chargeback ? 'Purchase reversed' : 'Refund issued',
+      message: chargeback
+        ? `Your payment for "${bookTitle}" was reversed and ${title ? 'its books were' : 'the book was'} removed from your library`
+        : `You were refunded ${amount} ${currency} for "${bookTitle}"`,
+      data: { ...data, link: '/library' },
+    },
+    {
+      recipientId: authorId,
+      type: 'purchase',
+      title: chargeback ? 'Sale charged back' : 'Sale refunded',
+      message: `A purchase of "${bookTitle}" for ${amount} ${currency} was ${chargeback ? 'charged back' : 'refunded'}; its earnings were deducted`,
+      data: { ...data, link: '/dashboard' },
+    },
+  ]);
+}
+
 /**
  * Notify user about new message
  */
@@ -272,6 +329,134 @@ export async function notifySubscriptionChange(
   });
 }
 
+/**
+ * Notify author when an editor suggests chapter changes
+ */
+export async function notifyChapterSuggestion(
+  bookId: string,
+  editorId: string,
+  authorId: string,
+  chapterCount: number
+): Promise<INotification | null> {
+  const [editor, book] = await Promise.all([
+    User.findById(editorId).select('name'),
+    Book.findById(bookId).select('title'),
+  ]);
+
+  if (!editor || !book) return null;
+
+  return createNotification({
+    recipientId: authorId,
+    senderId: editorId,
+    type: 'collaboration',
+    title: 'New editing suggestion',
+    message: `${editor.name} suggested changes to ${chapterCount} chapter${chapterCount === 1 ? '' : 's'} of "${book.title}"`,
+    data: {
+      bookId: new mongoose.Types.ObjectId(bookId),
+      bookTitle: book.title,
+      link: `/editor/${bookId}`,
+    },
+  });
+}
+
+export type CommentThreadEvent = 'comment' | 'suggestion' | 'reply' | 'resolved' | 'accepted' | 'rejected';
+
+const COMMENT_THREAD_MESSAGES: Record<CommentThreadEvent, { title: string; action: string }> = {
+  comment: { title: 'New comment', action: 'commented on' },
+  suggestion: { title: 'New suggested edit', action: 'suggested an edit to' },
+  reply: { title: 'New reply', action: 'replied to a thread on' },
+  resolved: { title: 'Thread resolved', action: 'resolved a thread on' },
+  accepted: { title: 'Suggestion accepted', action: 'accepted a suggestion on' },
+  rejected: { title: 'Suggestion rejected', action: 'rejected a suggestion on' },
+};
+
+/**
+ * Notify the people following a comment thread on a chapter draft
+ */
+export async function notifyCommentThread(
+  bookId: string,
+  senderId: string,
+  recipientIds: string[],
+  event: CommentThreadEvent,
+  chapterTitle: string
+): Promise<INotification[]> {
+  const recipients = [...new Set(recipientIds)].filter((id) => id !== senderId);
+  if (recipients.length === 0) return [];
+
+  const [sender, book] = await Promise.all([
+    User.findById(senderId).select('name'),
+    Book.findById(bookId).select('title'),
+  ]);
+
+  if (!sender || !book) return [];
+
+  const { title, action } = COMMENT_THREAD_MESSAGES[event];
+
+  return createBatchNotifications(
+    recipients.map((recipientId) => ({
+      recipientId,
+      senderId,
+      type: 'comment_thread' as NotificationType,
+      title,
+      message: `${sender.name} ${action} "${chapterTitle}" in "${book.title}"`,
+      data: {
+        bookId: new mongoose.Types.ObjectId(bookId),
+        bookTitle: book.title,
+        link: `/editor/${bookId}`,
+      },
+    }))
+  );
+}
+
+/**
+ * Notify a registered reader that they were invited to beta-read a book
+ */
+export async function notifyBetaInvite(
+  readerId: string,
+  authorId: string,
+  bookId: string,
+  bookTitle: string,
+  expiresAt: Date
+): Promise<INotification | null> {
+  const author = await User.findById(authorId).select('name');
+  if (!author) return null;
+
+  return createNotification({
+    recipientId: readerId,
+    senderId: authorId,
+    type: 'beta_read',
+    title: 'Beta reading invitation',
+    message: `${author.name} invited you to read "${bookTitle}" before it is published (until ${expiresAt.toLocaleDateString('en-US')})`,
+    data: {
+      bookId: new mongoose.Types.ObjectId(bookId),
+      bookTitle,
+      link: `/read/${bookId}`,
+    },
+  });
+}
+
+/**
+ * Remind an author that today's writing goal is not met yet
+ */
+export async function notifyWritingReminder(
+  userId: string,
+  wordsToday: number,
+  dailyWords: number
+): Promise<INotification> {
+  return createNotification({
+    recipientId: userId,
+    type: 'writing_goal',
+    title: 'Time to write',
+    message:
+      wordsToday > 0
+        ? `${dailyWords - wordsToday} words to go to reach today's goal of ${dailyWords}`
+        : `You have not written today yet - your goal is ${dailyWords} words`,
+    data: {
+      link: '/dashboard',
+    },
+  });
+}
+
 /**
  * Notify author when book is published
  */
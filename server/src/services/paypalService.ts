@@ -4,9 +4,16 @@
  */
 
 import axios from 'axios';
-import { User } from '../models/User';
-import { Book } from '../models/Book';
-import { Transaction } from '../models/Transaction';
+import mongoose from 'mongoose';
+import { User, IUser } from '../models/User';
+import { Book, IBook } from '../models/Book';
+import { Transaction, ITransaction } from '../models/Transaction';
+import { IGift } from '../models/Gift';
+import { splitAuthorShare, RevenueSplit } from './collaborationService';
+import { postSale, reservePayout, reversePayout, getEarningsSummary } from './earningsLedgerService';
+import { quoteBookPrice, redeemCoupon, releaseCoupon } from './couponService';
+import { quoteSeriesBundle } from './seriesService';
+import { activateGift, spendGiftBalance, releaseGiftBalance } from './giftService';
 
 // PayPal API Configuration
 const PAYPAL_BASE_URL = process.env.PAYPAL_MODE === 'live'
@@ -40,6 +47,12 @@ interface BookPurchaseResult {
   approvalUrl?: string;
   error?: string;
   mockMode?: boolean;
+  paidWithBalance?: boolean; // Covered by the gift card balance; capture it right away
+}
+
+interface BookPurchaseOptions {
+  giftId?: string; // Bought as a gift: delivered to the gift's recipient
+  useGiftBalance?: boolean;
 }
 
 interface PaymentCaptureResult {
@@ -51,6 +64,13 @@ interface PaymentCaptureResult {
   mockMode?: boolean;
 }
 
+interface RefundResult {
+  success: boolean;
+  refundId?: string;
+  error?: string;
+  mockMode?: boolean;
+}
+
 interface PayoutResult {
   success: boolean;
   payoutBatchId?: string;
@@ -113,11 +133,16 @@ function isPayPalConfigured(): boolean {
 }
 
 /**
- * Create a PayPal order for book purchase
+ * Create a PayPal order for book purchase, at the sale price if a sale is
+ * running and less the coupon's discount if a code is given. With
+ * useGiftBalance the buyer's gift card balance pays first; an order it
+ * covers in full needs no PayPal payment.
  */
 export async function createBookPurchaseOrder(
   bookId: string,
-  buyerId: string
+  buyerId: string,
+  couponCode?: string,
+  options: BookPurchaseOptions = {}
 ): Promise<BookPurchaseResult> {
   try {
     // Get book details
@@ -141,7 +166,7 @@ export async function createBookPurchaseOrder(
       return { success: false, error: 'You cannot purchase your own book' };
     }
 
-    // Check if buyer already owns the book
+    // Check if buyer already owns the book (a gift goes to someone else)
     const buyer = await User.findById(buyerId);
     if (!buyer) {
       return { success: false, error: 'User not found' };
@@ -150,42 +175,86 @@ export async function createBookPurchaseOrder(
     const alreadyOwns = buyer.profile?.readingHistory?.some(
       (item) => item.bookId.toString() === bookId
     );
-    if (alreadyOwns) {
+    if (alreadyOwns && !options.giftId) {
       return { success: false, error: 'You already own this book' };
     }
 
-    const price = book.publishingStatus.price;
+    // Throws for a coupon that cannot be used
+    const quote = await quoteBookPrice(book, couponCode);
+    const price = quote.price;
     const authorName = (book.author as any).name || 'Unknown Author';
 
+    // The balance is only taken when the payment is captured
+    const giftBalanceUsed = options.useGiftBalance
+      ? Math.round(Math.min(buyer.giftCardBalance || 0, price) * 100) / 100
+      : 0;
+    const charge = Math.round((price - giftBalanceUsed) * 100) / 100;
+    const description = `${options.giftId ? 'Gift' : 'Purchase'}: ${book.title}`;
+
+    const metadata = {
+      bookId: book._id,
+      bookTitle: book.title,
+      authorId: book.author._id,
+      authorName,
+      authorShare: price * AUTHOR_SHARE_PERCENTAGE,
+      platformShare: price * PLATFORM_SHARE_PERCENTAGE,
+      listPrice: quote.listPrice,
+      salePrice: quote.sale?.price,
+      coupon: quote.coupon,
+      giftId: options.giftId,
+      giftBalanceUsed: giftBalanceUsed || undefined,
+      type: 'book_purchase',
+    };
+
+    // Paid in full from the gift card balance
+    if (charge === 0) {
+      const balanceOrderId = `GIFT-CARD-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+      const transaction = new Transaction({
+        userId: buyerId,
+        amount: 0,
+        currency: 'USD',
+        plan: 'book-purchase',
+        status: 'pending',
+        paymentMethod: 'gift_card',
+        orderId: balanceOrderId,
+        description,
+        metadata,
+      });
+
+      await transaction.save();
+
+      return {
+        success: true,
+        orderId: balanceOrderId,
+        paidWithBalance: true,
+      };
+    }
+
     // Development/Mock Mode
     if (!isPayPalConfigured() || process.env.NODE_ENV === 'development') {
       const mockOrderId = `MOCK-BOOK-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
       console.log(`📚 [MOCK] Creating book purchase order:`);
-      console.log(`   Book: ${book.title} by ${authorName}`);
-      console.log(`   Price: $${price}`);
+      console.log(`   Book: ${book.title} by ${authorName}${options.giftId ? ' (gift)' : ''}`);
+      console.log(`   Price: $${price}${quote.coupon ? ` (coupon ${quote.coupon.code})` : ''}`);
+      if (giftBalanceUsed) {
+        console.log(`   Gift card balance: $${giftBalanceUsed}, charged: $${charge}`);
+      }
       console.log(`   Author Share: $${(price * AUTHOR_SHARE_PERCENTAGE).toFixed(2)}`);
       console.log(`   Platform Share: $${(price * PLATFORM_SHARE_PERCENTAGE).toFixed(2)}`);
 
       // Create pending transaction
       const transaction = new Transaction({
         userId: buyerId,
-        amount: price,
+        amount: charge,
         currency: 'USD',
         plan: 'book-purchase',
         status: 'pending',
         paymentMethod: 'mock',
         orderId: mockOrderId,
-        description: `Purchase: ${book.title}`,
-        metadata: {
-          bookId: book._id,
-          bookTitle: book.title,
-          authorId: book.author._id,
-          authorName,
-          authorShare: price * AUTHOR_SHARE_PERCENTAGE,
-          platformShare: price * PLATFORM_SHARE_PERCENTAGE,
-          type: 'book_purchase',
-        },
+        description,
+        metadata,
       });
 
       await transaction.save();
@@ -214,7 +283,7 @@ export async function createBookPurchaseOrder(
           }),
           amount: {
             currency_code: 'USD',
-            value: price.toFixed(2),
+            value: charge.toFixed(2),
           },
         },
       ],
@@ -241,22 +310,14 @@ export async function createBookPurchaseOrder(
     // Create pending transaction
     const transaction = new Transaction({
       userId: buyerId,
-      amount: price,
+      amount: charge,
       currency: 'USD',
       plan: 'book-purchase',
       status: 'pending',
       paymentMethod: 'paypal',
       orderId: response.data.id,
-      description: `Purchase: ${book.title}`,
-      metadata: {
-        bookId: book._id,
-        bookTitle: book.title,
-        authorId: book.author._id,
-        authorName,
-        authorShare: price * AUTHOR_SHARE_PERCENTAGE,
-        platformShare: price * PLATFORM_SHARE_PERCENTAGE,
-        type: 'book_purchase',
-      },
+      description,
+      metadata,
     });
 
     await transaction.save();
@@ -278,6 +339,285 @@ export async function createBookPurchaseOrder(
   }
 }
 
+/**
+ * Create a PayPal order for a series bundle: every paid book in the series
+ * the buyer does not own yet, at the bundle price for those books
+ */
+export async function createSeriesPurchaseOrder(
+  seriesId: string,
+  buyerId: string
+): Promise<BookPurchaseResult> {
+  try {
+    const buyer = await User.findById(buyerId);
+    if (!buyer) {
+      return { success: false, error: 'User not found' };
+    }
+
+    // Throws when the series has no bundle or nothing is left to buy
+    const { series, quote } = await quoteSeriesBundle(seriesId, buyer);
+    const price = quote.price;
+    const author = series.author as any;
+    const authorName = author.name || 'Unknown Author';
+
+    const metadata = {
+      seriesId: series._id,
+      seriesTitle: series.title,
+      bookTitle: `${series.title} (bundle)`,
+      authorId: author._id,
+      authorName,
+      books: quote.books,
+      authorShare: price * AUTHOR_SHARE_PERCENTAGE,
+      platformShare: price * PLATFORM_SHARE_PERCENTAGE,
+      listPrice: quote.separatePrice,
+      type: 'series_purchase',
+    };
+
+    // Development/Mock Mode
+    if (!isPayPalConfigured() || process.env.NODE_ENV === 'development') {
+      const mockOrderId = `MOCK-SERIES-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+      console.log(`📚 [MOCK] Creating series bundle order:`);
+      console.log(`   Series: ${series.title} by ${authorName} (${quote.books.length} books)`);
+      console.log(`   Price: $${price} (separately $${quote.separatePrice})`);
+
+      const transaction = new Transaction({
+        userId: buyerId,
+        amount: price,
+        currency: 'USD',
+        plan: 'book-purchase',
+        status: 'pending',
+        paymentMethod: 'mock',
+        orderId: mockOrderId,
+        description: `Purchase: ${series.title} (bundle)`,
+        metadata,
+      });
+
+      await transaction.save();
+
+      return {
+        success: true,
+        orderId: mockOrderId,
+        approvalUrl: `/mock-payment?orderId=${mockOrderId}`,
+        mockMode: true,
+      };
+    }
+
+    // Production: Real PayPal Order
+    const accessToken = await getAccessToken();
+
+    const orderPayload = {
+      intent: 'CAPTURE',
+      purchase_units: [
+        {
+          reference_id: seriesId,
+          description: `Series: ${series.title} by ${authorName} (${quote.books.length} books)`,
+          custom_id: JSON.stringify({
+            seriesId,
+            buyerId,
+            authorId: author._id.toString(),
+          }),
+          amount: {
+            currency_code: 'USD',
+            value: price.toFixed(2),
+          },
+        },
+      ],
+      application_context: {
+        brand_name: 'MeStory',
+        landing_page: 'LOGIN',
+        user_action: 'PAY_NOW',
+        return_url: `${process.env.CLIENT_URL}/payment/success`,
+        cancel_url: `${process.env.CLIENT_URL}/payment/cancel`,
+      },
+    };
+
+    const response = await axios.post<PayPalOrder>(
+      `${PAYPAL_BASE_URL}/v2/checkout/orders`,
+      orderPayload,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    const transaction = new Transaction({
+      userId: buyerId,
+      amount: price,
+      currency: 'USD',
+      plan: 'book-purchase',
+      status: 'pending',
+      paymentMethod: 'paypal',
+      orderId: response.data.id,
+      description: `Purchase: ${series.title} (bundle)`,
+      metadata,
+    });
+
+    await transaction.save();
+
+    const approvalLink = response.data.links.find((link) => link.rel === 'approve');
+
+    return {
+      success: true,
+      orderId: response.data.id,
+      approvalUrl: approvalLink?.href,
+    };
+  } catch (error: any) {
+    console.error('Create series purchase order error:', error.response?.data || error.message);
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message || 'Failed to create order',
+    };
+  }
+}
+
+/**
+ * Create a PayPal order for a gift card. The card's value is held for the
+ * recipient, so nothing is earned by an author until it is spent.
+ */
+export async function createGiftCardOrder(gift: IGift, buyerId: string): Promise<BookPurchaseResult> {
+  try {
+    const price = gift.amount;
+    const metadata = {
+      giftId: gift._id,
+      recipientEmail: gift.recipientEmail,
+      type: 'gift_card',
+    };
+
+    // Development/Mock Mode
+    if (!isPayPalConfigured() || process.env.NODE_ENV === 'development') {
+      const mockOrderId = `MOCK-GIFTCARD-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+      console.log(`🎁 [MOCK] Creating gift card order: $${price} for ${gift.recipientEmail}`);
+
+      const transaction = new Transaction({
+        userId: buyerId,
+        amount: price,
+        currency: 'USD',
+        plan: 'gift-card',
+        status: 'pending',
+        paymentMethod: 'mock',
+        orderId: mockOrderId,
+        description: `Gift card: $${price.toFixed(2)}`,
+        metadata,
+      });
+
+      await transaction.save();
+
+      return {
+        success: true,
+        orderId: mockOrderId,
+        approvalUrl: `/mock-payment?orderId=${mockOrderId}`,
+        mockMode: true,
+      };
+    }
+
+    // Production: Real PayPal Order
+    const accessToken = await getAccessToken();
+
+    const orderPayload = {
+      intent: 'CAPTURE',
+      purchase_units: [
+        {
+          reference_id: gift._id.toString(),
+          description: `MeStory gift card ($${price.toFixed(2)})`,
+          custom_id: JSON.stringify({
+            giftId: gift._id.toString(),
+            buyerId,
+          }),
+          amount: {
+            currency_code: 'USD',
+            value: price.toFixed(2),
+          },
+        },
+      ],
+      application_context: {
+        brand_name: 'MeStory',
+        landing_page: 'LOGIN',
+        user_action: 'PAY_NOW',
+        return_url: `${process.env.CLIENT_URL}/payment/success`,
+        cancel_url: `${process.env.CLIENT_URL}/payment/cancel`,
+      },
+    };
+
+    const response = await axios.post<PayPalOrder>(
+      `${PAYPAL_BASE_URL}/v2/checkout/orders`,
+      orderPayload,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    const transaction = new Transaction({
+      userId: buyerId,
+      amount: price,
+      currency: 'USD',
+      plan: 'gift-card',
+      status: 'pending',
+      paymentMethod: 'paypal',
+      orderId: response.data.id,
+      description: `Gift card: $${price.toFixed(2)}`,
+      metadata,
+    });
+
+    await transaction.save();
+
+    const approvalLink = response.data.links.find((link) => link.rel === 'approve');
+
+    return {
+      success: true,
+      orderId: response.data.id,
+      approvalUrl: approvalLink?.href,
+    };
+  } catch (error: any) {
+    console.error('Create gift card order error:', error.response?.data || error.message);
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message || 'Failed to create order',
+    };
+  }
+}
+
+/**
+ * Count a sale on the author's profile. What the author and
+ * collaborators earned is recorded in the earnings ledger.
+ */
+async function countAuthorSale(author: IUser): Promise<void> {
+  if (author.profile?.authorProfile) {
+    author.profile.authorProfile.totalSales += 1;
+    await author.save();
+  }
+}
+
+/**
+ * Hand over a paid book: into the buyer's library, or to the gift it was
+ * bought as, for delivery to the recipient
+ */
+async function deliverBook(buyer: IUser, book: IBook, transaction: ITransaction, paid: number): Promise<void> {
+  const giftId = (transaction.metadata as any)?.giftId;
+  if (giftId) {
+    await activateGift(giftId.toString(), paid, transaction._id as mongoose.Types.ObjectId);
+    return;
+  }
+
+  if (!buyer.profile) {
+    buyer.profile = {};
+  }
+  if (!buyer.profile.readingHistory) {
+    buyer.profile.readingHistory = [];
+  }
+  buyer.profile.readingHistory.push({
+    bookId: book._id,
+    progress: 0,
+    lastRead: new Date(),
+  });
+  await buyer.save();
+}
+
 /**
  * Capture payment and process revenue split
  */
@@ -303,10 +643,20 @@ export async function captureBookPayment(
     }
 
     const metadata = transaction.metadata as any;
+    if (metadata?.type === 'series_purchase') {
+      return await captureSeriesPayment(transaction, orderId);
+    }
+    if (metadata?.type === 'gift_card') {
+      return await captureGiftCardPayment(transaction, orderId);
+    }
+
     const bookId = metadata?.bookId;
     const authorId = metadata?.authorId;
-    const authorShare = metadata?.authorShare || transaction.amount * AUTHOR_SHARE_PERCENTAGE;
-    const platformShare = metadata?.platformShare || transaction.amount * PLATFORM_SHARE_PERCENTAGE;
+    // The sale is the full price, whatever part the gift card balance paid
+    const giftBalanceUsed: number = metadata?.giftBalanceUsed || 0;
+    const paid = transaction.amount + giftBalanceUsed;
+    const authorShare = metadata?.authorShare || paid * AUTHOR_SHARE_PERCENTAGE;
+    const platformShare = metadata?.platformShare || paid * PLATFORM_SHARE_PERCENTAGE;
 
     // Get book and author
     const book = await Book.findById(bookId);
@@ -317,61 +667,73 @@ export async function captureBookPayment(
       return { success: false, error: 'Book, author, or buyer not found' };
     }
 
-    // Mock mode
-    if (transaction.paymentMethod === 'mock' || !isPayPalConfigured()) {
-      console.log(`💳 [MOCK] Capturing payment for order: ${orderId}`);
+    // Co-authors and editors with a revenue share take their part of the author's share
+    const revenueSplit = splitAuthorShare(book, authorShare);
+
+    // A coupon counts when the payment is taken; its cap may have been
+    // reached since the order was created
+    const coupon = metadata?.coupon as { id: string; discount: number } | undefined;
+    if (coupon && !(await redeemCoupon(coupon.id, paid, coupon.discount))) {
+      return { success: false, error: 'This coupon has reached its usage limit' };
+    }
+    // So is the gift card balance, which may have been spent elsewhere
+    if (giftBalanceUsed && !(await spendGiftBalance(buyerId, giftBalanceUsed))) {
+      if (coupon) await releaseCoupon(coupon.id, paid, coupon.discount);
+      return { success: false, error: 'Your gift card balance no longer covers this order' };
+    }
+    const releaseRedemption = async () => {
+      if (coupon) await releaseCoupon(coupon.id, paid, coupon.discount);
+      if (giftBalanceUsed) await releaseGiftBalance(buyerId, giftBalanceUsed);
+    };
+
+    // Mock mode, or nothing left to charge after the gift card balance
+    const paidWithBalance = transaction.paymentMethod === 'gift_card';
+    if (paidWithBalance || transaction.paymentMethod === 'mock' || !isPayPalConfigured()) {
+      console.log(
+        paidWithBalance
+          ? `🎁 Paying order ${orderId} from gift card balance: $${giftBalanceUsed.toFixed(2)}`
+          : `💳 [MOCK] Capturing payment for order: ${orderId}`
+      );
+
+      // The ledger records an order once, so a repeated or concurrent
+      // capture stops here
+      const sale = await postSale({
+        idempotencyKey: `sale:${orderId}`,
+        amount: paid,
+        revenueSplit,
+        bookId: book._id,
+        transactionId: transaction._id,
+        description: `Sale: ${book.title}`,
+      });
+      if (!sale) {
+        await releaseRedemption();
+        return { success: false, error: 'Payment already processed' };
+      }
 
       // Update transaction
       transaction.status = 'completed';
-      transaction.paypalCaptureId = `MOCK-CAPTURE-${Date.now()}`;
+      transaction.paypalCaptureId = `${paidWithBalance ? 'GIFT-CARD' : 'MOCK'}-CAPTURE-${Date.now()}`;
       transaction.metadata = {
         ...transaction.metadata,
         capturedAt: new Date(),
         revenueProcessed: true,
+        revenueSplit,
       };
       await transaction.save();
 
-      // Add book to buyer's library
-      if (!buyer.profile) {
-        buyer.profile = {};
-      }
-      if (!buyer.profile.readingHistory) {
-        buyer.profile.readingHistory = [];
-      }
-      buyer.profile.readingHistory.push({
-        bookId: book._id,
-        progress: 0,
-        lastRead: new Date(),
-      });
-      await buyer.save();
+      await deliverBook(buyer, book, transaction, paid);
 
       // Update book statistics
       book.statistics.purchases += 1;
-      book.statistics.revenue += transaction.amount;
+      book.statistics.revenue += paid;
       await book.save();
 
-      // Update author earnings
-      if (!author.profile) {
-        author.profile = {};
-      }
-      if (!author.profile.earnings) {
-        author.profile.earnings = {
-          totalEarned: 0,
-          pendingPayout: 0,
-          withdrawn: 0,
-          history: [],
-        };
-      }
-      author.profile.earnings.totalEarned += authorShare;
-      author.profile.earnings.pendingPayout += authorShare;
-
-      if (author.profile.authorProfile) {
-        author.profile.authorProfile.totalSales += 1;
-      }
-      await author.save();
+      await countAuthorSale(author);
 
-      console.log(`✅ [MOCK] Payment captured successfully`);
-      console.log(`   Author earned: $${authorShare.toFixed(2)}`);
+      console.log(`✅ ${paidWithBalance ? '' : '[MOCK] '}Payment captured successfully`);
+      revenueSplit.forEach((split) =>
+        console.log(`   ${split.userId === authorId ? 'Author' : 'Collaborator'} earned: $${split.amount.toFixed(2)}`)
+      );
       console.log(`   Platform earned: $${platformShare.toFixed(2)}`);
 
       return {
@@ -379,31 +741,53 @@ export async function captureBookPayment(
         transactionId: transaction._id.toString(),
         authorShare,
         platformShare,
-        mockMode: true,
+        ...(!paidWithBalance && { mockMode: true }),
       };
     }
 
     // Production: Capture PayPal payment
-    const accessToken = await getAccessToken();
+    let response;
+    try {
+      const accessToken = await getAccessToken();
 
-    const response = await axios.post(
-      `${PAYPAL_BASE_URL}/v2/checkout/orders/${orderId}/capture`,
-      {},
-      {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
+      response = await axios.post(
+        `${PAYPAL_BASE_URL}/v2/checkout/orders/${orderId}/capture`,
+        {},
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    } catch (error) {
+      await releaseRedemption();
+      throw error;
+    }
 
     if (response.data.status !== 'COMPLETED') {
+      await releaseRedemption();
       return { success: false, error: 'Payment capture failed' };
     }
 
     // Get capture ID
     const captureId = response.data.purchase_units[0]?.payments?.captures?.[0]?.id;
 
+    // PayPal refuses a second capture of an order; the ledger's key
+    // covers a capture that is replayed after succeeding there
+    const sale = await postSale({
+      idempotencyKey: `sale:${orderId}`,
+      amount: paid,
+      revenueSplit,
+      bookId: book._id,
+      transactionId: transaction._id,
+      description: `Sale: ${book.title}`,
+    });
+    if (!sale) {
+      await releaseRedemption();
+      return { success: false, error: 'Payment already processed' };
+    }
+
     // Update transaction
     transaction.status = 'completed';
     transaction.paypalCaptureId = captureId;
@@ -412,47 +796,18 @@ export async function captureBookPayment(
       capturedAt: new Date(),
       paypalResponse: response.data,
       revenueProcessed: true,
+      revenueSplit,
     };
     await transaction.save();
 
-    // Add book to buyer's library
-    if (!buyer.profile) {
-      buyer.profile = {};
-    }
-    if (!buyer.profile.readingHistory) {
-      buyer.profile.readingHistory = [];
-    }
-    buyer.profile.readingHistory.push({
-      bookId: book._id,
-      progress: 0,
-      lastRead: new Date(),
-    });
-    await buyer.save();
+    await deliverBook(buyer, book, transaction, paid);
 
     // Update book statistics
     book.statistics.purchases += 1;
-    book.statistics.revenue += transaction.amount;
+    book.statistics.revenue += paid;
     await book.save();
 
-    // Update author earnings
-    if (!author.profile) {
-      author.profile = {};
-    }
-    if (!author.profile.earnings) {
-      author.profile.earnings = {
-        totalEarned: 0,
-        pendingPayout: 0,
-        withdrawn: 0,
-        history: [],
-      };
-    }
-    author.profile.earnings.totalEarned += authorShare;
-    author.profile.earnings.pendingPayout += authorShare;
-
-    if (author.profile.authorProfile) {
-      author.profile.authorProfile.totalSales += 1;
-    }
-    await author.save();
+    await countAuthorSale(author);
 
     return {
       success: true,
@@ -469,6 +824,292 @@ export async function captureBookPayment(
   }
 }
 
+/**
+ * One entry per earner across several books' splits, with each share
+ * restated as a percentage of the combined author share
+ */
+function mergeRevenueSplits(splits: RevenueSplit[], authorShare: number): RevenueSplit[] {
+  const merged = new Map<string, number>();
+  splits.forEach((split) => merged.set(split.userId, (merged.get(split.userId) || 0) + split.amount));
+
+  return Array.from(merged, ([userId, amount]) => ({
+    userId,
+    amount: Math.round(amount * 100) / 100,
+    revenueShare: authorShare > 0 ? Math.round((amount / authorShare) * 10000) / 100 : 0,
+  }));
+}
+
+/**
+ * Capture a series bundle payment. The bundle is one sale in the ledger;
+ * each book's part of the price is split between that book's earners,
+ * and every book in the bundle goes into the buyer's library.
+ */
+async function captureSeriesPayment(transaction: ITransaction, orderId: string): Promise<PaymentCaptureResult> {
+  const metadata = transaction.metadata as any;
+  const parts = metadata.books as Array<{ bookId: string; title: string; amount: number }>;
+  const authorShare = metadata.authorShare || transaction.amount * AUTHOR_SHARE_PERCENTAGE;
+  const platformShare = metadata.platformShare || transaction.amount * PLATFORM_SHARE_PERCENTAGE;
+
+  const books = await Book.find({ _id: { $in: parts.map((part) => part.bookId) } });
+  const author = await User.findById(metadata.authorId);
+  const buyer = await User.findById(transaction.userId);
+
+  if (books.length !== parts.length || !author || !buyer) {
+    return { success: false, error: 'Series books, author, or buyer not found' };
+  }
+
+  const bookFor = (bookId: string) => books.find((book) => book._id.toString() === bookId)!;
+  const revenueSplit = mergeRevenueSplits(
+    parts.flatMap((part) => splitAuthorShare(bookFor(part.bookId), part.amount * AUTHOR_SHARE_PERCENTAGE)),
+    authorShare
+  );
+
+  const mockMode = transaction.paymentMethod === 'mock' || !isPayPalConfigured();
+  let captureId: string | undefined;
+  let paypalResponse: any;
+
+  if (mockMode) {
+    console.log(`💳 [MOCK] Capturing series bundle payment for order: ${orderId}`);
+    captureId = `MOCK-CAPTURE-${Date.now()}`;
+  } else {
+    const accessToken = await getAccessToken();
+    const response = await axios.post(
+      `${PAYPAL_BASE_URL}/v2/checkout/orders/${orderId}/capture`,
+      {},
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (response.data.status !== 'COMPLETED') {
+      return { success: false, error: 'Payment capture failed' };
+    }
+    captureId = response.data.purchase_units[0]?.payments?.captures?.[0]?.id;
+    paypalResponse = response.data;
+  }
+
+  // The ledger records an order once, so a repeated capture stops here
+  const sale = await postSale({
+    idempotencyKey: `sale:${orderId}`,
+    amount: transaction.amount,
+    revenueSplit,
+    transactionId: transaction._id,
+    description: `Sale: ${metadata.seriesTitle} (bundle)`,
+  });
+  if (!sale) {
+    return { success: false, error: 'Payment already processed' };
+  }
+
+  transaction.status = 'completed';
+  transaction.paypalCaptureId = captureId;
+  transaction.metadata = {
+    ...transaction.metadata,
+    capturedAt: new Date(),
+    ...(paypalResponse && { paypalResponse }),
+    revenueProcessed: true,
+    revenueSplit,
+  };
+  await transaction.save();
+
+  // Add every book in the bundle to the buyer's library
+  if (!buyer.profile) {
+    buyer.profile = {};
+  }
+  if (!buyer.profile.readingHistory) {
+    buyer.profile.readingHistory = [];
+  }
+  const library = new Set(buyer.profile.readingHistory.map((item) => item.bookId.toString()));
+  books
+    .filter((book) => !library.has(book._id.toString()))
+    .forEach((book) =>
+      buyer.profile!.readingHistory!.push({
+        bookId: book._id,
+        progress: 0,
+        lastRead: new Date(),
+      })
+    );
+  await buyer.save();
+
+  // Each book's statistics count its part of the bundle price
+  for (const part of parts) {
+    const book = bookFor(part.bookId);
+    book.statistics.purchases += 1;
+    book.statistics.revenue += part.amount;
+    await book.save();
+  }
+
+  await countAuthorSale(author);
+
+  return {
+    success: true,
+    transactionId: transaction._id.toString(),
+    authorShare,
+    platformShare,
+    ...(mockMode && { mockMode: true }),
+  };
+}
+
+/**
+ * Capture a gift card payment. The card is not a sale - the ledger records
+ * the books it is later spent on - so the paid gift is scheduled for
+ * delivery and nothing else.
+ */
+async function captureGiftCardPayment(transaction: ITransaction, orderId: string): Promise<PaymentCaptureResult> {
+  const mockMode = transaction.paymentMethod === 'mock' || !isPayPalConfigured();
+  let captureId: string | undefined;
+  let paypalResponse: any;
+
+  if (mockMode) {
+    console.log(`💳 [MOCK] Capturing gift card payment for order: ${orderId}`);
+    captureId = `MOCK-CAPTURE-${Date.now()}`;
+  } else {
+    const accessToken = await getAccessToken();
+    const response = await axios.post(
+      `${PAYPAL_BASE_URL}/v2/checkout/orders/${orderId}/capture`,
+      {},
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (response.data.status !== 'COMPLETED') {
+      return { success: false, error: 'Payment capture failed' };
+    }
+    captureId = response.data.purchase_units[0]?.payments?.captures?.[0]?.id;
+    paypalResponse = response.data;
+  }
+
+  // Only the capture that completes the transaction activates the gift
+  const completed = await Transaction.findOneAndUpdate(
+    { _id: transaction._id, status: 'pending' },
+    {
+      $set: {
+        status: 'completed',
+        paypalCaptureId: captureId,
+        'metadata.capturedAt': new Date(),
+        ...(paypalResponse && { 'metadata.paypalResponse': paypalResponse }),
+      },
+    },
+    { new: true }
+  );
+  if (!completed) {
+    return { success: false, error: 'Payment already processed' };
+  }
+
+  await activateGift((transaction.metadata as any).giftId.toString(), completed.amount, completed._id as mongoose.Types.ObjectId);
+
+  return {
+    success: true,
+    transactionId: completed._id.toString(),
+    ...(mockMode && { mockMode: true }),
+  };
+}
+
+/**
+ * Refund a captured book payment in full. Ledger entries, library access
+ * and the refund's record are handled by the refund service.
+ */
+export async function refundBookPayment(transaction: ITransaction, note?: string): Promise<RefundResult> {
+  try {
+    // Paid from the gift card balance alone; the refund service returns it
+    if (transaction.paymentMethod === 'gift_card') {
+      return { success: true, refundId: `GIFT-CARD-REFUND-${Date.now()}` };
+    }
+
+    // Mock mode
+    if (transaction.paymentMethod === 'mock' || !isPayPalConfigured()) {
+      const mockRefundId = `MOCK-REFUND-${Date.now()}`;
+      console.log(`↩️ [MOCK] Refunding order ${transaction.orderId}: $${transaction.amount.toFixed(2)}`);
+      return { success: true, refundId: mockRefundId, mockMode: true };
+    }
+
+    if (!transaction.paypalCaptureId) {
+      return { success: false, error: 'Payment was never captured' };
+    }
+
+    const accessToken = await getAccessToken();
+
+    const response = await axios.post(
+      `${PAYPAL_BASE_URL}/v2/payments/captures/${transaction.paypalCaptureId}/refund`,
+      {
+        amount: {
+          value: transaction.amount.toFixed(2),
+          currency_code: transaction.currency,
+        },
+        note_to_payer: note?.slice(0, 255),
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          // PayPal answers a repeated request id with the first refund
+          'PayPal-Request-Id': `refund-${transaction._id}`,
+        },
+      }
+    );
+
+    if (!['COMPLETED', 'PENDING'].includes(response.data.status)) {
+      return { success: false, error: `Refund ${String(response.data.status).toLowerCase()}` };
+    }
+
+    return { success: true, refundId: response.data.id };
+  } catch (error: any) {
+    console.error('Refund book payment error:', error.response?.data || error.message);
+    return {
+      success: false,
+      error: error.response?.data?.message || error.message || 'Failed to refund payment',
+    };
+  }
+}
+
+/**
+ * Check a webhook's signature with PayPal. Without PayPal configured
+ * (mock mode) unsigned events are accepted in development only, so the
+ * refund flow can be exercised locally.
+ */
+export async function verifyWebhookSignature(
+  headers: Record<string, string | string[] | undefined>,
+  event: unknown
+): Promise<boolean> {
+  const webhookId = process.env.PAYPAL_WEBHOOK_ID;
+  if (!isPayPalConfigured() || !webhookId) {
+    return process.env.NODE_ENV === 'development';
+  }
+
+  try {
+    const accessToken = await getAccessToken();
+    const response = await axios.post(
+      `${PAYPAL_BASE_URL}/v1/notifications/verify-webhook-signature`,
+      {
+        auth_algo: headers['paypal-auth-algo'],
+        cert_url: headers['paypal-cert-url'],
+        transmission_id: headers['paypal-transmission-id'],
+        transmission_sig: headers['paypal-transmission-sig'],
+        transmission_time: headers['paypal-transmission-time'],
+        webhook_id: webhookId,
+        webhook_event: event,
+      },
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    return response.data.verification_status === 'SUCCESS';
+  } catch (error: any) {
+    console.error('Verify webhook signature error:', error.response?.data || error.message);
+    return false;
+  }
+}
+
 /**
  * Process author payout
  * Sends 50% of earnings to author's PayPal account
@@ -486,46 +1127,23 @@ export async function processAuthorPayout(authorId: string): Promise<PayoutResul
       return { success: false, error: 'Author has not connected PayPal account' };
     }
 
-    // Check pending payout amount
-    const pendingAmount = author.profile?.earnings?.pendingPayout || 0;
-    if (pendingAmount < PAYOUT_THRESHOLD) {
-      return {
-        success: false,
-        error: `Minimum payout threshold is $${PAYOUT_THRESHOLD}. Current balance: $${pendingAmount.toFixed(2)}`,
-      };
-    }
+    const mockMode = !isPayPalConfigured() || process.env.NODE_ENV === 'development';
+
+    // Move the balance out of the author's payable account before sending
+    // it, so a second request cannot pay it again
+    const { entry, amount: pendingAmount } = await reservePayout(authorId, {
+      paypalEmail,
+      minimum: PAYOUT_THRESHOLD,
+      status: mockMode ? 'completed' : 'pending', // Real payouts complete via webhook
+    });
 
     // Mock mode
-    if (!isPayPalConfigured() || process.env.NODE_ENV === 'development') {
+    if (mockMode) {
       const mockPayoutId = `MOCK-PAYOUT-${Date.now()}`;
 
       console.log(`💰 [MOCK] Processing payout to author: ${author.name}`);
       console.log(`   PayPal Email: ${paypalEmail}`);
       console.log(`   Amount: $${pendingAmount.toFixed(2)}`);
-
-      // Update author earnings
-      if (!author.profile) author.profile = {};
-      if (!author.profile.earnings) {
-        author.profile.earnings = {
-          totalEarned: 0,
-          pendingPayout: 0,
-          withdrawn: 0,
-          history: [],
-        };
-      }
-
-      author.profile.earnings.pendingPayout = 0;
-      author.profile.earnings.withdrawn += pendingAmount;
-      author.profile.earnings.lastPayoutDate = new Date();
-      author.profile.earnings.history.push({
-        amount: pendingAmount,
-        date: new Date(),
-        status: 'completed',
-        paypalEmail,
-      });
-
-      await author.save();
-
       console.log(`✅ [MOCK] Payout completed: ${mockPayoutId}`);
 
       return {
@@ -541,7 +1159,8 @@ export async function processAuthorPayout(authorId: string): Promise<PayoutResul
 
     const payoutPayload = {
       sender_batch_header: {
-        sender_batch_id: `MESTORY-${Date.now()}`,
+        // PayPal refuses a batch id it has seen, so a retried request cannot pay twice
+        sender_batch_id: `MESTORY-${entry._id}`,
         email_subject: 'You have received a payment from MeStory!',
         email_message: 'Thank you for publishing on MeStory. Your book sales earnings are ready.',
       },
@@ -554,46 +1173,30 @@ export async function processAuthorPayout(authorId: string): Promise<PayoutResul
           },
           receiver: paypalEmail,
           note: `MeStory book sales earnings for ${author.name}`,
-          sender_item_id: `AUTHOR-${authorId}-${Date.now()}`,
+          sender_item_id: `AUTHOR-${authorId}-${entry._id}`,
         },
       ],
     };
 
-    const response = await axios.post(
-      `${PAYPAL_BASE_URL}/v1/payments/payouts`,
-      payoutPayload,
-      {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    const payoutBatchId = response.data.batch_header?.payout_batch_id;
-
-    // Update author earnings
-    if (!author.profile) author.profile = {};
-    if (!author.profile.earnings) {
-      author.profile.earnings = {
-        totalEarned: 0,
-        pendingPayout: 0,
-        withdrawn: 0,
-        history: [],
-      };
+    let response;
+    try {
+      response = await axios.post(
+        `${PAYPAL_BASE_URL}/v1/payments/payouts`,
+        payoutPayload,
+        {
+          headers: {
+            'Authorization': `Bearer ${accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+    } catch (error) {
+      // Nothing was sent: return the amount to the author's balance
+      await reversePayout(entry, 'PayPal payout request failed');
+      throw error;
     }
 
-    author.profile.earnings.pendingPayout = 0;
-    author.profile.earnings.withdrawn += pendingAmount;
-    author.profile.earnings.lastPayoutDate = new Date();
-    author.profile.earnings.history.push({
-      amount: pendingAmount,
-      date: new Date(),
-      status: 'pending', // Will be updated via webhook
-      paypalEmail,
-    });
-
-    await author.save();
+    const payoutBatchId = response.data.batch_header?.payout_batch_id;
 
     return {
       success: true,
@@ -609,6 +1212,15 @@ export async function processAuthorPayout(authorId: string): Promise<PayoutResul
   }
 }
 
+/**
+ * What a user earned from a sale - their part of the split, or the whole
+ * author share for sales recorded before revenue splitting
+ */
+function earnedFromSale(metadata: any, userId: string): number | undefined {
+  const split = (metadata?.revenueSplit as RevenueSplit[] | undefined)?.find((s) => s.userId === userId);
+  return split ? split.amount : metadata?.authorShare;
+}
+
 /**
  * Get author earnings summary
  */
@@ -618,17 +1230,12 @@ export async function getAuthorEarnings(authorId: string) {
     throw new Error('Author not found');
   }
 
-  const earnings = author.profile?.earnings || {
-    totalEarned: 0,
-    pendingPayout: 0,
-    withdrawn: 0,
-    history: [],
-  };
+  const earnings = await getEarningsSummary(authorId);
 
   // Get recent sales from transactions
   const recentSales = await Transaction.find({
-    'metadata.authorId': authorId,
-    'metadata.type': 'book_purchase',
+    $or: [{ 'metadata.authorId': authorId }, { 'metadata.revenueSplit.userId': authorId }],
+    'metadata.type': { $in: ['book_purchase', 'series_purchase'] },
     status: 'completed',
   })
     .sort({ createdAt: -1 })
@@ -644,8 +1251,8 @@ export async function getAuthorEarnings(authorId: string) {
     paypalEmail: author.paypal?.email ? `${author.paypal.email.substring(0, 3)}***` : null,
     recentSales: recentSales.map((sale) => ({
       bookTitle: (sale.metadata as any)?.bookTitle,
-      amount: sale.amount,
-      authorShare: (sale.metadata as any)?.authorShare,
+      amount: sale.amount + ((sale.metadata as any)?.giftBalanceUsed || 0),
+      authorShare: earnedFromSale(sale.metadata, authorId),
       date: sale.createdAt,
     })),
   };
@@ -720,9 +1327,13 @@ export async function checkBookOwnership(
 
 export default {
   createBookPurchaseOrder,
+  createSeriesPurchaseOrder,
+  createGiftCardOrder,
   captureBookPayment,
   processAuthorPayout,
   getAuthorEarnings,
+  refundBookPayment,
+  verifyWebhookSignature,
   connectAuthorPayPal,
   checkBookOwnership,
   isPayPalConfigured,
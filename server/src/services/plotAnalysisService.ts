@@ -3,25 +3,9 @@
  * AI-powered plot structure and writing techniques analysis
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { z } from 'zod';
 import { IBook } from '../models/Book';
-
-// Lazy-initialize Gemini AI client (only when API key is available)
-let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
-
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
+import { generateJSON } from './llmService';
 
 // Types
 export interface ActInfo {
@@ -79,6 +63,66 @@ export interface TechniquesAnalysis {
   improvements: string[];
 }
 
+// Expected AI responses
+const actInfoSchema = z.object({
+  chapters: z.array(z.number()),
+  percentage: z.number(),
+  completeness: z.number().min(0).max(100),
+  elements: z.array(z.string()).default([]),
+  suggestions: z.array(z.string()).default([]),
+});
+
+const plotPointSchema = z.object({
+  chapter: z.number(),
+  description: z.string(),
+});
+
+const plotAnalysisSchema = z.object({
+  threeActStructure: z.object({
+    act1: actInfoSchema,
+    act2: actInfoSchema,
+    act3: actInfoSchema,
+  }),
+  plotPoints: z
+    .object({
+      incitingIncident: plotPointSchema.optional(),
+      midpoint: plotPointSchema.optional(),
+      climax: plotPointSchema.optional(),
+    })
+    .default({}),
+  balance: z.enum(['balanced', 'front-heavy', 'back-heavy', 'middle-heavy']).catch('balanced'),
+  suggestions: z.array(z.string()).default([]),
+});
+
+const techniqueScoreSchema = z.object({
+  score: z.number().min(0).max(100),
+  trend: z.enum(['improving', 'stable', 'declining']).catch('stable'),
+  examples: z
+    .array(
+      z.object({
+        chapterIndex: z.number(),
+        excerpt: z.string(),
+        analysis: z.string(),
+        quality: z.enum(['excellent', 'good', 'needs-improvement']).catch('good'),
+      })
+    )
+    .default([]),
+  suggestions: z.array(z.string()).default([]),
+});
+
+const techniquesAnalysisSchema = z.object({
+  techniques: z.object({
+    tensionCreation: techniqueScoreSchema,
+    problemResolution: techniqueScoreSchema,
+    characterDevelopment: techniqueScoreSchema,
+    motifsThemes: techniqueScoreSchema,
+    dialogueQuality: techniqueScoreSchema,
+    pacing: techniqueScoreSchema,
+  }),
+  overallScore: z.number().min(0).max(100),
+  improvements: z.array(z.string()).default([]),
+});
+
 /**
  * Strip HTML tags from content
  */
@@ -152,15 +196,11 @@ ${chapterSummaries}
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      throw new Error('Invalid response format');
-    }
-
-    return JSON.parse(jsonMatch[0]);
+    return await generateJSON({
+      task: 'analysis.plot-structure',
+      prompt,
+      schema: plotAnalysisSchema,
+    });
   } catch (error) {
     console.error('Error analyzing plot structure:', error);
     // Return default analysis
@@ -246,15 +286,11 @@ ${allContent.slice(0, 6000)}
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      throw new Error('Invalid response format');
-    }
-
-    return JSON.parse(jsonMatch[0]);
+    return await generateJSON({
+      task: 'analysis.techniques',
+      prompt,
+      schema: techniquesAnalysisSchema,
+    });
   } catch (error) {
     console.error('Error analyzing writing techniques:', error);
     // Return default analysis
@@ -0,0 +1,282 @@
+/**
+ * Realtime Service
+ * WebSocket gateway that pushes messaging and notification events to
+ * signed-in clients, so they don't have to poll.
+ *
+ * Clients connect to /api/realtime and authenticate with their access
+ * token as the first frame. Because the token travels inside the socket
+ * rather than in a cookie or the URL, other sites cannot open an
+ * authenticated connection on a user's behalf.
+ *
+ * Connections are tracked in memory, so events only reach clients
+ * connected to the same server process. Serverless deployments (Vercel)
+ * cannot hold sockets; clients fall back to polling there.
+ */
+
+import { Server as HttpServer, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import mongoose from 'mongoose';
+import { Conversation } from '../models/Message';
+import { verifyToken, JWTPayload } from '../utils/jwt';
+import { isSessionActive } from './sessionService';
+
+export const REALTIME_PATH = '/api/realtime';
+
+// Time a new connection has to send its auth frame
+const AUTH_TIMEOUT_MS = 10 * 1000;
+
+// Dead connection detection and revoked-session sweep
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const SESSION_CHECK_INTERVAL_MS = 60 * 1000;
+
+// Largest frame accepted from a client
+const MAX_PAYLOAD_BYTES = 16 * 1024;
+
+// Close codes understood by the client (4000-4999 are application codes)
+const CLOSE_CODES = {
+  AUTH_FAILED: 4001, // Token invalid or expired - refresh and reconnect
+  AUTH_TIMEOUT: 4002,
+  SESSION_REVOKED: 4003, // Signed out elsewhere - do not reconnect
+} as const;
+
+/**
+ * Events pushed to clients
+ */
+export interface RealtimeEvents {
+  ready: { userId: string };
+  'message:new': { conversationId: string; message: unknown };
+  'message:read': { conversationId: string; readerId: string; readAt: Date };
+  typing: { conversationId: string; userId: string; isTyping: boolean };
+  'notification:new': { notification: unknown };
+}
+
+export type RealtimeEventType = keyof RealtimeEvents;
+
+interface ClientConnection {
+  socket: WebSocket;
+  userId?: string;
+  sessionId?: string;
+  isAlive: boolean;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+let wss: WebSocketServer | null = null;
+const connections = new Set<ClientConnection>();
+const connectionsByUser = new Map<string, Set<ClientConnection>>();
+
+// ============================================
+// SENDING
+// ============================================
+
+function send<E extends RealtimeEventType>(connection: ClientConnection, type: E, data: RealtimeEvents[E]): void {
+  if (connection.socket.readyState === WebSocket.OPEN) {
+    connection.socket.send(JSON.stringify({ type, data }));
+  }
+}
+
+/**
+ * Push an event to every connection of a user. A no-op when the user is
+ * offline or the gateway is not running.
+ */
+export function emitToUser<E extends RealtimeEventType>(userId: string, type: E, data: RealtimeEvents[E]): void {
+  const userConnections = connectionsByUser.get(userId);
+  if (!userConnections) return;
+
+  for (const connection of userConnections) {
+    send(connection, type, data);
+  }
+}
+
+/**
+ * Push an event to several users
+ */
+export function emitToUsers<E extends RealtimeEventType>(userIds: string[], type: E, data: RealtimeEvents[E]): void {
+  new Set(userIds).forEach((userId) => emitToUser(userId, type, data));
+}
+
+// ============================================
+// CONNECTION LIFECYCLE
+// ============================================
+
+function register(connection: ClientConnection, decoded: JWTPayload): void {
+  connection.userId = decoded.id;
+  connection.sessionId = decoded.sid;
+
+  let userConnections = connectionsByUser.get(decoded.id);
+  if (!userConnections) {
+    userConnections = new Set();
+    connectionsByUser.set(decoded.id, userConnections);
+  }
+  userConnections.add(connection);
+}
+
+function unregister(connection: ClientConnection): void {
+  connections.delete(connection);
+  if (connection.expiryTimer) clearTimeout(connection.expiryTimer);
+
+  if (connection.userId) {
+    const userConnections = connectionsByUser.get(connection.userId);
+    userConnections?.delete(connection);
+    if (userConnections?.size === 0) {
+      connectionsByUser.delete(connection.userId);
+    }
+  }
+}
+
+async function authenticate(connection: ClientConnection, token: unknown): Promise<void> {
+  let decoded: JWTPayload & { exp?: number };
+
+  try {
+    decoded = verifyToken(typeof token === 'string' ? token : '');
+  } catch {
+    connection.socket.close(CLOSE_CODES.AUTH_FAILED, 'Invalid or expired token');
+    return;
+  }
+
+  if (!decoded.sid || !(await isSessionActive(decoded.sid, decoded.id))) {
+    connection.socket.close(CLOSE_CODES.SESSION_REVOKED, 'Session is no longer valid');
+    return;
+  }
+
+  if (connection.socket.readyState !== WebSocket.OPEN) return;
+
+  register(connection, decoded);
+
+  // Access tokens are short-lived; the client reconnects with a fresh one
+  if (decoded.exp) {
+    connection.expiryTimer = setTimeout(
+      () => connection.socket.close(CLOSE_CODES.AUTH_FAILED, 'Token has expired'),
+      Math.max(decoded.exp * 1000 - Date.now(), 0)
+    );
+  }
+
+  send(connection, 'ready', { userId: decoded.id });
+}
+
+/**
+ * Relay a typing indicator to the other participants of a conversation
+ */
+async function handleTyping(connection: ClientConnection, data: any): Promise<void> {
+  const conversationId = data?.conversationId;
+  if (!connection.userId || !mongoose.Types.ObjectId.isValid(conversationId)) return;
+
+  const conversation = await Conversation.findById(conversationId).select('participants').lean();
+  const participants = conversation?.participants.map((p) => p.toString()) || [];
+  if (!participants.includes(connection.userId)) return;
+
+  emitToUsers(
+    participants.filter((id) => id !== connection.userId),
+    'typing',
+    { conversationId, userId: connection.userId, isTyping: data.isTyping !== false }
+  );
+}
+
+function handleFrame(connection: ClientConnection, raw: RawData): void {
+  let frame: { type?: string; data?: any };
+  try {
+    frame = JSON.parse(raw.toString());
+  } catch {
+    return;
+  }
+
+  if (!connection.userId) {
+    if (frame.type === 'auth') {
+      authenticate(connection, frame.data?.token).catch((err) => {
+        console.error('Realtime auth error:', err);
+        connection.socket.close(CLOSE_CODES.AUTH_FAILED, 'Authentication failed');
+      });
+    }
+    return;
+  }
+
+  switch (frame.type) {
+    case 'typing':
+      handleTyping(connection, frame.data).catch((err) => console.error('Realtime typing error:', err));
+      break;
+    default:
+      // Unknown frames are ignored so older servers tolerate newer clients
+      break;
+  }
+}
+
+function handleConnection(socket: WebSocket): void {
+  const connection: ClientConnection = { socket, isAlive: true };
+  connections.add(connection);
+
+  const authTimer = setTimeout(() => {
+    if (!connection.userId) {
+      socket.close(CLOSE_CODES.AUTH_TIMEOUT, 'Authentication timeout');
+    }
+  }, AUTH_TIMEOUT_MS);
+
+  socket.on('pong', () => {
+    connection.isAlive = true;
+  });
+  socket.on('message', (raw) => handleFrame(connection, raw));
+  socket.on('close', () => {
+    clearTimeout(authTimer);
+    unregister(connection);
+  });
+  socket.on('error', (err) => console.error('Realtime socket error:', err.message));
+}
+
+/**
+ * Close connections whose session was revoked (logout elsewhere,
+ * password reset). Access tokens alone would stay valid until expiry.
+ */
+async function closeRevokedSessions(): Promise<void> {
+  for (const connection of connections) {
+    if (!connection.userId || !connection.sessionId) continue;
+
+    if (!(await isSessionActive(connection.sessionId, connection.userId))) {
+      connection.socket.close(CLOSE_CODES.SESSION_REVOKED, 'Session is no longer valid');
+    }
+  }
+}
+
+// ============================================
+// GATEWAY
+// ============================================
+
+/**
+ * Attach the WebSocket gateway to the HTTP server
+ */
+export function attachRealtimeGateway(server: HttpServer): void {
+  if (wss) return;
+
+  wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+  wss.on('connection', handleConnection);
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const pathname = (req.url || '').split('?')[0];
+    if (pathname !== REALTIME_PATH) {
+      socket.destroy();
+      return;
+    }
+
+    wss!.handleUpgrade(req, socket, head, (ws) => wss!.emit('connection', ws, req));
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const connection of connections) {
+      if (!connection.isAlive) {
+        connection.socket.terminate();
+        continue;
+      }
+      connection.isAlive = false;
+      connection.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const sessionCheck = setInterval(() => {
+    closeRevokedSessions().catch((err) => console.error('Realtime session check error:', err));
+  }, SESSION_CHECK_INTERVAL_MS);
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    clearInterval(sessionCheck);
+  });
+
+  console.log(`✅ Realtime gateway listening on ${REALTIME_PATH}`);
+}
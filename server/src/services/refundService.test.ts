@@ -0,0 +1,369 @@
+import mongoose from 'mongoose';
+import { Book } from '../models/Book';
+import { IEarningsEntry } from '../models/EarningsLedger';
+import { Gift, IGift } from '../models/Gift';
+import { RefundRequest } from '../models/RefundRequest';
+import { ITransaction, Transaction } from '../models/Transaction';
+import { User } from '../models/User';
+import { DAY, fake, fakeEarningsLedger, queryOf, settle } from '../test/fixtures';
+import { postSale } from './earningsLedgerService';
+import * as notificationService from './notificationService';
+import { PayPalWebhookEvent, applyRefund, handlePayPalEvent, requestRefund } from './refundService';
+
+const buyerId = new mongoose.Types.ObjectId();
+const authorId = new mongoose.Types.ObjectId();
+const bookId = new mongoose.Types.ObjectId();
+const recipientId = new mongoose.Types.ObjectId();
+
+const refundEvent = (captureId: string, eventType = 'PAYMENT.CAPTURE.REFUNDED'): PayPalWebhookEvent => ({
+  id: 'WH-1',
+  event_type: eventType,
+  resource: {
+    id: 'REFUND-9',
+    links: [{ rel: 'up', href: `https://api.paypal.com/v2/payments/captures/${captureId}` }],
+  },
+});
+
+describe('refundService', () => {
+  let purchase: ITransaction;
+  let ledger: IEarningsEntry[];
+  let libraryUpdates: jest.SpyInstance;
+  let bookUpdates: jest.SpyInstance;
+  let requestUpdates: jest.SpyInstance;
+  let notify: jest.SpyInstance;
+
+  beforeEach(async () => {
+    purchase = new Transaction({
+      userId: buyerId,
+      amount: 10,
+      plan: 'book-purchase',
+      status: 'completed',
+      paymentMethod: 'paypal',
+      orderId: 'ORDER-1',
+      paypalCaptureId: 'CAPTURE-1',
+      description: 'Book purchase: Night Tide',
+      metadata: { type: 'book_purchase', bookId, authorId, bookTitle: 'Night Tide', capturedAt: new Date() },
+    });
+
+    ledger = fakeEarningsLedger();
+    await postSale({
+      idempotencyKey: 'sale:ORDER-1',
+      amount: 10,
+      revenueSplit: [{ userId: authorId.toString(), amount: 7, revenueShare: 100 }],
+      bookId,
+      transactionId: purchase._id as mongoose.Types.ObjectId,
+    });
+
+    fake(Transaction, 'findOne', (filter: { paypalCaptureId?: string; status?: string | object }) =>
+      queryOf(
+        (!filter.paypalCaptureId || filter.paypalCaptureId === purchase.paypalCaptureId) &&
+          (typeof filter.status !== 'string' || filter.status === purchase.status)
+          ? purchase
+          : null
+      )
+    );
+    // Conditional status change, as MongoDB applies it
+    fake(
+      Transaction,
+      'findOneAndUpdate',
+      async (filter: { status: string }, update: { $set: Record<string, unknown> }) => {
+        if (purchase.status !== filter.status) return null;
+        Object.entries(update.$set).forEach(([path, value]) => purchase.set(path, value));
+        return purchase;
+      }
+    );
+
+    // Updates to the purchase's metadata, guarded ones as MongoDB applies them
+    fake(Transaction, 'updateOne', async (filter: Record<string, any>, update: Record<string, any>) => {
+      if (update.$set) {
+        Object.entries(update.$set).forEach(([path, value]) => purchase.set(path, value));
+        return { modifiedCount: 1 };
+      }
+
+      const [path, value] = Object.entries(update.$push || update.$pull)[0] as [string, any];
+      const items: any[] = purchase.get(path) || [];
+      if (update.$pull) {
+        purchase.set(path, items.filter((item) => item !== value));
+        return { modifiedCount: 1 };
+      }
+
+      const guard = Object.keys(filter).find((key) => key.startsWith(path));
+      if (guard) {
+        const field = guard.slice(path.length + 1);
+        if (items.some((item) => (field ? item[field] : item) === filter[guard].$ne)) return { modifiedCount: 0 };
+      }
+      purchase.set(path, [...items, value]);
+      return { modifiedCount: 1 };
+    });
+
+    libraryUpdates = fake(User, 'updateOne', async () => ({ modifiedCount: 1 }));
+    bookUpdates = fake(Book, 'bulkWrite', async () => ({ modifiedCount: 1 }));
+    requestUpdates = fake(RefundRequest, 'findOneAndUpdate', async () => null);
+    fake(RefundRequest, 'findOne', async () => null);
+    notify = fake(notificationService, 'notifyBookRefund', async () => []);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('requestRefund', () => {
+    beforeEach(() => {
+      fake(RefundRequest, 'create', async (doc: object) => new RefundRequest(doc));
+    });
+
+    it('opens a request for a purchase within the refund window', async () => {
+      const request = await requestRefund(buyerId.toString(), bookId.toString(), ' Not for me ');
+
+      expect(request).toMatchObject({ amount: 10, reason: 'Not for me', source: 'buyer', status: 'requested' });
+      expect(request.transactionRef.toString()).toBe(purchase._id!.toString());
+    });
+
+    it('refuses purchases outside the window or already refunded', async () => {
+      purchase.set('metadata.capturedAt', new Date(Date.now() - 30 * DAY));
+      await expect(requestRefund(buyerId.toString(), bookId.toString(), '')).rejects.toThrow(
+        'Refunds can be requested within 14 days of purchase'
+      );
+
+      purchase.status = 'refunded';
+      await expect(requestRefund(buyerId.toString(), bookId.toString(), '')).rejects.toThrow(
+        'This purchase was already refunded'
+      );
+    });
+  });
+
+  describe('applyRefund', () => {
+    it('revokes the book, undoes the statistics and reverses the earnings', async () => {
+      await expect(applyRefund(purchase, { source: 'buyer', paypalRefundId: 'REFUND-1' })).resolves.toBe(true);
+      await settle();
+
+      expect(purchase.status).toBe('refunded');
+      expect(purchase.metadata?.refund).toMatchObject({ source: 'buyer', paypalRefundId: 'REFUND-1' });
+      expect(libraryUpdates).toHaveBeenCalledWith(
+        { _id: buyerId },
+        { $pull: { 'profile.readingHistory': { bookId: { $in: [bookId] } } } }
+      );
+      expect(bookUpdates).toHaveBeenCalledWith([
+        {
+          updateOne: {
+            filter: { _id: bookId.toString() },
+            update: { $inc: { 'statistics.purchases': -1, 'statistics.revenue': -10 } },
+          },
+        },
+      ]);
+      expect(ledger.filter((entry) => entry.type === 'refund')).toHaveLength(1);
+      expect(requestUpdates.mock.calls[0][1].$set).toMatchObject({ status: 'refunded', paypalRefundId: 'REFUND-1' });
+      expect(notify).toHaveBeenCalledWith(
+        bookId.toString(),
+        buyerId.toString(),
+        authorId.toString(),
+        10,
+        'USD',
+        false,
+        undefined
+      );
+    });
+
+    it('takes back every book of a series bundle at its part of the price', async () => {
+      const sequelId = new mongoose.Types.ObjectId();
+      purchase.set('metadata', {
+        type: 'series_purchase',
+        seriesId: new mongoose.Types.ObjectId(),
+        books: [
+          { bookId, amount: 4 },
+          { bookId: sequelId, amount: 6 },
+        ],
+        authorId,
+        bookTitle: 'Tides (series)',
+        capturedAt: new Date(),
+      });
+
+      await expect(applyRefund(purchase, { source: 'chargeback' })).resolves.toBe(true);
+
+      expect(libraryUpdates).toHaveBeenCalledWith(
+        { _id: buyerId },
+        { $pull: { 'profile.readingHistory': { bookId: { $in: [bookId, sequelId] } } } }
+      );
+      const revenue = bookUpdates.mock.calls[0][0].map((op: any) => op.updateOne.update.$inc['statistics.revenue']);
+      expect(revenue).toEqual([-4, -6]);
+      expect(ledger.filter((entry) => entry.type === 'refund')).toHaveLength(1);
+      expect(notify.mock.calls[0].slice(5)).toEqual([true, 'Tides (series)']);
+    });
+
+    it('applies a refund once', async () => {
+      await applyRefund(purchase, { source: 'buyer' });
+
+      await expect(applyRefund(purchase, { source: 'chargeback' })).resolves.toBe(false);
+
+      expect(libraryUpdates).toHaveBeenCalledTimes(1);
+      expect(ledger.filter((entry) => entry.type === 'refund')).toHaveLength(1);
+      expect(purchase.metadata?.refund.source).toBe('buyer');
+    });
+
+    it('finishes the steps an interrupted refund left undone', async () => {
+      bookUpdates.mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(applyRefund(purchase, { source: 'buyer', paypalRefundId: 'REFUND-1' })).rejects.toThrow(
+        'connection reset'
+      );
+      expect(purchase.status).toBe('refunded');
+      expect(purchase.metadata?.refund.steps).toEqual(['library']);
+
+      await expect(applyRefund(purchase, { source: 'buyer' })).resolves.toBe(false);
+
+      expect(libraryUpdates).toHaveBeenCalledTimes(1);
+      expect(bookUpdates).toHaveBeenCalledTimes(2);
+      expect(purchase.metadata?.refund.steps).toEqual(['library', 'statistics', 'notification']);
+      expect(ledger.filter((entry) => entry.type === 'refund')).toHaveLength(1);
+      expect(requestUpdates.mock.calls[0][1].$set.paypalRefundId).toBe('REFUND-1');
+      expect(notify).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('applyRefund notifications', () => {
+    it('leaves a notification that failed for the next retry', async () => {
+      notify.mockRejectedValueOnce(new Error('socket closed'));
+
+      await expect(applyRefund(purchase, { source: 'buyer' })).rejects.toThrow('socket closed');
+      expect(purchase.metadata?.refund.steps).not.toContain('notification');
+
+      await applyRefund(purchase, { source: 'buyer' });
+
+      expect(notify).toHaveBeenCalledTimes(2);
+      expect(purchase.metadata?.refund.steps).toContain('notification');
+    });
+  });
+
+  describe('applyRefund for a gift', () => {
+    let gift: IGift;
+    let recipientBalance: number;
+
+    beforeEach(() => {
+      gift = new Gift({
+        type: 'book',
+        sender: buyerId,
+        recipientEmail: 'friend@example.com',
+        book: bookId,
+        amount: 10,
+        status: 'claimed',
+        claimedBy: recipientId,
+        deliverAt: new Date(),
+      });
+      purchase.set('metadata.giftId', gift._id);
+      recipientBalance = 0;
+
+      fake(Gift, 'findByIdAndUpdate', async (_id: unknown, update: { $set: Record<string, unknown> }) => {
+        Object.entries(update.$set).forEach(([path, value]) => gift.set(path, value));
+        return gift;
+      });
+      // Returns the balance before the pipeline update took the gift off it
+      fake(User, 'findOneAndUpdate', () => {
+        const before = new User({ giftCardBalance: recipientBalance });
+        recipientBalance = Math.max(0, recipientBalance - gift.amount);
+        return queryOf(before);
+      });
+    });
+
+    it('revokes the gift and takes the book back from its recipient', async () => {
+      await expect(applyRefund(purchase, { source: 'chargeback' })).resolves.toBe(true);
+
+      expect(gift.status).toBe('revoked');
+      expect(libraryUpdates).toHaveBeenCalledTimes(1);
+      expect(libraryUpdates).toHaveBeenCalledWith(
+        { _id: recipientId },
+        { $pull: { 'profile.readingHistory': { bookId } } }
+      );
+      expect(purchase.metadata?.refund.steps).toContain('gift');
+      expect(requestUpdates.mock.calls[0][1].$set.unrecoveredAmount).toBeUndefined();
+    });
+
+    it('takes a book credited as balance back from the balance and flags what was spent', async () => {
+      gift.creditedAsBalance = true;
+      recipientBalance = 6;
+
+      await applyRefund(purchase, { source: 'buyer' });
+
+      expect(gift.status).toBe('revoked');
+      expect(libraryUpdates).not.toHaveBeenCalled();
+      expect(recipientBalance).toBe(0);
+      expect(purchase.metadata?.refund.unrecoveredGiftBalance).toBe(4);
+      expect(requestUpdates.mock.calls[0][1].$set.unrecoveredAmount).toBe(4);
+    });
+
+    it('revokes a gift that was not claimed yet', async () => {
+      gift.set({ status: 'scheduled', claimedBy: undefined });
+
+      await applyRefund(purchase, { source: 'buyer' });
+
+      expect(gift.status).toBe('revoked');
+      expect(libraryUpdates).not.toHaveBeenCalled();
+    });
+
+    it('takes back the unspent balance of a gift card refunded in PayPal', async () => {
+      gift.set({ type: 'gift_card', book: undefined });
+      purchase.set({ plan: 'gift-card', metadata: { type: 'gift_card', giftId: gift._id } });
+      recipientBalance = 7;
+
+      await expect(handlePayPalEvent(refundEvent('CAPTURE-1'))).resolves.toBe(true);
+
+      expect(purchase.status).toBe('refunded');
+      expect(gift.status).toBe('revoked');
+      expect(recipientBalance).toBe(0);
+      expect(requestUpdates.mock.calls[0][1]).toMatchObject({
+        $set: { status: 'refunded', unrecoveredAmount: 3 },
+        $setOnInsert: { gift: gift._id, book: undefined },
+      });
+    });
+  });
+
+  describe('handlePayPalEvent', () => {
+    const partialRefundEvent = (refundId: string, amount: number, totalRefunded: number): PayPalWebhookEvent => ({
+      ...refundEvent('CAPTURE-1'),
+      resource: {
+        ...refundEvent('CAPTURE-1').resource,
+        id: refundId,
+        amount: { value: amount.toFixed(2) },
+        seller_payable_breakdown: { total_refunded_amount: { value: totalRefunded.toFixed(2) } },
+      },
+    });
+
+    it('applies a refund issued in PayPal to the purchase of its capture', async () => {
+      await expect(handlePayPalEvent(refundEvent('CAPTURE-1'))).resolves.toBe(true);
+
+      expect(purchase.status).toBe('refunded');
+      expect(purchase.metadata?.refund).toMatchObject({ source: 'paypal_refund', paypalRefundId: 'REFUND-9' });
+    });
+
+    it('applies a chargeback to the purchase its reversal points up to', async () => {
+      await expect(handlePayPalEvent(refundEvent('CAPTURE-1', 'PAYMENT.CAPTURE.REVERSED'))).resolves.toBe(true);
+
+      expect(purchase.metadata?.refund).toMatchObject({ source: 'chargeback', paypalRefundId: 'REFUND-9' });
+    });
+
+    it('records a partial refund and keeps the book until the whole payment is returned', async () => {
+      await expect(handlePayPalEvent(partialRefundEvent('REFUND-A', 4, 4))).resolves.toBe(true);
+      await expect(handlePayPalEvent(partialRefundEvent('REFUND-A', 4, 4))).resolves.toBe(false);
+
+      expect(purchase.status).toBe('completed');
+      expect(purchase.metadata?.partialRefunds).toMatchObject([{ paypalRefundId: 'REFUND-A', amount: 4 }]);
+      expect(libraryUpdates).not.toHaveBeenCalled();
+      const [partial] = ledger.filter((entry) => entry.type === 'partial_refund');
+      expect(partial.idempotencyKey).toBe('partial_refund:REFUND-A');
+      expect(partial.lines.map((line) => line.amount)).toEqual([-400, 280, 120]);
+
+      await expect(handlePayPalEvent(partialRefundEvent('REFUND-B', 6, 10))).resolves.toBe(true);
+
+      expect(purchase.status).toBe('refunded');
+      expect(purchase.metadata?.refund.paypalRefundId).toBe('REFUND-B');
+      const [refund] = ledger.filter((entry) => entry.type === 'refund');
+      expect(refund.lines.map((line) => line.amount)).toEqual([-600, 420, 180]);
+    });
+
+    it('ignores other events and unknown captures', async () => {
+      await expect(handlePayPalEvent({ id: 'WH-2', event_type: 'PAYMENT.CAPTURE.COMPLETED' })).resolves.toBe(false);
+      await expect(handlePayPalEvent(refundEvent('CAPTURE-OTHER'))).resolves.toBe(false);
+
+      expect(purchase.status).toBe('completed');
+    });
+  });
+});
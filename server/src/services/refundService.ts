@@ -0,0 +1,518 @@
+/**
+ * Refund Service
+ * Refunds of book and series bundle purchases. A buyer asks within the refund window and
+ * an admin approves (the payment is refunded through PayPal) or rejects
+ * the request; refunds issued in PayPal and chargebacks arrive as webhook
+ * events, for gift cards too. Either way a refund is applied once: the
+ * purchase is marked refunded, its books leave the buyer's library (or
+ * the gift it paid for is revoked) and the sale's earnings are reversed
+ * in the earnings ledger. Partial refunds issued in PayPal are recorded
+ * on the purchase without taking the book back.
+ */
+
+import mongoose from 'mongoose';
+import { Transaction, ITransaction } from '../models/Transaction';
+import { RefundRequest, IRefundRequest, RefundSource, RefundStatus } from '../models/RefundRequest';
+import { User } from '../models/User';
+import { Book } from '../models/Book';
+import { refundBookPayment } from './paypalService';
+import { releaseGiftBalance, revokeGift } from './giftService';
+import { postPartialRefund, postRefund } from './earningsLedgerService';
+import { notifyBookRefund, notifySystem } from './notificationService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+export const REFUND_WINDOW_DAYS = parseInt(process.env.REFUND_WINDOW_DAYS || '14', 10);
+
+export interface PayPalWebhookEvent {
+  id: string;
+  event_type: string;
+  resource?: {
+    id?: string;
+    links?: Array<{ href: string; rel: string }>;
+    [key: string]: any;
+  };
+}
+
+// ============================================
+// BUYER REQUESTS
+// ============================================
+
+/**
+ * The buyer's latest completed (or already refunded) purchase of a book:
+ * the book on its own or a series bundle that included it
+ */
+async function findPurchase(buyerId: string, bookId: string): Promise<ITransaction | null> {
+  return Transaction.findOne({
+    userId: buyerId,
+    $or: [
+      {
+        'metadata.type': 'book_purchase',
+        'metadata.bookId': new mongoose.Types.ObjectId(bookId),
+        'metadata.giftId': { $exists: false },
+      },
+      { 'metadata.type': 'series_purchase', 'metadata.books.bookId': bookId },
+    ],
+    status: { $in: ['completed', 'refunded'] },
+  }).sort({ createdAt: -1 });
+}
+
+/**
+ * The books a purchase paid for, with the part of the price each took.
+ * A series bundle covers several; refunding it refunds them all.
+ */
+function purchasedBooks(transaction: ITransaction): Array<{ bookId: string; amount: number }> {
+  const metadata = transaction.metadata as any;
+
+  if (metadata?.type === 'series_purchase') {
+    return (metadata.books || []).map((part: { bookId: string; amount: number }) => ({
+      bookId: part.bookId.toString(),
+      amount: part.amount,
+    }));
+  }
+  if (!metadata?.bookId) return [];
+  return [{ bookId: metadata.bookId.toString(), amount: transaction.amount + (metadata.giftBalanceUsed || 0) }];
+}
+
+/**
+ * Ask for a refund of a purchased book. Only PayPal purchases made within
+ * the refund window qualify, and each purchase can be asked about once.
+ * A book bought in a series bundle is refunded with the whole bundle.
+ */
+export async function requestRefund(
+  buyerId: string,
+  bookId: string,
+  reason: string
+): Promise<IRefundRequest> {
+  const purchase = await findPurchase(buyerId, bookId);
+  if (!purchase) {
+    throw new NotFoundError('Purchase not found');
+  }
+  if (purchase.status === 'refunded') {
+    throw new ConflictError('This purchase was already refunded');
+  }
+
+  const purchasedAt = new Date(purchase.metadata?.capturedAt || purchase.createdAt);
+  const windowEnds = purchasedAt.getTime() + REFUND_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  if (Date.now() > windowEnds) {
+    throw new ValidationError(`Refunds can be requested within ${REFUND_WINDOW_DAYS} days of purchase`);
+  }
+
+  try {
+    return await RefundRequest.create({
+      transactionRef: purchase._id,
+      buyer: purchase.userId,
+      book: purchase.metadata?.bookId || bookId,
+      series: purchase.metadata?.seriesId,
+      amount: purchase.amount,
+      reason: reason.trim() || undefined,
+      source: 'buyer',
+    });
+  } catch (error: any) {
+    if (error.code === 11000) {
+      throw new ConflictError('A refund was already requested for this purchase');
+    }
+    throw error;
+  }
+}
+
+/**
+ * A buyer's refund requests, newest first
+ */
+export async function listMyRefunds(buyerId: string): Promise<IRefundRequest[]> {
+  return RefundRequest.find({ buyer: buyerId })
+    .populate('book', 'title')
+    .populate('series', 'title')
+    .sort({ createdAt: -1 });
+}
+
+// ============================================
+// ADMIN DECISIONS
+// ============================================
+
+/**
+ * Refund requests for review, newest first
+ */
+export async function listRefundRequests(status?: RefundStatus): Promise<IRefundRequest[]> {
+  return RefundRequest.find(status ? { status } : {})
+    .populate('buyer', 'name email')
+    .populate('book', 'title')
+    .populate('series', 'title')
+    .populate('gift', 'type amount')
+    .populate('decidedBy', 'name')
+    .sort({ createdAt: -1 })
+    .limit(200);
+}
+
+/**
+ * Claim a request for a decision. Only requested (or failed, for a retry)
+ * refunds can be decided, and only one admin wins a concurrent decision.
+ */
+async function claimRequest(
+  requestId: string,
+  status: RefundStatus,
+  adminId: string,
+  note?: string
+): Promise<IRefundRequest> {
+  const request = await RefundRequest.findOneAndUpdate(
+    { _id: requestId, status: { $in: ['requested', 'failed'] } },
+    {
+      $set: {
+        status,
+        decidedBy: new mongoose.Types.ObjectId(adminId),
+        decidedAt: new Date(),
+        decisionNote: note?.trim() || undefined,
+      },
+    },
+    { new: true }
+  );
+
+  if (!request) {
+    const exists = await RefundRequest.exists({ _id: requestId });
+    if (!exists) throw new NotFoundError('Refund request not found');
+    throw new ConflictError('This refund request was already decided');
+  }
+  return request;
+}
+
+/**
+ * Approve a refund: the payment is refunded through PayPal, then applied.
+ * If PayPal refuses, the request is marked failed and can be retried.
+ */
+export async function approveRefund(
+  requestId: string,
+  adminId: string,
+  note?: string
+): Promise<IRefundRequest> {
+  const request = await claimRequest(requestId, 'approved', adminId, note);
+
+  const transaction = await Transaction.findById(request.transactionRef);
+  if (!transaction) {
+    request.status = 'failed';
+    request.failureReason = 'Purchase not found';
+    await request.save();
+    throw new NotFoundError('Purchase not found');
+  }
+
+  // Refunded in PayPal meanwhile (the webhook got here first); finish
+  // applying it if that was cut short
+  if (transaction.status === 'refunded') {
+    await applyRefund(transaction, { source: 'buyer' });
+    return (await RefundRequest.findById(request._id)) || request;
+  }
+
+  const result = await refundBookPayment(transaction, note);
+  if (!result.success) {
+    request.status = 'failed';
+    request.failureReason = result.error;
+    await request.save();
+    throw new ValidationError(`PayPal refund failed: ${result.error}`);
+  }
+
+  await applyRefund(transaction, { source: 'buyer', paypalRefundId: result.refundId });
+  return (await RefundRequest.findById(request._id)) || request;
+}
+
+/**
+ * Reject a refund request with a note for the buyer
+ */
+export async function rejectRefund(
+  requestId: string,
+  adminId: string,
+  note?: string
+): Promise<IRefundRequest> {
+  const request = await claimRequest(requestId, 'rejected', adminId, note);
+  const book = await Book.findById(request.book).select('title');
+
+  notifySystem(
+    request.buyer.toString(),
+    'Refund request declined',
+    `Your refund request for "${book?.title || 'a book'}" was declined${note ? `: ${note}` : ''}`,
+    '/library'
+  ).catch((err) => console.error('Failed to send refund notification:', err));
+
+  return request;
+}
+
+// ============================================
+// APPLYING REFUNDS
+// ============================================
+
+/**
+ * Run one step of applying a refund at most once. The step is claimed on
+ * the transaction before it runs and released again if it fails, so a
+ * retry of the refund picks it up.
+ */
+async function runRefundStep(
+  transactionId: mongoose.Types.ObjectId,
+  step: 'library' | 'gift' | 'gift_balance' | 'statistics' | 'notification',
+  run: () => Promise<void>
+): Promise<void> {
+  const claimed = await Transaction.updateOne(
+    { _id: transactionId, 'metadata.refund.steps': { $ne: step } },
+    { $push: { 'metadata.refund.steps': step } }
+  );
+  if (claimed.modifiedCount === 0) return;
+
+  try {
+    await run();
+  } catch (error) {
+    await Transaction.updateOne({ _id: transactionId }, { $pull: { 'metadata.refund.steps': step } });
+    throw error;
+  }
+}
+
+/**
+ * Apply a refund to a purchase: mark it refunded, take its books out of
+ * the buyer's library (or revoke the gift it paid for), undo the sale's
+ * statistics and reverse its earnings. Safe to call again for the same
+ * purchase: each step runs once, and a call after one that failed part
+ * way finishes the steps still missing. Returns whether this call marked
+ * the purchase refunded.
+ */
+export async function applyRefund(
+  transaction: ITransaction,
+  refund: { source: RefundSource; paypalRefundId?: string }
+): Promise<boolean> {
+  const flipped = await Transaction.findOneAndUpdate(
+    { _id: transaction._id, status: 'completed' },
+    {
+      $set: {
+        status: 'refunded',
+        'metadata.refund': {
+          source: refund.source,
+          paypalRefundId: refund.paypalRefundId,
+          refundedAt: new Date(),
+          steps: [],
+        },
+      },
+    },
+    { new: true }
+  );
+
+  // Refunds applied before steps were tracked count as finished
+  const claimed =
+    flipped ||
+    (await Transaction.findOne({
+      _id: transaction._id,
+      status: 'refunded',
+      'metadata.refund.steps': { $exists: true },
+    }));
+  if (!claimed) return false;
+
+  const transactionId = claimed._id as mongoose.Types.ObjectId;
+  const metadata = claimed.metadata as any;
+  const { source, refundedAt } = metadata.refund;
+  const paypalRefundId = metadata.refund.paypalRefundId || refund.paypalRefundId;
+  const books = purchasedBooks(claimed);
+  const bookId = books[0]?.bookId;
+  const chargeback = source === 'chargeback';
+  const giftBalanceUsed: number = metadata?.giftBalanceUsed || 0;
+
+  // A gift is revoked and taken back from whoever claimed it. Gift card
+  // balance they already spent cannot be, and is left for an admin.
+  let unrecovered: number = metadata.refund.unrecoveredGiftBalance || 0;
+  if (metadata?.giftId) {
+    await runRefundStep(transactionId, 'gift', async () => {
+      unrecovered = await revokeGift(metadata.giftId);
+      if (unrecovered > 0) {
+        await Transaction.updateOne(
+          { _id: transactionId },
+          { $set: { 'metadata.refund.unrecoveredGiftBalance': unrecovered } }
+        );
+      }
+    });
+  } else if (books.length > 0) {
+    await runRefundStep(transactionId, 'library', async () => {
+      await User.updateOne(
+        { _id: claimed.userId },
+        {
+          $pull: {
+            'profile.readingHistory': {
+              bookId: { $in: books.map((book) => new mongoose.Types.ObjectId(book.bookId)) },
+            },
+          },
+        }
+      );
+    });
+  }
+
+  // The part paid from the gift card balance goes back to it
+  if (giftBalanceUsed) {
+    await runRefundStep(transactionId, 'gift_balance', () =>
+      releaseGiftBalance(claimed.userId.toString(), giftBalanceUsed)
+    );
+  }
+
+  // Each book gives back the part of the price it was counted with
+  if (books.length > 0) {
+    await runRefundStep(transactionId, 'statistics', async () => {
+      await Book.bulkWrite(
+        books.map((book) => ({
+          updateOne: {
+            filter: { _id: book.bookId },
+            update: { $inc: { 'statistics.purchases': -1, 'statistics.revenue': -book.amount } },
+          },
+        }))
+      );
+    });
+  }
+
+  // Posted once per purchase by its idempotency key
+  await postRefund(
+    transactionId,
+    `${chargeback ? 'Chargeback' : 'Refund'}: ${metadata?.bookTitle || claimed.description}`
+  );
+
+  await RefundRequest.findOneAndUpdate(
+    { transactionRef: transactionId },
+    {
+      $set: {
+        status: 'refunded',
+        paypalRefundId,
+        refundedAt,
+        unrecoveredAmount: unrecovered || undefined,
+      },
+      $unset: { failureReason: 1 },
+      $setOnInsert: {
+        buyer: claimed.userId,
+        book: bookId,
+        series: metadata?.seriesId,
+        gift: metadata?.giftId,
+        amount: claimed.amount,
+        source,
+      },
+    },
+    { upsert: true }
+  );
+
+  if (bookId && metadata?.authorId) {
+    // Awaited, so a notification that fails is sent by the next retry
+    await runRefundStep(transactionId, 'notification', async () => {
+      await notifyBookRefund(
+        bookId,
+        claimed.userId.toString(),
+        metadata.authorId.toString(),
+        claimed.amount,
+        claimed.currency,
+        chargeback,
+        metadata?.type === 'series_purchase' ? metadata.bookTitle : undefined
+      );
+    });
+  }
+
+  return !!flipped;
+}
+
+// ============================================
+// PAYPAL WEBHOOKS
+// ============================================
+
+/**
+ * The capture a PayPal refund or reversal belongs to, from its "up" link.
+ * Both events carry the refund as their resource, not the capture.
+ */
+function captureIdOfRefund(event: PayPalWebhookEvent): string | undefined {
+  const up = event.resource?.links?.find((link) => link.rel === 'up');
+  return up?.href.match(/\/captures\/([^/?]+)/)?.[1];
+}
+
+/**
+ * What this refund returned and, when PayPal reports it, how much of the
+ * capture has been refunded in all
+ */
+function refundAmounts(event: PayPalWebhookEvent): { amount?: number; totalRefunded?: number } {
+  const amount = parseFloat(event.resource?.amount?.value);
+  const totalRefunded = parseFloat(event.resource?.seller_payable_breakdown?.total_refunded_amount?.value);
+
+  return {
+    amount: Number.isNaN(amount) ? undefined : amount,
+    totalRefunded: Number.isNaN(totalRefunded) ? undefined : totalRefunded,
+  };
+}
+
+/**
+ * Note a partial refund issued in PayPal on a purchase and take its part
+ * of the sale back in the earnings ledger. The buyer keeps the book.
+ * Returns false if the refund was already recorded.
+ */
+async function recordPartialRefund(
+  transaction: ITransaction,
+  refund: { source: RefundSource; paypalRefundId?: string; amount: number }
+): Promise<boolean> {
+  const result = await Transaction.updateOne(
+    { _id: transaction._id, 'metadata.partialRefunds.paypalRefundId': { $ne: refund.paypalRefundId } },
+    { $push: { 'metadata.partialRefunds': { ...refund, refundedAt: new Date() } } }
+  );
+
+  // Posted once per PayPal refund, so a redelivered event finishes a
+  // posting that failed the first time
+  const entry = refund.paypalRefundId
+    ? await postPartialRefund({
+        transactionId: transaction._id as mongoose.Types.ObjectId,
+        paypalRefundId: refund.paypalRefundId,
+        amount: refund.amount,
+        description: `Partial refund: ${transaction.metadata?.bookTitle || transaction.description}`,
+      })
+    : null;
+
+  return result.modifiedCount > 0 || !!entry;
+}
+
+/**
+ * Handle a verified PayPal webhook event. Refunds issued in PayPal and
+ * chargebacks (captures reversed by the buyer's bank) of book, bundle and
+ * gift card purchases are applied like approved refunds once they cover
+ * the whole payment; partial ones are only recorded. Other events are
+ * ignored. Returns whether anything changed.
+ */
+export async function handlePayPalEvent(event: PayPalWebhookEvent): Promise<boolean> {
+  let captureId: string | undefined;
+  let source: RefundSource;
+
+  switch (event.event_type) {
+    case 'PAYMENT.CAPTURE.REFUNDED':
+      captureId = captureIdOfRefund(event);
+      source = 'paypal_refund';
+      break;
+    case 'PAYMENT.CAPTURE.REVERSED':
+      captureId = captureIdOfRefund(event);
+      source = 'chargeback';
+      break;
+    default:
+      return false;
+  }
+
+  if (!captureId) {
+    console.warn(`PayPal ${event.event_type} event ${event.id} names no capture`);
+    return false;
+  }
+
+  const transaction = await Transaction.findOne({
+    paypalCaptureId: captureId,
+    'metadata.type': { $in: ['book_purchase', 'series_purchase', 'gift_card'] },
+  });
+  if (!transaction) return false;
+
+  // The same events arrive for partial refunds; only once the whole
+  // payment has been returned is the purchase refunded
+  const paypalRefundId = event.resource?.id;
+  const { amount, totalRefunded } = refundAmounts(event);
+  if (amount !== undefined) {
+    const earlier = ((transaction.metadata?.partialRefunds || []) as Array<{ paypalRefundId?: string; amount: number }>)
+      .filter((partial) => partial.paypalRefundId !== paypalRefundId)
+      .reduce((sum, partial) => sum + partial.amount, 0);
+    const refundedSoFar = totalRefunded ?? earlier + amount;
+
+    if (Math.round(refundedSoFar * 100) < Math.round(transaction.amount * 100)) {
+      return recordPartialRefund(transaction, { source, paypalRefundId, amount });
+    }
+  }
+
+  // A refund approved here comes back as a webhook too; keep its source
+  const pending = await RefundRequest.findOne({ transactionRef: transaction._id, status: 'approved' });
+  if (pending && source === 'paypal_refund') {
+    source = pending.source;
+  }
+
+  return applyRefund(transaction, { source, paypalRefundId });
+}
@@ -0,0 +1,88 @@
+import mongoose from 'mongoose';
+import { IBook } from '../models/Book';
+import { Series } from '../models/Series';
+import { User } from '../models/User';
+import { makeBook, runningSale } from '../test/fixtures';
+import { quoteBundle } from './seriesService';
+
+const author = new mongoose.Types.ObjectId();
+
+const makeSeries = (bundlePrice?: number) => new Series({ title: 'Tides', author, bundlePrice });
+
+const makeReader = (owned: IBook[] = []) =>
+  new User({ profile: { readingHistory: owned.map((book) => ({ bookId: book._id })) } });
+
+const amountsOf = (quote: ReturnType<typeof quoteBundle>) => quote.books.map((part) => part.amount);
+
+describe('seriesService.quoteBundle', () => {
+  const first = makeBook({ author, price: 4, title: 'First' });
+  const second = makeBook({ author, price: 6, title: 'Second' });
+  const third = makeBook({ author, price: 10, title: 'Third' });
+  const books = [first, second, third];
+
+  it('splits the bundle price over the books by list price', () => {
+    const quote = quoteBundle(makeSeries(15), books, makeReader());
+
+    expect(quote.price).toBe(15);
+    expect(quote.separatePrice).toBe(20);
+    expect(quote.savings).toBe(5);
+    expect(amountsOf(quote)).toEqual([3, 4.5, 7.5]);
+    expect(quote.books.map((part) => part.bookId)).toEqual(books.map((book) => book._id.toString()));
+  });
+
+  it('prorates the price for a reader who owns part of the series', () => {
+    const quote = quoteBundle(makeSeries(15), books, makeReader([third]));
+
+    expect(quote.price).toBe(7.5);
+    expect(quote.separatePrice).toBe(10);
+    expect(amountsOf(quote)).toEqual([3, 4.5]);
+  });
+
+  it('gives the rounding to the last book so the parts add up to the price', () => {
+    const even = [2.99, 2.99, 2.99].map((price) => makeBook({ author, price }));
+
+    const quote = quoteBundle(makeSeries(7), even, makeReader());
+
+    expect(amountsOf(quote)).toEqual([2.33, 2.33, 2.34]);
+    expect(Math.round(amountsOf(quote).reduce((sum, amount) => sum + amount, 0) * 100)).toBe(700);
+  });
+
+  it('leaves free books out of the bundle', () => {
+    const prequel = makeBook({ author, price: 0, title: 'Prequel' });
+
+    const quote = quoteBundle(makeSeries(15), [prequel, ...books], makeReader());
+
+    expect(quote.books).toHaveLength(3);
+    expect(quote.price).toBe(15);
+  });
+
+  it('never charges more than buying the remaining books separately', () => {
+    const onSale = makeBook({ author, price: 10, title: 'Third', sale: runningSale(2) });
+
+    const quote = quoteBundle(makeSeries(15), [first, second, onSale], makeReader([first, second]));
+
+    expect(quote.separatePrice).toBe(2);
+    expect(quote.price).toBe(2);
+    expect(quote.savings).toBe(0);
+  });
+
+  it('keeps the prorated price above the minimum', () => {
+    const novella = makeBook({ author, price: 1 });
+    const epic = makeBook({ author, price: 19 });
+
+    const quote = quoteBundle(makeSeries(5), [novella, epic], makeReader([epic]));
+
+    expect(quote.price).toBe(0.5);
+    expect(amountsOf(quote)).toEqual([0.5]);
+  });
+
+  it('refuses bundles that cannot be bought', () => {
+    expect(() => quoteBundle(makeSeries(), books, makeReader())).toThrow('This series is not sold as a bundle');
+    expect(() => quoteBundle(makeSeries(15), books, new User({ _id: author }))).toThrow(
+      'You cannot purchase your own series'
+    );
+    expect(() => quoteBundle(makeSeries(15), books, makeReader(books))).toThrow(
+      'You already own every book in this series'
+    );
+  });
+});
@@ -0,0 +1,423 @@
+/**
+ * Series Service
+ * Ordered runs of an author's books: management, the public series pages,
+ * "next in series" for readers, and bundle pricing. A bundle is priced
+ * for what the buyer still needs - books they own come off in proportion
+ * to their list price - and never costs more than buying those books
+ * separately would right now.
+ */
+
+import mongoose from 'mongoose';
+import { Book, IBook } from '../models/Book';
+import { Series, ISeries } from '../models/Series';
+import { User, IUser } from '../models/User';
+import { activeSalePrice } from './couponService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+
+// Same floor as single-book pricing
+const MIN_PRICE = 0.5;
+
+const BOOK_FIELDS = 'title description genre author coverDesign.front.imageUrl publishingStatus';
+
+// What an author sees of each book when managing their series
+const AUTHOR_BOOK_FIELDS = 'title publishingStatus.status publishingStatus.price publishingStatus.isFree';
+
+export interface SeriesInput {
+  title?: string;
+  description?: string | null;
+  coverImageUrl?: string | null;
+  books?: string[];
+  bundlePrice?: number | null;
+}
+
+export interface SeriesBook {
+  _id: string;
+  title: string;
+  description?: string;
+  genre: string;
+  coverImageUrl?: string;
+  position: number; // 1-based among the published books
+  price: number;
+  salePrice?: number;
+  isFree: boolean;
+  owned?: boolean; // Only when there is a viewer
+}
+
+export interface BundleQuote {
+  books: Array<{
+    bookId: string;
+    title: string;
+    listPrice: number;
+    amount: number; // This book's part of the bundle price
+  }>;
+  separatePrice: number; // What these books cost bought one by one today
+  price: number;
+  savings: number;
+}
+
+export interface SeriesSummary {
+  _id: string;
+  title: string;
+  description?: string;
+  coverImageUrl?: string;
+  author: { _id: string; name: string };
+  bookCount: number;
+  bundlePrice?: number;
+}
+
+export interface SeriesDetails extends SeriesSummary {
+  books: SeriesBook[];
+  listTotal: number; // Every paid book at list price
+  bundle?: BundleQuote; // For the viewer, when they can buy the bundle
+  bundleUnavailable?: string; // Why they cannot, if the series has a bundle
+}
+
+export interface NextInSeries {
+  series: { _id: string; title: string };
+  position: number;
+  total: number;
+  next?: SeriesBook;
+}
+
+const roundCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+const authorIdOf = (series: ISeries): string => ((series.author as any)._id || series.author).toString();
+
+const isFreeBook = (book: IBook): boolean => book.publishingStatus.isFree || book.publishingStatus.price === 0;
+
+function toSeriesBook(book: IBook, position: number, viewer?: IUser | null): SeriesBook {
+  const entry: SeriesBook = {
+    _id: book._id.toString(),
+    title: book.title,
+    description: book.description,
+    genre: book.genre,
+    coverImageUrl: book.coverDesign?.front?.imageUrl,
+    position,
+    price: book.publishingStatus.price,
+    salePrice: activeSalePrice(book),
+    isFree: isFreeBook(book),
+  };
+  if (viewer) {
+    entry.owned = ownsBook(viewer, book);
+  }
+  return entry;
+}
+
+function toSummary(series: ISeries, bookCount: number): SeriesSummary {
+  return {
+    _id: series._id.toString(),
+    title: series.title,
+    description: series.description,
+    coverImageUrl: series.coverImageUrl,
+    author: { _id: authorIdOf(series), name: (series.author as any).name || 'Unknown Author' },
+    bookCount,
+    bundlePrice: series.bundlePrice,
+  };
+}
+
+/**
+ * Whether a user can read a book without buying it: they wrote it, it is
+ * free, or it is in their library
+ */
+function ownsBook(user: IUser, book: IBook): boolean {
+  if (book.author.toString() === user._id.toString()) return true;
+  if (isFreeBook(book)) return true;
+  return !!user.profile?.readingHistory?.some((item) => item.bookId.toString() === book._id.toString());
+}
+
+/**
+ * The series' published books in reading order
+ */
+async function publishedBooks(series: ISeries): Promise<IBook[]> {
+  const books = await Book.find({
+    _id: { $in: series.books },
+    'publishingStatus.status': 'published',
+  }).select(BOOK_FIELDS);
+
+  const byId = new Map<string, IBook>(books.map((book) => [book._id.toString(), book]));
+  return series.books.map((id) => byId.get(id.toString())).filter((book): book is IBook => !!book);
+}
+
+// ============================================
+// BUNDLE PRICING
+// ============================================
+
+/**
+ * Price the bundle for a buyer from the series' published books. Throws
+ * ValidationError when the series has no bundle or there is nothing left
+ * for the buyer to buy.
+ */
+export function quoteBundle(series: ISeries, books: IBook[], buyer: IUser): BundleQuote {
+  if (!series.bundlePrice) {
+    throw new ValidationError('This series is not sold as a bundle');
+  }
+  if (authorIdOf(series) === buyer._id.toString()) {
+    throw new ValidationError('You cannot purchase your own series');
+  }
+
+  const paid = books.filter((book) => !isFreeBook(book));
+  const needed = paid.filter((book) => !ownsBook(buyer, book));
+  if (needed.length === 0) {
+    throw new ValidationError('You already own every book in this series');
+  }
+
+  const listTotal = paid.reduce((sum, book) => sum + book.publishingStatus.price, 0);
+  const neededList = needed.reduce((sum, book) => sum + book.publishingStatus.price, 0);
+  const separatePrice = roundCents(
+    needed.reduce((sum, book) => sum + (activeSalePrice(book) ?? book.publishingStatus.price), 0)
+  );
+
+  const prorated = roundCents((series.bundlePrice * neededList) / listTotal);
+  const price = Math.min(separatePrice, Math.max(MIN_PRICE, prorated));
+
+  // Split the price over the books by list price; the last book takes
+  // the rounding so the parts add up to what the buyer pays
+  let allotted = 0;
+  const parts = needed.map((book, index) => {
+    const amount =
+      index === needed.length - 1
+        ? roundCents(price - allotted)
+        : roundCents((price * book.publishingStatus.price) / neededList);
+    allotted += amount;
+    return {
+      bookId: book._id.toString(),
+      title: book.title,
+      listPrice: book.publishingStatus.price,
+      amount,
+    };
+  });
+
+  return {
+    books: parts,
+    separatePrice,
+    price,
+    savings: roundCents(separatePrice - price),
+  };
+}
+
+/**
+ * Load a series and price its bundle for a buyer
+ */
+export async function quoteSeriesBundle(
+  seriesId: string,
+  buyer: IUser
+): Promise<{ series: ISeries; books: IBook[]; quote: BundleQuote }> {
+  const series = await Series.findById(seriesId).populate('author', 'name email paypal');
+  if (!series) {
+    throw new NotFoundError('Series not found');
+  }
+
+  const books = await publishedBooks(series);
+  const quote = quoteBundle(series, books, buyer);
+
+  return { series, books, quote };
+}
+
+// ============================================
+// AUTHOR MANAGEMENT
+// ============================================
+
+/**
+ * Check and apply series fields. Books must be the author's, listed once,
+ * and not already in another series.
+ */
+async function applySeriesInput(series: ISeries, input: SeriesInput): Promise<void> {
+  if (input.title !== undefined) series.title = input.title;
+  if (input.description !== undefined) series.description = input.description ?? undefined;
+  if (input.coverImageUrl !== undefined) series.coverImageUrl = input.coverImageUrl || undefined;
+  if (input.bundlePrice !== undefined) series.bundlePrice = input.bundlePrice ?? undefined;
+
+  if (input.books !== undefined) {
+    if (new Set(input.books).size !== input.books.length) {
+      throw new ValidationError('A book can only appear once in a series');
+    }
+
+    const owned = await Book.countDocuments({ _id: { $in: input.books }, author: series.author });
+    if (owned !== input.books.length) {
+      throw new ValidationError('A series can only contain your own books');
+    }
+
+    const other = await Series.findOne({ _id: { $ne: series._id }, books: { $in: input.books } });
+    if (other) {
+      const taken = other.books.find((id) => input.books!.includes(id.toString()));
+      const book = await Book.findById(taken).select('title');
+      throw new ConflictError(`"${book?.title}" is already in the series "${other.title}"`);
+    }
+
+    series.books = input.books.map((id) => new mongoose.Types.ObjectId(id));
+  }
+
+  // Book prices may change later; quotes never charge more than buying
+  // separately, so this only holds the author to it when setting up
+  if (series.bundlePrice && (input.bundlePrice !== undefined || input.books !== undefined)) {
+    const paid = await Book.find({
+      _id: { $in: series.books },
+      'publishingStatus.isFree': { $ne: true },
+      'publishingStatus.price': { $gt: 0 },
+    }).select('publishingStatus.price');
+    const listTotal = paid.reduce((sum, book) => sum + book.publishingStatus.price, 0);
+
+    if (paid.length < 2) {
+      throw new ValidationError('A bundle needs at least two paid books');
+    }
+    if (series.bundlePrice >= listTotal) {
+      throw new ValidationError(`A bundle must cost less than its books do separately ($${listTotal.toFixed(2)})`);
+    }
+    series.bundlePrice = roundCents(series.bundlePrice);
+  }
+}
+
+async function findAuthorSeries(authorId: string, seriesId: string): Promise<ISeries> {
+  const series = await Series.findOne({ _id: seriesId, author: authorId });
+  if (!series) {
+    throw new NotFoundError('Series not found');
+  }
+  return series;
+}
+
+/**
+ * An author's series with their books (drafts included), latest first
+ */
+export async function listSeries(authorId: string): Promise<ISeries[]> {
+  return Series.find({ author: authorId })
+    .populate('books', AUTHOR_BOOK_FIELDS)
+    .sort({ updatedAt: -1 });
+}
+
+/**
+ * Create a series
+ */
+export async function createSeries(authorId: string, input: SeriesInput): Promise<ISeries> {
+  const series = new Series({ author: authorId });
+  await applySeriesInput(series, input);
+  await series.save();
+  return series.populate('books', AUTHOR_BOOK_FIELDS);
+}
+
+/**
+ * Change a series; a books list replaces the order
+ */
+export async function updateSeries(authorId: string, seriesId: string, input: SeriesInput): Promise<ISeries> {
+  const series = await findAuthorSeries(authorId, seriesId);
+  await applySeriesInput(series, input);
+  await series.save();
+  return series.populate('books', AUTHOR_BOOK_FIELDS);
+}
+
+/**
+ * Delete a series. Its books and their buyers are unaffected.
+ */
+export async function deleteSeries(authorId: string, seriesId: string): Promise<void> {
+  const series = await findAuthorSeries(authorId, seriesId);
+  await series.deleteOne();
+}
+
+// ============================================
+// READERS
+// ============================================
+
+/**
+ * Series with at least one published book, most recently updated first
+ */
+export async function listPublishedSeries(limit: number = 12): Promise<SeriesSummary[]> {
+  const candidates = await Series.find()
+    .sort({ updatedAt: -1 })
+    .limit(limit * 3)
+    .populate('author', 'name')
+    .populate({
+      path: 'books',
+      match: { 'publishingStatus.status': 'published' },
+      select: '_id',
+    });
+
+  return candidates
+    .filter((series) => series.books.length > 0)
+    .slice(0, limit)
+    .map((series) => toSummary(series, series.books.length));
+}
+
+/**
+ * A series page: its published books in order and the bundle, priced for
+ * the viewer when there is one
+ */
+export async function getSeriesDetails(seriesId: string, viewerId?: string): Promise<SeriesDetails> {
+  const series = await Series.findById(seriesId).populate('author', 'name');
+  if (!series) {
+    throw new NotFoundError('Series not found');
+  }
+
+  const books = await publishedBooks(series);
+  if (books.length === 0 && authorIdOf(series) !== viewerId) {
+    throw new NotFoundError('Series not found');
+  }
+
+  const viewer = viewerId ? await User.findById(viewerId).select('profile.readingHistory') : null;
+  const listTotal = roundCents(
+    books.filter((book) => !isFreeBook(book)).reduce((sum, book) => sum + book.publishingStatus.price, 0)
+  );
+
+  const details: SeriesDetails = {
+    ...toSummary(series, books.length),
+    books: books.map((book, index) => toSeriesBook(book, index + 1, viewer)),
+    listTotal,
+  };
+
+  if (series.bundlePrice && viewer) {
+    try {
+      details.bundle = quoteBundle(series, books, viewer);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      details.bundleUnavailable = error.message;
+    }
+  }
+
+  return details;
+}
+
+/**
+ * The series a book belongs to and the published book after it, for
+ * readers who just finished it. Null when the book is in no series.
+ */
+export async function getNextInSeries(bookId: string, viewerId?: string): Promise<NextInSeries | null> {
+  const series = await Series.findOne({ books: bookId });
+  if (!series) return null;
+
+  const books = await publishedBooks(series);
+  const index = books.findIndex((book) => book._id.toString() === bookId);
+  if (index === -1) return null;
+
+  const viewer = viewerId ? await User.findById(viewerId).select('profile.readingHistory') : null;
+  const next = books[index + 1];
+
+  return {
+    series: { _id: series._id.toString(), title: series.title },
+    position: index + 1,
+    total: books.length,
+    next: next ? toSeriesBook(next, index + 2, viewer) : undefined,
+  };
+}
+
+/**
+ * Published books that come after a book in its series, for
+ * recommendations
+ */
+export async function getLaterInSeries(
+  bookId: string
+): Promise<{ series: { _id: string; title: string }; books: IBook[] } | null> {
+  const series = await Series.findOne({ books: bookId });
+  if (!series) return null;
+
+  const index = series.books.findIndex((id) => id.toString() === bookId);
+  const later = series.books.slice(index + 1);
+  if (later.length === 0) return null;
+
+  const books = await Book.find({ _id: { $in: later }, 'publishingStatus.status': 'published' })
+    .populate('author', 'name profile.avatar')
+    .lean();
+  const byId = new Map(books.map((book) => [book._id.toString(), book as unknown as IBook]));
+
+  return {
+    series: { _id: series._id.toString(), title: series.title },
+    books: later.map((id) => byId.get(id.toString())).filter((book): book is IBook => !!book),
+  };
+}
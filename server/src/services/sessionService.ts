@@ -0,0 +1,332 @@
+/**
+ * Session Service
+ * Issues short-lived access tokens paired with rotating refresh tokens.
+ * A refresh token has the form "<sessionId>.<secret>"; only a hash of the
+ * secret is stored. Each refresh replaces the secret, and presenting a
+ * replaced secret again revokes the session as a suspected token theft.
+ */
+
+import crypto from 'crypto';
+import { Request } from 'express';
+import { Session, ISession } from '../models/Session';
+import { IUser } from '../models/User';
+import { generateToken } from '../utils/jwt';
+import { expireSubscription } from './creditService';
+import { AuthenticationError } from '../utils/errors';
+
+// Days a session stays signed in without being used
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '', 10) || 30;
+
+// Concurrent refreshes (e.g. two tabs) may present the just-replaced
+// token; within this window that is not treated as reuse
+const ROTATION_GRACE_MS = 30 * 1000;
+
+// Time the client has to exchange a sign-in code after an OAuth redirect
+const SIGN_IN_CODE_TTL_MS = 60 * 1000;
+
+// Minimum time between lastUsedAt writes from access token checks
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+type ClientRequest = Pick<Request, 'headers' | 'ip'>;
+
+const hashSecret = (secret: string): string => crypto.createHash('sha256').update(secret).digest('hex');
+
+function getExpiryDate(): Date {
+  return new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Readable device label from a user agent, e.g. "Chrome on macOS"
+ */
+export function describeDevice(userAgent?: string): string {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge'
+    : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Chrome\/|CriOS\//.test(userAgent) ? 'Chrome'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : null;
+
+  const os =
+    /iPhone|iPad|iPod/.test(userAgent) ? 'iOS'
+    : /Android/.test(userAgent) ? 'Android'
+    : /Windows/.test(userAgent) ? 'Windows'
+    : /Mac OS X|Macintosh/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || 'Unknown device';
+}
+
+function getClientInfo(req: ClientRequest) {
+  const userAgent = (req.headers['user-agent'] || '').slice(0, 500) || undefined;
+  return {
+    userAgent,
+    device: describeDevice(userAgent),
+    ipAddress: req.ip,
+  };
+}
+
+/**
+ * Sign an access token for a session. Requests trust the role it carries,
+ * so a paid plan that has ended lapses here first.
+ */
+async function issueAccessToken(user: IUser, session: ISession): Promise<string> {
+  await expireSubscription(user);
+  return generateToken({
+    id: user._id.toString(),
+    email: user.email,
+    role: user.role,
+    sid: session._id.toString(),
+  });
+}
+
+/**
+ * Start a session for a user who just signed in
+ */
+export async function createSession(
+  user: IUser,
+  req: ClientRequest
+): Promise<AuthTokens> {
+  const secret = crypto.randomBytes(32).toString('hex');
+
+  const session = await Session.create({
+    user: user._id,
+    refreshTokenHash: hashSecret(secret),
+    ...getClientInfo(req),
+    lastUsedAt: new Date(),
+    expiresAt: getExpiryDate(),
+  });
+
+  return {
+    token: await issueAccessToken(user, session),
+    refreshToken: `${session._id}.${secret}`,
+  };
+}
+
+/**
+ * Find the session a refresh token belongs to, if the token is well formed
+ */
+async function findSessionByRefreshToken(refreshToken: string): Promise<{ session: ISession; secretHash: string } | null> {
+  const [sessionId, secret] = (refreshToken || '').split('.');
+
+  if (!sessionId || !secret || !/^[a-f0-9]{24}$/.test(sessionId)) {
+    return null;
+  }
+
+  const session = await Session.findById(sessionId).populate('user', 'email role credits subscription');
+  return session ? { session, secretHash: hashSecret(secret) } : null;
+}
+
+/**
+ * Exchange a refresh token for a new access token and refresh token.
+ * Throws AuthenticationError if the token is invalid, expired or revoked.
+ */
+export async function refreshSession(refreshToken: string, req: ClientRequest): Promise<AuthTokens> {
+  const found = await findSessionByRefreshToken(refreshToken);
+
+  if (!found) {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  const { session, secretHash } = found;
+  const user = session.user as unknown as IUser | null;
+
+  if (session.revokedAt || session.expiresAt < new Date() || !user) {
+    throw new AuthenticationError('Session has expired. Please login again.');
+  }
+
+  if (secretHash !== session.refreshTokenHash) {
+    const withinGrace =
+      secretHash === session.previousRefreshTokenHash &&
+      session.rotatedAt &&
+      Date.now() - session.rotatedAt.getTime() < ROTATION_GRACE_MS;
+
+    if (!withinGrace) {
+      // An old or forged token - assume the refresh token leaked
+      session.revokedAt = new Date();
+      session.revokedReason = 'token_reuse';
+      await session.save();
+      console.warn(`Refresh token reuse detected, session ${session._id} revoked`);
+    }
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  const secret = crypto.randomBytes(32).toString('hex');
+  const client = getClientInfo(req);
+
+  // Rotate only if nobody else rotated in the meantime
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: secretHash, revokedAt: { $exists: false } },
+    {
+      $set: {
+        refreshTokenHash: hashSecret(secret),
+        previousRefreshTokenHash: secretHash,
+        rotatedAt: new Date(),
+        lastUsedAt: new Date(),
+        expiresAt: getExpiryDate(),
+        ipAddress: client.ipAddress,
+      },
+    },
+    { new: true }
+  );
+
+  if (!rotated) {
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  return {
+    token: await issueAccessToken(user, rotated),
+    refreshToken: `${rotated._id}.${secret}`,
+  };
+}
+
+/**
+ * Start a session for a user signed in through a redirect (Google OAuth).
+ * Returns a one-time code of the form "<sessionId>.<secret>" instead of
+ * tokens, so no token ends up in the redirect URL, browser history or
+ * server logs. The session stays unusable until the code is exchanged.
+ */
+export async function createSignInCode(
+  user: Pick<IUser, '_id'>,
+  req: ClientRequest
+): Promise<string> {
+  const code = crypto.randomBytes(32).toString('hex');
+
+  const session = await Session.create({
+    user: user._id,
+    refreshTokenHash: hashSecret(crypto.randomBytes(32).toString('hex')), // Replaced on exchange
+    signInCodeHash: hashSecret(code),
+    ...getClientInfo(req),
+    lastUsedAt: new Date(),
+    expiresAt: new Date(Date.now() + SIGN_IN_CODE_TTL_MS),
+  });
+
+  return `${session._id}.${code}`;
+}
+
+/**
+ * Exchange a sign-in code for the session's first access token and
+ * refresh token. A code works once and only for a short while.
+ * Throws AuthenticationError otherwise.
+ */
+export async function exchangeSignInCode(signInCode: string, req: ClientRequest): Promise<AuthTokens> {
+  const [sessionId, code] = (signInCode || '').split('.');
+
+  if (!sessionId || !code || !/^[a-f0-9]{24}$/.test(sessionId)) {
+    throw new AuthenticationError('Invalid sign-in code');
+  }
+
+  const secret = crypto.randomBytes(32).toString('hex');
+
+  const session = await Session.findOneAndUpdate(
+    {
+      _id: sessionId,
+      signInCodeHash: hashSecret(code),
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    {
+      $set: {
+        refreshTokenHash: hashSecret(secret),
+        lastUsedAt: new Date(),
+        expiresAt: getExpiryDate(),
+        ipAddress: getClientInfo(req).ipAddress,
+      },
+      $unset: { signInCodeHash: 1 },
+    },
+    { new: true }
+  ).populate('user', 'email role credits subscription');
+
+  const user = session?.user as unknown as IUser | null;
+  if (!session || !user) {
+    throw new AuthenticationError('Sign-in code is invalid or has expired. Please sign in again.');
+  }
+
+  return {
+    token: await issueAccessToken(user, session),
+    refreshToken: `${session._id}.${secret}`,
+  };
+}
+
+/**
+ * Whether an access token's session is still active. Also records
+ * activity on the session (at most every few minutes).
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  if (!/^[a-f0-9]{24}$/.test(sessionId)) return false;
+
+  const session = await Session.findById(sessionId).select('user revokedAt expiresAt lastUsedAt').lean();
+
+  if (!session || session.revokedAt || session.expiresAt < new Date() || session.user.toString() !== userId) {
+    return false;
+  }
+
+  if (Date.now() - new Date(session.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    Session.updateOne({ _id: sessionId }, { $set: { lastUsedAt: new Date() } }).catch((err) =>
+      console.error('Failed to update session activity:', err)
+    );
+  }
+
+  return true;
+}
+
+/**
+ * Revoke the session a refresh token belongs to (logout).
+ * Unknown or already revoked tokens are ignored.
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<void> {
+  const found = await findSessionByRefreshToken(refreshToken);
+
+  if (found && !found.session.revokedAt && found.secretHash === found.session.refreshTokenHash) {
+    found.session.revokedAt = new Date();
+    found.session.revokedReason = 'logout';
+    await found.session.save();
+  }
+}
+
+/**
+ * Revoke one of the user's sessions. Returns false if there was no
+ * active session with that id.
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await Session.updateOne(
+    { _id: sessionId, user: userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: 'revoked' } }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Revoke every active session of a user (e.g. after a password reset)
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: ISession['revokedReason'] = 'revoked'
+): Promise<void> {
+  await Session.updateMany(
+    { user: userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+}
+
+/**
+ * List the user's active sessions, most recently used first
+ */
+export async function listActiveSessions(userId: string): Promise<ISession[]> {
+  return Session.find({
+    user: userId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  })
+    .select('device userAgent ipAddress lastUsedAt createdAt expiresAt')
+    .sort({ lastUsedAt: -1 });
+}
@@ -0,0 +1,316 @@
+/**
+ * Story Bible Service
+ * Worldbuilding entries for a book, the chapters that mention them,
+ * and the entries relevant to a passage for AI context
+ */
+
+import { Book, IBook } from '../models/Book';
+import {
+  StoryBibleEntry,
+  IStoryBibleEntry,
+  StoryBibleEntryType,
+  STORY_BIBLE_ENTRY_TYPES,
+} from '../models/StoryBibleEntry';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors';
+
+export interface StoryBibleEntryInput {
+  type?: StoryBibleEntryType;
+  name?: string;
+  aliases?: string[];
+  description?: string;
+  chapters?: string[];
+  inWorldDate?: string;
+  order?: number;
+}
+
+export interface StoryBibleMention {
+  chapterId: string;
+  title: string;
+  count: number;
+}
+
+// What the AI is told about an entry
+export interface StoryBibleContextEntry {
+  type: StoryBibleEntryType;
+  name: string;
+  description: string;
+  inWorldDate?: string;
+}
+
+const MAX_ENTRIES_PER_BOOK = 500;
+
+// Entries passed to the AI with a passage, and how much of each
+const CONTEXT_ENTRY_LIMIT = 8;
+const CONTEXT_DESCRIPTION_LENGTH = 300;
+
+// Hebrew attaches prepositions and articles to the word: בירושלים, והחרב
+const HEBREW_PREFIXES = '[והבכלמש]{0,2}';
+
+interface ChapterText {
+  id: string;
+  title: string;
+  text: string;
+}
+
+// ============================================
+// MENTIONS
+// ============================================
+
+function plainText(html: string): string {
+  return html
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A pattern matching any of an entry's names as whole words, longest
+ * first so 'Old Harbor' wins over 'Harbor'
+ */
+function namePattern(entry: Pick<IStoryBibleEntry, 'name' | 'aliases'>): RegExp {
+  const names = [entry.name, ...entry.aliases]
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map((name) => (/^[\u0590-\u05FF]/.test(name) ? HEBREW_PREFIXES : '') + escapeRegExp(name));
+
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${names.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function countMentions(pattern: RegExp, text: string): number {
+  return text.match(pattern)?.length || 0;
+}
+
+function chapterTexts(book: IBook): ChapterText[] {
+  return [...book.chapters]
+    .sort((a, b) => a.order - b.order)
+    .map((chapter) => ({
+      id: chapter._id!.toString(),
+      title: chapter.title,
+      text: plainText(chapter.content || ''),
+    }));
+}
+
+function findMentions(entry: IStoryBibleEntry, chapters: ChapterText[]): StoryBibleMention[] {
+  const pattern = namePattern(entry);
+  return chapters
+    .map((chapter) => ({ chapterId: chapter.id, title: chapter.title, count: countMentions(pattern, chapter.text) }))
+    .filter((mention) => mention.count > 0);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function findBook(bookId: string, withContent = false): Promise<IBook> {
+  const fields = 'chapters._id chapters.title chapters.order' + (withContent ? ' chapters.content' : '');
+  const book = await Book.findById(bookId).select(fields);
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+  return book;
+}
+
+async function findEntry(bookId: string, entryId: string): Promise<IStoryBibleEntry> {
+  const entry = await StoryBibleEntry.findOne({ _id: entryId, book: bookId });
+  if (!entry) {
+    throw new NotFoundError('Story bible entry not found');
+  }
+  return entry;
+}
+
+/**
+ * Names share a namespace per type: two locations cannot both be
+ * called 'The Citadel', but a faction can
+ */
+async function assertNameFree(bookId: string, type: StoryBibleEntryType, name: string, exceptId?: unknown) {
+  const taken = await StoryBibleEntry.exists({
+    book: bookId,
+    type,
+    name: new RegExp(`^${escapeRegExp(name)}$`, 'i'),
+    ...(exceptId ? { _id: { $ne: exceptId } } : {}),
+  });
+  if (taken) {
+    throw new ConflictError(`There is already a ${type} called "${name}"`);
+  }
+}
+
+function cleanAliases(name: string, aliases: string[]): string[] {
+  const seen = new Set([name.toLowerCase()]);
+  return aliases
+    .map((alias) => alias.trim())
+    .filter((alias) => {
+      const key = alias.toLowerCase();
+      if (!alias || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+// Linked chapters must belong to the book
+function bookChapterIds(book: IBook, chapterIds: string[]): string[] {
+  const ids = new Set(book.chapters.map((chapter) => chapter._id!.toString()));
+  return [...new Set(chapterIds)].filter((id) => ids.has(id));
+}
+
+function toEntryResponse(entry: IStoryBibleEntry, mentions: StoryBibleMention[]) {
+  return {
+    id: entry._id,
+    type: entry.type,
+    name: entry.name,
+    aliases: entry.aliases,
+    description: entry.description,
+    chapters: entry.chapters.map((id) => id.toString()),
+    inWorldDate: entry.inWorldDate,
+    order: entry.order,
+    mentions,
+    createdAt: entry.createdAt,
+    updatedAt: entry.updatedAt,
+  };
+}
+
+/**
+ * Grouped by type; events in timeline order, everything else by name
+ */
+function compareEntries(a: IStoryBibleEntry, b: IStoryBibleEntry): number {
+  const byType = STORY_BIBLE_ENTRY_TYPES.indexOf(a.type) - STORY_BIBLE_ENTRY_TYPES.indexOf(b.type);
+  if (byType !== 0) return byType;
+
+  if (a.type === 'event') {
+    const byOrder = (a.order ?? Number.MAX_SAFE_INTEGER) - (b.order ?? Number.MAX_SAFE_INTEGER);
+    if (byOrder !== 0) return byOrder;
+  }
+  return a.name.localeCompare(b.name);
+}
+
+// ============================================
+// ENTRIES
+// ============================================
+
+/**
+ * The whole story bible, each entry with the chapters that mention it
+ */
+export async function listEntries(bookId: string) {
+  const [book, entries] = await Promise.all([findBook(bookId, true), StoryBibleEntry.find({ book: bookId })]);
+  const chapters = chapterTexts(book);
+
+  return entries.sort(compareEntries).map((entry) => toEntryResponse(entry, findMentions(entry, chapters)));
+}
+
+/**
+ * Add an entry. Events without a position go to the end of the timeline.
+ */
+export async function createEntry(userId: string, bookId: string, input: StoryBibleEntryInput) {
+  const book = await findBook(bookId, true);
+  const type = input.type!;
+  const name = input.name!.trim();
+
+  const count = await StoryBibleEntry.countDocuments({ book: bookId });
+  if (count >= MAX_ENTRIES_PER_BOOK) {
+    throw new ValidationError(`A story bible can hold up to ${MAX_ENTRIES_PER_BOOK} entries`);
+  }
+  await assertNameFree(bookId, type, name);
+
+  let order = input.order;
+  if (type === 'event' && order === undefined) {
+    const last = await StoryBibleEntry.findOne({ book: bookId, type: 'event', order: { $ne: null } })
+      .sort({ order: -1 })
+      .select('order');
+    order = (last?.order ?? 0) + 1;
+  }
+
+  const entry = await StoryBibleEntry.create({
+    book: book._id,
+    type,
+    name,
+    aliases: cleanAliases(name, input.aliases || []),
+    description: input.description?.trim() || '',
+    chapters: bookChapterIds(book, input.chapters || []),
+    inWorldDate: type === 'event' ? input.inWorldDate?.trim() || undefined : undefined,
+    order: type === 'event' ? order : undefined,
+    createdBy: userId,
+  });
+
+  return toEntryResponse(entry, findMentions(entry, chapterTexts(book)));
+}
+
+/**
+ * Edit an entry. Its type is fixed once created.
+ */
+export async function updateEntry(bookId: string, entryId: string, input: StoryBibleEntryInput) {
+  const [book, entry] = await Promise.all([findBook(bookId, true), findEntry(bookId, entryId)]);
+
+  if (input.name !== undefined) {
+    const name = input.name.trim();
+    if (name.toLowerCase() !== entry.name.toLowerCase()) {
+      await assertNameFree(bookId, entry.type, name, entry._id);
+    }
+    entry.name = name;
+  }
+  if (input.aliases !== undefined || input.name !== undefined) {
+    entry.aliases = cleanAliases(entry.name, input.aliases ?? entry.aliases);
+  }
+  if (input.description !== undefined) entry.description = input.description.trim();
+  if (input.chapters !== undefined) {
+    entry.set('chapters', bookChapterIds(book, input.chapters));
+  }
+  if (entry.type === 'event') {
+    if (input.inWorldDate !== undefined) entry.inWorldDate = input.inWorldDate.trim() || undefined;
+    if (input.order !== undefined) entry.order = input.order;
+  }
+
+  await entry.save();
+  return toEntryResponse(entry, findMentions(entry, chapterTexts(book)));
+}
+
+/**
+ * Remove an entry
+ */
+export async function deleteEntry(bookId: string, entryId: string): Promise<void> {
+  const entry = await findEntry(bookId, entryId);
+  await entry.deleteOne();
+}
+
+// ============================================
+// AI CONTEXT
+// ============================================
+
+/**
+ * Entries that matter for a passage: those named in it, then those the
+ * author linked to its chapter. Returns nothing for an empty bible.
+ */
+export async function findRelevantEntries(
+  bookId: string,
+  text: string,
+  chapterId?: string
+): Promise<StoryBibleContextEntry[]> {
+  const entries = await StoryBibleEntry.find({ book: bookId });
+  if (entries.length === 0) return [];
+
+  const passage = plainText(text);
+
+  return entries
+    .map((entry) => {
+      const mentions = countMentions(namePattern(entry), passage);
+      const linked = !!chapterId && entry.chapters.some((id) => id.toString() === chapterId);
+      return { entry, score: mentions * 2 + (linked ? 1 : 0) };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CONTEXT_ENTRY_LIMIT)
+    .map(({ entry }) => ({
+      type: entry.type,
+      name: entry.name,
+      description: entry.description.slice(0, CONTEXT_DESCRIPTION_LENGTH),
+      inWorldDate: entry.inWorldDate,
+    }));
+}
@@ -3,25 +3,9 @@
  * AI-powered tension level analysis throughout the book
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { z } from 'zod';
 import { IBook } from '../models/Book';
-
-// Lazy-initialize Gemini AI client (only when API key is available)
-let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
-
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
+import { generateJSON } from './llmService';
 
 // Types
 export interface TensionMoment {
@@ -44,6 +28,29 @@ export interface TensionAnalysis {
   suggestions: string[];
 }
 
+// Expected AI response
+const tensionAnalysisSchema = z.object({
+  chapters: z.array(
+    z.object({
+      chapterIndex: z.number(),
+      title: z.string(),
+      tensionLevel: z.number().min(0).max(100),
+      type: z.enum(['rising', 'falling', 'peak', 'valley', 'stable']).catch('stable'),
+      keyMoments: z
+        .array(
+          z.object({
+            position: z.number().min(0).max(1),
+            type: z.enum(['conflict', 'revelation', 'resolution', 'cliffhanger', 'suspense']).catch('suspense'),
+            description: z.string(),
+          })
+        )
+        .default([]),
+    })
+  ),
+  overallArc: z.enum(['classic', 'episodic', 'building', 'flat', 'irregular']).catch('irregular'),
+  suggestions: z.array(z.string()).default([]),
+});
+
 /**
  * Strip HTML tags from content
  */
@@ -121,15 +128,11 @@ ${chapterPrompts.slice(0, 8000)}
 - irregular: תבנית לא עקבית`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      throw new Error('Invalid response format');
-    }
-
-    const analysis = JSON.parse(jsonMatch[0]);
+    const analysis: TensionAnalysis = await generateJSON({
+      task: 'analysis.tension',
+      prompt,
+      schema: tensionAnalysisSchema,
+    });
 
     // Ensure all chapters are included
     if (analysis.chapters.length < book.chapters.length) {
@@ -3,24 +3,9 @@
  * AI-powered text manipulation for the floating toolbar
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
-
-// Lazy-initialize Gemini AI client (only when API key is available)
-let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
-
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
+import { z } from 'zod';
+import { generateJSON } from './llmService';
+import { InvalidAIResponseError } from '../utils/errors';
 
 // Types
 export type EnhanceAction = 'improve' | 'expand' | 'shorten' | 'continue';
@@ -37,6 +22,8 @@ export interface EnhanceContext {
     setting?: { atmosphere?: string };
     writingGuidelines?: string[];
   };
+  // Story bible entries named in (or linked to) the passage's chapter
+  storyBible?: Array<{ type: string; name: string; description: string; inWorldDate?: string }>;
 }
 
 export interface EnhanceResult {
@@ -44,8 +31,37 @@ export interface EnhanceResult {
   explanation: string;
 }
 
+// Expected AI response
+const enhanceResultSchema = z.object({
+  enhanced: z.string(),
+  explanation: z.string().default(''),
+});
+
+/**
+ * Ask for an enhancement, returning the fallback if the model never
+ * produces a well-formed answer
+ */
+async function requestEnhancement(
+  action: EnhanceAction,
+  prompt: string,
+  fallback: EnhanceResult
+): Promise<EnhanceResult> {
+  try {
+    return await generateJSON({
+      task: `analysis.enhance-text.${action}`,
+      prompt,
+      schema: enhanceResultSchema,
+    });
+  } catch (error) {
+    if (error instanceof InvalidAIResponseError) {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
 /**
- * Build context prompt from voice interview data
+ * Build context prompt from voice interview data and story bible entries
  */
 function buildContextPrompt(context: EnhanceContext): string {
   let contextStr = '';
@@ -72,6 +88,14 @@ function buildContextPrompt(context: EnhanceContext): string {
     }
   }
 
+  if (context.storyBible && context.storyBible.length > 0) {
+    contextStr += `Story bible (keep these details consistent):\n`;
+    for (const entry of context.storyBible) {
+      const date = entry.inWorldDate ? ` (${entry.inWorldDate})` : '';
+      contextStr += `- ${entry.type} "${entry.name}"${date}: ${entry.description || 'no description'}\n`;
+    }
+  }
+
   return contextStr;
 }
 
@@ -109,15 +133,10 @@ Respond ONLY with valid JSON:
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      return { enhanced: text, explanation: 'לא ניתן היה לשפר את הטקסט' };
-    }
-
-    return JSON.parse(jsonMatch[0]);
+    return await requestEnhancement('improve', prompt, {
+      enhanced: text,
+      explanation: 'לא ניתן היה לשפר את הטקסט',
+    });
   } catch (error) {
     console.error('Error improving text:', error);
     throw new Error('Failed to improve text');
@@ -159,15 +178,10 @@ Respond ONLY with valid JSON:
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      return { enhanced: text, explanation: 'לא ניתן היה להרחיב את הטקסט' };
-    }
-
-    return JSON.parse(jsonMatch[0]);
+    return await requestEnhancement('expand', prompt, {
+      enhanced: text,
+      explanation: 'לא ניתן היה להרחיב את הטקסט',
+    });
   } catch (error) {
     console.error('Error expanding text:', error);
     throw new Error('Failed to expand text');
@@ -208,15 +222,10 @@ Respond ONLY with valid JSON:
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      return { enhanced: text, explanation: 'לא ניתן היה לקצר את הטקסט' };
-    }
-
-    return JSON.parse(jsonMatch[0]);
+    return await requestEnhancement('shorten', prompt, {
+      enhanced: text,
+      explanation: 'לא ניתן היה לקצר את הטקסט',
+    });
   } catch (error) {
     console.error('Error shortening text:', error);
     throw new Error('Failed to shorten text');
@@ -259,15 +268,10 @@ Respond ONLY with valid JSON:
 }`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      return { enhanced: '', explanation: 'לא ניתן היה להמשיך את הטקסט' };
-    }
-
-    return JSON.parse(jsonMatch[0]);
+    return await requestEnhancement('continue', prompt, {
+      enhanced: '',
+      explanation: 'לא ניתן היה להמשיך את הטקסט',
+    });
   } catch (error) {
     console.error('Error continuing text:', error);
     throw new Error('Failed to continue text');
@@ -0,0 +1,469 @@
+/**
+ * Writing Goal Service
+ * Daily word goals, book deadlines, writing sessions and streaks.
+ *
+ * Chapter saves report the change in a book's word count; saves close
+ * together form a session, and each day's words are totalled in the
+ * author's timezone. A day counts toward the streak (kept on
+ * UserActivity) when it meets the daily goal - or, without a goal, when
+ * anything was written. Reminders go out at the author's chosen hour
+ * unless the goal is met or their quiet hours are on.
+ */
+
+import mongoose from 'mongoose';
+import { Book } from '../models/Book';
+import { User } from '../models/User';
+import { UserActivity, IUserActivity } from '../models/UserActivity';
+import { WritingGoal, IWritingGoal, IWritingDay } from '../models/WritingGoal';
+import { WritingSession } from '../models/WritingSession';
+import { notifyWritingReminder } from './notificationService';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export interface WritingGoalSettingsInput {
+  dailyWords?: number;
+  timezone?: string;
+  reminder?: {
+    enabled?: boolean;
+    hour?: number;
+  };
+}
+
+export interface BookGoalInput {
+  targetWords?: number; // Defaults to the book's writingGoal length
+  deadline: string | Date;
+}
+
+// Typical lengths for a book's writingGoal
+export const WRITING_GOAL_WORDS: Record<string, number> = {
+  'short-story': 7500,
+  novella: 30000,
+  novel: 80000,
+};
+
+// Saves further apart than this start a new session
+const SESSION_GAP_MS = 30 * 60 * 1000;
+
+// Days shown in the dashboard's history chart
+const HISTORY_CHART_DAYS = 30;
+
+// Days of history used to judge the pace toward a deadline
+const PACE_DAYS = 14;
+
+const REMINDER_INTERVAL_MS = 15 * 60 * 1000;
+
+// ============================================
+// DAYS
+// ============================================
+
+function isValidTimeZone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The calendar day of a moment in a timezone, as 'YYYY-MM-DD'
+ */
+export function dayKey(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * The day key a number of days before or after another
+ */
+export function shiftDay(key: string, days: number): string {
+  const date = new Date(`${key}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Minutes past local midnight
+ */
+function localMinutes(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find((p) => p.type === type)?.value || 0);
+  return value('hour') * 60 + value('minute');
+}
+
+function parseClock(clock?: string): number | null {
+  const match = clock?.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+/**
+ * Is it within the user's quiet hours? A range may run past midnight.
+ */
+export function isQuietTime(
+  quietHours: { enabled: boolean; start?: string; end?: string } | undefined,
+  date: Date,
+  timezone: string
+): boolean {
+  if (!quietHours?.enabled) return false;
+
+  const start = parseClock(quietHours.start);
+  const end = parseClock(quietHours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const now = localMinutes(date, timezone);
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+async function findGoal(userId: string): Promise<IWritingGoal> {
+  return WritingGoal.findOneAndUpdate(
+    { user: userId },
+    { $setOnInsert: { user: new mongoose.Types.ObjectId(userId) } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  ) as Promise<IWritingGoal>;
+}
+
+function dayEntry(goal: IWritingGoal, date: string): IWritingDay {
+  let entry = goal.history.find((day) => day.date === date);
+  if (!entry) {
+    goal.history.push({ date, words: 0, minutes: 0, sessions: 0, goalMet: false });
+    entry = goal.history[goal.history.length - 1];
+  }
+  return entry;
+}
+
+function meetsGoal(words: number, dailyWords: number): boolean {
+  return dailyWords > 0 ? words >= dailyWords : words > 0;
+}
+
+/**
+ * Count a day that met the goal toward the streak. A streak continues
+ * from yesterday and restarts after a missed day.
+ */
+function advanceStreak(activity: IUserActivity, at: Date, today: string, timezone: string): void {
+  const last = activity.lastStreakDate ? dayKey(activity.lastStreakDate, timezone) : undefined;
+  if (last === today) return;
+
+  activity.currentStreak = last === shiftDay(today, -1) ? activity.currentStreak + 1 : 1;
+  activity.longestStreak = Math.max(activity.longestStreak, activity.currentStreak);
+  activity.lastStreakDate = at;
+}
+
+async function findActivity(userId: string): Promise<IUserActivity> {
+  return (await UserActivity.findOne({ userId })) || new UserActivity({ userId });
+}
+
+// ============================================
+// SESSIONS
+// ============================================
+
+/**
+ * Record a save of a book's chapters: extend or open a session, add the
+ * words to today's total and move the streak when the goal is reached.
+ * Saves that change nothing outside a session are ignored.
+ */
+export async function recordWritingActivity(
+  userId: string,
+  bookId: string,
+  wordDelta: number,
+  at: Date = new Date()
+): Promise<void> {
+  const open = await WritingSession.findOne({
+    user: userId,
+    book: bookId,
+    lastSaveAt: { $gte: new Date(at.getTime() - SESSION_GAP_MS) },
+  }).sort({ lastSaveAt: -1 });
+
+  if (!open && wordDelta === 0) return;
+
+  let minutes = 0;
+  if (open) {
+    minutes = Math.round(((at.getTime() - open.lastSaveAt.getTime()) / 60000) * 10) / 10;
+    open.lastSaveAt = at;
+    open.wordsAdded += wordDelta;
+    open.saves += 1;
+    await open.save();
+  } else {
+    await WritingSession.create({ user: userId, book: bookId, startedAt: at, lastSaveAt: at, wordsAdded: wordDelta });
+  }
+
+  const goal = await findGoal(userId);
+  const today = dayKey(at, goal.timezone);
+  const entry = dayEntry(goal, today);
+  const metBefore = entry.goalMet;
+
+  entry.words += wordDelta;
+  entry.minutes = Math.round((entry.minutes + minutes) * 10) / 10;
+  if (!open) entry.sessions += 1;
+  entry.goalMet = metBefore || meetsGoal(entry.words, goal.dailyWords);
+  goal.markModified('history');
+  await goal.save();
+
+  const activity = await findActivity(userId);
+  let progress = activity.writingProgress.find((p) => p.bookId.toString() === bookId);
+  if (!progress) {
+    activity.writingProgress.push({
+      bookId: new mongoose.Types.ObjectId(bookId),
+      lastEditedAt: at,
+      isCompleted: false,
+      totalWritingTime: 0,
+    });
+    progress = activity.writingProgress[activity.writingProgress.length - 1];
+  }
+  progress.lastEditedAt = at;
+  progress.totalWritingTime += minutes;
+  activity.totalWritingTime += minutes;
+  activity.lastActiveAt = at;
+  if (!activity.currentlyWriting.some((id) => id.toString() === bookId)) {
+    activity.currentlyWriting.push(new mongoose.Types.ObjectId(bookId));
+  }
+  if (entry.goalMet && !metBefore) {
+    advanceStreak(activity, at, today, goal.timezone);
+  }
+  await activity.save();
+}
+
+// ============================================
+// DASHBOARD
+// ============================================
+
+/**
+ * Everything the goals widget shows: today's progress, the streak, the
+ * last 30 days, book deadlines with the pace they need, recent sessions
+ */
+export async function getWritingDashboard(userId: string) {
+  const goal = await findGoal(userId);
+  const now = new Date();
+  const today = dayKey(now, goal.timezone);
+  const byDate = new Map(goal.history.map((day) => [day.date, day]));
+
+  const [activity, books, sessions] = await Promise.all([
+    UserActivity.findOne({ userId }).select('currentStreak longestStreak lastStreakDate').lean(),
+    Book.find({ _id: { $in: goal.bookGoals.map((g) => g.book) } })
+      .select('title writingGoal statistics.wordCount')
+      .lean(),
+    WritingSession.find({ user: userId }).sort({ startedAt: -1 }).limit(10).populate('book', 'title').lean(),
+  ]);
+
+  // A streak is alive while its last day is today or yesterday
+  const lastStreakDay = activity?.lastStreakDate ? dayKey(activity.lastStreakDate, goal.timezone) : undefined;
+  const streakAlive = lastStreakDay === today || lastStreakDay === shiftDay(today, -1);
+
+  const history = Array.from({ length: HISTORY_CHART_DAYS }, (_, index) => {
+    const date = shiftDay(today, index - HISTORY_CHART_DAYS + 1);
+    const day = byDate.get(date);
+    return { date, words: day?.words || 0, minutes: day?.minutes || 0, goalMet: day?.goalMet || false };
+  });
+
+  // Average words per day recently, the pace deadlines are judged by
+  const recent = history.slice(-PACE_DAYS);
+  const pace = recent.reduce((sum, day) => sum + Math.max(0, day.words), 0) / PACE_DAYS;
+
+  const booksById = new Map(books.map((book) => [book._id.toString(), book]));
+  const bookGoals = goal.bookGoals
+    .filter((g) => booksById.has(g.book.toString()))
+    .map((g) => {
+      const book = booksById.get(g.book.toString())!;
+      const written = book.statistics?.wordCount || 0;
+      const remaining = Math.max(0, g.targetWords - written);
+      const daysLeft = daysBetween(today, dayKey(g.deadline, goal.timezone)) + 1; // Including today
+
+      let status: 'done' | 'overdue' | 'on_track' | 'behind' = 'behind';
+      if (remaining === 0) status = 'done';
+      else if (daysLeft <= 0) status = 'overdue';
+      else if (pace * daysLeft >= remaining) status = 'on_track';
+
+      return {
+        bookId: g.book,
+        title: book.title,
+        targetWords: g.targetWords,
+        wordsWritten: written,
+        deadline: g.deadline,
+        daysLeft: Math.max(0, daysLeft),
+        wordsPerDay: daysLeft > 0 ? Math.ceil(remaining / daysLeft) : remaining,
+        status,
+      };
+    });
+
+  const todayEntry = byDate.get(today);
+
+  return {
+    settings: {
+      dailyWords: goal.dailyWords,
+      timezone: goal.timezone,
+      reminder: goal.reminder,
+    },
+    today: {
+      date: today,
+      words: todayEntry?.words || 0,
+      minutes: todayEntry?.minutes || 0,
+      sessions: todayEntry?.sessions || 0,
+      goalMet: todayEntry?.goalMet || false,
+    },
+    streak: {
+      current: streakAlive ? activity!.currentStreak : 0,
+      longest: activity?.longestStreak || 0,
+    },
+    history,
+    bookGoals,
+    recentSessions: sessions.map((session) => ({
+      id: session._id,
+      book: session.book,
+      startedAt: session.startedAt,
+      lastSaveAt: session.lastSaveAt,
+      wordsAdded: session.wordsAdded,
+      minutes: Math.round((session.lastSaveAt.getTime() - session.startedAt.getTime()) / 60000),
+    })),
+  };
+}
+
+// ============================================
+// GOALS
+// ============================================
+
+/**
+ * Change the daily goal, timezone or reminder. A lower goal that today's
+ * words already meet counts today toward the streak.
+ */
+export async function updateGoalSettings(userId: string, input: WritingGoalSettingsInput) {
+  const goal = await findGoal(userId);
+
+  if (input.timezone !== undefined) {
+    if (!isValidTimeZone(input.timezone)) {
+      throw new ValidationError('Unknown timezone');
+    }
+    goal.timezone = input.timezone;
+  }
+  if (input.dailyWords !== undefined) goal.dailyWords = input.dailyWords;
+  if (input.reminder?.enabled !== undefined) goal.reminder.enabled = input.reminder.enabled;
+  if (input.reminder?.hour !== undefined) goal.reminder.hour = input.reminder.hour;
+
+  const now = new Date();
+  const today = dayKey(now, goal.timezone);
+  const entry = goal.history.find((day) => day.date === today);
+  if (entry && !entry.goalMet && meetsGoal(entry.words, goal.dailyWords)) {
+    entry.goalMet = true;
+    goal.markModified('history');
+
+    const activity = await findActivity(userId);
+    advanceStreak(activity, now, today, goal.timezone);
+    await activity.save();
+  }
+
+  await goal.save();
+  return getWritingDashboard(userId);
+}
+
+/**
+ * Set (or move) the deadline for finishing a book
+ */
+export async function setBookGoal(userId: string, bookId: string, input: BookGoalInput) {
+  const book = await Book.findById(bookId).select('writingGoal');
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+
+  const targetWords = input.targetWords || (book.writingGoal ? WRITING_GOAL_WORDS[book.writingGoal] : undefined);
+  if (!targetWords) {
+    throw new ValidationError('Set a target word count - this book has no length goal');
+  }
+
+  const deadline = new Date(input.deadline);
+  if (Number.isNaN(deadline.getTime()) || deadline.getTime() <= Date.now()) {
+    throw new ValidationError('The deadline must be in the future');
+  }
+
+  const goal = await findGoal(userId);
+  const existing = goal.bookGoals.find((g) => g.book.toString() === bookId);
+  if (existing) {
+    existing.targetWords = targetWords;
+    existing.deadline = deadline;
+  } else {
+    goal.bookGoals.push({ book: book._id as mongoose.Types.ObjectId, targetWords, deadline, createdAt: new Date() });
+  }
+
+  goal.markModified('bookGoals');
+  await goal.save();
+  return getWritingDashboard(userId);
+}
+
+/**
+ * Drop a book's deadline
+ */
+export async function removeBookGoal(userId: string, bookId: string) {
+  const goal = await findGoal(userId);
+  goal.bookGoals = goal.bookGoals.filter((g) => g.book.toString() !== bookId);
+  await goal.save();
+  return getWritingDashboard(userId);
+}
+
+// ============================================
+// REMINDERS
+// ============================================
+
+/**
+ * Remind authors whose reminder hour has passed and who have not met
+ * today's goal - once a day, with writing notifications on, and not
+ * during their quiet hours (the reminder waits until they end)
+ */
+export async function sendWritingReminders(now: Date = new Date()): Promise<number> {
+  const goals = await WritingGoal.find({ 'reminder.enabled': true, dailyWords: { $gt: 0 } });
+  if (goals.length === 0) return 0;
+
+  const users = await User.find({ _id: { $in: goals.map((g) => g.user) } })
+    .select('profile.notificationPreferences')
+    .lean();
+  const usersById = new Map(users.map((u) => [u._id.toString(), u]));
+
+  let sent = 0;
+  for (const goal of goals) {
+    const today = dayKey(now, goal.timezone);
+    if (goal.lastReminderOn === today) continue;
+    if (localMinutes(now, goal.timezone) < goal.reminder.hour * 60) continue;
+
+    const entry = goal.history.find((day) => day.date === today);
+    if (entry?.goalMet) continue;
+
+    const preferences = usersById.get(goal.user.toString())?.profile?.notificationPreferences;
+    if (preferences?.writing === false) continue;
+    if (isQuietTime(preferences?.quietHours, now, goal.timezone)) continue;
+
+    try {
+      await notifyWritingReminder(goal.user.toString(), Math.max(0, entry?.words || 0), goal.dailyWords);
+      goal.lastReminderOn = today;
+      await goal.save();
+      sent += 1;
+    } catch (error) {
+      console.error(`Failed to send writing reminder to ${goal.user}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Check for due reminders every 15 minutes. Needs a long-running
+ * process, so it is not started on Vercel.
+ */
+export function startWritingReminders(): NodeJS.Timeout {
+  const timer = setInterval(() => {
+    sendWritingReminders().catch((err) => console.error('Failed to send writing reminders:', err));
+  }, REMINDER_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -3,25 +3,9 @@
  * Real-time writing guidance and deviation detection
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { z } from 'zod';
 import { IBook } from '../models/Book';
-
-// Lazy-initialize Gemini AI client (only when API key is available)
-let genAIClient: GoogleGenerativeAI | null = null;
-let modelInstance: GenerativeModel | null = null;
-
-function getGeminiModel(): GenerativeModel {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error('GEMINI_API_KEY is not configured');
-  }
-  if (!genAIClient) {
-    genAIClient = new GoogleGenerativeAI(process.env.GEMINI_API_KEY);
-  }
-  if (!modelInstance) {
-    modelInstance = genAIClient.getGenerativeModel({ model: 'gemini-2.0-flash' });
-  }
-  return modelInstance;
-}
+import { generateJSON } from './llmService';
 
 // Types
 export interface GuidanceSuggestion {
@@ -38,6 +22,28 @@ export interface WritingGuidance {
   dismissible: boolean;
 }
 
+// Expected AI response
+const guidanceResponseSchema = z.object({
+  hasGuidance: z.boolean(),
+  guidance: z
+    .object({
+      type: z.enum(['deviation', 'structure', 'tension', 'character', 'pacing', 'theme']),
+      severity: z.enum(['info', 'warning', 'suggestion']).catch('suggestion'),
+      message: z.string(),
+      context: z.string().optional(),
+      suggestions: z
+        .array(
+          z.object({
+            text: z.string(),
+            insertable: z.string().optional(),
+          })
+        )
+        .default([]),
+      dismissible: z.boolean().default(true),
+    })
+    .optional(),
+});
+
 /**
  * Strip HTML tags from content
  */
@@ -122,17 +128,14 @@ ${recentText}
 - המבנה חסר אלמנט חשוב`;
 
   try {
-    const result = await getGeminiModel().generateContent(prompt);
-    const response = result.response.text();
-    const jsonMatch = response.match(/\{[\s\S]*\}/);
-
-    if (!jsonMatch) {
-      return null;
-    }
-
-    const parsed = JSON.parse(jsonMatch[0]);
-
-    if (!parsed.hasGuidance) {
+    const parsed = await generateJSON({
+      task: 'analysis.guidance',
+      retries: 1, // Real-time check, a stale answer is not worth waiting for
+      prompt,
+      schema: guidanceResponseSchema,
+    });
+
+    if (!parsed.hasGuidance || !parsed.guidance) {
       return null;
     }
 
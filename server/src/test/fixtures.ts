@@ -0,0 +1,145 @@
+/**
+ * Test fixtures
+ * Stand-ins for Mongoose model calls and Express responses, so services
+ * and middleware can be tested without a database or a running server
+ */
+
+import { EventEmitter } from 'events';
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { Book, IBook } from '../models/Book';
+import { EarningsLedger, IEarningsEntry } from '../models/EarningsLedger';
+
+export const DAY = 24 * 60 * 60 * 1000;
+
+type MethodOf<T> = { [K in keyof T]-?: T[K] extends (...args: never[]) => unknown ? K : never }[keyof T];
+
+/**
+ * Replace a method (usually a model static) with a fake until the test's
+ * mocks are restored. Model statics have many overloads, so the fake is
+ * only held to the call the code under test makes.
+ */
+export function fake<T extends object>(
+  target: T,
+  method: MethodOf<T>,
+  implementation: (...args: never[]) => unknown
+): jest.SpyInstance {
+  return jest.spyOn(target, method as never).mockImplementation(implementation as never);
+}
+
+/**
+ * A query that resolves to the given result however it is refined
+ * (select, sort, populate, lean, ...)
+ */
+export function queryOf<T>(result: T) {
+  const query = {
+    select: () => query,
+    sort: () => query,
+    limit: () => query,
+    populate: () => query,
+    lean: () => query,
+    exec: () => Promise.resolve(result),
+    then: <R1 = T, R2 = never>(
+      onFulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+      onRejected?: ((reason: unknown) => R2 | PromiseLike<R2>) | null
+    ) => Promise.resolve(result).then(onFulfilled, onRejected),
+  };
+  return query;
+}
+
+/**
+ * A book with the fields pricing reads: its author and list price, and a
+ * sale if it has one
+ */
+export function makeBook(fields: {
+  author: mongoose.Types.ObjectId;
+  price: number;
+  title?: string;
+  sale?: { price: number; startsAt: Date; endsAt: Date };
+}): IBook {
+  return new Book({
+    title: fields.title || 'Untitled',
+    author: fields.author,
+    publishingStatus: { price: fields.price, isFree: fields.price === 0, sale: fields.sale },
+  });
+}
+
+/**
+ * A sale price that started yesterday and ends tomorrow
+ */
+export const runningSale = (price: number) => ({
+  price,
+  startsAt: new Date(Date.now() - DAY),
+  endsAt: new Date(Date.now() + DAY),
+});
+
+/**
+ * Earnings ledger kept in memory. Entries go through the schema validators,
+ * and a repeated idempotency key is refused like the unique index does.
+ * Returns the stored entries.
+ */
+export function fakeEarningsLedger(): IEarningsEntry[] {
+  const stored: IEarningsEntry[] = [];
+
+  fake(EarningsLedger, 'create', async (doc: object) => {
+    const entry = new EarningsLedger(doc);
+    await entry.validate();
+    if (stored.some((existing) => existing.idempotencyKey === entry.idempotencyKey)) {
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }
+    stored.push(entry);
+    return entry;
+  });
+
+  const matching = (filter: { type: string; transactionRef: mongoose.Types.ObjectId }) =>
+    stored.filter(
+      (entry) => entry.type === filter.type && entry.transactionRef?.toString() === filter.transactionRef.toString()
+    );
+  fake(EarningsLedger, 'findOne', (filter: { type: string; transactionRef: mongoose.Types.ObjectId }) =>
+    queryOf(matching(filter)[0] ?? null)
+  );
+  fake(EarningsLedger, 'find', (filter: { type: string; transactionRef: mongoose.Types.ObjectId }) =>
+    queryOf(matching(filter))
+  );
+
+  return stored;
+}
+
+/**
+ * Response that records what a handler sent and emits 'finish' then
+ * 'close' once a body is written, like Express does. A client that goes
+ * away first is simulated by emitting 'close' alone.
+ */
+export class FakeResponse extends EventEmitter {
+  statusCode = 200;
+  body: unknown;
+  headers: Record<string, string> = {};
+  writableFinished = false;
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  json(body: unknown): this {
+    this.body = body;
+    this.writableFinished = true;
+    this.emit('finish');
+    this.emit('close');
+    return this;
+  }
+
+  setHeader(name: string, value: string): this {
+    this.headers[name] = value;
+    return this;
+  }
+
+  asResponse(): Response {
+    return this as unknown as Response;
+  }
+}
+
+/**
+ * Let pending promise callbacks (fire-and-forget work) run
+ */
+export const settle = (): Promise<void> => new Promise((resolve) => setImmediate(resolve));
@@ -22,6 +22,7 @@ export interface AuthRequest extends Omit<Request, 'user'> {
     id: string;
     email: string;
     role: UserRole;
+    sessionId?: string; // Session the access token belongs to
     _id?: any;
     name?: string;
     credits?: number;
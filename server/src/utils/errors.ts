@@ -50,8 +50,23 @@ export class InsufficientCreditsError extends AppError {
   public available: number;
 
   constructor(required: number, available: number) {
-    super('Insufficient credits', 403);
+    super('Insufficient credits', 402);
     this.required = required;
     this.available = available;
   }
 }
+
+export class AIServiceError extends AppError {
+  public retryable: boolean;
+
+  constructor(message: string = 'AI service request failed', retryable: boolean = false, statusCode: number = 502) {
+    super(message, statusCode);
+    this.retryable = retryable;
+  }
+}
+
+export class InvalidAIResponseError extends AIServiceError {
+  constructor(message: string = 'AI response did not match the expected format') {
+    super(message, true);
+  }
+}
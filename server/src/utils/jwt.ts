@@ -6,8 +6,13 @@ export interface JWTPayload {
   id: string;
   email: string;
   role: UserRole;
+  sid?: string; // Session the token was issued for
+  iat?: number; // Issued-at (seconds), set by jsonwebtoken
 }
 
+// Access tokens are short-lived; clients renew them with a refresh token
+const ACCESS_TOKEN_EXPIRES_IN = (process.env.JWT_ACCESS_EXPIRES_IN || '15m') as jwt.SignOptions['expiresIn'];
+
 // Get JWT secret from environment
 const getJWTSecret = (): string => {
   const secret = process.env.JWT_SECRET;
@@ -18,14 +23,14 @@ const getJWTSecret = (): string => {
 };
 
 /**
- * Generate JWT token
- * Section 17.1: JWT tokens with 60-day expiry
+ * Generate JWT access token for a session
+ * Expiry is set by JWT_ACCESS_EXPIRES_IN (default 15 minutes)
  */
 export const generateToken = (payload: JWTPayload): string => {
   const secret = getJWTSecret();
 
   return jwt.sign(payload, secret, {
-    expiresIn: '60d',
+    expiresIn: ACCESS_TOKEN_EXPIRES_IN,
     issuer: 'mestory-api',
   });
 };
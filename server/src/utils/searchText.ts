@@ -0,0 +1,90 @@
+/**
+ * Search text normalization
+ * Shared by the book search index and search queries so both sides
+ * tokenize the same way. MongoDB's text index has no Hebrew support, so
+ * Hebrew words are also indexed without their attached prefixes
+ * (ו, ה, ב, כ, ל, מ, ש - "ובבית" also yields "בבית" and "בית").
+ */
+
+const HEBREW_LETTER = /[א-ת]/;
+const HEBREW_PREFIXES = 'ובהכלמש';
+
+// At most two prefix letters are stripped ("וכש", "ומה" are rarer and noisier)
+const MAX_STRIPPED_PREFIXES = 2;
+const MIN_STEM_LENGTH = 3;
+
+/**
+ * Lowercase, remove Latin diacritics and Hebrew niqqud/cantillation,
+ * and drop geresh/gershayim inside words (צה"ל -> צהל)
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u0591-\u05bd\u05bf\u05c1\u05c2\u05c4\u05c5\u05c7]/g, '')
+    .replace(/([א-ת])["'׳״]+(?=[א-ת])/g, '$1')
+    .toLowerCase();
+}
+
+/**
+ * Split text into normalized word tokens
+ */
+export function tokenize(text: string): string[] {
+  return normalizeSearchText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * A token plus the variants it should also match: Hebrew words without
+ * their leading prefix letters
+ */
+export function expandToken(token: string): string[] {
+  const variants = [token];
+
+  if (!HEBREW_LETTER.test(token[0])) {
+    return variants;
+  }
+
+  let stem = token;
+  for (let i = 0; i < MAX_STRIPPED_PREFIXES; i++) {
+    if (!HEBREW_PREFIXES.includes(stem[0]) || stem.length - 1 < MIN_STEM_LENGTH) break;
+    stem = stem.slice(1);
+    variants.push(stem);
+  }
+
+  return variants;
+}
+
+/**
+ * Prefix-stripped variants for all words in the given texts, excluding
+ * the words themselves (those are already covered by the text index)
+ */
+export function buildSearchVariants(texts: Array<string | undefined>): string {
+  const words = new Set<string>();
+  const variants = new Set<string>();
+
+  for (const text of texts) {
+    if (!text) continue;
+    for (const token of tokenize(text)) {
+      words.add(token);
+      expandToken(token).slice(1).forEach((variant) => variants.add(variant));
+    }
+  }
+
+  return [...variants].filter((variant) => !words.has(variant)).join(' ');
+}
+
+/**
+ * Build a MongoDB $text search string from user input. Every token and
+ * its variants are ORed, so "ובספר" also finds books mentioning "ספר".
+ */
+export function buildTextQuery(query: string): string {
+  const terms = new Set<string>();
+
+  for (const token of tokenize(query)) {
+    expandToken(token).forEach((variant) => terms.add(variant));
+  }
+
+  return [...terms].join(' ');
+}